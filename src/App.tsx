@@ -10,11 +10,18 @@ import {
   PacketSimulationPanel,
   StatisticsPanel,
   STPPanel,
+  AclPanel,
+  FirewallPanel,
   CommandPalette,
   ErrorBoundary,
   useTheme,
   shortcutManager,
-  createDefaultShortcuts
+  createDefaultShortcuts,
+  useSpanningTreeEngine,
+  useRoutingEngine,
+  usePortSecurityEvents,
+  useVtpSynchronization,
+  useDynamicTrunking
 } from './modules';
 
 /**
@@ -27,6 +34,11 @@ function App() {
   const [showShortcutsHelp, setShowShortcutsHelp] = useState(false);
   
   const store = useAppStore();
+  useSpanningTreeEngine();
+  useRoutingEngine();
+  usePortSecurityEvents();
+  useDynamicTrunking();
+  useVtpSynchronization();
 
   // Initialize keyboard shortcuts
   useEffect(() => {
@@ -155,6 +167,12 @@ function App() {
             {currentView === ViewType.STP && (
               <STPPanel />
             )}
+            {currentView === ViewType.ACL && (
+              <AclPanel />
+            )}
+            {currentView === ViewType.FIREWALL && (
+              <FirewallPanel />
+            )}
           </div>
         </div>
       </div>
@@ -0,0 +1,557 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { useAppStore } from '../../store';
+import { SubnetCalculator } from '../../utils/routing/routingEngine';
+import {
+  packetProcessingEngine,
+  AccessControlList,
+  AclEntry,
+  AclDirection,
+  IMPLICIT_DENY_RULE,
+  describeAclEntry,
+  createAclProbePacket,
+} from '../../utils/networking/packetProcessingEngine';
+import { NetworkConfigurationManager, ConfigResult } from '../../utils/networking/networkConfiguration';
+import { AclDevice, getAccessLists, supportsAccessLists, toAccessControlList } from '../../utils/networking/accessLists';
+
+type PortOperator = 'any' | 'eq' | 'lt' | 'gt' | 'range';
+
+const PROTOCOLS = ['ip', 'tcp', 'udp', 'icmp', 'gre', 'esp', 'ospf', 'eigrp'];
+
+const isIpAddress = (text: string): boolean =>
+  /^(\d{1,3}\.){3}\d{1,3}$/.test(text) && text.split('.').every(octet => Number(octet) <= 255);
+
+// "any", "host 10.0.0.1", "10.0.0.0 0.0.0.255" or "10.0.0.0/24" as the CIDR an entry stores;
+// undefined means any, null means the text is not an address
+const parseAclAddress = (text: string): string | undefined | null => {
+  const words = text.trim().toLowerCase().split(/\s+/);
+  if (words[0] === '' || words[0] === 'any') return words.length === 1 ? undefined : null;
+  if (words[0] === 'host') return words.length === 2 && isIpAddress(words[1]) ? `${words[1]}/32` : null;
+
+  if (words.length === 1) {
+    const [ip, prefix] = words[0].split('/');
+    if (!isIpAddress(ip)) return null;
+    if (prefix === undefined) return `${ip}/32`;
+    const length = Number(prefix);
+    return Number.isInteger(length) && length >= 0 && length <= 32 ? `${ip}/${length}` : null;
+  }
+
+  if (words.length !== 2 || !isIpAddress(words[0]) || !isIpAddress(words[1])) return null;
+  const mask = words[1].split('.').map(octet => 255 - Number(octet)).join('.');
+  const length = SubnetCalculator.maskToPrefix(mask);
+  // Only contiguous wildcards describe a subnet
+  return Number.isInteger(length) && SubnetCalculator.prefixToMask(length) === mask ? `${words[0]}/${length}` : null;
+};
+
+// Port operator and values as an entry's port match; undefined means any, null means invalid
+const parsePortMatch = (
+  operator: PortOperator,
+  first: string,
+  second: string
+): number | { min: number, max: number } | undefined | null => {
+  if (operator === 'any') return undefined;
+
+  const a = Number(first);
+  const b = Number(second);
+  const valid = (port: number) => first !== '' && Number.isInteger(port) && port >= 0 && port <= 65535;
+  if (!valid(a)) return null;
+
+  switch (operator) {
+    case 'eq': return a;
+    case 'lt': return a > 0 ? { min: 0, max: a - 1 } : null;
+    case 'gt': return a < 65535 ? { min: a + 1, max: 65535 } : null;
+    case 'range': return second !== '' && valid(b) && b >= a ? { min: a, max: b } : null;
+  }
+};
+
+// Numbered lists take their type from the number, as in IOS; null for a number outside both ranges
+const numberedAclType = (name: string): AccessControlList['type'] | undefined | null => {
+  if (!/^\d+$/.test(name)) return undefined;
+  const number = Number(name);
+  if ((number >= 1 && number <= 99) || (number >= 1300 && number <= 1999)) return 'standard';
+  if ((number >= 100 && number <= 199) || (number >= 2000 && number <= 2699)) return 'extended';
+  return null;
+};
+
+/**
+ * Make an ACL change to a device the way the CLI does, then store the device's ACLs and the
+ * access groups of its interfaces
+ */
+const updateAccessLists = (deviceId: string, change: (manager: NetworkConfigurationManager) => ConfigResult): ConfigResult => {
+  const { devices, vlans, connections, updateDevice } = useAppStore.getState();
+  const manager = new NetworkConfigurationManager();
+  manager.loadState(structuredClone(devices), structuredClone(vlans), connections);
+  const result = change(manager);
+  if (result.success) {
+    const updated = manager.getDevice(deviceId) as AclDevice;
+    updateDevice(deviceId, { accessLists: updated.accessLists, interfaces: updated.interfaces } as Partial<AclDevice>);
+  }
+  return result;
+};
+
+const inputClass = 'w-full bg-gray-800 border border-gray-700 rounded px-2 py-1 text-sm';
+
+/**
+ * Port operator and value inputs for one side of an extended entry
+ */
+const PortInput: React.FC<{
+  label: string;
+  operator: PortOperator;
+  first: string;
+  second: string;
+  onChange: (operator: PortOperator, first: string, second: string) => void;
+}> = ({ label, operator, first, second, onChange }) => (
+  <div>
+    <label className="block text-xs text-gray-400 mb-1">{label}</label>
+    <div className="flex space-x-1">
+      <select
+        value={operator}
+        onChange={(e) => onChange(e.target.value as PortOperator, first, second)}
+        className="bg-gray-800 border border-gray-700 rounded px-1 py-1 text-sm"
+      >
+        <option value="any">any</option>
+        <option value="eq">eq</option>
+        <option value="lt">lt</option>
+        <option value="gt">gt</option>
+        <option value="range">range</option>
+      </select>
+      {operator !== 'any' && (
+        <input value={first} onChange={(e) => onChange(operator, e.target.value, second)} className={inputClass} placeholder="port" />
+      )}
+      {operator === 'range' && (
+        <input value={second} onChange={(e) => onChange(operator, first, e.target.value)} className={inputClass} placeholder="to" />
+      )}
+    </div>
+  </div>
+);
+
+/**
+ * Access control list editor: standard and extended ACLs, interface bindings, live hit counts and a match tester
+ */
+const AclPanel: React.FC = () => {
+  const { devices } = useAppStore();
+  // Hit counts live in the mutable packet processor; bump this to re-render after changing them
+  const [, setRevision] = useState(0);
+  const refresh = () => setRevision(revision => revision + 1);
+  const [selectedDeviceId, setSelectedDeviceId] = useState<string | undefined>();
+  const [selectedAcl, setSelectedAcl] = useState<string | undefined>();
+  const [error, setError] = useState<string | undefined>();
+
+  // New ACL
+  const [newAclName, setNewAclName] = useState('');
+  const [newAclType, setNewAclType] = useState<AccessControlList['type']>('extended');
+
+  // New entry
+  const [sequence, setSequence] = useState('');
+  const [action, setAction] = useState<AclEntry['action']>('permit');
+  const [protocol, setProtocol] = useState('ip');
+  const [source, setSource] = useState('any');
+  const [destination, setDestination] = useState('any');
+  const [srcPort, setSrcPort] = useState<[PortOperator, string, string]>(['any', '', '']);
+  const [dstPort, setDstPort] = useState<[PortOperator, string, string]>(['any', '', '']);
+  const [established, setEstablished] = useState(false);
+  const [log, setLog] = useState(false);
+
+  // Tester 5-tuple
+  const [probeProtocol, setProbeProtocol] = useState('tcp');
+  const [probeSrcIp, setProbeSrcIp] = useState('10.0.1.10');
+  const [probeSrcPort, setProbeSrcPort] = useState('49152');
+  const [probeDstIp, setProbeDstIp] = useState('10.0.3.10');
+  const [probeDstPort, setProbeDstPort] = useState('80');
+  const [probeEstablished, setProbeEstablished] = useState(false);
+
+  // Routers, switches and firewalls are where ACLs are applied
+  const aclDevices = useMemo(() => devices.filter(supportsAccessLists), [devices]);
+  const device = aclDevices.find(d => d.id === selectedDeviceId) ?? aclDevices[0];
+
+  // Hit counts change as simulated traffic passes; poll them
+  useEffect(() => {
+    const interval = setInterval(refresh, 1000);
+    return () => clearInterval(interval);
+  }, []);
+
+  if (!device) {
+    return (
+      <div className="flex items-center justify-center h-full">
+        <div className="text-center text-gray-400">
+          <div className="text-6xl mb-4">🛡️</div>
+          <h3 className="text-xl font-semibold mb-2">Access Control Lists</h3>
+          <p>Add a router, switch or firewall to configure ACLs</p>
+        </div>
+      </div>
+    );
+  }
+
+  const acls = getAccessLists(device).map(a => toAccessControlList(a, packetProcessingEngine.getAclHitCounts(device.id, a.name)));
+  const acl = acls.find(a => a.name === selectedAcl) ?? acls[0];
+  const newAclNumberedType = numberedAclType(newAclName.trim());
+
+  // Show why a change failed, or what to look out for after one that succeeded
+  const report = (result: ConfigResult) => setError(result.success ? result.warnings?.join('; ') : result.message);
+
+  const handleCreateAcl = () => {
+    const name = newAclName.trim();
+    if (!name) {
+      setError('Enter an ACL number or name');
+      return;
+    }
+    if (newAclNumberedType === null) {
+      setError('ACL numbers are 1-99 or 1300-1999 (standard) and 100-199 or 2000-2699 (extended)');
+      return;
+    }
+    if (acls.some(a => a.name === name)) {
+      setError(`ACL ${name} already exists`);
+      return;
+    }
+
+    const result = updateAccessLists(device.id, manager => manager.configureAccessList(device.id, name, newAclNumberedType ?? newAclType));
+    report(result);
+    if (result.success) {
+      setSelectedAcl(name);
+      setNewAclName('');
+    }
+  };
+
+  const handleDeleteAcl = (name: string) => {
+    const result = updateAccessLists(device.id, manager => manager.removeAccessList(device.id, name));
+    if (result.success) {
+      packetProcessingEngine.clearAclCounters(device.id, name);
+    }
+    report(result);
+  };
+
+  const handleAddEntry = () => {
+    if (!acl) return;
+
+    // Without a number the entry goes to the end of the list
+    const sequenceNumber = sequence.trim() ? Number(sequence) : undefined;
+    if (sequenceNumber !== undefined && (!Number.isInteger(sequenceNumber) || sequenceNumber < 1 || sequenceNumber > 2147483647)) {
+      setError('Sequence numbers run from 1 to 2147483647');
+      return;
+    }
+
+    const srcNetwork = parseAclAddress(source);
+    const dstNetwork = acl.type === 'extended' ? parseAclAddress(destination) : undefined;
+    if (srcNetwork === null || dstNetwork === null) {
+      setError('Addresses are any, host A.B.C.D, A.B.C.D wildcard or A.B.C.D/prefix');
+      return;
+    }
+
+    const hasPorts = acl.type === 'extended' && (protocol === 'tcp' || protocol === 'udp');
+    const srcPortMatch = hasPorts ? parsePortMatch(...srcPort) : undefined;
+    const dstPortMatch = hasPorts ? parsePortMatch(...dstPort) : undefined;
+    if (srcPortMatch === null || dstPortMatch === null) {
+      setError('Ports are 0-65535 and a range must run low to high');
+      return;
+    }
+
+    const result = updateAccessLists(device.id, manager => manager.configureAccessListEntry(device.id, acl.name, acl.type, {
+      sequenceNumber,
+      action,
+      protocol: acl.type === 'extended' ? protocol : undefined,
+      srcNetwork,
+      dstNetwork,
+      srcPort: srcPortMatch,
+      dstPort: dstPortMatch,
+      established: acl.type === 'extended' && protocol === 'tcp' && established ? true : undefined,
+      logMatches: log || undefined,
+    }));
+    report(result);
+    if (result.success) {
+      setSequence('');
+    }
+  };
+
+  const handleRemoveEntry = (sequenceNumber: number) => {
+    if (!acl) return;
+    report(updateAccessLists(device.id, manager => manager.removeAccessListEntry(device.id, acl.name, sequenceNumber)));
+  };
+
+  const handleClearCounters = () => {
+    if (!acl) return;
+    packetProcessingEngine.clearAclCounters(device.id, acl.name);
+    refresh();
+  };
+
+  // Apply an ACL to an interface in one direction (ip access-group), or remove it when none is chosen
+  const handleBind = (interfaceName: string, direction: AclDirection, aclName: string) => {
+    report(updateAccessLists(device.id, manager => aclName
+      ? manager.configureAccessGroup(device.id, interfaceName, direction, aclName)
+      : manager.removeAccessGroup(device.id, interfaceName, direction)));
+  };
+
+  // What the tester's 5-tuple would match; undefined until the tuple is complete
+  const probePorts = probeProtocol === 'tcp' || probeProtocol === 'udp';
+  const trace = acl && isIpAddress(probeSrcIp) && isIpAddress(probeDstIp)
+    ? packetProcessingEngine.traceAcl(acl, createAclProbePacket({
+        protocol: probeProtocol,
+        srcIp: probeSrcIp,
+        dstIp: probeDstIp,
+        srcPort: probePorts && probeSrcPort !== '' ? Number(probeSrcPort) : undefined,
+        dstPort: probePorts && probeDstPort !== '' ? Number(probeDstPort) : undefined,
+        established: probeProtocol === 'tcp' && probeEstablished,
+      }))
+    : undefined;
+
+  const implicitDenyHits = acl?.hitCounts.get(IMPLICIT_DENY_RULE) ?? 0;
+
+  return (
+    <div className="h-full overflow-y-auto p-4 space-y-4 bg-gray-900 text-white">
+      {/* Header */}
+      <div className="bg-gray-800 border border-gray-700 rounded-lg p-4">
+        <div className="flex items-center justify-between">
+          <h2 className="text-xl font-bold">Access Control Lists</h2>
+          <label className="flex items-center space-x-2">
+            <span className="text-sm">Device</span>
+            <select
+              value={device.id}
+              onChange={(e) => {
+                setSelectedDeviceId(e.target.value);
+                setSelectedAcl(undefined);
+              }}
+              className="bg-gray-700 border border-gray-600 rounded px-2 py-1 text-sm"
+            >
+              {aclDevices.map(d => (
+                <option key={d.id} value={d.id}>{d.name}</option>
+              ))}
+            </select>
+          </label>
+        </div>
+        {error && <div className="mt-3 text-sm text-red-400">{error}</div>}
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-4">
+        {/* ACL list and creation */}
+        <div className="bg-gray-800 border border-gray-700 rounded-lg p-4 space-y-3">
+          <h3 className="text-lg font-semibold">Lists</h3>
+          <div className="space-y-1">
+            {acls.length === 0 && <div className="text-sm text-gray-400">No ACLs on {device.name}</div>}
+            {acls.map(a => (
+              <div
+                key={a.name}
+                className={`flex items-center justify-between p-2 rounded text-sm ${a.name === acl?.name ? 'bg-blue-900/60' : 'bg-gray-700'}`}
+              >
+                <button onClick={() => setSelectedAcl(a.name)} className="flex-1 text-left">
+                  <span className="font-mono">{a.name}</span>
+                  <span className="text-gray-400 ml-2">{a.type} · {a.entries.length} entries</span>
+                </button>
+                <button onClick={() => handleDeleteAcl(a.name)} className="px-2 py-1 bg-red-600 hover:bg-red-700 rounded text-xs">
+                  Delete
+                </button>
+              </div>
+            ))}
+          </div>
+
+          <div className="grid grid-cols-2 gap-2 pt-2 border-t border-gray-700">
+            <div>
+              <label className="block text-xs text-gray-400 mb-1">Number or name</label>
+              <input value={newAclName} onChange={(e) => setNewAclName(e.target.value)} className={inputClass} placeholder="101 or WEB_FILTER" />
+            </div>
+            <div>
+              <label className="block text-xs text-gray-400 mb-1">Type</label>
+              <select
+                value={newAclNumberedType ?? newAclType}
+                onChange={(e) => setNewAclType(e.target.value as AccessControlList['type'])}
+                disabled={!!newAclNumberedType}
+                className={inputClass}
+              >
+                <option value="standard">Standard</option>
+                <option value="extended">Extended</option>
+              </select>
+            </div>
+            <button onClick={handleCreateAcl} className="col-span-2 px-3 py-2 bg-blue-600 hover:bg-blue-700 rounded text-sm">
+              Create ACL
+            </button>
+          </div>
+        </div>
+
+        {/* Entries of the selected ACL */}
+        <div className="lg:col-span-2 bg-gray-800 border border-gray-700 rounded-lg p-4 space-y-3">
+          {!acl ? (
+            <div className="text-sm text-gray-400">Create an ACL to add entries</div>
+          ) : (
+            <>
+              <div className="flex items-center justify-between">
+                <h3 className="text-lg font-semibold font-mono">
+                  {acl.type === 'standard' ? 'Standard' : 'Extended'} IP access list {acl.name}
+                </h3>
+                <button onClick={handleClearCounters} className="px-2 py-1 bg-gray-700 hover:bg-gray-600 rounded text-xs">
+                  Clear Counters
+                </button>
+              </div>
+              <div className="space-y-1 font-mono text-sm">
+                {acl.entries.map(entry => {
+                  const hits = acl.hitCounts.get(entry.id) ?? 0;
+                  return (
+                    <div key={entry.id} className="flex items-center justify-between bg-gray-700 px-2 py-1 rounded">
+                      <span className={entry.action === 'permit' ? 'text-green-300' : 'text-red-300'}>
+                        {describeAclEntry(entry, acl.type)}
+                        {hits > 0 && <span className="text-gray-300"> ({hits} {hits === 1 ? 'match' : 'matches'})</span>}
+                      </span>
+                      <button onClick={() => handleRemoveEntry(entry.sequenceNumber)} className="px-2 py-0.5 bg-red-600 hover:bg-red-700 rounded text-xs font-sans">
+                        Remove
+                      </button>
+                    </div>
+                  );
+                })}
+                <div className="px-2 py-1 text-gray-400">
+                  implicit deny any{implicitDenyHits > 0 && ` (${implicitDenyHits} ${implicitDenyHits === 1 ? 'match' : 'matches'})`}
+                </div>
+              </div>
+
+              {/* New entry */}
+              <div className="grid grid-cols-2 md:grid-cols-4 gap-2 pt-2 border-t border-gray-700">
+                <div>
+                  <label className="block text-xs text-gray-400 mb-1">Sequence</label>
+                  <input value={sequence} onChange={(e) => setSequence(e.target.value)} className={inputClass} placeholder="next" />
+                </div>
+                <div>
+                  <label className="block text-xs text-gray-400 mb-1">Action</label>
+                  <select value={action} onChange={(e) => setAction(e.target.value as AclEntry['action'])} className={inputClass}>
+                    <option value="permit">permit</option>
+                    <option value="deny">deny</option>
+                  </select>
+                </div>
+                {acl.type === 'extended' && (
+                  <div>
+                    <label className="block text-xs text-gray-400 mb-1">Protocol</label>
+                    <select value={protocol} onChange={(e) => setProtocol(e.target.value)} className={inputClass}>
+                      {PROTOCOLS.map(p => <option key={p} value={p}>{p}</option>)}
+                    </select>
+                  </div>
+                )}
+                <div>
+                  <label className="block text-xs text-gray-400 mb-1">Source</label>
+                  <input value={source} onChange={(e) => setSource(e.target.value)} className={inputClass} placeholder="any | host A.B.C.D | A.B.C.D wildcard" />
+                </div>
+                {acl.type === 'extended' && (
+                  <>
+                    {(protocol === 'tcp' || protocol === 'udp') && (
+                      <PortInput label="Source port" operator={srcPort[0]} first={srcPort[1]} second={srcPort[2]} onChange={(...port) => setSrcPort(port)} />
+                    )}
+                    <div>
+                      <label className="block text-xs text-gray-400 mb-1">Destination</label>
+                      <input value={destination} onChange={(e) => setDestination(e.target.value)} className={inputClass} placeholder="any | host A.B.C.D | A.B.C.D/24" />
+                    </div>
+                    {(protocol === 'tcp' || protocol === 'udp') && (
+                      <PortInput label="Destination port" operator={dstPort[0]} first={dstPort[1]} second={dstPort[2]} onChange={(...port) => setDstPort(port)} />
+                    )}
+                  </>
+                )}
+                <div className="flex items-end space-x-3 text-sm">
+                  {acl.type === 'extended' && protocol === 'tcp' && (
+                    <label className="flex items-center space-x-1">
+                      <input type="checkbox" checked={established} onChange={(e) => setEstablished(e.target.checked)} className="rounded" />
+                      <span>established</span>
+                    </label>
+                  )}
+                  <label className="flex items-center space-x-1">
+                    <input type="checkbox" checked={log} onChange={(e) => setLog(e.target.checked)} className="rounded" />
+                    <span>log</span>
+                  </label>
+                </div>
+                <div className="flex items-end">
+                  <button onClick={handleAddEntry} className="px-3 py-2 bg-blue-600 hover:bg-blue-700 rounded text-sm w-full">
+                    Add Entry
+                  </button>
+                </div>
+              </div>
+            </>
+          )}
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
+        {/* Interface bindings */}
+        <div className="bg-gray-800 border border-gray-700 rounded-lg p-4">
+          <h3 className="text-lg font-semibold mb-3">Interface Bindings</h3>
+          <div className="space-y-1 text-sm">
+            {device.interfaces.map(iface => (
+              <div key={iface.id} className="flex items-center justify-between bg-gray-700 p-2 rounded">
+                <span>{iface.name}</span>
+                <div className="flex items-center space-x-3">
+                  {(['in', 'out'] as AclDirection[]).map(direction => {
+                    const bound = iface.accessGroups?.[direction] ?? '';
+                    return (
+                      <label key={direction} className="flex items-center space-x-1">
+                        <span className="text-gray-400">{direction}</span>
+                        <select
+                          value={bound}
+                          onChange={(e) => handleBind(iface.name, direction, e.target.value)}
+                          className="bg-gray-800 border border-gray-600 rounded px-2 py-1 text-xs"
+                        >
+                          <option value="">none</option>
+                          {acls.map(a => <option key={a.name} value={a.name}>{a.name}</option>)}
+                          {/* An access group may name an ACL that is not defined; it filters nothing */}
+                          {bound && !acls.some(a => a.name === bound) && <option value={bound}>{bound} (undefined)</option>}
+                        </select>
+                      </label>
+                    );
+                  })}
+                </div>
+              </div>
+            ))}
+          </div>
+        </div>
+
+        {/* Match tester */}
+        <div className="bg-gray-800 border border-gray-700 rounded-lg p-4 space-y-3">
+          <h3 className="text-lg font-semibold">What Would Match{acl ? ` in ${acl.name}` : ''}</h3>
+          <div className="grid grid-cols-3 gap-2">
+            <div>
+              <label className="block text-xs text-gray-400 mb-1">Protocol</label>
+              <select value={probeProtocol} onChange={(e) => setProbeProtocol(e.target.value)} className={inputClass}>
+                {PROTOCOLS.map(p => <option key={p} value={p}>{p}</option>)}
+              </select>
+            </div>
+            <div>
+              <label className="block text-xs text-gray-400 mb-1">Source IP</label>
+              <input value={probeSrcIp} onChange={(e) => setProbeSrcIp(e.target.value)} className={inputClass} />
+            </div>
+            <div>
+              <label className="block text-xs text-gray-400 mb-1">Source port</label>
+              <input value={probeSrcPort} onChange={(e) => setProbeSrcPort(e.target.value)} disabled={!probePorts} className={inputClass} />
+            </div>
+            <label className="flex items-end space-x-1 text-sm">
+              <input
+                type="checkbox"
+                checked={probeEstablished}
+                onChange={(e) => setProbeEstablished(e.target.checked)}
+                disabled={probeProtocol !== 'tcp'}
+                className="rounded"
+              />
+              <span>ACK set</span>
+            </label>
+            <div>
+              <label className="block text-xs text-gray-400 mb-1">Destination IP</label>
+              <input value={probeDstIp} onChange={(e) => setProbeDstIp(e.target.value)} className={inputClass} />
+            </div>
+            <div>
+              <label className="block text-xs text-gray-400 mb-1">Destination port</label>
+              <input value={probeDstPort} onChange={(e) => setProbeDstPort(e.target.value)} disabled={!probePorts} className={inputClass} />
+            </div>
+          </div>
+
+          {!acl && <div className="text-sm text-gray-400">Select an ACL to test</div>}
+          {acl && !trace && <div className="text-sm text-gray-400">Enter valid source and destination addresses</div>}
+          {trace && (
+            <div className="space-y-1 text-sm">
+              {trace.steps.map(step => (
+                <div key={step.entry.id} className={`p-2 rounded ${step.matched ? 'bg-gray-600' : 'bg-gray-700'}`}>
+                  <div className="font-mono">{describeAclEntry(step.entry, acl?.type)}</div>
+                  <div className={step.matched ? (step.entry.action === 'permit' ? 'text-green-400' : 'text-red-400') : 'text-gray-400'}>
+                    {step.matched ? '✓' : '✗'} {step.reason}
+                  </div>
+                </div>
+              ))}
+              <div className={`font-semibold ${trace.permitted ? 'text-green-400' : 'text-red-400'}`}>
+                {trace.permitted ? 'PERMIT' : 'DENY'}: {trace.reason}
+              </div>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default AclPanel;
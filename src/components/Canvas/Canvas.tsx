@@ -1,4 +1,4 @@
-import React, { useRef, useEffect, useState, useCallback } from 'react';
+import React, { useRef, useEffect, useState, useCallback, useMemo } from 'react';
 import * as d3 from 'd3';
 import { useAppStore } from '../../store';
 import { createDeviceFromTemplate } from '../../data/sampleData';
@@ -27,8 +27,13 @@ import {
 } from '../../utils/d3-helpers/connectionHelpers';
 import { PacketAnimationManager } from '../../utils/simulation/packetAnimation';
 import { evaluateConnectionHealth } from '../../utils/networking/linkHealth';
+import { buildLinkAggregationGroups, findLinkAggregationGroup, planEtherChannel } from '../../utils/networking/etherChannel';
+import { fhrpEngine, getFhrpBadges } from '../../utils/networking/firstHopRedundancy';
 import { PacketStatus } from '../../types/simulation';
+import { SwitchDevice } from '../../types';
 import DeviceConfigModal from '../Modals/DeviceConfigModal';
+import DeviceTerminal from '../Terminal/DeviceTerminal';
+import { hasCli } from '../../utils/networking/cliEngine';
 import { getInterfaceVlans, validateNetworkVlanConfig } from '../../utils/vlan-logic/vlanConfiguration';
 
 /**
@@ -60,6 +65,8 @@ const Canvas: React.FC = () => {
     simulationSpeed,
     removeDevice,
     showPortLabels,
+    spanningTreeEngine,
+    simulationStats,
   } = useAppStore();
   
   const [dragOver, setDragOver] = useState(false);
@@ -70,6 +77,9 @@ const Canvas: React.FC = () => {
 
   // Device config modal state
   const [configModal, setConfigModal] = useState<{ open: boolean; device?: any }>({ open: false });
+
+  // Device CLI terminal state
+  const [terminalDeviceId, setTerminalDeviceId] = useState<string | null>(null);
   
   // Connection management
   const {
@@ -89,6 +99,32 @@ const Canvas: React.FC = () => {
   // Connection context menu (for deletion)
   const [connMenu, setConnMenu] = useState<{ open: boolean; x: number; y: number; id?: string }>({ open: false, x: 0, y: 0 });
 
+  // EtherChannels negotiated from the channel-group settings, drawn as one thick line each
+  const linkAggregationGroups = useMemo(() => buildLinkAggregationGroups(devices, connections), [devices, connections]);
+
+  // Routers active for HSRP or VRRP groups; roles move as the simulation fails links over, so
+  // they are checked on every stats update and the canvas redrawn only when one changes
+  const [roleBadges, setRoleBadges] = useState<Map<string, string>>(new Map());
+  useEffect(() => {
+    const badges = getFhrpBadges(fhrpEngine.getGroups(devices, connections, id => !!spanningTreeEngine?.isLinkFailed(id)));
+    setRoleBadges(current => JSON.stringify([...current]) === JSON.stringify([...badges]) ? current : badges);
+  }, [devices, connections, spanningTreeEngine, simulationStats]);
+
+  // Bundle the links between two switches into an EtherChannel, or take them out of it
+  const applyEtherChannel = useCallback((connectionId: string, bundle: boolean) => {
+    const changes = planEtherChannel(devices, connections, connectionId, bundle);
+    new Set(changes.map(c => c.deviceId)).forEach(deviceId => {
+      const device = devices.find(d => d.id === deviceId) as SwitchDevice | undefined;
+      if (!device) return;
+      updateDevice(deviceId, {
+        interfaces: device.interfaces.map(iface => {
+          const change = changes.find(c => c.deviceId === deviceId && c.interfaceId === iface.id);
+          return change ? { ...iface, channelGroup: change.channelGroup } : iface;
+        }),
+      });
+    });
+  }, [devices, connections, updateDevice]);
+
   // Initialize D3.js canvas
   const initializeCanvas = useCallback(() => {
     if (!canvasRef.current) return;
@@ -157,7 +193,8 @@ const Canvas: React.FC = () => {
       (connection: any, event: MouseEvent) => {
         event.stopPropagation();
         toggleSelectConnection(connection.id);
-      }
+      },
+      linkAggregationGroups
     );
 
     // Also allow selecting by clicking on the path directly
@@ -219,7 +256,8 @@ const Canvas: React.FC = () => {
       connections,
       devices,
       showConnectionLabels,
-      defaultConnectionConfig
+      defaultConnectionConfig,
+      linkAggregationGroups
     )
       // Add click handler for selecting connections
       .on('click', function(event: MouseEvent, d: any) {
@@ -234,8 +272,10 @@ const Canvas: React.FC = () => {
       healthMap.set(conn.id, { status: h.status });
     });
     const overlayContainer = containerRef.current.select('.overlay-container') as d3.Selection<SVGGElement, unknown, null, undefined>;
-    import('../../utils/d3-helpers/connectionHelpers').then(({ renderConnectionHealthArrows }) => {
+    import('../../utils/d3-helpers/connectionHelpers').then(({ renderConnectionHealthArrows, renderErrDisabledMarkers }) => {
       renderConnectionHealthArrows(overlayContainer as any, connections as any, devices as any, healthMap as any);
+      // Ports shut down by BPDU Guard and similar features
+      renderErrDisabledMarkers(overlayContainer, connections, devices);
     });
 
     // Render endpoint interface labels based on toggle
@@ -255,7 +295,8 @@ const Canvas: React.FC = () => {
       handleDeviceClick,
       handleDeviceDragStart,
       handleDeviceDrag,
-      handleDeviceDragEnd
+      handleDeviceDragEnd,
+      roleBadges
     );
 
     // Double-click to open configuration modal
@@ -305,7 +346,7 @@ const Canvas: React.FC = () => {
           .attr('stroke-width', 4);
       }
     });
-  }, [devices, connections, selectedDevice, showConnectionLabels, showVlanHighlight, selectedVlan, vlans, showPortLabels]);
+  }, [devices, connections, selectedDevice, showConnectionLabels, showVlanHighlight, selectedVlan, vlans, showPortLabels, linkAggregationGroups, roleBadges]);
 
   // Interface selection modal state
   const [ifacePicker, setIfacePicker] = useState<{ open: boolean; device?: any; role?: 'source'|'target' }>(
@@ -593,6 +634,17 @@ const Canvas: React.FC = () => {
           >
             ⚙️ Configure Device
           </button>
+          {hasCli(contextMenu.device) && (
+            <button
+              className="block w-full text-left px-4 py-2 hover:bg-gray-700"
+              onClick={() => {
+                setTerminalDeviceId(contextMenu.device.id);
+                setContextMenu({ open: false, x: 0, y: 0 });
+              }}
+            >
+              💻 Open CLI
+            </button>
+          )}
           <button
             className="block w-full text-left px-4 py-2 hover:bg-gray-700"
             onClick={() => {
@@ -624,6 +676,15 @@ const Canvas: React.FC = () => {
         />
       )}
 
+      {/* Device CLI Terminal */}
+      {terminalDeviceId && (
+        <DeviceTerminal
+          key={terminalDeviceId}
+          deviceId={terminalDeviceId}
+          onClose={() => setTerminalDeviceId(null)}
+        />
+      )}
+
       {/* Connection context menu */}
       {connMenu.open && connMenu.id && (
         <div
@@ -640,6 +701,29 @@ const Canvas: React.FC = () => {
           >
             🗑️ Delete Connection
           </button>
+          {planEtherChannel(devices, connections, connMenu.id).length > 0 && (
+            findLinkAggregationGroup(linkAggregationGroups, connMenu.id) ? (
+              <button
+                className="block w-full text-left px-4 py-2 hover:bg-gray-700 text-gray-200 rounded"
+                onClick={() => {
+                  applyEtherChannel(connMenu.id!, false);
+                  setConnMenu({ open: false, x: 0, y: 0 });
+                }}
+              >
+                ✂️ Remove from EtherChannel
+              </button>
+            ) : (
+              <button
+                className="block w-full text-left px-4 py-2 hover:bg-gray-700 text-gray-200 rounded"
+                onClick={() => {
+                  applyEtherChannel(connMenu.id!, true);
+                  setConnMenu({ open: false, x: 0, y: 0 });
+                }}
+              >
+                🔗 Bundle into EtherChannel (LACP)
+              </button>
+            )
+          )}
         </div>
       )}
 
@@ -0,0 +1,343 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { useAppStore } from '../../store';
+import { DeviceType, FirewallDevice, SecurityZone, ZonePairPolicy, ZonePolicyRule } from '../../types';
+import {
+  firewallEngine,
+  describeZoneRule,
+  FirewallSession,
+  SessionEndpoint,
+} from '../../utils/networking/firewallEngine';
+
+const RULE_PROTOCOLS: ZonePolicyRule['protocol'][] = ['ip', 'tcp', 'udp', 'icmp'];
+
+// "80" or "8000-8080" as a rule's destination port; undefined means any, null means invalid
+const parseRulePort = (text: string): ZonePolicyRule['destinationPort'] | null => {
+  const trimmed = text.trim();
+  if (trimmed === '' || trimmed === 'any') return undefined;
+
+  const [first, second] = trimmed.split('-').map(part => part.trim());
+  const valid = (port: string) => /^\d+$/.test(port) && Number(port) <= 65535;
+  if (!valid(first)) return null;
+  if (second === undefined) return Number(first);
+  return valid(second) && Number(second) >= Number(first) ? { min: Number(first), max: Number(second) } : null;
+};
+
+const endpoint = (end: SessionEndpoint): string => (end.port !== undefined ? `${end.ip}:${end.port}` : end.ip);
+
+const inputClass = 'w-full bg-gray-800 border border-gray-700 rounded px-2 py-1 text-sm';
+
+const STATE_COLORS: Record<FirewallSession['state'], string> = {
+  SYN_SENT: 'text-yellow-300',
+  SYN_RECEIVED: 'text-yellow-300',
+  ESTABLISHED: 'text-green-400',
+  CLOSING: 'text-gray-400',
+  OPEN: 'text-blue-300',
+};
+
+/**
+ * Zone-based firewall editor: security zones, zone-pair policies and the live connection-tracking table
+ */
+const FirewallPanel: React.FC = () => {
+  const { devices, updateDevice } = useAppStore();
+  // Sessions live in the firewall engine, which is mutable; bump this to re-render
+  const [, setRevision] = useState(0);
+  const refresh = () => setRevision(revision => revision + 1);
+  const [selectedDeviceId, setSelectedDeviceId] = useState<string | undefined>();
+  const [error, setError] = useState<string | undefined>();
+
+  // New zone
+  const [newZoneName, setNewZoneName] = useState('');
+
+  // New rule
+  const [ruleSource, setRuleSource] = useState('');
+  const [ruleDestination, setRuleDestination] = useState('');
+  const [ruleProtocol, setRuleProtocol] = useState<ZonePolicyRule['protocol']>('ip');
+  const [rulePort, setRulePort] = useState('');
+  const [ruleAction, setRuleAction] = useState<ZonePolicyRule['action']>('inspect');
+
+  const firewalls = useMemo(
+    () => devices.filter(d => d.type === DeviceType.FIREWALL) as FirewallDevice[],
+    [devices]
+  );
+  const device = firewalls.find(d => d.id === selectedDeviceId) ?? firewalls[0];
+
+  // Sessions open and age out as simulated traffic passes; poll them
+  useEffect(() => {
+    const interval = setInterval(refresh, 1000);
+    return () => clearInterval(interval);
+  }, []);
+
+  if (!device) {
+    return (
+      <div className="flex items-center justify-center h-full">
+        <div className="text-center text-gray-400">
+          <div className="text-6xl mb-4">🧱</div>
+          <h3 className="text-xl font-semibold mb-2">Zone-Based Firewall</h3>
+          <p>Add a firewall to configure security zones</p>
+        </div>
+      </div>
+    );
+  }
+
+  const sessions = firewallEngine.getSessions(device.id);
+  const clock = firewallEngine.getClock();
+  const zoneOf = (interfaceName: string) => device.zones.find(z => z.interfaces.includes(interfaceName))?.name ?? '';
+
+  const saveZones = (zones: SecurityZone[], zonePairs: ZonePairPolicy[] = device.zonePairs) => {
+    updateDevice(device.id, { zones, zonePairs } as Partial<FirewallDevice>);
+    setError(undefined);
+  };
+
+  const handleCreateZone = () => {
+    const name = newZoneName.trim();
+    if (!/^[\w-]+$/.test(name)) {
+      setError('Zone names are letters, digits, _ and -');
+      return;
+    }
+    if (device.zones.some(z => z.name === name)) {
+      setError(`Zone ${name} already exists`);
+      return;
+    }
+    saveZones([...device.zones, { name, interfaces: [] }]);
+    setNewZoneName('');
+  };
+
+  // Deleting a zone also deletes the zone-pairs that refer to it
+  const handleDeleteZone = (name: string) => {
+    saveZones(
+      device.zones.filter(z => z.name !== name),
+      device.zonePairs.filter(p => p.source !== name && p.destination !== name)
+    );
+  };
+
+  // An interface belongs to at most one zone
+  const handleAssignZone = (interfaceName: string, zoneName: string) => {
+    saveZones(device.zones.map(z => ({
+      ...z,
+      interfaces: z.name === zoneName
+        ? [...z.interfaces.filter(i => i !== interfaceName), interfaceName]
+        : z.interfaces.filter(i => i !== interfaceName),
+    })));
+  };
+
+  const handleAddRule = () => {
+    const source = ruleSource || device.zones[0]?.name;
+    const destination = ruleDestination || device.zones[1]?.name;
+    if (!source || !destination) {
+      setError('Create two zones before adding a zone-pair policy');
+      return;
+    }
+    if (source === destination) {
+      setError('Traffic within a zone is always allowed; pick two different zones');
+      return;
+    }
+    const destinationPort = ruleProtocol === 'tcp' || ruleProtocol === 'udp' ? parseRulePort(rulePort) : undefined;
+    if (destinationPort === null) {
+      setError('Ports are 0-65535, as 80 or 8000-8080');
+      return;
+    }
+
+    const rule: ZonePolicyRule = { protocol: ruleProtocol, destinationPort, action: ruleAction };
+    const exists = device.zonePairs.some(p => p.source === source && p.destination === destination);
+    saveZones(
+      device.zones,
+      exists
+        ? device.zonePairs.map(p => (p.source === source && p.destination === destination ? { ...p, rules: [...p.rules, rule] } : p))
+        : [...device.zonePairs, { source, destination, rules: [rule] }]
+    );
+    setRulePort('');
+  };
+
+  const handleRemoveRule = (pair: ZonePairPolicy, index: number) => {
+    saveZones(
+      device.zones,
+      device.zonePairs
+        .map(p => (p === pair ? { ...p, rules: p.rules.filter((_, i) => i !== index) } : p))
+        .filter(p => p.rules.length > 0)
+    );
+  };
+
+  const handleClearSessions = () => {
+    firewallEngine.clearSessions(device.id);
+    refresh();
+  };
+
+  return (
+    <div className="h-full overflow-y-auto p-4 space-y-4 bg-gray-900 text-white">
+      {/* Header */}
+      <div className="bg-gray-800 border border-gray-700 rounded-lg p-4">
+        <div className="flex items-center justify-between">
+          <h2 className="text-xl font-bold">Zone-Based Firewall</h2>
+          <label className="flex items-center space-x-2">
+            <span className="text-sm">Device</span>
+            <select
+              value={device.id}
+              onChange={(e) => setSelectedDeviceId(e.target.value)}
+              className="bg-gray-700 border border-gray-600 rounded px-2 py-1 text-sm"
+            >
+              {firewalls.map(d => (
+                <option key={d.id} value={d.id}>{d.name}</option>
+              ))}
+            </select>
+          </label>
+        </div>
+        <p className="mt-2 text-sm text-gray-400">
+          Traffic between zones needs a zone-pair policy; inspected sessions let their replies back in.
+          Interfaces outside every zone only talk to each other.
+        </p>
+        {error && <div className="mt-3 text-sm text-red-400">{error}</div>}
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
+        {/* Zones and interface membership */}
+        <div className="bg-gray-800 border border-gray-700 rounded-lg p-4 space-y-3">
+          <h3 className="text-lg font-semibold">Security Zones</h3>
+          <div className="flex flex-wrap gap-2">
+            {device.zones.length === 0 && <div className="text-sm text-gray-400">No zones on {device.name}</div>}
+            {device.zones.map(zone => (
+              <div key={zone.name} className="flex items-center space-x-2 bg-gray-700 px-2 py-1 rounded text-sm">
+                <span className="font-mono">{zone.name}</span>
+                <span className="text-gray-400">{zone.interfaces.length} if</span>
+                <button onClick={() => handleDeleteZone(zone.name)} className="px-1 text-red-400 hover:text-red-300">✕</button>
+              </div>
+            ))}
+          </div>
+          <div className="flex space-x-2">
+            <input value={newZoneName} onChange={(e) => setNewZoneName(e.target.value)} className={inputClass} placeholder="inside, outside, dmz" />
+            <button onClick={handleCreateZone} className="px-3 py-1 bg-blue-600 hover:bg-blue-700 rounded text-sm whitespace-nowrap">
+              Create Zone
+            </button>
+          </div>
+          <div className="space-y-1 text-sm pt-2 border-t border-gray-700">
+            {device.interfaces.map(iface => (
+              <div key={iface.id} className="flex items-center justify-between bg-gray-700 p-2 rounded">
+                <span>
+                  {iface.name}
+                  <span className="text-gray-400 ml-2">{iface.ipAddress ?? 'no address'}</span>
+                </span>
+                <select
+                  value={zoneOf(iface.name)}
+                  onChange={(e) => handleAssignZone(iface.name, e.target.value)}
+                  className="bg-gray-800 border border-gray-600 rounded px-2 py-1 text-xs"
+                >
+                  <option value="">no zone</option>
+                  {device.zones.map(z => <option key={z.name} value={z.name}>{z.name}</option>)}
+                </select>
+              </div>
+            ))}
+          </div>
+        </div>
+
+        {/* Zone-pair policies */}
+        <div className="bg-gray-800 border border-gray-700 rounded-lg p-4 space-y-3">
+          <h3 className="text-lg font-semibold">Zone-Pair Policies</h3>
+          <div className="space-y-2 text-sm">
+            {device.zonePairs.length === 0 && <div className="text-gray-400">No zone-pairs: all inter-zone traffic is dropped</div>}
+            {device.zonePairs.map(pair => (
+              <div key={`${pair.source}->${pair.destination}`} className="bg-gray-700 p-2 rounded space-y-1">
+                <div className="font-mono">zone-pair {pair.source} → {pair.destination}</div>
+                {pair.rules.map((rule, index) => (
+                  <div key={index} className="flex items-center justify-between pl-3 font-mono">
+                    <span className={rule.action === 'drop' ? 'text-red-300' : 'text-green-300'}>{describeZoneRule(rule)}</span>
+                    <button onClick={() => handleRemoveRule(pair, index)} className="px-2 py-0.5 bg-red-600 hover:bg-red-700 rounded text-xs font-sans">
+                      Remove
+                    </button>
+                  </div>
+                ))}
+                <div className="pl-3 font-mono text-gray-400">class-default drop</div>
+              </div>
+            ))}
+          </div>
+
+          <div className="grid grid-cols-3 gap-2 pt-2 border-t border-gray-700">
+            <div>
+              <label className="block text-xs text-gray-400 mb-1">Source zone</label>
+              <select value={ruleSource || device.zones[0]?.name || ''} onChange={(e) => setRuleSource(e.target.value)} className={inputClass}>
+                {device.zones.map(z => <option key={z.name} value={z.name}>{z.name}</option>)}
+              </select>
+            </div>
+            <div>
+              <label className="block text-xs text-gray-400 mb-1">Destination zone</label>
+              <select value={ruleDestination || device.zones[1]?.name || ''} onChange={(e) => setRuleDestination(e.target.value)} className={inputClass}>
+                {device.zones.map(z => <option key={z.name} value={z.name}>{z.name}</option>)}
+              </select>
+            </div>
+            <div>
+              <label className="block text-xs text-gray-400 mb-1">Action</label>
+              <select value={ruleAction} onChange={(e) => setRuleAction(e.target.value as ZonePolicyRule['action'])} className={inputClass}>
+                <option value="inspect">inspect</option>
+                <option value="pass">pass</option>
+                <option value="drop">drop</option>
+              </select>
+            </div>
+            <div>
+              <label className="block text-xs text-gray-400 mb-1">Protocol</label>
+              <select value={ruleProtocol} onChange={(e) => setRuleProtocol(e.target.value as ZonePolicyRule['protocol'])} className={inputClass}>
+                {RULE_PROTOCOLS.map(p => <option key={p} value={p}>{p}</option>)}
+              </select>
+            </div>
+            <div>
+              <label className="block text-xs text-gray-400 mb-1">Destination port</label>
+              <input
+                value={rulePort}
+                onChange={(e) => setRulePort(e.target.value)}
+                disabled={ruleProtocol !== 'tcp' && ruleProtocol !== 'udp'}
+                className={inputClass}
+                placeholder="any"
+              />
+            </div>
+            <div className="flex items-end">
+              <button onClick={handleAddRule} className="px-3 py-2 bg-blue-600 hover:bg-blue-700 rounded text-sm w-full">
+                Add Rule
+              </button>
+            </div>
+          </div>
+        </div>
+      </div>
+
+      {/* Connection-tracking table */}
+      <div className="bg-gray-800 border border-gray-700 rounded-lg p-4">
+        <div className="flex items-center justify-between mb-3">
+          <h3 className="text-lg font-semibold">Sessions ({sessions.length})</h3>
+          <button onClick={handleClearSessions} className="px-2 py-1 bg-gray-700 hover:bg-gray-600 rounded text-xs">
+            Clear Sessions
+          </button>
+        </div>
+        {sessions.length === 0 ? (
+          <div className="text-sm text-gray-400">No sessions. Run a simulation with traffic from an inside host to open one.</div>
+        ) : (
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-gray-400 border-b border-gray-700">
+                <th className="py-1">Protocol</th>
+                <th className="py-1">Initiator</th>
+                <th className="py-1">Responder</th>
+                <th className="py-1">Zones</th>
+                <th className="py-1">State</th>
+                <th className="py-1 text-right">Packets</th>
+                <th className="py-1 text-right">Bytes</th>
+                <th className="py-1 text-right">Idle timeout</th>
+              </tr>
+            </thead>
+            <tbody className="font-mono">
+              {sessions.map(session => (
+                <tr key={session.id} className="border-b border-gray-700/50">
+                  <td className="py-1">{session.protocol}</td>
+                  <td className="py-1">{endpoint(session.initiator)}</td>
+                  <td className="py-1">{endpoint(session.responder)}</td>
+                  <td className="py-1">{session.sourceZone} → {session.destinationZone}</td>
+                  <td className={`py-1 ${STATE_COLORS[session.state]}`}>{session.state}</td>
+                  <td className="py-1 text-right">{session.packets}</td>
+                  <td className="py-1 text-right">{session.bytes}</td>
+                  <td className="py-1 text-right">{((session.expiresAt - clock) / 1000).toFixed(1)} s</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default FirewallPanel;
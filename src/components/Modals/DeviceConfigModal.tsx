@@ -1,6 +1,7 @@
 import React, { useMemo, useState } from 'react';
 import Modal from '../Modals/Modal';
-import { DeviceStatus, NetworkDevice, DeviceType, InterfaceStatus, InterfaceType, SwitchDevice, RouterDevice, ServerDevice, PcDevice } from '../../types';
+import { DeviceStatus, NetworkDevice, DeviceType, InterfaceStatus, InterfaceType, SwitchDevice, RouterDevice, ServerDevice, PcDevice, Ipv6InterfaceAddress, NetworkInterface } from '../../types';
+import { IPv6AddressUtils } from '../../utils/networking/ipAddressManager';
 
 interface DeviceConfigModalProps {
   open: boolean;
@@ -22,17 +23,35 @@ const DeviceConfigModal: React.FC<DeviceConfigModalProps> = ({ open, device, onC
     return [];
   });
   const [defaultGateway, setDefaultGateway] = useState<string | undefined>((device as any).defaultGateway);
+  const [ipv6DefaultGateway, setIpv6DefaultGateway] = useState<string | undefined>((device as PcDevice | ServerDevice).ipv6DefaultGateway);
+  // Global IPv6 address per interface as typed, applied on save
+  const [ipv6Text, setIpv6Text] = useState<string[]>(() => interfaces.map((iface: NetworkInterface) => {
+    const manual = (iface.ipv6Addresses || []).find(a => a.origin === 'manual');
+    return manual ? `${manual.address}/${manual.prefixLength}` : '';
+  }));
+  const hasIpv6 = deviceType === DeviceType.ROUTER || deviceType === DeviceType.PC || deviceType === DeviceType.SERVER;
 
   const save = () => {
     const updates: Partial<NetworkDevice> = { name, status } as any;
     (updates as any).password = password || undefined;
+    const edited = hasIpv6
+      ? interfaces.map((iface: NetworkInterface, idx: number) => {
+          const cidr = IPv6AddressUtils.parseCidr(ipv6Text[idx] || '');
+          const others = (iface.ipv6Addresses || []).filter(a => a.origin !== 'manual');
+          const addresses: Ipv6InterfaceAddress[] = cidr ? [...others, { ...cidr, origin: 'manual' }] : others;
+          return { ...iface, ipv6Addresses: addresses.length > 0 ? addresses : undefined };
+        })
+      : interfaces;
     if ((device as any).interfaces) {
-      (updates as any).interfaces = interfaces;
-    } else if ((device as any).interface && interfaces[0]) {
-      (updates as any).interface = interfaces[0];
+      (updates as any).interfaces = edited;
+    } else if ((device as any).interface && edited[0]) {
+      (updates as any).interface = edited[0];
     }
     if (device.type === DeviceType.PC || device.type === DeviceType.SERVER) {
       (updates as any).defaultGateway = defaultGateway;
+      (updates as Partial<PcDevice | ServerDevice>).ipv6DefaultGateway = ipv6DefaultGateway && IPv6AddressUtils.isValid(ipv6DefaultGateway)
+        ? IPv6AddressUtils.normalize(ipv6DefaultGateway)
+        : undefined;
     }
     onSave(updates);
     onClose();
@@ -101,6 +120,7 @@ const DeviceConfigModal: React.FC<DeviceConfigModalProps> = ({ open, device, onC
                       <option value={InterfaceStatus.UP}>up</option>
                       <option value={InterfaceStatus.DOWN}>down</option>
                       <option value={InterfaceStatus.ADMIN_DOWN}>admin_down</option>
+                      <option value={InterfaceStatus.ERR_DISABLED}>err_disabled</option>
                     </select>
                   </div>
                   <div>
@@ -125,19 +145,32 @@ const DeviceConfigModal: React.FC<DeviceConfigModalProps> = ({ open, device, onC
                   </div>
                 </div>
 
-                {/* IP Address (for router/pc/server interfaces) */}
-                {(deviceType === DeviceType.ROUTER || deviceType === DeviceType.PC || deviceType === DeviceType.SERVER) && (
-                  <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+                {/* IP Address (for router/firewall/pc/server interfaces) */}
+                {(deviceType === DeviceType.ROUTER || deviceType === DeviceType.FIREWALL || deviceType === DeviceType.PC || deviceType === DeviceType.SERVER) && (
+                  <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
                     <div>
                       <label className="block text-xs text-gray-400 mb-1">IP Address</label>
                       <input
                         value={iface.ipAddress || ''}
                         onChange={(e) => setInterfaces((prev: any) => prev.map((it: any, i: number) => i === idx ? { ...it, ipAddress: e.target.value } : it))}
                         className="w-full bg-gray-900 border border-gray-700 rounded px-2 py-1 text-sm"
-                        placeholder="e.g., 192.168.1.10/24"
+                        placeholder={iface.dhcpClient ? 'leased from a DHCP server' : 'e.g., 192.168.1.10/24'}
+                        disabled={!!iface.dhcpClient}
                       />
                     </div>
-                    {deviceType !== DeviceType.ROUTER && idx === 0 && (
+                    {(deviceType === DeviceType.PC || deviceType === DeviceType.SERVER) && (
+                      <label className="flex items-center space-x-2 text-xs text-gray-400 mt-5">
+                        <input
+                          type="checkbox"
+                          checked={!!iface.dhcpClient}
+                          onChange={(e) => setInterfaces((prev: NetworkInterface[]) => prev.map((it, i) => i === idx
+                            ? { ...it, dhcpClient: e.target.checked || undefined, ipAddress: e.target.checked ? undefined : it.ipAddress }
+                            : it))}
+                        />
+                        <span>DHCP (ip address dhcp)</span>
+                      </label>
+                    )}
+                    {deviceType !== DeviceType.ROUTER && deviceType !== DeviceType.FIREWALL && idx === 0 && (
                       <div>
                         <label className="block text-xs text-gray-400 mb-1">Default Gateway</label>
                         <input
@@ -151,6 +184,42 @@ const DeviceConfigModal: React.FC<DeviceConfigModalProps> = ({ open, device, onC
                   </div>
                 )}
 
+                {/* IPv6: global address, SLAAC for hosts and the IPv6 gateway */}
+                {hasIpv6 && (
+                  <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+                    <div>
+                      <label className="block text-xs text-gray-400 mb-1">IPv6 Address</label>
+                      <input
+                        value={ipv6Text[idx] || ''}
+                        onChange={(e) => setIpv6Text(prev => prev.map((text, i) => i === idx ? e.target.value : text))}
+                        className="w-full bg-gray-900 border border-gray-700 rounded px-2 py-1 text-sm"
+                        placeholder="e.g., 2001:db8:10::10/64"
+                      />
+                    </div>
+                    {deviceType !== DeviceType.ROUTER && (
+                      <label className="flex items-center space-x-2 text-xs text-gray-400 mt-5">
+                        <input
+                          type="checkbox"
+                          checked={!!iface.ipv6Autoconfig}
+                          onChange={(e) => setInterfaces((prev: NetworkInterface[]) => prev.map((it, i) => i === idx ? { ...it, ipv6Autoconfig: e.target.checked || undefined } : it))}
+                        />
+                        <span>SLAAC (ipv6 address autoconfig)</span>
+                      </label>
+                    )}
+                    {deviceType !== DeviceType.ROUTER && idx === 0 && (
+                      <div>
+                        <label className="block text-xs text-gray-400 mb-1">IPv6 Gateway</label>
+                        <input
+                          value={ipv6DefaultGateway || ''}
+                          onChange={(e) => setIpv6DefaultGateway(e.target.value)}
+                          className="w-full bg-gray-900 border border-gray-700 rounded px-2 py-1 text-sm"
+                          placeholder="learned from router advertisements"
+                        />
+                      </div>
+                    )}
+                  </div>
+                )}
+
                 {/* VLAN settings for switch/trunk/access */}
                 <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
                   <div>
@@ -1,11 +1,11 @@
 import React, { useMemo, useState, useEffect } from 'react';
 import Modal from './Modal';
-import { InterfaceType, SwitchDevice, Vlan } from '../../types';
+import { InterfaceType, SwitchingDevice, Vlan } from '../../types';
 
 type PortConfigModalProps = {
   open: boolean;
   onClose: () => void;
-  sw: SwitchDevice;
+  sw: SwitchingDevice;
   interfaceId: string;
   vlanOptions: Vlan[];
   onApply: (mode: 'access' | 'trunk', accessVlan: number, allowedVlans: number[], nativeVlan: number) => void;
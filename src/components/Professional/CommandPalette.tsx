@@ -283,6 +283,8 @@ const CommandPalette: React.FC<CommandPaletteProps> = ({ isOpen, onClose }) => {
       },
       icon: device.type === DeviceType.SWITCH ? '🔄' : 
            device.type === DeviceType.ROUTER ? '🚪' :
+           device.type === DeviceType.FIREWALL ? '🧱' :
+           device.type === DeviceType.MULTILAYER_SWITCH ? '🔁' :
            device.type === DeviceType.PC ? '💻' : '🖥️',
     })),
   ], [devices, vlans, simulationRunning]);
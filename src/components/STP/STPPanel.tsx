@@ -1,47 +1,67 @@
 import React, { useState, useEffect, useMemo } from 'react';
 import { useAppStore } from '../../store';
-import { SwitchDevice, DeviceType } from '../../types';
-import { stpSimulation, STPPortState, STPPortRole } from '../../protocols/switching/stpSimulation';
+import { SwitchingDevice, SpanningTreeMode, InterfaceStatus } from '../../types';
+import { applyStpPortEvents } from '../../hooks/useSpanningTreeEngine';
+import { isSwitchingDevice } from '../../utils/networking/multilayerSwitch';
+import {
+  STPBridge,
+  STPPortState,
+  STPPortRole,
+  STP_DEFAULT_BRIDGE_PRIORITY,
+  STP_BRIDGE_PRIORITY_STEP,
+} from '../../utils/networking/spanningTreeProtocol';
+
+const BRIDGE_PRIORITIES = Array.from({ length: 16 }, (_, i) => i * STP_BRIDGE_PRIORITY_STEP);
+
+// Name of the instance a bridge state belongs to, e.g. "VLAN 10", "CIST" or "MST1"
+const instanceLabel = (bridge: STPBridge): string => {
+  if (bridge.tree === 'msti') return `MST${bridge.instanceId}`;
+  if (bridge.tree === 'cist' && bridge.mode === 'mst') return 'CIST';
+  return `VLAN ${bridge.instanceId}`;
+};
 
 /**
  * STP (Spanning Tree Protocol) management and visualization panel
  */
 const STPPanel: React.FC = () => {
-  const { devices, connections, updateDevice } = useAppStore();
-  const [stpEnabled, setStpEnabled] = useState(false);
-  const [convergenceStats, setConvergenceStats] = useState({
-    convergenceTime: 0,
-    topologyChangeCount: 0,
-    lastConvergenceTime: 0,
-    isConverged: false,
-  });
+  const { devices, connections, updateDevice, spanningTreeEngine } = useAppStore();
+  const [stpEnabled, setStpEnabled] = useState(() => spanningTreeEngine.isActive());
+  // The engine is mutable; bump this to re-render after stepping it
+  const [, setRevision] = useState(0);
+  const refresh = () => setRevision(revision => revision + 1);
   const [selectedBridge, setSelectedBridge] = useState<string | undefined>();
+  const [selectedVlan, setSelectedVlan] = useState(1);
   const [autoRefresh, setAutoRefresh] = useState(true);
 
   // Filter switches from devices
   const switches = useMemo(
-    () => devices.filter(d => d.type === DeviceType.SWITCH) as SwitchDevice[],
+    () => devices.filter(isSwitchingDevice),
     [devices]
   );
 
-  // Initialize STP simulation when topology changes
+  // The App-level useSpanningTreeEngine effect rebuilds the engine after this one; re-render to show it
   useEffect(() => {
-    if (switches.length >= 2 && connections.length > 0) {
-      stpSimulation.initialize(devices, connections);
-    }
-  }, [devices, connections, switches.length]);
+    refresh();
+  }, [devices, connections]);
 
-  // Auto-refresh STP state
+  // Advance simulated time one second per refresh so timer-driven transitions are visible
   useEffect(() => {
     if (!autoRefresh || !stpEnabled) return;
 
     const interval = setInterval(() => {
-      const stats = stpSimulation.getConvergenceStats();
-      setConvergenceStats(stats);
+      spanningTreeEngine.tick();
+      applyStpPortEvents();
+      refresh();
     }, 1000);
 
     return () => clearInterval(interval);
-  }, [autoRefresh, stpEnabled]);
+  }, [autoRefresh, stpEnabled, spanningTreeEngine]);
+
+  const convergenceStats = spanningTreeEngine.getConvergenceStats();
+
+  const vlanInstances = spanningTreeEngine.getVlanInstances();
+  const activeVlan = vlanInstances.includes(selectedVlan) ? selectedVlan : vlanInstances[0] ?? 1;
+  const currentMode: SpanningTreeMode = switches[0]?.spanningTreeConfig?.mode ?? 'pvst';
 
   // Handle STP enable/disable
   const handleStpToggle = () => {
@@ -54,36 +74,68 @@ const STPPanel: React.FC = () => {
         updateDevice(sw.id, {
           ...sw,
           spanningTreeEnabled: true
-        } as SwitchDevice);
+        } as SwitchingDevice);
       });
       
       // Start STP simulation
-      stpSimulation.start();
-      setConvergenceStats(stpSimulation.getConvergenceStats());
+      spanningTreeEngine.start();
+      refresh();
     } else {
       // Disable STP
       switches.forEach(sw => {
         updateDevice(sw.id, {
           ...sw,
           spanningTreeEnabled: false
-        } as SwitchDevice);
+        } as SwitchingDevice);
       });
       
-      stpSimulation.stop();
+      spanningTreeEngine.stop();
     }
   };
 
   // Simulate topology change (link failure/recovery)
-  const handleTopologyChange = (device1Id: string, device2Id: string, isLinkUp: boolean) => {
-    stpSimulation.simulateTopologyChange(device1Id, device2Id, isLinkUp);
-    setConvergenceStats(stpSimulation.getConvergenceStats());
+  const handleTopologyChange = (connectionId: string, isLinkUp: boolean) => {
+    spanningTreeEngine.simulateTopologyChange(connectionId, isLinkUp);
+    applyStpPortEvents();
+    refresh();
+  };
+
+  // Bring an err-disabled port back, like shutdown / no shutdown
+  const handleReenablePort = (sw: SwitchingDevice, interfaceId: string) => {
+    updateDevice(sw.id, {
+      interfaces: sw.interfaces.map(iface => iface.id === interfaceId
+        ? { ...iface, status: InterfaceStatus.UP, errDisabled: undefined }
+        : iface),
+    } as Partial<SwitchingDevice>);
   };
 
-  // Force STP reconvergence
+  // Force STP reconvergence: restart every instance and run it to a stable state
   const handleForceReconvergence = () => {
-    stpSimulation.stop();
-    stpSimulation.start();
-    setConvergenceStats(stpSimulation.getConvergenceStats());
+    spanningTreeEngine.initialize(devices, connections);
+    spanningTreeEngine.converge();
+    applyStpPortEvents();
+    refresh();
+  };
+
+  // Apply one spanning tree mode to every switch
+  const handleModeChange = (mode: SpanningTreeMode) => {
+    switches.forEach(sw => {
+      updateDevice(sw.id, {
+        spanningTreeConfig: { vlanPriorities: {}, ...sw.spanningTreeConfig, mode }
+      } as Partial<SwitchingDevice>);
+    });
+  };
+
+  // Set a switch's bridge priority for the instance shown (the VLAN, or its MST instance)
+  const handlePriorityChange = (sw: SwitchingDevice, bridge: STPBridge, priority: number) => {
+    const config = { mode: 'pvst' as SpanningTreeMode, vlanPriorities: {}, ...sw.spanningTreeConfig };
+    if (bridge.mode === 'mst') {
+      const mst = { name: '', revision: 0, instances: {}, priorities: {}, ...config.mst };
+      config.mst = { ...mst, priorities: { ...mst.priorities, [bridge.instanceId]: priority } };
+    } else {
+      config.vlanPriorities = { ...config.vlanPriorities, [bridge.instanceId]: priority };
+    }
+    updateDevice(sw.id, { spanningTreeConfig: config } as Partial<SwitchingDevice>);
   };
 
   // Get port state color for visualization
@@ -92,6 +144,7 @@ const STPPanel: React.FC = () => {
       case STPPortState.FORWARDING:
         return 'text-green-400';
       case STPPortState.BLOCKING:
+      case STPPortState.DISCARDING:
         return 'text-red-400';
       case STPPortState.LEARNING:
         return 'text-yellow-400';
@@ -115,6 +168,8 @@ const STPPanel: React.FC = () => {
         return 'bg-yellow-600';
       case STPPortRole.BACKUP:
         return 'bg-orange-600';
+      case STPPortRole.MASTER:
+        return 'bg-purple-600';
       case STPPortRole.DISABLED:
         return 'bg-gray-600';
       default:
@@ -134,8 +189,14 @@ const STPPanel: React.FC = () => {
     );
   }
 
-  const rootBridge = stpSimulation.getRootBridgeInfo();
-  const blockedPorts = stpSimulation.getBlockedPorts();
+  const rootBridge = spanningTreeEngine.getRootBridgeInfo(activeVlan);
+  const rootDevice = rootBridge ? switches.find(sw => sw.id === rootBridge.deviceId) : undefined;
+  const rootState = rootBridge ? spanningTreeEngine.getBridgeState(rootBridge.deviceId, activeVlan) : undefined;
+  const mstRegions = spanningTreeEngine.getMstRegions();
+  const blockedPorts = spanningTreeEngine.getBlockedPorts(activeVlan);
+  const errDisabledPorts = switches.flatMap(sw => sw.interfaces
+    .filter(iface => iface.status === InterfaceStatus.ERR_DISABLED)
+    .map(iface => ({ sw, iface })));
 
   return (
     <div className="h-full overflow-y-auto p-4 space-y-4 bg-gray-900 text-white">
@@ -145,6 +206,32 @@ const STPPanel: React.FC = () => {
           <h2 className="text-xl font-bold">Spanning Tree Protocol</h2>
           
           <div className="flex items-center space-x-4">
+            <label className="flex items-center space-x-2">
+              <span className="text-sm">Mode</span>
+              <select
+                value={currentMode}
+                onChange={(e) => handleModeChange(e.target.value as SpanningTreeMode)}
+                className="bg-gray-700 border border-gray-600 rounded px-2 py-1 text-sm"
+              >
+                <option value="pvst">PVST+ (802.1D)</option>
+                <option value="rapid-pvst">Rapid PVST+ (802.1w)</option>
+                <option value="mst">MST (802.1s)</option>
+              </select>
+            </label>
+
+            <label className="flex items-center space-x-2">
+              <span className="text-sm">VLAN</span>
+              <select
+                value={activeVlan}
+                onChange={(e) => setSelectedVlan(Number(e.target.value))}
+                className="bg-gray-700 border border-gray-600 rounded px-2 py-1 text-sm"
+              >
+                {vlanInstances.map(vlanId => (
+                  <option key={vlanId} value={vlanId}>VLAN{vlanId.toString().padStart(4, '0')}</option>
+                ))}
+              </select>
+            </label>
+
             <label className="flex items-center space-x-2">
               <input
                 type="checkbox"
@@ -179,7 +266,7 @@ const STPPanel: React.FC = () => {
         <div className="grid grid-cols-2 md:grid-cols-4 gap-4 text-sm">
           <div className="bg-gray-700 p-3 rounded">
             <div className="text-gray-300">Convergence Time</div>
-            <div className="text-lg font-semibold text-white">{convergenceStats.convergenceTime}ms</div>
+            <div className="text-lg font-semibold text-white">{convergenceStats.convergenceTime}s</div>
           </div>
           <div className="bg-gray-700 p-3 rounded">
             <div className="text-gray-300">Topology Changes</div>
@@ -203,7 +290,8 @@ const STPPanel: React.FC = () => {
         <div className="bg-gray-800 border border-gray-700 rounded-lg p-4">
           <h3 className="text-lg font-semibold mb-3 flex items-center">
             <span className="w-3 h-3 bg-yellow-400 rounded-full mr-2"></span>
-            Root Bridge
+            Root Bridge for VLAN {activeVlan}
+            {rootState && rootState.mode === 'mst' ? ` (${instanceLabel(rootState)})` : ''}: {rootDevice?.name ?? rootBridge.deviceId}
           </h3>
           <div className="grid grid-cols-3 gap-4 text-sm">
             <div>
@@ -212,7 +300,9 @@ const STPPanel: React.FC = () => {
             </div>
             <div>
               <div className="text-gray-400">Priority</div>
-              <div className="text-white">{rootBridge.priority}</div>
+              <div className="text-white">
+                {rootBridge.priority + (rootState?.instanceId ?? activeVlan)} (priority {rootBridge.priority} sys-id-ext {rootState?.instanceId ?? activeVlan})
+              </div>
             </div>
             <div>
               <div className="text-gray-400">MAC Address</div>
@@ -222,13 +312,64 @@ const STPPanel: React.FC = () => {
         </div>
       )}
 
+      {/* Err-disabled Ports */}
+      {errDisabledPorts.length > 0 && (
+        <div className="bg-gray-800 border border-red-700 rounded-lg p-4">
+          <h3 className="text-lg font-semibold mb-3 text-red-400">Err-disabled Ports</h3>
+          <div className="space-y-2 text-sm">
+            {errDisabledPorts.map(({ sw, iface }) => (
+              <div key={`${sw.id}-${iface.id}`} className="flex items-center justify-between bg-gray-700 p-2 rounded">
+                <span className="text-white">
+                  {sw.name} {iface.name}
+                  <span className="text-gray-400 ml-2">
+                    {iface.errDisabled?.cause ?? 'bpduguard'}
+                    {sw.errdisableRecovery?.causes.includes(iface.errDisabled?.cause ?? 'bpduguard')
+                      ? ` · recovers after ${sw.errdisableRecovery.interval}s`
+                      : ' · no automatic recovery'}
+                  </span>
+                </span>
+                <button
+                  onClick={() => handleReenablePort(sw, iface.id)}
+                  className="px-2 py-1 bg-green-600 hover:bg-green-700 rounded text-xs"
+                >
+                  Shut / No Shut
+                </button>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {/* MST Regions */}
+      {mstRegions.length > 0 && (
+        <div className="bg-gray-800 border border-gray-700 rounded-lg p-4">
+          <h3 className="text-lg font-semibold mb-3">MST Regions</h3>
+          <div className="space-y-2 text-sm">
+            {mstRegions.map(region => (
+              <div key={region.key} className="bg-gray-700 p-3 rounded">
+                <div className="flex items-center justify-between">
+                  <span className="text-white font-medium">{region.name || '(unnamed)'}</span>
+                  <span className="text-gray-400 font-mono">rev {region.revision} · digest {region.digest}</span>
+                </div>
+                <div className="text-gray-300 mt-1">
+                  Members: {region.deviceIds.map(id => switches.find(sw => sw.id === id)?.name ?? id).join(', ')}
+                </div>
+                <div className="text-gray-400 mt-1">
+                  {Object.entries(region.instances).map(([instance, vlans]) => `MST${instance}: VLAN ${vlans.join(',')}`).join(' · ') || 'All VLANs on the CIST'}
+                </div>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
       {/* Bridge Details */}
       <div className="space-y-3">
         {switches.map(sw => {
-          const bridgeState = stpSimulation.getBridgeState(sw.id);
+          const bridgeState = spanningTreeEngine.getBridgeState(sw.id, activeVlan);
           if (!bridgeState) return null;
 
-          const isRootBridge = bridgeState.rootBridgeId === sw.id;
+          const isRootBridge = bridgeState.rootBridgeId === bridgeState.bridgeId;
           const isSelected = selectedBridge === sw.id;
 
           return (
@@ -243,14 +384,32 @@ const STPPanel: React.FC = () => {
                   {isRootBridge && <span className="text-xs bg-yellow-600 px-2 py-1 rounded text-black">ROOT</span>}
                 </div>
                 <div className="flex items-center space-x-4 text-sm text-gray-300">
+                  <span>{bridgeState.mode === 'mst' ? `MSTP ${instanceLabel(bridgeState)}` : bridgeState.mode === 'rapid-pvst' ? 'RSTP' : 'STP'}</span>
                   <span>Ports: {bridgeState.ports.size}</span>
-                  <span>Cost: {bridgeState.rootCost}</span>
+                  <span>Cost: {bridgeState.tree === 'msti' ? bridgeState.internalRootCost : bridgeState.rootCost}</span>
                 </div>
               </button>
 
               {/* Port Details */}
               {isSelected && (
                 <div className="p-4 space-y-3">
+                  <div className="flex items-center justify-between text-sm text-gray-300 mb-2">
+                    <span className="font-mono">Bridge ID {bridgeState.bridgeId}</span>
+                    <label className="flex items-center space-x-2">
+                      <span>{instanceLabel(bridgeState)} priority</span>
+                      <select
+                        value={bridgeState.priority}
+                        onChange={(e) => handlePriorityChange(sw, bridgeState, Number(e.target.value))}
+                        className="bg-gray-700 border border-gray-600 rounded px-2 py-1"
+                      >
+                        {BRIDGE_PRIORITIES.map(priority => (
+                          <option key={priority} value={priority}>
+                            {priority}{priority === STP_DEFAULT_BRIDGE_PRIORITY ? ' (default)' : ''}
+                          </option>
+                        ))}
+                      </select>
+                    </label>
+                  </div>
                   <div className="text-sm text-gray-300 mb-2">Port States:</div>
                   {Array.from(bridgeState.ports.entries()).map(([interfaceId, port]) => {
                     const iface = sw.interfaces.find(i => i.id === interfaceId);
@@ -270,6 +429,13 @@ const STPPanel: React.FC = () => {
                             {port.state.toUpperCase()}
                           </span>
                           <span className="text-gray-400">Cost: {port.pathCost}</span>
+                          <span className="text-gray-400">{port.priority}.{port.portId}</span>
+                          <span className="text-gray-400">
+                            {port.edge ? 'P2p Edge'
+                              : port.boundary && bridgeState.mode === 'mst' ? `P2p Bound(${port.rapid ? 'RSTP' : 'STP'})`
+                              : port.rapid ? 'P2p' : 'P2p Peer(STP)'}
+                            {port.inconsistency ? ` *${port.inconsistency.toUpperCase()}_Inc` : ''}
+                          </span>
                         </div>
                       </div>
                     );
@@ -297,24 +463,28 @@ const STPPanel: React.FC = () => {
               if (!sourceDevice || !targetDevice) return null;
               
               // Only show switch-to-switch connections
-              if (sourceDevice.type !== DeviceType.SWITCH || targetDevice.type !== DeviceType.SWITCH) {
+              if (!isSwitchingDevice(sourceDevice) || !isSwitchingDevice(targetDevice)) {
                 return null;
               }
 
+              const failed = spanningTreeEngine.isLinkFailed(conn.id);
+
               return (
                 <div key={conn.id} className="flex items-center justify-between bg-gray-700 p-2 rounded">
-                  <span className="text-sm text-white">
+                  <span className={`text-sm ${failed ? 'text-red-400 line-through' : 'text-white'}`}>
                     {sourceDevice.name} ↔ {targetDevice.name}
                   </span>
                   <div className="space-x-2">
                     <button
-                      onClick={() => handleTopologyChange(conn.sourceDevice, conn.targetDevice, false)}
+                      onClick={() => handleTopologyChange(conn.id, false)}
+                      disabled={failed}
                       className="px-2 py-1 bg-red-600 hover:bg-red-700 rounded text-xs"
                     >
                       Fail Link
                     </button>
                     <button
-                      onClick={() => handleTopologyChange(conn.sourceDevice, conn.targetDevice, true)}
+                      onClick={() => handleTopologyChange(conn.id, true)}
+                      disabled={!failed}
                       className="px-2 py-1 bg-green-600 hover:bg-green-700 rounded text-xs"
                     >
                       Restore Link
@@ -15,6 +15,8 @@ const Sidebar: React.FC = () => {
     { view: ViewType.VLAN_CONFIG, label: 'VLANs', icon: '🔗' },
     { view: ViewType.PACKET_SIM, label: 'Simulation', icon: '📡' },
     { view: ViewType.STP, label: 'STP', icon: '🌳' },
+    { view: ViewType.ACL, label: 'ACLs', icon: '🛡️' },
+    { view: ViewType.FIREWALL, label: 'Firewall', icon: '🧱' },
     { view: ViewType.STATISTICS, label: 'Statistics', icon: '📊' },
   ];
 
@@ -24,6 +26,8 @@ const Sidebar: React.FC = () => {
       case DeviceType.ROUTER: return '📶';
       case DeviceType.PC: return '💻';
       case DeviceType.SERVER: return '🖥️';
+      case DeviceType.FIREWALL: return '🧱';
+      case DeviceType.MULTILAYER_SWITCH: return '🔁';
       default: return '❓';
     }
   };
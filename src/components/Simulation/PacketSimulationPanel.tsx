@@ -1,8 +1,18 @@
 import React, { useState, useEffect } from 'react';
 import { useAppStore } from '../../store';
-import { PacketType, NetworkProtocol, PacketStatus, DropReason } from '../../types/simulation';
+import {
+  PacketType,
+  NetworkProtocol,
+  PacketStatus,
+  DropReason,
+  SimulatedPacket,
+  PacketAddressing,
+  ForwardingAction,
+  IpVersion,
+} from '../../types/simulation';
 import { DeviceType } from '../../types';
 import { getRecommendedScenarios, scenarioGenerators } from '../../utils/simulation/simulationScenarios';
+import { RoutingLogEntry } from '../../utils/routing/routingEngine';
 
 interface PacketCreationForm {
   sourceDevice: string;
@@ -10,6 +20,7 @@ interface PacketCreationForm {
   packetType: PacketType;
   protocol: NetworkProtocol;
   vlanTag?: number;
+  ipVersion: IpVersion;
   packetSize: number;
 }
 
@@ -19,6 +30,7 @@ interface PacketCreationForm {
 const PacketSimulationPanel: React.FC = () => {
   const {
     devices,
+    connections,
     vlans,
     simulationRunning,
     currentSimulation,
@@ -35,6 +47,7 @@ const PacketSimulationPanel: React.FC = () => {
     removeTrafficFlow,
     clearTrafficFlows,
     createSimulationEngine,
+    routingEngine,
   } = useAppStore();
 
   const [showPacketForm, setShowPacketForm] = useState(false);
@@ -44,6 +57,7 @@ const PacketSimulationPanel: React.FC = () => {
     packetType: PacketType.ICMP,
     protocol: NetworkProtocol.ICMP,
     vlanTag: undefined,
+    ipVersion: 4,
     packetSize: 64,
   });
 
@@ -55,20 +69,22 @@ const PacketSimulationPanel: React.FC = () => {
     packetsPerSecond: 10,
     duration: 30,
     vlanId: undefined as number | undefined,
+    ipVersion: 4 as IpVersion,
   });
 
   const [showScenarioSelector, setShowScenarioSelector] = useState(false);
   const [animationEnabled, setAnimationEnabled] = useState(true);
   const [packetTrailsEnabled, setPacketTrailsEnabled] = useState(true);
+  const [inspectedPacketId, setInspectedPacketId] = useState<string | null>(null);
 
   // Initialize simulation engine on mount
   useEffect(() => {
     createSimulationEngine();
-  }, [devices, createSimulationEngine]);
+  }, [devices, connections, createSimulationEngine]);
 
   const handleSendTestPacket = () => {
     if (packetForm.sourceDevice && packetForm.targetDevice) {
-      sendTestPacket(packetForm.sourceDevice, packetForm.targetDevice, packetForm.vlanTag);
+      sendTestPacket(packetForm.sourceDevice, packetForm.targetDevice, packetForm.vlanTag, packetForm.ipVersion);
       setShowPacketForm(false);
       // Reset form
       setPacketForm({
@@ -91,6 +107,7 @@ const PacketSimulationPanel: React.FC = () => {
         duration: trafficFlowForm.duration,
         isActive: true,
         vlanId: trafficFlowForm.vlanId,
+        ipVersion: trafficFlowForm.ipVersion,
       };
       
       addTrafficFlow(flow);
@@ -130,6 +147,7 @@ const PacketSimulationPanel: React.FC = () => {
       case PacketStatus.IN_TRANSIT: return 'text-blue-400';
       case PacketStatus.DELIVERED: return 'text-green-400';
       case PacketStatus.DROPPED: return 'text-red-400';
+      case PacketStatus.FILTERED: return 'text-gray-500';
       case PacketStatus.TIMEOUT: return 'text-orange-400';
       case PacketStatus.ERROR: return 'text-red-500';
       default: return 'text-gray-400';
@@ -145,10 +163,43 @@ const PacketSimulationPanel: React.FC = () => {
       case DropReason.BUFFER_FULL: return 'Buffer Full';
       case DropReason.ACCESS_DENIED: return 'Access Denied';
       case DropReason.LOOP_DETECTED: return 'Loop Detected';
+      case DropReason.STP_BLOCKED: return 'STP Blocking';
+      case DropReason.ARP_FAILED: return 'ARP Failed';
+      case DropReason.NDP_FAILED: return 'NDP Failed';
+      case DropReason.DHCP_FAILED: return 'DHCP Failed';
+      case DropReason.DHCP_SNOOPING: return 'DHCP Snooping';
+      case DropReason.ARP_INSPECTION: return 'ARP Inspection';
+      case DropReason.IP_SOURCE_GUARD: return 'IP Source Guard';
+      case DropReason.PORT_SECURITY: return 'Port Security';
+      case DropReason.FIREWALL_DENIED: return 'Firewall Denied';
+      case DropReason.NAT_FAILED: return 'NAT Failed';
       default: return 'Unknown';
     }
   };
 
+  const getLastDecisionText = (packet: SimulatedPacket): string => {
+    const decision = packet.decisions![packet.decisions!.length - 1];
+    const deviceName = devices.find(d => d.id === decision.deviceId)?.name ?? decision.deviceId;
+    return `${deviceName}: ${decision.reason}`;
+  };
+
+  const getRoutingProtocolColor = (protocol: RoutingLogEntry['protocol']): string => {
+    switch (protocol) {
+      case 'OSPF': return 'text-blue-400';
+      case 'RIP': return 'text-green-400';
+      default: return 'text-purple-400';
+    }
+  };
+
+  // Newest first; the simulation re-renders the panel as it advances the routing clock
+  const routingLog = routingEngine.getLog().slice(-30).reverse();
+
+  const formatAddressing = (header?: PacketAddressing): string => {
+    if (!header) return '';
+    const endpoint = (ip?: string, port?: number) => `${ip ?? '?'}${port !== undefined ? `:${port}` : ''}`;
+    return `${endpoint(header.sourceIp, header.sourcePort)} → ${endpoint(header.targetIp, header.targetPort)}`;
+  };
+
   if (devices.length === 0) {
     return (
       <div className="flex items-center justify-center h-full">
@@ -353,7 +404,11 @@ const PacketSimulationPanel: React.FC = () => {
               <h3 className="text-lg font-semibold mb-3">Active Packets</h3>
               <div className="space-y-2 max-h-64 overflow-y-auto">
                 {currentSimulation.packets.slice(0, 20).map((packet) => (
-                  <div key={packet.id} className="bg-gray-800 p-3 rounded-md text-sm">
+                  <div
+                    key={packet.id}
+                    className="bg-gray-800 p-3 rounded-md text-sm cursor-pointer hover:bg-gray-700"
+                    onClick={() => setInspectedPacketId(inspectedPacketId === packet.id ? null : packet.id)}
+                  >
                     <div className="flex justify-between items-center mb-1">
                       <span className="font-medium">{packet.protocol}</span>
                       <span className={`text-xs ${getStatusColor(packet.status)}`}>
@@ -363,7 +418,38 @@ const PacketSimulationPanel: React.FC = () => {
                     <div className="text-gray-400 text-xs">
                       {devices.find(d => d.id === packet.sourceDevice)?.name} → {devices.find(d => d.id === packet.targetDevice)?.name}
                       {packet.vlanTag && ` • VLAN ${packet.vlanTag}`}
+                      {packet.ipVersion === 6 && ' • IPv6'}
+                      {packet.dhcpType && ` • DHCP ${packet.dhcpType.toUpperCase()}`}
                     </div>
+                    {packet.decisions && packet.decisions.length > 0 && inspectedPacketId !== packet.id && (
+                      <div className="text-gray-500 text-xs mt-1">
+                        {getLastDecisionText(packet)}
+                      </div>
+                    )}
+                    {/* Hop-by-hop inspector: headers as each device saw them, before and after NAT */}
+                    {inspectedPacketId === packet.id && (
+                      <ol className="mt-2 space-y-1 border-l border-gray-600 pl-2">
+                        {(packet.decisions ?? []).map((decision, index) => (
+                          <li key={index} className="text-xs">
+                            <div className="text-gray-300">
+                              {devices.find(d => d.id === decision.deviceId)?.name ?? decision.deviceId}
+                              <span className="text-gray-500"> [{decision.action}] </span>
+                              {decision.reason}
+                            </div>
+                            {decision.header?.sourceIp && (
+                              <div className="font-mono text-gray-500">
+                                {decision.action === ForwardingAction.NAT ? 'pre  ' : ''}{formatAddressing(decision.header)}
+                              </div>
+                            )}
+                            {decision.translatedHeader && (
+                              <div className="font-mono text-yellow-400">
+                                post {formatAddressing(decision.translatedHeader)}
+                              </div>
+                            )}
+                          </li>
+                        ))}
+                      </ol>
+                    )}
                     {packet.drops && packet.drops.length > 0 && (
                       <div className="text-red-400 text-xs mt-1">
                         Dropped: {getDropReasonText(packet.drops[0].reason)}
@@ -374,6 +460,23 @@ const PacketSimulationPanel: React.FC = () => {
               </div>
             </div>
           )}
+
+          {/* OSPF adjacencies, RIP routes and BGP sessions change as the simulation advances their timers */}
+          {routingLog.length > 0 && (
+            <div className="mt-6">
+              <h3 className="text-lg font-semibold mb-3">Routing Protocol Events</h3>
+              <div className="space-y-1 max-h-64 overflow-y-auto">
+                {routingLog.map((entry, index) => (
+                  <div key={`${entry.time}-${index}`} className="text-xs">
+                    <span className="font-mono text-gray-500">{entry.time}s </span>
+                    <span className={getRoutingProtocolColor(entry.protocol)}>{entry.protocol} </span>
+                    <span className="text-gray-300">{devices.find(d => d.id === entry.deviceId)?.name ?? entry.deviceId}: </span>
+                    <span className="text-gray-400">{entry.message}</span>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
         </div>
 
         {/* Right panel - Network visualization (placeholder) */}
@@ -434,11 +537,14 @@ const PacketSimulationPanel: React.FC = () => {
 
               <div>
                 <label className="block text-sm font-medium mb-1">Protocol</label>
-                <input
-                  value="ICMP (Ping)"
-                  readOnly
-                  className="w-full p-2 bg-gray-800 border border-gray-700 rounded-md text-gray-400"
-                />
+                <select
+                  value={packetForm.ipVersion}
+                  onChange={(e) => setPacketForm({ ...packetForm, ipVersion: Number(e.target.value) as IpVersion })}
+                  className="w-full p-2 bg-gray-700 border border-gray-600 rounded-md"
+                >
+                  <option value={4}>ICMP (Ping)</option>
+                  <option value={6}>ICMPv6 (Ping)</option>
+                </select>
               </div>
 
               {vlans.length > 0 && (
@@ -531,6 +637,18 @@ const PacketSimulationPanel: React.FC = () => {
                 </select>
               </div>
 
+              <div>
+                <label className="block text-sm font-medium mb-1">IP Version</label>
+                <select
+                  value={trafficFlowForm.ipVersion}
+                  onChange={(e) => setTrafficFlowForm({ ...trafficFlowForm, ipVersion: Number(e.target.value) as IpVersion })}
+                  className="w-full p-2 bg-gray-700 border border-gray-600 rounded-md"
+                >
+                  <option value={4}>IPv4</option>
+                  <option value={6}>IPv6</option>
+                </select>
+              </div>
+
               <div>
                 <label className="block text-sm font-medium mb-1">Packets per Second</label>
                 <input
@@ -662,6 +780,21 @@ const PacketSimulationPanel: React.FC = () => {
       case 'trunkTest':
         scenario = scenarioGenerators.trunkTest(devices, vlans);
         break;
+      case 'statefulFirewall':
+        scenario = scenarioGenerators.statefulFirewall(devices);
+        break;
+      case 'dualStack':
+        scenario = scenarioGenerators.dualStack(devices);
+        break;
+      case 'rogueDhcp':
+        scenario = scenarioGenerators.rogueDhcp(devices);
+        break;
+      case 'arpSpoofing':
+        scenario = scenarioGenerators.arpSpoofing(devices);
+        break;
+      case 'dhcpStarvation':
+        scenario = scenarioGenerators.dhcpStarvation(devices);
+        break;
     }
     
     if (scenario) {
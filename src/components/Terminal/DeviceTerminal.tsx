@@ -0,0 +1,142 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { useAppStore } from '../../store';
+import { CliSession } from '../../utils/networking/cliEngine';
+
+interface DeviceTerminalProps {
+  deviceId: string;
+  onClose: () => void;
+}
+
+interface TerminalLine {
+  id: number;
+  text: string;
+}
+
+/**
+ * IOS-style console for a single device.
+ * Commands are executed by a CliSession that writes straight into the store,
+ * so the canvas and the terminal always show the same configuration.
+ */
+const DeviceTerminal: React.FC<DeviceTerminalProps> = ({ deviceId, onClose }) => {
+  const device = useAppStore((state) => state.devices.find(d => d.id === deviceId));
+  const session = useMemo(() => new CliSession(deviceId, useAppStore.getState), [deviceId]);
+
+  const [lines, setLines] = useState<TerminalLine[]>([]);
+  const [input, setInput] = useState('');
+  const [prompt, setPrompt] = useState(() => session.getPrompt());
+  const [history, setHistory] = useState<string[]>([]);
+  const [historyIndex, setHistoryIndex] = useState<number | null>(null);
+
+  const outputRef = useRef<HTMLDivElement>(null);
+  const inputRef = useRef<HTMLInputElement>(null);
+  const nextLineId = useRef(0);
+
+  const append = (...texts: string[]) => {
+    setLines(prev => [
+      ...prev,
+      ...texts.filter(t => t !== '').map(text => ({ id: nextLineId.current++, text })),
+    ]);
+  };
+
+  // Close the console when its device is removed from the canvas
+  useEffect(() => {
+    if (!device) onClose();
+  }, [device, onClose]);
+
+  // Keep the prompt in sync when the hostname changes elsewhere
+  useEffect(() => {
+    setPrompt(session.getPrompt());
+  }, [session, device?.name]);
+
+  useEffect(() => {
+    outputRef.current?.scrollTo({ top: outputRef.current.scrollHeight });
+  }, [lines]);
+
+  useEffect(() => {
+    inputRef.current?.focus();
+  }, []);
+
+  const submit = () => {
+    const echo = `${prompt}${input}`;
+    const response = session.execute(input);
+    append(echo, response.output);
+    setPrompt(response.prompt);
+    if (input.trim() && !input.trim().endsWith('?')) {
+      setHistory(prev => [...prev, input]);
+    }
+    // "?" keeps the typed text so the user can continue the command
+    setInput(input.trim().endsWith('?') ? input.trim().replace(/\?$/, '') : '');
+    setHistoryIndex(null);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'Enter') {
+      e.preventDefault();
+      submit();
+    } else if (e.key === 'Tab') {
+      e.preventDefault();
+      setInput(session.complete(input));
+    } else if (e.key === '?') {
+      // IOS shows help immediately without waiting for Enter
+      e.preventDefault();
+      append(`${prompt}${input}?`, session.help(`${input}?`));
+    } else if (e.key === 'z' && e.ctrlKey) {
+      e.preventDefault();
+      const response = session.end();
+      append(`${prompt}${input}^Z`);
+      setPrompt(response.prompt);
+      setInput('');
+    } else if (e.key === 'ArrowUp') {
+      e.preventDefault();
+      if (history.length === 0) return;
+      const index = historyIndex === null ? history.length - 1 : Math.max(0, historyIndex - 1);
+      setHistoryIndex(index);
+      setInput(history[index]);
+    } else if (e.key === 'ArrowDown') {
+      e.preventDefault();
+      if (historyIndex === null) return;
+      const index = historyIndex + 1;
+      if (index >= history.length) {
+        setHistoryIndex(null);
+        setInput('');
+      } else {
+        setHistoryIndex(index);
+        setInput(history[index]);
+      }
+    }
+  };
+
+  return (
+    <div className="fixed bottom-4 right-4 z-40 w-[40rem] max-w-[calc(100vw-2rem)] h-96 flex flex-col bg-gray-950 border border-gray-700 rounded-lg shadow-2xl">
+      <div className="flex items-center justify-between px-3 py-2 border-b border-gray-700 bg-gray-900 rounded-t-lg">
+        <div className="text-sm text-white font-medium">
+          💻 {device?.name ?? 'Device'} — Console
+        </div>
+        <button onClick={onClose} className="text-gray-300 hover:text-white" title="Close terminal">✕</button>
+      </div>
+      <div
+        ref={outputRef}
+        className="flex-1 overflow-y-auto px-3 py-2 font-mono text-xs text-green-300 whitespace-pre-wrap"
+        onClick={() => inputRef.current?.focus()}
+      >
+        {lines.map(line => (
+          <div key={line.id}>{line.text}</div>
+        ))}
+        <div className="flex">
+          <span>{prompt}</span>
+          <input
+            ref={inputRef}
+            value={input}
+            onChange={(e) => setInput(e.target.value)}
+            onKeyDown={handleKeyDown}
+            spellCheck={false}
+            autoComplete="off"
+            className="flex-1 bg-transparent outline-none border-none text-green-300 font-mono text-xs"
+          />
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default DeviceTerminal;
@@ -1,8 +1,10 @@
 import React, { useState } from 'react';
 import { useAppStore } from '../../store';
 import { ViewType } from '../../types';
-import { sampleTopology } from '../../data/sampleData';
+import { sampleTopology, bgpSampleTopology } from '../../data/sampleData';
 import { shortcutManager } from '../../theme/keyboardShortcuts';
+import { NetworkConfigurationManager } from '../../utils/networking/networkConfiguration';
+import { ParsedDeviceConfig } from '../../utils/networking/runningConfig';
 
 /**
  * Toolbar component with main actions and controls
@@ -24,6 +26,10 @@ const Toolbar: React.FC = () => {
     toggleConnectionTool,
     showPortLabels,
     togglePortLabels,
+    addDevice,
+    updateDevice,
+    addVlan,
+    updateVlan,
   } = useAppStore();
 
   const [showFileMenu, setShowFileMenu] = useState(false);
@@ -47,6 +53,15 @@ const Toolbar: React.FC = () => {
     setShowFileMenu(false);
   };
 
+  const handleLoadBgpSample = () => {
+    if (devices.length > 0) {
+      const confirmed = window.confirm('This will replace the current topology. Are you sure?');
+      if (!confirmed) return;
+    }
+    loadTopology(bgpSampleTopology);
+    setShowFileMenu(false);
+  };
+
   const handleExport = () => {
     const data = {
       devices,
@@ -65,6 +80,66 @@ const Toolbar: React.FC = () => {
     setShowFileMenu(false);
   };
 
+  const handleExportRunningConfig = () => {
+    const manager = new NetworkConfigurationManager();
+    manager.loadState(devices, vlans, connections);
+    const result = manager.exportRunningConfig();
+
+    const blob = new Blob([result.data.text], { type: 'text/plain' });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `running-config-${new Date().toISOString().split('T')[0]}.txt`;
+    a.click();
+    URL.revokeObjectURL(url);
+    setShowFileMenu(false);
+  };
+
+  const handleImportRunningConfig = () => {
+    const input = document.createElement('input');
+    input.type = 'file';
+    input.accept = '.txt,.cfg,.conf';
+    input.onchange = (e) => {
+      const file = (e.target as HTMLInputElement).files?.[0];
+      if (!file) return;
+      const reader = new FileReader();
+      reader.onload = (e) => {
+        const manager = new NetworkConfigurationManager();
+        manager.loadState(structuredClone(devices), structuredClone(vlans), connections);
+        const result = manager.importRunningConfig(e.target?.result as string);
+        const warnings = result.warnings?.length
+          ? `\n\nUnsupported lines were skipped:\n${result.warnings.join('\n')}`
+          : '';
+
+        if (!result.success) {
+          alert(`Running-config import failed:\n${result.message}${warnings}`);
+          return;
+        }
+
+        (result.data.devices as ParsedDeviceConfig[]).forEach(({ device, isNew }, index) => {
+          if (isNew) {
+            addDevice({ ...device, position: { x: 100 + index * 150, y: 100 } });
+          } else {
+            updateDevice(device.id, device);
+          }
+        });
+        manager.getVlans().forEach(vlan => {
+          const existing = vlans.find(v => v.id === vlan.id);
+          if (!existing) {
+            addVlan(vlan);
+          } else if (existing.name !== vlan.name) {
+            updateVlan(vlan.id, { name: vlan.name });
+          }
+        });
+
+        alert(`${result.message}${warnings}`);
+        setShowFileMenu(false);
+      };
+      reader.readAsText(file);
+    };
+    input.click();
+  };
+
   const handleImport = () => {
     const input = document.createElement('input');
     input.type = 'file';
@@ -126,6 +201,12 @@ const Toolbar: React.FC = () => {
               >
                 📋 Load Sample
               </button>
+              <button
+                onClick={handleLoadBgpSample}
+                className="w-full px-4 py-2 text-left hover:bg-gray-600 transition-colors"
+              >
+                🌐 Load Multi-AS BGP Sample
+              </button>
               <hr className="border-gray-600" />
               <button
                 onClick={handleImport}
@@ -135,11 +216,25 @@ const Toolbar: React.FC = () => {
               </button>
               <button
                 onClick={handleExport}
-                className="w-full px-4 py-2 text-left hover:bg-gray-600 rounded-b-lg transition-colors"
+                className="w-full px-4 py-2 text-left hover:bg-gray-600 transition-colors"
                 disabled={devices.length === 0}
               >
                 📤 Export
               </button>
+              <hr className="border-gray-600" />
+              <button
+                onClick={handleImportRunningConfig}
+                className="w-full px-4 py-2 text-left hover:bg-gray-600 transition-colors"
+              >
+                📄 Import Running-Config
+              </button>
+              <button
+                onClick={handleExportRunningConfig}
+                className="w-full px-4 py-2 text-left hover:bg-gray-600 rounded-b-lg transition-colors"
+                disabled={devices.length === 0}
+              >
+                📝 Export Running-Config
+              </button>
             </div>
           )}
         </div>
@@ -244,6 +339,8 @@ const Toolbar: React.FC = () => {
           {currentView === ViewType.VLAN_CONFIG && 'VLAN Configuration'}
           {currentView === ViewType.PACKET_SIM && 'Packet Simulation'}
           {currentView === ViewType.STP && 'Spanning Tree Protocol'}
+          {currentView === ViewType.ACL && 'Access Control Lists'}
+          {currentView === ViewType.FIREWALL && 'Zone-Based Firewall'}
           {currentView === ViewType.STATISTICS && 'Network Statistics'}
         </h2>
       </div>
@@ -1,12 +1,48 @@
 import React, { useMemo, useState } from 'react';
 import { useAppStore } from '../../store';
-import { DeviceType, InterfaceType, SwitchDevice, Vlan, VlanStatus } from '../../types';
+import { InterfaceType, SwitchingDevice, Vlan, VlanStatus } from '../../types';
 import { getInterfaceVlans, validateNetworkVlanConfig } from '../../utils/vlan-logic/vlanConfiguration';
 import PortConfigModal from '../Modals/PortConfigModal';
+import { isSwitchingDevice, getSwitchports } from '../../utils/networking/multilayerSwitch';
+import { NetworkConfigurationManager, ConfigResult } from '../../utils/networking/networkConfiguration';
+
+/**
+ * Apply a VLAN change to the VLAN database of the given switches the way the vlan command
+ * does: VTP servers raise their revision, and clients refuse and are left to VTP
+ */
+const updateVlanDatabases = (
+  switchIds: string[],
+  change: (manager: NetworkConfigurationManager, deviceId: string) => ConfigResult
+): void => {
+  const { devices, vlans, connections, updateDevice } = useAppStore.getState();
+  const manager = new NetworkConfigurationManager();
+  manager.loadState(structuredClone(devices), structuredClone(vlans), connections);
+  devices.filter(isSwitchingDevice).filter(sw => switchIds.includes(sw.id)).forEach(sw => {
+    if (!change(manager, sw.id).success) return;
+    const updated = manager.getDevice(sw.id) as SwitchingDevice;
+    if (JSON.stringify(updated.vlanDatabase) !== JSON.stringify(sw.vlanDatabase)) {
+      updateDevice(sw.id, { vlanDatabase: updated.vlanDatabase, vtp: updated.vtp } as Partial<SwitchingDevice>);
+    }
+  });
+};
+
+/**
+ * Add topology VLANs a switch's ports are assigned to but its VLAN database does not have yet
+ */
+const addMissingVlans = (switchId: string, vlanIds: number[]): void => {
+  const { devices, vlans } = useAppStore.getState();
+  const sw = devices.filter(isSwitchingDevice).find(d => d.id === switchId);
+  const missing = vlans.filter(v => vlanIds.includes(v.id) && sw && !sw.vlanDatabase.some(entry => entry.id === v.id));
+  if (missing.length === 0) return;
+  updateVlanDatabases([switchId], (manager, deviceId) =>
+    missing.map(v => manager.configureVlan({ id: v.id, name: v.name }, deviceId)).pop()!
+  );
+};
 
 // VLAN Manager subcomponent
 const VlanManager: React.FC = () => {
-  const { vlans, addVlan, updateVlan, removeVlan, selectVlan } = useAppStore();
+  const { devices, vlans, addVlan, updateVlan, removeVlan, selectVlan } = useAppStore();
+  const switchIds = devices.filter(isSwitchingDevice).map(sw => sw.id);
   const [newVlanId, setNewVlanId] = useState<number>(1);
   const [newVlanName, setNewVlanName] = useState<string>('New VLAN');
   const [newVlanColor, setNewVlanColor] = useState<string>('#60A5FA');
@@ -29,9 +65,16 @@ const VlanManager: React.FC = () => {
       createdAt: new Date(),
       modifiedAt: new Date(),
     } as Vlan);
+    // Switches only forward VLANs in their own database
+    updateVlanDatabases(switchIds, (manager, deviceId) => manager.configureVlan({ id: newVlanId, name: newVlanName }, deviceId));
     selectVlan(newVlanId);
   };
 
+  const onRemove = (vlanId: number) => {
+    updateVlanDatabases(switchIds, (manager, deviceId) => manager.removeVlan(vlanId, deviceId));
+    removeVlan(vlanId);
+  };
+
   return (
     <div className="bg-gray-900 border border-gray-700 rounded-lg p-3 space-y-3">
       <div className="flex items-center justify-between">
@@ -74,7 +117,7 @@ const VlanManager: React.FC = () => {
                 <option value={VlanStatus.SHUTDOWN}>shutdown</option>
               </select>
               <button onClick={() => selectVlan(v.id)} className="px-2 py-1 bg-gray-700 hover:bg-gray-600 rounded text-xs mr-2">Select</button>
-              <button onClick={() => removeVlan(v.id)} className="px-2 py-1 bg-red-600 hover:bg-red-700 rounded text-xs">Delete</button>
+              <button onClick={() => onRemove(v.id)} className="px-2 py-1 bg-red-600 hover:bg-red-700 rounded text-xs">Delete</button>
             </div>
           ))}
         </div>
@@ -86,7 +129,7 @@ const VlanManager: React.FC = () => {
 const VlanPanel: React.FC = () => {
   const { devices, vlans, updateDevice, selectedVlan } = useAppStore();
   const switches = useMemo(
-    () => devices.filter(d => d.type === DeviceType.SWITCH) as SwitchDevice[],
+    () => devices.filter(isSwitchingDevice),
     [devices]
   );
 
@@ -97,10 +140,10 @@ const VlanPanel: React.FC = () => {
   // Validation result for warnings/errors
   const validation = useMemo(() => validateNetworkVlanConfig(devices, vlans, useAppStore.getState().connections), [devices, vlans]);
 
-  const applyAccess = (sw: SwitchDevice, ifaceId: string, vlanId: number) => {
+  const applyAccess = (sw: SwitchingDevice, ifaceId: string, vlanId: number) => {
     const ifaceIdx = sw.interfaces.findIndex(i => i.id === ifaceId);
     if (ifaceIdx === -1) return;
-    const newSw: SwitchDevice = {
+    const newSw: SwitchingDevice = {
       ...sw,
       interfaces: sw.interfaces.map((i, idx) => idx === ifaceIdx ? {
         ...i,
@@ -109,12 +152,13 @@ const VlanPanel: React.FC = () => {
       } : i)
     };
     updateDevice(sw.id, newSw);
+    addMissingVlans(sw.id, [vlanId]);
   };
 
-  const applyTrunk = (sw: SwitchDevice, ifaceId: string, allowedVlans: number[], nativeVlan: number) => {
+  const applyTrunk = (sw: SwitchingDevice, ifaceId: string, allowedVlans: number[], nativeVlan: number) => {
     const ifaceIdx = sw.interfaces.findIndex(i => i.id === ifaceId);
     if (ifaceIdx === -1) return;
-    const newSw: SwitchDevice = {
+    const newSw: SwitchingDevice = {
       ...sw,
       interfaces: sw.interfaces.map((i, idx) => idx === ifaceIdx ? {
         ...i,
@@ -123,13 +167,14 @@ const VlanPanel: React.FC = () => {
       } : i)
     };
     updateDevice(sw.id, newSw);
+    addMissingVlans(sw.id, [...allowedVlans, nativeVlan]);
   };
 
   const getVlanColor = (vlanId?: number) => vlans.find(v => v.id === vlanId)?.color || '#9CA3AF';
 
-  const [modalState, setModalState] = useState<{ open: boolean; sw?: SwitchDevice; ifaceId?: string }>({ open: false });
+  const [modalState, setModalState] = useState<{ open: boolean; sw?: SwitchingDevice; ifaceId?: string }>({ open: false });
 
-  const InterfaceRow: React.FC<{ sw: SwitchDevice; ifaceId: string }> = ({ sw, ifaceId }) => {
+  const InterfaceRow: React.FC<{ sw: SwitchingDevice; ifaceId: string }> = ({ sw, ifaceId }) => {
     const iface = sw.interfaces.find(i => i.id === ifaceId)!;
     const mode = iface.type === InterfaceType.TRUNK ? 'trunk' : (iface.type === InterfaceType.ACCESS ? 'access' : 'access');
 
@@ -315,11 +360,11 @@ const VlanPanel: React.FC = () => {
             className="w-full flex items-center justify-between px-4 py-3 bg-gray-800 rounded-t-lg"
           >
             <div className="text-white font-medium">{sw.name}</div>
-            <div className="text-sm text-gray-400">Interfaces: {sw.interfaces.length}</div>
+            <div className="text-sm text-gray-400">Interfaces: {getSwitchports(sw).length}</div>
           </button>
           {expandedSwitchId === sw.id && (
             <div className="p-4 space-y-3">
-              {sw.interfaces.map(iface => (
+              {getSwitchports(sw).map(iface => (
                 <InterfaceRow key={iface.id} sw={sw} ifaceId={iface.id} />
               ))}
             </div>
@@ -4,6 +4,8 @@ import {
   DeviceStatus,
   SwitchDevice,
   RouterDevice,
+  FirewallDevice,
+  MultilayerSwitchDevice,
   PcDevice,
   ServerDevice,
   InterfaceType,
@@ -15,6 +17,8 @@ import {
   ConnectionType,
   ConnectionStatus,
   DeviceTemplate,
+  NetworkInterface,
+  BgpProcessConfig,
 } from '../types';
 
 /**
@@ -171,6 +175,62 @@ export const deviceTemplates: DeviceTemplate[] = [
       services: ['HTTP', 'HTTPS', 'SSH'],
     },
   },
+  {
+    type: DeviceType.FIREWALL,
+    name: 'Stateful Firewall',
+    icon: 'firewall-icon',
+    defaultConfig: {
+      type: DeviceType.FIREWALL,
+      status: DeviceStatus.ACTIVE,
+      interfaces: Array.from({ length: 4 }, (_, i) => ({
+        id: generateId(),
+        name: `Gi0/${i}`,
+        type: InterfaceType.ETHERNET,
+        status: InterfaceStatus.DOWN,
+        macAddress: generateMacAddress(),
+        speed: 1000,
+        duplex: 'full' as const,
+      })),
+      routingTable: [],
+      // Inside hosts may open sessions to the outside; nothing from the outside gets in unasked
+      zones: [
+        { name: 'inside', interfaces: ['Gi0/0'] },
+        { name: 'outside', interfaces: ['Gi0/1'] },
+      ],
+      zonePairs: [
+        { source: 'inside', destination: 'outside', rules: [{ protocol: 'ip', action: 'inspect' }] },
+      ],
+    },
+  },
+  {
+    type: DeviceType.MULTILAYER_SWITCH,
+    name: 'Multilayer Switch',
+    icon: 'multilayer-switch-icon',
+    defaultConfig: {
+      type: DeviceType.MULTILAYER_SWITCH,
+      status: DeviceStatus.ACTIVE,
+      interfaces: Array.from({ length: 24 }, (_, i) => ({
+        id: generateId(),
+        name: `Gi0/${i + 1}`,
+        type: InterfaceType.ACCESS,
+        status: InterfaceStatus.DOWN,
+        macAddress: generateMacAddress(),
+        speed: 1000,
+        duplex: 'full' as const,
+        vlanConfig: {
+          accessVlan: 1,
+        },
+      })),
+      macAddressTable: [],
+      vlanDatabase: defaultVlans.map(vlan => ({
+        id: vlan.id,
+        name: vlan.name,
+        status: vlan.status === VlanStatus.ACTIVE ? 'active' as const : 'suspended' as const,
+      })),
+      spanningTreeEnabled: true,
+      routingTable: [],
+    },
+  },
 ];
 
 /**
@@ -316,6 +376,77 @@ export const createDeviceFromTemplate = (
       };
       return device;
     }
+    case DeviceType.FIREWALL: {
+      const t = template.defaultConfig as Partial<FirewallDevice>;
+      const sourceIfaces = Array.isArray(t.interfaces) ? t.interfaces : Array.from({ length: 4 }).map((_, i) => ({
+        name: `Gi0/${i}`,
+        type: InterfaceType.ETHERNET,
+        status: InterfaceStatus.DOWN,
+        speed: 1000,
+        duplex: 'full' as const,
+      }));
+      const interfaces = sourceIfaces.map((iface: Partial<NetworkInterface>, i: number) => ({
+        id: generateId(),
+        name: iface.name ?? `Gi0/${i}`,
+        type: iface.type ?? InterfaceType.ETHERNET,
+        status: iface.status ?? InterfaceStatus.DOWN,
+        macAddress: generateMacAddress(),
+        speed: iface.speed ?? 1000,
+        duplex: iface.duplex ?? ('full' as const),
+      }));
+
+      const device: FirewallDevice = {
+        id,
+        name,
+        type: DeviceType.FIREWALL,
+        position,
+        status: t?.status ?? DeviceStatus.ACTIVE,
+        interfaces,
+        routingTable: Array.isArray(t?.routingTable) ? t!.routingTable.map(r => ({ ...r })) : [],
+        zones: (t?.zones ?? []).map(zone => ({ ...zone, interfaces: [...zone.interfaces] })),
+        zonePairs: (t?.zonePairs ?? []).map(pair => ({ ...pair, rules: pair.rules.map(rule => ({ ...rule })) })),
+        description: `${template.name} - ${name}`,
+      };
+      return device;
+    }
+    case DeviceType.MULTILAYER_SWITCH: {
+      const t = template.defaultConfig as Partial<MultilayerSwitchDevice>;
+      const sourceIfaces = Array.isArray(t.interfaces) ? t.interfaces : Array.from({ length: 24 }).map((_, i) => ({
+        name: `Gi0/${i + 1}`,
+        type: InterfaceType.ACCESS,
+        status: InterfaceStatus.DOWN,
+        speed: 1000,
+        duplex: 'full' as const,
+      }));
+      // Ports start as switchports; SVIs and routed ports are configured afterwards
+      const interfaces = sourceIfaces.map((iface: Partial<NetworkInterface>, i: number) => ({
+        id: generateId(),
+        name: iface.name ?? `Gi0/${i + 1}`,
+        type: iface.type ?? InterfaceType.ACCESS,
+        status: iface.status ?? InterfaceStatus.DOWN,
+        macAddress: generateMacAddress(),
+        speed: iface.speed ?? 1000,
+        duplex: iface.duplex ?? ('full' as const),
+        vlanConfig: iface.vlanConfig ? { ...iface.vlanConfig } : { accessVlan: 1 },
+      }));
+
+      const device: MultilayerSwitchDevice = {
+        id,
+        name,
+        type: DeviceType.MULTILAYER_SWITCH,
+        position,
+        status: t?.status ?? DeviceStatus.ACTIVE,
+        interfaces,
+        macAddressTable: [],
+        vlanDatabase: (t?.vlanDatabase ?? defaultVlans.map(v => ({ id: v.id, name: v.name, status: v.status === VlanStatus.ACTIVE ? 'active' : 'suspended' })))
+          .map(v => ({ ...v })),
+        spanningTreeEnabled: t?.spanningTreeEnabled ?? true,
+        routingTable: Array.isArray(t?.routingTable) ? t!.routingTable.map(r => ({ ...r })) : [],
+        ipRouting: t?.ipRouting,
+        description: `${template.name} - ${name}`,
+      };
+      return device;
+    }
     default: {
       // Fallback: shallow clone but ensure unique id and description
       return {
@@ -509,4 +640,92 @@ export const createSampleConnections = (devices: NetworkDevice[]): Connection[]
 };
 
 // Update sample topology with connections
-sampleTopology.connections = createSampleConnections(sampleTopology.devices);
\ No newline at end of file
+sampleTopology.connections = createSampleConnections(sampleTopology.devices);
+/**
+ * Multi-AS BGP sample: AS 65001 (two routers, iBGP) peers over eBGP with
+ * AS 65002 and AS 65003, which also peer with each other. Each AS announces
+ * its LAN, so AS 65001 sees 172.16.3.0/24 both directly and via AS 65002.
+ */
+const createBgpSampleTopology = (): { devices: NetworkDevice[]; connections: Connection[]; vlans: Vlan[] } => {
+  const router = (name: string, position: { x: number; y: number }, addresses: string[], bgp: BgpProcessConfig): RouterDevice => {
+    const device = createDeviceFromTemplate(deviceTemplates[1], name, position) as RouterDevice;
+    addresses.forEach((address, i) => {
+      device.interfaces[i].ipAddress = address;
+    });
+    device.bgpEnabled = true;
+    device.bgpConfig = bgp;
+    return device;
+  };
+  const pc = (name: string, position: { x: number; y: number }, address: string, gateway: string): PcDevice => {
+    const device = createDeviceFromTemplate(deviceTemplates[2], name, position) as PcDevice;
+    device.interface.ipAddress = address;
+    device.defaultGateway = gateway;
+    return device;
+  };
+
+  const edge = router('AS65001-Edge', { x: 300, y: 200 }, ['10.1.12.1/30', '10.0.13.1/30', '10.0.14.1/30'], {
+    asn: 65001,
+    routerId: '1.1.1.1',
+    networks: [],
+    neighbors: [
+      { address: '10.1.12.2', remoteAs: 65001, description: 'AS65001-Core', nextHopSelf: true },
+      { address: '10.0.13.2', remoteAs: 65002, description: 'AS65002' },
+      { address: '10.0.14.2', remoteAs: 65003, description: 'AS65003' },
+    ],
+  });
+  const core = router('AS65001-Core', { x: 100, y: 200 }, ['10.1.12.2/30', '172.16.1.1/24'], {
+    asn: 65001,
+    routerId: '2.2.2.2',
+    networks: [{ network: '172.16.1.0', mask: '255.255.255.0' }],
+    neighbors: [{ address: '10.1.12.1', remoteAs: 65001, description: 'AS65001-Edge' }],
+  });
+  const as65002 = router('AS65002-R1', { x: 500, y: 100 }, ['10.0.13.2/30', '10.0.34.1/30', '172.16.2.1/24'], {
+    asn: 65002,
+    routerId: '3.3.3.3',
+    networks: [{ network: '172.16.2.0', mask: '255.255.255.0' }],
+    neighbors: [
+      { address: '10.0.13.1', remoteAs: 65001 },
+      { address: '10.0.34.2', remoteAs: 65003 },
+    ],
+  });
+  const as65003 = router('AS65003-R1', { x: 500, y: 300 }, ['10.0.14.2/30', '10.0.34.2/30', '172.16.3.1/24'], {
+    asn: 65003,
+    routerId: '4.4.4.4',
+    networks: [{ network: '172.16.3.0', mask: '255.255.255.0' }],
+    neighbors: [
+      { address: '10.0.14.1', remoteAs: 65001 },
+      { address: '10.0.34.1', remoteAs: 65002 },
+    ],
+  });
+  const pcA = pc('PC-AS65001', { x: 100, y: 400 }, '172.16.1.10/24', '172.16.1.1');
+  const pcB = pc('PC-AS65002', { x: 700, y: 100 }, '172.16.2.10/24', '172.16.2.1');
+  const pcC = pc('PC-AS65003', { x: 700, y: 300 }, '172.16.3.10/24', '172.16.3.1');
+
+  const link = (name: string, a: NetworkDevice, aInterface: NetworkInterface, b: NetworkDevice, bInterface: NetworkInterface): Connection => ({
+    id: generateId(),
+    name,
+    sourceDevice: a.id,
+    sourceInterface: aInterface.id,
+    targetDevice: b.id,
+    targetInterface: bInterface.id,
+    connectionType: ConnectionType.ETHERNET,
+    status: ConnectionStatus.UP,
+    bandwidth: 1000,
+  });
+
+  return {
+    devices: [edge, core, as65002, as65003, pcA, pcB, pcC],
+    connections: [
+      link('AS65001-iBGP', edge, edge.interfaces[0], core, core.interfaces[0]),
+      link('AS65001-AS65002', edge, edge.interfaces[1], as65002, as65002.interfaces[0]),
+      link('AS65001-AS65003', edge, edge.interfaces[2], as65003, as65003.interfaces[0]),
+      link('AS65002-AS65003', as65002, as65002.interfaces[1], as65003, as65003.interfaces[1]),
+      link('AS65001-LAN', core, core.interfaces[1], pcA, pcA.interface),
+      link('AS65002-LAN', as65002, as65002.interfaces[2], pcB, pcB.interface),
+      link('AS65003-LAN', as65003, as65003.interfaces[2], pcC, pcC.interface),
+    ],
+    vlans: defaultVlans,
+  };
+};
+
+export const bgpSampleTopology = createBgpSampleTopology();
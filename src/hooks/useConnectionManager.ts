@@ -65,11 +65,13 @@ export const useConnectionManager = () => {
   const getAvailableInterface = (device: NetworkDevice) => {
     switch (device.type) {
       case DeviceType.SWITCH:
-      case DeviceType.ROUTER: {
+      case DeviceType.MULTILAYER_SWITCH:
+      case DeviceType.ROUTER:
+      case DeviceType.FIREWALL: {
         const deviceWithInterfaces = device as any;
-        // Find first interface that's not already used on THIS device
+        // Find first interface that's not already used on THIS device; subinterfaces and SVIs have no port of their own
         return deviceWithInterfaces.interfaces?.find((iface: any) => {
-          return !connections.some(conn =>
+          return !iface.parentInterface && iface.sviVlan === undefined && !connections.some(conn =>
             (conn.sourceDevice === device.id && conn.sourceInterface === iface.id) ||
             (conn.targetDevice === device.id && conn.targetInterface === iface.id)
           );
@@ -119,7 +121,10 @@ export const useConnectionManager = () => {
 
   // Helper to set interface status UP after connecting
   const setInterfaceUp = useCallback((device: NetworkDevice, interfaceId: string) => {
-    if (device.type === DeviceType.SWITCH || device.type === DeviceType.ROUTER || device.type === DeviceType.SERVER) {
+    if (
+      device.type === DeviceType.SWITCH || device.type === DeviceType.MULTILAYER_SWITCH || device.type === DeviceType.ROUTER ||
+      device.type === DeviceType.FIREWALL || device.type === DeviceType.SERVER
+    ) {
       const devAny = device as any;
       if (Array.isArray(devAny.interfaces)) {
         const newIfaces = devAny.interfaces.map((i: any) => i.id === interfaceId ? { ...i, status: InterfaceStatus.UP } : i);
@@ -0,0 +1,42 @@
+import { useEffect, useMemo } from 'react';
+import { useAppStore } from '../store';
+import { SwitchingDevice } from '../types';
+import { isSwitchingDevice } from '../utils/networking/multilayerSwitch';
+import { resolveTrunking, applyOperationalMode } from '../utils/networking/dynamicTrunking';
+
+/**
+ * Negotiate trunking with DTP whenever a switchport's mode or a link changes, and put
+ * dynamic ports into the mode they negotiated
+ */
+export const useDynamicTrunking = () => {
+  const { devices, connections } = useAppStore();
+
+  // DTP only looks at switchport modes, port status and the VTP domain
+  const topologyKey = useMemo(() => JSON.stringify({
+    switches: devices
+      .filter(isSwitchingDevice)
+      .map(d => ({
+        id: d.id,
+        domain: d.vtp?.domain,
+        ports: d.interfaces.map(i => [i.id, i.type, i.status, i.switchportMode, i.nonegotiate, i.routedPort]),
+      })),
+    connections: connections.map(c => [c.sourceDevice, c.sourceInterface, c.targetDevice, c.targetInterface, c.status]),
+  }), [devices, connections]);
+
+  useEffect(() => {
+    const { devices, connections, updateDevice } = useAppStore.getState();
+    const states = resolveTrunking(devices, connections);
+    devices.filter(isSwitchingDevice).forEach(sw => {
+      const vlanIds = sw.vlanDatabase.map(v => v.id);
+      let changed = false;
+      const interfaces = sw.interfaces.map(port => {
+        const state = states.find(p => p.deviceId === sw.id && p.interfaceId === port.id);
+        // Static ports are what they are configured as; a port that is down keeps its last mode
+        if (!port.switchportMode || !state || state.operational === 'down' || port.type === state.operational) return port;
+        changed = true;
+        return applyOperationalMode(port, state.operational, vlanIds);
+      });
+      if (changed) updateDevice(sw.id, { interfaces } as Partial<SwitchingDevice>);
+    });
+  }, [topologyKey]);
+};
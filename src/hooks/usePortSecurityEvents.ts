@@ -0,0 +1,44 @@
+import { useEffect } from 'react';
+import { useAppStore } from '../store';
+import { InterfaceStatus, SwitchingDevice } from '../types';
+import { portSecurityEngine } from '../utils/networking/portSecurity';
+import { isSwitchingDevice } from '../utils/networking/multilayerSwitch';
+
+/**
+ * Mirror ports err-disabled by port security and sticky addresses it learned onto the interface config
+ */
+export const applyPortSecurityEvents = (): void => {
+  const { devices, updateDevice } = useAppStore.getState();
+  const events = portSecurityEngine.takePortEvents();
+  if (events.length === 0) return;
+
+  new Set(events.map(e => e.deviceId)).forEach(deviceId => {
+    const sw = devices.filter(isSwitchingDevice).find(d => d.id === deviceId);
+    if (!sw) return;
+    let interfaces = sw.interfaces;
+    events.filter(e => e.deviceId === deviceId).forEach(event => {
+      interfaces = interfaces.map(iface => {
+        if (iface.id !== event.interfaceId) return iface;
+        if (event.type === 'err-disabled') {
+          return { ...iface, status: InterfaceStatus.ERR_DISABLED, errDisabled: { cause: 'psecure-violation', since: Math.floor(event.time / 1000) } };
+        }
+        if (!iface.portSecurity || !event.address) return iface;
+        return { ...iface, portSecurity: { ...iface.portSecurity, macAddresses: [...iface.portSecurity.macAddresses, event.address] } };
+      });
+    });
+    updateDevice(deviceId, { interfaces } as Partial<SwitchingDevice>);
+  });
+};
+
+/**
+ * Write what port security did during a simulation run into the device config once the
+ * run stops, so err-disabled ports show up everywhere and sticky addresses reach the
+ * running-config. Changing devices mid-run would replace the running simulation engine.
+ */
+export const usePortSecurityEvents = () => {
+  const simulationRunning = useAppStore(state => state.simulationRunning);
+
+  useEffect(() => {
+    if (!simulationRunning) applyPortSecurityEvents();
+  }, [simulationRunning]);
+};
@@ -0,0 +1,29 @@
+import { useEffect, useMemo, useRef } from 'react';
+import { useAppStore } from '../store';
+import { RoutingEngine } from '../utils/routing/routingEngine';
+
+/**
+ * Keep the shared routing engine in step with the topology. A new engine starts with
+ * OSPF, RIP and BGP converged; after that, device and connection changes go through
+ * updateTopology and the protocols only react as the simulation advances their timers.
+ */
+export const useRoutingEngine = () => {
+  const { devices, connections, routingEngine } = useAppStore();
+  const initialized = useRef<RoutingEngine>();
+
+  // Moving devices around the canvas does not change any route
+  const topologyKey = useMemo(() => JSON.stringify({
+    devices: devices.map(d => ({ ...d, position: undefined })),
+    connections,
+  }), [devices, connections]);
+
+  useEffect(() => {
+    const state = useAppStore.getState();
+    if (initialized.current === routingEngine) {
+      routingEngine.updateTopology(state.devices, state.connections);
+    } else {
+      routingEngine.initializeRouting(state.devices, state.connections);
+      initialized.current = routingEngine;
+    }
+  }, [topologyKey, routingEngine]);
+};
@@ -0,0 +1,53 @@
+import { useEffect, useMemo } from 'react';
+import { useAppStore } from '../store';
+import { InterfaceStatus, SwitchingDevice } from '../types';
+import { isSwitchingDevice } from '../utils/networking/multilayerSwitch';
+
+/**
+ * Mirror ports err-disabled or recovered by the spanning tree engine onto interface status
+ */
+export const applyStpPortEvents = (): void => {
+  const { devices, updateDevice, spanningTreeEngine } = useAppStore.getState();
+  const events = spanningTreeEngine.takePortEvents();
+  if (events.length === 0) return;
+
+  new Set(events.map(e => e.deviceId)).forEach(deviceId => {
+    const sw = devices.filter(isSwitchingDevice).find(d => d.id === deviceId);
+    if (!sw) return;
+    let interfaces = sw.interfaces;
+    events.filter(e => e.deviceId === deviceId).forEach(event => {
+      interfaces = interfaces.map(iface => {
+        if (iface.id !== event.interfaceId) return iface;
+        return event.type === 'err-disabled'
+          ? { ...iface, status: InterfaceStatus.ERR_DISABLED, errDisabled: { cause: event.cause, since: event.time } }
+          : { ...iface, status: InterfaceStatus.UP, errDisabled: undefined };
+      });
+    });
+    updateDevice(deviceId, { interfaces } as Partial<SwitchingDevice>);
+  });
+};
+
+/**
+ * Keep the shared spanning tree engine in step with the topology in every view, so
+ * the packet simulator sees blocked ports and a BPDU Guard port err-disables as soon
+ * as the link is drawn. Unless the STP panel is stepping it, the engine is run to a
+ * stable state straight away.
+ */
+export const useSpanningTreeEngine = () => {
+  const { devices, connections, spanningTreeEngine } = useAppStore();
+
+  // Moving devices around the canvas does not change the spanning tree
+  const topologyKey = useMemo(() => JSON.stringify({
+    switches: devices
+      .filter(isSwitchingDevice)
+      .map(d => ({ ...d, position: undefined })),
+    connections,
+  }), [devices, connections]);
+
+  useEffect(() => {
+    const state = useAppStore.getState();
+    spanningTreeEngine.initialize(state.devices, state.connections);
+    if (!spanningTreeEngine.isActive()) spanningTreeEngine.converge();
+    applyStpPortEvents();
+  }, [topologyKey, spanningTreeEngine]);
+};
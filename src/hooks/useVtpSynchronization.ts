@@ -0,0 +1,28 @@
+import { useEffect, useMemo } from 'react';
+import { useAppStore } from '../store';
+import { SwitchingDevice } from '../types';
+import { isSwitchingDevice } from '../utils/networking/multilayerSwitch';
+import { vtpEngine } from '../utils/networking/vtp';
+
+/**
+ * Run VTP over the trunks whenever a switch's VTP settings, VLAN database or ports change,
+ * and write the VLAN databases the advertisements replaced back to the store
+ */
+export const useVtpSynchronization = () => {
+  const { devices, connections } = useAppStore();
+
+  // Only what VTP advertises or travels over matters, not where the switches sit
+  const topologyKey = useMemo(() => JSON.stringify({
+    switches: devices
+      .filter(isSwitchingDevice)
+      .map(d => ({ id: d.id, vtp: d.vtp, vlans: d.vlanDatabase, ports: d.interfaces.map(i => [i.id, i.type, i.status]) })),
+    connections: connections.map(c => [c.sourceDevice, c.sourceInterface, c.targetDevice, c.targetInterface, c.status]),
+  }), [devices, connections]);
+
+  useEffect(() => {
+    const { devices, connections, updateDevice } = useAppStore.getState();
+    vtpEngine.synchronize(devices, connections).forEach(update => {
+      updateDevice(update.deviceId, { vtp: update.vtp, vlanDatabase: update.vlanDatabase } as Partial<SwitchingDevice>);
+    });
+  }, [topologyKey]);
+};
@@ -14,6 +14,11 @@ export * from '../../utils/d3-helpers';
 
 // Core hooks
 export * from '../../hooks/useConnectionManager';
+export * from '../../hooks/useSpanningTreeEngine';
+export * from '../../hooks/useRoutingEngine';
+export * from '../../hooks/usePortSecurityEvents';
+export * from '../../hooks/useVtpSynchronization';
+export * from '../../hooks/useDynamicTrunking';
 
 // Re-export commonly used types
 export type { 
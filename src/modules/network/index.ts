@@ -6,6 +6,8 @@
 
 // Network components
 export { default as STPPanel } from '../../components/STP/STPPanel';
+export { default as AclPanel } from '../../components/ACL/AclPanel';
+export { default as FirewallPanel } from '../../components/Firewall/FirewallPanel';
 export { default as StatisticsPanel } from '../../components/Statistics/StatisticsPanel';
 
 // Networking utilities
@@ -15,10 +17,12 @@ export * from '../../utils/networking/ipAddressManager';
 export * from '../../utils/networking/advancedNetworkingManager';
 export * from '../../utils/networking/linkHealth';
 export * from '../../utils/networking/troubleshootingTools';
+export * from '../../utils/networking/iosSyntax';
+export * from '../../utils/networking/cliEngine';
+export * from '../../utils/networking/runningConfig';
 
 // Protocol specific utilities - re-export with specific names to avoid conflicts
-export { STPSimulation } from '../../protocols/switching/stpSimulation';
-export type { STPBridge, STPPort } from '../../protocols/switching/stpSimulation';
+export { STPSimulation, stpSimulation } from '../../protocols/switching/stpSimulation';
 
 // Network types
 export type {
@@ -13,6 +13,9 @@ export { default as PortConfigModal } from '../../components/Modals/PortConfigMo
 export { default as CommandPalette } from '../../components/Professional/CommandPalette';
 export { default as StatusBar } from '../../components/Professional/StatusBar';
 
+// Device console
+export { default as DeviceTerminal } from '../../components/Terminal/DeviceTerminal';
+
 // Error handling
 export { default as ErrorBoundary } from '../../components/ErrorBoundary';
 
@@ -1,72 +1,169 @@
-import { SwitchDevice, Connection, NetworkDevice } from '../../types';
+import {
+  SwitchingDevice,
+  Connection,
+  NetworkDevice,
+  NetworkInterface,
+  InterfaceType,
+  InterfaceStatus,
+  ConnectionStatus,
+  SpanningTreePortConfig,
+  ErrDisableCause,
+  ErrDisableRecoveryConfig,
+} from '../../types';
+import {
+  BPDU,
+  BPDUType,
+  STPPortRole,
+  STPPortState,
+  STPPort,
+  STPBridge,
+  STPTreeKind,
+  STPInconsistency,
+  STPPortEvent,
+  STPRegionInfo,
+  STPConvergenceStats,
+  STPStatistics,
+  STPBlockedPort,
+  STPRootBridgeInfo,
+  STPErrDisabledPort,
+  SpanningTreeEngine,
+  STP_DEFAULT_BRIDGE_PRIORITY,
+  getMstConfigIdentifier,
+  getMstInstanceForVlan,
+} from '../../utils/networking/spanningTreeProtocol';
+import { buildLinkAggregationGroups, getPortChannelName } from '../../utils/networking/etherChannel';
+import { isSwitchingDevice, isSwitchport } from '../../utils/networking/multilayerSwitch';
 
-export interface STPPort {
+export { STPPortRole, STPPortState };
+export type { STPPort, STPBridge, STPTreeKind, STPInconsistency, STPPortEvent, STPRegionInfo };
+
+interface STPEndpoint {
+  deviceId: string;
   interfaceId: string;
-  portId: number;
-  state: STPPortState;
-  role: STPPortRole;
-  pathCost: number;
-  priority: number;
-  designatedBridgeId: string;
-  designatedPortId: number;
-  designatedCost: number;
+  connectionId: string;
 }
 
-export enum STPPortState {
-  DISABLED = 'disabled',
-  BLOCKING = 'blocking',
-  LISTENING = 'listening',
-  LEARNING = 'learning',
-  FORWARDING = 'forwarding',
+interface ChannelPort {
+  name: string; // port-channel name on the device, e.g. Po1
+  speed: number; // the bundled links together, in Mbps
 }
 
-export enum STPPortRole {
-  ROOT = 'root',
-  DESIGNATED = 'designated',
-  ALTERNATE = 'alternate',
-  BACKUP = 'backup',
-  DISABLED = 'disabled',
+interface ErrDisabledPort {
+  deviceId: string;
+  interfaceId: string;
+  connectionId: string;
+  cause: ErrDisableCause;
+  since: number;
 }
 
-export interface STPBridge {
-  bridgeId: string;
-  priority: number;
-  macAddress: string;
-  rootBridgeId: string;
-  rootCost: number;
-  rootPortId?: number;
-  ports: Map<string, STPPort>;
-  maxAge: number;
-  helloTime: number;
-  forwardDelay: number;
+interface QueuedBPDU {
+  tree: string;
+  deviceId: string;
+  interfaceId: string;
+  bpdu: BPDU;
 }
 
-export interface STPBPDU {
-  protocolId: number;
-  version: number;
-  type: 'config' | 'tcn';
-  rootBridgeId: string;
-  rootPathCost: number;
-  bridgeId: string;
-  portId: number;
-  messageAge: number;
-  maxAge: number;
-  helloTime: number;
-  forwardDelay: number;
-  topologyChangeFlag: boolean;
-  topologyChangeAckFlag: boolean;
-}
+/** Root bridge, external cost, regional root, internal cost, designated bridge, designated port */
+type PriorityVector = [string, number, string, number, string, string];
+
+const STP_DEFAULT_PORT_PRIORITY = 128;
+const STP_HELLO_TIME = 2;
+const STP_MAX_AGE = 20;
+const STP_FORWARD_DELAY = 15;
+const STP_MAX_DELIVERIES = 10000;
+
+const CIST_TREE = 'cist';
+
+const endpointKey = (deviceId: string, interfaceId: string): string => `${deviceId}:${interfaceId}`;
+
+const vlanTreeKey = (vlanId: number): string => `vlan:${vlanId}`;
+
+const mstiTreeKey = (region: string, instanceId: number): string => `msti:${region}:${instanceId}`;
+
+// PVST simulation: an MST bridge replays its CIST information into the per-VLAN trees of PVST+ neighbours
+const simulatesPvst = (bridge: STPBridge): boolean => bridge.tree === 'vlan' && bridge.mode === 'mst';
+
+// MSTI ports at a region boundary and PVST simulation ports take their role and state from the CIST
+const mirrorsCist = (bridge: STPBridge, port: STPPort): boolean =>
+  simulatesPvst(bridge) || (bridge.tree === 'msti' && port.boundary);
+
+const portIdentifier = (port: STPPort): string =>
+  `${port.priority.toString(16).padStart(2, '0')}${port.portId.toString(16).padStart(2, '0')}`;
+
+// Bridges outside a region advertise themselves as regional root with no internal cost
+const bpduVector = (bpdu: BPDU): PriorityVector => [
+  bpdu.rootId,
+  bpdu.rootPathCost,
+  bpdu.regionalRootId ?? bpdu.bridgeId,
+  bpdu.internalRootPathCost ?? 0,
+  bpdu.bridgeId,
+  bpdu.portId,
+];
+
+const compareVectors = (a: PriorityVector, b: PriorityVector): number => {
+  for (let i = 0; i < a.length; i++) {
+    if (a[i] === b[i]) continue;
+    if (typeof a[i] === 'number') return (a[i] as number) - (b[i] as number);
+    return a[i] < b[i] ? -1 : 1;
+  }
+  return 0;
+};
+
+const carriesVlan = (iface: NetworkInterface, vlanId: number): boolean => {
+  if (iface.type === InterfaceType.TRUNK) {
+    const allowed = iface.vlanConfig?.allowedVlans;
+    return !allowed || allowed.length === 0 || allowed.includes(vlanId);
+  }
+  return (iface.vlanConfig?.accessVlan ?? 1) === vlanId;
+};
+
+const hasActiveVlan = (switchDevice: SwitchingDevice, vlanId: number): boolean =>
+  vlanId === 1 || switchDevice.vlanDatabase.some(v => v.id === vlanId && v.status === 'active');
 
 /**
- * Spanning Tree Protocol simulation engine
+ * Spanning Tree Protocol simulation engine.
+ *
+ * Runs one instance per VLAN (PVST+). Switches in rapid-pvst mode speak 802.1w
+ * (proposal/agreement, alternate/backup roles, discarding state, edge ports) and
+ * fall back to 802.1D timers per port when the neighbour only speaks classic STP.
+ *
+ * MST switches (802.1s) join a CIST that spans every bridge; PVST+ switches take
+ * part in it with their VLAN 1 instance. Inside a region each MST instance runs
+ * its own tree over internal links, while boundary ports follow the CIST for all
+ * VLANs, so a region looks like a single bridge from outside. Towards PVST+
+ * neighbours the CIST BPDUs are replayed on every VLAN, and a boundary port that
+ * hears better per-VLAN information than the CIST offers is blocked as PVST-inconsistent.
+ *
+ * Per-port features: PortFast makes a port an edge port in every mode, BPDU Filter
+ * stops sending and ignores received BPDUs, BPDU Guard err-disables the port on any
+ * BPDU, Root Guard holds a port root-inconsistent while it hears superior information
+ * and Loop Guard holds a root or alternate port loop-inconsistent when its BPDUs stop.
+ * Time only advances through tick(), one simulated second per step.
  */
-export class STPSimulation {
-  private bridges: Map<string, STPBridge> = new Map();
-  private topology: Map<string, string[]> = new Map();
+export class STPSimulation implements SpanningTreeEngine {
+  private trees: Map<string, Map<string, STPBridge>> = new Map();
+  private links: Map<string, STPEndpoint> = new Map();
+  private connectionEnds: Map<string, STPEndpoint[]> = new Map();
+  private bridgeDevices: Set<string> = new Set();
+  private regions: Map<string, STPRegionInfo> = new Map();
+  private deviceRegions: Map<string, string> = new Map();
+  private vlanIds: number[] = [];
+  private failedLinks: Set<string> = new Set();
+  private channelAnchors: Map<string, string> = new Map(); // bundled connection -> member standing for its port-channel
+  private channelMembers: Map<string, string[]> = new Map(); // anchor connection -> every bundled connection
+  private channelPorts: Map<string, ChannelPort> = new Map(); // endpoint key of an anchor port -> its port-channel
+  private portConfigs: Map<string, SpanningTreePortConfig> = new Map();
+  private recovery: Map<string, ErrDisableRecoveryConfig> = new Map();
+  private errDisabled: Map<string, ErrDisabledPort> = new Map();
+  private events: STPPortEvent[] = [];
+  private queue: QueuedBPDU[] = [];
   private isRunning: boolean = false;
+  private clock: number = 0;
+  private lastChangeTime: number = 0;
   private convergenceTime: number = 0;
   private topologyChangeCount: number = 0;
   private lastConvergenceTime: number = 0;
+  private converged: boolean = false;
 
   constructor() {
     this.reset();
@@ -76,33 +173,147 @@ export class STPSimulation {
    * Initialize STP simulation with network topology
    */
   initialize(devices: NetworkDevice[], connections: Connection[]): void {
+    const failedLinks = new Set(Array.from(this.failedLinks).filter(id => connections.some(c => c.id === id)));
+    const { isRunning, clock, events } = this;
     this.reset();
-    
-    // Create STP bridges for switches
-    devices.forEach(device => {
-      if (device.type === 'switch') {
-        const switchDevice = device as SwitchDevice;
-        if (switchDevice.spanningTreeEnabled) {
-          this.createBridge(switchDevice);
-        }
-      }
+    this.failedLinks = failedLinks;
+    this.isRunning = isRunning;
+    // Keep simulated time running so err-disable recovery timers survive a topology reload
+    this.clock = clock;
+    this.lastChangeTime = clock;
+    this.events = events;
+
+    const switches = devices.filter(isSwitchingDevice).filter(sw => sw.spanningTreeEnabled);
+    switches.forEach(sw => this.bridgeDevices.add(sw.id));
+
+    // A port-channel is one spanning tree port: its first bundled link stands for the others,
+    // and links held out of a bundle take no part at all
+    const excluded = new Set<string>();
+    buildLinkAggregationGroups(devices, connections).forEach(channel => {
+      channel.members.filter(m => m.state === 'suspended').forEach(m => excluded.add(m.connectionId));
+      const bundled = channel.members.filter(m => m.state === 'bundled').map(m => m.connectionId);
+      const anchor = connections.find(c => c.id === bundled[0]);
+      if (!anchor) return;
+      bundled.forEach(id => {
+        this.channelAnchors.set(id, anchor.id);
+        if (id !== anchor.id) excluded.add(id);
+      });
+      this.channelMembers.set(anchor.id, bundled);
+      [
+        [anchor.sourceDevice, anchor.sourceInterface],
+        [anchor.targetDevice, anchor.targetInterface],
+      ].forEach(([deviceId, interfaceRef]) => {
+        const key = endpointKey(deviceId, this.resolveInterfaceId(devices, deviceId, interfaceRef));
+        this.channelPorts.set(key, { name: getPortChannelName(channel, deviceId), speed: channel.bandwidth });
+      });
     });
 
-    // Build topology map
     connections.forEach(connection => {
-      const sourceId = connection.sourceDevice;
-      const targetId = connection.targetDevice;
-      
-      if (!this.topology.has(sourceId)) {
-        this.topology.set(sourceId, []);
-      }
-      if (!this.topology.has(targetId)) {
-        this.topology.set(targetId, []);
-      }
-      
-      this.topology.get(sourceId)!.push(targetId);
-      this.topology.get(targetId)!.push(sourceId);
+      if (connection.status === ConnectionStatus.DOWN || excluded.has(connection.id)) return;
+      const source = this.resolveInterfaceId(devices, connection.sourceDevice, connection.sourceInterface);
+      const target = this.resolveInterfaceId(devices, connection.targetDevice, connection.targetInterface);
+
+      this.connectionEnds.set(connection.id, [
+        { deviceId: connection.sourceDevice, interfaceId: source, connectionId: connection.id },
+        { deviceId: connection.targetDevice, interfaceId: target, connectionId: connection.id },
+      ]);
+      this.links.set(endpointKey(connection.sourceDevice, source), {
+        deviceId: connection.targetDevice,
+        interfaceId: target,
+        connectionId: connection.id,
+      });
+      this.links.set(endpointKey(connection.targetDevice, target), {
+        deviceId: connection.sourceDevice,
+        interfaceId: source,
+        connectionId: connection.id,
+      });
+    });
+
+    // Guard features and err-disable state apply even where spanning tree is off
+    devices.filter(isSwitchingDevice).forEach(sw => {
+      if (sw.errdisableRecovery) this.recovery.set(sw.id, sw.errdisableRecovery);
+      sw.interfaces.forEach(iface => {
+        const key = endpointKey(sw.id, iface.id);
+        if (iface.spanningTree) this.portConfigs.set(key, iface.spanningTree);
+        if (iface.status !== InterfaceStatus.ERR_DISABLED) return;
+        this.errDisabled.set(key, {
+          deviceId: sw.id,
+          interfaceId: iface.id,
+          connectionId: this.links.get(key)?.connectionId ?? '',
+          cause: iface.errDisabled?.cause ?? 'bpduguard',
+          since: Math.min(iface.errDisabled?.since ?? clock, clock),
+        });
+      });
+    });
+
+    // Switches with identical MST configuration identifiers form a region
+    const mstSwitches = switches.filter(sw => sw.spanningTreeConfig?.mode === 'mst');
+    mstSwitches.forEach(sw => {
+      const identifier = getMstConfigIdentifier(sw.spanningTreeConfig?.mst);
+      const key = `${identifier.name}/${identifier.revision}/${identifier.digest}`;
+      const region = this.regions.get(key) ?? {
+        ...identifier,
+        key,
+        deviceIds: [],
+        instances: sw.spanningTreeConfig?.mst?.instances ?? {},
+      };
+      region.deviceIds.push(sw.id);
+      this.regions.set(key, region);
+      this.deviceRegions.set(sw.id, key);
+    });
+    const pvstSwitches = switches.filter(sw => !this.deviceRegions.has(sw.id));
+
+    // VLAN 1 always exists; every other VLAN gets an instance on the PVST+ switches that define it
+    const vlanIds = new Set<number>([1]);
+    switches.forEach(sw => sw.vlanDatabase.forEach(v => {
+      if (v.status === 'active') vlanIds.add(v.id);
+    }));
+    this.vlanIds = Array.from(vlanIds).sort((a, b) => a - b);
+
+    const facesPvst = (sw: SwitchingDevice, iface: NetworkInterface): boolean => {
+      const peer = this.links.get(endpointKey(sw.id, iface.id));
+      return !!peer && this.bridgeDevices.has(peer.deviceId) && !this.deviceRegions.has(peer.deviceId);
+    };
+
+    this.vlanIds.forEach(vlanId => {
+      // With MST in the network, VLAN 1 of every PVST+ switch is its part of the CIST
+      if (vlanId === 1 && mstSwitches.length > 0) return;
+      const bridges = new Map<string, STPBridge>();
+      pvstSwitches.filter(sw => hasActiveVlan(sw, vlanId)).forEach(sw => {
+        bridges.set(sw.id, this.createBridge(sw, 'vlan', vlanId, iface => carriesVlan(iface, vlanId)));
+      });
+      if (bridges.size === 0) return;
+
+      mstSwitches.forEach(sw => {
+        const proxy = this.createBridge(sw, 'vlan', vlanId, iface => carriesVlan(iface, vlanId) && facesPvst(sw, iface));
+        if (proxy.ports.size > 0) bridges.set(sw.id, proxy);
+      });
+      this.trees.set(vlanTreeKey(vlanId), bridges);
+    });
+
+    if (mstSwitches.length > 0) {
+      const cist = new Map<string, STPBridge>();
+      mstSwitches.forEach(sw => cist.set(sw.id, this.createBridge(sw, 'cist', 0, () => true)));
+      pvstSwitches.forEach(sw => cist.set(sw.id, this.createBridge(sw, 'cist', 1, iface => carriesVlan(iface, 1))));
+      this.trees.set(CIST_TREE, cist);
+
+      this.regions.forEach(region => {
+        Object.entries(region.instances).forEach(([id, vlans]) => {
+          if (vlans.length === 0) return;
+          const bridges = new Map<string, STPBridge>();
+          mstSwitches.filter(sw => this.deviceRegions.get(sw.id) === region.key).forEach(sw => {
+            bridges.set(sw.id, this.createBridge(sw, 'msti', Number(id), iface => vlans.some(v => carriesVlan(iface, v))));
+          });
+          this.trees.set(mstiTreeKey(region.key, Number(id)), bridges);
+        });
+      });
+    }
+
+    this.trees.forEach((bridges, tree) => {
+      bridges.forEach(bridge => this.updateRoles(tree, bridge));
     });
+    this.deliverQueue();
+    this.checkConvergence();
   }
 
   /**
@@ -110,7 +321,6 @@ export class STPSimulation {
    */
   start(): void {
     this.isRunning = true;
-    this.runSTPAlgorithm();
   }
 
   /**
@@ -121,39 +331,89 @@ export class STPSimulation {
   }
 
   /**
-   * Get STP state for a specific bridge
+   * Whether tick() currently advances the simulation
+   */
+  isActive(): boolean {
+    return this.isRunning;
+  }
+
+  /**
+   * Advance the simulation by whole seconds (hello, message age and forward delay timers)
+   */
+  tick(seconds: number = 1): void {
+    if (!this.isRunning) return;
+    for (let i = 0; i < seconds; i++) {
+      this.step();
+    }
+  }
+
+  /**
+   * Run until every instance is stable; returns the convergence time in simulated seconds
+   */
+  converge(maxSeconds: number = 120): number {
+    for (let i = 0; i < maxSeconds && !this.isConverged(); i++) {
+      this.step();
+    }
+    return this.convergenceTime;
+  }
+
+  /**
+   * VLANs that have a spanning tree instance
+   */
+  getVlanInstances(): number[] {
+    return [...this.vlanIds];
+  }
+
+  /**
+   * Get the STP state of the instance that carries a VLAN on a bridge
+   */
+  getBridgeState(deviceId: string, vlanId: number = this.getDefaultVlan()): STPBridge | undefined {
+    return this.trees.get(this.getTreeKey(deviceId, vlanId))?.get(deviceId);
+  }
+
+  /**
+   * Get every bridge's state for one VLAN; under MST this is the instance the VLAN maps to
    */
-  getBridgeState(bridgeId: string): STPBridge | undefined {
-    return this.bridges.get(bridgeId);
+  getAllBridgeStates(vlanId: number = this.getDefaultVlan()): Map<string, STPBridge> {
+    const states = new Map<string, STPBridge>();
+    this.bridgeDevices.forEach(deviceId => {
+      const bridge = this.getBridgeState(deviceId, vlanId);
+      if (bridge) states.set(deviceId, bridge);
+    });
+    return states;
   }
 
   /**
-   * Get all bridge states
+   * MST regions found in the topology
    */
-  getAllBridgeStates(): Map<string, STPBridge> {
-    return new Map(this.bridges);
+  getMstRegions(): STPRegionInfo[] {
+    return Array.from(this.regions.values());
   }
 
   /**
-   * Get convergence statistics
+   * Get convergence statistics (times in simulated seconds)
    */
-  getConvergenceStats() {
+  getConvergenceStats(): STPConvergenceStats {
     return {
       convergenceTime: this.convergenceTime,
       topologyChangeCount: this.topologyChangeCount,
       lastConvergenceTime: this.lastConvergenceTime,
       isConverged: this.isConverged(),
+      clock: this.clock,
     };
   }
 
   /**
-   * Check if STP has converged
+   * Check if STP has converged: every root/designated port forwards, every alternate/backup port blocks
    */
   isConverged(): boolean {
-    for (const bridge of this.bridges.values()) {
-      for (const port of bridge.ports.values()) {
-        if (port.state === STPPortState.LISTENING || port.state === STPPortState.LEARNING) {
-          return false;
+    for (const bridges of this.trees.values()) {
+      for (const bridge of bridges.values()) {
+        for (const port of bridge.ports.values()) {
+          if ((port.role === STPPortRole.ROOT || port.role === STPPortRole.DESIGNATED) &&
+              port.state !== STPPortState.FORWARDING && !port.inconsistency) {
+            return false;
+          }
         }
       }
     }
@@ -161,229 +421,771 @@ export class STPSimulation {
   }
 
   /**
-   * Simulate topology change (link failure/recovery)
+   * Whether a link was failed through simulateTopologyChange
    */
-  simulateTopologyChange(sourceDevice: string, targetDevice: string, isLinkUp: boolean): void {
-    this.topologyChangeCount++;
-    
+  isLinkFailed(connectionId: string): boolean {
+    return this.failedLinks.has(connectionId);
+  }
+
+  /**
+   * Simulate topology change (link failure/recovery); a port-channel stays up while any of its links is
+   */
+  simulateTopologyChange(connectionId: string, isLinkUp: boolean): void {
+    if (isLinkUp === !this.failedLinks.has(connectionId)) return;
+
     if (isLinkUp) {
-      // Add link
-      if (!this.topology.has(sourceDevice)) {
-        this.topology.set(sourceDevice, []);
-      }
-      if (!this.topology.has(targetDevice)) {
-        this.topology.set(targetDevice, []);
-      }
-      
-      this.topology.get(sourceDevice)!.push(targetDevice);
-      this.topology.get(targetDevice)!.push(sourceDevice);
+      this.failedLinks.delete(connectionId);
     } else {
-      // Remove link
-      const sourceNeighbors = this.topology.get(sourceDevice) || [];
-      const targetNeighbors = this.topology.get(targetDevice) || [];
-      
-      this.topology.set(sourceDevice, sourceNeighbors.filter(n => n !== targetDevice));
-      this.topology.set(targetDevice, targetNeighbors.filter(n => n !== sourceDevice));
+      this.failedLinks.add(connectionId);
     }
+    this.refreshLink(this.channelAnchors.get(connectionId) ?? connectionId);
+    this.deliverQueue();
+    this.checkConvergence();
+  }
 
-    // Trigger reconvergence
-    this.runSTPAlgorithm();
+  /**
+   * Ports err-disabled by a guard feature
+   */
+  getErrDisabledPorts(): STPErrDisabledPort[] {
+    return Array.from(this.errDisabled.values()).map(({ deviceId, interfaceId, cause, since }) => ({
+      deviceId, interfaceId, cause, since,
+    }));
+  }
+
+  /**
+   * Drain the err-disable and recovery events raised since the last call
+   */
+  takePortEvents(): STPPortEvent[] {
+    const events = this.events;
+    this.events = [];
+    return events;
+  }
+
+  /**
+   * Get blocked ports (for loop prevention visualization)
+   */
+  getBlockedPorts(vlanId: number = this.getDefaultVlan()): STPBlockedPort[] {
+    const blockedPorts: STPBlockedPort[] = [];
+
+    this.getAllBridgeStates(vlanId).forEach((bridge, deviceId) => {
+      bridge.ports.forEach((port, interfaceId) => {
+        if (port.state === STPPortState.BLOCKING || port.state === STPPortState.DISCARDING) {
+          blockedPorts.push({ bridgeId: deviceId, portId: port.portId.toString(), interfaceId });
+        }
+      });
+    });
+
+    return blockedPorts;
+  }
+
+  /**
+   * Get root bridge information for an instance
+   */
+  getRootBridgeInfo(vlanId: number = this.getDefaultVlan()): STPRootBridgeInfo | null {
+    for (const bridge of this.getAllBridgeStates(vlanId).values()) {
+      if (bridge.bridgeId === bridge.rootBridgeId) {
+        return {
+          deviceId: bridge.deviceId,
+          bridgeId: bridge.bridgeId,
+          priority: bridge.priority,
+          macAddress: bridge.macAddress,
+        };
+      }
+    }
+    return null;
   }
 
   /**
-   * Create STP bridge from switch device
+   * Count roots, blocked and forwarding ports for one instance
    */
-  private createBridge(switchDevice: SwitchDevice): void {
+  getStatistics(vlanId: number = this.getDefaultVlan()): STPStatistics {
+    const bridges = this.getAllBridgeStates(vlanId);
+    const ports = Array.from(bridges.values()).flatMap(bridge => Array.from(bridge.ports.values()));
+
+    return {
+      totalBridges: bridges.size,
+      rootBridge: this.getRootBridgeInfo(vlanId)?.bridgeId ?? null,
+      totalPorts: ports.length,
+      blockedPorts: ports.filter(p => p.state === STPPortState.BLOCKING || p.state === STPPortState.DISCARDING).length,
+      forwardingPorts: ports.filter(p => p.state === STPPortState.FORWARDING).length,
+    };
+  }
+
+  /**
+   * State of a port in the instance carrying a VLAN; undefined when spanning tree does not run on it
+   */
+  getPortState(deviceId: string, interfaceId: string, vlanId: number = this.getDefaultVlan()): STPPortState | undefined {
+    return this.getBridgeState(deviceId, vlanId)?.ports.get(interfaceId)?.state;
+  }
+
+  /**
+   * Frames cross a link only when neither end is err-disabled, failed or held out of forwarding
+   */
+  isLinkForwarding(connectionId: string, vlanId: number = this.getDefaultVlan()): boolean {
+    const anchor = this.channelAnchors.get(connectionId) ?? connectionId;
+    const ends = this.connectionEnds.get(anchor);
+    if (!ends) return true;
+    if (!this.isLinkUp(anchor)) return false;
+
+    return ends.every(end => {
+      const state = this.getPortState(end.deviceId, end.interfaceId, vlanId);
+      return state === undefined || state === STPPortState.FORWARDING;
+    });
+  }
+
+  /**
+   * Create one instance of a switch's bridge
+   */
+  private createBridge(
+    switchDevice: SwitchingDevice,
+    tree: STPTreeKind,
+    instanceId: number,
+    carries: (iface: NetworkInterface) => boolean
+  ): STPBridge {
+    const config = switchDevice.spanningTreeConfig;
+    const mode = config?.mode ?? 'pvst';
+    const priorities = mode === 'mst' ? config?.mst?.priorities : config?.vlanPriorities;
+    const priority = priorities?.[instanceId] ?? STP_DEFAULT_BRIDGE_PRIORITY;
+    const macAddress = this.getBridgeMacAddress(switchDevice);
+    const region = this.deviceRegions.get(switchDevice.id);
+    // Extended system ID: the VLAN (PVST+) or instance (MST) is added to the configured priority
+    const bridgeId = `${(priority + instanceId).toString(16).padStart(4, '0')}.${macAddress}`;
+
     const bridge: STPBridge = {
-      bridgeId: switchDevice.id,
-      priority: 32768, // Default priority
-      macAddress: this.generateBridgeMacAddress(switchDevice.id),
-      rootBridgeId: switchDevice.id, // Initially, each bridge thinks it's root
+      deviceId: switchDevice.id,
+      tree,
+      instanceId,
+      mode,
+      bridgeId,
+      priority,
+      macAddress,
+      rootBridgeId: bridgeId,
       rootCost: 0,
+      regionalRootId: bridgeId,
+      internalRootCost: 0,
       ports: new Map(),
-      maxAge: 20,
-      helloTime: 2,
-      forwardDelay: 15,
+      maxAge: STP_MAX_AGE,
+      helloTime: STP_HELLO_TIME,
+      forwardDelay: STP_FORWARD_DELAY,
+      topologyChangeCount: 0,
     };
 
-    // Create STP ports for each interface
     switchDevice.interfaces.forEach((iface, index) => {
-      const port: STPPort = {
+      const peer = this.links.get(endpointKey(switchDevice.id, iface.id));
+      if (!peer || iface.status === InterfaceStatus.ADMIN_DOWN || !isSwitchport(iface) || !carries(iface)) return;
+      const channel = this.channelPorts.get(endpointKey(switchDevice.id, iface.id));
+
+      bridge.ports.set(iface.id, {
         interfaceId: iface.id,
+        interfaceName: channel?.name ?? iface.name,
         portId: index + 1,
-        state: STPPortState.BLOCKING,
-        role: STPPortRole.DESIGNATED,
-        pathCost: this.calculatePortCost(iface.speed),
-        priority: 128,
-        designatedBridgeId: switchDevice.id,
-        designatedPortId: index + 1,
+        state: STPPortState.DISABLED,
+        role: STPPortRole.DISABLED,
+        pathCost: this.calculatePortCost(channel?.speed ?? iface.speed),
+        priority: STP_DEFAULT_PORT_PRIORITY,
+        designatedBridgeId: bridgeId,
+        designatedPortId: '',
         designatedCost: 0,
-      };
-      
-      bridge.ports.set(iface.id, port);
+        enabled: this.isLinkUp(peer.connectionId),
+        edge: this.isEdge(switchDevice.id, iface.id, mode !== 'pvst'),
+        rapid: mode !== 'pvst',
+        boundary: !region || this.deviceRegions.get(peer.deviceId) !== region,
+        proposing: false,
+        agreed: false,
+        forwardDelayTimer: 0,
+        messageAge: 0,
+        bpdusSent: 0,
+        bpdusReceived: 0,
+      });
     });
 
-    this.bridges.set(switchDevice.id, bridge);
+    return bridge;
   }
 
   /**
-   * Run the main STP algorithm
+   * A link is up unless it was failed or one of its ends is err-disabled; a port-channel
+   * is failed only once every link in it is
    */
-  private runSTPAlgorithm(): void {
-    const startTime = Date.now();
-    
-    // Phase 1: Root Bridge Selection
-    this.selectRootBridge();
-    
-    // Phase 2: Root Port Selection
-    this.selectRootPorts();
-    
-    // Phase 3: Designated Port Selection
-    this.selectDesignatedPorts();
-    
-    // Phase 4: Port State Transitions
-    this.updatePortStates();
-    
-    this.convergenceTime = Date.now() - startTime;
-    this.lastConvergenceTime = Date.now();
+  private isLinkUp(connectionId: string): boolean {
+    const links = this.channelMembers.get(connectionId) ?? [connectionId];
+    if (links.every(id => this.failedLinks.has(id))) return false;
+    return !Array.from(this.errDisabled.values()).some(port => port.connectionId === connectionId);
   }
 
   /**
-   * Select the root bridge (lowest bridge ID)
+   * PortFast ports are edge ports in every mode; RSTP also treats ports without a bridge behind them as edge
    */
-  private selectRootBridge(): void {
-    let rootBridgeId = '';
-    let lowestPriority = Infinity;
-    
-    for (const [bridgeId, bridge] of this.bridges) {
-      const priority = bridge.priority;
-      if (priority < lowestPriority || 
-          (priority === lowestPriority && bridgeId < rootBridgeId)) {
-        lowestPriority = priority;
-        rootBridgeId = bridgeId;
+  private isEdge(deviceId: string, interfaceId: string, rapid: boolean): boolean {
+    const key = endpointKey(deviceId, interfaceId);
+    const peer = this.links.get(key);
+    return !!this.portConfigs.get(key)?.portfast || (rapid && !!peer && !this.bridgeDevices.has(peer.deviceId));
+  }
+
+  /**
+   * Re-evaluate every instance's ports on a link after it went down or came back
+   */
+  private refreshLink(connectionId: string): void {
+    const up = this.isLinkUp(connectionId);
+    this.topologyChangeCount++;
+    this.lastChangeTime = this.clock;
+
+    this.trees.forEach((bridges, tree) => {
+      const affected: STPBridge[] = [];
+      bridges.forEach(bridge => {
+        bridge.ports.forEach(port => {
+          const peer = this.links.get(endpointKey(bridge.deviceId, port.interfaceId));
+          if (!peer || peer.connectionId !== connectionId || mirrorsCist(bridge, port)) return;
+          port.enabled = up;
+          port.receivedInfo = undefined;
+          port.rapid = bridge.mode !== 'pvst';
+          port.edge = this.isEdge(bridge.deviceId, port.interfaceId, port.rapid);
+          // Guard inconsistencies end when the link goes down
+          if (port.inconsistency === 'root' || port.inconsistency === 'loop') {
+            this.setInconsistency(bridge, port, undefined);
+          }
+          affected.push(bridge);
+        });
+      });
+      affected.forEach(bridge => this.updateRoles(tree, bridge));
+    });
+
+    this.converged = false;
+  }
+
+  /**
+   * Shut a port down for a guard violation; the far end loses link with it
+   */
+  private errDisable(deviceId: string, interfaceId: string, cause: ErrDisableCause): void {
+    const key = endpointKey(deviceId, interfaceId);
+    const peer = this.links.get(key);
+    if (!peer || this.errDisabled.has(key)) return;
+
+    this.errDisabled.set(key, { deviceId, interfaceId, connectionId: peer.connectionId, cause, since: this.clock });
+    this.events.push({ type: 'err-disabled', deviceId, interfaceId, cause, time: this.clock });
+    this.refreshLink(peer.connectionId);
+  }
+
+  /**
+   * errdisable recovery: re-enable ports whose cause is covered once the interval has passed
+   */
+  private recoverErrDisabled(): void {
+    this.errDisabled.forEach((port, key) => {
+      const recovery = this.recovery.get(port.deviceId);
+      if (!recovery?.causes.includes(port.cause) || this.clock - port.since < recovery.interval) return;
+
+      this.errDisabled.delete(key);
+      this.events.push({
+        type: 'recovered',
+        deviceId: port.deviceId,
+        interfaceId: port.interfaceId,
+        cause: port.cause,
+        time: this.clock,
+      });
+      if (port.connectionId) this.refreshLink(port.connectionId);
+    });
+  }
+
+  /**
+   * One simulated second: age received information, run forward delay timers, send hellos
+   */
+  private step(): void {
+    this.clock++;
+    this.recoverErrDisabled();
+
+    this.trees.forEach((bridges, tree) => {
+      bridges.forEach(bridge => {
+        let expired = false;
+        bridge.ports.forEach(port => {
+          // RSTP ages information after three missed hellos, 802.1D after max age
+          const limit = port.rapid ? bridge.helloTime * 3 : bridge.maxAge;
+          if (port.inconsistency === 'root') {
+            // Root Guard lets go once the superior BPDUs have stopped for as long
+            port.messageAge++;
+            if (port.messageAge >= limit) {
+              this.setInconsistency(bridge, port, undefined);
+              expired = true;
+            }
+            return;
+          }
+          if (!port.receivedInfo) return;
+          port.messageAge++;
+          if (port.messageAge >= limit) {
+            const role = port.role;
+            port.receivedInfo = undefined;
+            expired = true;
+            // Loop Guard: a root or alternate port that stops hearing BPDUs must not become designated
+            const guard = this.portConfigs.get(endpointKey(bridge.deviceId, port.interfaceId))?.guard;
+            if (guard === 'loop' && !mirrorsCist(bridge, port) &&
+                (role === STPPortRole.ROOT || role === STPPortRole.ALTERNATE)) {
+              this.setInconsistency(bridge, port, 'loop');
+            }
+          }
+        });
+        if (expired && simulatesPvst(bridge)) {
+          bridge.ports.forEach(port => this.checkPvstConsistency(bridge.deviceId, port.interfaceId));
+        } else if (expired) {
+          this.updateRoles(tree, bridge);
+        }
+      });
+
+      bridges.forEach(bridge => bridge.ports.forEach(port => this.runForwardDelay(bridge, port)));
+
+      if (this.clock % STP_HELLO_TIME === 0) {
+        bridges.forEach(bridge => bridge.ports.forEach(port => {
+          if (port.role === STPPortRole.DESIGNATED && (simulatesPvst(bridge) || !mirrorsCist(bridge, port))) {
+            this.transmit(tree, bridge, port);
+          }
+        }));
       }
-    }
+    });
+
+    this.deliverQueue();
+    this.checkConvergence();
+  }
+
+  /**
+   * Select the root port and assign port roles from the best received information
+   */
+  private updateRoles(tree: string, bridge: STPBridge): void {
+    if (simulatesPvst(bridge)) return;
+
+    const rootSummary = (): string => [
+      bridge.rootBridgeId, bridge.rootCost, bridge.regionalRootId, bridge.internalRootCost, bridge.rootPortId ?? '',
+    ].join('/');
+    const previousRoot = rootSummary();
+
+    let best: PriorityVector = [bridge.bridgeId, 0, bridge.bridgeId, 0, bridge.bridgeId, ''];
+    let rootPort: STPPort | undefined;
+    bridge.ports.forEach(port => {
+      const info = port.receivedInfo;
+      if (!port.enabled || !info || info.bridgeId === bridge.bridgeId || mirrorsCist(bridge, port)) return;
+
+      // Crossing a region boundary adds external cost and makes this bridge its region's root;
+      // inside a region only the internal cost grows
+      const candidate: PriorityVector = port.boundary
+        ? [info.rootId, info.rootPathCost + port.pathCost, bridge.bridgeId, 0, info.bridgeId, info.portId]
+        : [
+          info.rootId,
+          info.rootPathCost,
+          info.regionalRootId ?? info.bridgeId,
+          (info.internalRootPathCost ?? 0) + port.pathCost,
+          info.bridgeId,
+          info.portId,
+        ];
+      const order = compareVectors(candidate, best);
+      if (order < 0 || (order === 0 && rootPort && portIdentifier(port) < portIdentifier(rootPort))) {
+        best = candidate;
+        rootPort = port;
+      }
+    });
+
+    bridge.rootBridgeId = best[0];
+    bridge.rootCost = best[1];
+    bridge.regionalRootId = best[2];
+    bridge.internalRootCost = best[3];
+    bridge.rootPortId = rootPort?.interfaceId;
+    const rootChanged = previousRoot !== rootSummary();
+
+    const newlyDesignated = new Set<STPPort>();
+    bridge.ports.forEach(port => {
+      if (mirrorsCist(bridge, port)) return;
+
+      let role: STPPortRole;
+      const info = port.receivedInfo;
+      const designated = this.designatedVector(bridge, port);
 
-    // Update all bridges with the root bridge information
-    for (const bridge of this.bridges.values()) {
-      bridge.rootBridgeId = rootBridgeId;
-      if (bridge.bridgeId === rootBridgeId) {
-        bridge.rootCost = 0;
+      if (!port.enabled) {
+        role = STPPortRole.DISABLED;
+      } else if (port === rootPort) {
+        role = STPPortRole.ROOT;
+      } else if (info && compareVectors(bpduVector(info), designated) < 0) {
+        // Our own BPDU coming back on another port means a shared segment: backup port
+        role = info.bridgeId === bridge.bridgeId ? STPPortRole.BACKUP : STPPortRole.ALTERNATE;
+      } else {
+        // Inferior information is discarded: this port now speaks for the segment
+        port.receivedInfo = undefined;
+        role = STPPortRole.DESIGNATED;
       }
+
+      if (this.setRole(bridge, port, role) && role === STPPortRole.DESIGNATED) {
+        newlyDesignated.add(port);
+      }
+
+      if (role === STPPortRole.DESIGNATED) {
+        port.designatedBridgeId = bridge.bridgeId;
+        port.designatedPortId = designated[5];
+        port.designatedCost = bridge.rootCost;
+      } else if (info) {
+        port.designatedBridgeId = info.bridgeId;
+        port.designatedPortId = info.portId;
+        port.designatedCost = info.rootPathCost;
+      }
+    });
+
+    // New root information invalidates earlier agreements: re-sync downstream through proposals
+    bridge.ports.forEach(port => {
+      if (port.role !== STPPortRole.DESIGNATED || port.edge || mirrorsCist(bridge, port)) return;
+      if (!port.rapid) {
+        if (newlyDesignated.has(port)) this.transmit(tree, bridge, port);
+        return;
+      }
+      if (rootChanged) {
+        port.agreed = false;
+      }
+      if (rootChanged || newlyDesignated.has(port)) {
+        this.propose(tree, bridge, port);
+      }
+    });
+
+    // Every designated port is synced now, so an RSTP root port may forward at once
+    if (rootPort && rootPort.rapid && rootPort.state !== STPPortState.FORWARDING) {
+      this.setState(bridge, rootPort, STPPortState.FORWARDING);
     }
   }
 
   /**
-   * Select root ports for each bridge
+   * Priority vector this bridge would advertise on a port
    */
-  private selectRootPorts(): void {
-    for (const bridge of this.bridges.values()) {
-      if (bridge.bridgeId === bridge.rootBridgeId) {
-        // Root bridge doesn't have a root port
+  private designatedVector(bridge: STPBridge, port: STPPort): PriorityVector {
+    return [
+      bridge.rootBridgeId,
+      bridge.rootCost,
+      bridge.regionalRootId,
+      bridge.internalRootCost,
+      bridge.bridgeId,
+      portIdentifier(port),
+    ];
+  }
+
+  /**
+   * Apply a new port role; returns true if the role changed
+   */
+  private setRole(bridge: STPBridge, port: STPPort, role: STPPortRole): boolean {
+    if (port.role === role) return false;
+
+    port.role = role;
+    port.proposing = false;
+    port.agreed = false;
+
+    switch (role) {
+      case STPPortRole.DISABLED:
+        port.state = STPPortState.DISABLED;
+        port.receivedInfo = undefined;
+        break;
+      case STPPortRole.ALTERNATE:
+      case STPPortRole.BACKUP:
+        port.state = port.rapid ? STPPortState.DISCARDING : STPPortState.BLOCKING;
+        break;
+      default:
+        if (port.inconsistency) {
+          port.state = port.rapid ? STPPortState.DISCARDING : STPPortState.BLOCKING;
+        } else if (port.edge) {
+          this.setState(bridge, port, STPPortState.FORWARDING);
+        } else if (port.state === STPPortState.DISABLED || port.state === STPPortState.BLOCKING ||
+                   port.state === STPPortState.DISCARDING) {
+          port.state = port.rapid ? STPPortState.DISCARDING : STPPortState.LISTENING;
+          port.forwardDelayTimer = bridge.forwardDelay;
+        }
+    }
+
+    return true;
+  }
+
+  /**
+   * Move a port to a new state, counting a topology change when a non-edge port starts forwarding
+   */
+  private setState(bridge: STPBridge, port: STPPort, state: STPPortState): void {
+    if (port.inconsistency && state === STPPortState.FORWARDING) return;
+    if (state === STPPortState.FORWARDING && port.state !== STPPortState.FORWARDING && !port.edge) {
+      bridge.topologyChangeCount++;
+    }
+    port.state = state;
+  }
+
+  /**
+   * Put a designated port into discarding and offer the neighbour a proposal
+   */
+  private propose(tree: string, bridge: STPBridge, port: STPPort): void {
+    if (port.agreed) return;
+    if (port.state !== STPPortState.DISCARDING) {
+      port.state = STPPortState.DISCARDING;
+      port.forwardDelayTimer = bridge.forwardDelay;
+    }
+    port.proposing = true;
+    this.transmit(tree, bridge, port);
+  }
+
+  /**
+   * 802.1D forward delay timer; also the RSTP fallback when no agreement arrives
+   */
+  private runForwardDelay(bridge: STPBridge, port: STPPort): void {
+    if (mirrorsCist(bridge, port) || port.inconsistency) return;
+    if (port.role !== STPPortRole.ROOT && port.role !== STPPortRole.DESIGNATED) return;
+    if (port.state !== STPPortState.LISTENING && port.state !== STPPortState.LEARNING &&
+        port.state !== STPPortState.DISCARDING) return;
+
+    port.forwardDelayTimer--;
+    if (port.forwardDelayTimer > 0) return;
+
+    port.forwardDelayTimer = bridge.forwardDelay;
+    if (port.state === STPPortState.LEARNING) {
+      port.proposing = false;
+      this.setState(bridge, port, STPPortState.FORWARDING);
+    } else {
+      port.state = STPPortState.LEARNING;
+    }
+  }
+
+  /**
+   * Queue a BPDU on a port; agreeTo turns it into an RSTP agreement for that proposal
+   */
+  private transmit(tree: string, bridge: STPBridge, port: STPPort, agreeTo?: BPDU): void {
+    if (!port.enabled || this.portConfigs.get(endpointKey(bridge.deviceId, port.interfaceId))?.bpduFilter) return;
+
+    const mst = bridge.mode === 'mst' && !simulatesPvst(bridge);
+    const region = mst ? this.regions.get(this.deviceRegions.get(bridge.deviceId) ?? '') : undefined;
+    // PVST simulation advertises the CIST vector on each VLAN
+    const source = simulatesPvst(bridge) ? this.trees.get(CIST_TREE)?.get(bridge.deviceId) ?? bridge : bridge;
+    const bpdu: BPDU = {
+      type: !port.rapid ? BPDUType.CONFIG : mst ? BPDUType.MST : BPDUType.RST,
+      rootId: agreeTo?.rootId ?? source.rootBridgeId,
+      rootPathCost: agreeTo?.rootPathCost ?? source.rootCost,
+      regionalRootId: agreeTo ? agreeTo.regionalRootId : source.regionalRootId,
+      internalRootPathCost: agreeTo ? agreeTo.internalRootPathCost : source.internalRootCost,
+      bridgeId: agreeTo?.bridgeId ?? source.bridgeId,
+      portId: agreeTo?.portId ?? portIdentifier(port),
+      messageAge: 0,
+      maxAge: bridge.maxAge,
+      helloTime: bridge.helloTime,
+      forwardDelay: bridge.forwardDelay,
+      topologyChange: false,
+      topologyChangeAck: false,
+      timestamp: new Date(),
+      version: !port.rapid ? 0 : mst ? 3 : 2,
+      vlanId: mst ? undefined : bridge.instanceId,
+      mstConfig: region && { name: region.name, revision: region.revision, digest: region.digest },
+      mstInstance: bridge.tree === 'msti' ? bridge.instanceId : undefined,
+    };
+
+    if (port.rapid) {
+      bpdu.portRole = port.role;
+      bpdu.proposal = !agreeTo && port.proposing;
+      bpdu.agreement = !!agreeTo;
+      bpdu.learning = port.state === STPPortState.LEARNING || port.state === STPPortState.FORWARDING;
+      bpdu.forwarding = port.state === STPPortState.FORWARDING;
+    }
+
+    port.bpdusSent++;
+    this.queue.push({ tree, deviceId: bridge.deviceId, interfaceId: port.interfaceId, bpdu });
+  }
+
+  /**
+   * Deliver queued BPDUs to the far end of each link until no more are generated
+   */
+  private deliverQueue(): void {
+    let deliveries = 0;
+    while (this.queue.length > 0 && deliveries < STP_MAX_DELIVERIES) {
+      const { tree, deviceId, interfaceId, bpdu } = this.queue.shift()!;
+      deliveries++;
+
+      const peer = this.links.get(endpointKey(deviceId, interfaceId));
+      if (!peer || !this.isLinkUp(peer.connectionId)) continue;
+
+      // Interface guard features act on any BPDU, whichever VLAN or instance it belongs to
+      const config = this.portConfigs.get(endpointKey(peer.deviceId, peer.interfaceId));
+      if (config?.bpduFilter) continue;
+      if (config?.bpduGuard) {
+        this.errDisable(peer.deviceId, peer.interfaceId, 'bpduguard');
         continue;
       }
 
-      let bestPortId: string | undefined;
-      let bestCost = Infinity;
-      
-      for (const [portId, port] of bridge.ports) {
-        const neighborBridgeId = this.getNeighborBridge(bridge.bridgeId, portId);
-        if (!neighborBridgeId) continue;
-        
-        const neighborBridge = this.bridges.get(neighborBridgeId);
-        if (!neighborBridge) continue;
-        
-        const totalCost = neighborBridge.rootCost + port.pathCost;
-        
-        if (totalCost < bestCost) {
-          bestCost = totalCost;
-          bestPortId = portId;
-        }
+      const bridge = this.trees.get(tree)?.get(peer.deviceId);
+      const port = bridge?.ports.get(peer.interfaceId);
+      if (bridge && port && port.enabled && simulatesPvst(bridge)) {
+        port.bpdusReceived++;
+        port.receivedInfo = bpdu;
+        port.messageAge = bpdu.messageAge;
+        this.checkPvstConsistency(bridge.deviceId, port.interfaceId);
+      } else if (bridge && port && port.enabled && !mirrorsCist(bridge, port)) {
+        this.receive(tree, bridge, port, bpdu);
       }
+    }
+    this.queue = [];
+    this.syncBoundaryPorts();
+  }
 
-      if (bestPortId) {
-        bridge.rootPortId = bridge.ports.get(bestPortId)?.portId;
-        bridge.rootCost = bestCost;
-        
-        // Set port role
-        for (const [portId, port] of bridge.ports) {
-          if (portId === bestPortId) {
-            port.role = STPPortRole.ROOT;
-          }
+  /**
+   * Copy CIST roles and states onto MSTI boundary ports (the CIST root port becomes a master port)
+   * and onto PVST simulation ports
+   */
+  private syncBoundaryPorts(): void {
+    const cist = this.trees.get(CIST_TREE);
+    if (!cist) return;
+
+    this.trees.forEach(bridges => bridges.forEach(bridge => {
+      const cistBridge = cist.get(bridge.deviceId);
+      bridge.ports.forEach(port => {
+        if (!mirrorsCist(bridge, port)) return;
+        if (simulatesPvst(bridge)) {
+          this.checkPvstConsistency(bridge.deviceId, port.interfaceId);
         }
+        const cistPort = cistBridge?.ports.get(port.interfaceId);
+        if (!cistPort) return;
+        port.enabled = cistPort.enabled;
+        port.rapid = cistPort.rapid;
+        port.edge = cistPort.edge;
+        port.inconsistency = cistPort.inconsistency;
+        port.role = cistPort.role === STPPortRole.ROOT && bridge.tree === 'msti' ? STPPortRole.MASTER : cistPort.role;
+        port.state = cistPort.state;
+      });
+    }));
+  }
+
+  /**
+   * PVST simulation check: a CIST designated port must not hear better information on any PVST+ VLAN
+   */
+  private checkPvstConsistency(deviceId: string, interfaceId: string): void {
+    const cistBridge = this.trees.get(CIST_TREE)?.get(deviceId);
+    const cistPort = cistBridge?.ports.get(interfaceId);
+    if (!cistBridge || !cistPort) return;
+
+    const designated = this.designatedVector(cistBridge, cistPort);
+    let inconsistent = false;
+    this.trees.forEach(bridges => {
+      const proxy = bridges.get(deviceId);
+      const info = proxy && simulatesPvst(proxy) ? proxy.ports.get(interfaceId)?.receivedInfo : undefined;
+      if (info && cistPort.role === STPPortRole.DESIGNATED && compareVectors(bpduVector(info), designated) < 0) {
+        inconsistent = true;
       }
+    });
+
+    // Leave Root Guard and Loop Guard inconsistencies alone
+    if (inconsistent || cistPort.inconsistency === 'pvst') {
+      this.setInconsistency(cistBridge, cistPort, inconsistent ? 'pvst' : undefined);
     }
   }
 
   /**
-   * Select designated ports
+   * Hold a port discarding while it is inconsistent; once cleared it goes through the forward delay again
    */
-  private selectDesignatedPorts(): void {
-    for (const bridge of this.bridges.values()) {
-      for (const [portId, port] of bridge.ports) {
-        if (port.role === STPPortRole.ROOT) {
-          continue; // Skip root ports
-        }
+  private setInconsistency(bridge: STPBridge, port: STPPort, reason?: STPInconsistency): void {
+    if (port.inconsistency === reason) return;
 
-        const neighborBridgeId = this.getNeighborBridge(bridge.bridgeId, portId);
-        if (!neighborBridgeId) {
-          // No neighbor, this is a designated port
-          port.role = STPPortRole.DESIGNATED;
-          continue;
-        }
+    port.inconsistency = reason;
+    port.proposing = false;
+    port.agreed = false;
+    if (reason) {
+      port.state = port.rapid ? STPPortState.DISCARDING : STPPortState.BLOCKING;
+    } else if (port.role === STPPortRole.ROOT || port.role === STPPortRole.DESIGNATED) {
+      port.state = port.rapid ? STPPortState.DISCARDING : STPPortState.LISTENING;
+      port.forwardDelayTimer = bridge.forwardDelay;
+    }
+  }
 
-        const neighborBridge = this.bridges.get(neighborBridgeId);
-        if (!neighborBridge) continue;
-
-        // Compare costs to determine designated port
-        if (bridge.rootCost < neighborBridge.rootCost) {
-          port.role = STPPortRole.DESIGNATED;
-        } else if (bridge.rootCost > neighborBridge.rootCost) {
-          port.role = STPPortRole.ALTERNATE;
-        } else {
-          // Equal cost, use bridge ID as tiebreaker
-          if (bridge.bridgeId < neighborBridge.bridgeId) {
-            port.role = STPPortRole.DESIGNATED;
-          } else {
-            port.role = STPPortRole.ALTERNATE;
-          }
-        }
+  /**
+   * Process a BPDU received on a port
+   */
+  private receive(tree: string, bridge: STPBridge, port: STPPort, bpdu: BPDU): void {
+    port.bpdusReceived++;
+    // A BPDU proves there is a bridge on the other side
+    port.edge = false;
+    if (bpdu.version === 0 && port.rapid) {
+      // Legacy neighbour: this port drops back to 802.1D states and timers
+      port.rapid = false;
+      port.proposing = false;
+      if (port.state === STPPortState.DISCARDING) {
+        port.state = port.role === STPPortRole.ALTERNATE || port.role === STPPortRole.BACKUP
+          ? STPPortState.BLOCKING
+          : STPPortState.LISTENING;
+      }
+    }
+
+    if (bpdu.agreement) {
+      const matches = compareVectors(bpduVector(bpdu), this.designatedVector(bridge, port)) === 0;
+      if (matches && port.role === STPPortRole.DESIGNATED && port.rapid) {
+        port.agreed = true;
+        port.proposing = false;
+        this.setState(bridge, port, STPPortState.FORWARDING);
       }
+      return;
+    }
+
+    // Only designated ports advertise information; 802.1D BPDUs carry no role
+    if (bpdu.portRole && bpdu.portRole !== STPPortRole.DESIGNATED) return;
+
+    const guard = this.portConfigs.get(endpointKey(bridge.deviceId, port.interfaceId))?.guard;
+    if (guard === 'root' && compareVectors(bpduVector(bpdu), this.designatedVector(bridge, port)) < 0) {
+      // Root Guard: superior information is discarded and the port stays designated but blocked
+      port.receivedInfo = undefined;
+      port.messageAge = 0;
+      this.setInconsistency(bridge, port, 'root');
+      this.updateRoles(tree, bridge);
+      return;
+    }
+    if (port.inconsistency === 'loop') {
+      this.setInconsistency(bridge, port, undefined);
+    }
+
+    port.receivedInfo = bpdu;
+    port.messageAge = bpdu.messageAge;
+    this.updateRoles(tree, bridge);
+
+    if (bpdu.proposal && port.rapid && port.role !== STPPortRole.DESIGNATED && port.role !== STPPortRole.DISABLED) {
+      if (port.role === STPPortRole.ROOT) {
+        this.sync(tree, bridge);
+      }
+      this.transmit(tree, bridge, port, bpdu);
     }
   }
 
   /**
-   * Update port states based on roles
-   */
-  private updatePortStates(): void {
-    for (const bridge of this.bridges.values()) {
-      for (const port of bridge.ports.values()) {
-        switch (port.role) {
-          case STPPortRole.ROOT:
-          case STPPortRole.DESIGNATED:
-            port.state = STPPortState.FORWARDING;
-            break;
-          case STPPortRole.ALTERNATE:
-          case STPPortRole.BACKUP:
-            port.state = STPPortState.BLOCKING;
-            break;
-          case STPPortRole.DISABLED:
-            port.state = STPPortState.DISABLED;
-            break;
-        }
+   * Block every designated port that has not agreed yet before agreeing upstream
+   */
+  private sync(tree: string, bridge: STPBridge): void {
+    bridge.ports.forEach(port => {
+      const pending = port.proposing && port.state === STPPortState.DISCARDING;
+      if (port.role === STPPortRole.DESIGNATED && !port.edge && port.rapid && !pending && !mirrorsCist(bridge, port)) {
+        this.propose(tree, bridge, port);
       }
+    });
+  }
+
+  /**
+   * Record when the simulation last settled
+   */
+  private checkConvergence(): void {
+    const converged = this.isConverged();
+    if (converged && !this.converged) {
+      this.convergenceTime = this.clock - this.lastChangeTime;
+      this.lastConvergenceTime = this.clock;
+    }
+    this.converged = converged;
+  }
+
+  private getDefaultVlan(): number {
+    return this.vlanIds[0] ?? 1;
+  }
+
+  /**
+   * Tree that carries a VLAN on a bridge: its PVST+ instance, or the MST instance the VLAN maps to
+   */
+  private getTreeKey(deviceId: string, vlanId: number): string {
+    const region = this.regions.get(this.deviceRegions.get(deviceId) ?? '');
+    if (region) {
+      const instanceId = getMstInstanceForVlan(region, vlanId);
+      return instanceId ? mstiTreeKey(region.key, instanceId) : CIST_TREE;
     }
+    return vlanId === 1 && this.trees.has(CIST_TREE) ? CIST_TREE : vlanTreeKey(vlanId);
   }
 
   /**
-   * Get neighboring bridge for a given port
+   * Connections reference interfaces by id or by name
    */
-  private getNeighborBridge(bridgeId: string, portId: string): string | undefined {
-    const neighbors = this.topology.get(bridgeId);
-    if (!neighbors) return undefined;
-    
-    // This is simplified - in reality, we'd need to map ports to connections
-    return neighbors.find(neighbor => this.bridges.has(neighbor));
+  private resolveInterfaceId(devices: NetworkDevice[], deviceId: string, reference: string): string {
+    const device = devices.find(d => d.id === deviceId);
+    if (!isSwitchingDevice(device)) return reference;
+    const iface = device.interfaces.find(i => i.id === reference || i.name === reference);
+    return iface?.id ?? reference;
   }
 
   /**
@@ -392,12 +1194,23 @@ export class STPSimulation {
   private calculatePortCost(speedMbps: number): number {
     // Standard STP port costs
     if (speedMbps >= 10000) return 2;      // 10 Gbps
+    if (speedMbps >= 2000) return 3;       // Gigabit EtherChannel
     if (speedMbps >= 1000) return 4;       // 1 Gbps
+    if (speedMbps >= 200) return 12;       // Fast EtherChannel
     if (speedMbps >= 100) return 19;       // 100 Mbps
     if (speedMbps >= 10) return 100;       // 10 Mbps
     return 10000;                          // < 10 Mbps
   }
 
+  /**
+   * Bridge MAC in dotted Cisco notation, taken from the first interface
+   */
+  private getBridgeMacAddress(switchDevice: SwitchingDevice): string {
+    const source = switchDevice.interfaces[0]?.macAddress || this.generateBridgeMacAddress(switchDevice.id);
+    const hex = source.toLowerCase().replace(/[^0-9a-f]/g, '').padEnd(12, '0').slice(0, 12);
+    return `${hex.slice(0, 4)}.${hex.slice(4, 8)}.${hex.slice(8, 12)}`;
+  }
+
   /**
    * Generate a MAC address for bridge ID
    */
@@ -405,12 +1218,12 @@ export class STPSimulation {
     // Generate a deterministic MAC address based on bridge ID
     const hash = bridgeId.split('').reduce((acc, char) => acc + char.charCodeAt(0), 0);
     const mac = [];
-    
+
     for (let i = 0; i < 6; i++) {
       const byte = (hash + i) % 256;
       mac.push(byte.toString(16).padStart(2, '0'));
     }
-    
+
     return mac.join(':');
   }
 
@@ -418,51 +1231,31 @@ export class STPSimulation {
    * Reset simulation state
    */
   private reset(): void {
-    this.bridges.clear();
-    this.topology.clear();
+    this.trees.clear();
+    this.links.clear();
+    this.connectionEnds.clear();
+    this.bridgeDevices.clear();
+    this.regions.clear();
+    this.deviceRegions.clear();
+    this.vlanIds = [];
+    this.failedLinks.clear();
+    this.channelAnchors.clear();
+    this.channelMembers.clear();
+    this.channelPorts.clear();
+    this.portConfigs.clear();
+    this.recovery.clear();
+    this.errDisabled.clear();
+    this.events = [];
+    this.queue = [];
+    this.clock = 0;
+    this.lastChangeTime = 0;
     this.convergenceTime = 0;
     this.topologyChangeCount = 0;
     this.lastConvergenceTime = 0;
+    this.converged = false;
     this.isRunning = false;
   }
-
-  /**
-   * Get blocked ports (for loop prevention visualization)
-   */
-  getBlockedPorts(): Array<{ bridgeId: string; portId: string; interfaceId: string }> {
-    const blockedPorts = [];
-    
-    for (const [bridgeId, bridge] of this.bridges) {
-      for (const [interfaceId, port] of bridge.ports) {
-        if (port.state === STPPortState.BLOCKING) {
-          blockedPorts.push({
-            bridgeId,
-            portId: port.portId.toString(),
-            interfaceId,
-          });
-        }
-      }
-    }
-    
-    return blockedPorts;
-  }
-
-  /**
-   * Get root bridge information
-   */
-  getRootBridgeInfo(): { bridgeId: string; priority: number; macAddress: string } | null {
-    for (const bridge of this.bridges.values()) {
-      if (bridge.bridgeId === bridge.rootBridgeId) {
-        return {
-          bridgeId: bridge.bridgeId,
-          priority: bridge.priority,
-          macAddress: bridge.macAddress,
-        };
-      }
-    }
-    return null;
-  }
 }
 
 // Global STP simulation instance
-export const stpSimulation = new STPSimulation();
\ No newline at end of file
+export const stpSimulation = new STPSimulation();
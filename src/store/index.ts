@@ -1,7 +1,10 @@
 import { create } from 'zustand';
 import { devtools, persist } from 'zustand/middleware';
-import { NetworkDevice, Connection, Vlan, AppState, ViewType, SimulationScenario, PacketSimulation, TrafficFlow, SimulationStats, SimulatedPacket, DeviceType, InterfaceStatus } from '../types';
+import { NetworkDevice, Connection, Vlan, AppState, ViewType, SimulationScenario, PacketSimulation, TrafficFlow, SimulationStats, SimulatedPacket, IpVersion, DeviceType, InterfaceStatus } from '../types';
 import { SimulationEngine, createSimulationEngine } from '../utils/simulation/simulationEngine';
+import { SpanningTreeEngine } from '../utils/networking/spanningTreeProtocol';
+import { RoutingEngine } from '../utils/routing/routingEngine';
+import { stpSimulation } from '../protocols/switching/stpSimulation';
 
 // Main application store interface
 interface AppStore extends AppState {
@@ -46,6 +49,8 @@ interface AppStore extends AppState {
   // Simulation management
   currentScenario?: SimulationScenario;
   simulationEngine?: SimulationEngine;
+  spanningTreeEngine: SpanningTreeEngine;
+  routingEngine: RoutingEngine;
   currentSimulation?: PacketSimulation;
   simulationStats: SimulationStats;
   activeTrafficFlows: TrafficFlow[];
@@ -53,6 +58,7 @@ interface AppStore extends AppState {
   autoRun: boolean;
   setCurrentScenario: (scenario: SimulationScenario | undefined) => void;
   createSimulationEngine: () => void;
+  setSpanningTreeEngine: (engine: SpanningTreeEngine) => void;
   startSimulation: (trafficFlows?: TrafficFlow[]) => void;
   stopSimulation: () => void;
   pauseSimulation: () => void;
@@ -60,7 +66,7 @@ interface AppStore extends AppState {
   setSimulationSpeed: (speed: number) => void;
   setAutoRun: (enabled: boolean) => void;
   stepSimulation: () => void;
-  sendTestPacket: (sourceId: string, targetId: string, vlanTag?: number) => void;
+  sendTestPacket: (sourceId: string, targetId: string, vlanTag?: number, ipVersion?: IpVersion) => void;
   addTrafficFlow: (flow: TrafficFlow) => void;
   removeTrafficFlow: (flowId: string) => void;
   updateTrafficFlow: (flowId: string, updates: Partial<TrafficFlow>) => void;
@@ -114,6 +120,8 @@ export const useAppStore = create<AppStore>()(
           utilizationByVlan: {},
         },
         activeTrafficFlows: [],
+        spanningTreeEngine: stpSimulation,
+        routingEngine: new RoutingEngine(),
         simulationSpeed: 1.0,
         autoRun: true,
 
@@ -243,10 +251,16 @@ export const useAppStore = create<AppStore>()(
 
         createSimulationEngine: () => {
           const state = get();
-          const engine = createSimulationEngine(state.devices, state.connections, state.vlans);
+          const engine = createSimulationEngine(state.devices, state.connections, state.vlans, state.spanningTreeEngine, state.routingEngine);
           set(() => ({ simulationEngine: engine }), false, 'createSimulationEngine');
         },
 
+        setSpanningTreeEngine: (engine) => {
+          engine.initialize(get().devices, get().connections);
+          set(() => ({ spanningTreeEngine: engine }), false, 'setSpanningTreeEngine');
+          get().createSimulationEngine();
+        },
+
         startSimulation: (trafficFlows = []) => {
           const state = get();
           if (!state.simulationEngine) {
@@ -332,13 +346,13 @@ export const useAppStore = create<AppStore>()(
           }), false, 'stepSimulation');
         },
 
-        sendTestPacket: (sourceId, targetId, vlanTag) => {
+        sendTestPacket: (sourceId, targetId, vlanTag, ipVersion) => {
           const state = get();
           if (!state.simulationEngine) {
             state.createSimulationEngine();
           }
           
-          const packet = state.simulationEngine!.createTestPacket(sourceId, targetId, undefined, undefined, vlanTag);
+          const packet = state.simulationEngine!.createTestPacket(sourceId, targetId, undefined, undefined, vlanTag, ipVersion);
           if (packet) {
             state.simulationEngine!.sendPacket(packet);
             
@@ -393,6 +407,7 @@ export const useAppStore = create<AppStore>()(
             vlans: [],
             selectedDevice: undefined,
             selectedVlan: undefined,
+            routingEngine: new RoutingEngine(),
           }), false, 'clearTopology'),
 
         loadTopology: ({ devices, connections, vlans }) =>
@@ -444,6 +459,8 @@ export const useAppStore = create<AppStore>()(
               vlans,
               selectedDevice: undefined,
               selectedVlan: undefined,
+              // A new topology starts with its routing protocols converged
+              routingEngine: new RoutingEngine(),
             };
           }, false, 'loadTopology'),
       }),
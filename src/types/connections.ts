@@ -88,14 +88,37 @@ export interface PathHop {
 }
 
 /**
- * Link aggregation group (LAG) for multiple connections
+ * Link aggregation group (LAG): parallel connections between two switches bundled into one
+ * logical port-channel. Built from the channel-group settings of the ports at both ends.
  */
 export interface LinkAggregationGroup {
   id: string;
-  name: string;
+  name: string; // port-channel name on the source device, e.g. Po1
   memberConnections: string[];
   protocol: 'LACP' | 'PAgP' | 'Static';
-  mode: 'active' | 'passive';
+  mode: 'active' | 'passive'; // active when either end starts the negotiation (or both are on)
+  sourceDevice: string;
+  targetDevice: string;
+  sourceGroup: number; // channel group number on each end
+  targetGroup?: number; // unset when the far port is in no channel group
+  status: ConnectionStatus; // up while at least one member is bundled
+  members: LinkAggregationMember[];
+  bandwidth: number; // in Mbps, the bundled members together
+}
+
+/**
+ * What became of one link of a port-channel: bundled, running as a separate port
+ * (stand-alone), held out of the bundle (suspended) or down
+ */
+export type LinkAggregationMemberState = 'bundled' | 'stand-alone' | 'suspended' | 'down';
+
+/**
+ * Link of a port-channel, with why it is not bundled
+ */
+export interface LinkAggregationMember {
+  connectionId: string;
+  state: LinkAggregationMemberState;
+  reason?: string;
 }
 
 /**
@@ -116,6 +139,7 @@ export interface SpanningTreeInfo {
 export enum SpanningTreePortState {
   DISABLED = 'disabled',
   BLOCKING = 'blocking',
+  DISCARDING = 'discarding', // 802.1w
   LISTENING = 'listening',
   LEARNING = 'learning',
   FORWARDING = 'forwarding',
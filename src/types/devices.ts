@@ -1,3 +1,5 @@
+import type { VtpMode } from './vlan';
+
 /**
  * Base interface for all network devices
  */
@@ -29,6 +31,8 @@ export enum DeviceType {
   ROUTER = 'router',
   PC = 'pc',
   SERVER = 'server',
+  FIREWALL = 'firewall',
+  MULTILAYER_SWITCH = 'multilayer-switch',
 }
 
 /**
@@ -50,9 +54,165 @@ export interface NetworkInterface {
   status: InterfaceStatus;
   vlanConfig?: VlanInterfaceConfig;
   ipAddress?: string;
+  description?: string;
   macAddress: string;
   speed: number; // in Mbps
   duplex: 'full' | 'half';
+  ospf?: OspfInterfaceConfig;
+  rip?: RipInterfaceConfig;
+  spanningTree?: SpanningTreePortConfig;
+  errDisabled?: ErrDisableState;
+  nat?: NatInterfaceRole;
+  ipv6Addresses?: Ipv6InterfaceAddress[];
+  ipv6Enabled?: boolean; // ipv6 enable: link-local address only
+  ipv6Autoconfig?: boolean; // ipv6 address autoconfig: global addresses from router advertisements (SLAAC)
+  dhcpClient?: boolean; // ip address dhcp: the address is leased from a DHCP server
+  helperAddresses?: string[]; // ip helper-address: DHCP servers that broadcasts received here are relayed to
+  snooping?: SnoopingPortConfig;
+  portSecurity?: PortSecurityConfig;
+  channelGroup?: ChannelGroupConfig;
+  parentInterface?: string; // subinterface (Gi0/0.10): name of the physical interface it runs on
+  encapsulation?: Dot1qEncapsulation;
+  routedPort?: boolean; // no switchport: a multilayer switch port that routes instead of switching
+  sviVlan?: number; // switch virtual interface (interface vlan <id>): the VLAN it routes for
+  fhrpGroups?: FhrpGroupConfig[]; // standby / vrrp groups: virtual gateways shared with other routers
+  switchportMode?: SwitchportMode; // switchport mode dynamic ...: type then holds the mode DTP negotiated
+  nonegotiate?: boolean; // switchport nonegotiate: the port sends no DTP frames
+  accessGroups?: { in?: string; out?: string }; // ip access-group <acl> {in|out}: ACLs filtering IP traffic through the interface
+}
+
+/**
+ * Administrative mode of a switchport (switchport mode ...). Access and trunk are static;
+ * the dynamic modes let DTP decide with the port at the other end.
+ */
+export type SwitchportMode = 'access' | 'trunk' | 'dynamic-auto' | 'dynamic-desirable';
+
+/**
+ * 802.1Q encapsulation of a router subinterface (encapsulation dot1Q <vlan> [native]).
+ * Frames of the VLAN carry its tag on the parent interface, or none when it is the native VLAN.
+ */
+export interface Dot1qEncapsulation {
+  vlanId: number;
+  native?: boolean;
+}
+
+/**
+ * Port settings of DHCP snooping, dynamic ARP inspection and IP source guard. Ports are
+ * untrusted unless marked trusted.
+ */
+export interface SnoopingPortConfig {
+  dhcpTrust?: boolean; // ip dhcp snooping trust: DHCP servers may answer through this port
+  arpTrust?: boolean; // ip arp inspection trust: ARP received here is not inspected
+  verifySource?: boolean; // ip verify source: only addresses bound to this port may send IP
+}
+
+/**
+ * What a secure port does with a frame from a MAC address it may not learn
+ */
+export type PortSecurityViolationMode = 'protect' | 'restrict' | 'shutdown';
+
+/**
+ * MAC address configured on a secure port: static, or learned sticky and saved to the config
+ */
+export interface SecureMacAddress {
+  macAddress: string;
+  vlanId?: number; // the access VLAN of the port when unset
+  sticky?: boolean;
+}
+
+/**
+ * Port security (switchport port-security): which and how many source MAC addresses a
+ * port accepts. The settings are kept while port security is off.
+ */
+export interface PortSecurityConfig {
+  enabled: boolean;
+  maximum: number; // secure MAC addresses, 1 by default
+  violation: PortSecurityViolationMode; // shutdown by default
+  sticky?: boolean; // mac-address sticky: learned addresses are saved to the config
+  macAddresses: SecureMacAddress[];
+  agingTime?: number; // minutes; learned addresses never age when unset
+  agingType?: 'absolute' | 'inactivity'; // absolute by default
+}
+
+/**
+ * How a port joins its EtherChannel: LACP (active/passive), PAgP (desirable/auto) or
+ * unconditionally without a negotiation protocol (on)
+ */
+export type ChannelGroupMode = 'active' | 'passive' | 'desirable' | 'auto' | 'on';
+
+/**
+ * EtherChannel membership of a switch port (channel-group <n> mode <mode>)
+ */
+export interface ChannelGroupConfig {
+  group: number; // port-channel number, 1-48
+  mode: ChannelGroupMode;
+}
+
+/**
+ * First-hop redundancy protocol of a virtual gateway: Cisco HSRP or standard VRRP
+ */
+export type FhrpProtocol = 'hsrp' | 'vrrp';
+
+/**
+ * Interface a group tracks: while it is down, the group's priority drops by the decrement
+ */
+export interface FhrpTrack {
+  interface: string;
+  decrement?: number; // 10 by default
+}
+
+/**
+ * HSRP (standby <group> ...) or VRRP (vrrp <group> ...) group of a router interface or SVI.
+ * The routers of a group share a virtual IP and MAC address, answered for by the one elected
+ * active (HSRP) or master (VRRP).
+ */
+export interface FhrpGroupConfig {
+  protocol: FhrpProtocol;
+  group: number; // HSRP 0-255, VRRP 1-255
+  virtualIp?: string; // learned from the other routers of the group when unset
+  priority?: number; // 100 by default
+  preempt?: boolean; // take over from an active router of lower priority; VRRP preempts unless false
+  helloTime?: number; // seconds between hellos (HSRP, 3) or advertisements (VRRP, 1)
+  holdTime?: number; // HSRP: seconds without hellos before the active router counts as down, 10 by default
+  track?: FhrpTrack[];
+}
+
+/**
+ * VTP settings of a switch (vtp domain / mode / version / password) and the state of its VLAN
+ * database that VTP keeps in vlan.dat: the configuration revision and who made the last change
+ */
+export interface VtpSwitchConfig {
+  mode?: VtpMode; // server by default
+  domain?: string; // null until configured or learned from the first summary advertisement
+  password?: string;
+  version?: 1 | 2 | 3; // 1 by default
+  primary?: boolean; // version 3 primary server, the only switch whose VLAN changes are taken
+  revision: number; // configuration revision, raised by every VLAN change on a server
+  updater?: string; // address of the switch that made the last change
+  lastModified?: number; // ms since the epoch
+}
+
+/**
+ * Frame fields a switch hashes to spread flows over the links of its port-channels
+ */
+export type EtherChannelLoadBalance =
+  | 'src-mac' | 'dst-mac' | 'src-dst-mac'
+  | 'src-ip' | 'dst-ip' | 'src-dst-ip'
+  | 'src-port' | 'dst-port' | 'src-dst-port';
+
+/**
+ * How an IPv6 address got onto an interface
+ */
+export type Ipv6AddressOrigin = 'manual' | 'eui-64' | 'link-local' | 'slaac';
+
+/**
+ * IPv6 address of an interface. EUI-64 addresses are stored complete, with the interface
+ * ID derived from the MAC address; SLAAC addresses are learned, never configured.
+ */
+export interface Ipv6InterfaceAddress {
+  address: string;
+  prefixLength: number;
+  origin: Ipv6AddressOrigin;
 }
 
 /**
@@ -71,6 +231,20 @@ export enum InterfaceStatus {
   UP = 'up',
   DOWN = 'down',
   ADMIN_DOWN = 'admin_down',
+  ERR_DISABLED = 'err_disabled',
+}
+
+/**
+ * Reasons a port can be shut down by the switch itself
+ */
+export type ErrDisableCause = 'bpduguard' | 'psecure-violation';
+
+/**
+ * Why and when an interface was err-disabled
+ */
+export interface ErrDisableState {
+  cause: ErrDisableCause;
+  since: number;
 }
 
 /**
@@ -83,14 +257,96 @@ export interface VlanInterfaceConfig {
 }
 
 /**
- * Switch device with layer 2 capabilities
+ * Layer 2 features shared by switches and multilayer switches
  */
-export interface SwitchDevice extends BaseDevice {
-  type: DeviceType.SWITCH;
+export interface SwitchingFeatures {
   interfaces: NetworkInterface[];
   macAddressTable: MacAddressEntry[];
   vlanDatabase: VlanEntry[];
   spanningTreeEnabled: boolean;
+  spanningTreeConfig?: SpanningTreeConfig;
+  errdisableRecovery?: ErrDisableRecoveryConfig;
+  dhcpSnooping?: DhcpSnoopingConfig;
+  arpInspectionVlans?: number[]; // ip arp inspection vlan: ARP checked against the DHCP snooping bindings
+  etherChannelLoadBalance?: EtherChannelLoadBalance; // port-channel load-balance, src-mac by default
+  vtp?: VtpSwitchConfig;
+  accessLists?: AccessListConfig[];
+}
+
+/**
+ * Switch device with layer 2 capabilities
+ */
+export interface SwitchDevice extends BaseDevice, SwitchingFeatures {
+  type: DeviceType.SWITCH;
+}
+
+/**
+ * Multilayer switch: the VLAN database and MAC table of a switch with a routing table. It
+ * routes between its SVIs and routed ports once ip routing is enabled.
+ */
+export interface MultilayerSwitchDevice extends BaseDevice, SwitchingFeatures {
+  type: DeviceType.MULTILAYER_SWITCH;
+  routingTable: RouteEntry[];
+  ipRouting?: boolean; // ip routing, off by default as on a Catalyst
+}
+
+/**
+ * Devices that switch frames between VLAN ports
+ */
+export type SwitchingDevice = SwitchDevice | MultilayerSwitchDevice;
+
+/**
+ * DHCP snooping (ip dhcp snooping): a VLAN is snooped when it is listed and snooping is
+ * enabled globally
+ */
+export interface DhcpSnoopingConfig {
+  enabled: boolean;
+  vlans: number[];
+  verifyMacAddress: boolean; // ip dhcp snooping verify mac-address, on by default
+}
+
+/**
+ * Automatic err-disable recovery (errdisable recovery cause/interval)
+ */
+export interface ErrDisableRecoveryConfig {
+  causes: ErrDisableCause[];
+  interval: number; // in seconds
+}
+
+/**
+ * Spanning tree flavour (spanning-tree mode)
+ */
+export type SpanningTreeMode = 'pvst' | 'rapid-pvst' | 'mst';
+
+/**
+ * Switch spanning tree configuration; each VLAN runs its own instance (PVST+)
+ * unless the switch runs MST, where VLANs are grouped into instances
+ */
+export interface SpanningTreeConfig {
+  mode: SpanningTreeMode;
+  vlanPriorities: Record<number, number>;
+  mst?: MstConfig;
+}
+
+/**
+ * Per-port spanning tree edge and guard features
+ */
+export interface SpanningTreePortConfig {
+  portfast?: boolean;
+  bpduGuard?: boolean;
+  bpduFilter?: boolean;
+  guard?: 'root' | 'loop';
+}
+
+/**
+ * MST region configuration (spanning-tree mst configuration). VLANs that are not
+ * mapped to an instance belong to the CIST, instance 0.
+ */
+export interface MstConfig {
+  name: string;
+  revision: number;
+  instances: Record<number, number[]>;
+  priorities: Record<number, number>;
 }
 
 /**
@@ -101,7 +357,261 @@ export interface RouterDevice extends BaseDevice {
   interfaces: NetworkInterface[];
   routingTable: RouteEntry[];
   ospfEnabled?: boolean;
+  ospfConfig?: OspfProcessConfig;
+  ripEnabled?: boolean;
+  ripConfig?: RipProcessConfig;
   bgpEnabled?: boolean;
+  bgpConfig?: BgpProcessConfig;
+  nat?: NatConfig;
+  accessLists?: AccessListConfig[]; // numbered (access-list) and named (ip access-list) ACLs
+  ipv6UnicastRouting?: boolean;
+  ipv6Routes?: Ipv6StaticRoute[];
+  dhcpServer?: DhcpServerConfig;
+}
+
+/**
+ * IPv6 static route (ipv6 route). A link-local next hop is only usable together with the
+ * exit interface it is reached on.
+ */
+export interface Ipv6StaticRoute {
+  prefix: string;
+  prefixLength: number;
+  nextHop?: string;
+  interface?: string;
+}
+
+/**
+ * DHCP server of a router or server: address pools (ip dhcp pool) and the addresses
+ * never handed out (ip dhcp excluded-address)
+ */
+export interface DhcpServerConfig {
+  pools: DhcpPoolConfig[];
+  excludedRanges: DhcpExcludedRange[];
+}
+
+/**
+ * Address pool a DHCP server leases from. The pool serving a client is the one whose
+ * network contains the relay agent address, or the address of the interface the request
+ * arrived on when it was not relayed.
+ */
+export interface DhcpPoolConfig {
+  name: string;
+  network?: string;
+  mask?: string;
+  defaultRouter?: string;
+  dnsServers?: string[];
+  leaseTime?: number; // seconds, one day when absent; DHCP_INFINITE_LEASE for lease infinite
+}
+
+/**
+ * Addresses a DHCP server never leases, e.g. the default gateway
+ */
+export interface DhcpExcludedRange {
+  start: string;
+  end: string;
+}
+
+/**
+ * Side of the NAT boundary an interface is on (ip nat inside / ip nat outside)
+ */
+export type NatInterfaceRole = 'inside' | 'outside';
+
+/**
+ * Router NAT configuration. Addresses are only translated for packets routed from an
+ * inside to an outside interface, and back.
+ */
+export interface NatConfig {
+  staticEntries: NatStaticEntry[];
+  pools: NatPool[];
+  dynamicRules: NatDynamicRule[];
+}
+
+/**
+ * One-to-one mapping (ip nat inside source static)
+ */
+export interface NatStaticEntry {
+  insideLocal: string;
+  insideGlobal: string;
+}
+
+/**
+ * Range of inside global addresses (ip nat pool)
+ */
+export interface NatPool {
+  name: string;
+  startIp: string;
+  endIp: string;
+  netmask: string;
+}
+
+/**
+ * Inside sources permitted by an ACL are translated to a pool address, or with
+ * overload to a pool or interface address plus a port (ip nat inside source list)
+ */
+export interface NatDynamicRule {
+  aclName: string;
+  pool?: string;
+  interface?: string;
+  overload: boolean;
+}
+
+/**
+ * Standard ACLs match the source address only; extended ACLs also match the protocol,
+ * destination and ports
+ */
+export type AccessListType = 'standard' | 'extended';
+
+/**
+ * ACL of a router, switch or firewall: numbered (access-list <number>) or named (ip access-list <type> <name>)
+ */
+export interface AccessListConfig {
+  name: string; // the number of a numbered ACL
+  type: AccessListType;
+  entries: AccessListEntry[];
+}
+
+/**
+ * One permit or deny statement of an ACL. Networks are in CIDR notation; no network
+ * matches any address.
+ */
+export interface AccessListEntry {
+  sequenceNumber: number;
+  action: 'permit' | 'deny';
+  protocol?: string; // extended only: ip, tcp, udp, icmp, ... or a protocol number
+  srcNetwork?: string;
+  srcPort?: number | { min: number; max: number };
+  dstNetwork?: string;
+  dstPort?: number | { min: number; max: number };
+  established?: boolean;
+  logMatches?: boolean;
+}
+
+/**
+ * Stateful firewall: routes like a router, and only passes traffic between security
+ * zones that a zone-pair policy allows
+ */
+export interface FirewallDevice extends BaseDevice {
+  type: DeviceType.FIREWALL;
+  interfaces: NetworkInterface[];
+  routingTable: RouteEntry[];
+  zones: SecurityZone[];
+  zonePairs: ZonePairPolicy[];
+  accessLists?: AccessListConfig[];
+}
+
+/**
+ * Security zone (zone security <name>) and its member interfaces (zone-member security)
+ */
+export interface SecurityZone {
+  name: string;
+  interfaces: string[]; // interface names
+}
+
+/**
+ * Policy for traffic from one zone to another (zone-pair security source <zone> destination <zone>)
+ */
+export interface ZonePairPolicy {
+  source: string;
+  destination: string;
+  rules: ZonePolicyRule[]; // first match wins; unmatched traffic is dropped (class-default)
+}
+
+/**
+ * One class of traffic in a zone-pair policy
+ */
+export interface ZonePolicyRule {
+  protocol: 'ip' | 'tcp' | 'udp' | 'icmp';
+  destinationPort?: number | { min: number; max: number };
+  action: ZonePolicyAction;
+}
+
+/**
+ * inspect: allow and track the session so replies are let back in; pass: allow this direction only
+ */
+export type ZonePolicyAction = 'inspect' | 'pass' | 'drop';
+
+/**
+ * OSPF process configuration (router ospf <process-id>)
+ */
+export interface OspfProcessConfig {
+  processId: number;
+  routerId?: string;
+  networks: OspfNetworkStatement[];
+}
+
+/**
+ * OSPF network statement (network <address> <wildcard> area <area-id>)
+ */
+export interface OspfNetworkStatement {
+  network: string;
+  wildcard: string;
+  area: string;
+}
+
+/**
+ * Per-interface OSPF settings (ip ospf ...)
+ */
+export interface OspfInterfaceConfig {
+  cost?: number;
+  priority?: number;
+  helloInterval?: number;
+  deadInterval?: number;
+}
+
+/**
+ * RIP process configuration (router rip)
+ */
+export interface RipProcessConfig {
+  version: 2;
+  networks: string[]; // classful network numbers
+  timers?: RipTimers;
+}
+
+/**
+ * RIP timers in seconds (timers basic <update> <invalid> <holddown> <flush>)
+ */
+export interface RipTimers {
+  update: number;
+  invalid: number;
+  holddown: number;
+  flush: number;
+}
+
+/**
+ * Per-interface RIP settings
+ */
+export interface RipInterfaceConfig {
+  splitHorizon?: boolean; // defaults to enabled, with poison reverse
+}
+
+/**
+ * BGP process configuration (router bgp <asn>)
+ */
+export interface BgpProcessConfig {
+  asn: number;
+  routerId?: string;
+  neighbors: BgpNeighborConfig[];
+  networks: BgpNetworkStatement[];
+  defaultLocalPreference?: number;
+}
+
+/**
+ * BGP neighbor statement (neighbor <address> remote-as <asn> ...)
+ */
+export interface BgpNeighborConfig {
+  address: string;
+  remoteAs: number;
+  description?: string;
+  shutdown?: boolean;
+  nextHopSelf?: boolean;
+}
+
+/**
+ * BGP network statement (network <address> mask <mask>)
+ */
+export interface BgpNetworkStatement {
+  network: string;
+  mask: string;
 }
 
 /**
@@ -111,6 +621,7 @@ export interface PcDevice extends BaseDevice {
   type: DeviceType.PC;
   interface: NetworkInterface;
   defaultGateway?: string;
+  ipv6DefaultGateway?: string;
   dnsServers?: string[];
 }
 
@@ -122,13 +633,15 @@ export interface ServerDevice extends BaseDevice {
   interfaces: NetworkInterface[];
   services: string[];
   defaultGateway?: string;
+  ipv6DefaultGateway?: string;
   dnsServers?: string[];
+  dhcpServer?: DhcpServerConfig;
 }
 
 /**
  * Union type for all device types
  */
-export type NetworkDevice = SwitchDevice | RouterDevice | PcDevice | ServerDevice;
+export type NetworkDevice = SwitchDevice | RouterDevice | PcDevice | ServerDevice | FirewallDevice | MultilayerSwitchDevice;
 
 /**
  * Legacy alias for backward compatibility
@@ -179,7 +692,7 @@ export interface RouteEntry {
   nextHop: string;
   interface: string;
   metric: number;
-  protocol: 'connected' | 'static' | 'ospf' | 'bgp';
+  protocol: 'connected' | 'static' | 'rip' | 'ospf' | 'bgp';
 }
 
 /**
@@ -26,6 +26,8 @@ export enum ViewType {
   VLAN_CONFIG = 'vlan_config',
   PACKET_SIM = 'packet_sim',
   STP = 'stp',
+  ACL = 'acl',
+  FIREWALL = 'firewall',
   STATISTICS = 'statistics',
 }
 
@@ -14,10 +14,23 @@ export interface NetworkPacket {
   size: number; // in bytes
   timestamp: Date;
   ttl?: number;
+  sourcePort?: number; // TCP/UDP ports, matched by extended ACLs
+  targetPort?: number;
+  dscp?: number;
+  tcpFlags?: number; // TcpFlag bits, tracked by stateful firewalls
+  icmpType?: IcmpType;
+  ndpType?: NdpType;
+  dhcpType?: DhcpMessageType;
+  ipVersion?: IpVersion; // absent for IPv4
   protocol: NetworkProtocol;
   payload: any;
 }
 
+/**
+ * IP version a packet is carried over
+ */
+export type IpVersion = 4 | 6;
+
 /**
  * Types of network packets
  */
@@ -32,12 +45,56 @@ export enum PacketType {
   MULTICAST = 'multicast',
 }
 
+/**
+ * TCP header flags
+ */
+export enum TcpFlag {
+  FIN = 0x01,
+  SYN = 0x02,
+  RST = 0x04,
+  PSH = 0x08,
+  ACK = 0x10,
+}
+
+/**
+ * ICMP message types the simulator generates
+ */
+export enum IcmpType {
+  ECHO_REQUEST = 'echo-request',
+  ECHO_REPLY = 'echo-reply',
+}
+
+/**
+ * IPv6 Neighbor Discovery messages, ICMPv6 types 133-136
+ */
+export enum NdpType {
+  ROUTER_SOLICITATION = 'router-solicitation',
+  ROUTER_ADVERTISEMENT = 'router-advertisement',
+  NEIGHBOR_SOLICITATION = 'neighbor-solicitation',
+  NEIGHBOR_ADVERTISEMENT = 'neighbor-advertisement',
+}
+
+/**
+ * DHCP messages: DISCOVER, OFFER, REQUEST and ACK make up the exchange that leases an
+ * address; a client DECLINEs an address it finds in use, a server NAKs a request it
+ * cannot grant
+ */
+export enum DhcpMessageType {
+  DISCOVER = 'discover',
+  OFFER = 'offer',
+  REQUEST = 'request',
+  DECLINE = 'decline',
+  ACK = 'ack',
+  NAK = 'nak',
+}
+
 /**
  * Network protocols
  */
 export enum NetworkProtocol {
   ETHERNET = 'ethernet',
   ARP = 'arp',
+  NDP = 'ndp',
   IPv4 = 'ipv4',
   IPv6 = 'ipv6',
   ICMP = 'icmp',
@@ -73,6 +130,75 @@ export interface SimulatedPacket extends NetworkPacket {
   status: PacketStatus;
   drops?: PacketDrop[];
   delay: number; // accumulated delay in ms
+  floodId?: string; // copies of a flooded frame share the id of the original
+  viaConnection?: string; // link the packet is leaving or last arrived on
+  nextHop?: PendingNextHop;
+  egressQueue?: QueuedTransmission;
+  decisions?: ForwardingDecision[]; // what every device did with the packet, in order
+  slaacWaitStartedAt?: number; // simulation tick an IPv6 packet started waiting for SLAAC to address it
+  dhcpWaitStartedAt?: number; // simulation tick a packet started waiting for DHCP to lease its source or target an address
+}
+
+/**
+ * Layer 3 next hop a host or router is sending to, held until ARP (IPv4) or neighbor
+ * discovery (IPv6) resolves its MAC address
+ */
+export interface PendingNextHop {
+  ip: string;
+  connectionId?: string; // none for an SVI, which sends through the switchports of its VLAN
+  interfaceId: string;
+  arpRequestedAt?: number; // simulation tick the ARP request or neighbor solicitation went out
+}
+
+/**
+ * Link a packet waits to be sent on while it sits in an egress queue
+ */
+export interface QueuedTransmission {
+  connectionId: string;
+  until: number; // simulation time in ms at which the packet has left the queue
+}
+
+/**
+ * A single forwarding decision made by a device
+ */
+export interface ForwardingDecision {
+  deviceId: string;
+  interfaceId?: string; // ingress interface, absent where the packet originated
+  action: ForwardingAction;
+  reason: string;
+  vlanId?: number;
+  header?: PacketAddressing; // addresses as the device received the packet
+  translatedHeader?: PacketAddressing; // addresses after NAT rewrote them
+  timestamp: Date;
+}
+
+/**
+ * Layer 3 and 4 addresses of a packet at one point of its path
+ */
+export interface PacketAddressing {
+  sourceIp?: string;
+  sourcePort?: number;
+  targetIp?: string;
+  targetPort?: number;
+}
+
+/**
+ * What a device did with a packet
+ */
+export enum ForwardingAction {
+  FORWARD = 'forward',
+  FLOOD = 'flood',
+  FILTER = 'filter',
+  ROUTE = 'route',
+  ARP = 'arp',
+  NDP = 'ndp', // IPv6 neighbor discovery
+  DHCP = 'dhcp', // DHCP message served or relayed
+  DELIVER = 'deliver',
+  DROP = 'drop',
+  ACL = 'acl', // permitted by an interface ACL
+  QUEUE = 'queue', // held in an egress queue
+  INSPECT = 'inspect', // passed by a stateful firewall, or learned by a secure port
+  NAT = 'nat', // addresses rewritten by network address translation
 }
 
 /**
@@ -83,6 +209,7 @@ export enum PacketStatus {
   IN_TRANSIT = 'in_transit',
   DELIVERED = 'delivered',
   DROPPED = 'dropped',
+  FILTERED = 'filtered', // discarded by L2 filtering, e.g. a flooded copy at the wrong host
   TIMEOUT = 'timeout',
   ERROR = 'error',
 }
@@ -108,6 +235,16 @@ export enum DropReason {
   BUFFER_FULL = 'buffer_full',
   ACCESS_DENIED = 'access_denied',
   LOOP_DETECTED = 'loop_detected',
+  STP_BLOCKED = 'stp_blocked',
+  ARP_FAILED = 'arp_failed',
+  NDP_FAILED = 'ndp_failed', // no neighbor advertisement for an IPv6 next hop
+  DHCP_FAILED = 'dhcp_failed', // no DHCP server leased the source or target an address
+  FIREWALL_DENIED = 'firewall_denied',
+  NAT_FAILED = 'nat_failed', // no inside global address left to translate to
+  DHCP_SNOOPING = 'dhcp_snooping', // server message on an untrusted port, or a spoofed client hardware address
+  ARP_INSPECTION = 'arp_inspection', // ARP that does not match a DHCP snooping binding
+  IP_SOURCE_GUARD = 'ip_source_guard', // source address not bound to the ingress port
+  PORT_SECURITY = 'port_security', // source MAC a secure port may not learn
 }
 
 /**
@@ -119,10 +256,21 @@ export interface TrafficFlow {
   targetDevice: string;
   vlanId?: number;
   protocol: NetworkProtocol;
+  ipVersion?: IpVersion;
   packetsPerSecond: number;
   averagePacketSize: number;
   duration: number; // in seconds
   isActive: boolean;
+  attack?: AttackType; // the source stages an attack instead of sending ordinary traffic
+}
+
+/**
+ * Layer 2 attacks a traffic flow can stage against its target
+ */
+export enum AttackType {
+  ROGUE_DHCP = 'rogue-dhcp', // the source answers the target's DHCP requests, naming itself the default router
+  ARP_SPOOFING = 'arp-spoofing', // the source tells the target that its default gateway is at the source's MAC
+  DHCP_STARVATION = 'dhcp-starvation', // the source floods DISCOVERs for made-up client hardware addresses
 }
 
 /**
@@ -95,5 +95,6 @@ export type VlanConfig = Vlan;
 export enum VtpMode {
   SERVER = 'server',
   CLIENT = 'client',
-  TRANSPARENT = 'transparent'
+  TRANSPARENT = 'transparent',
+  OFF = 'off'
 }
@@ -1,5 +1,14 @@
 import * as d3 from 'd3';
-import { Connection, NetworkDevice, ConnectionType, ConnectionStatus, InterfaceType } from '../../types';
+import {
+  Connection,
+  NetworkDevice,
+  ConnectionType,
+  ConnectionStatus,
+  InterfaceType,
+  InterfaceStatus,
+  LinkAggregationGroup,
+} from '../../types';
+import { isSwitchingDevice } from '../networking/multilayerSwitch';
 
 /**
  * Connection visual configuration
@@ -184,6 +193,54 @@ export const calculateLabelPosition = (
   };
 };
 
+/**
+ * Offsets that spread parallel connections between two devices apart; the bundled
+ * links of an up port-channel share one offset, so they draw as a single line
+ */
+const calculateConnectionOffsets = (
+  connections: Connection[],
+  linkAggregationGroups: LinkAggregationGroup[] = []
+): Map<string, number> => {
+  const bundleOf = new Map<string, string>();
+  linkAggregationGroups
+    .filter(group => group.status === ConnectionStatus.UP)
+    .forEach(group => group.members
+      .filter(member => member.state === 'bundled')
+      .forEach(member => bundleOf.set(member.connectionId, group.id)));
+
+  // Each pair of devices gets one slot per stand-alone connection and one per port-channel
+  const slots = new Map<string, string[]>();
+  connections.forEach(conn => {
+    const key = [conn.sourceDevice, conn.targetDevice].sort().join('-');
+    const slot = bundleOf.get(conn.id) ?? conn.id;
+    const pairSlots = slots.get(key) ?? [];
+    if (!pairSlots.includes(slot)) pairSlots.push(slot);
+    slots.set(key, pairSlots);
+  });
+
+  const offsets = new Map<string, number>();
+  connections.forEach(conn => {
+    const pairSlots = slots.get([conn.sourceDevice, conn.targetDevice].sort().join('-'))!;
+    const index = pairSlots.indexOf(bundleOf.get(conn.id) ?? conn.id);
+    offsets.set(conn.id, (index - (pairSlots.length - 1) / 2) * 20);
+  });
+  return offsets;
+};
+
+/**
+ * Links bundled into an up port-channel, by connection
+ */
+const getBundledLinkCounts = (linkAggregationGroups: LinkAggregationGroup[]): Map<string, number> => {
+  const counts = new Map<string, number>();
+  linkAggregationGroups
+    .filter(group => group.status === ConnectionStatus.UP)
+    .forEach(group => {
+      const bundled = group.members.filter(member => member.state === 'bundled');
+      bundled.forEach(member => counts.set(member.connectionId, bundled.length));
+    });
+  return counts;
+};
+
 /**
  * Render connection lines
  */
@@ -193,7 +250,8 @@ export const renderConnectionLines = (
   devices: NetworkDevice[],
   selectedConnections: string[] = [],
   config: ConnectionVisualConfig = defaultConnectionConfig,
-  onConnectionClick?: (connection: Connection, event: MouseEvent) => void
+  onConnectionClick?: (connection: Connection, event: MouseEvent) => void,
+  linkAggregationGroups: LinkAggregationGroup[] = []
 ): d3.Selection<SVGPathElement, Connection, SVGGElement, unknown> => {
   // Create device lookup map
   const deviceMap = new Map(devices.map(d => [d.id, d]));
@@ -203,28 +261,10 @@ export const renderConnectionLines = (
     deviceMap.has(conn.sourceDevice) && deviceMap.has(conn.targetDevice)
   );
 
-  // Group connections between same devices for offset calculation
-  const connectionGroups = new Map<string, Connection[]>();
-  validConnections.forEach(conn => {
-    const key = [conn.sourceDevice, conn.targetDevice].sort().join('-');
-    if (!connectionGroups.has(key)) {
-      connectionGroups.set(key, []);
-    }
-    connectionGroups.get(key)!.push(conn);
-  });
-
   // Calculate offsets for multiple connections between same devices
-  const connectionOffsets = new Map<string, number>();
-  connectionGroups.forEach((conns, key) => {
-    if (conns.length > 1) {
-      conns.forEach((conn, index) => {
-        const offset = (index - (conns.length - 1) / 2) * 20;
-        connectionOffsets.set(conn.id, offset);
-      });
-    } else {
-      connectionOffsets.set(conns[0].id, 0);
-    }
-  });
+  const connectionOffsets = calculateConnectionOffsets(validConnections, linkAggregationGroups);
+  // A port-channel is drawn thicker for every link it bundles
+  const bundledLinks = getBundledLinkCounts(linkAggregationGroups);
 
   // Bind data to connection paths
   const connectionPaths = container
@@ -261,7 +301,8 @@ export const renderConnectionLines = (
     })
     .attr('stroke-width', (d: Connection) => {
       const isSelected = selectedConnections.includes(d.id);
-      return getConnectionStrokeProperties(d, isSelected, config).strokeWidth;
+      const { strokeWidth } = getConnectionStrokeProperties(d, isSelected, config);
+      return strokeWidth + 2 * ((bundledLinks.get(d.id) ?? 1) - 1);
     })
     .attr('stroke-dasharray', (d: Connection) => {
       const isSelected = selectedConnections.includes(d.id);
@@ -287,7 +328,8 @@ export const renderConnectionLabels = (
   connections: Connection[],
   devices: NetworkDevice[],
   showLabels: boolean = false,
-  config: ConnectionVisualConfig = defaultConnectionConfig
+  config: ConnectionVisualConfig = defaultConnectionConfig,
+  linkAggregationGroups: LinkAggregationGroup[] = []
 ): d3.Selection<SVGTextElement, Connection, SVGGElement, unknown> => {
   if (!showLabels) {
     container.selectAll('.connection-label').remove();
@@ -303,26 +345,13 @@ export const renderConnectionLabels = (
   );
 
   // Calculate offsets (same as connection lines)
-  const connectionGroups = new Map<string, Connection[]>();
-  validConnections.forEach(conn => {
-    const key = [conn.sourceDevice, conn.targetDevice].sort().join('-');
-    if (!connectionGroups.has(key)) {
-      connectionGroups.set(key, []);
-    }
-    connectionGroups.get(key)!.push(conn);
-  });
-
-  const connectionOffsets = new Map<string, number>();
-  connectionGroups.forEach((conns, key) => {
-    if (conns.length > 1) {
-      conns.forEach((conn, index) => {
-        const offset = (index - (conns.length - 1) / 2) * 20;
-        connectionOffsets.set(conn.id, offset);
-      });
-    } else {
-      connectionOffsets.set(conns[0].id, 0);
-    }
-  });
+  const connectionOffsets = calculateConnectionOffsets(validConnections, linkAggregationGroups);
+  const bundles = new Map<string, LinkAggregationGroup>();
+  linkAggregationGroups
+    .filter(group => group.status === ConnectionStatus.UP)
+    .forEach(group => group.members
+      .filter(member => member.state === 'bundled')
+      .forEach(member => bundles.set(member.connectionId, group)));
 
   // Bind data to connection labels
   const connectionLabels = container
@@ -368,7 +397,10 @@ export const renderConnectionLabels = (
       const offset = connectionOffsets.get(d.id) || 0;
       return calculateLabelPosition(sourceDevice, targetDevice, offset).y;
     })
-    .text((d: Connection) => d.name || `${d.bandwidth} Mbps`);
+    .text((d: Connection) => {
+      const bundle = bundles.get(d.id);
+      return bundle ? `${bundle.name} ${bundle.bandwidth} Mbps` : d.name || `${d.bandwidth} Mbps`;
+    });
 
   return allConnectionLabels;
 };
@@ -546,6 +578,84 @@ export const renderConnectionHealthArrows = (
     .attr('opacity', 0.95);
 };
 
+/**
+ * Mark connection endpoints whose port was err-disabled (e.g. by BPDU Guard) with a red cross
+ */
+export const renderErrDisabledMarkers = (
+  container: d3.Selection<SVGGElement, unknown, null, undefined>,
+  connections: Connection[],
+  devices: NetworkDevice[],
+): void => {
+  const deviceMap = new Map(devices.map(d => [d.id, d]));
+
+  type MarkerDatum = {
+    id: string;
+    x: number;
+    y: number;
+    title: string;
+  };
+
+  const markers: MarkerDatum[] = [];
+
+  const errDisabledPort = (dev: NetworkDevice, ref: string) => {
+    if (!isSwitchingDevice(dev)) return undefined;
+    const iface = dev.interfaces.find(i => i.id === ref || i.name === ref);
+    return iface?.status === InterfaceStatus.ERR_DISABLED ? iface : undefined;
+  };
+
+  connections.forEach((conn) => {
+    const src = deviceMap.get(conn.sourceDevice);
+    const dst = deviceMap.get(conn.targetDevice);
+    if (!src || !dst) return;
+    const dx = dst.position.x - src.position.x;
+    const dy = dst.position.y - src.position.y;
+    const len = Math.sqrt(dx*dx + dy*dy) || 1;
+    const ux = dx / len;
+    const uy = dy / len;
+    const along = 78; // beyond the health arrows
+
+    const ends = [
+      { dev: src, ref: conn.sourceInterface, x: src.position.x + ux * along, y: src.position.y + uy * along, end: 'src' },
+      { dev: dst, ref: conn.targetInterface, x: dst.position.x - ux * along, y: dst.position.y - uy * along, end: 'dst' },
+    ];
+    ends.forEach(({ dev, ref, x, y, end }) => {
+      const iface = errDisabledPort(dev, ref);
+      if (!iface) return;
+      markers.push({
+        id: `${conn.id}-${end}-errdisabled`,
+        x,
+        y,
+        title: `${dev.name} ${iface.name} err-disabled (${iface.errDisabled?.cause ?? 'bpduguard'})`,
+      });
+    });
+  });
+
+  const sel = container
+    .selectAll<SVGGElement, MarkerDatum>('.connection-errdisabled-marker')
+    .data(markers, d => d.id);
+
+  sel.exit().remove();
+
+  const enter = sel.enter()
+    .append('g')
+    .attr('class', 'connection-errdisabled-marker')
+    .style('pointer-events', 'all'); // the overlay ignores the pointer; the tooltip needs it
+  enter.append('circle')
+    .attr('r', 9)
+    .attr('fill', '#ef4444')
+    .attr('stroke', '#111827')
+    .attr('stroke-width', 2);
+  enter.append('path')
+    .attr('d', 'M -4 -4 L 4 4 M 4 -4 L -4 4')
+    .attr('stroke', 'white')
+    .attr('stroke-width', 2);
+  enter.append('title');
+
+  const all = enter.merge(sel);
+  all.attr('transform', d => `translate(${d.x}, ${d.y})`);
+  all.select('title').text(d => d.title);
+};
+
 /**
  * Animate packet flow along connection
  */
@@ -56,6 +56,14 @@ export const getDeviceColor = (device: NetworkDevice): {
       fill = '#059669'; // emerald-600
       stroke = '#047857'; // emerald-700
       break;
+    case DeviceType.FIREWALL:
+      fill = '#EA580C'; // orange-600
+      stroke = '#C2410C'; // orange-700
+      break;
+    case DeviceType.MULTILAYER_SWITCH:
+      fill = '#4F46E5'; // indigo-600
+      stroke = '#4338CA'; // indigo-700
+      break;
     default:
       fill = '#6B7280'; // gray-500
       stroke = '#4B5563'; // gray-600
@@ -91,6 +99,10 @@ export const getDeviceIcon = (deviceType: DeviceType): string => {
       return '💻';
     case DeviceType.SERVER:
       return '🖥️';
+    case DeviceType.FIREWALL:
+      return '🧱';
+    case DeviceType.MULTILAYER_SWITCH:
+      return '🔁';
     default:
       return '❓';
   }
@@ -106,7 +118,8 @@ export const renderDeviceNodes = (
   onDeviceClick?: (device: NetworkDevice, event: MouseEvent) => void,
   onDeviceDragStart?: (device: NetworkDevice) => void,
   onDeviceDrag?: (device: NetworkDevice, x: number, y: number) => void,
-  onDeviceDragEnd?: (device: NetworkDevice) => void
+  onDeviceDragEnd?: (device: NetworkDevice) => void,
+  roleBadges?: Map<string, string>
 ): d3.Selection<SVGGElement, NetworkDevice, SVGGElement, unknown> => {
   // Bind data to device groups
   const deviceGroups = container
@@ -167,6 +180,30 @@ export const renderDeviceNodes = (
     .attr('stroke', '#1F2937')
     .attr('stroke-width', 2);
 
+  // Add role badge (e.g. the HSRP active router), shown above the device
+  const newBadges = newDeviceGroups
+    .append('g')
+    .attr('class', 'device-role-badge')
+    .style('pointer-events', 'none');
+  newBadges
+    .append('rect')
+    .attr('height', 16)
+    .attr('y', -config.height / 2 - 22)
+    .attr('rx', 8)
+    .attr('ry', 8)
+    .attr('fill', '#059669')
+    .attr('stroke', '#1F2937')
+    .attr('stroke-width', 1);
+  newBadges
+    .append('text')
+    .attr('text-anchor', 'middle')
+    .attr('dominant-baseline', 'central')
+    .attr('y', -config.height / 2 - 14)
+    .attr('font-size', '10px')
+    .attr('font-weight', 'bold')
+    .attr('fill', 'white')
+    .style('user-select', 'none');
+
   // Merge new and existing groups
   const allDeviceGroups = newDeviceGroups.merge(deviceGroups);
 
@@ -195,6 +232,18 @@ export const renderDeviceNodes = (
     .select('.device-status')
     .attr('fill', (d: NetworkDevice) => getDeviceColor(d).statusColor);
 
+  // Update role badges; the pill is sized to its text
+  const badges = allDeviceGroups
+    .select('.device-role-badge')
+    .style('display', (d: NetworkDevice) => (roleBadges?.has(d.id) ? null : 'none'));
+  badges
+    .select('text')
+    .text((d: NetworkDevice) => roleBadges?.get(d.id) ?? '');
+  badges
+    .select('rect')
+    .attr('width', (d: NetworkDevice) => (roleBadges?.get(d.id)?.length ?? 0) * 6 + 12)
+    .attr('x', (d: NetworkDevice) => -((roleBadges?.get(d.id)?.length ?? 0) * 6 + 12) / 2);
+
   // Add click handlers
   if (onDeviceClick) {
     allDeviceGroups.on('click', function(event: MouseEvent, d: NetworkDevice) {
@@ -0,0 +1,218 @@
+import {
+  AccessListConfig,
+  AccessListEntry,
+  AccessListType,
+  NetworkDevice,
+  DeviceType,
+  RouterDevice,
+  SwitchingDevice,
+  FirewallDevice,
+} from '../../types';
+import { SubnetCalculator } from '../routing/routingEngine';
+import { AccessControlList, AclDirection, describeAclEntry, IP_PROTOCOL_NUMBERS } from './packetProcessingEngine';
+import { isIpAddress, isWildcardMask } from './iosSyntax';
+
+/**
+ * Gap IOS leaves between the sequence numbers of entries added without one
+ */
+export const ACL_SEQUENCE_STEP = 10;
+
+/**
+ * Port names IOS accepts in place of a number
+ */
+const ACL_PORT_NAMES: Record<string, number> = {
+  ftp: 21,
+  ssh: 22,
+  telnet: 23,
+  smtp: 25,
+  domain: 53,
+  bootps: 67,
+  bootpc: 68,
+  tftp: 69,
+  www: 80,
+  pop3: 110,
+  ntp: 123,
+  snmp: 161,
+  https: 443,
+};
+
+type AclPort = NonNullable<AccessListEntry['srcPort']>;
+
+/**
+ * Whether an ACL name is a number, as the lists of access-list are
+ */
+export const isNumberedAcl = (name: string): boolean => /^\d+$/.test(name);
+
+/**
+ * Type of a numbered ACL: 1-99 and 1300-1999 are standard, 100-199 and 2000-2699 extended.
+ * Undefined for a number outside those ranges.
+ */
+export const getNumberedAclType = (name: string): AccessListType | undefined => {
+  if (!isNumberedAcl(name)) return undefined;
+  const n = Number(name);
+  if ((n >= 1 && n <= 99) || (n >= 1300 && n <= 1999)) return 'standard';
+  if ((n >= 100 && n <= 199) || (n >= 2000 && n <= 2699)) return 'extended';
+  return undefined;
+};
+
+/**
+ * Devices that define ACLs and apply them to their interfaces
+ */
+export type AclDevice = RouterDevice | SwitchingDevice | FirewallDevice;
+
+const ACL_DEVICE_TYPES = [DeviceType.ROUTER, DeviceType.SWITCH, DeviceType.MULTILAYER_SWITCH, DeviceType.FIREWALL];
+
+export const supportsAccessLists = (device: NetworkDevice | undefined): device is AclDevice =>
+  !!device && ACL_DEVICE_TYPES.includes(device.type);
+
+/**
+ * ACLs of a device; routers, switches and firewalls have them
+ */
+export const getAccessLists = (device: NetworkDevice | undefined): AccessListConfig[] =>
+  supportsAccessLists(device) ? device.accessLists ?? [] : [];
+
+export const findAccessList = (device: NetworkDevice | undefined, name: string): AccessListConfig | undefined =>
+  getAccessLists(device).find(acl => acl.name === name);
+
+/**
+ * ACL applied to an interface in one direction (ip access-group). Undefined when none is,
+ * or when the ACL applied is not defined, in which case IOS passes all traffic.
+ */
+export const getAppliedAccessList = (
+  device: NetworkDevice,
+  interfaceName: string,
+  direction: AclDirection
+): AccessListConfig | undefined => {
+  if (!supportsAccessLists(device)) return undefined;
+  const name = device.interfaces.find(i => i.name === interfaceName)?.accessGroups?.[direction];
+  return name ? findAccessList(device, name) : undefined;
+};
+
+/**
+ * A device ACL in the form the packet processing engine evaluates, counting hits in hitCounts
+ */
+export const toAccessControlList = (acl: AccessListConfig, hitCounts: Map<string, number> = new Map()): AccessControlList => ({
+  name: acl.name,
+  type: acl.type,
+  entries: acl.entries.map(entry => ({ ...entry, id: `${acl.name}-${entry.sequenceNumber}` })),
+  hitCounts,
+});
+
+/**
+ * Match part of an entry as IOS prints it after permit or deny, e.g. "tcp any host 10.0.0.1 eq 80"
+ */
+export const formatAclEntry = (entry: AccessListEntry, type: AccessListType): string =>
+  describeAclEntry({ ...entry, id: '' }, type).split(' ').slice(2).join(' ');
+
+/**
+ * any, host <address> or <address> <wildcard> starting at words[index]
+ */
+const parseAclAddress = (words: string[], index: number): { network?: string; next: number } | string => {
+  const word = words[index]?.toLowerCase();
+  if (word === undefined) return 'Incomplete command: address expected';
+  if (word === 'any') return { next: index + 1 };
+  if (word === 'host') {
+    if (!isIpAddress(words[index + 1] ?? '')) return `Invalid host address "${words[index + 1] ?? ''}"`;
+    return { network: `${words[index + 1]}/32`, next: index + 2 };
+  }
+  if (!isIpAddress(words[index])) return `Invalid address "${words[index]}"`;
+
+  // A standard entry may leave out the wildcard of a host address
+  const wildcard = words[index + 1];
+  if (wildcard === undefined || !isIpAddress(wildcard)) return { network: `${words[index]}/32`, next: index + 1 };
+  if (!isWildcardMask(wildcard)) return `Invalid wildcard mask "${wildcard}"`;
+  const mask = wildcard.split('.').map(octet => String(255 - Number(octet))).join('.');
+  const prefixLength = SubnetCalculator.maskToPrefix(mask);
+  return { network: `${SubnetCalculator.getNetworkAddress(words[index], mask)}/${prefixLength}`, next: index + 2 };
+};
+
+const parseAclPortNumber = (word: string | undefined): number | undefined => {
+  if (word === undefined) return undefined;
+  const port = ACL_PORT_NAMES[word.toLowerCase()] ?? (/^\d+$/.test(word) ? Number(word) : NaN);
+  return port >= 0 && port <= 65535 ? port : undefined;
+};
+
+/**
+ * Optional eq, gt, lt or range port match starting at words[index]
+ */
+const parseAclPort = (words: string[], index: number): { port?: AclPort; next: number } | string => {
+  const operator = words[index]?.toLowerCase();
+  if (operator !== 'eq' && operator !== 'gt' && operator !== 'lt' && operator !== 'range') return { next: index };
+
+  const first = parseAclPortNumber(words[index + 1]);
+  if (first === undefined) return `Invalid port "${words[index + 1] ?? ''}"`;
+  if (operator === 'eq') return { port: first, next: index + 2 };
+  if (operator === 'gt') return first < 65535 ? { port: { min: first + 1, max: 65535 }, next: index + 2 } : `No port is greater than ${first}`;
+  if (operator === 'lt') return first > 0 ? { port: { min: 0, max: first - 1 }, next: index + 2 } : 'No port is less than 0';
+
+  const last = parseAclPortNumber(words[index + 2]);
+  if (last === undefined) return `Invalid port "${words[index + 2] ?? ''}"`;
+  if (last < first) return `Port range ${first} ${last} ends before it starts`;
+  return { port: first === last ? first : { min: first, max: last }, next: index + 3 };
+};
+
+/**
+ * Parse what follows permit or deny in an ACL entry. Standard entries take a source
+ * address; extended entries take a protocol, a source and a destination, with ports for
+ * tcp and udp. Returns an error message when the words do not form an entry.
+ */
+export const parseAclEntry = (
+  type: AccessListType,
+  action: AccessListEntry['action'],
+  words: string[]
+): Omit<AccessListEntry, 'sequenceNumber'> | string => {
+  const entry: Omit<AccessListEntry, 'sequenceNumber'> = { action };
+  let index = 0;
+
+  if (type === 'extended') {
+    const protocol = words[0]?.toLowerCase();
+    if (protocol === undefined) return 'Incomplete command: protocol expected';
+    const number = /^\d+$/.test(protocol) ? Number(protocol) : undefined;
+    if (protocol !== 'ip' && !(protocol in IP_PROTOCOL_NUMBERS) && !(number !== undefined && number <= 255)) {
+      return `Unknown protocol "${words[0]}"`;
+    }
+    entry.protocol = protocol;
+    index = 1;
+  }
+
+  const source = parseAclAddress(words, index);
+  if (typeof source === 'string') return source;
+  entry.srcNetwork = source.network;
+  index = source.next;
+
+  if (type === 'extended') {
+    const hasPorts = entry.protocol === 'tcp' || entry.protocol === 'udp';
+    const sourcePort = hasPorts ? parseAclPort(words, index) : { next: index };
+    if (typeof sourcePort === 'string') return sourcePort;
+    entry.srcPort = sourcePort.port;
+    index = sourcePort.next;
+
+    const destination = parseAclAddress(words, index);
+    if (typeof destination === 'string') return destination;
+    entry.dstNetwork = destination.network;
+    index = destination.next;
+
+    const destinationPort = hasPorts ? parseAclPort(words, index) : { next: index };
+    if (typeof destinationPort === 'string') return destinationPort;
+    entry.dstPort = destinationPort.port;
+    index = destinationPort.next;
+
+    if (entry.protocol === 'tcp' && words[index]?.toLowerCase() === 'established') {
+      entry.established = true;
+      index++;
+    }
+  }
+
+  if (words[index]?.toLowerCase() === 'log') {
+    entry.logMatches = true;
+    index++;
+  }
+  if (index < words.length) return `Invalid input "${words.slice(index).join(' ')}"`;
+  return entry;
+};
+
+/**
+ * Sequence number of an entry added to the end of an ACL
+ */
+export const nextAclSequence = (acl: AccessListConfig | undefined): number =>
+  Math.max(0, ...(acl?.entries.map(e => e.sequenceNumber) ?? [])) + ACL_SEQUENCE_STEP;
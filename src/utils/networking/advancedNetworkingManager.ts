@@ -1,7 +1,7 @@
 import { Device, DeviceType, Connection, VtpMode } from '../../types';
 import { arpEngine, ArpEntry, MacEntry, ArpPacket } from './arpEngine';
 import { advancedVlanEngine, VtpConfig, ExtendedVlanConfig, TrunkPortConfig } from './advancedVlanEngine';
-import { packetProcessingEngine, Packet, ProcessingCapabilities, TrafficShaperConfig, AccessControlList } from './packetProcessingEngine';
+import { packetProcessingEngine, Packet, ProcessingCapabilities, TrafficShaperConfig } from './packetProcessingEngine';
 // Import available modules
 import { ipAddressManager } from './ipAddressManager';
 import { TroubleshootingTools } from './troubleshootingTools';
@@ -362,24 +362,6 @@ export class AdvancedNetworkingManager {
     return success;
   }
 
-  /**
-   * Configure Access Control Lists
-   */
-  configureAcl(deviceId: string, acl: AccessControlList): boolean {
-    const success = packetProcessingEngine.configureAcl(deviceId, acl);
-    
-    if (success) {
-      this.logEvent(
-        NetworkEventType.ROUTE_UPDATE,
-        deviceId,
-        `ACL ${acl.name} configured`,
-        { aclName: acl.name, entries: acl.entries.length }
-      );
-    }
-    
-    return success;
-  }
-
   /**
    * Get comprehensive network statistics
    */
@@ -0,0 +1,2294 @@
+import {
+  NetworkDevice,
+  RouterDevice,
+  SwitchDevice,
+  MultilayerSwitchDevice,
+  PcDevice,
+  ServerDevice,
+  DeviceType,
+  NetworkInterface,
+  Connection,
+  Vlan,
+  OspfInterfaceConfig,
+  SnoopingPortConfig,
+  ErrDisableCause,
+  PortSecurityViolationMode,
+  ChannelGroupMode,
+  EtherChannelLoadBalance,
+  FhrpProtocol,
+  VtpMode,
+  AccessListEntry,
+  AccessListType,
+} from '../../types';
+import { NetworkConfigurationManager, ConfigResult } from './networkConfiguration';
+import { NetworkTroubleshootingTools } from './troubleshootingTools';
+import { SimulationEngine } from '../simulation/simulationEngine';
+import { RoutingEngine } from '../routing/routingEngine';
+import { isIpAddress, isIpv6Address, isIpv6Prefix, isMacAddress, isVlanList, parseVlanList, resolveInterfaceName } from './iosSyntax';
+import { parseSubinterfaceName } from './subinterfaces';
+import { parseSviName, isSwitchingDevice } from './multilayerSwitch';
+import { natEngine } from './natEngine';
+import { dhcpEngine, DHCP_INFINITE_LEASE } from './dhcpEngine';
+import { dhcpSnoopingEngine } from './dhcpSnooping';
+import { portSecurityEngine } from './portSecurity';
+import { vtpEngine } from './vtp';
+import { getSwitchportMode, isDynamicMode } from './dynamicTrunking';
+import { getNumberedAclType, parseAclEntry } from './accessLists';
+import { AclDirection } from './packetProcessingEngine';
+import { IPv6AddressUtils } from './ipAddressManager';
+import { ERRDISABLE_DEFAULT_RECOVERY_INTERVAL, SpanningTreeEngine } from './spanningTreeProtocol';
+
+/**
+ * IOS command modes
+ */
+export enum CliMode {
+  USER_EXEC = 'user_exec',
+  PRIVILEGED_EXEC = 'privileged_exec',
+  GLOBAL_CONFIG = 'global_config',
+  INTERFACE_CONFIG = 'interface_config',
+  VLAN_CONFIG = 'vlan_config',
+  ROUTER_CONFIG = 'router_config',
+  MST_CONFIG = 'mst_config',
+  DHCP_CONFIG = 'dhcp_config',
+  ACL_CONFIG = 'acl_config',
+}
+
+/**
+ * Slice of the application store a CLI session reads from and writes to
+ */
+export interface CliStoreState {
+  devices: NetworkDevice[];
+  connections: Connection[];
+  vlans: Vlan[];
+  simulationEngine?: SimulationEngine;
+  spanningTreeEngine?: SpanningTreeEngine;
+  routingEngine?: RoutingEngine;
+  updateDevice: (deviceId: string, updates: Partial<NetworkDevice>) => void;
+  addVlan: (vlan: Vlan) => void;
+  updateVlan: (vlanId: number, updates: Partial<Vlan>) => void;
+  removeVlan: (vlanId: number) => void;
+}
+
+/**
+ * Result of a line entered at the terminal
+ */
+export interface CliResponse {
+  output: string;
+  prompt: string;
+  mode: CliMode;
+}
+
+/**
+ * Single token of a command definition: either a keyword or a parameter
+ */
+interface CliToken {
+  keyword?: string;
+  param?: string;
+  help: string;
+  validate?: (value: string) => boolean;
+  rest?: boolean; // parameter consumes the remainder of the line
+}
+
+/**
+ * Command definition for the parser
+ */
+interface CliCommand {
+  modes: CliMode[];
+  tokens: CliToken[];
+  deviceTypes?: DeviceType[];
+  routerProtocol?: 'ospf' | 'rip' | 'bgp'; // router configuration commands of one protocol
+  run: (args: string[]) => string;
+}
+
+/**
+ * Outcome of matching input words against the command table
+ */
+interface CliMatch {
+  candidates: CliCommand[];
+  errorIndex?: number;
+  ambiguous?: boolean;
+}
+
+const EXEC_MODES = [CliMode.USER_EXEC, CliMode.PRIVILEGED_EXEC];
+const CONFIG_MODES = [CliMode.GLOBAL_CONFIG, CliMode.INTERFACE_CONFIG, CliMode.VLAN_CONFIG, CliMode.ROUTER_CONFIG, CliMode.MST_CONFIG, CliMode.DHCP_CONFIG, CliMode.ACL_CONFIG];
+const SUB_CONFIG_MODES = [CliMode.INTERFACE_CONFIG, CliMode.VLAN_CONFIG, CliMode.ROUTER_CONFIG, CliMode.MST_CONFIG, CliMode.DHCP_CONFIG, CliMode.ACL_CONFIG];
+
+const isNumberInRange = (min: number, max: number) => (value: string): boolean => {
+  if (!/^\d+$/.test(value)) return false;
+  const n = Number(value);
+  return n >= min && n <= max;
+};
+
+/**
+ * Whether a device has a command line. Firewalls are configured from the firewall panel;
+ * their zones and zone-pair policies have no commands here.
+ */
+export const hasCli = (device: NetworkDevice): boolean => device.type !== DeviceType.FIREWALL;
+
+/**
+ * Stateful IOS-style command line session bound to a single device.
+ * Every command is applied through NetworkConfigurationManager against a copy of
+ * the store state, and the result is written back to the store immediately.
+ */
+export class CliSession {
+  private deviceId: string;
+  private getState: () => CliStoreState;
+  private configManager: NetworkConfigurationManager;
+  private troubleshootingTools: NetworkTroubleshootingTools;
+  private commands: CliCommand[];
+
+  private mode: CliMode = CliMode.USER_EXEC;
+  private currentInterface?: string;
+  private currentVlan?: number;
+  private currentRouterProtocol?: 'ospf' | 'rip' | 'bgp';
+  private currentDhcpPool?: string;
+  private currentAccessList?: { name: string; type: AccessListType };
+
+  constructor(deviceId: string, getState: () => CliStoreState) {
+    this.deviceId = deviceId;
+    this.getState = getState;
+    this.configManager = new NetworkConfigurationManager();
+    this.troubleshootingTools = new NetworkTroubleshootingTools();
+    this.commands = this.buildCommandTable();
+  }
+
+  /**
+   * Get current command mode
+   */
+  getMode(): CliMode {
+    return this.mode;
+  }
+
+  /**
+   * Get prompt for the current mode, e.g. "SW1(config-if)#"
+   */
+  getPrompt(): string {
+    const device = this.getState().devices.find(d => d.id === this.deviceId);
+    const hostname = device?.name ?? 'Device';
+
+    switch (this.mode) {
+      case CliMode.USER_EXEC: return `${hostname}>`;
+      case CliMode.PRIVILEGED_EXEC: return `${hostname}#`;
+      case CliMode.GLOBAL_CONFIG: return `${hostname}(config)#`;
+      case CliMode.INTERFACE_CONFIG: return `${hostname}(config-if)#`;
+      case CliMode.VLAN_CONFIG: return `${hostname}(config-vlan)#`;
+      case CliMode.ROUTER_CONFIG: return `${hostname}(config-router)#`;
+      case CliMode.MST_CONFIG: return `${hostname}(config-mst)#`;
+      case CliMode.DHCP_CONFIG: return `${hostname}(dhcp-config)#`;
+      case CliMode.ACL_CONFIG: return `${hostname}(config-${this.currentAccessList?.type === 'standard' ? 'std' : 'ext'}-nacl)#`;
+      default: return `${hostname}>`;
+    }
+  }
+
+  /**
+   * Execute a line entered at the prompt
+   */
+  execute(line: string): CliResponse {
+    const trimmed = line.trim();
+    if (!trimmed || trimmed.startsWith('!')) {
+      return this.respond('');
+    }
+
+    if (trimmed.endsWith('?')) {
+      return this.respond(this.help(trimmed));
+    }
+
+    const device = this.loadWorkingCopy();
+    if (!device) {
+      return this.respond('% Device no longer exists');
+    }
+    if (!hasCli(device)) {
+      return this.respond(`% ${device.name} has no command line; configure it from the firewall panel`);
+    }
+
+    const output = this.runLine(trimmed, line.indexOf(trimmed));
+    this.commitWorkingCopy();
+    return this.respond(output);
+  }
+
+  /**
+   * Leave any configuration mode (Ctrl+Z)
+   */
+  end(): CliResponse {
+    if (CONFIG_MODES.includes(this.mode)) {
+      this.exitToPrivileged();
+    }
+    return this.respond('');
+  }
+
+  /**
+   * Context-sensitive help for a line ending in "?"
+   */
+  help(line: string): string {
+    const text = line.replace(/\?$/, '');
+    const allWords = this.splitWords(text);
+    const partial = text.length > 0 && !/\s$/.test(text) ? allWords.pop() : undefined;
+    const { mode, words } = this.resolveDoPrefix(allWords);
+
+    const match = this.match(words, mode);
+    if (match.errorIndex !== undefined || match.ambiguous) {
+      return '% Unrecognized command';
+    }
+
+    const index = words.length;
+    if (partial !== undefined) {
+      const keywords = Array.from(new Set(
+        this.keywordsAt(match.candidates, index)
+          .map(t => t.keyword!)
+          .filter(k => k.startsWith(partial.toLowerCase()))
+      ));
+      return keywords.length > 0 ? keywords.join('  ') : '% Unrecognized command';
+    }
+
+    const lines: string[] = [];
+    const seen = new Set<string>();
+    match.candidates.forEach(command => {
+      const token = this.tokenAt(command, index);
+      if (!token || (token.rest && index >= command.tokens.length)) return;
+      const label = token.keyword ?? token.param!;
+      if (seen.has(label)) return;
+      seen.add(label);
+      lines.push(`  ${label.padEnd(22)} ${token.help}`);
+    });
+    if (match.candidates.some(c => this.isComplete(c, index))) {
+      lines.push('  <cr>');
+    }
+
+    return lines.length > 0 ? lines.join('\n') : '% Unrecognized command';
+  }
+
+  /**
+   * Tab completion: expands the last word when it is an unambiguous keyword prefix
+   */
+  complete(line: string): string {
+    if (!line || /\s$/.test(line)) return line;
+
+    const allWords = this.splitWords(line);
+    const partial = allWords.pop()!;
+    const { mode, words } = this.resolveDoPrefix(allWords);
+    const match = this.match(words, mode);
+    if (match.errorIndex !== undefined || match.ambiguous) return line;
+
+    const keywords = Array.from(new Set(
+      this.keywordsAt(match.candidates, words.length)
+        .map(t => t.keyword!)
+        .filter(k => k.startsWith(partial.toLowerCase()))
+    ));
+
+    if (keywords.length !== 1) return line;
+    return `${line.slice(0, line.length - partial.length)}${keywords[0]} `;
+  }
+
+  /**
+   * Parse and run one command line in the current mode
+   */
+  private runLine(line: string, offset: number = 0): string {
+    const words = this.splitWords(line);
+    const { mode, words: effectiveWords, skipped } = this.resolveDoPrefix(words);
+    const match = this.match(effectiveWords, mode);
+
+    if (match.ambiguous) {
+      return `% Ambiguous command:  "${line}"`;
+    }
+
+    if (match.errorIndex !== undefined) {
+      const wordIndex = match.errorIndex + skipped;
+      const position = this.wordOffset(line, wordIndex) + offset + this.getPrompt().length;
+      return `${' '.repeat(position)}^\n% Invalid input detected at '^' marker.`;
+    }
+
+    const complete = match.candidates.filter(c => this.isComplete(c, effectiveWords.length));
+    if (complete.length === 0) {
+      return `% Incomplete command.`;
+    }
+
+    const command = complete[0];
+    const args: string[] = [];
+    for (let i = 0; i < command.tokens.length; i++) {
+      const token = command.tokens[i];
+      if (token.rest) {
+        args.push(effectiveWords.slice(i).join(' '));
+        break;
+      }
+      if (token.param) {
+        args.push(effectiveWords[i]);
+      }
+    }
+
+    return command.run(args);
+  }
+
+  /**
+   * Strip a leading "do" in configuration modes so the rest runs as an EXEC command
+   */
+  private resolveDoPrefix(words: string[]): { mode: CliMode; words: string[]; skipped: number } {
+    if (CONFIG_MODES.includes(this.mode) && words.length > 0 && words[0].toLowerCase() === 'do') {
+      return { mode: CliMode.PRIVILEGED_EXEC, words: words.slice(1), skipped: 1 };
+    }
+    return { mode: this.mode, words, skipped: 0 };
+  }
+
+  /**
+   * Match input words against the commands available in a mode
+   */
+  private match(words: string[], mode: CliMode): CliMatch {
+    const device = this.getState().devices.find(d => d.id === this.deviceId);
+    let candidates = this.commands.filter(c =>
+      c.modes.includes(mode) && (!c.deviceTypes || (device && c.deviceTypes.includes(device.type))) &&
+      (!c.routerProtocol || c.routerProtocol === this.currentRouterProtocol)
+    );
+
+    for (let i = 0; i < words.length; i++) {
+      const word = words[i].toLowerCase();
+
+      const keywordMatches = candidates.filter(c => {
+        const token = this.tokenAt(c, i);
+        return token?.keyword !== undefined && token.keyword.startsWith(word);
+      });
+      const exact = keywordMatches.filter(c => this.tokenAt(c, i)!.keyword === word);
+      const distinct = new Set(keywordMatches.map(c => this.tokenAt(c, i)!.keyword));
+
+      if (exact.length > 0) {
+        candidates = exact;
+      } else if (distinct.size === 1) {
+        candidates = keywordMatches;
+      } else if (distinct.size > 1) {
+        return { candidates: [], ambiguous: true };
+      } else {
+        const paramMatches = candidates.filter(c => {
+          const token = this.tokenAt(c, i);
+          return token?.param !== undefined && (!token.validate || token.rest || token.validate(words[i]));
+        });
+        if (paramMatches.length === 0) {
+          return { candidates: [], errorIndex: i };
+        }
+        candidates = paramMatches;
+      }
+    }
+
+    return { candidates };
+  }
+
+  private tokenAt(command: CliCommand, index: number): CliToken | undefined {
+    if (index < command.tokens.length) return command.tokens[index];
+    const last = command.tokens[command.tokens.length - 1];
+    return last?.rest ? last : undefined;
+  }
+
+  private keywordsAt(commands: CliCommand[], index: number): CliToken[] {
+    return commands
+      .map(c => this.tokenAt(c, index))
+      .filter((t): t is CliToken => t?.keyword !== undefined);
+  }
+
+  private isComplete(command: CliCommand, wordCount: number): boolean {
+    const last = command.tokens[command.tokens.length - 1];
+    return last?.rest ? wordCount >= command.tokens.length : wordCount === command.tokens.length;
+  }
+
+  private splitWords(line: string): string[] {
+    return line.trim().split(/\s+/).filter(Boolean);
+  }
+
+  private wordOffset(line: string, wordIndex: number): number {
+    const regex = /\S+/g;
+    let match: RegExpExecArray | null;
+    let index = 0;
+    while ((match = regex.exec(line)) !== null) {
+      if (index === wordIndex) return match.index;
+      index++;
+    }
+    return line.length;
+  }
+
+  private respond(output: string): CliResponse {
+    return { output, prompt: this.getPrompt(), mode: this.mode };
+  }
+
+  /**
+   * Load a private copy of the store state into the configuration manager
+   */
+  private loadWorkingCopy(): NetworkDevice | undefined {
+    const state = this.getState();
+    this.configManager.loadState(
+      structuredClone(state.devices),
+      structuredClone(state.vlans),
+      structuredClone(state.connections)
+    );
+    return this.configManager.getDevice(this.deviceId);
+  }
+
+  /**
+   * Write changes made by the last command back to the store
+   */
+  private commitWorkingCopy(): void {
+    const state = this.getState();
+
+    const original = state.devices.find(d => d.id === this.deviceId);
+    const updated = this.configManager.getDevice(this.deviceId);
+    if (original && updated && JSON.stringify(original) !== JSON.stringify(updated)) {
+      state.updateDevice(this.deviceId, updated);
+    }
+
+    const updatedVlans = this.configManager.getVlans();
+    updatedVlans.forEach(vlan => {
+      const existing = state.vlans.find(v => v.id === vlan.id);
+      if (!existing) {
+        state.addVlan(vlan);
+      } else if (existing.name !== vlan.name || existing.status !== vlan.status) {
+        state.updateVlan(vlan.id, { name: vlan.name, status: vlan.status, modifiedAt: vlan.modifiedAt });
+      }
+    });
+    state.vlans
+      .filter(v => !updatedVlans.some(u => u.id === v.id))
+      .forEach(v => state.removeVlan(v.id));
+  }
+
+  private getWorkingDevice(): NetworkDevice | undefined {
+    return this.configManager.getDevice(this.deviceId);
+  }
+
+  private getWorkingInterfaces(): NetworkInterface[] {
+    const device = this.getWorkingDevice();
+    if (!device) return [];
+    switch (device.type) {
+      case DeviceType.PC:
+        return [(device as PcDevice).interface];
+      case DeviceType.SERVER:
+        return (device as ServerDevice).interfaces;
+      case DeviceType.ROUTER:
+        return (device as RouterDevice).interfaces;
+      case DeviceType.SWITCH:
+        return (device as SwitchDevice).interfaces;
+      case DeviceType.MULTILAYER_SWITCH:
+        return (device as MultilayerSwitchDevice).interfaces;
+      default:
+        return [];
+    }
+  }
+
+  /**
+   * Format a configuration result the way IOS reports problems: silent on success
+   */
+  private report(result: ConfigResult): string {
+    if (!result.success) {
+      return `% ${result.message}`;
+    }
+    return (result.warnings || []).map(w => `% Warning: ${w}`).join('\n');
+  }
+
+  private exitToPrivileged(): void {
+    this.mode = CliMode.PRIVILEGED_EXEC;
+    this.currentInterface = undefined;
+    this.currentVlan = undefined;
+    this.currentRouterProtocol = undefined;
+    this.currentDhcpPool = undefined;
+    this.currentAccessList = undefined;
+  }
+
+  private exitMode(): string {
+    switch (this.mode) {
+      case CliMode.INTERFACE_CONFIG:
+      case CliMode.VLAN_CONFIG:
+      case CliMode.ROUTER_CONFIG:
+      case CliMode.MST_CONFIG:
+      case CliMode.DHCP_CONFIG:
+      case CliMode.ACL_CONFIG:
+        this.mode = CliMode.GLOBAL_CONFIG;
+        this.currentInterface = undefined;
+        this.currentVlan = undefined;
+        this.currentRouterProtocol = undefined;
+        this.currentDhcpPool = undefined;
+        this.currentAccessList = undefined;
+        return '';
+      case CliMode.GLOBAL_CONFIG:
+        this.exitToPrivileged();
+        return '';
+      default:
+        this.mode = CliMode.USER_EXEC;
+        return `\n${this.getWorkingDevice()?.name ?? 'Device'} con0 is now available\n\nPress RETURN to get started.`;
+    }
+  }
+
+  /**
+   * Run a show command through the troubleshooting tools against the working copy
+   */
+  private show(command: string): string {
+    const state = this.getState();
+    this.troubleshootingTools.initialize(
+      state.devices,
+      state.connections,
+      state.vlans,
+      this.configManager.getIPManager(),
+      // Neighbors and dynamic routes live in the engine the simulation advances
+      state.routingEngine ?? this.configManager.getRoutingEngine(),
+      state.spanningTreeEngine,
+      state.simulationEngine
+    );
+    return this.troubleshootingTools.executeShowCommand(this.deviceId, command).output;
+  }
+
+  /**
+   * Build the command table for all modes
+   */
+  private buildCommandTable(): CliCommand[] {
+    const kw = (keyword: string, help: string): CliToken => ({ keyword, help });
+    const ip = (help: string): CliToken => ({ param: 'A.B.C.D', help, validate: isIpAddress });
+    const ipv6 = (help: string): CliToken => ({ param: 'X:X:X:X::X', help, validate: isIpv6Address });
+    const ipv6Prefix = (help: string): CliToken => ({ param: 'X:X:X:X::X/<0-128>', help, validate: isIpv6Prefix });
+    const vlanId = (help: string): CliToken => ({ param: '<1-4094>', help, validate: isNumberInRange(1, 4094) });
+    const word = (help: string): CliToken => ({ param: 'WORD', help });
+    const line = (help: string): CliToken => ({ param: 'LINE', help, rest: true });
+    const seconds = (help: string): CliToken => ({ param: '<0-4294967295>', help, validate: isNumberInRange(0, 4294967295) });
+    const asNumber = (help: string): CliToken => ({ param: '<1-4294967295>', help, validate: isNumberInRange(1, 4294967295) });
+
+    const natIp = kw('ip', 'Global IP configuration subcommands');
+    const natKeyword = kw('nat', 'NAT configuration commands');
+    const natSource = [natIp, natKeyword, kw('inside', 'Inside address translation'), kw('source', 'Source address translation')];
+    const natList = kw('list', 'Specify access list describing local addresses');
+    const natOverload = kw('overload', 'Overload an address translation');
+
+    const aclActions: Array<{ action: AccessListEntry['action']; help: string }> = [
+      { action: 'deny', help: 'Specify packets to reject' },
+      { action: 'permit', help: 'Specify packets to forward' },
+    ];
+    const aclNumber: CliToken = { param: '<1-2699>', help: 'IP access list number', validate: v => getNumberedAclType(v) !== undefined };
+    const aclSequence: CliToken = { param: '<1-2147483647>', help: 'Sequence Number', validate: isNumberInRange(1, 2147483647) };
+    const aclTypes: Array<{ type: AccessListType; help: string }> = [
+      { type: 'extended', help: 'Extended Access List' },
+      { type: 'standard', help: 'Standard Access List' },
+    ];
+    const namedAcl = [kw('ip', 'Global IP configuration subcommands'), kw('access-list', 'Named access list')];
+    const accessGroup = [kw('ip', 'Interface Internet Protocol config commands'), kw('access-group', 'Specify access control for packets')];
+    const aclDirections: Array<{ direction: AclDirection; help: string }> = [
+      { direction: 'in', help: 'inbound packets' },
+      { direction: 'out', help: 'outbound packets' },
+    ];
+
+    const dhcpIp = kw('ip', 'Global IP configuration subcommands');
+    const dhcpKeyword = kw('dhcp', 'Configure DHCP server and relay parameters');
+    const dhcpExcluded = kw('excluded-address', 'Prevent DHCP from assigning certain addresses');
+    const helperAddress = kw('helper-address', 'Specify a destination address for UDP broadcasts');
+    const dot1q = [kw('encapsulation', 'Set encapsulation type for an interface'), kw('dot1q', 'IEEE 802.1Q Virtual LAN')];
+    const leaseDays: CliToken = { param: '<0-365>', help: 'Days', validate: isNumberInRange(0, 365) };
+    const leaseHours: CliToken = { param: '<0-23>', help: 'Hours', validate: isNumberInRange(0, 23) };
+    const leaseMinutes: CliToken = { param: '<0-59>', help: 'Minutes', validate: isNumberInRange(0, 59) };
+
+    const snooping = [kw('ip', 'Global IP configuration subcommands'), kw('dhcp', 'Configure DHCP server and relay parameters'), kw('snooping', 'DHCP Snooping')];
+    const arpInspection = [kw('ip', 'Global IP configuration subcommands'), kw('arp', 'IP ARP global configuration'), kw('inspection', 'Arp Inspection configuration')];
+    const snoopingVlans: CliToken = { param: 'WORD', help: 'DHCP Snooping vlan first number or vlan range, example: 1,3-5,7,9-11', validate: isVlanList };
+    const inspectionVlans: CliToken = { param: 'WORD', help: 'vlan range, example: 1,3-5,7,9-11', validate: isVlanList };
+    const snoopingPortFeatures: Array<{ tokens: CliToken[]; key: keyof SnoopingPortConfig }> = [
+      { tokens: [kw('ip', 'Interface Internet Protocol config commands'), kw('dhcp', 'Configure DHCP parameters for this interface'), kw('snooping', 'DHCP Snooping configuration'), kw('trust', 'DHCP Snooping trust config')], key: 'dhcpTrust' },
+      { tokens: [kw('ip', 'Interface Internet Protocol config commands'), kw('arp', 'Configure ARP features'), kw('inspection', 'Arp Inspection configuration'), kw('trust', 'Configure Trust state')], key: 'arpTrust' },
+      { tokens: [kw('ip', 'Interface Internet Protocol config commands'), kw('verify', 'verify'), kw('source', 'verify source')], key: 'verifySource' },
+    ];
+
+    const portSecurity = [kw('switchport', 'Set switching mode characteristics'), kw('port-security', 'Security related command')];
+    const secureMacKeyword = kw('mac-address', 'Secure mac address');
+    const stickyKeyword = kw('sticky', 'Configure dynamic secure addresses as sticky');
+    const secureMac: CliToken = { param: 'H.H.H', help: '48 bit mac address', validate: isMacAddress };
+    const secureMacVlan = [kw('vlan', 'Set VLAN ID of the VLAN on which this address is learned'), vlanId('VLAN ID')];
+    const violationModes: Array<{ mode: PortSecurityViolationMode; help: string }> = [
+      { mode: 'protect', help: 'Security violation protect mode' },
+      { mode: 'restrict', help: 'Security violation restrict mode' },
+      { mode: 'shutdown', help: 'Security violation shutdown mode' },
+    ];
+    const agingTypes: Array<{ type: 'absolute' | 'inactivity'; help: string }> = [
+      { type: 'absolute', help: 'Absolute aging (default)' },
+      { type: 'inactivity', help: 'Aging based on inactivity time period' },
+    ];
+
+    const channelGroup = kw('channel-group', 'Etherchannel/port bundling configuration');
+    const channelModes: Array<{ mode: ChannelGroupMode; help: string }> = [
+      { mode: 'active', help: 'Enable LACP unconditionally' },
+      { mode: 'auto', help: 'Enable PAgP only if a PAgP device is detected' },
+      { mode: 'desirable', help: 'Enable PAgP unconditionally' },
+      { mode: 'on', help: 'Enable Etherchannel only' },
+      { mode: 'passive', help: 'Enable LACP only if a LACP device is detected' },
+    ];
+    const loadBalance = [kw('port-channel', 'EtherChannel configuration'), kw('load-balance', 'EtherChannel Load-Balancing Configuration')];
+    const loadBalanceMethods: Array<{ method: EtherChannelLoadBalance; help: string }> = [
+      { method: 'dst-ip', help: 'Dst IP Addr' },
+      { method: 'dst-mac', help: 'Dst Mac Addr' },
+      { method: 'dst-port', help: 'Dst TCP/UDP Port' },
+      { method: 'src-dst-ip', help: 'Src XOR Dst IP Addr' },
+      { method: 'src-dst-mac', help: 'Src XOR Dst Mac Addr' },
+      { method: 'src-dst-port', help: 'Src XOR Dst TCP/UDP Port' },
+      { method: 'src-ip', help: 'Src IP Addr' },
+      { method: 'src-mac', help: 'Src Mac Addr' },
+      { method: 'src-port', help: 'Src TCP/UDP Port' },
+    ];
+
+    const ipv6Interface = kw('ipv6', 'IPv6 interface subcommands');
+    const ipv6AddressKeyword = kw('address', 'Configure IPv6 address on interface');
+    const ipv6Exit: CliToken = { param: 'WORD', help: 'Interface for the route, e.g. Gi0/0', validate: v => !isIpv6Address(v) };
+
+    const standby = kw('standby', 'HSRP interface configuration commands');
+    const hsrpGroup: CliToken = { param: '<0-255>', help: 'group number', validate: isNumberInRange(0, 255) };
+    const vrrp = kw('vrrp', 'VRRP Interface configuration commands');
+    const vrrpGroup: CliToken = { param: '<1-255>', help: 'Group number', validate: isNumberInRange(1, 255) };
+    const fhrpTrack = kw('track', 'Priority tracking');
+    const fhrpTrackInterface = word('Interface to track, e.g. Gi0/1');
+    const fhrpDecrement: CliToken[] = [kw('decrement', 'Priority decrement'), { param: '<1-255>', help: 'Decrement value', validate: isNumberInRange(1, 255) }];
+
+    const switchOnly = [DeviceType.SWITCH, DeviceType.MULTILAYER_SWITCH];
+    const routerOnly = [DeviceType.ROUTER];
+    const multilayerOnly = [DeviceType.MULTILAYER_SWITCH];
+    const staticRouting = [DeviceType.ROUTER, DeviceType.MULTILAYER_SWITCH];
+    const fhrpDevices = [DeviceType.ROUTER, DeviceType.MULTILAYER_SWITCH];
+    const dhcpServers = [DeviceType.ROUTER, DeviceType.SERVER];
+    const aclDevices = [DeviceType.ROUTER, DeviceType.SWITCH, DeviceType.MULTILAYER_SWITCH];
+    const allExec = EXEC_MODES;
+    const privileged = [CliMode.PRIVILEGED_EXEC];
+
+    const showCommands: Array<{ tokens: CliToken[]; command: (args: string[]) => string; modes: CliMode[] }> = [
+      { tokens: [kw('running-config', 'Current operating configuration')], command: () => 'show running-config', modes: privileged },
+      { tokens: [kw('version', 'System hardware and software status')], command: () => 'show version', modes: allExec },
+      { tokens: [kw('interfaces', 'Interface status and configuration')], command: () => 'show interfaces', modes: allExec },
+      { tokens: [kw('interfaces', 'Interface status and configuration'), word('Interface name')], command: args => `show interface ${args[0]}`, modes: allExec },
+      { tokens: [kw('interfaces', 'Interface status and configuration'), kw('status', 'Show interface line status'), kw('err-disabled', 'Show interfaces in err-disabled state')], command: () => 'show interfaces status err-disabled', modes: allExec },
+      { tokens: [kw('interfaces', 'Interface status and configuration'), kw('switchport', 'Show interface switchport information')], command: () => 'show interfaces switchport', modes: allExec },
+      { tokens: [kw('interfaces', 'Interface status and configuration'), word('Interface name'), kw('switchport', 'Show interface switchport information')], command: args => `show interfaces switchport ${args[0]}`, modes: allExec },
+      { tokens: [kw('errdisable', 'Error disable'), kw('recovery', 'Error disable recovery')], command: () => 'show errdisable recovery', modes: allExec },
+      { tokens: [kw('ip', 'IP information'), kw('interface', 'IP interface status and configuration'), kw('brief', 'Brief summary of IP status and configuration')], command: () => 'show ip int brief', modes: allExec },
+      { tokens: [kw('ip', 'IP information'), kw('route', 'IP routing table')], command: () => 'show ip route', modes: allExec },
+      { tokens: [kw('ip', 'IP information'), kw('rip', 'IP RIP show commands'), kw('database', 'IP RIP database')], command: () => 'show ip rip database', modes: allExec },
+      { tokens: [kw('ip', 'IP information'), kw('bgp', 'BGP information')], command: () => 'show ip bgp', modes: allExec },
+      { tokens: [kw('ip', 'IP information'), kw('bgp', 'BGP information'), kw('summary', 'Summary of BGP neighbor status')], command: () => 'show ip bgp summary', modes: allExec },
+      { tokens: [kw('ip', 'IP information'), kw('ospf', 'OSPF information'), kw('neighbor', 'Neighbor list')], command: () => 'show ip ospf neighbor', modes: allExec },
+      { tokens: [kw('ip', 'IP information'), kw('ospf', 'OSPF information'), kw('database', 'Database summary')], command: () => 'show ip ospf database', modes: allExec },
+      { tokens: [kw('ip', 'IP information'), kw('nat', 'IP NAT information'), kw('translations', 'Translation entries')], command: () => 'show ip nat translations', modes: allExec },
+      { tokens: [kw('ip', 'IP information'), kw('dhcp', 'Show items in the DHCP database'), kw('binding', 'DHCP address bindings')], command: () => 'show dhcp binding', modes: allExec },
+      { tokens: [kw('ip', 'IP information'), kw('dhcp', 'Show items in the DHCP database'), kw('pool', 'DHCP pools information')], command: () => 'show dhcp pool', modes: allExec },
+      { tokens: [kw('ip', 'IP information'), kw('dhcp', 'Show items in the DHCP database'), kw('conflict', 'DHCP address conflicts')], command: () => 'show dhcp conflict', modes: allExec },
+      { tokens: [kw('dhcp', 'Dynamic Host Configuration Protocol status'), kw('lease', 'Show DHCP Addresses leased from a server')], command: () => 'show dhcp lease', modes: allExec },
+      { tokens: [kw('ip', 'IP information'), kw('dhcp', 'Show items in the DHCP database'), kw('snooping', 'DHCP snooping')], command: () => 'show ip dhcp snooping', modes: allExec },
+      { tokens: [kw('ip', 'IP information'), kw('dhcp', 'Show items in the DHCP database'), kw('snooping', 'DHCP snooping'), kw('binding', 'DHCP snooping binding')], command: () => 'show ip dhcp snooping binding', modes: allExec },
+      { tokens: [kw('ip', 'IP information'), kw('arp', 'IP ARP table'), kw('inspection', 'Show ARP Inspection configuration')], command: () => 'show ip arp inspection', modes: allExec },
+      { tokens: [kw('ip', 'IP information'), kw('verify', 'verify'), kw('source', 'verify source')], command: () => 'show ip verify source', modes: allExec },
+      { tokens: [kw('port-security', 'Show secure port information')], command: () => 'show port-security', modes: allExec },
+      { tokens: [kw('port-security', 'Show secure port information'), kw('address', 'Show secure address')], command: () => 'show port-security address', modes: allExec },
+      { tokens: [kw('port-security', 'Show secure port information'), kw('interface', 'Show secure interface'), word('Interface name')], command: args => `show port-security interface ${args[0]}`, modes: allExec },
+      { tokens: [kw('etherchannel', 'EtherChannel information'), kw('summary', 'One-line summary per channel-group')], command: () => 'show etherchannel summary', modes: allExec },
+      { tokens: [kw('etherchannel', 'EtherChannel information'), kw('load-balance', 'Load-balance/frame-distribution scheme among ports in port-channel')], command: () => 'show etherchannel load-balance', modes: allExec },
+      { tokens: [kw('standby', 'Hot standby protocol information')], command: () => 'show standby', modes: allExec },
+      { tokens: [kw('standby', 'Hot standby protocol information'), kw('brief', 'Brief output')], command: () => 'show standby brief', modes: allExec },
+      { tokens: [kw('vrrp', 'VRRP information')], command: () => 'show vrrp', modes: allExec },
+      { tokens: [kw('vrrp', 'VRRP information'), kw('brief', 'Brief output')], command: () => 'show vrrp brief', modes: allExec },
+      { tokens: [kw('ipv6', 'IPv6 information'), kw('interface', 'IPv6 interface status and configuration'), kw('brief', 'Brief summary of IPv6 status and configuration')], command: () => 'show ipv6 int brief', modes: allExec },
+      { tokens: [kw('ipv6', 'IPv6 information'), kw('route', 'Show IPv6 route table entries')], command: () => 'show ipv6 route', modes: allExec },
+      { tokens: [kw('ipv6', 'IPv6 information'), kw('neighbors', 'Show IPv6 neighbor cache entries')], command: () => 'show ipv6 neighbors', modes: allExec },
+      { tokens: [kw('vlan', 'VTP VLAN status')], command: () => 'show vlan', modes: allExec },
+      { tokens: [kw('vlans', 'Virtual LANs Information')], command: () => 'show vlans', modes: allExec },
+      { tokens: [kw('vlan', 'VTP VLAN status'), kw('brief', 'VTP all VLAN status in brief')], command: () => 'show vlan brief', modes: allExec },
+      { tokens: [kw('vlan', 'VTP VLAN status'), kw('id', 'VTP VLAN status by VLAN id'), vlanId('VLAN id')], command: args => `show vlan ${args[0]}`, modes: allExec },
+      { tokens: [kw('vtp', 'VTP information'), kw('status', 'VTP domain status')], command: () => 'show vtp status', modes: allExec },
+      { tokens: [kw('vtp', 'VTP information'), kw('counters', 'VTP statistics')], command: () => 'show vtp counters', modes: allExec },
+      { tokens: [kw('vtp', 'VTP information'), kw('password', 'VTP password')], command: () => 'show vtp password', modes: allExec },
+      { tokens: [kw('mac', 'MAC configuration'), kw('address-table', 'MAC forwarding table')], command: () => 'show mac address-table', modes: allExec },
+      { tokens: [kw('arp', 'ARP table')], command: () => 'show arp', modes: allExec },
+      { tokens: [kw('spanning-tree', 'Spanning tree topology')], command: () => 'show spanning-tree', modes: allExec },
+      { tokens: [kw('cdp', 'CDP information'), kw('neighbors', 'CDP neighbor entries')], command: () => 'show cdp neighbors', modes: allExec },
+      { tokens: [kw('inventory', 'Show the physical inventory')], command: () => 'show inventory', modes: allExec },
+      { tokens: [kw('processes', 'Active process statistics')], command: () => 'show processes', modes: allExec },
+      { tokens: [kw('memory', 'Memory statistics')], command: () => 'show memory', modes: allExec },
+    ];
+
+    const errdisableCauses: Array<{ cause: ErrDisableCause; help: string }> = [
+      { cause: 'bpduguard', help: 'Enable timer to recover from BPDU Guard error' },
+      { cause: 'psecure-violation', help: 'Enable timer to recover from psecure violation error' },
+    ];
+
+    const bpduFeatures: Array<{ keyword: string; help: string; key: 'bpduGuard' | 'bpduFilter' }> = [
+      { keyword: 'bpduguard', help: 'Don\'t accept BPDUs on this interface', key: 'bpduGuard' },
+      { keyword: 'bpdufilter', help: 'Don\'t send or receive BPDUs on this interface', key: 'bpduFilter' },
+    ];
+
+    const ospfInterfaceSettings: Array<{ keyword: string; help: string; param: CliToken; key: keyof OspfInterfaceConfig }> = [
+      { keyword: 'cost', help: 'Interface cost', param: { param: '<1-65535>', help: 'Cost', validate: isNumberInRange(1, 65535) }, key: 'cost' },
+      { keyword: 'priority', help: 'Router priority', param: { param: '<0-255>', help: 'Priority', validate: isNumberInRange(0, 255) }, key: 'priority' },
+      { keyword: 'hello-interval', help: 'Time between HELLO packets', param: { param: '<1-65535>', help: 'Seconds', validate: isNumberInRange(1, 65535) }, key: 'helloInterval' },
+      { keyword: 'dead-interval', help: 'Interval after which a neighbor is declared dead', param: { param: '<1-65535>', help: 'Seconds', validate: isNumberInRange(1, 65535) }, key: 'deadInterval' },
+    ];
+
+    const commands: CliCommand[] = showCommands.map(({ tokens, command, modes }) => ({
+      modes,
+      tokens: [kw('show', 'Show running system information'), ...tokens],
+      run: args => this.show(command(args)),
+    }));
+
+    commands.push(
+      // EXEC modes
+      {
+        modes: [CliMode.USER_EXEC],
+        tokens: [kw('enable', 'Turn on privileged commands')],
+        run: () => { this.mode = CliMode.PRIVILEGED_EXEC; return ''; },
+      },
+      {
+        modes: privileged,
+        tokens: [kw('disable', 'Turn off privileged commands')],
+        run: () => { this.mode = CliMode.USER_EXEC; return ''; },
+      },
+      {
+        modes: privileged,
+        tokens: [kw('configure', 'Enter configuration mode'), kw('terminal', 'Configure from the terminal')],
+        run: () => {
+          this.mode = CliMode.GLOBAL_CONFIG;
+          return 'Enter configuration commands, one per line.  End with CNTL/Z.';
+        },
+      },
+      {
+        modes: privileged,
+        tokens: [kw('write', 'Write running configuration to memory'), kw('memory', 'Write to NV memory')],
+        run: () => 'Building configuration...\n[OK]',
+      },
+      {
+        modes: privileged,
+        tokens: [kw('copy', 'Copy from one file to another'), kw('running-config', 'Copy from current system configuration'), kw('startup-config', 'Copy to startup configuration')],
+        run: () => 'Destination filename [startup-config]?\nBuilding configuration...\n[OK]',
+      },
+      {
+        modes: privileged,
+        deviceTypes: routerOnly,
+        tokens: [kw('clear', 'Reset functions'), kw('ip', 'IP'), kw('nat', 'Clear NAT'), kw('translation', 'Clear dynamic translation'), kw('*', 'Delete all dynamic translations')],
+        run: () => { natEngine.clearTranslations(this.deviceId); return ''; },
+      },
+      {
+        modes: privileged,
+        deviceTypes: dhcpServers,
+        tokens: [kw('clear', 'Reset functions'), kw('ip', 'IP'), kw('dhcp', 'Delete items from the DHCP database'), kw('binding', 'DHCP address bindings'), kw('*', 'Clear all automatic bindings')],
+        run: () => { dhcpEngine.clearBindings(this.deviceId); return ''; },
+      },
+      {
+        modes: privileged,
+        deviceTypes: dhcpServers,
+        tokens: [kw('clear', 'Reset functions'), kw('ip', 'IP'), kw('dhcp', 'Delete items from the DHCP database'), kw('conflict', 'DHCP address conflicts'), kw('*', 'Clear all address conflicts')],
+        run: () => { dhcpEngine.clearConflicts(this.deviceId); return ''; },
+      },
+      {
+        modes: privileged,
+        deviceTypes: switchOnly,
+        tokens: [kw('clear', 'Reset functions'), kw('ip', 'IP'), kw('dhcp', 'Delete items from the DHCP database'), kw('snooping', 'DHCP snooping'), kw('binding', 'DHCP snooping binding'), kw('*', 'Clear all DHCP snooping bindings')],
+        run: () => { dhcpSnoopingEngine.clearBindings(this.deviceId); return ''; },
+      },
+      {
+        modes: privileged,
+        deviceTypes: switchOnly,
+        tokens: [kw('clear', 'Reset functions'), kw('port-security', 'Remove secure addresses'), kw('dynamic', 'Clear dynamic secure addresses')],
+        run: () => { portSecurityEngine.clearDynamic(this.deviceId); return ''; },
+      },
+      {
+        modes: privileged,
+        deviceTypes: switchOnly,
+        tokens: [kw('clear', 'Reset functions'), kw('vtp', 'Clear VTP information'), kw('counters', 'Clear VTP statistics')],
+        run: () => { vtpEngine.clearCounters(this.deviceId); return ''; },
+      },
+      {
+        modes: privileged,
+        deviceTypes: switchOnly,
+        tokens: [kw('vtp', 'Configure VLAN database'), kw('primary', 'Become the VTP version 3 primary server')],
+        run: () => this.configureVtp({ primary: true }),
+      },
+      {
+        modes: allExec,
+        tokens: [kw('exit', 'Exit from the EXEC')],
+        run: () => this.exitMode(),
+      },
+      {
+        modes: allExec,
+        tokens: [kw('logout', 'Exit from the EXEC')],
+        run: () => this.exitMode(),
+      },
+
+      // Shared configuration mode commands
+      {
+        modes: CONFIG_MODES,
+        tokens: [kw('do', 'To run exec commands in config mode'), line('Exec command')],
+        run: () => '',
+      },
+      {
+        modes: CONFIG_MODES,
+        tokens: [kw('end', 'Exit from configure mode')],
+        run: () => { this.exitToPrivileged(); return ''; },
+      },
+      {
+        modes: CONFIG_MODES,
+        tokens: [kw('exit', 'Exit from the current mode')],
+        run: () => this.exitMode(),
+      },
+
+      // Global configuration
+      {
+        modes: [CliMode.GLOBAL_CONFIG],
+        tokens: [kw('hostname', 'Set system\'s network name'), word('This system\'s network name')],
+        run: args => this.report(this.configManager.configureHostname(this.deviceId, args[0])),
+      },
+      {
+        modes: [CliMode.GLOBAL_CONFIG, ...SUB_CONFIG_MODES],
+        tokens: [kw('interface', 'Select an interface to configure'), line('Interface name, e.g. Gi0/1')],
+        run: args => {
+          const input = args[0].replace(/\s+/g, '');
+          let name = resolveInterfaceName(input, this.getWorkingInterfaces());
+          // Naming a subinterface of a router port (Gi0/0.10) creates it
+          const subinterface = parseSubinterfaceName(input);
+          const parent = subinterface ? resolveInterfaceName(subinterface.parent, this.getWorkingInterfaces()) : undefined;
+          if (!name && parent && this.getWorkingDevice()?.type === DeviceType.ROUTER) {
+            const result = this.configManager.createSubinterface(this.deviceId, `${parent}.${subinterface!.number}`);
+            if (!result.success) return this.report(result);
+            name = result.data.interface.name;
+          }
+          // So does naming the SVI of a VLAN (vlan 10) on a multilayer switch
+          const sviVlan = parseSviName(input);
+          let output = '';
+          if (!name && sviVlan !== undefined && this.getWorkingDevice()?.type === DeviceType.MULTILAYER_SWITCH) {
+            const result = this.configManager.configureSvi(this.deviceId, sviVlan);
+            output = this.report(result);
+            if (!result.success) return output;
+            name = result.data.interface.name;
+          }
+          if (!name) {
+            return `% Invalid interface ${args[0]}`;
+          }
+          this.mode = CliMode.INTERFACE_CONFIG;
+          this.currentInterface = name;
+          this.currentVlan = undefined;
+          this.currentRouterProtocol = undefined;
+          return output;
+        },
+      },
+      {
+        modes: [CliMode.GLOBAL_CONFIG],
+        deviceTypes: [DeviceType.ROUTER, DeviceType.MULTILAYER_SWITCH],
+        tokens: [kw('no', 'Negate a command or set its defaults'), kw('interface', 'Select an interface to configure'), word('Subinterface name, e.g. Gi0/0.10')],
+        run: args => {
+          const sviVlan = parseSviName(args[0]);
+          if (sviVlan !== undefined && this.getWorkingDevice()?.type === DeviceType.MULTILAYER_SWITCH) {
+            return this.report(this.configManager.removeSvi(this.deviceId, sviVlan));
+          }
+          const name = resolveInterfaceName(args[0], this.getWorkingInterfaces());
+          return this.report(this.configManager.removeSubinterface(this.deviceId, name ?? args[0]));
+        },
+      },
+      {
+        modes: [CliMode.GLOBAL_CONFIG],
+        deviceTypes: multilayerOnly,
+        tokens: [kw('no', 'Negate a command or set its defaults'), kw('interface', 'Select an interface to configure'), kw('vlan', 'Catalyst Vlans'), vlanId('Vlan interface number')],
+        run: args => this.report(this.configManager.removeSvi(this.deviceId, Number(args[0]))),
+      },
+      {
+        modes: [CliMode.GLOBAL_CONFIG],
+        deviceTypes: multilayerOnly,
+        tokens: [kw('ip', 'Global IP configuration subcommands'), kw('routing', 'Enable IP routing')],
+        run: () => this.report(this.configManager.configureIpRouting(this.deviceId, true)),
+      },
+      {
+        modes: [CliMode.GLOBAL_CONFIG],
+        deviceTypes: multilayerOnly,
+        tokens: [kw('no', 'Negate a command or set its defaults'), kw('ip', 'Global IP configuration subcommands'), kw('routing', 'Enable IP routing')],
+        run: () => this.report(this.configManager.configureIpRouting(this.deviceId, false)),
+      },
+      {
+        modes: [CliMode.GLOBAL_CONFIG, ...SUB_CONFIG_MODES],
+        deviceTypes: switchOnly,
+        tokens: [kw('vlan', 'Vlan commands'), vlanId('ISL VLAN IDs 1-1005')],
+        run: args => {
+          const id = Number(args[0]);
+          const existing = this.configManager.getVlans().find(v => v.id === id);
+          const result = this.configManager.configureVlan({ id, name: existing?.name }, this.deviceId);
+          if (!result.success) return this.report(result);
+          this.mode = CliMode.VLAN_CONFIG;
+          this.currentVlan = id;
+          this.currentInterface = undefined;
+          this.currentRouterProtocol = undefined;
+          return '';
+        },
+      },
+      {
+        modes: [CliMode.GLOBAL_CONFIG],
+        deviceTypes: switchOnly,
+        tokens: [kw('no', 'Negate a command or set its defaults'), kw('vlan', 'Vlan commands'), vlanId('ISL VLAN IDs 1-1005')],
+        run: args => this.report(this.configManager.removeVlan(Number(args[0]), this.deviceId)),
+      },
+      ...([
+        [VtpMode.SERVER, 'server', 'Set the device to server mode'],
+        [VtpMode.CLIENT, 'client', 'Set the device to client mode'],
+        [VtpMode.TRANSPARENT, 'transparent', 'Set the device to transparent mode'],
+        [VtpMode.OFF, 'off', 'Set the device to off mode'],
+      ] as const).map(([mode, keyword, help]): CliCommand => ({
+        modes: [CliMode.GLOBAL_CONFIG],
+        deviceTypes: switchOnly,
+        tokens: [kw('vtp', 'Configure global VTP state'), kw('mode', 'Configure VTP device mode'), kw(keyword, help)],
+        run: () => this.configureVtp({ mode }),
+      })),
+      {
+        modes: [CliMode.GLOBAL_CONFIG],
+        deviceTypes: switchOnly,
+        tokens: [kw('no', 'Negate a command or set its defaults'), kw('vtp', 'Configure global VTP state'), kw('mode', 'Configure VTP device mode')],
+        run: () => this.configureVtp({ mode: VtpMode.SERVER }),
+      },
+      {
+        modes: [CliMode.GLOBAL_CONFIG],
+        deviceTypes: switchOnly,
+        tokens: [kw('vtp', 'Configure global VTP state'), kw('domain', 'Set the name of the VTP administrative domain.'), word('The ascii name for the VTP administrative domain.')],
+        run: args => this.configureVtp({ domain: args[0] }),
+      },
+      {
+        modes: [CliMode.GLOBAL_CONFIG],
+        deviceTypes: switchOnly,
+        tokens: [kw('vtp', 'Configure global VTP state'), kw('password', 'Set the password for the VTP administrative domain'), word('The ascii password for the VTP administrative domain.')],
+        run: args => this.configureVtp({ password: args[0] }),
+      },
+      {
+        modes: [CliMode.GLOBAL_CONFIG],
+        deviceTypes: switchOnly,
+        tokens: [kw('no', 'Negate a command or set its defaults'), kw('vtp', 'Configure global VTP state'), kw('password', 'Set the password for the VTP administrative domain')],
+        run: () => this.configureVtp({ password: null }),
+      },
+      {
+        modes: [CliMode.GLOBAL_CONFIG],
+        deviceTypes: switchOnly,
+        tokens: [kw('vtp', 'Configure global VTP state'), kw('version', 'Set the administrative domain VTP version number'), { param: '<1-3>', help: 'Set the administrative domain VTP version number', validate: isNumberInRange(1, 3) }],
+        run: args => this.configureVtp({ version: Number(args[0]) as 1 | 2 | 3 }),
+      },
+      {
+        modes: [CliMode.GLOBAL_CONFIG],
+        deviceTypes: switchOnly,
+        tokens: [kw('no', 'Negate a command or set its defaults'), kw('vtp', 'Configure global VTP state'), kw('version', 'Set the administrative domain VTP version number')],
+        run: () => this.configureVtp({ version: 1 }),
+      },
+      ...([
+        ['pvst', 'Per-Vlan spanning tree mode'],
+        ['rapid-pvst', 'Per-Vlan rapid spanning tree mode'],
+        ['mst', 'Multiple spanning tree mode'],
+      ] as const).map(([mode, help]): CliCommand => ({
+        modes: [CliMode.GLOBAL_CONFIG],
+        deviceTypes: switchOnly,
+        tokens: [kw('spanning-tree', 'Spanning Tree Subsystem'), kw('mode', 'Spanning tree operating mode'), kw(mode, help)],
+        run: () => this.report(this.configManager.configureSpanningTreeMode(this.deviceId, mode)),
+      })),
+      {
+        modes: [CliMode.GLOBAL_CONFIG],
+        deviceTypes: switchOnly,
+        tokens: [kw('no', 'Negate a command or set its defaults'), kw('spanning-tree', 'Spanning Tree Subsystem'), kw('mode', 'Spanning tree operating mode')],
+        run: () => this.report(this.configManager.configureSpanningTreeMode(this.deviceId, 'pvst')),
+      },
+      {
+        modes: [CliMode.GLOBAL_CONFIG],
+        deviceTypes: switchOnly,
+        tokens: [kw('spanning-tree', 'Spanning Tree Subsystem'), kw('vlan', 'VLAN Switch Spanning Tree'), { param: 'WORD', help: 'vlan range, example: 1,3-5,7,9-11', validate: isVlanList }, kw('priority', 'Set the bridge priority for the spanning tree'), { param: '<0-61440>', help: 'bridge priority in increments of 4096', validate: isNumberInRange(0, 61440) }],
+        run: args => this.configureSpanningTreePriority(parseVlanList(args[0]), Number(args[1])),
+      },
+      {
+        modes: [CliMode.GLOBAL_CONFIG],
+        deviceTypes: switchOnly,
+        tokens: [kw('no', 'Negate a command or set its defaults'), kw('spanning-tree', 'Spanning Tree Subsystem'), kw('vlan', 'VLAN Switch Spanning Tree'), { param: 'WORD', help: 'vlan range, example: 1,3-5,7,9-11', validate: isVlanList }, kw('priority', 'Set the bridge priority for the spanning tree')],
+        run: args => this.configureSpanningTreePriority(parseVlanList(args[0])),
+      },
+      {
+        modes: [CliMode.GLOBAL_CONFIG, ...SUB_CONFIG_MODES],
+        deviceTypes: switchOnly,
+        tokens: [kw('spanning-tree', 'Spanning Tree Subsystem'), kw('mst', 'Multiple spanning tree'), kw('configuration', 'Enter MST configuration submode')],
+        run: () => {
+          this.mode = CliMode.MST_CONFIG;
+          this.currentInterface = undefined;
+          this.currentVlan = undefined;
+          this.currentRouterProtocol = undefined;
+          return '';
+        },
+      },
+      {
+        modes: [CliMode.GLOBAL_CONFIG],
+        deviceTypes: switchOnly,
+        tokens: [kw('spanning-tree', 'Spanning Tree Subsystem'), kw('mst', 'Multiple spanning tree'), { param: 'WORD', help: 'MST instance range, example: 0-3,5,7-9', validate: isVlanList }, kw('priority', 'Set the bridge priority for the spanning tree'), { param: '<0-61440>', help: 'bridge priority in increments of 4096', validate: isNumberInRange(0, 61440) }],
+        run: args => this.configureMstPriority(parseVlanList(args[0]), Number(args[1])),
+      },
+      {
+        modes: [CliMode.GLOBAL_CONFIG],
+        deviceTypes: switchOnly,
+        tokens: [kw('no', 'Negate a command or set its defaults'), kw('spanning-tree', 'Spanning Tree Subsystem'), kw('mst', 'Multiple spanning tree'), { param: 'WORD', help: 'MST instance range, example: 0-3,5,7-9', validate: isVlanList }, kw('priority', 'Set the bridge priority for the spanning tree')],
+        run: args => this.configureMstPriority(parseVlanList(args[0])),
+      },
+      ...errdisableCauses.flatMap(({ cause, help }): CliCommand[] => [
+        {
+          modes: [CliMode.GLOBAL_CONFIG],
+          deviceTypes: switchOnly,
+          tokens: [kw('errdisable', 'Error disable'), kw('recovery', 'Error disable recovery'), kw('cause', 'Enable error disable recovery for application'), kw(cause, help)],
+          run: () => this.report(this.configManager.configureErrdisableRecovery(this.deviceId, { cause })),
+        },
+        {
+          modes: [CliMode.GLOBAL_CONFIG],
+          deviceTypes: switchOnly,
+          tokens: [kw('no', 'Negate a command or set its defaults'), kw('errdisable', 'Error disable'), kw('recovery', 'Error disable recovery'), kw('cause', 'Enable error disable recovery for application'), kw(cause, help)],
+          run: () => this.report(this.configManager.configureErrdisableRecovery(this.deviceId, { cause, enabled: false })),
+        },
+      ]),
+      {
+        modes: [CliMode.GLOBAL_CONFIG],
+        deviceTypes: switchOnly,
+        tokens: [kw('errdisable', 'Error disable'), kw('recovery', 'Error disable recovery'), kw('interval', 'Error disable recovery timer value'), { param: '<30-86400>', help: 'timer-interval(sec)', validate: isNumberInRange(30, 86400) }],
+        run: args => this.report(this.configManager.configureErrdisableRecovery(this.deviceId, { interval: Number(args[0]) })),
+      },
+      {
+        modes: [CliMode.GLOBAL_CONFIG],
+        deviceTypes: switchOnly,
+        tokens: [kw('no', 'Negate a command or set its defaults'), kw('errdisable', 'Error disable'), kw('recovery', 'Error disable recovery'), kw('interval', 'Error disable recovery timer value')],
+        run: () => this.report(this.configManager.configureErrdisableRecovery(this.deviceId, { interval: ERRDISABLE_DEFAULT_RECOVERY_INTERVAL })),
+      },
+      {
+        modes: [CliMode.GLOBAL_CONFIG, ...SUB_CONFIG_MODES],
+        deviceTypes: routerOnly,
+        tokens: [kw('router', 'Enable a routing process'), kw('ospf', 'Open Shortest Path First (OSPF)'), { param: '<1-65535>', help: 'Process ID', validate: isNumberInRange(1, 65535) }],
+        run: args => {
+          const processId = Number(args[0]);
+          const result = this.configManager.enableOSPF(this.deviceId, processId);
+          if (!result.success) return this.report(result);
+          this.mode = CliMode.ROUTER_CONFIG;
+          this.currentRouterProtocol = 'ospf';
+          this.currentInterface = undefined;
+          this.currentVlan = undefined;
+          return '';
+        },
+      },
+      {
+        modes: [CliMode.GLOBAL_CONFIG],
+        deviceTypes: routerOnly,
+        tokens: [kw('no', 'Negate a command or set its defaults'), kw('router', 'Enable a routing process'), kw('ospf', 'Open Shortest Path First (OSPF)'), { param: '<1-65535>', help: 'Process ID', validate: isNumberInRange(1, 65535) }],
+        run: args => this.report(this.configManager.disableOSPF(this.deviceId, Number(args[0]))),
+      },
+      {
+        modes: [CliMode.GLOBAL_CONFIG, ...SUB_CONFIG_MODES],
+        deviceTypes: routerOnly,
+        tokens: [kw('router', 'Enable a routing process'), kw('rip', 'Routing Information Protocol (RIP)')],
+        run: () => {
+          const result = this.configManager.enableRIP(this.deviceId);
+          if (!result.success) return this.report(result);
+          this.mode = CliMode.ROUTER_CONFIG;
+          this.currentRouterProtocol = 'rip';
+          this.currentInterface = undefined;
+          this.currentVlan = undefined;
+          return '';
+        },
+      },
+      {
+        modes: [CliMode.GLOBAL_CONFIG],
+        deviceTypes: routerOnly,
+        tokens: [kw('no', 'Negate a command or set its defaults'), kw('router', 'Enable a routing process'), kw('rip', 'Routing Information Protocol (RIP)')],
+        run: () => this.report(this.configManager.disableRIP(this.deviceId)),
+      },
+      {
+        modes: [CliMode.GLOBAL_CONFIG, ...SUB_CONFIG_MODES],
+        deviceTypes: routerOnly,
+        tokens: [kw('router', 'Enable a routing process'), kw('bgp', 'Border Gateway Protocol (BGP)'), asNumber('Autonomous system number')],
+        run: args => {
+          const result = this.configManager.enableBGP(this.deviceId, Number(args[0]));
+          if (!result.success) return this.report(result);
+          this.mode = CliMode.ROUTER_CONFIG;
+          this.currentRouterProtocol = 'bgp';
+          this.currentInterface = undefined;
+          this.currentVlan = undefined;
+          return '';
+        },
+      },
+      {
+        modes: [CliMode.GLOBAL_CONFIG],
+        deviceTypes: routerOnly,
+        tokens: [kw('no', 'Negate a command or set its defaults'), kw('router', 'Enable a routing process'), kw('bgp', 'Border Gateway Protocol (BGP)'), asNumber('Autonomous system number')],
+        run: args => this.report(this.configManager.disableBGP(this.deviceId, Number(args[0]))),
+      },
+      {
+        modes: [CliMode.GLOBAL_CONFIG],
+        deviceTypes: staticRouting,
+        tokens: [kw('ip', 'Global IP configuration subcommands'), kw('route', 'Establish static routes'), ip('Destination prefix'), ip('Destination prefix mask'), ip('Forwarding router\'s address')],
+        run: args => this.report(this.configManager.configureStaticRoute(this.deviceId, args[0], args[1], args[2])),
+      },
+      {
+        modes: [CliMode.GLOBAL_CONFIG],
+        deviceTypes: staticRouting,
+        tokens: [kw('no', 'Negate a command or set its defaults'), kw('ip', 'Global IP configuration subcommands'), kw('route', 'Establish static routes'), ip('Destination prefix'), ip('Destination prefix mask'), line('Forwarding router\'s address')],
+        run: args => this.report(this.configManager.removeStaticRoute(this.deviceId, args[0], args[1])),
+      },
+      {
+        modes: [CliMode.GLOBAL_CONFIG],
+        deviceTypes: [DeviceType.PC, DeviceType.SERVER],
+        tokens: [kw('ip', 'Global IP configuration subcommands'), kw('default-gateway', 'Specify default gateway (if not routing IP)'), ip('IP address of default gateway')],
+        run: args => this.report(this.configManager.configureDefaultGateway(this.deviceId, args[0])),
+      },
+      {
+        modes: [CliMode.GLOBAL_CONFIG],
+        deviceTypes: [DeviceType.PC, DeviceType.SERVER],
+        tokens: [kw('no', 'Negate a command or set its defaults'), kw('ip', 'Global IP configuration subcommands'), kw('default-gateway', 'Specify default gateway (if not routing IP)')],
+        run: () => this.report(this.configManager.configureDefaultGateway(this.deviceId, undefined)),
+      },
+      {
+        modes: [CliMode.GLOBAL_CONFIG],
+        deviceTypes: [DeviceType.PC, DeviceType.SERVER],
+        tokens: [kw('ipv6', 'Global IPv6 configuration commands'), kw('default-gateway', 'Specify default gateway'), ipv6('IPv6 address of default gateway')],
+        run: args => this.report(this.configManager.configureIpv6DefaultGateway(this.deviceId, args[0])),
+      },
+      {
+        modes: [CliMode.GLOBAL_CONFIG],
+        deviceTypes: [DeviceType.PC, DeviceType.SERVER],
+        tokens: [kw('no', 'Negate a command or set its defaults'), kw('ipv6', 'Global IPv6 configuration commands'), kw('default-gateway', 'Specify default gateway')],
+        run: () => this.report(this.configManager.configureIpv6DefaultGateway(this.deviceId, undefined)),
+      },
+      {
+        modes: [CliMode.GLOBAL_CONFIG],
+        deviceTypes: routerOnly,
+        tokens: [kw('ipv6', 'Global IPv6 configuration commands'), kw('unicast-routing', 'Enable unicast routing')],
+        run: () => this.report(this.configManager.configureIpv6UnicastRouting(this.deviceId, true)),
+      },
+      {
+        modes: [CliMode.GLOBAL_CONFIG],
+        deviceTypes: routerOnly,
+        tokens: [kw('no', 'Negate a command or set its defaults'), kw('ipv6', 'Global IPv6 configuration commands'), kw('unicast-routing', 'Enable unicast routing')],
+        run: () => this.report(this.configManager.configureIpv6UnicastRouting(this.deviceId, false)),
+      },
+      {
+        modes: [CliMode.GLOBAL_CONFIG],
+        deviceTypes: routerOnly,
+        tokens: [kw('ipv6', 'Global IPv6 configuration commands'), kw('route', 'Configure static routes'), ipv6Prefix('IPv6 prefix'), ipv6('IPv6 address of next-hop')],
+        run: args => this.configureIpv6Route(args[0], undefined, args[1]),
+      },
+      {
+        modes: [CliMode.GLOBAL_CONFIG],
+        deviceTypes: routerOnly,
+        tokens: [kw('ipv6', 'Global IPv6 configuration commands'), kw('route', 'Configure static routes'), ipv6Prefix('IPv6 prefix'), ipv6Exit],
+        run: args => this.configureIpv6Route(args[0], args[1]),
+      },
+      {
+        modes: [CliMode.GLOBAL_CONFIG],
+        deviceTypes: routerOnly,
+        tokens: [kw('ipv6', 'Global IPv6 configuration commands'), kw('route', 'Configure static routes'), ipv6Prefix('IPv6 prefix'), ipv6Exit, ipv6('IPv6 address of next-hop')],
+        run: args => this.configureIpv6Route(args[0], args[1], args[2]),
+      },
+      {
+        modes: [CliMode.GLOBAL_CONFIG],
+        deviceTypes: routerOnly,
+        tokens: [kw('no', 'Negate a command or set its defaults'), kw('ipv6', 'Global IPv6 configuration commands'), kw('route', 'Configure static routes'), ipv6Prefix('IPv6 prefix'), line('Interface or next-hop')],
+        run: args => {
+          const { address, prefixLength } = IPv6AddressUtils.parseCidr(args[0])!;
+          return this.report(this.configManager.removeIpv6StaticRoute(this.deviceId, address, prefixLength));
+        },
+      },
+      {
+        modes: [CliMode.GLOBAL_CONFIG],
+        deviceTypes: routerOnly,
+        tokens: [...natSource, kw('static', 'Specify static local->global mapping'), ip('Inside local IP address'), ip('Inside global IP address')],
+        run: args => this.report(this.configManager.configureNatStatic(this.deviceId, args[0], args[1])),
+      },
+      {
+        modes: [CliMode.GLOBAL_CONFIG],
+        deviceTypes: routerOnly,
+        tokens: [kw('no', 'Negate a command or set its defaults'), ...natSource, kw('static', 'Specify static local->global mapping'), ip('Inside local IP address'), ip('Inside global IP address')],
+        run: args => this.report(this.configManager.configureNatStatic(this.deviceId, args[0], args[1], true)),
+      },
+      {
+        modes: [CliMode.GLOBAL_CONFIG],
+        deviceTypes: routerOnly,
+        tokens: [...natSource, natList, word('Access list name or number'), kw('pool', 'Name pool of global addresses'), word('Pool name for global addresses')],
+        run: args => this.report(this.configManager.configureNatRule(this.deviceId, { aclName: args[0], pool: args[1], overload: false })),
+      },
+      {
+        modes: [CliMode.GLOBAL_CONFIG],
+        deviceTypes: routerOnly,
+        tokens: [...natSource, natList, word('Access list name or number'), kw('pool', 'Name pool of global addresses'), word('Pool name for global addresses'), natOverload],
+        run: args => this.report(this.configManager.configureNatRule(this.deviceId, { aclName: args[0], pool: args[1], overload: true })),
+      },
+      {
+        modes: [CliMode.GLOBAL_CONFIG],
+        deviceTypes: routerOnly,
+        tokens: [...natSource, natList, word('Access list name or number'), kw('interface', 'Specify interface for global address'), word('Interface name, e.g. Gi0/1'), natOverload],
+        run: args => {
+          const name = resolveInterfaceName(args[1], this.getWorkingInterfaces());
+          if (!name) {
+            return `% Invalid interface ${args[1]}`;
+          }
+          return this.report(this.configManager.configureNatRule(this.deviceId, { aclName: args[0], interface: name, overload: true }));
+        },
+      },
+      {
+        modes: [CliMode.GLOBAL_CONFIG],
+        deviceTypes: routerOnly,
+        tokens: [kw('no', 'Negate a command or set its defaults'), ...natSource, natList, word('Access list name or number'), line('Pool or interface')],
+        run: args => this.report(this.configManager.removeNatRule(this.deviceId, args[0])),
+      },
+      {
+        modes: [CliMode.GLOBAL_CONFIG],
+        deviceTypes: routerOnly,
+        tokens: [natIp, natKeyword, kw('pool', 'Define pool of addresses'), word('Pool name'), ip('Start IP address'), ip('End IP address'), kw('netmask', 'Specify the network mask'), ip('Network mask')],
+        run: args => this.report(this.configManager.configureNatPool(this.deviceId, { name: args[0], startIp: args[1], endIp: args[2], netmask: args[3] })),
+      },
+      {
+        modes: [CliMode.GLOBAL_CONFIG],
+        deviceTypes: routerOnly,
+        tokens: [kw('no', 'Negate a command or set its defaults'), natIp, natKeyword, kw('pool', 'Define pool of addresses'), word('Pool name'), line('Pool addresses')],
+        run: args => this.report(this.configManager.removeNatPool(this.deviceId, args[0])),
+      },
+      ...aclActions.map(({ action, help }): CliCommand => ({
+        modes: [CliMode.GLOBAL_CONFIG],
+        deviceTypes: aclDevices,
+        tokens: [kw('access-list', 'Add an access list entry'), aclNumber, kw(action, help), line('Addresses, protocol and ports to match')],
+        run: args => this.configureAccessListEntry(args[0], getNumberedAclType(args[0])!, action, args[1]),
+      })),
+      {
+        modes: [CliMode.GLOBAL_CONFIG],
+        deviceTypes: aclDevices,
+        tokens: [kw('no', 'Negate a command or set its defaults'), kw('access-list', 'Add an access list entry'), aclNumber],
+        run: args => this.report(this.configManager.removeAccessList(this.deviceId, args[0])),
+      },
+      ...aclTypes.map(({ type, help }): CliCommand => ({
+        modes: [CliMode.GLOBAL_CONFIG, ...SUB_CONFIG_MODES],
+        deviceTypes: aclDevices,
+        tokens: [...namedAcl, kw(type, help), word('Access-list name')],
+        run: args => {
+          const result = this.configManager.configureAccessList(this.deviceId, args[0], type);
+          if (!result.success) return this.report(result);
+          this.mode = CliMode.ACL_CONFIG;
+          this.currentAccessList = { name: args[0], type };
+          this.currentInterface = undefined;
+          this.currentVlan = undefined;
+          this.currentRouterProtocol = undefined;
+          this.currentDhcpPool = undefined;
+          return '';
+        },
+      })),
+      ...aclTypes.map(({ type, help }): CliCommand => ({
+        modes: [CliMode.GLOBAL_CONFIG],
+        deviceTypes: aclDevices,
+        tokens: [kw('no', 'Negate a command or set its defaults'), ...namedAcl, kw(type, help), word('Access-list name')],
+        run: args => this.report(this.configManager.removeAccessList(this.deviceId, args[0])),
+      })),
+      {
+        modes: [CliMode.GLOBAL_CONFIG, ...SUB_CONFIG_MODES],
+        deviceTypes: dhcpServers,
+        tokens: [dhcpIp, dhcpKeyword, kw('pool', 'Configure DHCP address pools'), word('Pool name')],
+        run: args => {
+          const result = this.configManager.configureDhcpServerPool(this.deviceId, args[0]);
+          if (!result.success) return this.report(result);
+          this.mode = CliMode.DHCP_CONFIG;
+          this.currentDhcpPool = args[0];
+          this.currentInterface = undefined;
+          this.currentVlan = undefined;
+          this.currentRouterProtocol = undefined;
+          return '';
+        },
+      },
+      {
+        modes: [CliMode.GLOBAL_CONFIG],
+        deviceTypes: dhcpServers,
+        tokens: [kw('no', 'Negate a command or set its defaults'), dhcpIp, dhcpKeyword, kw('pool', 'Configure DHCP address pools'), word('Pool name')],
+        run: args => this.report(this.configManager.removeDhcpServerPool(this.deviceId, args[0])),
+      },
+      {
+        modes: [CliMode.GLOBAL_CONFIG],
+        deviceTypes: dhcpServers,
+        tokens: [dhcpIp, dhcpKeyword, dhcpExcluded, ip('Low IP address')],
+        run: args => this.report(this.configManager.configureDhcpExcludedAddresses(this.deviceId, args[0])),
+      },
+      {
+        modes: [CliMode.GLOBAL_CONFIG],
+        deviceTypes: dhcpServers,
+        tokens: [dhcpIp, dhcpKeyword, dhcpExcluded, ip('Low IP address'), ip('High IP address')],
+        run: args => this.report(this.configManager.configureDhcpExcludedAddresses(this.deviceId, args[0], args[1])),
+      },
+      {
+        modes: [CliMode.GLOBAL_CONFIG],
+        deviceTypes: dhcpServers,
+        tokens: [kw('no', 'Negate a command or set its defaults'), dhcpIp, dhcpKeyword, dhcpExcluded, ip('Low IP address')],
+        run: args => this.report(this.configManager.configureDhcpExcludedAddresses(this.deviceId, args[0], args[0], true)),
+      },
+      {
+        modes: [CliMode.GLOBAL_CONFIG],
+        deviceTypes: dhcpServers,
+        tokens: [kw('no', 'Negate a command or set its defaults'), dhcpIp, dhcpKeyword, dhcpExcluded, ip('Low IP address'), ip('High IP address')],
+        run: args => this.report(this.configManager.configureDhcpExcludedAddresses(this.deviceId, args[0], args[1], true)),
+      },
+      {
+        modes: [CliMode.GLOBAL_CONFIG],
+        deviceTypes: switchOnly,
+        tokens: snooping,
+        run: () => this.report(this.configManager.configureDhcpSnooping(this.deviceId, { enabled: true })),
+      },
+      {
+        modes: [CliMode.GLOBAL_CONFIG],
+        deviceTypes: switchOnly,
+        tokens: [kw('no', 'Negate a command or set its defaults'), ...snooping],
+        run: () => this.report(this.configManager.configureDhcpSnooping(this.deviceId, { enabled: false })),
+      },
+      {
+        modes: [CliMode.GLOBAL_CONFIG],
+        deviceTypes: switchOnly,
+        tokens: [...snooping, kw('vlan', 'DHCP Snooping vlan'), snoopingVlans],
+        run: args => this.report(this.configManager.configureDhcpSnoopingVlans(this.deviceId, parseVlanList(args[0]))),
+      },
+      {
+        modes: [CliMode.GLOBAL_CONFIG],
+        deviceTypes: switchOnly,
+        tokens: [kw('no', 'Negate a command or set its defaults'), ...snooping, kw('vlan', 'DHCP Snooping vlan'), snoopingVlans],
+        run: args => this.report(this.configManager.configureDhcpSnoopingVlans(this.deviceId, parseVlanList(args[0]), true)),
+      },
+      {
+        modes: [CliMode.GLOBAL_CONFIG],
+        deviceTypes: switchOnly,
+        tokens: [...snooping, kw('verify', 'DHCP snooping verify'), kw('mac-address', 'DHCP snooping verify mac-address')],
+        run: () => this.report(this.configManager.configureDhcpSnooping(this.deviceId, { verifyMacAddress: true })),
+      },
+      {
+        modes: [CliMode.GLOBAL_CONFIG],
+        deviceTypes: switchOnly,
+        tokens: [kw('no', 'Negate a command or set its defaults'), ...snooping, kw('verify', 'DHCP snooping verify'), kw('mac-address', 'DHCP snooping verify mac-address')],
+        run: () => this.report(this.configManager.configureDhcpSnooping(this.deviceId, { verifyMacAddress: false })),
+      },
+      {
+        modes: [CliMode.GLOBAL_CONFIG],
+        deviceTypes: switchOnly,
+        tokens: [...arpInspection, kw('vlan', 'Enable/Disable ARP Inspection on vlans'), inspectionVlans],
+        run: args => this.report(this.configManager.configureArpInspectionVlans(this.deviceId, parseVlanList(args[0]))),
+      },
+      {
+        modes: [CliMode.GLOBAL_CONFIG],
+        deviceTypes: switchOnly,
+        tokens: [kw('no', 'Negate a command or set its defaults'), ...arpInspection, kw('vlan', 'Enable/Disable ARP Inspection on vlans'), inspectionVlans],
+        run: args => this.report(this.configManager.configureArpInspectionVlans(this.deviceId, parseVlanList(args[0]), true)),
+      },
+      ...loadBalanceMethods.map(({ method, help }): CliCommand => ({
+        modes: [CliMode.GLOBAL_CONFIG],
+        deviceTypes: switchOnly,
+        tokens: [...loadBalance, kw(method, help)],
+        run: () => this.report(this.configManager.configureEtherChannelLoadBalance(this.deviceId, method)),
+      })),
+      {
+        modes: [CliMode.GLOBAL_CONFIG],
+        deviceTypes: switchOnly,
+        tokens: [kw('no', 'Negate a command or set its defaults'), ...loadBalance],
+        run: () => this.report(this.configManager.configureEtherChannelLoadBalance(this.deviceId, undefined)),
+      },
+
+      // Interface configuration
+      {
+        modes: [CliMode.INTERFACE_CONFIG],
+        tokens: [kw('description', 'Interface specific description'), line('Up to 240 characters describing this interface')],
+        run: args => this.configureCurrentInterface({ description: args[0] }),
+      },
+      {
+        modes: [CliMode.INTERFACE_CONFIG],
+        tokens: [kw('no', 'Negate a command or set its defaults'), kw('description', 'Interface specific description')],
+        run: () => this.configureCurrentInterface({ description: '' }),
+      },
+      {
+        modes: [CliMode.INTERFACE_CONFIG],
+        tokens: [kw('shutdown', 'Shutdown the selected interface')],
+        run: () => this.configureCurrentInterface({ shutdown: true }),
+      },
+      {
+        modes: [CliMode.INTERFACE_CONFIG],
+        tokens: [kw('no', 'Negate a command or set its defaults'), kw('shutdown', 'Shutdown the selected interface')],
+        run: () => this.configureCurrentInterface({ shutdown: false }),
+      },
+      {
+        modes: [CliMode.INTERFACE_CONFIG],
+        tokens: [kw('speed', 'Configure speed operation'), { param: '<10-10000>', help: 'Speed in Mbps', validate: isNumberInRange(10, 10000) }],
+        run: args => this.configureCurrentInterface({ speed: Number(args[0]) }),
+      },
+      {
+        modes: [CliMode.INTERFACE_CONFIG],
+        tokens: [kw('duplex', 'Configure duplex operation'), kw('full', 'Force full duplex operation')],
+        run: () => this.configureCurrentInterface({ duplex: 'full' }),
+      },
+      {
+        modes: [CliMode.INTERFACE_CONFIG],
+        tokens: [kw('duplex', 'Configure duplex operation'), kw('half', 'Force half-duplex operation')],
+        run: () => this.configureCurrentInterface({ duplex: 'half' }),
+      },
+      {
+        modes: [CliMode.INTERFACE_CONFIG],
+        deviceTypes: [DeviceType.ROUTER, DeviceType.MULTILAYER_SWITCH, DeviceType.PC, DeviceType.SERVER],
+        tokens: [kw('ip', 'Interface Internet Protocol config commands'), kw('address', 'Set the IP address of an interface'), ip('IP address'), ip('IP subnet mask')],
+        run: args => this.configureCurrentInterface({ ip: args[0], mask: args[1] }),
+      },
+      {
+        modes: [CliMode.INTERFACE_CONFIG],
+        deviceTypes: [DeviceType.ROUTER, DeviceType.MULTILAYER_SWITCH, DeviceType.PC, DeviceType.SERVER],
+        tokens: [kw('no', 'Negate a command or set its defaults'), kw('ip', 'Interface Internet Protocol config commands'), kw('address', 'Set the IP address of an interface')],
+        run: () => this.report(this.configManager.removeInterfaceAddress(this.deviceId, this.currentInterface!)),
+      },
+      {
+        modes: [CliMode.INTERFACE_CONFIG],
+        deviceTypes: [DeviceType.PC, DeviceType.SERVER],
+        tokens: [kw('ip', 'Interface Internet Protocol config commands'), kw('address', 'Set the IP address of an interface'), kw('dhcp', 'IP Address negotiated via DHCP')],
+        run: () => this.configureCurrentInterface({ dhcp: true }),
+      },
+      {
+        modes: [CliMode.INTERFACE_CONFIG],
+        deviceTypes: [DeviceType.PC, DeviceType.SERVER],
+        tokens: [kw('no', 'Negate a command or set its defaults'), kw('ip', 'Interface Internet Protocol config commands'), kw('address', 'Set the IP address of an interface'), kw('dhcp', 'IP Address negotiated via DHCP')],
+        run: () => this.configureCurrentInterface({ dhcp: false }),
+      },
+      {
+        modes: [CliMode.INTERFACE_CONFIG],
+        deviceTypes: routerOnly,
+        tokens: [kw('ip', 'Interface Internet Protocol config commands'), helperAddress, ip('IP destination address')],
+        run: args => this.report(this.configManager.configureHelperAddress(this.deviceId, this.currentInterface!, args[0])),
+      },
+      {
+        modes: [CliMode.INTERFACE_CONFIG],
+        deviceTypes: routerOnly,
+        tokens: [kw('no', 'Negate a command or set its defaults'), kw('ip', 'Interface Internet Protocol config commands'), helperAddress],
+        run: () => this.report(this.configManager.configureHelperAddress(this.deviceId, this.currentInterface!, undefined, true)),
+      },
+      {
+        modes: [CliMode.INTERFACE_CONFIG],
+        deviceTypes: routerOnly,
+        tokens: [kw('no', 'Negate a command or set its defaults'), kw('ip', 'Interface Internet Protocol config commands'), helperAddress, ip('IP destination address')],
+        run: args => this.report(this.configManager.configureHelperAddress(this.deviceId, this.currentInterface!, args[0], true)),
+      },
+      ...aclDirections.map(({ direction, help }): CliCommand => ({
+        modes: [CliMode.INTERFACE_CONFIG],
+        deviceTypes: aclDevices,
+        tokens: [...accessGroup, word('Access-list name or number'), kw(direction, help)],
+        run: args => this.report(this.configManager.configureAccessGroup(this.deviceId, this.currentInterface!, direction, args[0])),
+      })),
+      ...aclDirections.map(({ direction, help }): CliCommand => ({
+        modes: [CliMode.INTERFACE_CONFIG],
+        deviceTypes: aclDevices,
+        tokens: [kw('no', 'Negate a command or set its defaults'), ...accessGroup, kw(direction, help)],
+        run: () => this.report(this.configManager.removeAccessGroup(this.deviceId, this.currentInterface!, direction)),
+      })),
+      ...aclDirections.map(({ direction, help }): CliCommand => ({
+        modes: [CliMode.INTERFACE_CONFIG],
+        deviceTypes: aclDevices,
+        tokens: [kw('no', 'Negate a command or set its defaults'), ...accessGroup, word('Access-list name or number'), kw(direction, help)],
+        run: () => this.report(this.configManager.removeAccessGroup(this.deviceId, this.currentInterface!, direction)),
+      })),
+      {
+        modes: [CliMode.INTERFACE_CONFIG],
+        deviceTypes: routerOnly,
+        tokens: [...dot1q, vlanId('IEEE 802.1Q VLAN ID')],
+        run: args => this.report(this.configManager.configureEncapsulation(this.deviceId, this.currentInterface!, { vlanId: Number(args[0]) })),
+      },
+      {
+        modes: [CliMode.INTERFACE_CONFIG],
+        deviceTypes: routerOnly,
+        tokens: [...dot1q, vlanId('IEEE 802.1Q VLAN ID'), kw('native', 'Make this as native vlan')],
+        run: args => this.report(this.configManager.configureEncapsulation(this.deviceId, this.currentInterface!, { vlanId: Number(args[0]), native: true })),
+      },
+      {
+        modes: [CliMode.INTERFACE_CONFIG],
+        deviceTypes: routerOnly,
+        tokens: [kw('no', 'Negate a command or set its defaults'), dot1q[0]],
+        run: () => this.report(this.configManager.configureEncapsulation(this.deviceId, this.currentInterface!, undefined)),
+      },
+      {
+        modes: [CliMode.INTERFACE_CONFIG],
+        deviceTypes: routerOnly,
+        tokens: [kw('no', 'Negate a command or set its defaults'), ...dot1q, vlanId('IEEE 802.1Q VLAN ID')],
+        run: () => this.report(this.configManager.configureEncapsulation(this.deviceId, this.currentInterface!, undefined)),
+      },
+      {
+        modes: [CliMode.INTERFACE_CONFIG],
+        deviceTypes: [DeviceType.ROUTER, DeviceType.PC, DeviceType.SERVER],
+        tokens: [ipv6Interface, ipv6AddressKeyword, ipv6Prefix('IPv6 prefix')],
+        run: args => this.configureCurrentIpv6Address(args[0], 'manual'),
+      },
+      {
+        modes: [CliMode.INTERFACE_CONFIG],
+        deviceTypes: [DeviceType.ROUTER, DeviceType.PC, DeviceType.SERVER],
+        tokens: [ipv6Interface, ipv6AddressKeyword, ipv6Prefix('IPv6 prefix'), kw('eui-64', 'Use eui-64 interface identifier')],
+        run: args => this.configureCurrentIpv6Address(args[0], 'eui-64'),
+      },
+      {
+        modes: [CliMode.INTERFACE_CONFIG],
+        deviceTypes: [DeviceType.ROUTER, DeviceType.PC, DeviceType.SERVER],
+        tokens: [ipv6Interface, ipv6AddressKeyword, ipv6('IPv6 link-local address'), kw('link-local', 'Use link-local address')],
+        run: args => this.report(this.configManager.configureIpv6Address(this.deviceId, this.currentInterface!, args[0], 64, 'link-local')),
+      },
+      {
+        modes: [CliMode.INTERFACE_CONFIG],
+        deviceTypes: [DeviceType.PC, DeviceType.SERVER],
+        tokens: [ipv6Interface, ipv6AddressKeyword, kw('autoconfig', 'Obtain address using autoconfiguration')],
+        run: () => this.configureCurrentInterface({ ipv6: { autoconfig: true } }),
+      },
+      {
+        modes: [CliMode.INTERFACE_CONFIG],
+        deviceTypes: [DeviceType.PC, DeviceType.SERVER],
+        tokens: [kw('no', 'Negate a command or set its defaults'), ipv6Interface, ipv6AddressKeyword, kw('autoconfig', 'Obtain address using autoconfiguration')],
+        run: () => this.configureCurrentInterface({ ipv6: { autoconfig: false } }),
+      },
+      {
+        modes: [CliMode.INTERFACE_CONFIG],
+        deviceTypes: [DeviceType.ROUTER, DeviceType.PC, DeviceType.SERVER],
+        tokens: [kw('no', 'Negate a command or set its defaults'), ipv6Interface, ipv6AddressKeyword],
+        run: () => this.report(this.configManager.removeIpv6Address(this.deviceId, this.currentInterface!)),
+      },
+      {
+        modes: [CliMode.INTERFACE_CONFIG],
+        deviceTypes: [DeviceType.ROUTER, DeviceType.PC, DeviceType.SERVER],
+        tokens: [kw('no', 'Negate a command or set its defaults'), ipv6Interface, ipv6AddressKeyword, line('IPv6 address to remove')],
+        run: args => {
+          const [address, option] = args[0].split(/\s+/);
+          return this.report(this.configManager.removeIpv6Address(
+            this.deviceId,
+            this.currentInterface!,
+            address.split('/')[0],
+            option?.toLowerCase() === 'eui-64'
+          ));
+        },
+      },
+      {
+        modes: [CliMode.INTERFACE_CONFIG],
+        deviceTypes: [DeviceType.ROUTER, DeviceType.PC, DeviceType.SERVER],
+        tokens: [ipv6Interface, kw('enable', 'Enable IPv6 on interface')],
+        run: () => this.configureCurrentInterface({ ipv6: { enabled: true } }),
+      },
+      {
+        modes: [CliMode.INTERFACE_CONFIG],
+        deviceTypes: [DeviceType.ROUTER, DeviceType.PC, DeviceType.SERVER],
+        tokens: [kw('no', 'Negate a command or set its defaults'), ipv6Interface, kw('enable', 'Enable IPv6 on interface')],
+        run: () => this.configureCurrentInterface({ ipv6: { enabled: false } }),
+      },
+      {
+        modes: [CliMode.INTERFACE_CONFIG],
+        deviceTypes: routerOnly,
+        tokens: [kw('ip', 'Interface Internet Protocol config commands'), kw('split-horizon', 'Perform split horizon')],
+        run: () => this.configureCurrentInterface({ rip: { splitHorizon: true } }),
+      },
+      {
+        modes: [CliMode.INTERFACE_CONFIG],
+        deviceTypes: routerOnly,
+        tokens: [kw('no', 'Negate a command or set its defaults'), kw('ip', 'Interface Internet Protocol config commands'), kw('split-horizon', 'Perform split horizon')],
+        run: () => this.configureCurrentInterface({ rip: { splitHorizon: false } }),
+      },
+      ...(['inside', 'outside'] as const).flatMap((role): CliCommand[] => [
+        {
+          modes: [CliMode.INTERFACE_CONFIG],
+          deviceTypes: routerOnly,
+          tokens: [kw('ip', 'Interface Internet Protocol config commands'), natKeyword, kw(role, `${role === 'inside' ? 'Inside' : 'Outside'} interface for address translation`)],
+          run: () => this.configureCurrentInterface({ nat: { role } }),
+        },
+        {
+          modes: [CliMode.INTERFACE_CONFIG],
+          deviceTypes: routerOnly,
+          tokens: [kw('no', 'Negate a command or set its defaults'), kw('ip', 'Interface Internet Protocol config commands'), natKeyword, kw(role, `${role === 'inside' ? 'Inside' : 'Outside'} interface for address translation`)],
+          // Only removes the marking it names, as IOS does
+          run: () => this.getWorkingInterfaces().find(i => i.name === this.currentInterface)?.nat === role
+            ? this.configureCurrentInterface({ nat: { role: undefined } })
+            : '',
+        },
+      ]),
+      ...ospfInterfaceSettings.flatMap(({ keyword, help, param, key }): CliCommand[] => [
+        {
+          modes: [CliMode.INTERFACE_CONFIG],
+          deviceTypes: routerOnly,
+          tokens: [kw('ip', 'Interface Internet Protocol config commands'), kw('ospf', 'OSPF interface commands'), kw(keyword, help), param],
+          run: args => this.configureCurrentInterface({ ospf: { [key]: Number(args[0]) } }),
+        },
+        {
+          modes: [CliMode.INTERFACE_CONFIG],
+          deviceTypes: routerOnly,
+          tokens: [kw('no', 'Negate a command or set its defaults'), kw('ip', 'Interface Internet Protocol config commands'), kw('ospf', 'OSPF interface commands'), kw(keyword, help)],
+          run: () => this.configureCurrentInterface({ ospf: { [key]: undefined } }),
+        },
+      ]),
+      // HSRP: standby [group] ..., the group number defaulting to 0
+      ...[true, false].flatMap((withGroup): CliCommand[] => {
+        const prefix = withGroup ? [standby, hsrpGroup] : [standby];
+        const no = kw('no', 'Negate a command or set its defaults');
+        const group = (args: string[]) => withGroup ? Number(args[0]) : 0;
+        const rest = (args: string[]) => withGroup ? args.slice(1) : args;
+        const hsrp = (args: string[], settings: Parameters<NetworkConfigurationManager['configureFhrpGroup']>[4]) =>
+          this.report(this.configManager.configureFhrpGroup(this.deviceId, this.currentInterface!, 'hsrp', group(args), settings));
+        const commands: Array<Pick<CliCommand, 'tokens' | 'run'>> = [
+          { tokens: [...prefix, kw('ip', 'Enable HSRP IPv4 and set the virtual IP address'), ip('Virtual IP address')], run: args => hsrp(args, { virtualIp: rest(args)[0] }) },
+          // Without an address the group learns the virtual IP from the active router
+          { tokens: [...prefix, kw('ip', 'Enable HSRP IPv4 and set the virtual IP address')], run: args => hsrp(args, {}) },
+          { tokens: [no, ...prefix, kw('ip', 'Enable HSRP IPv4 and set the virtual IP address')], run: args => hsrp(args, { virtualIp: undefined }) },
+          { tokens: [...prefix, kw('priority', 'Priority level'), { param: '<0-255>', help: 'Priority value', validate: isNumberInRange(0, 255) }], run: args => hsrp(args, { priority: Number(rest(args)[0]) }) },
+          { tokens: [no, ...prefix, kw('priority', 'Priority level')], run: args => hsrp(args, { priority: undefined }) },
+          { tokens: [...prefix, kw('preempt', 'Overthrow lower priority Active routers')], run: args => hsrp(args, { preempt: true }) },
+          { tokens: [no, ...prefix, kw('preempt', 'Overthrow lower priority Active routers')], run: args => hsrp(args, { preempt: undefined }) },
+          {
+            tokens: [...prefix, kw('timers', 'Hello and hold timers'), { param: '<1-254>', help: 'Hello interval in seconds', validate: isNumberInRange(1, 254) }, { param: '<2-255>', help: 'Hold time in seconds', validate: isNumberInRange(2, 255) }],
+            run: args => hsrp(args, { helloTime: Number(rest(args)[0]), holdTime: Number(rest(args)[1]) }),
+          },
+          { tokens: [no, ...prefix, kw('timers', 'Hello and hold timers')], run: args => hsrp(args, { helloTime: undefined, holdTime: undefined }) },
+          ...[false, true].map((withDecrement): Pick<CliCommand, 'tokens' | 'run'> => ({
+            tokens: [...prefix, fhrpTrack, fhrpTrackInterface, ...(withDecrement ? fhrpDecrement : [])],
+            run: args => this.configureCurrentFhrpTrack('hsrp', group(args), rest(args)[0], withDecrement ? Number(rest(args)[1]) : undefined),
+          })),
+          { tokens: [no, ...prefix, fhrpTrack, fhrpTrackInterface], run: args => this.configureCurrentFhrpTrack('hsrp', group(args), rest(args)[0], undefined, true) },
+          { tokens: [no, ...prefix], run: args => this.report(this.configManager.removeFhrpGroup(this.deviceId, this.currentInterface!, 'hsrp', group(args))) },
+        ];
+        return commands.map(command => ({ ...command, modes: [CliMode.INTERFACE_CONFIG], deviceTypes: fhrpDevices }));
+      }),
+      // VRRP: vrrp <group> ...; unlike HSRP it preempts by default
+      ...((): CliCommand[] => {
+        const no = kw('no', 'Negate a command or set its defaults');
+        const configure = (args: string[], settings: Parameters<NetworkConfigurationManager['configureFhrpGroup']>[4]) =>
+          this.report(this.configManager.configureFhrpGroup(this.deviceId, this.currentInterface!, 'vrrp', Number(args[0]), settings));
+        const commands: Array<Pick<CliCommand, 'tokens' | 'run'>> = [
+          { tokens: [vrrp, vrrpGroup, kw('ip', 'Enable Virtual Router Redundancy Protocol (VRRP) for IP'), ip('IP address')], run: args => configure(args, { virtualIp: args[1] }) },
+          { tokens: [no, vrrp, vrrpGroup, kw('ip', 'Enable Virtual Router Redundancy Protocol (VRRP) for IP')], run: args => configure(args, { virtualIp: undefined }) },
+          { tokens: [vrrp, vrrpGroup, kw('priority', 'Priority of this VRRP group'), { param: '<1-254>', help: 'Priority value', validate: isNumberInRange(1, 254) }], run: args => configure(args, { priority: Number(args[1]) }) },
+          { tokens: [no, vrrp, vrrpGroup, kw('priority', 'Priority of this VRRP group')], run: args => configure(args, { priority: undefined }) },
+          { tokens: [vrrp, vrrpGroup, kw('preempt', 'Enable preemption of lower priority Master')], run: args => configure(args, { preempt: undefined }) },
+          { tokens: [no, vrrp, vrrpGroup, kw('preempt', 'Enable preemption of lower priority Master')], run: args => configure(args, { preempt: false }) },
+          {
+            tokens: [vrrp, vrrpGroup, kw('timers', 'Set the VRRP timers'), kw('advertise', 'Set the Advertisement timer'), { param: '<1-255>', help: 'Advertisement interval in seconds', validate: isNumberInRange(1, 255) }],
+            run: args => configure(args, { helloTime: Number(args[1]) }),
+          },
+          { tokens: [no, vrrp, vrrpGroup, kw('timers', 'Set the VRRP timers'), kw('advertise', 'Set the Advertisement timer')], run: args => configure(args, { helloTime: undefined }) },
+          ...[false, true].map((withDecrement): Pick<CliCommand, 'tokens' | 'run'> => ({
+            tokens: [vrrp, vrrpGroup, fhrpTrack, fhrpTrackInterface, ...(withDecrement ? fhrpDecrement : [])],
+            run: args => this.configureCurrentFhrpTrack('vrrp', Number(args[0]), args[1], withDecrement ? Number(args[2]) : undefined),
+          })),
+          { tokens: [no, vrrp, vrrpGroup, fhrpTrack, fhrpTrackInterface], run: args => this.configureCurrentFhrpTrack('vrrp', Number(args[0]), args[1], undefined, true) },
+          { tokens: [no, vrrp, vrrpGroup], run: args => this.report(this.configManager.removeFhrpGroup(this.deviceId, this.currentInterface!, 'vrrp', Number(args[0]))) },
+        ];
+        return commands.map(command => ({ ...command, modes: [CliMode.INTERFACE_CONFIG], deviceTypes: fhrpDevices }));
+      })(),
+      {
+        modes: [CliMode.INTERFACE_CONFIG],
+        deviceTypes: multilayerOnly,
+        tokens: [kw('switchport', 'Set switching mode characteristics')],
+        run: () => this.report(this.configManager.configureRoutedPort(this.deviceId, this.currentInterface!, false)),
+      },
+      {
+        modes: [CliMode.INTERFACE_CONFIG],
+        deviceTypes: multilayerOnly,
+        tokens: [kw('no', 'Negate a command or set its defaults'), kw('switchport', 'Set switching mode characteristics')],
+        run: () => this.report(this.configManager.configureRoutedPort(this.deviceId, this.currentInterface!, true)),
+      },
+      {
+        modes: [CliMode.INTERFACE_CONFIG],
+        deviceTypes: switchOnly,
+        tokens: [kw('switchport', 'Set switching mode characteristics'), kw('mode', 'Set trunking mode of the interface'), kw('access', 'Set trunking mode to ACCESS unconditionally')],
+        run: () => this.report(this.configManager.configureSwitchport(this.deviceId, this.currentInterface!, 'access')),
+      },
+      {
+        modes: [CliMode.INTERFACE_CONFIG],
+        deviceTypes: switchOnly,
+        tokens: [kw('switchport', 'Set switching mode characteristics'), kw('mode', 'Set trunking mode of the interface'), kw('trunk', 'Set trunking mode to TRUNK unconditionally')],
+        run: () => this.report(this.configManager.configureSwitchport(this.deviceId, this.currentInterface!, 'trunk')),
+      },
+      ...([
+        ['auto', 'dynamic-auto', 'Set trunking mode dynamic negotiation parameter to AUTO'],
+        ['desirable', 'dynamic-desirable', 'Set trunking mode dynamic negotiation parameter to DESIRABLE'],
+      ] as const).map(([keyword, mode, help]): CliCommand => ({
+        modes: [CliMode.INTERFACE_CONFIG],
+        deviceTypes: switchOnly,
+        tokens: [kw('switchport', 'Set switching mode characteristics'), kw('mode', 'Set trunking mode of the interface'), kw('dynamic', 'Set trunking mode to dynamically negotiate access or trunk mode'), kw(keyword, help)],
+        run: () => this.report(this.configManager.configureSwitchport(this.deviceId, this.currentInterface!, mode)),
+      })),
+      {
+        modes: [CliMode.INTERFACE_CONFIG],
+        deviceTypes: switchOnly,
+        tokens: [kw('switchport', 'Set switching mode characteristics'), kw('nonegotiate', 'Device will not engage in negotiation protocol on this interface')],
+        run: () => this.report(this.configManager.configureSwitchportNonegotiate(this.deviceId, this.currentInterface!, true)),
+      },
+      {
+        modes: [CliMode.INTERFACE_CONFIG],
+        deviceTypes: switchOnly,
+        tokens: [kw('no', 'Negate a command or set its defaults'), kw('switchport', 'Set switching mode characteristics'), kw('nonegotiate', 'Device will not engage in negotiation protocol on this interface')],
+        run: () => this.report(this.configManager.configureSwitchportNonegotiate(this.deviceId, this.currentInterface!, false)),
+      },
+      {
+        modes: [CliMode.INTERFACE_CONFIG],
+        deviceTypes: switchOnly,
+        tokens: [kw('switchport', 'Set switching mode characteristics'), kw('access', 'Set access mode characteristics of the interface'), kw('vlan', 'Set VLAN when interface is in access mode'), vlanId('VLAN ID of the VLAN when this port is in access mode')],
+        run: args => this.configureAccessVlan(Number(args[0])),
+      },
+      {
+        modes: [CliMode.INTERFACE_CONFIG],
+        deviceTypes: switchOnly,
+        tokens: [kw('switchport', 'Set switching mode characteristics'), kw('trunk', 'Set trunking characteristics of the interface'), kw('allowed', 'Set allowed VLAN characteristics when interface is in trunking mode'), kw('vlan', 'Set allowed VLANs when interface is in trunking mode'), { param: 'WORD', help: 'VLAN IDs of the allowed VLANs when this port is in trunking mode', validate: isVlanList }],
+        run: args => this.report(this.configManager.configureTrunkAllowedVlans(this.deviceId, this.currentInterface!, parseVlanList(args[0]))),
+      },
+      {
+        modes: [CliMode.INTERFACE_CONFIG],
+        deviceTypes: switchOnly,
+        tokens: [kw('switchport', 'Set switching mode characteristics'), kw('trunk', 'Set trunking characteristics of the interface'), kw('native', 'Set trunking native characteristics when interface is in trunking mode'), kw('vlan', 'Set native VLAN when interface is in trunking mode'), vlanId('VLAN ID of the native VLAN when this port is in trunking mode')],
+        run: args => this.report(this.configManager.configureNativeVlan(this.deviceId, this.currentInterface!, Number(args[0]))),
+      },
+      {
+        modes: [CliMode.INTERFACE_CONFIG],
+        deviceTypes: switchOnly,
+        tokens: portSecurity,
+        run: () => this.configureCurrentPortSecurity({ enabled: true }),
+      },
+      {
+        modes: [CliMode.INTERFACE_CONFIG],
+        deviceTypes: switchOnly,
+        tokens: [kw('no', 'Negate a command or set its defaults'), ...portSecurity],
+        run: () => this.configureCurrentPortSecurity({ enabled: false }),
+      },
+      {
+        modes: [CliMode.INTERFACE_CONFIG],
+        deviceTypes: switchOnly,
+        tokens: [...portSecurity, kw('maximum', 'Max secure addresses'), { param: '<1-8192>', help: 'Maximum addresses', validate: isNumberInRange(1, 8192) }],
+        run: args => this.configureCurrentPortSecurity({ maximum: Number(args[0]) }),
+      },
+      {
+        modes: [CliMode.INTERFACE_CONFIG],
+        deviceTypes: switchOnly,
+        tokens: [kw('no', 'Negate a command or set its defaults'), ...portSecurity, kw('maximum', 'Max secure addresses')],
+        run: () => this.configureCurrentPortSecurity({ maximum: undefined }),
+      },
+      ...violationModes.map(({ mode, help }): CliCommand => ({
+        modes: [CliMode.INTERFACE_CONFIG],
+        deviceTypes: switchOnly,
+        tokens: [...portSecurity, kw('violation', 'Security violation mode'), kw(mode, help)],
+        run: () => this.configureCurrentPortSecurity({ violation: mode }),
+      })),
+      {
+        modes: [CliMode.INTERFACE_CONFIG],
+        deviceTypes: switchOnly,
+        tokens: [kw('no', 'Negate a command or set its defaults'), ...portSecurity, kw('violation', 'Security violation mode')],
+        run: () => this.configureCurrentPortSecurity({ violation: undefined }),
+      },
+      {
+        modes: [CliMode.INTERFACE_CONFIG],
+        deviceTypes: switchOnly,
+        tokens: [...portSecurity, secureMacKeyword, stickyKeyword],
+        run: () => this.configureCurrentPortSecurity({ sticky: true }),
+      },
+      {
+        modes: [CliMode.INTERFACE_CONFIG],
+        deviceTypes: switchOnly,
+        tokens: [kw('no', 'Negate a command or set its defaults'), ...portSecurity, secureMacKeyword, stickyKeyword],
+        run: () => this.configureCurrentPortSecurity({ sticky: undefined }),
+      },
+      ...[false, true].flatMap(sticky => [false, true].flatMap(remove => [false, true].map((withVlan): CliCommand => ({
+        modes: [CliMode.INTERFACE_CONFIG],
+        deviceTypes: switchOnly,
+        tokens: [
+          ...(remove ? [kw('no', 'Negate a command or set its defaults')] : []),
+          ...portSecurity,
+          secureMacKeyword,
+          ...(sticky ? [stickyKeyword] : []),
+          secureMac,
+          ...(withVlan ? secureMacVlan : []),
+        ],
+        run: args => this.report(this.configManager.configureSecureMacAddress(
+          this.deviceId,
+          this.currentInterface!,
+          { macAddress: args[0], vlanId: withVlan ? Number(args[1]) : undefined, sticky },
+          remove
+        )),
+      })))),
+      {
+        modes: [CliMode.INTERFACE_CONFIG],
+        deviceTypes: switchOnly,
+        tokens: [...portSecurity, kw('aging', 'Port-security aging commands'), kw('time', 'Port-security aging time'), { param: '<0-1440>', help: 'Aging time in minutes. Enter a value between 1 and 1440', validate: isNumberInRange(0, 1440) }],
+        run: args => this.configureCurrentPortSecurity({ agingTime: Number(args[0]) }),
+      },
+      {
+        modes: [CliMode.INTERFACE_CONFIG],
+        deviceTypes: switchOnly,
+        tokens: [kw('no', 'Negate a command or set its defaults'), ...portSecurity, kw('aging', 'Port-security aging commands'), kw('time', 'Port-security aging time')],
+        run: () => this.configureCurrentPortSecurity({ agingTime: undefined }),
+      },
+      ...agingTypes.map(({ type, help }): CliCommand => ({
+        modes: [CliMode.INTERFACE_CONFIG],
+        deviceTypes: switchOnly,
+        tokens: [...portSecurity, kw('aging', 'Port-security aging commands'), kw('type', 'Port-security aging type'), kw(type, help)],
+        run: () => this.configureCurrentPortSecurity({ agingType: type === 'absolute' ? undefined : type }),
+      })),
+      {
+        modes: [CliMode.INTERFACE_CONFIG],
+        deviceTypes: switchOnly,
+        tokens: [kw('no', 'Negate a command or set its defaults'), ...portSecurity, kw('aging', 'Port-security aging commands'), kw('type', 'Port-security aging type')],
+        run: () => this.configureCurrentPortSecurity({ agingType: undefined }),
+      },
+      ...channelModes.map(({ mode, help }): CliCommand => ({
+        modes: [CliMode.INTERFACE_CONFIG],
+        deviceTypes: switchOnly,
+        tokens: [channelGroup, { param: '<1-48>', help: 'Channel group number', validate: isNumberInRange(1, 48) }, kw('mode', 'Etherchannel Mode of the interface'), kw(mode, help)],
+        run: args => this.report(this.configManager.configureChannelGroup(this.deviceId, this.currentInterface!, { group: Number(args[0]), mode })),
+      })),
+      {
+        modes: [CliMode.INTERFACE_CONFIG],
+        deviceTypes: switchOnly,
+        tokens: [kw('no', 'Negate a command or set its defaults'), channelGroup],
+        run: () => this.report(this.configManager.configureChannelGroup(this.deviceId, this.currentInterface!, undefined)),
+      },
+      {
+        modes: [CliMode.INTERFACE_CONFIG],
+        deviceTypes: switchOnly,
+        tokens: [kw('spanning-tree', 'Spanning Tree Subsystem'), kw('portfast', 'Portfast options for the interface')],
+        run: () => this.configureCurrentInterface({ spanningTree: { portfast: true } }),
+      },
+      {
+        modes: [CliMode.INTERFACE_CONFIG],
+        deviceTypes: switchOnly,
+        tokens: [kw('spanning-tree', 'Spanning Tree Subsystem'), kw('portfast', 'Portfast options for the interface'), kw('disable', 'Disable portfast for this interface')],
+        run: () => this.configureCurrentInterface({ spanningTree: { portfast: undefined } }),
+      },
+      {
+        modes: [CliMode.INTERFACE_CONFIG],
+        deviceTypes: switchOnly,
+        tokens: [kw('no', 'Negate a command or set its defaults'), kw('spanning-tree', 'Spanning Tree Subsystem'), kw('portfast', 'Portfast options for the interface')],
+        run: () => this.configureCurrentInterface({ spanningTree: { portfast: undefined } }),
+      },
+      ...bpduFeatures.flatMap(({ keyword, help, key }): CliCommand[] => [
+        {
+          modes: [CliMode.INTERFACE_CONFIG],
+          deviceTypes: switchOnly,
+          tokens: [kw('spanning-tree', 'Spanning Tree Subsystem'), kw(keyword, help), kw('enable', `Enable ${keyword} for this interface`)],
+          run: () => this.configureCurrentInterface({ spanningTree: { [key]: true } }),
+        },
+        {
+          modes: [CliMode.INTERFACE_CONFIG],
+          deviceTypes: switchOnly,
+          tokens: [kw('spanning-tree', 'Spanning Tree Subsystem'), kw(keyword, help), kw('disable', `Disable ${keyword} for this interface`)],
+          run: () => this.configureCurrentInterface({ spanningTree: { [key]: undefined } }),
+        },
+        {
+          modes: [CliMode.INTERFACE_CONFIG],
+          deviceTypes: switchOnly,
+          tokens: [kw('no', 'Negate a command or set its defaults'), kw('spanning-tree', 'Spanning Tree Subsystem'), kw(keyword, help)],
+          run: () => this.configureCurrentInterface({ spanningTree: { [key]: undefined } }),
+        },
+      ]),
+      ...(['root', 'loop'] as const).map((guard): CliCommand => ({
+        modes: [CliMode.INTERFACE_CONFIG],
+        deviceTypes: switchOnly,
+        tokens: [kw('spanning-tree', 'Spanning Tree Subsystem'), kw('guard', 'Change an interface\'s spanning tree guard mode'), kw(guard, `Set guard mode to ${guard} guard on interface`)],
+        run: () => this.configureCurrentInterface({ spanningTree: { guard } }),
+      })),
+      {
+        modes: [CliMode.INTERFACE_CONFIG],
+        deviceTypes: switchOnly,
+        tokens: [kw('spanning-tree', 'Spanning Tree Subsystem'), kw('guard', 'Change an interface\'s spanning tree guard mode'), kw('none', 'Set guard mode to none')],
+        run: () => this.configureCurrentInterface({ spanningTree: { guard: undefined } }),
+      },
+      {
+        modes: [CliMode.INTERFACE_CONFIG],
+        deviceTypes: switchOnly,
+        tokens: [kw('no', 'Negate a command or set its defaults'), kw('spanning-tree', 'Spanning Tree Subsystem'), kw('guard', 'Change an interface\'s spanning tree guard mode')],
+        run: () => this.configureCurrentInterface({ spanningTree: { guard: undefined } }),
+      },
+      ...snoopingPortFeatures.flatMap(({ tokens, key }): CliCommand[] => [
+        {
+          modes: [CliMode.INTERFACE_CONFIG],
+          deviceTypes: switchOnly,
+          tokens,
+          run: () => this.configureCurrentInterface({ snooping: { [key]: true } }),
+        },
+        {
+          modes: [CliMode.INTERFACE_CONFIG],
+          deviceTypes: switchOnly,
+          tokens: [kw('no', 'Negate a command or set its defaults'), ...tokens],
+          run: () => this.configureCurrentInterface({ snooping: { [key]: undefined } }),
+        },
+      ]),
+
+      // VLAN configuration
+      {
+        modes: [CliMode.VLAN_CONFIG],
+        deviceTypes: switchOnly,
+        tokens: [kw('name', 'Ascii name of the VLAN'), word('The ascii name for the VLAN')],
+        run: args => this.report(this.configManager.configureVlan({ id: this.currentVlan!, name: args[0] }, this.deviceId)),
+      },
+
+      // MST configuration
+      {
+        modes: [CliMode.MST_CONFIG],
+        deviceTypes: switchOnly,
+        tokens: [kw('name', 'Set configuration name'), word('Configuration name')],
+        run: args => this.report(this.configManager.configureMstRegion(this.deviceId, { name: args[0] })),
+      },
+      {
+        modes: [CliMode.MST_CONFIG],
+        deviceTypes: switchOnly,
+        tokens: [kw('no', 'Negate a command or set its defaults'), kw('name', 'Set configuration name')],
+        run: () => this.report(this.configManager.configureMstRegion(this.deviceId, { name: '' })),
+      },
+      {
+        modes: [CliMode.MST_CONFIG],
+        deviceTypes: switchOnly,
+        tokens: [kw('revision', 'Set configuration revision number'), { param: '<0-65535>', help: 'Configuration revision number', validate: isNumberInRange(0, 65535) }],
+        run: args => this.report(this.configManager.configureMstRegion(this.deviceId, { revision: Number(args[0]) })),
+      },
+      {
+        modes: [CliMode.MST_CONFIG],
+        deviceTypes: switchOnly,
+        tokens: [kw('no', 'Negate a command or set its defaults'), kw('revision', 'Set configuration revision number')],
+        run: () => this.report(this.configManager.configureMstRegion(this.deviceId, { revision: 0 })),
+      },
+      {
+        modes: [CliMode.MST_CONFIG],
+        deviceTypes: switchOnly,
+        tokens: [kw('instance', 'Map vlans to an MST instance'), { param: '<1-4094>', help: 'MST instance id', validate: isNumberInRange(1, 4094) }, kw('vlan', 'Range of vlans to add to the instance mapping'), { param: 'WORD', help: 'vlan range ex: 1-65,72,300-200', validate: isVlanList }],
+        run: args => this.report(this.configManager.configureMstInstance(this.deviceId, Number(args[0]), parseVlanList(args[1]))),
+      },
+      {
+        modes: [CliMode.MST_CONFIG],
+        deviceTypes: switchOnly,
+        tokens: [kw('no', 'Negate a command or set its defaults'), kw('instance', 'Map vlans to an MST instance'), { param: '<1-4094>', help: 'MST instance id', validate: isNumberInRange(1, 4094) }, kw('vlan', 'Range of vlans to add to the instance mapping'), { param: 'WORD', help: 'vlan range ex: 1-65,72,300-200', validate: isVlanList }],
+        run: args => this.report(this.configManager.configureMstInstance(this.deviceId, Number(args[0]), parseVlanList(args[1]), true)),
+      },
+      {
+        modes: [CliMode.MST_CONFIG],
+        deviceTypes: switchOnly,
+        tokens: [kw('no', 'Negate a command or set its defaults'), kw('instance', 'Map vlans to an MST instance'), { param: '<1-4094>', help: 'MST instance id', validate: isNumberInRange(1, 4094) }],
+        run: args => this.report(this.configManager.configureMstInstance(this.deviceId, Number(args[0]), [], true)),
+      },
+
+      // Named access list configuration
+      ...aclActions.map(({ action, help }): CliCommand => ({
+        modes: [CliMode.ACL_CONFIG],
+        deviceTypes: aclDevices,
+        tokens: [kw(action, help), line('Addresses, protocol and ports to match')],
+        run: args => this.configureAccessListEntry(this.currentAccessList!.name, this.currentAccessList!.type, action, args[0]),
+      })),
+      ...aclActions.map(({ action, help }): CliCommand => ({
+        modes: [CliMode.ACL_CONFIG],
+        deviceTypes: aclDevices,
+        tokens: [aclSequence, kw(action, help), line('Addresses, protocol and ports to match')],
+        run: args => this.configureAccessListEntry(this.currentAccessList!.name, this.currentAccessList!.type, action, args[1], Number(args[0])),
+      })),
+      {
+        modes: [CliMode.ACL_CONFIG],
+        deviceTypes: aclDevices,
+        tokens: [kw('no', 'Negate a command or set its defaults'), aclSequence],
+        run: args => this.report(this.configManager.removeAccessListEntry(this.deviceId, this.currentAccessList!.name, Number(args[0]))),
+      },
+
+      // DHCP pool configuration
+      {
+        modes: [CliMode.DHCP_CONFIG],
+        deviceTypes: dhcpServers,
+        tokens: [kw('network', 'Network number and mask'), ip('Network number in dotted-decimal notation'), ip('Network mask')],
+        run: args => this.configureCurrentDhcpPool({ network: args[0], mask: args[1] }),
+      },
+      {
+        modes: [CliMode.DHCP_CONFIG],
+        deviceTypes: dhcpServers,
+        tokens: [kw('no', 'Negate a command or set its defaults'), kw('network', 'Network number and mask')],
+        run: () => this.configureCurrentDhcpPool({ network: undefined, mask: undefined }),
+      },
+      {
+        modes: [CliMode.DHCP_CONFIG],
+        deviceTypes: dhcpServers,
+        tokens: [kw('default-router', 'Default routers'), ip('Router\'s IP address')],
+        run: args => this.configureCurrentDhcpPool({ defaultRouter: args[0] }),
+      },
+      {
+        modes: [CliMode.DHCP_CONFIG],
+        deviceTypes: dhcpServers,
+        tokens: [kw('no', 'Negate a command or set its defaults'), kw('default-router', 'Default routers')],
+        run: () => this.configureCurrentDhcpPool({ defaultRouter: undefined }),
+      },
+      {
+        modes: [CliMode.DHCP_CONFIG],
+        deviceTypes: dhcpServers,
+        tokens: [kw('dns-server', 'DNS servers'), line('Server\'s IP address, up to 8')],
+        run: args => {
+          const servers = this.splitWords(args[0]);
+          if (servers.length > 8 || !servers.every(isIpAddress)) {
+            return '% Up to 8 DNS server addresses required';
+          }
+          return this.configureCurrentDhcpPool({ dnsServers: servers });
+        },
+      },
+      {
+        modes: [CliMode.DHCP_CONFIG],
+        deviceTypes: dhcpServers,
+        tokens: [kw('no', 'Negate a command or set its defaults'), kw('dns-server', 'DNS servers')],
+        run: () => this.configureCurrentDhcpPool({ dnsServers: undefined }),
+      },
+      {
+        modes: [CliMode.DHCP_CONFIG],
+        deviceTypes: dhcpServers,
+        tokens: [kw('lease', 'Address lease time'), leaseDays],
+        run: args => this.configureDhcpLease(Number(args[0])),
+      },
+      {
+        modes: [CliMode.DHCP_CONFIG],
+        deviceTypes: dhcpServers,
+        tokens: [kw('lease', 'Address lease time'), leaseDays, leaseHours],
+        run: args => this.configureDhcpLease(Number(args[0]), Number(args[1])),
+      },
+      {
+        modes: [CliMode.DHCP_CONFIG],
+        deviceTypes: dhcpServers,
+        tokens: [kw('lease', 'Address lease time'), leaseDays, leaseHours, leaseMinutes],
+        run: args => this.configureDhcpLease(Number(args[0]), Number(args[1]), Number(args[2])),
+      },
+      {
+        modes: [CliMode.DHCP_CONFIG],
+        deviceTypes: dhcpServers,
+        tokens: [kw('lease', 'Address lease time'), kw('infinite', 'Infinite lease')],
+        run: () => this.configureCurrentDhcpPool({ leaseTime: DHCP_INFINITE_LEASE }),
+      },
+      {
+        modes: [CliMode.DHCP_CONFIG],
+        deviceTypes: dhcpServers,
+        tokens: [kw('no', 'Negate a command or set its defaults'), kw('lease', 'Address lease time')],
+        run: () => this.configureCurrentDhcpPool({ leaseTime: undefined }),
+      },
+
+      // Router configuration
+      {
+        modes: [CliMode.ROUTER_CONFIG],
+        deviceTypes: routerOnly,
+        routerProtocol: 'ospf',
+        tokens: [kw('network', 'Enable routing on an IP network'), ip('Network number'), ip('OSPF wild card bits'), kw('area', 'Set the OSPF area ID'), { param: 'A.B.C.D', help: 'OSPF area ID in IP address format or as a decimal value', validate: v => isIpAddress(v) || /^\d+$/.test(v) }],
+        run: args => {
+          const area = isIpAddress(args[2]) ? args[2] : String(Number(args[2]));
+          return this.report(this.configManager.configureOSPFNetwork(this.deviceId, args[0], args[1], area));
+        },
+      },
+      {
+        modes: [CliMode.ROUTER_CONFIG],
+        deviceTypes: routerOnly,
+        routerProtocol: 'ospf',
+        tokens: [kw('router-id', 'router-id for this OSPF process'), ip('OSPF router-id in IP address format')],
+        run: args => this.report(this.configManager.configureOSPFRouterId(this.deviceId, args[0])),
+      },
+      {
+        modes: [CliMode.ROUTER_CONFIG],
+        deviceTypes: routerOnly,
+        routerProtocol: 'rip',
+        tokens: [kw('network', 'Enable routing on an IP network'), ip('Network number')],
+        run: args => this.report(this.configManager.configureRIPNetwork(this.deviceId, args[0])),
+      },
+      {
+        modes: [CliMode.ROUTER_CONFIG],
+        deviceTypes: routerOnly,
+        routerProtocol: 'rip',
+        tokens: [kw('no', 'Negate a command or set its defaults'), kw('network', 'Enable routing on an IP network'), ip('Network number')],
+        run: args => this.report(this.configManager.configureRIPNetwork(this.deviceId, args[0], true)),
+      },
+      {
+        modes: [CliMode.ROUTER_CONFIG],
+        deviceTypes: routerOnly,
+        routerProtocol: 'rip',
+        tokens: [kw('version', 'Set routing protocol version'), { param: '<1-2>', help: 'version', validate: isNumberInRange(1, 2) }],
+        run: args => (args[0] === '2' ? '' : '% Only RIP version 2 is supported by the simulator'),
+      },
+      {
+        modes: [CliMode.ROUTER_CONFIG],
+        deviceTypes: routerOnly,
+        routerProtocol: 'rip',
+        tokens: [kw('no', 'Negate a command or set its defaults'), kw('auto-summary', 'Enable automatic network number summarization')],
+        run: () => '', // routes are never summarized, which is what "no auto-summary" asks for
+      },
+      {
+        modes: [CliMode.ROUTER_CONFIG],
+        deviceTypes: routerOnly,
+        routerProtocol: 'rip',
+        tokens: [kw('timers', 'Adjust routing timers'), kw('basic', 'Basic routing protocol update timers'), seconds('Interval between updates for RIP'), seconds('Invalid'), seconds('Holddown'), seconds('Flush')],
+        run: args => {
+          const [update, invalid, holddown, flush] = args.map(Number);
+          return this.report(this.configManager.configureRIPTimers(this.deviceId, { update, invalid, holddown, flush }));
+        },
+      },
+      {
+        modes: [CliMode.ROUTER_CONFIG],
+        deviceTypes: routerOnly,
+        routerProtocol: 'rip',
+        tokens: [kw('no', 'Negate a command or set its defaults'), kw('timers', 'Adjust routing timers'), kw('basic', 'Basic routing protocol update timers')],
+        run: () => this.report(this.configManager.configureRIPTimers(this.deviceId)),
+      },
+      {
+        modes: [CliMode.ROUTER_CONFIG],
+        deviceTypes: routerOnly,
+        routerProtocol: 'bgp',
+        tokens: [kw('bgp', 'BGP specific commands'), kw('router-id', 'Override configured router identifier'), ip('Manually configured router identifier')],
+        run: args => this.report(this.configManager.configureBGPRouterId(this.deviceId, args[0])),
+      },
+      {
+        modes: [CliMode.ROUTER_CONFIG],
+        deviceTypes: routerOnly,
+        routerProtocol: 'bgp',
+        tokens: [kw('no', 'Negate a command or set its defaults'), kw('bgp', 'BGP specific commands'), kw('router-id', 'Override configured router identifier')],
+        run: () => this.report(this.configManager.configureBGPRouterId(this.deviceId)),
+      },
+      {
+        modes: [CliMode.ROUTER_CONFIG],
+        deviceTypes: routerOnly,
+        routerProtocol: 'bgp',
+        tokens: [kw('bgp', 'BGP specific commands'), kw('default', 'Configure BGP defaults'), kw('local-preference', 'local preference (higher=more preferred)'), seconds('Configure default local preference value')],
+        run: args => this.report(this.configManager.configureBGPLocalPreference(this.deviceId, Number(args[0]))),
+      },
+      {
+        modes: [CliMode.ROUTER_CONFIG],
+        deviceTypes: routerOnly,
+        routerProtocol: 'bgp',
+        tokens: [kw('no', 'Negate a command or set its defaults'), kw('bgp', 'BGP specific commands'), kw('default', 'Configure BGP defaults'), kw('local-preference', 'local preference (higher=more preferred)')],
+        run: () => this.report(this.configManager.configureBGPLocalPreference(this.deviceId)),
+      },
+      {
+        modes: [CliMode.ROUTER_CONFIG],
+        deviceTypes: routerOnly,
+        routerProtocol: 'bgp',
+        tokens: [kw('network', 'Specify a network to announce via BGP'), ip('Network number'), kw('mask', 'Network mask'), ip('Network mask')],
+        run: args => this.report(this.configManager.configureBGPNetwork(this.deviceId, args[0], args[1])),
+      },
+      {
+        modes: [CliMode.ROUTER_CONFIG],
+        deviceTypes: routerOnly,
+        routerProtocol: 'bgp',
+        tokens: [kw('no', 'Negate a command or set its defaults'), kw('network', 'Specify a network to announce via BGP'), ip('Network number'), kw('mask', 'Network mask'), ip('Network mask')],
+        run: args => this.report(this.configManager.configureBGPNetwork(this.deviceId, args[0], args[1], true)),
+      },
+      {
+        modes: [CliMode.ROUTER_CONFIG],
+        deviceTypes: routerOnly,
+        routerProtocol: 'bgp',
+        tokens: [kw('neighbor', 'Specify a neighbor router'), ip('Neighbor address'), kw('remote-as', 'Specify a BGP neighbor'), asNumber('AS of remote neighbor')],
+        run: args => this.report(this.configManager.configureBGPNeighbor(this.deviceId, args[0], { remoteAs: Number(args[1]) })),
+      },
+      {
+        modes: [CliMode.ROUTER_CONFIG],
+        deviceTypes: routerOnly,
+        routerProtocol: 'bgp',
+        tokens: [kw('no', 'Negate a command or set its defaults'), kw('neighbor', 'Specify a neighbor router'), ip('Neighbor address')],
+        run: args => this.report(this.configManager.removeBGPNeighbor(this.deviceId, args[0])),
+      },
+      {
+        modes: [CliMode.ROUTER_CONFIG],
+        deviceTypes: routerOnly,
+        routerProtocol: 'bgp',
+        tokens: [kw('no', 'Negate a command or set its defaults'), kw('neighbor', 'Specify a neighbor router'), ip('Neighbor address'), kw('remote-as', 'Specify a BGP neighbor'), asNumber('AS of remote neighbor')],
+        run: args => this.report(this.configManager.removeBGPNeighbor(this.deviceId, args[0])),
+      },
+      {
+        modes: [CliMode.ROUTER_CONFIG],
+        deviceTypes: routerOnly,
+        routerProtocol: 'bgp',
+        tokens: [kw('no', 'Negate a command or set its defaults'), kw('neighbor', 'Specify a neighbor router'), ip('Neighbor address'), kw('description', 'Neighbor specific description')],
+        run: args => this.report(this.configManager.configureBGPNeighbor(this.deviceId, args[0], { description: undefined })),
+      },
+      {
+        modes: [CliMode.ROUTER_CONFIG],
+        deviceTypes: routerOnly,
+        routerProtocol: 'bgp',
+        tokens: [kw('no', 'Negate a command or set its defaults'), kw('neighbor', 'Specify a neighbor router'), ip('Neighbor address'), kw('shutdown', 'Administratively shut down this neighbor')],
+        run: args => this.report(this.configManager.configureBGPNeighbor(this.deviceId, args[0], { shutdown: false })),
+      },
+      {
+        modes: [CliMode.ROUTER_CONFIG],
+        deviceTypes: routerOnly,
+        routerProtocol: 'bgp',
+        tokens: [kw('no', 'Negate a command or set its defaults'), kw('neighbor', 'Specify a neighbor router'), ip('Neighbor address'), kw('next-hop-self', 'Disable the next hop calculation for this neighbor')],
+        run: args => this.report(this.configManager.configureBGPNeighbor(this.deviceId, args[0], { nextHopSelf: false })),
+      },
+      {
+        modes: [CliMode.ROUTER_CONFIG],
+        deviceTypes: routerOnly,
+        routerProtocol: 'bgp',
+        tokens: [kw('neighbor', 'Specify a neighbor router'), ip('Neighbor address'), kw('description', 'Neighbor specific description'), line('Up to 80 characters describing this neighbor')],
+        run: args => this.report(this.configManager.configureBGPNeighbor(this.deviceId, args[0], { description: args[1] })),
+      },
+      {
+        modes: [CliMode.ROUTER_CONFIG],
+        deviceTypes: routerOnly,
+        routerProtocol: 'bgp',
+        tokens: [kw('neighbor', 'Specify a neighbor router'), ip('Neighbor address'), kw('shutdown', 'Administratively shut down this neighbor')],
+        run: args => this.report(this.configManager.configureBGPNeighbor(this.deviceId, args[0], { shutdown: true })),
+      },
+      {
+        modes: [CliMode.ROUTER_CONFIG],
+        deviceTypes: routerOnly,
+        routerProtocol: 'bgp',
+        tokens: [kw('neighbor', 'Specify a neighbor router'), ip('Neighbor address'), kw('next-hop-self', 'Disable the next hop calculation for this neighbor')],
+        run: args => this.report(this.configManager.configureBGPNeighbor(this.deviceId, args[0], { nextHopSelf: true })),
+      },
+    );
+
+    return commands;
+  }
+
+  private configureCurrentInterface(config: Parameters<NetworkConfigurationManager['configureInterface']>[2]): string {
+    return this.report(this.configManager.configureInterface(this.deviceId, this.currentInterface!, config));
+  }
+
+  private configureCurrentPortSecurity(settings: Parameters<NetworkConfigurationManager['configurePortSecurity']>[2]): string {
+    return this.report(this.configManager.configurePortSecurity(this.deviceId, this.currentInterface!, settings));
+  }
+
+  private configureCurrentFhrpTrack(protocol: FhrpProtocol, group: number, input: string, decrement?: number, remove: boolean = false): string {
+    const name = resolveInterfaceName(input, this.getWorkingInterfaces());
+    if (!name) {
+      return `% Invalid interface ${input}`;
+    }
+    return this.report(this.configManager.configureFhrpTrack(this.deviceId, this.currentInterface!, protocol, group, { interface: name, decrement }, remove));
+  }
+
+  private configureAccessListEntry(name: string, type: AccessListType, action: AccessListEntry['action'], text: string, sequenceNumber?: number): string {
+    const entry = parseAclEntry(type, action, text.split(/\s+/));
+    if (typeof entry === 'string') {
+      return `% ${entry}`;
+    }
+    return this.report(this.configManager.configureAccessListEntry(this.deviceId, name, type, { ...entry, sequenceNumber }));
+  }
+
+  private configureCurrentDhcpPool(settings: Parameters<NetworkConfigurationManager['configureDhcpServerPool']>[2]): string {
+    return this.report(this.configManager.configureDhcpServerPool(this.deviceId, this.currentDhcpPool!, settings));
+  }
+
+  private configureDhcpLease(days: number, hours: number = 0, minutes: number = 0): string {
+    const seconds = ((days * 24 + hours) * 60 + minutes) * 60;
+    if (seconds === 0) {
+      return '% A lease must last at least one minute';
+    }
+    return this.configureCurrentDhcpPool({ leaseTime: seconds });
+  }
+
+  private configureCurrentIpv6Address(cidr: string, origin: 'manual' | 'eui-64'): string {
+    const { address, prefixLength } = IPv6AddressUtils.parseCidr(cidr)!;
+    return this.report(this.configManager.configureIpv6Address(this.deviceId, this.currentInterface!, address, prefixLength, origin));
+  }
+
+  private configureIpv6Route(cidr: string, exitInterface?: string, nextHop?: string): string {
+    const { address, prefixLength } = IPv6AddressUtils.parseCidr(cidr)!;
+    const name = exitInterface ? resolveInterfaceName(exitInterface, this.getWorkingInterfaces()) : undefined;
+    if (exitInterface && !name) {
+      return `% Invalid interface ${exitInterface}`;
+    }
+    return this.report(this.configManager.configureIpv6StaticRoute(this.deviceId, { prefix: address, prefixLength, nextHop, interface: name }));
+  }
+
+  private configureSpanningTreePriority(vlans: number[], priority?: number): string {
+    for (const vlan of vlans) {
+      const result = this.configManager.configureSpanningTreePriority(this.deviceId, vlan, priority);
+      if (!result.success) return this.report(result);
+    }
+    return '';
+  }
+
+  private configureMstPriority(instances: number[], priority?: number): string {
+    for (const instance of instances) {
+      const result = this.configManager.configureMstPriority(this.deviceId, instance, priority);
+      if (!result.success) return this.report(result);
+    }
+    return '';
+  }
+
+  /**
+   * VTP settings print what they changed, the way IOS confirms them
+   */
+  private configureVtp(settings: Parameters<NetworkConfigurationManager['configureVtp']>[1]): string {
+    const result = this.configManager.configureVtp(this.deviceId, settings);
+    return result.success ? result.message : this.report(result);
+  }
+
+  private configureAccessVlan(vlan: number): string {
+    const warnings: string[] = [];
+    const device = this.getWorkingDevice();
+    if (isSwitchingDevice(device) && !device.vlanDatabase.some(v => v.id === vlan)) {
+      // IOS creates the VLAN implicitly when it is assigned to an access port; a VTP client cannot
+      warnings.push(`% Access VLAN does not exist. Creating vlan ${vlan}`);
+      const created = this.configManager.configureVlan({ id: vlan }, this.deviceId);
+      if (!created.success) warnings.push(this.report(created));
+    }
+    // A dynamic port keeps negotiating; the VLAN applies whenever it ends up access
+    const port = this.getWorkingInterfaces().find(i => i.name === this.currentInterface);
+    const mode = port && isDynamicMode(getSwitchportMode(port)) ? getSwitchportMode(port) : 'access';
+    const result = this.configManager.configureSwitchport(this.deviceId, this.currentInterface!, mode, vlan);
+    return [...warnings, this.report(result)].filter(Boolean).join('\n');
+  }
+}
@@ -0,0 +1,533 @@
+import { RouterDevice, ServerDevice, DhcpServerConfig, DhcpPoolConfig } from '../../types';
+import { DhcpMessageType } from '../../types/simulation';
+import { IPAddressUtils } from './ipAddressManager';
+
+/**
+ * Lease time option value for a lease that never expires (lease infinite)
+ */
+export const DHCP_INFINITE_LEASE = 0xffffffff;
+
+/**
+ * Lease time of a pool without a lease command, one day as on IOS
+ */
+export const DHCP_DEFAULT_LEASE_TIME = 86400;
+
+/**
+ * Client timers in ms of simulated time: how long a client waits for an answer before it
+ * sends again, and how long it waits after declining an address before starting over
+ */
+export const DHCP_CLIENT_TIMERS = {
+  retransmit: 4000,
+  declineBackoff: 10000,
+};
+
+/**
+ * How long a server holds an offered address for the client it offered it to
+ */
+const OFFER_HOLD_TIME = 60000;
+
+/**
+ * Fields of a DHCP message the simulator models, carried as the payload of DHCP packets
+ */
+export interface DhcpMessage {
+  xid: string; // transaction ID chosen by the client
+  chaddr: string; // client hardware address
+  ciaddr?: string; // client address, set while renewing or rebinding
+  yiaddr?: string; // address offered or acknowledged
+  giaddr?: string; // relay agent address, set by the first relay the message passes
+  requestedIp?: string; // option 50
+  serverId?: string; // option 54
+  subnetMask?: string;
+  router?: string;
+  dnsServers?: string[];
+  leaseTime?: number; // seconds
+  message?: string; // option 56, why a request was NAKed
+}
+
+/**
+ * Address a server has offered or leased to a client
+ */
+export interface DhcpBinding {
+  ipAddress: string;
+  clientMac: string;
+  pool: string;
+  state: 'offered' | 'bound';
+  expiresAt: number; // DHCP clock, ms; Infinity for infinite leases
+}
+
+/**
+ * Address a server found in use by someone it did not lease it to, and stopped handing out
+ */
+export interface DhcpConflict {
+  ipAddress: string;
+  detectionMethod: 'ping' | 'gratuitous-arp';
+  detectedAt: number;
+}
+
+/**
+ * States of the RFC 2131 client state machine the simulator runs
+ */
+export type DhcpClientState = 'init' | 'selecting' | 'requesting' | 'bound' | 'renewing' | 'rebinding';
+
+/**
+ * Lease of one client interface and where the client is in acquiring or renewing it.
+ * Times are on the DHCP clock, in ms.
+ */
+export interface DhcpClientLease {
+  state: DhcpClientState;
+  xid?: string;
+  ipAddress?: string; // leased address with its prefix length, e.g. 192.168.1.10/24
+  gateway?: string;
+  dnsServers?: string[];
+  serverId?: string;
+  leaseTime?: number; // seconds
+  renewAt?: number; // T1, half of the lease
+  rebindAt?: number; // T2, seven eighths of the lease
+  expiresAt?: number;
+  sentAt?: number; // last DISCOVER or REQUEST, what retransmission is timed from
+  restartAt?: number; // earliest time to discover again after declining an address
+}
+
+/**
+ * DHCP message to put on the wire. Messages without a unicast address are broadcast.
+ */
+export interface DhcpSend {
+  type: DhcpMessageType;
+  message: DhcpMessage;
+  unicastTo?: string;
+  reason: string;
+}
+
+/**
+ * What a server or client did with a message it received; no reply when it stays silent
+ */
+export interface DhcpOutcome {
+  reply?: DhcpSend;
+  reason: string;
+}
+
+/**
+ * Where a request reached a server: the address it answers from (its server identifier),
+ * the address that selects the pool (the relay agent address, or that of the receiving
+ * interface) and the ping check it runs before offering an address
+ */
+export interface DhcpServerContext {
+  serverIp: string;
+  subnetIp: string;
+  inUse: (ip: string) => boolean;
+}
+
+/**
+ * Lease time as the simulator prints it, e.g. 86400 s or infinite
+ */
+export const formatDhcpLeaseTime = (seconds: number): string =>
+  seconds === DHCP_INFINITE_LEASE ? 'infinite' : `${seconds} s`;
+
+const toNumber = (ip: string): number => IPAddressUtils.ipToNumber(ip) >>> 0;
+
+const inRange = (ip: string, start: string, end: string): boolean =>
+  toNumber(ip) >= toNumber(start) && toNumber(ip) <= toNumber(end);
+
+const withoutPrefix = (cidr?: string): string | undefined => cidr?.split('/')[0];
+
+/**
+ * DHCP servers and clients. Pools are part of the router or server configuration; the
+ * engine keeps the bindings and conflicts of every server and the lease of every client
+ * interface, and decides what each of them answers to the messages the simulation
+ * delivers. Time is simulated time, advanced by the simulation.
+ */
+export class DhcpEngine {
+  private bindings = new Map<string, Map<string, DhcpBinding>>(); // server deviceId -> address -> binding
+  private conflicts = new Map<string, Map<string, DhcpConflict>>(); // server deviceId -> address -> conflict
+  private clients = new Map<string, Map<string, DhcpClientLease>>(); // client deviceId -> interface ID -> lease
+  private clock = 0; // ms of simulated time
+
+  /**
+   * Let simulated time pass, freeing expired leases and offers nobody requested
+   */
+  advanceClock(elapsed: number): void {
+    this.clock += elapsed;
+    this.bindings.forEach(table => {
+      table.forEach((binding, address) => {
+        if (binding.expiresAt <= this.clock) table.delete(address);
+      });
+    });
+  }
+
+  /**
+   * Current simulated time, what lease timers are measured against
+   */
+  getClock(): number {
+    return this.clock;
+  }
+
+  /**
+   * Addresses a server has leased, in address order
+   */
+  getBindings(deviceId: string): DhcpBinding[] {
+    return Array.from(this.bindings.get(deviceId)?.values() ?? [])
+      .filter(binding => binding.state === 'bound')
+      .sort((a, b) => toNumber(a.ipAddress) - toNumber(b.ipAddress));
+  }
+
+  /**
+   * Addresses a server stopped handing out because they were found in use
+   */
+  getConflicts(deviceId: string): DhcpConflict[] {
+    return Array.from(this.conflicts.get(deviceId)?.values() ?? [])
+      .sort((a, b) => toNumber(a.ipAddress) - toNumber(b.ipAddress));
+  }
+
+  /**
+   * Forget the bindings of a server; clients find out when they next renew
+   */
+  clearBindings(deviceId: string): void {
+    this.bindings.delete(deviceId);
+  }
+
+  /**
+   * Forget the conflicts of a server, putting the addresses back into its pools
+   */
+  clearConflicts(deviceId: string): void {
+    this.conflicts.delete(deviceId);
+  }
+
+  /**
+   * Lease state of a client interface, undefined before it first discovered
+   */
+  getClientLease(deviceId: string, interfaceId: string): DhcpClientLease | undefined {
+    return this.clients.get(deviceId)?.get(interfaceId);
+  }
+
+  /**
+   * Address a client interface may use, with its prefix length: set from the acknowledgement
+   * until the lease expires
+   */
+  getLeasedAddress(deviceId: string, interfaceId: string): string | undefined {
+    const lease = this.getClientLease(deviceId, interfaceId);
+    return lease && (lease.state === 'bound' || lease.state === 'renewing' || lease.state === 'rebinding')
+      ? lease.ipAddress
+      : undefined;
+  }
+
+  /**
+   * Pool of a server whose network contains an address
+   */
+  findPool(config: DhcpServerConfig, ip: string): DhcpPoolConfig | undefined {
+    return config.pools.find(pool => pool.network && pool.mask && IPAddressUtils.isInSubnet(ip, pool.network, pool.mask));
+  }
+
+  /**
+   * Answer a client message as a server: OFFER a free address to a DISCOVER, ACK or NAK a
+   * REQUEST, and record a DECLINEd address as a conflict
+   */
+  serve(server: RouterDevice | ServerDevice, type: DhcpMessageType, message: DhcpMessage, context: DhcpServerContext): DhcpOutcome {
+    const config = server.dhcpServer;
+    const pool = config ? this.findPool(config, context.subnetIp) : undefined;
+    if (!config || !pool) {
+      return { reason: `no DHCP pool for the subnet of ${context.subnetIp}` };
+    }
+
+    const table = this.getTable(this.bindings, server.id);
+    switch (type) {
+      case DhcpMessageType.DISCOVER: {
+        const address = this.allocate(server.id, config, pool, message.chaddr, context.inUse);
+        if (!address) {
+          return { reason: `pool ${pool.name} has no free address` };
+        }
+        table.set(address, { ipAddress: address, clientMac: message.chaddr, pool: pool.name, state: 'offered', expiresAt: this.clock + OFFER_HOLD_TIME });
+        return this.answer(DhcpMessageType.OFFER, this.leaseMessage(message, address, pool, context), `offered ${address} from pool ${pool.name}`);
+      }
+
+      case DhcpMessageType.REQUEST: {
+        if (message.serverId && message.serverId !== context.serverIp) {
+          this.removeClientBindings(table, message.chaddr, 'offered');
+          return { reason: `${message.chaddr} took the offer of ${message.serverId}` };
+        }
+        const address = message.requestedIp ?? message.ciaddr;
+        if (!address) {
+          return { reason: 'request names no address' };
+        }
+        const binding = table.get(address);
+        let refusal: string | undefined;
+        if (!IPAddressUtils.isInSubnet(address, pool.network!, pool.mask!)) {
+          refusal = `${address} is not in the subnet of pool ${pool.name}`;
+        } else if (binding && binding.clientMac !== message.chaddr) {
+          refusal = `${address} is leased to ${binding.clientMac}`;
+        } else if (!binding && !message.requestedIp) {
+          refusal = `no binding for ${address}`;
+        } else if (this.isExcluded(config, address) || this.conflicts.get(server.id)?.has(address)) {
+          refusal = `${address} is excluded or in conflict`;
+        }
+        if (refusal) {
+          const nak: DhcpMessage = { xid: message.xid, chaddr: message.chaddr, giaddr: message.giaddr, serverId: context.serverIp, message: refusal };
+          return this.answer(DhcpMessageType.NAK, nak, `NAK: ${refusal}`);
+        }
+
+        const leaseTime = pool.leaseTime ?? DHCP_DEFAULT_LEASE_TIME;
+        this.removeClientBindings(table, message.chaddr);
+        table.set(address, {
+          ipAddress: address,
+          clientMac: message.chaddr,
+          pool: pool.name,
+          state: 'bound',
+          expiresAt: leaseTime === DHCP_INFINITE_LEASE ? Infinity : this.clock + leaseTime * 1000,
+        });
+        return this.answer(
+          DhcpMessageType.ACK,
+          this.leaseMessage(message, address, pool, context),
+          `acknowledged ${address} from pool ${pool.name}, lease ${formatDhcpLeaseTime(leaseTime)}`
+        );
+      }
+
+      case DhcpMessageType.DECLINE: {
+        const address = message.requestedIp;
+        if (!address) {
+          return { reason: 'decline names no address' };
+        }
+        if (table.get(address)?.clientMac === message.chaddr) {
+          table.delete(address);
+        }
+        this.getTable(this.conflicts, server.id).set(address, { ipAddress: address, detectionMethod: 'gratuitous-arp', detectedAt: this.clock });
+        return { reason: `${message.chaddr} declined ${address}; recorded as a conflict` };
+      }
+
+      default:
+        return { reason: `${type} is not a client message` };
+    }
+  }
+
+  /**
+   * Drop the lease of a client interface so it discovers again on its next tick,
+   * as when the interface is shut and brought back up
+   */
+  restartClient(deviceId: string, interfaceId: string): void {
+    this.resetClient(deviceId, interfaceId);
+  }
+
+  /**
+   * Run the timers of a client interface: discover without a lease, renew with the server
+   * at T1, rebind with any server at T2, start over when the lease expires, and send
+   * again when an answer does not come
+   */
+  clientTick(deviceId: string, interfaceId: string, mac: string): DhcpSend | undefined {
+    const lease = this.getClient(deviceId, interfaceId);
+    if (lease.expiresAt !== undefined && this.clock >= lease.expiresAt) {
+      const expired = lease.ipAddress;
+      return this.discover(this.resetClient(deviceId, interfaceId), mac, `lease on ${expired} expired, discovering`);
+    }
+
+    const unanswered = lease.sentAt !== undefined && this.clock - lease.sentAt >= DHCP_CLIENT_TIMERS.retransmit;
+    switch (lease.state) {
+      case 'init':
+        return lease.restartAt !== undefined && this.clock < lease.restartAt
+          ? undefined
+          : this.discover(lease, mac, 'no lease, discovering');
+      case 'selecting':
+      case 'requesting':
+        return unanswered
+          ? this.discover(lease, mac, `no ${lease.state === 'selecting' ? 'offer' : 'acknowledgement'} received, discovering again`)
+          : undefined;
+      case 'bound':
+        if (this.clock < lease.renewAt!) return undefined;
+        lease.state = 'renewing';
+        return this.renew(lease, mac, lease.serverId, `T1 expired, renewing ${withoutPrefix(lease.ipAddress)} with ${lease.serverId}`);
+      case 'renewing':
+        if (this.clock >= lease.rebindAt!) {
+          lease.state = 'rebinding';
+          return this.renew(lease, mac, undefined, `T2 expired, rebinding ${withoutPrefix(lease.ipAddress)} with any server`);
+        }
+        return unanswered ? this.renew(lease, mac, lease.serverId, `no answer from ${lease.serverId}, renewing again`) : undefined;
+      case 'rebinding':
+        return unanswered ? this.renew(lease, mac, undefined, 'no answer, rebinding again') : undefined;
+    }
+  }
+
+  /**
+   * Take a server message as a client: REQUEST the first offer, bind on an ACK unless the
+   * address turns out to be in use (then DECLINE it), and start over on a NAK
+   */
+  clientReceive(
+    deviceId: string,
+    interfaceId: string,
+    type: DhcpMessageType,
+    message: DhcpMessage,
+    inUse: (ip: string) => boolean
+  ): DhcpOutcome {
+    const lease = this.getClientLease(deviceId, interfaceId);
+    if (!lease || message.xid !== lease.xid) {
+      return { reason: `${type} for transaction ${message.xid} that this client did not start` };
+    }
+    const waiting = lease.state === 'requesting' || lease.state === 'renewing' || lease.state === 'rebinding';
+
+    switch (type) {
+      case DhcpMessageType.OFFER: {
+        if (lease.state !== 'selecting') {
+          return { reason: `offer of ${message.yiaddr} from ${message.serverId} ignored, an earlier offer was taken` };
+        }
+        lease.state = 'requesting';
+        lease.sentAt = this.clock;
+        const request: DhcpMessage = { xid: lease.xid!, chaddr: message.chaddr, requestedIp: message.yiaddr, serverId: message.serverId };
+        return {
+          reply: { type: DhcpMessageType.REQUEST, message: request, reason: `requesting ${message.yiaddr} from ${message.serverId}` },
+          reason: `offer of ${message.yiaddr} from ${message.serverId} taken`,
+        };
+      }
+
+      case DhcpMessageType.ACK: {
+        if (!waiting || !message.yiaddr) {
+          return { reason: `acknowledgement of ${message.yiaddr} ignored, nothing was requested` };
+        }
+        // Gratuitous ARP for the new address: an answer means someone already uses it
+        if (lease.state === 'requesting' && inUse(message.yiaddr)) {
+          const restarted = this.resetClient(deviceId, interfaceId);
+          restarted.restartAt = this.clock + DHCP_CLIENT_TIMERS.declineBackoff;
+          const decline: DhcpMessage = { xid: message.xid, chaddr: message.chaddr, requestedIp: message.yiaddr, serverId: message.serverId };
+          return {
+            reply: { type: DhcpMessageType.DECLINE, message: decline, reason: `declining ${message.yiaddr}` },
+            reason: `gratuitous ARP found ${message.yiaddr} in use, declining it`,
+          };
+        }
+
+        const leaseTime = message.leaseTime ?? DHCP_DEFAULT_LEASE_TIME;
+        const infinite = leaseTime === DHCP_INFINITE_LEASE;
+        const prefixLength = IPAddressUtils.maskToPrefix(message.subnetMask ?? '255.255.255.0');
+        Object.assign(lease, {
+          state: 'bound',
+          ipAddress: `${message.yiaddr}/${prefixLength}`,
+          gateway: message.router,
+          dnsServers: message.dnsServers,
+          serverId: message.serverId,
+          leaseTime,
+          renewAt: infinite ? Infinity : this.clock + leaseTime * 500,
+          rebindAt: infinite ? Infinity : this.clock + leaseTime * 875,
+          expiresAt: infinite ? undefined : this.clock + leaseTime * 1000,
+          sentAt: undefined,
+        });
+        return { reason: `bound to ${lease.ipAddress}${lease.gateway ? ` via ${lease.gateway}` : ''}, lease ${formatDhcpLeaseTime(leaseTime)}` };
+      }
+
+      case DhcpMessageType.NAK:
+        if (!waiting) {
+          return { reason: 'NAK ignored, nothing was requested' };
+        }
+        this.resetClient(deviceId, interfaceId);
+        return { reason: `NAK from ${message.serverId}${message.message ? ` (${message.message})` : ''}, lease dropped, discovering again` };
+
+      default:
+        return { reason: `${type} is not a server message` };
+    }
+  }
+
+  private getTable<T>(tables: Map<string, Map<string, T>>, deviceId: string): Map<string, T> {
+    if (!tables.has(deviceId)) {
+      tables.set(deviceId, new Map());
+    }
+    return tables.get(deviceId)!;
+  }
+
+  private getClient(deviceId: string, interfaceId: string): DhcpClientLease {
+    const leases = this.getTable(this.clients, deviceId);
+    if (!leases.has(interfaceId)) {
+      leases.set(interfaceId, { state: 'init' });
+    }
+    return leases.get(interfaceId)!;
+  }
+
+  private resetClient(deviceId: string, interfaceId: string): DhcpClientLease {
+    const lease: DhcpClientLease = { state: 'init' };
+    this.getTable(this.clients, deviceId).set(interfaceId, lease);
+    return lease;
+  }
+
+  private discover(lease: DhcpClientLease, mac: string, reason: string): DhcpSend {
+    lease.state = 'selecting';
+    lease.xid = Math.random().toString(16).slice(2, 10);
+    lease.sentAt = this.clock;
+    lease.restartAt = undefined;
+    return { type: DhcpMessageType.DISCOVER, message: { xid: lease.xid, chaddr: mac }, reason };
+  }
+
+  /**
+   * REQUEST to extend a lease: unicast to the server that granted it while renewing,
+   * broadcast while rebinding
+   */
+  private renew(lease: DhcpClientLease, mac: string, serverId: string | undefined, reason: string): DhcpSend {
+    lease.xid = Math.random().toString(16).slice(2, 10);
+    lease.sentAt = this.clock;
+    return {
+      type: DhcpMessageType.REQUEST,
+      message: { xid: lease.xid, chaddr: mac, ciaddr: withoutPrefix(lease.ipAddress) },
+      unicastTo: serverId,
+      reason,
+    };
+  }
+
+  /**
+   * Server reply addressed as RFC 2131 has it: to the relay agent when there is one, to
+   * the client address of a client that has one, otherwise broadcast
+   */
+  private answer(type: DhcpMessageType, message: DhcpMessage, reason: string): DhcpOutcome {
+    const unicastTo = message.giaddr ?? (type === DhcpMessageType.NAK ? undefined : message.ciaddr);
+    return { reply: { type, message, unicastTo, reason }, reason };
+  }
+
+  private leaseMessage(request: DhcpMessage, address: string, pool: DhcpPoolConfig, context: DhcpServerContext): DhcpMessage {
+    return {
+      xid: request.xid,
+      chaddr: request.chaddr,
+      ciaddr: request.ciaddr,
+      yiaddr: address,
+      giaddr: request.giaddr,
+      serverId: context.serverIp,
+      subnetMask: pool.mask,
+      router: pool.defaultRouter,
+      dnsServers: pool.dnsServers,
+      leaseTime: pool.leaseTime ?? DHCP_DEFAULT_LEASE_TIME,
+    };
+  }
+
+  /**
+   * Address to offer a client: the one it already holds in the pool, otherwise the lowest
+   * one that is not leased, offered, excluded or in conflict. Each candidate is pinged
+   * first; one that answers is recorded as a conflict and skipped.
+   */
+  private allocate(
+    serverId: string,
+    config: DhcpServerConfig,
+    pool: DhcpPoolConfig,
+    chaddr: string,
+    inUse: (ip: string) => boolean
+  ): string | undefined {
+    const table = this.getTable(this.bindings, serverId);
+    const held = Array.from(table.values()).find(b => b.clientMac === chaddr && b.pool === pool.name);
+    if (held) return held.ipAddress;
+
+    const conflicts = this.getTable(this.conflicts, serverId);
+    const mask = toNumber(pool.mask!);
+    const network = (toNumber(pool.network!) & mask) >>> 0;
+    const broadcast = (network | (~mask >>> 0)) >>> 0;
+    for (let n = network + 1; n < broadcast; n++) {
+      const address = IPAddressUtils.numberToIp(n);
+      if (table.has(address) || conflicts.has(address) || this.isExcluded(config, address)) continue;
+      if (inUse(address)) {
+        conflicts.set(address, { ipAddress: address, detectionMethod: 'ping', detectedAt: this.clock });
+        continue;
+      }
+      return address;
+    }
+    return undefined;
+  }
+
+  private isExcluded(config: DhcpServerConfig, address: string): boolean {
+    return config.excludedRanges.some(range => inRange(address, range.start, range.end));
+  }
+
+  private removeClientBindings(table: Map<string, DhcpBinding>, chaddr: string, state?: DhcpBinding['state']): void {
+    table.forEach((binding, address) => {
+      if (binding.clientMac === chaddr && (!state || binding.state === state)) table.delete(address);
+    });
+  }
+}
+
+export const dhcpEngine = new DhcpEngine();
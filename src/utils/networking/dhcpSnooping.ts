@@ -0,0 +1,213 @@
+import { SwitchingDevice, NetworkInterface } from '../../types';
+import { DhcpMessageType } from '../../types/simulation';
+import { ArpPacket } from './arpEngine';
+import { DhcpMessage, DHCP_DEFAULT_LEASE_TIME, DHCP_INFINITE_LEASE } from './dhcpEngine';
+import { IPAddressUtils } from './ipAddressManager';
+
+/**
+ * Client address a switch saw a DHCP server acknowledge, on the untrusted port the client
+ * is on. DAI and IP source guard only let through what matches one of these.
+ */
+export interface DhcpSnoopingBinding {
+  macAddress: string;
+  ipAddress: string;
+  vlanId: number;
+  interface: string;
+  expiresAt: number; // snooping clock, ms; Infinity for infinite leases
+}
+
+/**
+ * ARP a switch inspected in one VLAN (show ip arp inspection statistics)
+ */
+export interface ArpInspectionStats {
+  forwarded: number;
+  dropped: number;
+}
+
+/**
+ * Outcome of a snooping check on a frame
+ */
+export interface SnoopingVerdict {
+  permitted: boolean;
+  reason: string;
+}
+
+const SERVER_MESSAGES = [DhcpMessageType.OFFER, DhcpMessageType.ACK, DhcpMessageType.NAK];
+
+const toNumber = (ip: string): number => IPAddressUtils.ipToNumber(ip) >>> 0;
+
+/**
+ * DHCP snooping, dynamic ARP inspection and IP source guard on switches. The configuration
+ * lives on the switch and its ports; the engine keeps the binding table each switch builds
+ * from the DHCP exchanges it forwards and decides which frames its checks let through.
+ * Time is simulated time, advanced by the simulation.
+ */
+export class DhcpSnoopingEngine {
+  private bindings = new Map<string, Map<string, DhcpSnoopingBinding>>(); // switch deviceId -> MAC|VLAN -> binding
+  private arpStats = new Map<string, Map<number, ArpInspectionStats>>(); // switch deviceId -> VLAN -> counters
+  private clock = 0; // ms of simulated time
+
+  /**
+   * Let simulated time pass, removing bindings whose lease ran out
+   */
+  advanceClock(elapsed: number): void {
+    this.clock += elapsed;
+    this.bindings.forEach(table => {
+      table.forEach((binding, key) => {
+        if (binding.expiresAt <= this.clock) table.delete(key);
+      });
+    });
+  }
+
+  /**
+   * Current simulated time, what binding leases are measured against
+   */
+  getClock(): number {
+    return this.clock;
+  }
+
+  /**
+   * Bindings of a switch, in address order
+   */
+  getBindings(deviceId: string): DhcpSnoopingBinding[] {
+    return Array.from(this.bindings.get(deviceId)?.values() ?? [])
+      .sort((a, b) => toNumber(a.ipAddress) - toNumber(b.ipAddress));
+  }
+
+  /**
+   * Forget the bindings of a switch; hosts are blocked by DAI and IP source guard until they lease again
+   */
+  clearBindings(deviceId: string): void {
+    this.bindings.delete(deviceId);
+  }
+
+  /**
+   * ARP inspection counters of a switch, by VLAN
+   */
+  getArpInspectionStats(deviceId: string): Map<number, ArpInspectionStats> {
+    return this.arpStats.get(deviceId) ?? new Map();
+  }
+
+  /**
+   * Whether DHCP snooping runs in a VLAN of a switch
+   */
+  isSnooping(sw: SwitchingDevice, vlanId?: number): boolean {
+    const config = sw.dhcpSnooping;
+    return !!config?.enabled && vlanId !== undefined && config.vlans.includes(vlanId);
+  }
+
+  /**
+   * Check a DHCP message received on a port: servers may only answer through trusted
+   * ports, and clients must send from the hardware address they ask for. Undefined when the
+   * VLAN is not snooped.
+   */
+  inspectDhcp(
+    sw: SwitchingDevice,
+    port: NetworkInterface,
+    vlanId: number | undefined,
+    type: DhcpMessageType,
+    message: DhcpMessage,
+    sourceMac: string
+  ): SnoopingVerdict | undefined {
+    if (!this.isSnooping(sw, vlanId)) return undefined;
+    if (port.snooping?.dhcpTrust) {
+      return { permitted: true, reason: `DHCP snooping: ${type} on trusted port ${port.name}` };
+    }
+    if (SERVER_MESSAGES.includes(type)) {
+      return { permitted: false, reason: `DHCP snooping: ${type} from a server on untrusted port ${port.name}` };
+    }
+    if (sw.dhcpSnooping!.verifyMacAddress && message.chaddr.toLowerCase() !== sourceMac.toLowerCase()) {
+      return {
+        permitted: false,
+        reason: `DHCP snooping: client hardware address ${message.chaddr} does not match source MAC ${sourceMac} on ${port.name}`,
+      };
+    }
+    return { permitted: true, reason: `DHCP snooping: ${type} from ${message.chaddr} on untrusted port ${port.name}` };
+  }
+
+  /**
+   * Update the bindings from a DHCP message the switch forwards: an ACK binds the client's
+   * address to the untrusted port it is on, a NAK or DECLINE removes the binding. Returns
+   * what changed, if anything.
+   */
+  learn(sw: SwitchingDevice, vlanId: number, type: DhcpMessageType, message: DhcpMessage, clientPort?: NetworkInterface): string | undefined {
+    const table = this.getTable(sw.id);
+    const key = `${message.chaddr.toLowerCase()}|${vlanId}`;
+
+    if (type === DhcpMessageType.ACK && message.yiaddr) {
+      // Bindings are only kept for clients on untrusted ports
+      if (!clientPort || clientPort.snooping?.dhcpTrust) return undefined;
+      const leaseTime = message.leaseTime ?? DHCP_DEFAULT_LEASE_TIME;
+      table.set(key, {
+        macAddress: message.chaddr,
+        ipAddress: message.yiaddr,
+        vlanId,
+        interface: clientPort.name,
+        expiresAt: leaseTime === DHCP_INFINITE_LEASE ? Infinity : this.clock + leaseTime * 1000,
+      });
+      return `DHCP snooping: bound ${message.yiaddr} to ${message.chaddr} on ${clientPort.name}`;
+    }
+    if ((type === DhcpMessageType.NAK || type === DhcpMessageType.DECLINE) && table.delete(key)) {
+      return `DHCP snooping: binding of ${message.chaddr} removed after ${type}`;
+    }
+    return undefined;
+  }
+
+  /**
+   * Dynamic ARP inspection: ARP received on an untrusted port of an inspected VLAN must
+   * carry a sender address and MAC that a DHCP snooping binding in the VLAN pairs up.
+   * Undefined when the ARP is not inspected.
+   */
+  inspectArp(sw: SwitchingDevice, port: NetworkInterface, arp: ArpPacket): SnoopingVerdict | undefined {
+    if (!sw.arpInspectionVlans?.includes(arp.vlanId) || port.snooping?.arpTrust) return undefined;
+
+    const binding = Array.from(this.bindings.get(sw.id)?.values() ?? []).find(
+      b => b.vlanId === arp.vlanId && b.ipAddress === arp.senderIp && b.macAddress.toLowerCase() === arp.senderMac.toLowerCase()
+    );
+    const stats = this.getStats(sw.id, arp.vlanId);
+    if (!binding) {
+      stats.dropped++;
+      return {
+        permitted: false,
+        reason: `DAI: ARP ${arp.type} on ${port.name} claims ${arp.senderIp} is at ${arp.senderMac}, which no DHCP snooping binding in VLAN ${arp.vlanId} confirms`,
+      };
+    }
+    stats.forwarded++;
+    return { permitted: true, reason: `DAI: ${arp.senderIp} is bound to ${arp.senderMac} on ${binding.interface}` };
+  }
+
+  /**
+   * IP source guard: a port with ip verify source only passes IP from addresses bound to it.
+   * Undefined when the port is not filtered.
+   */
+  verifySource(sw: SwitchingDevice, port: NetworkInterface, vlanId: number | undefined, sourceIp: string): SnoopingVerdict | undefined {
+    if (!port.snooping?.verifySource || port.snooping.dhcpTrust || !this.isSnooping(sw, vlanId)) return undefined;
+
+    const bound = Array.from(this.bindings.get(sw.id)?.values() ?? []).some(
+      b => b.interface === port.name && b.vlanId === vlanId && b.ipAddress === sourceIp
+    );
+    return bound
+      ? { permitted: true, reason: `IP source guard: ${sourceIp} is bound to ${port.name}` }
+      : { permitted: false, reason: `IP source guard: ${sourceIp} is not bound to ${port.name}` };
+  }
+
+  private getTable(deviceId: string): Map<string, DhcpSnoopingBinding> {
+    if (!this.bindings.has(deviceId)) {
+      this.bindings.set(deviceId, new Map());
+    }
+    return this.bindings.get(deviceId)!;
+  }
+
+  private getStats(deviceId: string, vlanId: number): ArpInspectionStats {
+    if (!this.arpStats.has(deviceId)) {
+      this.arpStats.set(deviceId, new Map());
+    }
+    const stats = this.arpStats.get(deviceId)!;
+    if (!stats.has(vlanId)) {
+      stats.set(vlanId, { forwarded: 0, dropped: 0 });
+    }
+    return stats.get(vlanId)!;
+  }
+}
+
+export const dhcpSnoopingEngine = new DhcpSnoopingEngine();
@@ -0,0 +1,163 @@
+import {
+  NetworkDevice,
+  NetworkInterface,
+  Connection,
+  ConnectionStatus,
+  InterfaceStatus,
+  InterfaceType,
+  SwitchingDevice,
+  SwitchportMode,
+} from '../../types';
+import { isSwitchingDevice, isSwitchport } from './multilayerSwitch';
+
+export const SWITCHPORT_MODES: SwitchportMode[] = ['access', 'trunk', 'dynamic-auto', 'dynamic-desirable'];
+
+/**
+ * Operational mode of a switchport and, when DTP kept it from trunking, why
+ */
+export interface DtpNegotiation {
+  mode: 'access' | 'trunk';
+  reason?: string;
+}
+
+/**
+ * Administrative and operational mode of one switchport, as show interfaces switchport prints them
+ */
+export interface DtpPortState {
+  deviceId: string;
+  interfaceId: string;
+  administrative: SwitchportMode;
+  operational: 'access' | 'trunk' | 'down';
+  negotiated: DtpNegotiation;
+}
+
+interface PortEnd {
+  device: SwitchingDevice;
+  port: NetworkInterface;
+}
+
+/**
+ * Configured mode of a switchport; ports without one keep the static mode of their type
+ */
+export const getSwitchportMode = (port: NetworkInterface): SwitchportMode =>
+  port.switchportMode ?? (port.type === InterfaceType.TRUNK ? 'trunk' : 'access');
+
+export const isDynamicMode = (mode: SwitchportMode): boolean => mode === 'dynamic-auto' || mode === 'dynamic-desirable';
+
+/** switchport mode dynamic-auto as IOS spells it: dynamic auto */
+export const formatSwitchportMode = (mode: SwitchportMode): string => mode.replace('-', ' ');
+
+const findPort = (device: NetworkDevice | undefined, ref: string): NetworkInterface | undefined =>
+  isSwitchingDevice(device) ? device.interfaces.find(i => i.id === ref || i.name === ref) : undefined;
+
+/**
+ * Neighbor port that DTP frames from a switchport reach: a switchport of another switch on
+ * a link that is up at both ends
+ */
+const findDtpNeighbor = (device: SwitchingDevice, port: NetworkInterface, devices: NetworkDevice[], connections: Connection[]): PortEnd | undefined => {
+  const connection = connections.find(c =>
+    (c.sourceDevice === device.id && (c.sourceInterface === port.id || c.sourceInterface === port.name)) ||
+    (c.targetDevice === device.id && (c.targetInterface === port.id || c.targetInterface === port.name))
+  );
+  if (!connection || connection.status === ConnectionStatus.DOWN) return undefined;
+  const outgoing = connection.sourceDevice === device.id && (connection.sourceInterface === port.id || connection.sourceInterface === port.name);
+  const neighbor = devices.find(d => d.id === (outgoing ? connection.targetDevice : connection.sourceDevice));
+  const neighborPort = findPort(neighbor, outgoing ? connection.targetInterface : connection.sourceInterface);
+  if (!isSwitchingDevice(neighbor) || !neighborPort || !isSwitchport(neighborPort) || neighborPort.status !== InterfaceStatus.UP) return undefined;
+  return { device: neighbor, port: neighborPort };
+};
+
+/**
+ * The DTP matrix for one end of a link. Access and trunk are what they are configured as;
+ * a dynamic port trunks when the neighbor is trunk or desirable, or when it is desirable
+ * itself and the neighbor is auto. Without DTP frames from the neighbor (a host, a router, a
+ * nonegotiate port or a VTP domain mismatch) a dynamic port stays access.
+ */
+export const negotiateTrunking = (local: PortEnd, remote?: PortEnd): DtpNegotiation => {
+  const mode = getSwitchportMode(local.port);
+  if (mode === 'access') return { mode: 'access' };
+  if (mode === 'trunk') return { mode: 'trunk' };
+
+  if (!remote) {
+    return { mode: 'access', reason: 'no DTP frames from the neighbor' };
+  }
+  const remoteName = `${remote.device.name} ${remote.port.name}`;
+  if (remote.port.nonegotiate) {
+    return { mode: 'access', reason: `${remoteName} does not negotiate (switchport nonegotiate)` };
+  }
+  const localDomain = local.device.vtp?.domain;
+  const remoteDomain = remote.device.vtp?.domain;
+  if (localDomain && remoteDomain && localDomain !== remoteDomain) {
+    return { mode: 'access', reason: `VTP domain ${localDomain} differs from ${remoteDomain} of ${remote.device.name}` };
+  }
+
+  const remoteMode = getSwitchportMode(remote.port);
+  if (remoteMode === 'trunk' || remoteMode === 'dynamic-desirable') return { mode: 'trunk' };
+  if (remoteMode === 'access') return { mode: 'access', reason: `${remoteName} is in access mode` };
+  if (mode === 'dynamic-desirable') return { mode: 'trunk' };
+  return { mode: 'access', reason: `${remoteName} is dynamic auto as well, so neither end asks for a trunk` };
+};
+
+/**
+ * Administrative and operational mode of every switchport of the topology
+ */
+export const resolveTrunking = (devices: NetworkDevice[], connections: Connection[]): DtpPortState[] =>
+  devices.filter(isSwitchingDevice).flatMap(device =>
+    device.interfaces.filter(isSwitchport).map(port => {
+      const negotiated = negotiateTrunking({ device, port }, findDtpNeighbor(device, port, devices, connections));
+      return {
+        deviceId: device.id,
+        interfaceId: port.id,
+        administrative: getSwitchportMode(port),
+        operational: port.status === InterfaceStatus.UP ? negotiated.mode : 'down',
+        negotiated,
+      };
+    })
+  );
+
+/**
+ * A port put into the mode DTP negotiated. A port that starts trunking carries the VLANs of
+ * the switch unless it already has trunk settings.
+ */
+export const applyOperationalMode = (port: NetworkInterface, mode: 'access' | 'trunk', vlanIds: number[]): NetworkInterface => {
+  if (mode === 'access') {
+    return { ...port, type: InterfaceType.ACCESS, vlanConfig: { ...port.vlanConfig, accessVlan: port.vlanConfig?.accessVlan ?? 1 } };
+  }
+  return {
+    ...port,
+    type: InterfaceType.TRUNK,
+    vlanConfig: {
+      ...port.vlanConfig,
+      nativeVlan: port.vlanConfig?.nativeVlan ?? 1,
+      allowedVlans: port.vlanConfig?.allowedVlans ?? vlanIds,
+    },
+  };
+};
+
+/**
+ * Trunking problems of a link between two switches: the ends disagree on trunking, or two
+ * dynamic ports stay access where a trunk was likely meant. Empty when both agree.
+ */
+export const getDtpIssues = (connection: Connection, devices: NetworkDevice[]): string[] => {
+  const source = devices.find(d => d.id === connection.sourceDevice);
+  const target = devices.find(d => d.id === connection.targetDevice);
+  const sourcePort = findPort(source, connection.sourceInterface);
+  const targetPort = findPort(target, connection.targetInterface);
+  if (!isSwitchingDevice(source) || !isSwitchingDevice(target) || !sourcePort || !targetPort) return [];
+  if (!isSwitchport(sourcePort) || !isSwitchport(targetPort)) return [];
+
+  const ends: PortEnd[] = [{ device: source, port: sourcePort }, { device: target, port: targetPort }];
+  if (connection.status === ConnectionStatus.DOWN || ends.some(end => end.port.status !== InterfaceStatus.UP)) return [];
+  const [local, remote] = ends.map((end, i) => negotiateTrunking(end, ends[1 - i]));
+  const describe = ({ device, port }: PortEnd, result: DtpNegotiation) =>
+    `${device.name} ${port.name} (${formatSwitchportMode(getSwitchportMode(port))}) is ${result.mode}`;
+
+  if (local.mode !== remote.mode) {
+    return [`Trunking mismatch: ${describe(ends[0], local)} but ${describe(ends[1], remote)}`];
+  }
+  // Two ends left to DTP that settle on access were most likely meant to trunk
+  if (local.mode === 'access' && ends.every(end => isDynamicMode(getSwitchportMode(end.port)))) {
+    return [`${ends[0].device.name} ${ends[0].port.name} and ${ends[1].device.name} ${ends[1].port.name} stay access: ${local.reason}`];
+  }
+  return [];
+};
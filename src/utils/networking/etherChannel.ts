@@ -0,0 +1,372 @@
+import {
+  NetworkDevice,
+  NetworkInterface,
+  Connection,
+  ConnectionStatus,
+  InterfaceStatus,
+  InterfaceType,
+  ChannelGroupConfig,
+  ChannelGroupMode,
+  EtherChannelLoadBalance,
+  LinkAggregationGroup,
+  LinkAggregationMember,
+  LinkAggregationMemberState,
+} from '../../types';
+import { isSwitchingDevice } from './multilayerSwitch';
+
+export const DEFAULT_ETHERCHANNEL_LOAD_BALANCE: EtherChannelLoadBalance = 'src-mac';
+
+export const ETHERCHANNEL_LOAD_BALANCE_METHODS: EtherChannelLoadBalance[] = [
+  'src-mac', 'dst-mac', 'src-dst-mac',
+  'src-ip', 'dst-ip', 'src-dst-ip',
+  'src-port', 'dst-port', 'src-dst-port',
+];
+
+type ChannelProtocol = LinkAggregationGroup['protocol'];
+
+/**
+ * Frame fields the load-balance methods hash
+ */
+export interface LoadBalanceFields {
+  sourceMac: string;
+  targetMac: string;
+  sourceIp?: string;
+  targetIp?: string;
+  sourcePort?: number;
+  targetPort?: number;
+}
+
+/**
+ * Link of a port-channel chosen for a frame, with the hash that picked it
+ */
+export interface LoadBalanceChoice {
+  connectionId: string;
+  hash: number;
+  fields: string; // the fields actually hashed, e.g. src-dst-ip
+}
+
+interface PortEnd {
+  device: NetworkDevice;
+  port?: NetworkInterface;
+  mode?: ChannelGroupMode;
+  group?: number;
+}
+
+interface Negotiation {
+  state: LinkAggregationMemberState;
+  reason?: string;
+}
+
+/** Negotiation protocol a channel-group mode speaks */
+export const getChannelProtocol = (mode: ChannelGroupMode): ChannelProtocol => {
+  if (mode === 'active' || mode === 'passive') return 'LACP';
+  if (mode === 'desirable' || mode === 'auto') return 'PAgP';
+  return 'Static';
+};
+
+const findPort = (device: NetworkDevice, ref: string): NetworkInterface | undefined => {
+  if (!('interfaces' in device) || !Array.isArray(device.interfaces)) return undefined;
+  return (device.interfaces as NetworkInterface[]).find(i => i.id === ref || i.name === ref);
+};
+
+const getEnd = (device: NetworkDevice, interfaceRef: string): PortEnd => {
+  const port = findPort(device, interfaceRef);
+  const channel = isSwitchingDevice(device) ? port?.channelGroup : undefined;
+  return { device, port, mode: channel?.mode, group: channel?.group };
+};
+
+const describeMode = (mode?: ChannelGroupMode): string =>
+  mode ? `mode ${mode} (${getChannelProtocol(mode)})` : 'a port outside any channel group';
+
+/**
+ * What the modes at the two ends of a link agree on: LACP bundles when either end is
+ * active, PAgP when either end is desirable, and mode on bundles only with on
+ */
+export const negotiateChannelModes = (local?: ChannelGroupMode, remote?: ChannelGroupMode): Negotiation => {
+  if (local === 'on' || remote === 'on') {
+    if (local === remote) return { state: 'bundled' };
+    return {
+      state: 'suspended',
+      reason: `mode on faces ${describeMode(local === 'on' ? remote : local)}; on only bundles with on`,
+    };
+  }
+  if (!local || !remote) {
+    const mode = (local ?? remote)!;
+    return { state: 'stand-alone', reason: `no ${getChannelProtocol(mode)} partner answers from a port outside any channel group` };
+  }
+  const protocol = getChannelProtocol(local);
+  if (protocol !== getChannelProtocol(remote)) {
+    return { state: 'stand-alone', reason: `protocol mismatch: ${describeMode(local)} faces ${describeMode(remote)}` };
+  }
+  if (protocol === 'LACP' && local === 'passive' && remote === 'passive') {
+    return { state: 'stand-alone', reason: 'both ends are passive, so neither starts LACP' };
+  }
+  if (protocol === 'PAgP' && local === 'auto' && remote === 'auto') {
+    return { state: 'stand-alone', reason: 'both ends are auto, so neither starts PAgP' };
+  }
+  return { state: 'bundled' };
+};
+
+const formatVlans = (vlans?: number[]): string =>
+  vlans && vlans.length > 0 ? [...vlans].sort((a, b) => a - b).join(',') : 'none';
+
+/**
+ * Why a port cannot join a bundle another port already formed, or undefined when
+ * the two agree on every setting a port-channel requires to match
+ */
+const describeMismatch = (port: NetworkInterface, reference: NetworkInterface): string | undefined => {
+  if (port.speed !== reference.speed) {
+    return `speed ${port.speed} Mb/s differs from ${reference.name} (${reference.speed} Mb/s)`;
+  }
+  if (port.duplex !== reference.duplex) {
+    return `${port.duplex} duplex differs from ${reference.name} (${reference.duplex} duplex)`;
+  }
+  if (port.type !== reference.type) {
+    return `switchport mode ${port.type} differs from ${reference.name} (${reference.type})`;
+  }
+  if (port.type === InterfaceType.ACCESS) {
+    const vlan = port.vlanConfig?.accessVlan ?? 1;
+    const expected = reference.vlanConfig?.accessVlan ?? 1;
+    if (vlan !== expected) return `access VLAN ${vlan} differs from ${reference.name} (VLAN ${expected})`;
+  }
+  if (port.type === InterfaceType.TRUNK) {
+    const native = port.vlanConfig?.nativeVlan ?? 1;
+    const expected = reference.vlanConfig?.nativeVlan ?? 1;
+    if (native !== expected) return `native VLAN ${native} differs from ${reference.name} (VLAN ${expected})`;
+    const allowed = formatVlans(port.vlanConfig?.allowedVlans);
+    const expectedAllowed = formatVlans(reference.vlanConfig?.allowedVlans);
+    if (allowed !== expectedAllowed) {
+      return `allowed VLANs ${allowed} differ from ${reference.name} (${expectedAllowed})`;
+    }
+  }
+  return undefined;
+};
+
+const describeDown = (connection: Connection, source: PortEnd, target: PortEnd): string | undefined => {
+  if (connection.status === ConnectionStatus.DOWN) return 'link is down';
+  for (const end of [source, target]) {
+    if (end.port && end.port.status !== InterfaceStatus.UP) {
+      return `${end.device.name} ${end.port.name} is ${end.port.status.replace('_', '-')}`;
+    }
+  }
+  return undefined;
+};
+
+/**
+ * Bundle parallel connections whose ports share a channel group into port-channels.
+ * Each link is negotiated on the modes of its two ends, then checked against the first
+ * bundled link for the settings a bundle needs to agree on; a channel group on a switch
+ * bundles the links to one neighbour only.
+ */
+export const buildLinkAggregationGroups = (
+  devices: NetworkDevice[],
+  connections: Connection[],
+): LinkAggregationGroup[] => {
+  const byId = new Map(devices.map(d => [d.id, d]));
+  const groups = new Map<string, { group: LinkAggregationGroup; links: Array<{ connection: Connection; source: PortEnd; target: PortEnd }> }>();
+
+  connections.forEach(connection => {
+    const sourceDevice = byId.get(connection.sourceDevice);
+    const targetDevice = byId.get(connection.targetDevice);
+    if (!sourceDevice || !targetDevice) return;
+    let source = getEnd(sourceDevice, connection.sourceInterface);
+    let target = getEnd(targetDevice, connection.targetInterface);
+    if (source.group === undefined && target.group === undefined) return;
+    // Orient every link the way its group was first seen, grouped end first
+    const key = [`${source.device.id}:${source.group ?? '-'}`, `${target.device.id}:${target.group ?? '-'}`].sort().join('|');
+    const existing = groups.get(key);
+    if (existing ? existing.group.sourceDevice !== source.device.id : source.group === undefined) {
+      [source, target] = [target, source];
+    }
+    if (existing) {
+      existing.links.push({ connection, source, target });
+      existing.group.memberConnections.push(connection.id);
+      return;
+    }
+    const mode = source.mode!;
+    groups.set(key, {
+      group: {
+        id: `${source.device.id}:Po${source.group}:${target.device.id}`,
+        name: `Po${source.group}`,
+        memberConnections: [connection.id],
+        protocol: getChannelProtocol(mode),
+        mode: 'passive',
+        sourceDevice: source.device.id,
+        targetDevice: target.device.id,
+        sourceGroup: source.group!,
+        targetGroup: target.group,
+        status: ConnectionStatus.DOWN,
+        members: [],
+        bandwidth: 0,
+      },
+      links: [{ connection, source, target }],
+    });
+  });
+
+  const owners = new Map<string, LinkAggregationGroup>(); // deviceId:group -> the bundle holding it
+  return Array.from(groups.values()).map(({ group, links }) => {
+    const claims: Array<[string, number]> = [[group.sourceDevice, group.sourceGroup]];
+    if (group.targetGroup !== undefined) claims.push([group.targetDevice, group.targetGroup]);
+    const conflict = claims.find(([deviceId, number]) => owners.has(`${deviceId}:${number}`));
+    const holder = conflict && owners.get(`${conflict[0]}:${conflict[1]}`);
+    if (!holder) claims.forEach(([deviceId, number]) => owners.set(`${deviceId}:${number}`, group));
+
+    let reference: { source: NetworkInterface; target: NetworkInterface } | undefined;
+    group.members = links.map(({ connection, source, target }): LinkAggregationMember => {
+      if (conflict && holder) {
+        const [deviceId, number] = conflict;
+        const holderPeer = holder.sourceDevice === deviceId ? holder.targetDevice : holder.sourceDevice;
+        const linkPeer = source.device.id === deviceId ? target.device : source.device;
+        const device = byId.get(deviceId);
+        if (holderPeer === linkPeer.id) {
+          // Same neighbour, but the two ends disagree on which links form the channel
+          const negotiation = negotiateChannelModes(source.mode, target.mode);
+          if (negotiation.state !== 'bundled') return { connectionId: connection.id, ...negotiation };
+          return {
+            connectionId: connection.id,
+            state: 'suspended',
+            reason: `${linkPeer.name} puts this link in another channel group than the other links of ${device?.name} Po${number}`,
+          };
+        }
+        return {
+          connectionId: connection.id,
+          state: 'suspended',
+          reason: `${device?.name} Po${number} already bundles the links to ${byId.get(holderPeer)?.name ?? 'another device'}`,
+        };
+      }
+      const down = describeDown(connection, source, target);
+      if (down) return { connectionId: connection.id, state: 'down', reason: down };
+      const negotiation = negotiateChannelModes(source.mode, target.mode);
+      if (negotiation.state !== 'bundled' || !source.port || !target.port) {
+        return { connectionId: connection.id, ...negotiation };
+      }
+      if (reference) {
+        const sourceMismatch = describeMismatch(source.port, reference.source);
+        const mismatch = sourceMismatch ?? describeMismatch(target.port, reference.target);
+        if (mismatch) {
+          const end = sourceMismatch ? source : target;
+          return { connectionId: connection.id, state: 'suspended', reason: `${end.device.name} ${end.port!.name}: ${mismatch}` };
+        }
+      } else {
+        reference = { source: source.port, target: target.port };
+      }
+      return { connectionId: connection.id, state: 'bundled' };
+    });
+
+    const initiates = links.some(({ source, target }) =>
+      [source.mode, target.mode].some(m => m === 'active' || m === 'desirable' || m === 'on'));
+    group.mode = initiates ? 'active' : 'passive';
+    const bundled = group.members.filter(m => m.state === 'bundled');
+    group.status = bundled.length > 0 ? ConnectionStatus.UP : ConnectionStatus.DOWN;
+    group.bandwidth = bundled.reduce((sum, m) => sum + (links.find(l => l.connection.id === m.connectionId)?.connection.bandwidth ?? 0), 0);
+    return group;
+  });
+};
+
+/** Port-channel a connection belongs to, bundled or not */
+export const findLinkAggregationGroup = (
+  groups: LinkAggregationGroup[],
+  connectionId: string,
+): LinkAggregationGroup | undefined => groups.find(g => g.memberConnections.includes(connectionId));
+
+/** What became of a connection inside its port-channel */
+export const getLinkAggregationMember = (
+  groups: LinkAggregationGroup[],
+  connectionId: string,
+): LinkAggregationMember | undefined =>
+  findLinkAggregationGroup(groups, connectionId)?.members.find(m => m.connectionId === connectionId);
+
+/** Port-channel name as a device sees it: its own channel group number */
+export const getPortChannelName = (group: LinkAggregationGroup, deviceId: string): string =>
+  deviceId === group.targetDevice && group.targetGroup !== undefined ? `Po${group.targetGroup}` : group.name;
+
+const lowByte = (value: string | number | undefined, kind: 'mac' | 'ip' | 'port'): number | undefined => {
+  if (value === undefined || value === '') return undefined;
+  if (kind === 'port') return Number(value) & 0xff;
+  const text = String(value);
+  if (kind === 'mac') return parseInt(text.replace(/[^0-9a-f]/gi, '').slice(-2), 16) || 0;
+  if (text.includes(':')) return parseInt(text.split(':').pop() || '0', 16) & 0xff;
+  return Number(text.split('.').pop()) & 0xff;
+};
+
+/**
+ * Link of a port-channel a frame leaves on: the low byte of the hashed fields (XORed
+ * for the src-dst methods) indexes the usable links in order, as Catalyst switches
+ * do. Frames without the configured fields fall back from ports to IP addresses to MACs.
+ */
+export const selectLinkAggregationMember = (
+  memberConnections: string[],
+  method: EtherChannelLoadBalance,
+  fields: LoadBalanceFields,
+): LoadBalanceChoice | undefined => {
+  if (memberConnections.length === 0) return undefined;
+  const [direction, ...rest] = method.split('-');
+  const kind = rest[rest.length - 1] as 'mac' | 'ip' | 'port';
+  const order: Array<'mac' | 'ip' | 'port'> = kind === 'port' ? ['port', 'ip', 'mac'] : kind === 'ip' ? ['ip', 'mac'] : ['mac'];
+  const read = (k: 'mac' | 'ip' | 'port') => ({
+    src: lowByte(k === 'mac' ? fields.sourceMac : k === 'ip' ? fields.sourceIp : fields.sourcePort, k),
+    dst: lowByte(k === 'mac' ? fields.targetMac : k === 'ip' ? fields.targetIp : fields.targetPort, k),
+  });
+  for (const k of order) {
+    const { src, dst } = read(k);
+    const hashed = direction === 'src' && rest.length === 1 ? src
+      : direction === 'dst' ? dst
+        : src !== undefined && dst !== undefined ? src ^ dst : undefined;
+    if (hashed === undefined) continue;
+    const label = direction === 'dst' ? `dst-${k}` : rest.length === 1 ? `src-${k}` : `src-dst-${k}`;
+    return {
+      connectionId: memberConnections[hashed % memberConnections.length],
+      hash: hashed,
+      fields: label,
+    };
+  }
+  return { connectionId: memberConnections[0], hash: 0, fields: method };
+};
+
+/**
+ * Channel-group change for one switch port
+ */
+export interface ChannelGroupChange {
+  deviceId: string;
+  interfaceId: string;
+  channelGroup?: ChannelGroupConfig;
+}
+
+/**
+ * Port changes that bundle every link between the two switches a connection joins into one
+ * LACP EtherChannel (active at both ends, in a group already used by one of the links or else
+ * the lowest free on each switch), or with bundle false take those links out of their channel
+ */
+export const planEtherChannel = (
+  devices: NetworkDevice[],
+  connections: Connection[],
+  connectionId: string,
+  bundle: boolean = true,
+): ChannelGroupChange[] => {
+  const connection = connections.find(c => c.id === connectionId);
+  const source = devices.find(d => d.id === connection?.sourceDevice);
+  const target = devices.find(d => d.id === connection?.targetDevice);
+  if (!connection || !isSwitchingDevice(source) || !isSwitchingDevice(target)) return [];
+
+  const parallel = connections.filter(c =>
+    (c.sourceDevice === source.id && c.targetDevice === target.id) ||
+    (c.sourceDevice === target.id && c.targetDevice === source.id)
+  );
+  return [source, target].flatMap(device => {
+    const ports = parallel
+      .map(c => findPort(device, c.sourceDevice === device.id ? c.sourceInterface : c.targetInterface))
+      .filter((p): p is NetworkInterface => !!p);
+    if (!bundle) {
+      return ports.filter(p => p.channelGroup).map(p => ({ deviceId: device.id, interfaceId: p.id }));
+    }
+    const interfaces = device.interfaces;
+    const used = new Set(interfaces.filter(i => !ports.includes(i)).flatMap(i => i.channelGroup ? [i.channelGroup.group] : []));
+    let group = ports.map(p => p.channelGroup?.group).find((g): g is number => g !== undefined && !used.has(g));
+    for (let candidate = 1; group === undefined && candidate <= 48; candidate++) {
+      if (!used.has(candidate)) group = candidate;
+    }
+    if (group === undefined) return [];
+    const channelGroup: ChannelGroupConfig = { group, mode: 'active' };
+    return ports.map(p => ({ deviceId: device.id, interfaceId: p.id, channelGroup }));
+  });
+};
@@ -0,0 +1,284 @@
+import { FirewallDevice, ZonePolicyRule } from '../../types';
+import { TcpFlag, IcmpType } from '../../types/simulation';
+
+/**
+ * Connection-tracking state. TCP sessions follow the handshake; UDP and ICMP have no
+ * handshake, so their pseudo-sessions stay open until they time out.
+ */
+export type FirewallSessionState = 'SYN_SENT' | 'SYN_RECEIVED' | 'ESTABLISHED' | 'CLOSING' | 'OPEN';
+
+/**
+ * One end of a tracked session
+ */
+export interface SessionEndpoint {
+  ip: string;
+  port?: number;
+}
+
+/**
+ * Entry in a firewall's connection-tracking table
+ */
+export interface FirewallSession {
+  id: string;
+  protocol: string; // 'tcp', 'udp', 'icmp' or 'ip'
+  initiator: SessionEndpoint;
+  responder: SessionEndpoint;
+  sourceZone: string;
+  destinationZone: string;
+  state: FirewallSessionState;
+  createdAt: number; // firewall clock, ms
+  lastSeen: number;
+  expiresAt: number;
+  packets: number;
+  bytes: number;
+}
+
+/**
+ * A packet as the firewall sees it
+ */
+export interface FirewallFlow {
+  protocol: string;
+  srcIp: string;
+  dstIp: string;
+  srcPort?: number;
+  dstPort?: number;
+  tcpFlags?: number;
+  icmpType?: IcmpType;
+  size: number;
+}
+
+/**
+ * What the firewall decided for a packet, and why
+ */
+export interface FirewallVerdict {
+  allowed: boolean;
+  reason: string;
+  session?: FirewallSession;
+}
+
+/**
+ * Idle timeouts in ms of simulated time
+ */
+export const FIREWALL_SESSION_TIMEOUTS = {
+  tcpHandshake: 30000,
+  tcpEstablished: 3600000,
+  tcpClosing: 10000,
+  udp: 30000,
+  icmp: 10000,
+};
+
+/**
+ * Flag names as tcpdump prints them, e.g. SYN+ACK
+ */
+export const describeTcpFlags = (flags?: number): string => {
+  const names = (Object.keys(TcpFlag) as (keyof typeof TcpFlag)[])
+    .filter(name => isNaN(Number(name)) && flags !== undefined && (flags & TcpFlag[name]) !== 0);
+  return names.length > 0 ? names.join('+') : 'no flags';
+};
+
+/**
+ * Zone-pair rule as IOS class-map text, e.g. inspect tcp eq 80
+ */
+export const describeZoneRule = (rule: ZonePolicyRule): string => {
+  const port = rule.destinationPort;
+  const ports = port === undefined
+    ? ''
+    : typeof port === 'number' ? ` eq ${port}` : ` range ${port.min} ${port.max}`;
+  return `${rule.action} ${rule.protocol}${ports}`;
+};
+
+const ruleMatches = (rule: ZonePolicyRule, flow: FirewallFlow): boolean => {
+  if (rule.protocol !== 'ip' && rule.protocol !== flow.protocol) return false;
+
+  const port = rule.destinationPort;
+  if (port === undefined) return true;
+  if (flow.dstPort === undefined) return false;
+  return typeof port === 'number' ? flow.dstPort === port : flow.dstPort >= port.min && flow.dstPort <= port.max;
+};
+
+const sessionKey = (protocol: string, src: SessionEndpoint, dst: SessionEndpoint): string =>
+  `${protocol}|${src.ip}:${src.port ?? ''}>${dst.ip}:${dst.port ?? ''}`;
+
+const hasFlag = (flags: number | undefined, flag: TcpFlag): boolean => flags !== undefined && (flags & flag) !== 0;
+
+/**
+ * Zone-based stateful firewall. Zones and zone-pair policies are part of the device
+ * configuration; the engine keeps the connection-tracking table for every firewall.
+ */
+export class FirewallEngine {
+  private sessions = new Map<string, Map<string, FirewallSession>>(); // deviceId -> session key -> session
+  private clock = 0; // ms of simulated time
+
+  /**
+   * Let simulated time pass, expiring idle sessions
+   */
+  advanceClock(elapsed: number): void {
+    this.clock += elapsed;
+    this.sessions.forEach(table => {
+      table.forEach((session, key) => {
+        if (session.expiresAt <= this.clock) table.delete(key);
+      });
+    });
+  }
+
+  /**
+   * Current simulated time, what session timestamps are measured against
+   */
+  getClock(): number {
+    return this.clock;
+  }
+
+  /**
+   * Sessions tracked by a firewall, oldest first
+   */
+  getSessions(deviceId: string): FirewallSession[] {
+    return Array.from(this.sessions.get(deviceId)?.values() ?? []);
+  }
+
+  /**
+   * Clear the connection-tracking table of one firewall, or of all of them
+   */
+  clearSessions(deviceId?: string): void {
+    if (deviceId) {
+      this.sessions.delete(deviceId);
+    } else {
+      this.sessions.clear();
+    }
+  }
+
+  /**
+   * Zone an interface is a member of
+   */
+  getZone(firewall: FirewallDevice, interfaceName: string): string | undefined {
+    return firewall.zones.find(zone => zone.interfaces.includes(interfaceName))?.name;
+  }
+
+  /**
+   * Decide whether a packet routed from one interface to another may pass. Packets of a
+   * tracked session pass in both directions; anything else is checked against the zone-pair
+   * policy, and inspected traffic opens a session so that its replies are let back in.
+   */
+  inspect(firewall: FirewallDevice, ingressInterface: string, egressInterface: string, flow: FirewallFlow): FirewallVerdict {
+    const table = this.sessions.get(firewall.id) ?? new Map<string, FirewallSession>();
+    this.sessions.set(firewall.id, table);
+
+    const src = { ip: flow.srcIp, port: flow.srcPort };
+    const dst = { ip: flow.dstIp, port: flow.dstPort };
+    const forwardKey = sessionKey(flow.protocol, src, dst);
+    const replyKey = sessionKey(flow.protocol, dst, src);
+    // ICMP has no ports to tell sessions apart; only echo replies come back through an echo session
+    const returnable = flow.protocol !== 'icmp' || flow.icmpType !== IcmpType.ECHO_REQUEST;
+    const existing = table.get(forwardKey) ?? (returnable ? table.get(replyKey) : undefined);
+    if (existing) {
+      const fromInitiator = table.has(forwardKey);
+      this.trackPacket(existing, fromInitiator, flow);
+      if (hasFlag(flow.tcpFlags, TcpFlag.RST)) {
+        table.delete(fromInitiator ? forwardKey : replyKey);
+      }
+      return {
+        allowed: true,
+        session: existing,
+        reason: `${fromInitiator ? 'part of' : 'return traffic of'} ${this.describeSession(existing)}`,
+      };
+    }
+
+    const sourceZone = this.getZone(firewall, ingressInterface);
+    const destinationZone = this.getZone(firewall, egressInterface);
+    if (!sourceZone && !destinationZone) {
+      return { allowed: true, reason: `${ingressInterface} and ${egressInterface} are not in any security zone` };
+    }
+    if (!sourceZone || !destinationZone) {
+      return {
+        allowed: false,
+        reason: `${sourceZone ? egressInterface : ingressInterface} is not in a security zone; traffic to or from zone ${sourceZone ?? destinationZone} is dropped`,
+      };
+    }
+    if (sourceZone === destinationZone) {
+      return { allowed: true, reason: `intra-zone traffic in ${sourceZone}` };
+    }
+
+    const pairName = `${sourceZone} -> ${destinationZone}`;
+    const pair = firewall.zonePairs.find(p => p.source === sourceZone && p.destination === destinationZone);
+    if (!pair) {
+      return { allowed: false, reason: `no zone-pair ${pairName} and no session for ${flow.protocol} ${flow.srcIp} -> ${flow.dstIp}` };
+    }
+    const rule = pair.rules.find(r => ruleMatches(r, flow));
+    if (!rule) {
+      return { allowed: false, reason: `class-default of zone-pair ${pairName} drops ${flow.protocol} ${flow.srcIp} -> ${flow.dstIp}` };
+    }
+    if (rule.action === 'drop') {
+      return { allowed: false, reason: `zone-pair ${pairName}: ${describeZoneRule(rule)}` };
+    }
+    if (rule.action === 'pass') {
+      return { allowed: true, reason: `zone-pair ${pairName}: ${describeZoneRule(rule)}, not tracked` };
+    }
+    if (flow.protocol === 'tcp' && (!hasFlag(flow.tcpFlags, TcpFlag.SYN) || hasFlag(flow.tcpFlags, TcpFlag.ACK))) {
+      return {
+        allowed: false,
+        reason: `zone-pair ${pairName}: TCP ${describeTcpFlags(flow.tcpFlags)} does not belong to a session, only a SYN opens one`,
+      };
+    }
+
+    const session: FirewallSession = {
+      id: crypto.randomUUID(),
+      protocol: flow.protocol,
+      initiator: src,
+      responder: dst,
+      sourceZone,
+      destinationZone,
+      state: flow.protocol === 'tcp' ? 'SYN_SENT' : 'OPEN',
+      createdAt: this.clock,
+      lastSeen: this.clock,
+      expiresAt: this.clock,
+      packets: 0,
+      bytes: 0,
+    };
+    this.trackPacket(session, true, flow);
+    table.set(forwardKey, session);
+    return { allowed: true, session, reason: `zone-pair ${pairName}: ${describeZoneRule(rule)}, opened ${this.describeSession(session)}` };
+  }
+
+  /**
+   * Count a packet against its session, move TCP through the handshake and refresh the idle timeout
+   */
+  private trackPacket(session: FirewallSession, fromInitiator: boolean, flow: FirewallFlow): void {
+    session.packets++;
+    session.bytes += flow.size;
+    session.lastSeen = this.clock;
+
+    if (session.protocol === 'tcp') {
+      const flags = flow.tcpFlags;
+      if (hasFlag(flags, TcpFlag.FIN) || hasFlag(flags, TcpFlag.RST)) {
+        session.state = 'CLOSING';
+      } else if (session.state === 'SYN_SENT' && !fromInitiator && hasFlag(flags, TcpFlag.SYN) && hasFlag(flags, TcpFlag.ACK)) {
+        session.state = 'SYN_RECEIVED';
+      } else if (session.state === 'SYN_RECEIVED' && fromInitiator && hasFlag(flags, TcpFlag.ACK)) {
+        session.state = 'ESTABLISHED';
+      }
+    }
+
+    session.expiresAt = this.clock + this.idleTimeout(session);
+  }
+
+  private idleTimeout(session: FirewallSession): number {
+    switch (session.state) {
+      case 'SYN_SENT':
+      case 'SYN_RECEIVED':
+        return FIREWALL_SESSION_TIMEOUTS.tcpHandshake;
+      case 'ESTABLISHED':
+        return FIREWALL_SESSION_TIMEOUTS.tcpEstablished;
+      case 'CLOSING':
+        return FIREWALL_SESSION_TIMEOUTS.tcpClosing;
+      default:
+        return session.protocol === 'icmp' ? FIREWALL_SESSION_TIMEOUTS.icmp : FIREWALL_SESSION_TIMEOUTS.udp;
+    }
+  }
+
+  private describeSession(session: FirewallSession): string {
+    const endpoint = (end: SessionEndpoint) => (end.port !== undefined ? `${end.ip}:${end.port}` : end.ip);
+    return `${session.protocol} session ${endpoint(session.initiator)} -> ${endpoint(session.responder)} (${session.state})`;
+  }
+}
+
+// Export singleton instance
+export const firewallEngine = new FirewallEngine();
@@ -0,0 +1,389 @@
+import {
+  NetworkDevice,
+  NetworkInterface,
+  Connection,
+  ConnectionStatus,
+  DeviceStatus,
+  DeviceType,
+  InterfaceStatus,
+  FhrpGroupConfig,
+  FhrpProtocol,
+  MultilayerSwitchDevice,
+} from '../../types';
+import { SubnetCalculator } from '../routing/routingEngine';
+import { getPhysicalInterface, isInterfaceOperational } from './subinterfaces';
+import { isSviUp } from './multilayerSwitch';
+
+export const FHRP_DEFAULT_PRIORITY = 100;
+export const FHRP_DEFAULT_TRACK_DECREMENT = 10;
+export const HSRP_DEFAULT_HELLO_TIME = 3;
+export const HSRP_DEFAULT_HOLD_TIME = 10;
+export const VRRP_DEFAULT_ADVERTISEMENT_INTERVAL = 1;
+
+/**
+ * Role of a router in a group. VRRP calls the active router master and every other one backup.
+ */
+export type FhrpState = 'active' | 'standby' | 'listen' | 'init';
+
+/**
+ * Router interface taking part in a group, with the outcome of the election
+ */
+export interface FhrpMember {
+  deviceId: string;
+  deviceName: string;
+  interfaceId: string;
+  interfaceName: string;
+  address?: string; // the interface's own IP address
+  config: FhrpGroupConfig;
+  priority: number; // the configured priority less the decrements of tracked interfaces that are down
+  preempt: boolean;
+  up: boolean; // sending hellos: the device is on, the interface up and addressed, its link up
+  reason?: string; // why it is not
+  resigned: boolean; // shut down, so it told the group it is leaving instead of going silent
+  downTracks: string[]; // tracked interfaces that are down
+  state: FhrpState;
+  stateChanges: number;
+  lastStateChange: number; // clock ms
+  lastHeard?: number; // clock ms of its last hello
+}
+
+/**
+ * Routers sharing a virtual gateway: the interfaces of one subnet configured with the same
+ * protocol and group number
+ */
+export interface FhrpGroup {
+  id: string;
+  protocol: FhrpProtocol;
+  group: number;
+  virtualIp?: string;
+  virtualMac: string;
+  helloTime: number; // seconds
+  holdTime: number; // seconds; for VRRP the master down interval
+  members: FhrpMember[];
+  active?: FhrpMember; // may have gone silent, until its hold time runs out
+  standby?: FhrpMember; // HSRP only
+}
+
+/**
+ * A router that became active (master) for a group and should announce the virtual MAC address
+ */
+export interface FhrpTakeover {
+  group: FhrpGroup;
+  member: FhrpMember;
+  previous?: FhrpMember;
+}
+
+interface MemberRecord {
+  state: FhrpState;
+  stateChanges: number;
+  lastStateChange: number;
+  lastHeard?: number;
+}
+
+const memberKey = (member: Pick<FhrpMember, 'deviceId' | 'interfaceId'>): string => `${member.deviceId}|${member.interfaceId}`;
+
+/** MAC address the routers of a group answer for: 0000.0c07.acXX for HSRP, 0000.5e00.01XX for VRRP */
+export const getFhrpVirtualMac = (protocol: FhrpProtocol, group: number): string => {
+  const suffix = group.toString(16).toUpperCase().padStart(2, '0');
+  return protocol === 'hsrp' ? `00:00:0C:07:AC:${suffix}` : `00:00:5E:00:01:${suffix}`;
+};
+
+/** How show standby and show vrrp name a state */
+export const getFhrpStateName = (protocol: FhrpProtocol, state: FhrpState): string => {
+  if (protocol === 'vrrp') {
+    return state === 'active' ? 'Master' : state === 'init' ? 'Init' : 'Backup';
+  }
+  return state.charAt(0).toUpperCase() + state.slice(1);
+};
+
+/** Seconds between hellos (HSRP) or advertisements (VRRP) */
+export const getFhrpHelloTime = (config: FhrpGroupConfig): number =>
+  config.helloTime ?? (config.protocol === 'hsrp' ? HSRP_DEFAULT_HELLO_TIME : VRRP_DEFAULT_ADVERTISEMENT_INTERVAL);
+
+/**
+ * Seconds the other routers wait for hellos before taking over: the HSRP hold time, or the
+ * VRRP master down interval of three advertisements plus a skew that favours high priorities
+ */
+export const getFhrpHoldTime = (config: FhrpGroupConfig, priority: number = config.priority ?? FHRP_DEFAULT_PRIORITY): number =>
+  config.protocol === 'hsrp'
+    ? config.holdTime ?? HSRP_DEFAULT_HOLD_TIME
+    : 3 * getFhrpHelloTime(config) + (256 - priority) / 256;
+
+/** Whether a group takes over from an active router of lower priority; VRRP does unless told not to */
+export const isFhrpPreempt = (config: FhrpGroupConfig): boolean => config.preempt ?? config.protocol === 'vrrp';
+
+const getInterfaces = (device: NetworkDevice): NetworkInterface[] =>
+  'interfaces' in device && Array.isArray(device.interfaces) ? device.interfaces as NetworkInterface[] : [];
+
+/**
+ * Why an interface passes no traffic, or undefined when it does: it must be up, its device on,
+ * and a link that is up plugged into it. An SVI is up while its VLAN exists.
+ */
+const describeInterfaceDown = (
+  device: NetworkDevice,
+  iface: NetworkInterface,
+  connections: Connection[],
+  isLinkFailed?: (connectionId: string) => boolean
+): string | undefined => {
+  if (device.status !== DeviceStatus.ACTIVE) return `${device.name} is ${device.status}`;
+  if (iface.sviVlan !== undefined) {
+    return isSviUp(device as MultilayerSwitchDevice, iface) ? undefined : `${iface.name} is down`;
+  }
+  const interfaces = getInterfaces(device);
+  const physical = getPhysicalInterface(interfaces, iface);
+  if (!physical || !isInterfaceOperational(interfaces, iface)) {
+    const down = iface.status !== InterfaceStatus.UP ? iface : physical;
+    return `${down?.name ?? iface.name} is ${(down?.status ?? InterfaceStatus.DOWN).replace('_', '-')}`;
+  }
+  const connection = connections.find(c =>
+    (c.sourceDevice === device.id && (c.sourceInterface === physical.id || c.sourceInterface === physical.name)) ||
+    (c.targetDevice === device.id && (c.targetInterface === physical.id || c.targetInterface === physical.name))
+  );
+  if (!connection) return `${physical.name} is not connected`;
+  if (connection.status === ConnectionStatus.DOWN || isLinkFailed?.(connection.id)) return `the link on ${physical.name} is down`;
+  return undefined;
+};
+
+/**
+ * Highest priority first, the highest interface address breaking ties
+ */
+const compareMembers = (a: FhrpMember, b: FhrpMember): number => {
+  if (a.priority !== b.priority) return b.priority - a.priority;
+  const toNumber = (ip?: string) => (ip ?? '0.0.0.0').split('.').reduce((n, octet) => n * 256 + Number(octet), 0);
+  return toNumber(b.address) - toNumber(a.address);
+};
+
+/**
+ * Gather the HSRP and VRRP groups configured on router interfaces and SVIs, evaluating each
+ * interface and the interfaces it tracks. Interfaces of one subnet with the same protocol and
+ * group number form a group; an interface without an address forms one on its own.
+ */
+const collectGroups = (
+  devices: NetworkDevice[],
+  connections: Connection[],
+  isLinkFailed?: (connectionId: string) => boolean
+): FhrpGroup[] => {
+  const groups = new Map<string, FhrpGroup>();
+
+  devices
+    .filter(d => d.type === DeviceType.ROUTER || d.type === DeviceType.MULTILAYER_SWITCH)
+    .forEach(device => {
+      const interfaces = getInterfaces(device);
+      interfaces.forEach(iface => (iface.fhrpGroups ?? []).forEach(config => {
+        const subnet = iface.ipAddress ? SubnetCalculator.parseSubnet(iface.ipAddress) : undefined;
+        const segment = subnet
+          ? `${SubnetCalculator.getNetworkAddress(subnet.network, subnet.mask)}/${subnet.prefixLength}`
+          : `${device.id}|${iface.id}`;
+        const id = `${config.protocol}:${config.group}:${segment}`;
+
+        const down = subnet ? describeInterfaceDown(device, iface, connections, isLinkFailed) : `${iface.name} has no IP address`;
+        const downTracks = (config.track ?? []).filter(track => {
+          const tracked = interfaces.find(i => i.name === track.interface);
+          return !tracked || !!describeInterfaceDown(device, tracked, connections, isLinkFailed);
+        });
+        const configured = config.priority ?? FHRP_DEFAULT_PRIORITY;
+        // A VRRP router whose own address is the virtual one owns it, and always wins at 255
+        const owner = config.protocol === 'vrrp' && !!subnet && subnet.network === config.virtualIp;
+        const decrement = downTracks.reduce((total, track) => total + (track.decrement ?? FHRP_DEFAULT_TRACK_DECREMENT), 0);
+        const physical = getPhysicalInterface(interfaces, iface);
+
+        const member: FhrpMember = {
+          deviceId: device.id,
+          deviceName: device.name,
+          interfaceId: iface.id,
+          interfaceName: iface.name,
+          address: subnet?.network,
+          config,
+          priority: owner ? 255 : Math.max(0, configured - decrement),
+          preempt: owner || isFhrpPreempt(config),
+          up: !down,
+          reason: down,
+          resigned: iface.status === InterfaceStatus.ADMIN_DOWN || physical?.status === InterfaceStatus.ADMIN_DOWN,
+          downTracks: downTracks.map(t => t.interface),
+          state: 'init',
+          stateChanges: 0,
+          lastStateChange: 0,
+        };
+
+        const group = groups.get(id);
+        if (group) {
+          group.members.push(member);
+          return;
+        }
+        groups.set(id, {
+          id,
+          protocol: config.protocol,
+          group: config.group,
+          virtualMac: getFhrpVirtualMac(config.protocol, config.group),
+          helloTime: getFhrpHelloTime(config),
+          holdTime: getFhrpHoldTime(config),
+          members: [member],
+        });
+      }));
+    });
+
+  return Array.from(groups.values());
+};
+
+/**
+ * HSRP and VRRP elections. The group configuration lives on the router interfaces; the engine
+ * keeps who is active in each group and when every router last sent a hello, so roles survive
+ * topology changes the way they do on real routers: a router that goes silent keeps its role
+ * until its hold time runs out, while one whose interface is shut down resigns at once. A
+ * router of higher priority only takes the active role over when it preempts.
+ */
+export class FhrpEngine {
+  private records = new Map<string, MemberRecord>(); // groupId|deviceId|interfaceId -> state of a member
+  private actives = new Map<string, string>(); // groupId -> deviceId|interfaceId of the active router
+  private groups: FhrpGroup[] = [];
+  private clock = 0; // ms of simulated time
+
+  /**
+   * Let simulated time pass; elections catch up on the next update
+   */
+  advanceClock(elapsed: number): void {
+    this.clock += elapsed;
+  }
+
+  /**
+   * Current simulated time, what hold times run out against
+   */
+  getClock(): number {
+    return this.clock;
+  }
+
+  /**
+   * Run the election of every group on the current topology and return the routers that became active
+   */
+  update(devices: NetworkDevice[], connections: Connection[], isLinkFailed?: (connectionId: string) => boolean): FhrpTakeover[] {
+    const takeovers: FhrpTakeover[] = [];
+    const groups = collectGroups(devices, connections, isLinkFailed);
+    const known = new Set<string>();
+
+    groups.forEach(group => {
+      const recordOf = (member: FhrpMember): MemberRecord => {
+        const key = `${group.id}|${memberKey(member)}`;
+        known.add(key);
+        let record = this.records.get(key);
+        if (!record) {
+          record = { state: 'init', stateChanges: 0, lastStateChange: this.clock };
+          this.records.set(key, record);
+        }
+        return record;
+      };
+      group.members.forEach(member => {
+        const record = recordOf(member);
+        if (member.up) record.lastHeard = this.clock;
+      });
+
+      const previousKey = this.actives.get(group.id);
+      const previous = group.members.find(m => memberKey(m) === previousKey);
+      // A silent active router is heard from until its hold time runs out
+      const present = (member: FhrpMember): boolean => {
+        const lastHeard = recordOf(member).lastHeard;
+        return member.up || (!member.resigned && lastHeard !== undefined &&
+          this.clock - lastHeard < getFhrpHoldTime(member.config, member.priority) * 1000);
+      };
+      const candidates = group.members.filter(m => m.up).sort(compareMembers);
+      const previousStandby = group.members.find(m => m.up && recordOf(m).state === 'standby');
+
+      let active = previous && present(previous) ? previous : undefined;
+      if (!active) {
+        // The HSRP standby router is the one that takes over
+        active = (group.protocol === 'hsrp' ? previousStandby : undefined) ?? candidates[0];
+      } else {
+        const challenger = candidates.find(m => m !== active && m.preempt && m.priority > active!.priority);
+        if (challenger) active = challenger;
+      }
+      const standby = candidates.find(m => m !== active);
+
+      group.active = active;
+      group.standby = group.protocol === 'hsrp' ? standby : undefined;
+      group.virtualIp = active?.config.virtualIp ?? group.members.find(m => m.config.virtualIp)?.config.virtualIp;
+      group.helloTime = getFhrpHelloTime((active ?? group.members[0]).config);
+      group.holdTime = getFhrpHoldTime((active ?? group.members[0]).config, active?.priority);
+
+      group.members.forEach(member => {
+        const record = recordOf(member);
+        let state: FhrpState = 'listen';
+        if (!member.up) state = 'init';
+        else if (member === active) state = 'active';
+        else if (member === standby || group.protocol === 'vrrp') state = 'standby';
+        if (state !== record.state) {
+          record.state = state;
+          record.stateChanges++;
+          record.lastStateChange = this.clock;
+        }
+        member.state = state;
+        member.stateChanges = record.stateChanges;
+        member.lastStateChange = record.lastStateChange;
+        member.lastHeard = record.lastHeard;
+      });
+
+      if (active) {
+        this.actives.set(group.id, memberKey(active));
+        if (memberKey(active) !== previousKey && active.up) {
+          takeovers.push({ group, member: active, previous });
+        }
+      } else {
+        this.actives.delete(group.id);
+      }
+    });
+
+    // Forget groups and members that are no longer configured
+    this.records.forEach((_, key) => {
+      if (!known.has(key)) this.records.delete(key);
+    });
+    this.actives.forEach((_, id) => {
+      if (!groups.some(g => g.id === id)) this.actives.delete(id);
+    });
+    this.groups = groups;
+    return takeovers;
+  }
+
+  /**
+   * Groups with the outcome of their elections on the current topology
+   */
+  getGroups(devices: NetworkDevice[], connections: Connection[], isLinkFailed?: (connectionId: string) => boolean): FhrpGroup[] {
+    this.update(devices, connections, isLinkFailed);
+    return this.groups;
+  }
+
+  /**
+   * Group whose virtual IP address a device answers for, as its active router, as of the last update
+   */
+  findActiveGroupByIp(deviceId: string, ip: string): FhrpGroup | undefined {
+    return this.groups.find(g => g.virtualIp === ip && g.active?.deviceId === deviceId && g.active.up);
+  }
+
+  /**
+   * Group whose virtual MAC address a device receives frames for, as its active router, as of the last update
+   */
+  findActiveGroupByMac(deviceId: string, mac: string): FhrpGroup | undefined {
+    return this.groups.find(g =>
+      g.virtualMac.toLowerCase() === mac.toLowerCase() && g.active?.deviceId === deviceId && g.active.up
+    );
+  }
+}
+
+export const fhrpEngine = new FhrpEngine();
+
+/**
+ * Canvas badges naming the groups a device is active for, e.g. HSRP Active or VRRP Master ×2
+ */
+export const getFhrpBadges = (groups: FhrpGroup[]): Map<string, string> => {
+  const counts = new Map<string, Map<string, number>>(); // deviceId -> label -> groups
+  groups.forEach(group => {
+    if (!group.active?.up) return;
+    const label = `${group.protocol.toUpperCase()} ${getFhrpStateName(group.protocol, 'active')}`;
+    const labels = counts.get(group.active.deviceId) ?? new Map<string, number>();
+    labels.set(label, (labels.get(label) ?? 0) + 1);
+    counts.set(group.active.deviceId, labels);
+  });
+
+  const badges = new Map<string, string>();
+  counts.forEach((labels, deviceId) => {
+    badges.set(deviceId, Array.from(labels).map(([label, count]) => count > 1 ? `${label} ×${count}` : label).join(' · '));
+  });
+  return badges;
+};
@@ -0,0 +1,155 @@
+import { NetworkInterface } from '../../types';
+import { IPv6AddressUtils } from './ipAddressManager';
+
+const INTERFACE_TYPE_NAMES: Record<string, string> = {
+  fa: 'FastEthernet',
+  gi: 'GigabitEthernet',
+  te: 'TenGigabitEthernet',
+  eth: 'Ethernet',
+  e: 'Ethernet',
+  se: 'Serial',
+  vlan: 'Vlan',
+};
+
+/**
+ * Dotted-decimal IPv4 address check
+ */
+export const isIpAddress = (value: string): boolean => {
+  const parts = value.split('.');
+  return parts.length === 4 && parts.every(p => /^\d{1,3}$/.test(p) && Number(p) <= 255);
+};
+
+/**
+ * IPv6 address check, e.g. 2001:db8::1
+ */
+export const isIpv6Address = (value: string): boolean => IPv6AddressUtils.isValid(value);
+
+/**
+ * IPv6 address or prefix with its length, e.g. 2001:db8:10::/64
+ */
+export const isIpv6Prefix = (value: string): boolean => IPv6AddressUtils.parseCidr(value) !== null;
+
+/**
+ * Contiguous subnet mask check (255.255.255.0 is valid, 255.0.255.0 is not)
+ */
+export const isSubnetMask = (value: string): boolean => {
+  if (!isIpAddress(value)) return false;
+  const bits = value.split('.').map(Number).reduce((acc, octet) => (acc << 8) + octet, 0) >>> 0;
+  const inverted = (~bits) >>> 0;
+  return (inverted & (inverted + 1)) === 0;
+};
+
+/**
+ * Wildcard mask check (inverse of a contiguous subnet mask)
+ */
+export const isWildcardMask = (value: string): boolean => {
+  if (!isIpAddress(value)) return false;
+  const inverted = value.split('.').map(p => String(255 - Number(p))).join('.');
+  return isSubnetMask(inverted);
+};
+
+/**
+ * VLAN list syntax check, e.g. "10,20-22"
+ */
+export const isVlanList = (value: string): boolean => /^\d+(-\d+)?(,\d+(-\d+)?)*$/.test(value);
+
+/**
+ * Expand a VLAN list such as "10,20-22" into individual VLAN IDs
+ */
+export const parseVlanList = (value: string): number[] => {
+  const vlans = new Set<number>();
+  value.split(',').forEach(part => {
+    const [start, end] = part.split('-').map(Number);
+    for (let v = start; v <= (end ?? start); v++) {
+      vlans.add(v);
+    }
+  });
+  return Array.from(vlans).sort((a, b) => a - b);
+};
+
+/**
+ * Compress VLAN IDs into IOS list notation, e.g. [10, 20, 21, 22] -> "10,20-22"
+ */
+export const formatVlanList = (vlanIds: number[]): string => {
+  const sorted = Array.from(new Set(vlanIds)).sort((a, b) => a - b);
+  const ranges: string[] = [];
+  let start = sorted[0];
+  let prev = sorted[0];
+  for (const id of sorted.slice(1).concat(NaN)) {
+    if (id === prev + 1) {
+      prev = id;
+      continue;
+    }
+    ranges.push(start === prev ? `${start}` : `${start}-${prev}`);
+    start = id;
+    prev = id;
+  }
+  return sorted.length > 0 ? ranges.join(',') : '';
+};
+
+/**
+ * MAC address check, in IOS dotted form (0011.2233.4455) or colon form (00:11:22:33:44:55)
+ */
+export const isMacAddress = (value: string): boolean =>
+  /^[0-9a-f]{4}\.[0-9a-f]{4}\.[0-9a-f]{4}$/i.test(value) || /^[0-9a-f]{2}(:[0-9a-f]{2}){5}$/i.test(value);
+
+/**
+ * MAC address in the colon form devices store, e.g. 0011.2233.4455 -> 00:11:22:33:44:55
+ */
+export const parseMacAddress = (value: string): string =>
+  value.replace(/[.:]/g, '').toLowerCase().match(/../g)!.join(':');
+
+/**
+ * MAC address in IOS dotted form, e.g. 00:11:22:33:44:55 -> 0011.2233.4455
+ */
+export const formatMacAddress = (mac: string): string =>
+  mac.replace(/[.:-]/g, '').toLowerCase().match(/.{4}/g)!.join('.');
+
+/**
+ * Expand a short interface name to its full IOS form (Gi0/1 -> GigabitEthernet0/1)
+ */
+export const expandInterfaceName = (name: string): string => {
+  const match = name.match(/^([A-Za-z-]+)\s*([\d/.:]+)$/);
+  if (!match) return name;
+  const longName = INTERFACE_TYPE_NAMES[match[1].toLowerCase()];
+  return longName ? `${longName}${match[2]}` : name;
+};
+
+/**
+ * Shorten a full IOS interface name to the form used by the simulator (GigabitEthernet0/1 -> Gi0/1)
+ */
+export const abbreviateInterfaceName = (name: string): string => {
+  const match = name.match(/^([A-Za-z-]+)\s*([\d/.:]+)$/);
+  if (!match) return name;
+  const type = match[1].toLowerCase();
+  const longName = INTERFACE_TYPE_NAMES[type] ?? Object.values(INTERFACE_TYPE_NAMES).find(v => v.toLowerCase() === type);
+  const short = Object.keys(INTERFACE_TYPE_NAMES).find(key => INTERFACE_TYPE_NAMES[key] === longName);
+  if (!short) return name;
+  const display = short === 'vlan' ? 'Vlan' : short.charAt(0).toUpperCase() + short.slice(1);
+  return `${display}${match[2]}`;
+};
+
+/**
+ * Resolve a possibly abbreviated interface name (gi0/1, GigabitEthernet0/1)
+ * against the names configured on a device
+ */
+export const resolveInterfaceName = (input: string, interfaces: NetworkInterface[]): string | undefined => {
+  const exact = interfaces.find(i => i.name.toLowerCase() === input.toLowerCase());
+  if (exact) return exact.name;
+
+  const split = (name: string) => {
+    const match = name.toLowerCase().match(/^([a-z-]+)\s*([\d/.:]+)$/);
+    return match ? { type: match[1], number: match[2] } : undefined;
+  };
+
+  const wanted = split(input);
+  if (!wanted) return undefined;
+
+  const match = interfaces.find(iface => {
+    const parsed = split(iface.name);
+    if (!parsed || parsed.number !== wanted.number) return false;
+    const longName = (INTERFACE_TYPE_NAMES[parsed.type] ?? parsed.type).toLowerCase();
+    return longName.startsWith(wanted.type) || parsed.type.startsWith(wanted.type);
+  });
+  return match?.name;
+};
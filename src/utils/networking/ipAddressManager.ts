@@ -7,6 +7,7 @@ import {
   DeviceType,
   NetworkInterface,
   SubnetInfo,
+  Ipv6InterfaceAddress,
 } from '../../types';
 
 /**
@@ -188,6 +189,7 @@ export class IPAddressUtils {
         return this.getNextAvailableIP(subnetAllocation.usableStart, this.numberToIp(start + 9), usedIps);
       
       case DeviceType.SWITCH:
+      case DeviceType.MULTILAYER_SWITCH:
         // Switches get IPs 10-19
         return this.getNextAvailableIP(this.numberToIp(start + 10), this.numberToIp(start + 19), usedIps);
       
@@ -222,6 +224,164 @@ export class IPAddressUtils {
   }
 }
 
+/**
+ * IPv6 address utilities. Addresses are handled as 128-bit BigInts and printed in the
+ * compressed form RFC 5952 recommends: lowercase, the longest run of zero groups as ::.
+ */
+export class IPv6AddressUtils {
+  static readonly ALL_NODES = 'ff02::1';
+  static readonly ALL_ROUTERS = 'ff02::2';
+
+  /**
+   * Parse an address into a number, null if it is not a valid IPv6 address
+   */
+  static parse(address: string): bigint | null {
+    const text = address.trim().toLowerCase();
+    const halves = text.split('::');
+    if (!/^[0-9a-f:]+$/.test(text) || halves.length > 2) return null;
+
+    const head = halves[0] ? halves[0].split(':') : [];
+    const tail = halves.length === 2 && halves[1] ? halves[1].split(':') : [];
+    const missing = 8 - head.length - tail.length;
+    // :: stands for at least one zero group; without it all eight groups must be there
+    if (halves.length === 2 ? missing < 1 : missing !== 0) return null;
+
+    const groups = [...head, ...Array<string>(halves.length === 2 ? missing : 0).fill('0'), ...tail];
+    if (groups.some(group => !/^[0-9a-f]{1,4}$/.test(group))) return null;
+    return groups.reduce((value, group) => (value << 16n) | BigInt(parseInt(group, 16)), 0n);
+  }
+
+  static isValid(address: string): boolean {
+    return this.parse(address) !== null;
+  }
+
+  /**
+   * Print an address in its compressed form
+   */
+  static format(value: bigint): string {
+    const groups = Array.from({ length: 8 }, (_, i) => Number((value >> BigInt(112 - i * 16)) & 0xffffn));
+
+    // Longest run of two or more zero groups, the first one on a tie
+    let runStart = -1;
+    let runLength = 1;
+    for (let i = 0; i < 8; ) {
+      let end = i;
+      while (end < 8 && groups[end] === 0) end++;
+      if (end - i > runLength) {
+        runStart = i;
+        runLength = end - i;
+      }
+      i = Math.max(end, i + 1);
+    }
+
+    const hex = groups.map(group => group.toString(16));
+    if (runStart < 0) return hex.join(':');
+    return `${hex.slice(0, runStart).join(':')}::${hex.slice(runStart + runLength).join(':')}`;
+  }
+
+  /**
+   * Compressed form of an address; invalid input is returned unchanged
+   */
+  static normalize(address: string): string {
+    const value = this.parse(address);
+    return value === null ? address : this.format(value);
+  }
+
+  /**
+   * Split 2001:db8::1/64 into address and prefix length, null if either part is invalid
+   */
+  static parseCidr(cidr: string): { address: string; prefixLength: number } | null {
+    const [address, prefix, extra] = cidr.split('/');
+    if (extra !== undefined || !/^\d{1,3}$/.test(prefix ?? '') || Number(prefix) > 128 || !this.isValid(address)) {
+      return null;
+    }
+    return { address: this.normalize(address), prefixLength: Number(prefix) };
+  }
+
+  /**
+   * Network part of an address, e.g. 2001:db8:1:: for 2001:db8:1::10/64
+   */
+  static getPrefix(address: string, prefixLength: number): string {
+    return this.format((this.parse(address) ?? 0n) & this.prefixMask(prefixLength));
+  }
+
+  static isInPrefix(address: string, prefix: string, prefixLength: number): boolean {
+    const value = this.parse(address);
+    const network = this.parse(prefix);
+    if (value === null || network === null) return false;
+    const mask = this.prefixMask(prefixLength);
+    return (value & mask) === (network & mask);
+  }
+
+  static isLinkLocal(address: string): boolean {
+    return this.isInPrefix(address, 'fe80::', 10);
+  }
+
+  static isMulticast(address: string): boolean {
+    return this.isInPrefix(address, 'ff00::', 8);
+  }
+
+  /**
+   * Modified EUI-64 interface ID: ff:fe inserted into the middle of the MAC address and
+   * the universal/local bit flipped
+   */
+  static eui64InterfaceId(mac: string): bigint {
+    const bytes = (mac.replace(/[^0-9a-f]/gi, '').padStart(12, '0').match(/../g) ?? []).map(byte => parseInt(byte, 16));
+    bytes[0] ^= 0x02;
+    return [...bytes.slice(0, 3), 0xff, 0xfe, ...bytes.slice(3, 6)].reduce((value, byte) => (value << 8n) | BigInt(byte), 0n);
+  }
+
+  /**
+   * Address built from a /64 prefix and the EUI-64 interface ID of a MAC address
+   */
+  static eui64Address(prefix: string, mac: string): string {
+    return this.format(((this.parse(prefix) ?? 0n) & this.prefixMask(64)) | this.eui64InterfaceId(mac));
+  }
+
+  static linkLocalAddress(mac: string): string {
+    return this.eui64Address('fe80::', mac);
+  }
+
+  /**
+   * Solicited-node multicast group of an address (ff02::1:ffXX:XXXX), where neighbor solicitations for it are sent
+   */
+  static solicitedNodeAddress(address: string): string {
+    return this.format((0xff02n << 112n) | (1n << 32n) | (0xffn << 24n) | ((this.parse(address) ?? 0n) & 0xffffffn));
+  }
+
+  /**
+   * Ethernet address a multicast group is sent to: 33:33 and the low 32 bits of the group
+   */
+  static multicastMac(group: string): string {
+    const low = (this.parse(group) ?? 0n) & 0xffffffffn;
+    const bytes = [24n, 16n, 8n, 0n].map(shift => ((low >> shift) & 0xffn).toString(16).padStart(2, '0'));
+    return ['33', '33', ...bytes].join(':');
+  }
+
+  static isMulticastMac(mac: string): boolean {
+    return mac.toLowerCase().startsWith('33:33:');
+  }
+
+  /**
+   * Configured addresses of an interface, link-local first. IPv6 is on when the interface
+   * has an address, ipv6 enable or ipv6 address autoconfig; unless one is configured, the
+   * link-local address is derived from the MAC address.
+   */
+  static getInterfaceAddresses(iface: NetworkInterface): Ipv6InterfaceAddress[] {
+    const configured = iface.ipv6Addresses ?? [];
+    if (configured.length === 0 && !iface.ipv6Enabled && !iface.ipv6Autoconfig) return [];
+
+    const linkLocal = configured.find(a => a.origin === 'link-local')
+      ?? { address: this.linkLocalAddress(iface.macAddress), prefixLength: 64, origin: 'link-local' as const };
+    return [linkLocal, ...configured.filter(a => a.origin !== 'link-local')];
+  }
+
+  private static prefixMask(prefixLength: number): bigint {
+    const all = (1n << 128n) - 1n;
+    return all ^ ((1n << BigInt(128 - prefixLength)) - 1n);
+  }
+}
+
 /**
  * DHCP Server implementation
  */
@@ -691,6 +851,7 @@ export class NetworkIPManager {
     switch (device.type) {
       case DeviceType.ROUTER:
       case DeviceType.SWITCH:
+      case DeviceType.MULTILAYER_SWITCH:
         return vlans[0] || 1; // Management VLAN
         
       case DeviceType.SERVER:
@@ -1,4 +1,7 @@
-import { Connection, NetworkDevice, DeviceType, InterfaceType, Vlan } from '../../types';
+import { Connection, NetworkDevice, InterfaceType, Vlan } from '../../types';
+import { getSubinterfaceTrunkIssues } from './subinterfaces';
+import { getDtpIssues } from './dynamicTrunking';
+import { isSwitchingDevice, isSwitchport } from './multilayerSwitch';
 
 export type LinkHealthStatus = 'ok' | 'warn' | 'error';
 
@@ -94,13 +97,23 @@ export const evaluateConnectionHealth = (
 
   // L2 VLAN allowance
   let l2ok = true;
-  if (src.type === DeviceType.SWITCH && dst.type === DeviceType.SWITCH) {
+  let trunkingOk = true;
+  // Routed ports and SVIs of a multilayer switch do not switch
+  const srcSwitched = isSwitchingDevice(src) && (!srcIf || isSwitchport(srcIf));
+  const dstSwitched = isSwitchingDevice(dst) && (!dstIf || isSwitchport(dstIf));
+  if (srcSwitched && dstSwitched) {
     if (!anyAllowedVlanOnSwitchLink(src, srcIf, dst, dstIf)) {
       l2ok = false;
       reasons.push('No common VLAN allowed on trunk/access between switches');
     }
-  } else if (src.type === DeviceType.SWITCH || dst.type === DeviceType.SWITCH) {
-    const sw = (src.type === DeviceType.SWITCH ? src : dst) as any;
+    // DTP left the link access or the ends disagree on trunking; traffic of one VLAN may still pass
+    const dtpIssues = getDtpIssues(connection, devices);
+    if (dtpIssues.length > 0) {
+      trunkingOk = false;
+      reasons.push(...dtpIssues);
+    }
+  } else if (srcSwitched || dstSwitched) {
+    const sw = (srcSwitched ? src : dst) as any;
     const swIf = getInterfaceById(sw, sw.id === connection.sourceDevice ? connection.sourceInterface : connection.targetInterface);
     const inferred = inferHostVlanFromSwitchPort(swIf);
     if (swIf?.type === InterfaceType.TRUNK && inferred === undefined) {
@@ -108,6 +121,12 @@ export const evaluateConnectionHealth = (
       reasons.push('Trunk port has no native VLAN for untagged host');
     }
     // Access ports are considered OK; trunk with native VLAN is OK
+    // A router on a stick needs a trunk carrying the VLANs of its subinterfaces
+    const trunkIssues = getSubinterfaceTrunkIssues(connection, devices);
+    if (trunkIssues.length > 0) {
+      l2ok = false;
+      reasons.push(...trunkIssues);
+    }
   }
 
   // Basic L3 plausibility (direct link only): if both endpoints have IP addresses, check same subnet
@@ -124,6 +143,6 @@ export const evaluateConnectionHealth = (
 
   const srcOk = l1ok && l2ok;
   const dstOk = l1ok && l2ok;
-  const status: LinkHealthStatus = srcOk && dstOk ? (l3plausible ? 'ok' : 'warn') : 'error';
+  const status: LinkHealthStatus = srcOk && dstOk ? (l3plausible && trunkingOk ? 'ok' : 'warn') : 'error';
   return { status, srcOk, dstOk, reasons };
 };
\ No newline at end of file
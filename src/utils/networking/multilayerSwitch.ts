@@ -0,0 +1,65 @@
+import {
+  NetworkDevice,
+  NetworkInterface,
+  SwitchingDevice,
+  MultilayerSwitchDevice,
+  DeviceType,
+  InterfaceStatus,
+  InterfaceType,
+} from '../../types';
+
+/**
+ * Whether a device switches frames between VLAN ports: a switch or a multilayer switch
+ */
+export const isSwitchingDevice = (device: NetworkDevice | undefined): device is SwitchingDevice =>
+  device?.type === DeviceType.SWITCH || device?.type === DeviceType.MULTILAYER_SWITCH;
+
+/**
+ * VLAN of an SVI name such as Vlan10 or "vlan 10"
+ */
+export const parseSviName = (name: string): number | undefined => {
+  const match = name.replace(/\s+/g, '').match(/^vlan(\d+)$/i);
+  return match ? Number(match[1]) : undefined;
+};
+
+/**
+ * Whether an interface switches frames, rather than being an SVI or a routed port
+ */
+export const isSwitchport = (iface: NetworkInterface): boolean => !iface.routedPort && iface.sviVlan === undefined;
+
+/**
+ * Ports of a switch that switch frames
+ */
+export const getSwitchports = (device: SwitchingDevice): NetworkInterface[] => device.interfaces.filter(isSwitchport);
+
+/**
+ * SVIs of a multilayer switch in VLAN order
+ */
+export const getSvis = (device: SwitchingDevice): NetworkInterface[] =>
+  device.interfaces.filter(i => i.sviVlan !== undefined).sort((a, b) => a.sviVlan! - b.sviVlan!);
+
+/**
+ * SVI that routes for a VLAN
+ */
+export const findSvi = (device: SwitchingDevice, vlanId: number): NetworkInterface | undefined =>
+  device.interfaces.find(i => i.sviVlan === vlanId);
+
+/**
+ * Whether an SVI passes traffic: it is not shut down and its VLAN exists on the switch
+ */
+export const isSviUp = (device: SwitchingDevice, svi: NetworkInterface): boolean =>
+  svi.status === InterfaceStatus.UP && device.vlanDatabase.some(v => v.id === svi.sviVlan);
+
+/**
+ * Create the SVI of a VLAN, e.g. Vlan10. SVIs share the switch's base MAC address, that of its first port.
+ */
+export const createSvi = (device: MultilayerSwitchDevice, vlanId: number): NetworkInterface => ({
+  id: `${device.id}-vlan${vlanId}`,
+  name: `Vlan${vlanId}`,
+  type: InterfaceType.ETHERNET,
+  status: InterfaceStatus.UP,
+  macAddress: getSwitchports(device)[0]?.macAddress ?? device.interfaces[0]?.macAddress ?? '00:00:00:00:00:00',
+  speed: 1000,
+  duplex: 'full',
+  sviVlan: vlanId,
+});
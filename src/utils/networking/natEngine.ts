@@ -0,0 +1,357 @@
+import { RouterDevice, NatConfig } from '../../types';
+import { TcpFlag } from '../../types/simulation';
+import { IPAddressUtils } from './ipAddressManager';
+
+/**
+ * Address and port on one side of a translation
+ */
+export interface NatEndpoint {
+  ip: string;
+  port?: number;
+}
+
+/**
+ * Entry in a router's translation table. Simple entries map an inside local address
+ * to an inside global one; extended entries also record the ports and the outside host
+ * of one flow, which is what lets PAT tell the replies of different inside hosts apart.
+ */
+export interface NatTranslation {
+  id: string;
+  protocol?: string; // 'tcp', 'udp', 'icmp' or 'ip'; absent for simple entries
+  insideLocal: NatEndpoint;
+  insideGlobal: NatEndpoint;
+  outside?: NatEndpoint; // outside local and outside global, the same as outside addresses are not translated
+  origin: 'static' | 'dynamic' | 'overload';
+  createdAt: number; // NAT clock, ms
+  lastUsed: number;
+  expiresAt: number; // Infinity for static mappings
+  hits: number;
+}
+
+/**
+ * A packet as NAT sees it
+ */
+export interface NatFlow {
+  protocol: string;
+  srcIp: string;
+  dstIp: string;
+  srcPort?: number;
+  dstPort?: number;
+  tcpFlags?: number;
+}
+
+/**
+ * Outcome of running a packet through NAT. Packets no rule applies to are not translated
+ * and not dropped; only an exhausted pool fails a translation.
+ */
+export interface NatResult {
+  translated: boolean;
+  failed?: boolean;
+  flow: NatFlow;
+  reason: string;
+}
+
+/**
+ * Whether an ACL permits a flow, used to pick the dynamic rule for an inside source
+ */
+export type NatAclCheck = (aclName: string, flow: NatFlow) => boolean;
+
+/**
+ * Translation timeouts in ms of simulated time, the IOS defaults
+ */
+export const NAT_TRANSLATION_TIMEOUTS = {
+  simple: 86400000,
+  tcp: 86400000,
+  tcpFinRst: 60000,
+  udp: 300000,
+  icmp: 60000,
+};
+
+/**
+ * First port PAT allocates when the inside port is already taken on the global address
+ */
+const PAT_FIRST_PORT = 1024;
+
+/**
+ * Address as show ip nat translations prints it, e.g. 203.0.113.1:1024
+ */
+export const formatNatEndpoint = (end?: NatEndpoint): string => {
+  if (!end) return '---';
+  return end.port !== undefined ? `${end.ip}:${end.port}` : end.ip;
+};
+
+const emptyNatConfig = (): NatConfig => ({ staticEntries: [], pools: [], dynamicRules: [] });
+
+const endpointKey = (end: NatEndpoint): string => `${end.ip}:${end.port ?? ''}`;
+
+const insideKey = (protocol: string, local: NatEndpoint, outside: NatEndpoint): string =>
+  `in|${protocol}|${endpointKey(local)}>${endpointKey(outside)}`;
+
+const globalKey = (protocol: string, global: NatEndpoint, outside: NatEndpoint): string =>
+  `out|${protocol}|${endpointKey(global)}<${endpointKey(outside)}`;
+
+/**
+ * Network address translation on routers. NAT rules are part of the router configuration;
+ * the engine keeps the translation table of every router and rewrites packets routed
+ * between inside and outside interfaces.
+ */
+export class NatEngine {
+  private tables = new Map<string, Map<string, NatTranslation>>(); // deviceId -> key -> translation
+  private clock = 0; // ms of simulated time
+
+  /**
+   * Let simulated time pass, expiring idle dynamic translations
+   */
+  advanceClock(elapsed: number): void {
+    this.clock += elapsed;
+    this.tables.forEach(table => {
+      table.forEach((entry, key) => {
+        if (entry.expiresAt <= this.clock) table.delete(key);
+      });
+    });
+  }
+
+  /**
+   * Current simulated time, what translation timestamps are measured against
+   */
+  getClock(): number {
+    return this.clock;
+  }
+
+  /**
+   * Translations of a router: the configured static mappings followed by the table entries
+   */
+  getTranslations(router: RouterDevice): NatTranslation[] {
+    const table = this.tables.get(router.id);
+    const configured = (router.nat ?? emptyNatConfig()).staticEntries.map(entry => ({
+      id: `static-${entry.insideLocal}`,
+      insideLocal: { ip: entry.insideLocal },
+      insideGlobal: { ip: entry.insideGlobal },
+      origin: 'static' as const,
+      createdAt: 0,
+      lastUsed: 0,
+      expiresAt: Infinity,
+      hits: 0,
+    }));
+    // Each extended entry is stored under both lookup keys
+    const entries = new Set(table?.values() ?? []);
+    return [...configured, ...entries];
+  }
+
+  /**
+   * Clear the dynamic translations of one router, or of all of them
+   */
+  clearTranslations(deviceId?: string): void {
+    if (deviceId) {
+      this.tables.delete(deviceId);
+    } else {
+      this.tables.clear();
+    }
+  }
+
+  /**
+   * Whether a router answers for an address as an inside global: static mappings and pool addresses
+   */
+  ownsGlobalAddress(router: RouterDevice, ip: string): boolean {
+    const nat = router.nat;
+    if (!nat) return false;
+    if (nat.staticEntries.some(entry => entry.insideGlobal === ip)) return true;
+    const toNumber = (address: string) => IPAddressUtils.ipToNumber(address) >>> 0;
+    return nat.pools.some(pool => toNumber(ip) >= toNumber(pool.startIp) && toNumber(ip) <= toNumber(pool.endIp));
+  }
+
+  /**
+   * Translate the source of a packet routed from an inside to an outside interface. Flows
+   * with a translation reuse it; otherwise a static mapping applies, then the first dynamic
+   * rule whose ACL permits the source.
+   */
+  translateOutbound(router: RouterDevice, flow: NatFlow, aclPermits: NatAclCheck, interfaceIp: (name: string) => string | undefined): NatResult {
+    const table = this.getTable(router.id);
+    const local = { ip: flow.srcIp, port: flow.srcPort };
+    const outside = { ip: flow.dstIp, port: flow.dstPort };
+
+    const existing = table.get(insideKey(flow.protocol, local, outside));
+    if (existing) {
+      this.touch(existing, flow);
+      return this.rewriteSource(flow, existing.insideGlobal, `${formatNatEndpoint(local)} -> ${formatNatEndpoint(existing.insideGlobal)} (existing ${existing.origin} translation)`);
+    }
+
+    const nat = router.nat ?? emptyNatConfig();
+    const staticEntry = nat.staticEntries.find(entry => entry.insideLocal === flow.srcIp);
+    if (staticEntry) {
+      const global = { ip: staticEntry.insideGlobal, port: flow.srcPort };
+      this.addExtended(table, flow, local, global, outside, 'static');
+      return this.rewriteSource(flow, global, `static ${staticEntry.insideLocal} -> ${staticEntry.insideGlobal}`);
+    }
+
+    const simple = this.findSimple(table, flow.srcIp);
+    if (simple) {
+      this.touch(simple, flow);
+      const global = { ip: simple.insideGlobal.ip, port: flow.srcPort };
+      this.addExtended(table, flow, local, global, outside, 'dynamic');
+      return this.rewriteSource(flow, global, `dynamic ${simple.insideLocal.ip} -> ${simple.insideGlobal.ip}`);
+    }
+
+    const rule = nat.dynamicRules.find(r => aclPermits(r.aclName, flow));
+    if (!rule) {
+      return { translated: false, flow, reason: `${flow.srcIp} matches no static mapping or NAT access list; forwarded untranslated` };
+    }
+    const pool = rule.pool ? nat.pools.find(p => p.name === rule.pool) : undefined;
+    const ruleName = `list ${rule.aclName} ${rule.pool ? `pool ${rule.pool}` : `interface ${rule.interface}`}${rule.overload ? ' overload' : ''}`;
+    if (rule.pool && !pool) {
+      return { translated: false, failed: true, flow, reason: `${ruleName}: pool ${rule.pool} is not defined` };
+    }
+
+    if (rule.overload) {
+      const globalIp = pool ? pool.startIp : interfaceIp(rule.interface ?? '');
+      if (!globalIp) {
+        return { translated: false, failed: true, flow, reason: `${ruleName}: interface ${rule.interface} has no IP address` };
+      }
+      const global = { ip: globalIp, port: this.allocatePort(table, flow.protocol, globalIp, flow.srcPort) };
+      this.addExtended(table, flow, local, global, outside, 'overload');
+      return this.rewriteSource(flow, global, `${ruleName}: ${formatNatEndpoint(local)} -> ${formatNatEndpoint(global)}`);
+    }
+    if (!pool) {
+      return { translated: false, failed: true, flow, reason: `${ruleName}: translating to an interface address requires overload` };
+    }
+
+    const used = new Set<string>([
+      ...nat.staticEntries.map(entry => entry.insideGlobal),
+      ...Array.from(table.values()).filter(entry => !entry.protocol).map(entry => entry.insideGlobal.ip),
+    ]);
+    const globalIp = IPAddressUtils.getNextAvailableIP(pool.startIp, pool.endIp, used);
+    if (!globalIp) {
+      return { translated: false, failed: true, flow, reason: `${ruleName}: pool ${pool.name} has no free addresses for ${flow.srcIp}` };
+    }
+    const entry: NatTranslation = {
+      id: crypto.randomUUID(),
+      insideLocal: { ip: flow.srcIp },
+      insideGlobal: { ip: globalIp },
+      origin: 'dynamic',
+      createdAt: this.clock,
+      lastUsed: this.clock,
+      expiresAt: this.clock + NAT_TRANSLATION_TIMEOUTS.simple,
+      hits: 1,
+    };
+    table.set(`simple|${flow.srcIp}`, entry);
+    const global = { ip: globalIp, port: flow.srcPort };
+    this.addExtended(table, flow, local, global, outside, 'dynamic');
+    return this.rewriteSource(flow, global, `${ruleName}: ${flow.srcIp} -> ${globalIp}`);
+  }
+
+  /**
+   * Translate the destination of a packet arriving on an outside interface back to the
+   * inside local address: the flow's own translation first, then a static or dynamic mapping
+   */
+  translateInbound(router: RouterDevice, flow: NatFlow): NatResult {
+    const table = this.getTable(router.id);
+    const global = { ip: flow.dstIp, port: flow.dstPort };
+    const outside = { ip: flow.srcIp, port: flow.srcPort };
+
+    const existing = table.get(globalKey(flow.protocol, global, outside));
+    if (existing) {
+      this.touch(existing, flow);
+      return this.rewriteDestination(flow, existing.insideLocal, `${formatNatEndpoint(global)} -> ${formatNatEndpoint(existing.insideLocal)} (existing ${existing.origin} translation)`);
+    }
+
+    const staticEntry = router.nat?.staticEntries.find(entry => entry.insideGlobal === flow.dstIp);
+    const simple = Array.from(table.values()).find(entry => !entry.protocol && entry.insideGlobal.ip === flow.dstIp);
+    const insideIp = staticEntry?.insideLocal ?? simple?.insideLocal.ip;
+    if (!insideIp) {
+      return { translated: false, flow, reason: `no translation for ${formatNatEndpoint(global)}` };
+    }
+    if (simple) this.touch(simple, flow);
+    const local = { ip: insideIp, port: flow.dstPort };
+    this.addExtended(table, { ...flow, srcIp: insideIp, srcPort: flow.dstPort, dstIp: flow.srcIp, dstPort: flow.srcPort }, local, global, outside, staticEntry ? 'static' : 'dynamic');
+    return this.rewriteDestination(flow, local, `${staticEntry ? 'static' : 'dynamic'} ${flow.dstIp} -> ${insideIp}`);
+  }
+
+  private getTable(deviceId: string): Map<string, NatTranslation> {
+    const table = this.tables.get(deviceId) ?? new Map<string, NatTranslation>();
+    this.tables.set(deviceId, table);
+    return table;
+  }
+
+  private findSimple(table: Map<string, NatTranslation>, insideLocal: string): NatTranslation | undefined {
+    return table.get(`simple|${insideLocal}`);
+  }
+
+  /**
+   * Record a flow's translation, keyed both ways so that its replies find it
+   */
+  private addExtended(
+    table: Map<string, NatTranslation>,
+    flow: NatFlow,
+    local: NatEndpoint,
+    global: NatEndpoint,
+    outside: NatEndpoint,
+    origin: NatTranslation['origin']
+  ): void {
+    const entry: NatTranslation = {
+      id: crypto.randomUUID(),
+      protocol: flow.protocol,
+      insideLocal: local,
+      insideGlobal: global,
+      outside,
+      origin,
+      createdAt: this.clock,
+      lastUsed: this.clock,
+      expiresAt: this.clock,
+      hits: 0,
+    };
+    this.touch(entry, flow);
+    table.set(insideKey(flow.protocol, local, outside), entry);
+    table.set(globalKey(flow.protocol, global, outside), entry);
+  }
+
+  /**
+   * Count a packet against a translation and refresh its timeout
+   */
+  private touch(entry: NatTranslation, flow: NatFlow): void {
+    entry.hits++;
+    entry.lastUsed = this.clock;
+    entry.expiresAt = this.clock + this.timeout(entry, flow);
+  }
+
+  private timeout(entry: NatTranslation, flow: NatFlow): number {
+    switch (entry.protocol) {
+      case undefined:
+        return NAT_TRANSLATION_TIMEOUTS.simple;
+      case 'tcp':
+        return flow.tcpFlags !== undefined && (flow.tcpFlags & (TcpFlag.FIN | TcpFlag.RST)) !== 0
+          ? NAT_TRANSLATION_TIMEOUTS.tcpFinRst
+          : NAT_TRANSLATION_TIMEOUTS.tcp;
+      case 'icmp':
+        return NAT_TRANSLATION_TIMEOUTS.icmp;
+      default:
+        return NAT_TRANSLATION_TIMEOUTS.udp;
+    }
+  }
+
+  /**
+   * Keep the inside port when it is free on the global address, as IOS does; otherwise take the next free one
+   */
+  private allocatePort(table: Map<string, NatTranslation>, protocol: string, globalIp: string, port?: number): number | undefined {
+    if (port === undefined) return undefined;
+    const taken = new Set(
+      Array.from(table.values())
+        .filter(entry => entry.protocol === protocol && entry.insideGlobal.ip === globalIp)
+        .map(entry => entry.insideGlobal.port)
+    );
+    if (!taken.has(port)) return port;
+    let candidate = PAT_FIRST_PORT;
+    while (taken.has(candidate)) candidate++;
+    return candidate;
+  }
+
+  private rewriteSource(flow: NatFlow, global: NatEndpoint, reason: string): NatResult {
+    return { translated: true, flow: { ...flow, srcIp: global.ip, srcPort: global.port }, reason };
+  }
+
+  private rewriteDestination(flow: NatFlow, local: NatEndpoint, reason: string): NatResult {
+    return { translated: true, flow: { ...flow, dstIp: local.ip, dstPort: local.port }, reason };
+  }
+}
+
+// Export singleton instance
+export const natEngine = new NatEngine();
@@ -2,6 +2,8 @@ import {
   NetworkDevice,
   RouterDevice,
   SwitchDevice,
+  MultilayerSwitchDevice,
+  SwitchingDevice,
   PcDevice,
   ServerDevice,
   DeviceType,
@@ -11,10 +13,61 @@ import {
   VlanType,
   VlanStatus,
   Connection,
+  OspfInterfaceConfig,
+  RipInterfaceConfig,
+  RipTimers,
+  BgpNeighborConfig,
+  SpanningTreeMode,
+  SpanningTreePortConfig,
+  MstConfig,
+  ErrDisableCause,
+  ErrDisableRecoveryConfig,
+  NatConfig,
+  NatInterfaceRole,
+  NatPool,
+  NatDynamicRule,
+  AccessListConfig,
+  AccessListEntry,
+  AccessListType,
+  NetworkInterface,
+  Ipv6InterfaceAddress,
+  Ipv6StaticRoute,
+  DhcpServerConfig,
+  DhcpPoolConfig,
+  DhcpSnoopingConfig,
+  SnoopingPortConfig,
+  PortSecurityConfig,
+  SecureMacAddress,
+  ChannelGroupConfig,
+  EtherChannelLoadBalance,
+  Dot1qEncapsulation,
+  FhrpGroupConfig,
+  FhrpProtocol,
+  FhrpTrack,
+  VtpMode,
+  VtpSwitchConfig,
+  SwitchportMode,
 } from '../../types';
 import { NetworkIPManager, DHCPPool } from './ipAddressManager';
-import { RoutingEngine } from '../routing/routingEngine';
-import { SpanningTreeProtocol } from './spanningTreeProtocol';
+import { RoutingEngine, DEFAULT_RIP_TIMERS, BGP_DEFAULT_LOCAL_PREFERENCE, getClassfulNetwork, SubnetCalculator } from '../routing/routingEngine';
+import {
+  SpanningTreeEngine,
+  STP_DEFAULT_BRIDGE_PRIORITY,
+  STP_BRIDGE_PRIORITY_STEP,
+  ERRDISABLE_DEFAULT_RECOVERY_INTERVAL,
+} from './spanningTreeProtocol';
+import { generateRunningConfig, generateRunningConfigs, parseRunningConfig } from './runningConfig';
+import { IPAddressUtils, IPv6AddressUtils } from './ipAddressManager';
+import { isMacAddress, parseMacAddress } from './iosSyntax';
+import { portSecurityEngine } from './portSecurity';
+import { getChannelProtocol, DEFAULT_ETHERCHANNEL_LOAD_BALANCE, ETHERCHANNEL_LOAD_BALANCE_METHODS } from './etherChannel';
+import { parseSubinterfaceName, getSubinterfaces, createSubinterface, getSubinterfaceTrunkIssues } from './subinterfaces';
+import { isSwitchingDevice, isSwitchport, createSvi, findSvi } from './multilayerSwitch';
+import { isFhrpPreempt, FHRP_DEFAULT_PRIORITY, FHRP_DEFAULT_TRACK_DECREMENT, HSRP_DEFAULT_HELLO_TIME } from './firstHopRedundancy';
+import { getVtpConfig, getVtpUpdaterId } from './vtp';
+import { resolveTrunking, applyOperationalMode, getSwitchportMode, isDynamicMode, formatSwitchportMode } from './dynamicTrunking';
+import { AclDirection } from './packetProcessingEngine';
+import { AclDevice, findAccessList, getNumberedAclType, isNumberedAcl, nextAclSequence, supportsAccessLists } from './accessLists';
 
 /**
  * Configuration command result
@@ -55,6 +108,13 @@ export interface InterfaceConfig {
   shutdown?: boolean;
   speed?: number;
   duplex?: 'full' | 'half';
+  ospf?: OspfInterfaceConfig; // undefined values reset a setting to its default
+  rip?: RipInterfaceConfig;
+  spanningTree?: SpanningTreePortConfig; // undefined values reset a setting to its default
+  nat?: { role?: NatInterfaceRole }; // undefined role removes the NAT marking
+  ipv6?: { enabled?: boolean; autoconfig?: boolean };
+  dhcp?: boolean; // ip address dhcp, replacing a static address
+  snooping?: SnoopingPortConfig; // DHCP snooping, ARP inspection and source guard port settings; undefined values reset them
 }
 
 /**
@@ -75,15 +135,15 @@ export interface VlanConfig {
 export class NetworkConfigurationManager {
   private ipManager: NetworkIPManager;
   private routingEngine: RoutingEngine;
-  private stpManager: SpanningTreeProtocol;
+  private spanningTreeEngine?: SpanningTreeEngine;
   private devices: Map<string, NetworkDevice> = new Map();
   private vlans: Map<number, Vlan> = new Map();
   private connections: Connection[] = [];
 
-  constructor() {
+  constructor(spanningTreeEngine?: SpanningTreeEngine) {
     this.ipManager = new NetworkIPManager();
     this.routingEngine = new RoutingEngine();
-    this.stpManager = new SpanningTreeProtocol();
+    this.spanningTreeEngine = spanningTreeEngine;
   }
 
   /**
@@ -108,9 +168,57 @@ export class NetworkConfigurationManager {
     const vlanIds = vlans.map(v => v.id);
     this.ipManager.autoConfigureNetwork(devices, vlanIds);
     this.routingEngine.initializeRouting(devices, connections);
-    
-    const switches = devices.filter(d => d.type === DeviceType.SWITCH) as SwitchDevice[];
-    this.stpManager.initializeSTP(switches, connections);
+    this.spanningTreeEngine?.initialize(devices, connections);
+  }
+
+  /**
+   * Replace the working copy of the network without auto-configuring addresses.
+   * Used by interactive sessions that mirror state owned by the application store.
+   */
+  loadState(devices: NetworkDevice[], vlans: Vlan[], connections: Connection[]): void {
+    this.devices.clear();
+    devices.forEach(device => {
+      this.devices.set(device.id, device);
+    });
+
+    this.vlans.clear();
+    vlans.forEach(vlan => {
+      this.vlans.set(vlan.id, vlan);
+    });
+
+    this.connections = connections;
+
+    // Installed routes follow the device configuration; the dynamic protocols keep their
+    // state and only move on when the owner of the engine advances its clock
+    this.routingEngine.updateTopology(devices, connections);
+  }
+
+  /**
+   * Get device from the working copy
+   */
+  getDevice(deviceId: string): NetworkDevice | undefined {
+    return this.devices.get(deviceId);
+  }
+
+  /**
+   * Get all configured VLANs
+   */
+  getVlans(): Vlan[] {
+    return Array.from(this.vlans.values());
+  }
+
+  /**
+   * Get routing engine instance
+   */
+  getRoutingEngine(): RoutingEngine {
+    return this.routingEngine;
+  }
+
+  /**
+   * Get IP manager instance
+   */
+  getIPManager(): NetworkIPManager {
+    return this.ipManager;
   }
 
   /**
@@ -163,7 +271,8 @@ export class NetworkConfigurationManager {
         break;
         
       case DeviceType.SWITCH:
-        const sw = device as SwitchDevice;
+      case DeviceType.MULTILAYER_SWITCH:
+        const sw = device as SwitchingDevice;
         targetInterface = sw.interfaces.find(i => i.name === interfaceName);
         break;
     }
@@ -176,8 +285,15 @@ export class NetworkConfigurationManager {
 
     // Apply configuration
     if (config.ip && config.mask) {
+      if (targetInterface.parentInterface && !targetInterface.encapsulation) {
+        return { success: false, message: `Configure encapsulation dot1Q on ${interfaceName} before its IP address` };
+      }
+      if (device.type === DeviceType.MULTILAYER_SWITCH && isSwitchport(targetInterface)) {
+        return { success: false, message: `${interfaceName} is a switchport; configure no switchport before its IP address` };
+      }
       const ipConfig = `${config.ip}/${this.maskToPrefix(config.mask)}`;
       targetInterface.ipAddress = ipConfig;
+      targetInterface.dhcpClient = undefined;
       
       // Add static route if this is a router
       if (device.type === DeviceType.ROUTER) {
@@ -185,7 +301,20 @@ export class NetworkConfigurationManager {
       }
     }
 
+    if (config.dhcp !== undefined) {
+      if (device.type !== DeviceType.PC && device.type !== DeviceType.SERVER) {
+        return { success: false, message: 'DHCP addressing is only supported on hosts' };
+      }
+      targetInterface.dhcpClient = config.dhcp || undefined;
+      if (config.dhcp) {
+        targetInterface.ipAddress = undefined;
+      }
+    }
+
     if (config.vlanId !== undefined) {
+      if (!isSwitchport(targetInterface)) {
+        return { success: false, message: `${interfaceName} is not a switchport` };
+      }
       if (!this.vlans.has(config.vlanId)) {
         warnings.push(`VLAN ${config.vlanId} does not exist`);
       }
@@ -204,13 +333,15 @@ export class NetworkConfigurationManager {
       }
     }
 
-    if (config.description) {
-      // Note: description field doesn't exist in current interface type, but we'd add it
-      console.log(`Interface ${interfaceName} description: ${config.description}`);
+    if (config.description !== undefined) {
+      targetInterface.description = config.description || undefined;
     }
 
     if (config.shutdown !== undefined) {
+      // shutdown / no shutdown also clears an err-disabled port
       targetInterface.status = config.shutdown ? InterfaceStatus.ADMIN_DOWN : InterfaceStatus.UP;
+      targetInterface.errDisabled = undefined;
+      portSecurityEngine.recover(device.id, targetInterface.id);
     }
 
     if (config.speed) {
@@ -221,6 +352,69 @@ export class NetworkConfigurationManager {
       targetInterface.duplex = config.duplex;
     }
 
+    if (config.ospf) {
+      if (device.type !== DeviceType.ROUTER) {
+        return { success: false, message: 'OSPF interface settings are only supported on routers' };
+      }
+      const ospf: OspfInterfaceConfig = { ...targetInterface.ospf, ...config.ospf };
+      (Object.keys(ospf) as Array<keyof OspfInterfaceConfig>)
+        .filter(key => ospf[key] === undefined)
+        .forEach(key => delete ospf[key]);
+      targetInterface.ospf = Object.keys(ospf).length > 0 ? ospf : undefined;
+    }
+
+    if (config.rip) {
+      if (device.type !== DeviceType.ROUTER) {
+        return { success: false, message: 'RIP interface settings are only supported on routers' };
+      }
+      // Split horizon is on by default, so only the disabled state is stored
+      targetInterface.rip = config.rip.splitHorizon === false ? { splitHorizon: false } : undefined;
+    }
+
+    if (config.nat) {
+      if (device.type !== DeviceType.ROUTER) {
+        return { success: false, message: 'NAT is only supported on routers' };
+      }
+      targetInterface.nat = config.nat.role;
+    }
+
+    if (config.ipv6) {
+      if (isSwitchingDevice(device)) {
+        return { success: false, message: 'IPv6 is not supported on switch ports' };
+      }
+      if (config.ipv6.autoconfig && device.type === DeviceType.ROUTER) {
+        return { success: false, message: 'Address autoconfiguration is only supported on hosts' };
+      }
+      if (config.ipv6.enabled !== undefined) {
+        targetInterface.ipv6Enabled = config.ipv6.enabled || undefined;
+      }
+      if (config.ipv6.autoconfig !== undefined) {
+        targetInterface.ipv6Autoconfig = config.ipv6.autoconfig || undefined;
+      }
+    }
+
+    if (config.spanningTree) {
+      if (!isSwitchingDevice(device)) {
+        return { success: false, message: 'Spanning tree port settings are only supported on switches' };
+      }
+      const spanningTree: SpanningTreePortConfig = { ...targetInterface.spanningTree, ...config.spanningTree };
+      (Object.keys(spanningTree) as Array<keyof SpanningTreePortConfig>)
+        .filter(key => !spanningTree[key])
+        .forEach(key => delete spanningTree[key]);
+      targetInterface.spanningTree = Object.keys(spanningTree).length > 0 ? spanningTree : undefined;
+    }
+
+    if (config.snooping) {
+      if (!isSwitchingDevice(device)) {
+        return { success: false, message: 'DHCP snooping port settings are only supported on switches' };
+      }
+      const snooping: SnoopingPortConfig = { ...targetInterface.snooping, ...config.snooping };
+      (Object.keys(snooping) as Array<keyof SnoopingPortConfig>)
+        .filter(key => !snooping[key])
+        .forEach(key => delete snooping[key]);
+      targetInterface.snooping = Object.keys(snooping).length > 0 ? snooping : undefined;
+    }
+
     return {
       success: true,
       message: `Interface ${interfaceName} configured successfully`,
@@ -229,11 +423,140 @@ export class NetworkConfigurationManager {
     };
   }
 
+  /**
+   * Remove interface IP address
+   * Command: no ip address
+   */
+  removeInterfaceAddress(deviceId: string, interfaceName: string): ConfigResult {
+    const device = this.devices.get(deviceId);
+    if (!device) {
+      return { success: false, message: `Device ${deviceId} not found` };
+    }
+
+    const targetInterface = this.getDeviceInterfaces(device).find(i => i.name === interfaceName);
+    if (!targetInterface) {
+      return { success: false, message: `Interface ${interfaceName} not found on device ${device.name}` };
+    }
+
+    targetInterface.ipAddress = undefined;
+    targetInterface.dhcpClient = undefined;
+    return {
+      success: true,
+      message: `IP address removed from ${interfaceName}`,
+      data: { interface: targetInterface }
+    };
+  }
+
+  /**
+   * Add an IPv6 address to an interface. An EUI-64 address takes its interface identifier
+   * from the MAC address; a link-local address replaces the one derived from it.
+   * Command: ipv6 address <address>/<length> [eui-64] | ipv6 address <address> link-local
+   */
+  configureIpv6Address(
+    deviceId: string,
+    interfaceName: string,
+    address: string,
+    prefixLength: number,
+    origin: 'manual' | 'eui-64' | 'link-local' = 'manual'
+  ): ConfigResult {
+    const device = this.devices.get(deviceId);
+    if (!device) {
+      return { success: false, message: `Device ${deviceId} not found` };
+    }
+    if (isSwitchingDevice(device)) {
+      return { success: false, message: 'IPv6 addresses are not supported on switch ports' };
+    }
+
+    const targetInterface: NetworkInterface | undefined = this.getDeviceInterfaces(device).find(i => i.name === interfaceName);
+    if (!targetInterface) {
+      return { success: false, message: `Interface ${interfaceName} not found on device ${device.name}` };
+    }
+    if (!IPv6AddressUtils.isValid(address) || IPv6AddressUtils.isMulticast(address)) {
+      return { success: false, message: `${address} is not a valid IPv6 unicast address` };
+    }
+    if (origin === 'link-local' && !IPv6AddressUtils.isLinkLocal(address)) {
+      return { success: false, message: `${address} is not a link-local address (FE80::/10)` };
+    }
+
+    const entry: Ipv6InterfaceAddress = origin === 'eui-64'
+      ? { address: IPv6AddressUtils.eui64Address(address, targetInterface.macAddress), prefixLength, origin }
+      : { address: IPv6AddressUtils.normalize(address), prefixLength: origin === 'link-local' ? 64 : prefixLength, origin };
+
+    if (origin !== 'link-local') {
+      const prefix = IPv6AddressUtils.getPrefix(entry.address, prefixLength);
+      const overlap = this.getDeviceInterfaces(device)
+        .filter((i: NetworkInterface) => i.name !== interfaceName)
+        .find((i: NetworkInterface) => (i.ipv6Addresses ?? []).some(a =>
+          a.origin !== 'link-local' && IPv6AddressUtils.getPrefix(a.address, a.prefixLength) === prefix
+        ));
+      if (overlap) {
+        return { success: false, message: `${prefix}/${prefixLength} overlaps with ${overlap.name}` };
+      }
+    }
+
+    const kept = (targetInterface.ipv6Addresses ?? []).filter(a =>
+      a.address !== entry.address && !(origin === 'link-local' && a.origin === 'link-local')
+    );
+    targetInterface.ipv6Addresses = [...kept, entry];
+
+    return {
+      success: true,
+      message: `IPv6 address ${entry.address}/${entry.prefixLength} configured on ${interfaceName}`,
+      warnings: origin === 'eui-64' && prefixLength !== 64 ? ['EUI-64 addresses expect a /64 prefix'] : undefined,
+      data: { interface: targetInterface, address: entry }
+    };
+  }
+
+  /**
+   * Remove one IPv6 address from an interface, or all of them. An EUI-64 address is named
+   * by its prefix, as it was configured.
+   * Command: no ipv6 address [<address>/<length> [eui-64] | <address> link-local]
+   */
+  removeIpv6Address(deviceId: string, interfaceName: string, address?: string, eui64: boolean = false): ConfigResult {
+    const device = this.devices.get(deviceId);
+    if (!device) {
+      return { success: false, message: `Device ${deviceId} not found` };
+    }
+
+    const targetInterface: NetworkInterface | undefined = this.getDeviceInterfaces(device).find(i => i.name === interfaceName);
+    if (!targetInterface) {
+      return { success: false, message: `Interface ${interfaceName} not found on device ${device.name}` };
+    }
+
+    const addresses = targetInterface.ipv6Addresses ?? [];
+    if (address === undefined) {
+      targetInterface.ipv6Addresses = undefined;
+      targetInterface.ipv6Autoconfig = undefined;
+      return { success: true, message: `IPv6 addresses removed from ${interfaceName}`, data: { interface: targetInterface } };
+    }
+
+    const normalized = eui64
+      ? IPv6AddressUtils.eui64Address(address, targetInterface.macAddress)
+      : IPv6AddressUtils.normalize(address);
+    const remaining = addresses.filter(a => a.address !== normalized);
+    if (remaining.length === addresses.length) {
+      return { success: false, message: `${address} is not configured on ${interfaceName}` };
+    }
+    targetInterface.ipv6Addresses = remaining.length > 0 ? remaining : undefined;
+    return {
+      success: true,
+      message: `IPv6 address ${normalized} removed from ${interfaceName}`,
+      data: { interface: targetInterface }
+    };
+  }
+
   /**
    * Configure VLAN
    * Command: vlan <vlan-id>
+   * When a switch is given, the VLAN is also added to its local VLAN database.
    */
-  configureVlan(config: VlanConfig): ConfigResult {
+  configureVlan(config: VlanConfig, deviceId?: string): ConfigResult {
+    const device = deviceId ? this.devices.get(deviceId) : undefined;
+    const vtpError = isSwitchingDevice(device) ? this.checkVtpVlanChange(device) : undefined;
+    if (vtpError) {
+      return { success: false, message: vtpError };
+    }
+
     const existingVlan = this.vlans.get(config.id);
     
     const vlan: Vlan = {
@@ -249,6 +572,19 @@ export class NetworkConfigurationManager {
 
     this.vlans.set(config.id, vlan);
 
+    if (isSwitchingDevice(device)) {
+      const sw = device as SwitchDevice;
+      const entry = sw.vlanDatabase.find(v => v.id === config.id);
+      if (entry && entry.name !== vlan.name) {
+        entry.name = vlan.name;
+        this.recordVtpChange(sw);
+      } else if (!entry) {
+        sw.vlanDatabase.push({ id: vlan.id, name: vlan.name, status: 'active' });
+        sw.vlanDatabase.sort((a, b) => a.id - b.id);
+        this.recordVtpChange(sw);
+      }
+    }
+
     // Update IP manager with new VLAN
     const vlanIds = Array.from(this.vlans.keys());
     const devices = Array.from(this.devices.values());
@@ -261,13 +597,162 @@ export class NetworkConfigurationManager {
     };
   }
 
+  /**
+   * Remove VLAN
+   * Command: no vlan <vlan-id>
+   */
+  removeVlan(vlanId: number, deviceId?: string): ConfigResult {
+    if (vlanId === 1) {
+      return { success: false, message: 'Default VLAN 1 may not be deleted' };
+    }
+
+    if (!this.vlans.has(vlanId)) {
+      return { success: false, message: `VLAN ${vlanId} does not exist` };
+    }
+
+    const device = deviceId ? this.devices.get(deviceId) : undefined;
+    const vtpError = isSwitchingDevice(device) ? this.checkVtpVlanChange(device) : undefined;
+    if (vtpError) {
+      return { success: false, message: vtpError };
+    }
+
+    if (isSwitchingDevice(device)) {
+      const sw = device as SwitchDevice;
+      if (sw.vlanDatabase.some(v => v.id === vlanId)) {
+        sw.vlanDatabase = sw.vlanDatabase.filter(v => v.id !== vlanId);
+        this.recordVtpChange(sw);
+      }
+    }
+
+    // The VLAN stays in the topology while another switch still has it in its database
+    const inUse = Array.from(this.devices.values()).some(d => isSwitchingDevice(d) && d.vlanDatabase.some(v => v.id === vlanId));
+    if (!device || !inUse) {
+      this.vlans.delete(vlanId);
+    }
+
+    return {
+      success: true,
+      message: `VLAN ${vlanId} removed`,
+      data: { vlanId }
+    };
+  }
+
+  /**
+   * Configure VTP
+   * Commands: vtp mode <server|client|transparent|off>, vtp domain <name>, [no] vtp password <password>,
+   * vtp version <1-3>, vtp primary
+   */
+  configureVtp(
+    deviceId: string,
+    settings: { mode?: VtpMode; domain?: string; password?: string | null; version?: 1 | 2 | 3; primary?: boolean }
+  ): ConfigResult {
+    const device = this.devices.get(deviceId);
+    if (!isSwitchingDevice(device)) {
+      return { success: false, message: `VTP is not supported on device ${deviceId}` };
+    }
+
+    const current = getVtpConfig(device);
+    const vtp: VtpSwitchConfig = { ...device.vtp, revision: current.revision };
+    const messages: string[] = [];
+
+    if (settings.domain !== undefined) {
+      if (settings.domain.length < 1 || settings.domain.length > 32) {
+        return { success: false, message: 'VTP domain name must be between 1 and 32 characters' };
+      }
+      if (settings.domain === current.domain) {
+        messages.push(`Domain name already set to ${settings.domain}.`);
+      } else {
+        // A new domain starts over at revision 0
+        messages.push(`Changing VTP domain name from ${current.domain ?? 'NULL'} to ${settings.domain}`);
+        vtp.domain = settings.domain;
+        vtp.revision = 0;
+        vtp.primary = undefined;
+      }
+    }
+
+    if (settings.version !== undefined) {
+      if (settings.version === 3 && !vtp.domain) {
+        return { success: false, message: 'Cannot set the version to 3 because domain name is not configured' };
+      }
+      vtp.version = settings.version === 1 ? undefined : settings.version;
+      vtp.primary = settings.version === 3 ? vtp.primary : undefined;
+      messages.push(`Setting device to VTP version ${settings.version}`);
+    }
+
+    if (settings.mode !== undefined) {
+      const label = settings.mode.charAt(0).toUpperCase() + settings.mode.slice(1);
+      if (settings.mode === current.mode) {
+        messages.push(`Device mode already VTP ${label}.`);
+      } else {
+        messages.push(`Setting device to VTP ${label} mode for VLANS.`);
+      }
+      vtp.mode = settings.mode === VtpMode.SERVER ? undefined : settings.mode;
+      // Transparent and off switches keep their VLANs to themselves at revision 0; a server turned
+      // client keeps its revision, which is what lets it overwrite a domain later
+      if (settings.mode === VtpMode.TRANSPARENT || settings.mode === VtpMode.OFF) {
+        vtp.revision = 0;
+      }
+      if (settings.mode !== VtpMode.SERVER) {
+        vtp.primary = undefined;
+      }
+    }
+
+    if (settings.password !== undefined) {
+      if (settings.password === null) {
+        messages.push('Clearing device VTP password.');
+      } else if (settings.password.length < 1 || settings.password.length > 64) {
+        return { success: false, message: 'VTP password must be between 1 and 64 characters' };
+      } else {
+        messages.push(`Setting device VTP password to ${settings.password}`);
+      }
+      vtp.password = settings.password ?? undefined;
+    }
+
+    if (settings.primary) {
+      if ((vtp.version ?? current.version) !== 3) {
+        return { success: false, message: 'Device is not running VTP version 3' };
+      }
+      if ((vtp.mode ?? VtpMode.SERVER) !== VtpMode.SERVER) {
+        return { success: false, message: 'Only a VTP server can become the primary server' };
+      }
+      vtp.primary = true;
+      messages.push(`${device.name} is now the primary server for feature VLAN`);
+    }
+
+    device.vtp = vtp;
+    return { success: true, message: messages.join('\n'), data: { vtp } };
+  }
+
+  /**
+   * Why VTP does not let a switch change its VLAN database, if it does not
+   */
+  private checkVtpVlanChange(device: SwitchingDevice): string | undefined {
+    const vtp = getVtpConfig(device);
+    if (vtp.mode === VtpMode.CLIENT) {
+      return 'VTP VLAN configuration not allowed when device is in CLIENT mode.';
+    }
+    if (vtp.mode === VtpMode.SERVER && vtp.version === 3 && !vtp.primary) {
+      return 'VTP VLAN configuration not allowed when device is not the primary server for vlan database.';
+    }
+    return undefined;
+  }
+
+  /**
+   * A VTP server raises its configuration revision with every change to its VLAN database
+   */
+  private recordVtpChange(device: SwitchingDevice): void {
+    const vtp = getVtpConfig(device);
+    if (vtp.mode !== VtpMode.SERVER) return;
+    device.vtp = { ...device.vtp, revision: vtp.revision + 1, updater: getVtpUpdaterId(device), lastModified: Date.now() };
+  }
+
   /**
    * Configure switchport
-   * Command: switchport mode <access|trunk>
+   * Command: switchport mode <access|trunk|dynamic auto|dynamic desirable>
    */
-  configureSwitchport(deviceId: string, interfaceName: string, mode: 'access' | 'trunk', vlanId?: number): ConfigResult {
+  configureSwitchport(deviceId: string, interfaceName: string, mode: SwitchportMode, vlanId?: number): ConfigResult {
     const device = this.devices.get(deviceId);
-    if (!device || device.type !== DeviceType.SWITCH) {
+    if (!isSwitchingDevice(device)) {
       return { success: false, message: `Device ${deviceId} is not a switch` };
     }
 
@@ -277,22 +762,49 @@ export class NetworkConfigurationManager {
     if (!targetInterface) {
       return { success: false, message: `Interface ${interfaceName} not found` };
     }
+    if (!isSwitchport(targetInterface)) {
+      return { success: false, message: `Interface ${interfaceName} is not a switchport` };
+    }
 
     targetInterface.vlanConfig = targetInterface.vlanConfig || {};
 
+    if (isDynamicMode(mode)) {
+      if (targetInterface.nonegotiate) {
+        return { success: false, message: `Conflict between 'nonegotiate' and 'dynamic' status on ${interfaceName}` };
+      }
+      targetInterface.switchportMode = mode;
+      if (vlanId) targetInterface.vlanConfig.accessVlan = vlanId;
+      // DTP settles the operational mode with the port at the other end of the link
+      const { negotiated } = resolveTrunking(Array.from(this.devices.values()), this.connections)
+        .find(p => p.deviceId === deviceId && p.interfaceId === targetInterface.id)!;
+      const vlanIds = sw.vlanDatabase.map(v => v.id);
+      sw.interfaces = sw.interfaces.map(i => (i === targetInterface ? applyOperationalMode(i, negotiated.mode, vlanIds) : i));
+
+      return {
+        success: true,
+        message: `Interface ${interfaceName} set to ${formatSwitchportMode(mode)} mode, operating as ${negotiated.mode}`,
+        data: { mode, operationalMode: negotiated.mode, reason: negotiated.reason }
+      };
+    }
+
+    targetInterface.switchportMode = undefined;
     if (mode === 'access') {
+      const accessVlan = vlanId || targetInterface.vlanConfig.accessVlan || 1;
       targetInterface.type = InterfaceType.ACCESS;
-      targetInterface.vlanConfig.accessVlan = vlanId || 1;
+      targetInterface.vlanConfig.accessVlan = accessVlan;
       
       return {
         success: true,
-        message: `Interface ${interfaceName} set to access mode, VLAN ${vlanId || 1}`,
-        data: { mode, vlanId: vlanId || 1 }
+        message: `Interface ${interfaceName} set to access mode, VLAN ${accessVlan}`,
+        data: { mode, vlanId: accessVlan }
       };
     } else if (mode === 'trunk') {
+      // Keep an existing trunk configuration, otherwise allow every known VLAN
       targetInterface.type = InterfaceType.TRUNK;
-      targetInterface.vlanConfig.nativeVlan = 1;
-      targetInterface.vlanConfig.allowedVlans = vlanId ? [vlanId] : [1];
+      targetInterface.vlanConfig.nativeVlan = targetInterface.vlanConfig.nativeVlan || 1;
+      targetInterface.vlanConfig.allowedVlans = vlanId
+        ? [vlanId]
+        : targetInterface.vlanConfig.allowedVlans || Array.from(this.vlans.keys()).sort((a, b) => a - b);
       
       return {
         success: true,
@@ -304,13 +816,42 @@ export class NetworkConfigurationManager {
     return { success: false, message: `Invalid switchport mode: ${mode}` };
   }
 
+  /**
+   * Stop a static access or trunk port from sending DTP frames
+   * Command: [no] switchport nonegotiate
+   */
+  configureSwitchportNonegotiate(deviceId: string, interfaceName: string, enabled: boolean): ConfigResult {
+    const device = this.devices.get(deviceId);
+    if (!isSwitchingDevice(device)) {
+      return { success: false, message: `Device ${deviceId} is not a switch` };
+    }
+
+    const targetInterface = device.interfaces.find(i => i.name === interfaceName);
+    if (!targetInterface) {
+      return { success: false, message: `Interface ${interfaceName} not found` };
+    }
+    if (!isSwitchport(targetInterface)) {
+      return { success: false, message: `Interface ${interfaceName} is not a switchport` };
+    }
+    if (enabled && isDynamicMode(getSwitchportMode(targetInterface))) {
+      return { success: false, message: `Conflict between 'nonegotiate' and 'dynamic' status on ${interfaceName}` };
+    }
+
+    targetInterface.nonegotiate = enabled || undefined;
+    return {
+      success: true,
+      message: `DTP negotiation ${enabled ? 'disabled' : 'enabled'} on ${interfaceName}`,
+      data: { nonegotiate: enabled }
+    };
+  }
+
   /**
    * Configure trunk allowed VLANs
    * Command: switchport trunk allowed vlan <vlan-list>
    */
   configureTrunkAllowedVlans(deviceId: string, interfaceName: string, vlans: number[]): ConfigResult {
     const device = this.devices.get(deviceId);
-    if (!device || device.type !== DeviceType.SWITCH) {
+    if (!isSwitchingDevice(device)) {
       return { success: false, message: `Device ${deviceId} is not a switch` };
     }
 
@@ -321,7 +862,8 @@ export class NetworkConfigurationManager {
       return { success: false, message: `Interface ${interfaceName} not found` };
     }
 
-    if (targetInterface.type !== InterfaceType.TRUNK) {
+    // A dynamic port keeps its trunk settings for when DTP makes it a trunk
+    if (getSwitchportMode(targetInterface) === 'access') {
       return { success: false, message: `Interface ${interfaceName} is not configured as trunk` };
     }
 
@@ -346,7 +888,7 @@ export class NetworkConfigurationManager {
    */
   configureNativeVlan(deviceId: string, interfaceName: string, vlanId: number): ConfigResult {
     const device = this.devices.get(deviceId);
-    if (!device || device.type !== DeviceType.SWITCH) {
+    if (!isSwitchingDevice(device)) {
       return { success: false, message: `Device ${deviceId} is not a switch` };
     }
 
@@ -357,7 +899,8 @@ export class NetworkConfigurationManager {
       return { success: false, message: `Interface ${interfaceName} not found` };
     }
 
-    if (targetInterface.type !== InterfaceType.TRUNK) {
+    // A dynamic port keeps its trunk settings for when DTP makes it a trunk
+    if (getSwitchportMode(targetInterface) === 'access') {
       return { success: false, message: `Interface ${interfaceName} is not configured as trunk` };
     }
 
@@ -366,76 +909,1465 @@ export class NetworkConfigurationManager {
       warnings.push(`VLAN ${vlanId} does not exist`);
     }
 
-    targetInterface.vlanConfig = targetInterface.vlanConfig || {};
-    targetInterface.vlanConfig.nativeVlan = vlanId;
+    targetInterface.vlanConfig = targetInterface.vlanConfig || {};
+    targetInterface.vlanConfig.nativeVlan = vlanId;
+
+    // Ensure native VLAN is in allowed list
+    if (targetInterface.vlanConfig.allowedVlans && !targetInterface.vlanConfig.allowedVlans.includes(vlanId)) {
+      targetInterface.vlanConfig.allowedVlans.push(vlanId);
+      warnings.push(`Added native VLAN ${vlanId} to allowed VLANs list`);
+    }
+
+    return {
+      success: true,
+      message: `Native VLAN set to ${vlanId}`,
+      warnings: warnings.length > 0 ? warnings : undefined,
+      data: { nativeVlan: vlanId }
+    };
+  }
+
+  /**
+   * Select the spanning tree flavour
+   * Command: spanning-tree mode <pvst|rapid-pvst>
+   */
+  configureSpanningTreeMode(deviceId: string, mode: SpanningTreeMode): ConfigResult {
+    const device = this.devices.get(deviceId);
+    if (!isSwitchingDevice(device)) {
+      return { success: false, message: `Device ${deviceId} is not a switch` };
+    }
+
+    const sw = device as SwitchDevice;
+    sw.spanningTreeConfig = { vlanPriorities: {}, ...sw.spanningTreeConfig, mode };
+
+    return {
+      success: true,
+      message: `Spanning tree mode set to ${mode}`,
+      data: { config: sw.spanningTreeConfig }
+    };
+  }
+
+  /**
+   * Set (or with no priority, reset) the bridge priority of one VLAN's spanning tree
+   * Command: [no] spanning-tree vlan <vlan-id> priority <priority>
+   */
+  configureSpanningTreePriority(deviceId: string, vlanId: number, priority?: number): ConfigResult {
+    const device = this.devices.get(deviceId);
+    if (!isSwitchingDevice(device)) {
+      return { success: false, message: `Device ${deviceId} is not a switch` };
+    }
+
+    if (priority !== undefined && (priority < 0 || priority > 61440 || priority % STP_BRIDGE_PRIORITY_STEP !== 0)) {
+      const allowed = Array.from({ length: 16 }, (_, i) => i * STP_BRIDGE_PRIORITY_STEP).join(' ');
+      return { success: false, message: `Bridge Priority must be in increments of ${STP_BRIDGE_PRIORITY_STEP}. Allowed values are: ${allowed}` };
+    }
+
+    const sw = device as SwitchDevice;
+    const vlanPriorities = { ...sw.spanningTreeConfig?.vlanPriorities };
+    if (priority === undefined) {
+      delete vlanPriorities[vlanId];
+    } else {
+      vlanPriorities[vlanId] = priority;
+    }
+    sw.spanningTreeConfig = { mode: 'pvst', ...sw.spanningTreeConfig, vlanPriorities };
+
+    return {
+      success: true,
+      message: `VLAN ${vlanId} bridge priority set to ${priority ?? STP_DEFAULT_BRIDGE_PRIORITY}`,
+      data: { config: sw.spanningTreeConfig }
+    };
+  }
+
+  /**
+   * Set the MST region name and/or revision
+   * Command: spanning-tree mst configuration / name <name> / revision <0-65535>
+   */
+  configureMstRegion(deviceId: string, settings: Partial<Pick<MstConfig, 'name' | 'revision'>>): ConfigResult {
+    const device = this.devices.get(deviceId);
+    if (!isSwitchingDevice(device)) {
+      return { success: false, message: `Device ${deviceId} is not a switch` };
+    }
+
+    if (settings.name !== undefined && settings.name.length > 32) {
+      return { success: false, message: 'MST region name must be at most 32 characters' };
+    }
+    if (settings.revision !== undefined && (!Number.isInteger(settings.revision) || settings.revision < 0 || settings.revision > 65535)) {
+      return { success: false, message: 'MST revision must be between 0 and 65535' };
+    }
+
+    const sw = device as SwitchDevice;
+    const mst = { ...this.getMstConfig(sw), ...settings };
+    sw.spanningTreeConfig = { mode: 'pvst', vlanPriorities: {}, ...sw.spanningTreeConfig, mst };
+
+    return {
+      success: true,
+      message: `MST region "${mst.name}" revision ${mst.revision}`,
+      data: { config: mst }
+    };
+  }
+
+  /**
+   * Map VLANs to an MST instance, or with remove, unmap them (all of them when no VLANs are given)
+   * Command: [no] instance <1-4094> vlan <vlan-list>
+   */
+  configureMstInstance(deviceId: string, instanceId: number, vlanIds: number[], remove: boolean = false): ConfigResult {
+    const device = this.devices.get(deviceId);
+    if (!isSwitchingDevice(device)) {
+      return { success: false, message: `Device ${deviceId} is not a switch` };
+    }
+
+    if (!Number.isInteger(instanceId) || instanceId < 1 || instanceId > 4094) {
+      return { success: false, message: 'MST instance must be between 1 and 4094' };
+    }
+    const invalid = vlanIds.find(id => !Number.isInteger(id) || id < 1 || id > 4094);
+    if (invalid !== undefined) {
+      return { success: false, message: `Invalid VLAN ${invalid}` };
+    }
+
+    const sw = device as SwitchDevice;
+    const mst = this.getMstConfig(sw);
+    const instances: Record<number, number[]> = {};
+    Object.entries(mst.instances).forEach(([id, vlans]) => {
+      // A VLAN belongs to one instance only; mapping it elsewhere moves it
+      const keep = Number(id) === instanceId && remove
+        ? vlans.filter(v => vlanIds.length > 0 && !vlanIds.includes(v))
+        : vlans.filter(v => remove || !vlanIds.includes(v));
+      if (keep.length > 0) instances[Number(id)] = keep;
+    });
+    if (!remove) {
+      instances[instanceId] = Array.from(new Set([...(mst.instances[instanceId] ?? []), ...vlanIds])).sort((a, b) => a - b);
+    }
+
+    sw.spanningTreeConfig = {
+      mode: 'pvst',
+      vlanPriorities: {},
+      ...sw.spanningTreeConfig,
+      mst: { ...mst, instances },
+    };
+
+    return {
+      success: true,
+      message: remove ? `VLANs removed from MST instance ${instanceId}` : `VLANs mapped to MST instance ${instanceId}`,
+      data: { instances }
+    };
+  }
+
+  /**
+   * Set (or with no priority, reset) the bridge priority of an MST instance; instance 0 is the CIST
+   * Command: [no] spanning-tree mst <0-4094> priority <priority>
+   */
+  configureMstPriority(deviceId: string, instanceId: number, priority?: number): ConfigResult {
+    const device = this.devices.get(deviceId);
+    if (!isSwitchingDevice(device)) {
+      return { success: false, message: `Device ${deviceId} is not a switch` };
+    }
+
+    if (!Number.isInteger(instanceId) || instanceId < 0 || instanceId > 4094) {
+      return { success: false, message: 'MST instance must be between 0 and 4094' };
+    }
+    if (priority !== undefined && (priority < 0 || priority > 61440 || priority % STP_BRIDGE_PRIORITY_STEP !== 0)) {
+      const allowed = Array.from({ length: 16 }, (_, i) => i * STP_BRIDGE_PRIORITY_STEP).join(' ');
+      return { success: false, message: `Bridge Priority must be in increments of ${STP_BRIDGE_PRIORITY_STEP}. Allowed values are: ${allowed}` };
+    }
+
+    const sw = device as SwitchDevice;
+    const mst = this.getMstConfig(sw);
+    const priorities = { ...mst.priorities };
+    if (priority === undefined) {
+      delete priorities[instanceId];
+    } else {
+      priorities[instanceId] = priority;
+    }
+    sw.spanningTreeConfig = { mode: 'pvst', vlanPriorities: {}, ...sw.spanningTreeConfig, mst: { ...mst, priorities } };
+
+    return {
+      success: true,
+      message: `MST instance ${instanceId} bridge priority set to ${priority ?? STP_DEFAULT_BRIDGE_PRIORITY}`,
+      data: { priorities }
+    };
+  }
+
+  /**
+   * Turn automatic recovery on or off for an err-disable cause and/or set the recovery interval
+   * Command: [no] errdisable recovery cause <cause> / [no] errdisable recovery interval <30-86400>
+   */
+  configureErrdisableRecovery(
+    deviceId: string,
+    settings: { cause?: ErrDisableCause; enabled?: boolean; interval?: number }
+  ): ConfigResult {
+    const device = this.devices.get(deviceId);
+    if (!isSwitchingDevice(device)) {
+      return { success: false, message: `Device ${deviceId} is not a switch` };
+    }
+
+    const { cause, enabled = true, interval } = settings;
+    if (interval !== undefined && (!Number.isInteger(interval) || interval < 30 || interval > 86400)) {
+      return { success: false, message: 'Recovery interval must be between 30 and 86400 seconds' };
+    }
+
+    const sw = device as SwitchDevice;
+    const current: ErrDisableRecoveryConfig = sw.errdisableRecovery ?? { causes: [], interval: ERRDISABLE_DEFAULT_RECOVERY_INTERVAL };
+    const causes = current.causes.filter(c => c !== cause);
+    if (cause && enabled) causes.push(cause);
+    const recovery: ErrDisableRecoveryConfig = { causes, interval: interval ?? current.interval };
+    sw.errdisableRecovery = recovery.causes.length > 0 || recovery.interval !== ERRDISABLE_DEFAULT_RECOVERY_INTERVAL
+      ? recovery
+      : undefined;
+
+    return {
+      success: true,
+      message: `Err-disable recovery ${recovery.causes.length > 0 ? `enabled for ${recovery.causes.join(', ')}` : 'disabled'}, interval ${recovery.interval}s`,
+      data: { config: recovery }
+    };
+  }
+
+  /**
+   * Turn DHCP snooping on or off globally and/or set whether it checks client hardware addresses
+   * Command: [no] ip dhcp snooping / [no] ip dhcp snooping verify mac-address
+   */
+  configureDhcpSnooping(deviceId: string, settings: Partial<Pick<DhcpSnoopingConfig, 'enabled' | 'verifyMacAddress'>>): ConfigResult {
+    const device = this.devices.get(deviceId);
+    if (!isSwitchingDevice(device)) {
+      return { success: false, message: `Device ${deviceId} is not a switch` };
+    }
+
+    const sw = device as SwitchDevice;
+    const snooping = { ...this.getDhcpSnoopingConfig(sw), ...settings };
+    this.saveDhcpSnoopingConfig(sw, snooping);
+
+    return {
+      success: true,
+      message: `DHCP snooping ${snooping.enabled ? 'enabled' : 'disabled'}, client hardware address check ${snooping.verifyMacAddress ? 'on' : 'off'}`,
+      data: { config: snooping }
+    };
+  }
+
+  /**
+   * Snoop DHCP in VLANs, or with remove, stop snooping in them
+   * Command: [no] ip dhcp snooping vlan <vlan-list>
+   */
+  configureDhcpSnoopingVlans(deviceId: string, vlanIds: number[], remove: boolean = false): ConfigResult {
+    const device = this.devices.get(deviceId);
+    if (!isSwitchingDevice(device)) {
+      return { success: false, message: `Device ${deviceId} is not a switch` };
+    }
+    const invalid = vlanIds.find(id => !Number.isInteger(id) || id < 1 || id > 4094);
+    if (invalid !== undefined) {
+      return { success: false, message: `Invalid VLAN ${invalid}` };
+    }
+
+    const sw = device as SwitchDevice;
+    const snooping = this.getDhcpSnoopingConfig(sw);
+    const vlans = remove
+      ? snooping.vlans.filter(v => !vlanIds.includes(v))
+      : Array.from(new Set([...snooping.vlans, ...vlanIds])).sort((a, b) => a - b);
+    this.saveDhcpSnoopingConfig(sw, { ...snooping, vlans });
+
+    const warnings = !remove && !snooping.enabled ? ['DHCP snooping is disabled globally; enable it with ip dhcp snooping'] : undefined;
+    return {
+      success: true,
+      message: vlans.length > 0 ? `DHCP snooping configured on VLAN ${vlans.join(',')}` : 'DHCP snooping is not configured on any VLAN',
+      warnings,
+      data: { vlans }
+    };
+  }
+
+  /**
+   * Inspect ARP in VLANs against the DHCP snooping bindings, or with remove, stop inspecting it
+   * Command: [no] ip arp inspection vlan <vlan-list>
+   */
+  configureArpInspectionVlans(deviceId: string, vlanIds: number[], remove: boolean = false): ConfigResult {
+    const device = this.devices.get(deviceId);
+    if (!isSwitchingDevice(device)) {
+      return { success: false, message: `Device ${deviceId} is not a switch` };
+    }
+    const invalid = vlanIds.find(id => !Number.isInteger(id) || id < 1 || id > 4094);
+    if (invalid !== undefined) {
+      return { success: false, message: `Invalid VLAN ${invalid}` };
+    }
+
+    const sw = device as SwitchDevice;
+    const current = sw.arpInspectionVlans ?? [];
+    const vlans = remove
+      ? current.filter(v => !vlanIds.includes(v))
+      : Array.from(new Set([...current, ...vlanIds])).sort((a, b) => a - b);
+    sw.arpInspectionVlans = vlans.length > 0 ? vlans : undefined;
+
+    return {
+      success: true,
+      message: vlans.length > 0 ? `Dynamic ARP inspection enabled on VLAN ${vlans.join(',')}` : 'Dynamic ARP inspection is not enabled on any VLAN',
+      data: { vlans }
+    };
+  }
+
+  /**
+   * Change the port security settings of a switch port; settings given as undefined go back
+   * to their defaults. Turning sticky learning off drops the sticky addresses.
+   * Command: [no] switchport port-security [maximum <n> | violation <mode> | mac-address sticky | aging time <min> | aging type <type>]
+   */
+  configurePortSecurity(
+    deviceId: string,
+    interfaceName: string,
+    settings: Partial<Omit<PortSecurityConfig, 'macAddresses'>>
+  ): ConfigResult {
+    const device = this.devices.get(deviceId);
+    if (!isSwitchingDevice(device)) {
+      return { success: false, message: `Device ${deviceId} is not a switch` };
+    }
+    const targetInterface = (device as SwitchDevice).interfaces.find(i => i.name === interfaceName);
+    if (!targetInterface) {
+      return { success: false, message: `Interface ${interfaceName} not found` };
+    }
+
+    const current = this.getPortSecurityConfig(targetInterface);
+    const config: PortSecurityConfig = {
+      ...current,
+      ...settings,
+      maximum: 'maximum' in settings ? settings.maximum ?? 1 : current.maximum,
+      violation: 'violation' in settings ? settings.violation ?? 'shutdown' : current.violation,
+    };
+    if (!Number.isInteger(config.maximum) || config.maximum < 1 || config.maximum > 8192) {
+      return { success: false, message: 'Maximum must be between 1 and 8192' };
+    }
+    if (config.agingTime !== undefined && (!Number.isInteger(config.agingTime) || config.agingTime < 0 || config.agingTime > 1440)) {
+      return { success: false, message: 'Aging time must be between 0 and 1440 minutes' };
+    }
+    if (!config.sticky) {
+      config.macAddresses = config.macAddresses.filter(a => !a.sticky);
+    }
+    if (config.macAddresses.length > config.maximum) {
+      return { success: false, message: `Maximum is less than the ${config.macAddresses.length} secure addresses configured on ${interfaceName}` };
+    }
+    this.savePortSecurityConfig(targetInterface, { ...config, agingTime: config.agingTime || undefined });
+
+    const warnings = config.enabled && targetInterface.type === InterfaceType.TRUNK
+      ? [`${interfaceName} is a trunk; port security usually protects access ports`]
+      : undefined;
+    return {
+      success: true,
+      message: `Port security ${config.enabled ? 'enabled' : 'disabled'} on ${interfaceName}: maximum ${config.maximum}, violation ${config.violation}${config.sticky ? ', sticky learning' : ''}`,
+      warnings,
+      data: { config: targetInterface.portSecurity }
+    };
+  }
+
+  /**
+   * Add a static or sticky secure MAC address to a switch port, or with remove, take it off
+   * Command: [no] switchport port-security mac-address [sticky] <H.H.H> [vlan <vlan-id>]
+   */
+  configureSecureMacAddress(deviceId: string, interfaceName: string, address: SecureMacAddress, remove: boolean = false): ConfigResult {
+    const device = this.devices.get(deviceId);
+    if (!isSwitchingDevice(device)) {
+      return { success: false, message: `Device ${deviceId} is not a switch` };
+    }
+    const targetInterface = (device as SwitchDevice).interfaces.find(i => i.name === interfaceName);
+    if (!targetInterface) {
+      return { success: false, message: `Interface ${interfaceName} not found` };
+    }
+    if (!isMacAddress(address.macAddress)) {
+      return { success: false, message: `Invalid MAC address ${address.macAddress}` };
+    }
+    const macAddress = parseMacAddress(address.macAddress);
+    if (parseInt(macAddress.slice(0, 2), 16) & 1) {
+      return { success: false, message: `${address.macAddress} is a multicast address; secure addresses must be unicast` };
+    }
+    if (address.vlanId !== undefined && (!Number.isInteger(address.vlanId) || address.vlanId < 1 || address.vlanId > 4094)) {
+      return { success: false, message: `Invalid VLAN ${address.vlanId}` };
+    }
+
+    const config = this.getPortSecurityConfig(targetInterface);
+    const accessVlan = targetInterface.vlanConfig?.accessVlan ?? 1;
+    const matches = (a: SecureMacAddress) => a.macAddress === macAddress && (a.vlanId ?? accessVlan) === (address.vlanId ?? accessVlan);
+    if (remove) {
+      if (!config.macAddresses.some(matches)) {
+        return { success: false, message: `${address.macAddress} is not a secure address of ${interfaceName}` };
+      }
+      this.savePortSecurityConfig(targetInterface, { ...config, macAddresses: config.macAddresses.filter(a => !matches(a)) });
+      return { success: true, message: `Secure address ${address.macAddress} removed from ${interfaceName}` };
+    }
+
+    if (address.sticky && !config.sticky) {
+      return { success: false, message: `Sticky learning is not enabled on ${interfaceName}; use switchport port-security mac-address sticky` };
+    }
+    const duplicate = (device as SwitchDevice).interfaces.find(i =>
+      i.id !== targetInterface.id && i.portSecurity?.macAddresses.some(a =>
+        a.macAddress === macAddress && (a.vlanId ?? i.vlanConfig?.accessVlan ?? 1) === (address.vlanId ?? accessVlan)
+      )
+    );
+    if (duplicate) {
+      return { success: false, message: `Found duplicate mac-address ${address.macAddress}, already secured on ${duplicate.name}` };
+    }
+    const others = config.macAddresses.filter(a => !matches(a));
+    if (others.length >= config.maximum) {
+      return { success: false, message: `${interfaceName} already has its maximum of ${config.maximum} secure address(es)` };
+    }
+    const entry: SecureMacAddress = { macAddress, vlanId: address.vlanId, sticky: address.sticky || undefined };
+    this.savePortSecurityConfig(targetInterface, { ...config, macAddresses: [...others, entry] });
+
+    return {
+      success: true,
+      message: `${address.sticky ? 'Sticky' : 'Static'} secure address ${address.macAddress} added to ${interfaceName}`,
+      data: { address: entry }
+    };
+  }
+
+  /**
+   * Put a switch port into an EtherChannel, or with no config take it out. Every port of
+   * a channel group must use the same negotiation protocol.
+   * Command: [no] channel-group <1-48> mode {active | passive | desirable | auto | on}
+   */
+  configureChannelGroup(deviceId: string, interfaceName: string, config?: ChannelGroupConfig): ConfigResult {
+    const device = this.devices.get(deviceId);
+    if (!isSwitchingDevice(device)) {
+      return { success: false, message: `Device ${deviceId} is not a switch` };
+    }
+    const sw = device as SwitchDevice;
+    const targetInterface = sw.interfaces.find(i => i.name === interfaceName);
+    if (!targetInterface) {
+      return { success: false, message: `Interface ${interfaceName} not found` };
+    }
+    if (!config) {
+      const previous = targetInterface.channelGroup;
+      targetInterface.channelGroup = undefined;
+      return {
+        success: true,
+        message: previous ? `${interfaceName} removed from Port-channel${previous.group}` : `${interfaceName} is not in a channel group`,
+      };
+    }
+    if (!Number.isInteger(config.group) || config.group < 1 || config.group > 48) {
+      return { success: false, message: 'Channel group must be between 1 and 48' };
+    }
+
+    const protocol = getChannelProtocol(config.mode);
+    const conflicting = sw.interfaces.find(i =>
+      i.id !== targetInterface.id &&
+      i.channelGroup?.group === config.group &&
+      getChannelProtocol(i.channelGroup.mode) !== protocol
+    );
+    if (conflicting) {
+      return {
+        success: false,
+        message: `Channel group ${config.group} already uses mode ${conflicting.channelGroup!.mode} on ${conflicting.name}; ` +
+          `mode ${config.mode} is ${protocol === 'Static' ? 'not negotiated' : protocol}`,
+      };
+    }
+    const created = !sw.interfaces.some(i => i.channelGroup?.group === config.group);
+    targetInterface.channelGroup = { group: config.group, mode: config.mode };
+
+    return {
+      success: true,
+      message: `${created ? `Creating a port-channel interface Port-channel ${config.group}; ` : ''}${interfaceName} joins Port-channel${config.group} in mode ${config.mode}`,
+      data: { channelGroup: targetInterface.channelGroup }
+    };
+  }
+
+  /**
+   * Choose the frame fields a switch hashes to spread traffic over its port-channel links;
+   * no method goes back to src-mac
+   * Command: [no] port-channel load-balance <method>
+   */
+  configureEtherChannelLoadBalance(deviceId: string, method?: EtherChannelLoadBalance): ConfigResult {
+    const device = this.devices.get(deviceId);
+    if (!isSwitchingDevice(device)) {
+      return { success: false, message: `Device ${deviceId} is not a switch` };
+    }
+    if (method && !ETHERCHANNEL_LOAD_BALANCE_METHODS.includes(method)) {
+      return { success: false, message: `Invalid load-balance method ${method}` };
+    }
+    const sw = device as SwitchDevice;
+    sw.etherChannelLoadBalance = method && method !== DEFAULT_ETHERCHANNEL_LOAD_BALANCE ? method : undefined;
+
+    return {
+      success: true,
+      message: `EtherChannel load balancing uses ${method ?? DEFAULT_ETHERCHANNEL_LOAD_BALANCE}`,
+      data: { method: method ?? DEFAULT_ETHERCHANNEL_LOAD_BALANCE }
+    };
+  }
+
+  /**
+   * Configure static route
+   * Command: ip route <network> <mask> <gateway>
+   */
+  configureStaticRoute(deviceId: string, network: string, mask: string, nextHop: string): ConfigResult {
+    const device = this.devices.get(deviceId);
+    if (!device || (device.type !== DeviceType.ROUTER && device.type !== DeviceType.MULTILAYER_SWITCH)) {
+      return { success: false, message: `Device ${deviceId} is not a router` };
+    }
+
+    try {
+      this.routingEngine.addStaticRoute(deviceId, network, mask, nextHop);
+
+      // Persist on the device so the route survives a reload of the routing engine
+      const router = device as RouterDevice | MultilayerSwitchDevice;
+      router.routingTable = (router.routingTable || []).filter(r =>
+        !(r.protocol === 'static' && r.network === network && r.mask === mask)
+      );
+      router.routingTable.push({ network, mask, nextHop, interface: 'auto', metric: 1, protocol: 'static' });
+      
+      return {
+        success: true,
+        message: `Static route added: ${network}/${this.maskToPrefix(mask)} via ${nextHop}`,
+        data: { network, mask, nextHop }
+      };
+    } catch (error) {
+      return {
+        success: false,
+        message: `Failed to add static route: ${error instanceof Error ? error.message : 'Unknown error'}`
+      };
+    }
+  }
+
+  /**
+   * Remove static route
+   * Command: no ip route <network> <mask> [gateway]
+   */
+  removeStaticRoute(deviceId: string, network: string, mask: string): ConfigResult {
+    const device = this.devices.get(deviceId);
+    if (!device || (device.type !== DeviceType.ROUTER && device.type !== DeviceType.MULTILAYER_SWITCH)) {
+      return { success: false, message: `Device ${deviceId} is not a router` };
+    }
+
+    const router = device as RouterDevice | MultilayerSwitchDevice;
+    const routes = router.routingTable || [];
+    const remaining = routes.filter(r => !(r.protocol === 'static' && r.network === network && r.mask === mask));
+    if (remaining.length === routes.length) {
+      return { success: false, message: `Static route ${network} ${mask} not found` };
+    }
+
+    router.routingTable = remaining;
+    this.routingEngine.removeStaticRoute(deviceId, network, mask);
+
+    return {
+      success: true,
+      message: `Static route removed: ${network}/${this.maskToPrefix(mask)}`,
+      data: { network, mask }
+    };
+  }
+
+  /**
+   * Configure default route
+   * Command: ip route 0.0.0.0 0.0.0.0 <gateway>
+   */
+  configureDefaultRoute(deviceId: string, gateway: string): ConfigResult {
+    return this.configureStaticRoute(deviceId, '0.0.0.0', '0.0.0.0', gateway);
+  }
+
+  /**
+   * Set or clear the gateway a PC or server sends traffic for other subnets to
+   * Command: [no] ip default-gateway <address>
+   */
+  configureDefaultGateway(deviceId: string, gateway?: string): ConfigResult {
+    const device = this.devices.get(deviceId);
+    if (!device || (device.type !== DeviceType.PC && device.type !== DeviceType.SERVER)) {
+      return { success: false, message: `Device ${deviceId} is not a host` };
+    }
+
+    const host = device as PcDevice | ServerDevice;
+    if (!gateway) {
+      host.defaultGateway = undefined;
+      return { success: true, message: 'Default gateway removed' };
+    }
+
+    const addresses = (device.type === DeviceType.PC ? [(device as PcDevice).interface] : (device as ServerDevice).interfaces)
+      .map(i => i.ipAddress)
+      .filter((address): address is string => !!address);
+    if (addresses.some(address => address.split('/')[0] === gateway)) {
+      return { success: false, message: `${gateway} is the address of ${device.name}` };
+    }
+    const onLink = addresses.some(address => {
+      const subnet = SubnetCalculator.parseSubnet(address);
+      return SubnetCalculator.isInSameSubnet(gateway, subnet.network, subnet.mask);
+    });
+
+    host.defaultGateway = gateway;
+    return {
+      success: true,
+      message: `Default gateway set to ${gateway}`,
+      warnings: addresses.length > 0 && !onLink ? [`${gateway} is not within the subnet of any interface of ${device.name}`] : undefined,
+      data: { gateway },
+    };
+  }
+
+  /**
+   * Set or clear the IPv6 gateway of a PC or server
+   * Command: [no] ipv6 default-gateway <address>
+   */
+  configureIpv6DefaultGateway(deviceId: string, gateway?: string): ConfigResult {
+    const device = this.devices.get(deviceId);
+    if (!device || (device.type !== DeviceType.PC && device.type !== DeviceType.SERVER)) {
+      return { success: false, message: `Device ${deviceId} is not a host` };
+    }
+
+    const host = device as PcDevice | ServerDevice;
+    host.ipv6DefaultGateway = gateway ? IPv6AddressUtils.normalize(gateway) : undefined;
+    return gateway
+      ? { success: true, message: `IPv6 default gateway set to ${host.ipv6DefaultGateway}`, data: { gateway: host.ipv6DefaultGateway } }
+      : { success: true, message: 'IPv6 default gateway removed' };
+  }
+
+  /**
+   * Enable or disable forwarding of IPv6 packets and router advertisements
+   * Command: [no] ipv6 unicast-routing
+   */
+  configureIpv6UnicastRouting(deviceId: string, enabled: boolean): ConfigResult {
+    const device = this.devices.get(deviceId);
+    if (!device || device.type !== DeviceType.ROUTER) {
+      return { success: false, message: `Device ${deviceId} is not a router` };
+    }
+
+    (device as RouterDevice).ipv6UnicastRouting = enabled || undefined;
+    return { success: true, message: `IPv6 unicast routing ${enabled ? 'enabled' : 'disabled'}`, data: { enabled } };
+  }
+
+  /**
+   * Configure an IPv6 static route out of an interface, via a next hop, or both.
+   * A link-local next hop is only reachable with an exit interface.
+   * Command: ipv6 route <prefix>/<length> {<interface> [<next-hop>] | <next-hop>}
+   */
+  configureIpv6StaticRoute(deviceId: string, route: Ipv6StaticRoute): ConfigResult {
+    const device = this.devices.get(deviceId);
+    if (!device || device.type !== DeviceType.ROUTER) {
+      return { success: false, message: `Device ${deviceId} is not a router` };
+    }
+
+    const router = device as RouterDevice;
+    if (!IPv6AddressUtils.isValid(route.prefix)) {
+      return { success: false, message: `${route.prefix} is not a valid IPv6 prefix` };
+    }
+    if (route.interface && !router.interfaces.some(i => i.name === route.interface)) {
+      return { success: false, message: `Interface ${route.interface} not found on device ${router.name}` };
+    }
+    if (route.nextHop && !IPv6AddressUtils.isValid(route.nextHop)) {
+      return { success: false, message: `${route.nextHop} is not a valid IPv6 address` };
+    }
+    if (!route.interface && (!route.nextHop || IPv6AddressUtils.isLinkLocal(route.nextHop))) {
+      return { success: false, message: 'Interface has to be specified for a link-local nexthop' };
+    }
+
+    const prefix = IPv6AddressUtils.getPrefix(route.prefix, route.prefixLength);
+    const entry: Ipv6StaticRoute = {
+      prefix,
+      prefixLength: route.prefixLength,
+      nextHop: route.nextHop ? IPv6AddressUtils.normalize(route.nextHop) : undefined,
+      interface: route.interface,
+    };
+    router.ipv6Routes = [
+      ...(router.ipv6Routes ?? []).filter(r => !(r.prefix === prefix && r.prefixLength === route.prefixLength)),
+      entry,
+    ];
+
+    const via = [entry.nextHop && `via ${entry.nextHop}`, entry.interface].filter(Boolean).join(', ');
+    return {
+      success: true,
+      message: `IPv6 static route added: ${prefix}/${route.prefixLength} ${via}`,
+      data: { route: entry }
+    };
+  }
+
+  /**
+   * Remove an IPv6 static route
+   * Command: no ipv6 route <prefix>/<length> [...]
+   */
+  removeIpv6StaticRoute(deviceId: string, prefix: string, prefixLength: number): ConfigResult {
+    const device = this.devices.get(deviceId);
+    if (!device || device.type !== DeviceType.ROUTER) {
+      return { success: false, message: `Device ${deviceId} is not a router` };
+    }
+
+    const router = device as RouterDevice;
+    const network = IPv6AddressUtils.isValid(prefix) ? IPv6AddressUtils.getPrefix(prefix, prefixLength) : prefix;
+    const routes = router.ipv6Routes ?? [];
+    const remaining = routes.filter(r => !(r.prefix === network && r.prefixLength === prefixLength));
+    if (remaining.length === routes.length) {
+      return { success: false, message: `IPv6 static route ${network}/${prefixLength} not found` };
+    }
+
+    router.ipv6Routes = remaining.length > 0 ? remaining : undefined;
+    return {
+      success: true,
+      message: `IPv6 static route removed: ${network}/${prefixLength}`,
+      data: { prefix: network, prefixLength }
+    };
+  }
+
+  /**
+   * Add or remove a static inside source translation
+   * Command: [no] ip nat inside source static <local-ip> <global-ip>
+   */
+  configureNatStatic(deviceId: string, insideLocal: string, insideGlobal: string, remove: boolean = false): ConfigResult {
+    const router = this.getNatRouter(deviceId);
+    if (!router) {
+      return { success: false, message: `Device ${deviceId} is not a router` };
+    }
+
+    const nat = router.nat ?? { staticEntries: [], pools: [], dynamicRules: [] };
+    if (remove) {
+      const remaining = nat.staticEntries.filter(e => !(e.insideLocal === insideLocal && e.insideGlobal === insideGlobal));
+      if (remaining.length === nat.staticEntries.length) {
+        return { success: false, message: `Static translation ${insideLocal} -> ${insideGlobal} not found` };
+      }
+      this.saveNatConfig(router, { ...nat, staticEntries: remaining });
+      return { success: true, message: `Static translation ${insideLocal} -> ${insideGlobal} removed`, data: { insideLocal, insideGlobal } };
+    }
+
+    const conflict = nat.staticEntries.find(e => e.insideLocal !== insideLocal && e.insideGlobal === insideGlobal);
+    if (conflict) {
+      return { success: false, message: `${insideGlobal} already mapped (${conflict.insideLocal} -> ${conflict.insideGlobal})` };
+    }
+    this.saveNatConfig(router, {
+      ...nat,
+      staticEntries: [...nat.staticEntries.filter(e => e.insideLocal !== insideLocal), { insideLocal, insideGlobal }],
+    });
+    return { success: true, message: `Static translation ${insideLocal} -> ${insideGlobal} added`, data: { insideLocal, insideGlobal } };
+  }
+
+  /**
+   * Define a pool of inside global addresses
+   * Command: ip nat pool <name> <start-ip> <end-ip> netmask <mask>
+   */
+  configureNatPool(deviceId: string, pool: NatPool): ConfigResult {
+    const router = this.getNatRouter(deviceId);
+    if (!router) {
+      return { success: false, message: `Device ${deviceId} is not a router` };
+    }
+
+    const toNumber = (ip: string) => IPAddressUtils.ipToNumber(ip) >>> 0;
+    if (toNumber(pool.startIp) > toNumber(pool.endIp)) {
+      return { success: false, message: `End address ${pool.endIp} is below start address ${pool.startIp}` };
+    }
+    if (!IPAddressUtils.isInSubnet(pool.endIp, pool.startIp, pool.netmask)) {
+      return { success: false, message: `Start and end addresses are in different subnets of netmask ${pool.netmask}` };
+    }
+
+    const nat = router.nat ?? { staticEntries: [], pools: [], dynamicRules: [] };
+    this.saveNatConfig(router, { ...nat, pools: [...nat.pools.filter(p => p.name !== pool.name), { ...pool }] });
+    return { success: true, message: `NAT pool ${pool.name} set to ${pool.startIp} - ${pool.endIp}`, data: { pool } };
+  }
+
+  /**
+   * Remove a NAT pool
+   * Command: no ip nat pool <name>
+   */
+  removeNatPool(deviceId: string, name: string): ConfigResult {
+    const router = this.getNatRouter(deviceId);
+    if (!router) {
+      return { success: false, message: `Device ${deviceId} is not a router` };
+    }
+
+    const nat = router.nat;
+    if (!nat?.pools.some(p => p.name === name)) {
+      return { success: false, message: `Pool ${name} not found` };
+    }
+    if (nat.dynamicRules.some(r => r.pool === name)) {
+      return { success: false, message: `Pool ${name} is in use by a NAT rule` };
+    }
+    this.saveNatConfig(router, { ...nat, pools: nat.pools.filter(p => p.name !== name) });
+    return { success: true, message: `NAT pool ${name} removed`, data: { name } };
+  }
+
+  /**
+   * Translate inside sources permitted by an ACL to a pool, or overload a pool or interface address
+   * Command: ip nat inside source list <acl> {pool <name> | interface <interface>} [overload]
+   */
+  configureNatRule(deviceId: string, rule: NatDynamicRule): ConfigResult {
+    const router = this.getNatRouter(deviceId);
+    if (!router) {
+      return { success: false, message: `Device ${deviceId} is not a router` };
+    }
+
+    const warnings: string[] = [];
+    const nat = router.nat ?? { staticEntries: [], pools: [], dynamicRules: [] };
+    let target = { ...rule };
+    if (rule.interface) {
+      const iface = router.interfaces.find(i => i.name === rule.interface);
+      if (!iface) {
+        return { success: false, message: `Interface ${rule.interface} not found` };
+      }
+      if (!rule.overload) {
+        return { success: false, message: 'Translating to an interface address requires overload' };
+      }
+      target = { ...target, interface: iface.name };
+    } else if (rule.pool && !nat.pools.some(p => p.name === rule.pool)) {
+      warnings.push(`Pool ${rule.pool} is not defined`);
+    }
+
+    // One rule per ACL, as a new source list statement replaces the old one
+    this.saveNatConfig(router, { ...nat, dynamicRules: [...nat.dynamicRules.filter(r => r.aclName !== rule.aclName), target] });
+    return {
+      success: true,
+      message: `Inside sources permitted by ${rule.aclName} translated to ${rule.pool ? `pool ${rule.pool}` : `interface ${target.interface}`}${rule.overload ? ' with overload' : ''}`,
+      warnings: warnings.length > 0 ? warnings : undefined,
+      data: { rule: target }
+    };
+  }
+
+  /**
+   * Remove the dynamic NAT rule for an ACL
+   * Command: no ip nat inside source list <acl> ...
+   */
+  removeNatRule(deviceId: string, aclName: string): ConfigResult {
+    const router = this.getNatRouter(deviceId);
+    if (!router) {
+      return { success: false, message: `Device ${deviceId} is not a router` };
+    }
+
+    const nat = router.nat;
+    if (!nat?.dynamicRules.some(r => r.aclName === aclName)) {
+      return { success: false, message: `No NAT rule for access list ${aclName}` };
+    }
+    this.saveNatConfig(router, { ...nat, dynamicRules: nat.dynamicRules.filter(r => r.aclName !== aclName) });
+    return { success: true, message: `NAT rule for access list ${aclName} removed`, data: { aclName } };
+  }
+
+  /**
+   * Create an ACL, or check that an existing one has the type asked for. A numbered ACL
+   * takes its type from its number.
+   * Command: ip access-list {standard|extended} <name>
+   */
+  configureAccessList(deviceId: string, name: string, type: AccessListType): ConfigResult {
+    const device = this.getAclDevice(deviceId);
+    if (!device) {
+      return { success: false, message: `Device ${deviceId} does not support access lists` };
+    }
+
+    if (isNumberedAcl(name) && getNumberedAclType(name) !== type) {
+      return { success: false, message: `Access list ${name} is not a valid ${type} access list number` };
+    }
+    const existing = findAccessList(device, name);
+    if (existing && existing.type !== type) {
+      return { success: false, message: `${name} is ${existing.type === 'standard' ? 'a standard' : 'an extended'} access list` };
+    }
+    if (!existing) {
+      this.saveAccessList(device, { name, type, entries: [] });
+    }
+    return { success: true, message: `Access list ${name} configured`, data: { name, type } };
+  }
+
+  /**
+   * Add a permit or deny entry to an ACL, creating the ACL. Entries without a sequence
+   * number go to the end of the list.
+   * Command: access-list <number> {permit|deny} ..., or [<sequence>] {permit|deny} ... of ip access-list
+   */
+  configureAccessListEntry(
+    deviceId: string,
+    name: string,
+    type: AccessListType,
+    entry: Omit<AccessListEntry, 'sequenceNumber'> & { sequenceNumber?: number }
+  ): ConfigResult {
+    const created = this.configureAccessList(deviceId, name, type);
+    if (!created.success) return created;
+
+    const device = this.getAclDevice(deviceId)!;
+    const acl = findAccessList(device, name)!;
+    const sequenceNumber = entry.sequenceNumber ?? nextAclSequence(acl);
+    if (acl.entries.some(e => e.sequenceNumber === sequenceNumber)) {
+      return { success: false, message: `Duplicate sequence number ${sequenceNumber}` };
+    }
+
+    const added: AccessListEntry = { ...entry, sequenceNumber };
+    this.saveAccessList(device, {
+      ...acl,
+      entries: [...acl.entries, added].sort((a, b) => a.sequenceNumber - b.sequenceNumber),
+    });
+    return { success: true, message: `Entry ${sequenceNumber} added to access list ${name}`, data: { name, entry: added } };
+  }
+
+  /**
+   * Remove one entry of an ACL
+   * Command: no <sequence> in ip access-list mode
+   */
+  removeAccessListEntry(deviceId: string, name: string, sequenceNumber: number): ConfigResult {
+    const device = this.getAclDevice(deviceId);
+    if (!device) {
+      return { success: false, message: `Device ${deviceId} does not support access lists` };
+    }
+
+    const acl = findAccessList(device, name);
+    if (!acl?.entries.some(e => e.sequenceNumber === sequenceNumber)) {
+      return { success: false, message: `Access list ${name} has no entry ${sequenceNumber}` };
+    }
+    this.saveAccessList(device, { ...acl, entries: acl.entries.filter(e => e.sequenceNumber !== sequenceNumber) });
+    return { success: true, message: `Entry ${sequenceNumber} removed from access list ${name}`, data: { name, sequenceNumber } };
+  }
+
+  /**
+   * Remove an ACL with all its entries
+   * Command: no access-list <number> / no ip access-list {standard|extended} <name>
+   */
+  removeAccessList(deviceId: string, name: string): ConfigResult {
+    const device = this.getAclDevice(deviceId);
+    if (!device) {
+      return { success: false, message: `Device ${deviceId} does not support access lists` };
+    }
+
+    if (!findAccessList(device, name)) {
+      return { success: false, message: `Access list ${name} is not defined` };
+    }
+    const remaining = (device.accessLists ?? []).filter(acl => acl.name !== name);
+    device.accessLists = remaining.length > 0 ? remaining : undefined;
+    const warnings: string[] = [];
+    if (device.type === DeviceType.ROUTER && device.nat?.dynamicRules.some(r => r.aclName === name)) {
+      warnings.push(`NAT rule for access list ${name} now matches no inside source`);
+    }
+    // As in IOS, interfaces keep the access group and pass all traffic until the ACL is defined again
+    const applied = device.interfaces.filter(i => i.accessGroups?.in === name || i.accessGroups?.out === name);
+    if (applied.length > 0) {
+      warnings.push(`Access list ${name} is still applied to ${applied.map(i => i.name).join(', ')}`);
+    }
+    return { success: true, message: `Access list ${name} removed`, warnings: warnings.length > 0 ? warnings : undefined, data: { name } };
+  }
+
+  /**
+   * Filter IP traffic through an interface with an ACL, replacing the one applied in that direction.
+   * An ACL that is not defined yet filters nothing until it is.
+   * Command: ip access-group <acl> {in|out}
+   */
+  configureAccessGroup(deviceId: string, interfaceName: string, direction: AclDirection, aclName: string): ConfigResult {
+    const device = this.getAclDevice(deviceId);
+    if (!device) {
+      return { success: false, message: `Device ${deviceId} does not support access lists` };
+    }
+    const targetInterface = device.interfaces.find(i => i.name === interfaceName);
+    if (!targetInterface) {
+      return { success: false, message: `Interface ${interfaceName} not found on device ${device.name}` };
+    }
+
+    targetInterface.accessGroups = { ...targetInterface.accessGroups, [direction]: aclName };
+    const warnings = findAccessList(device, aclName) ? undefined : [`Access list ${aclName} is not defined; ${interfaceName} passes all traffic until it is`];
+    return { success: true, message: `Access list ${aclName} applied ${direction} on ${interfaceName}`, warnings, data: { interface: targetInterface } };
+  }
+
+  /**
+   * Stop filtering traffic through an interface in one direction
+   * Command: no ip access-group [<acl>] {in|out}
+   */
+  removeAccessGroup(deviceId: string, interfaceName: string, direction: AclDirection): ConfigResult {
+    const device = this.getAclDevice(deviceId);
+    if (!device) {
+      return { success: false, message: `Device ${deviceId} does not support access lists` };
+    }
+    const targetInterface = device.interfaces.find(i => i.name === interfaceName);
+    if (!targetInterface) {
+      return { success: false, message: `Interface ${interfaceName} not found on device ${device.name}` };
+    }
+
+    const aclName = targetInterface.accessGroups?.[direction];
+    if (!aclName) {
+      return { success: false, message: `No access list applied ${direction} on ${interfaceName}` };
+    }
+    const accessGroups = { ...targetInterface.accessGroups };
+    delete accessGroups[direction];
+    targetInterface.accessGroups = accessGroups.in || accessGroups.out ? accessGroups : undefined;
+    return { success: true, message: `Access list ${aclName} removed ${direction} from ${interfaceName}`, data: { interface: targetInterface } };
+  }
+
+  /**
+   * Create a DHCP pool or change its settings; settings set to undefined are removed.
+   * A pool's network may not overlap another pool's.
+   * Command: ip dhcp pool <name>, then network, default-router, dns-server and lease
+   */
+  configureDhcpServerPool(deviceId: string, name: string, settings: Partial<Omit<DhcpPoolConfig, 'name'>> = {}): ConfigResult {
+    const server = this.getDhcpServerDevice(deviceId);
+    if (!server) {
+      return { success: false, message: `Device ${deviceId} is not a router or server` };
+    }
+
+    const dhcp = server.dhcpServer ?? { pools: [], excludedRanges: [] };
+    const pool: DhcpPoolConfig = { ...dhcp.pools.find(p => p.name === name), ...settings, name };
+    if (settings.network !== undefined || settings.mask !== undefined) {
+      if (!pool.network || !pool.mask || !IPAddressUtils.validateIP(pool.network) || !IPAddressUtils.validateSubnetMask(pool.mask)) {
+        return { success: false, message: 'A pool network needs a valid address and mask' };
+      }
+      pool.network = IPAddressUtils.numberToIp(IPAddressUtils.ipToNumber(pool.network) & IPAddressUtils.ipToNumber(pool.mask));
+      const overlap = dhcp.pools.find(p => p.name !== name && p.network && p.mask && (
+        IPAddressUtils.isInSubnet(pool.network!, p.network, p.mask) || IPAddressUtils.isInSubnet(p.network, pool.network!, pool.mask!)
+      ));
+      if (overlap) {
+        return { success: false, message: `${pool.network}/${this.maskToPrefix(pool.mask)} overlaps with pool ${overlap.name}` };
+      }
+    }
+    (Object.keys(pool) as Array<keyof DhcpPoolConfig>)
+      .filter(key => pool[key] === undefined)
+      .forEach(key => delete pool[key]);
+
+    const index = dhcp.pools.findIndex(p => p.name === name);
+    const pools = index >= 0 ? dhcp.pools.map((p, i) => i === index ? pool : p) : [...dhcp.pools, pool];
+    this.saveDhcpServerConfig(server, { ...dhcp, pools });
+    return { success: true, message: `DHCP pool ${name} configured`, data: { pool } };
+  }
+
+  /**
+   * Remove a DHCP pool
+   * Command: no ip dhcp pool <name>
+   */
+  removeDhcpServerPool(deviceId: string, name: string): ConfigResult {
+    const server = this.getDhcpServerDevice(deviceId);
+    if (!server) {
+      return { success: false, message: `Device ${deviceId} is not a router or server` };
+    }
+
+    const dhcp = server.dhcpServer;
+    if (!dhcp?.pools.some(p => p.name === name)) {
+      return { success: false, message: `Pool ${name} not found` };
+    }
+    this.saveDhcpServerConfig(server, { ...dhcp, pools: dhcp.pools.filter(p => p.name !== name) });
+    return { success: true, message: `DHCP pool ${name} removed`, data: { name } };
+  }
+
+  /**
+   * Keep a range of addresses out of every pool, or give it back
+   * Command: [no] ip dhcp excluded-address <low-ip> [<high-ip>]
+   */
+  configureDhcpExcludedAddresses(deviceId: string, start: string, end: string = start, remove: boolean = false): ConfigResult {
+    const server = this.getDhcpServerDevice(deviceId);
+    if (!server) {
+      return { success: false, message: `Device ${deviceId} is not a router or server` };
+    }
+    if ((IPAddressUtils.ipToNumber(start) >>> 0) > (IPAddressUtils.ipToNumber(end) >>> 0)) {
+      return { success: false, message: `High address ${end} is below low address ${start}` };
+    }
+
+    const dhcp = server.dhcpServer ?? { pools: [], excludedRanges: [] };
+    const others = dhcp.excludedRanges.filter(r => !(r.start === start && r.end === end));
+    if (remove) {
+      if (others.length === dhcp.excludedRanges.length) {
+        return { success: false, message: `Excluded range ${start} - ${end} not found` };
+      }
+      this.saveDhcpServerConfig(server, { ...dhcp, excludedRanges: others });
+      return { success: true, message: `Excluded range ${start} - ${end} removed`, data: { start, end } };
+    }
+    this.saveDhcpServerConfig(server, { ...dhcp, excludedRanges: [...others, { start, end }] });
+    return { success: true, message: `Addresses ${start} - ${end} excluded from DHCP`, data: { start, end } };
+  }
+
+  /**
+   * Relay DHCP broadcasts received on an interface to a server, or stop relaying to one
+   * (to all of them when no address is given)
+   * Command: [no] ip helper-address <address>
+   */
+  configureHelperAddress(deviceId: string, interfaceName: string, address?: string, remove: boolean = false): ConfigResult {
+    const device = this.devices.get(deviceId);
+    if (device?.type !== DeviceType.ROUTER) {
+      return { success: false, message: 'DHCP relay is only supported on routers' };
+    }
+    const router = device as RouterDevice;
+    const targetInterface = router.interfaces.find(i => i.name === interfaceName);
+    if (!targetInterface) {
+      return { success: false, message: `Interface ${interfaceName} not found on device ${router.name}` };
+    }
+
+    const current = targetInterface.helperAddresses ?? [];
+    if (remove) {
+      if (address && !current.includes(address)) {
+        return { success: false, message: `Helper address ${address} not configured on ${interfaceName}` };
+      }
+      const remaining = address ? current.filter(a => a !== address) : [];
+      targetInterface.helperAddresses = remaining.length > 0 ? remaining : undefined;
+      return { success: true, message: `Helper address ${address ?? 'list'} removed from ${interfaceName}`, data: { interface: targetInterface } };
+    }
+    if (!address) {
+      return { success: false, message: 'Helper address required' };
+    }
+    targetInterface.helperAddresses = current.includes(address) ? current : [...current, address];
+    return { success: true, message: `DHCP broadcasts on ${interfaceName} relayed to ${address}`, data: { interface: targetInterface } };
+  }
+
+  /**
+   * Enable OSPF
+   * Command: router ospf <process-id>
+   */
+  enableOSPF(deviceId: string, processId: number = 1, areaId: string = '0.0.0.0'): ConfigResult {
+    const device = this.devices.get(deviceId);
+    if (!device || device.type !== DeviceType.ROUTER) {
+      return { success: false, message: `Device ${deviceId} is not a router` };
+    }
+
+    const router = device as RouterDevice;
+    router.ospfEnabled = true;
+    router.ospfConfig = router.ospfConfig && router.ospfConfig.processId === processId
+      ? router.ospfConfig
+      : { processId, networks: [] };
+    
+    this.routingEngine.enableOSPF(deviceId, areaId);
+
+    return {
+      success: true,
+      message: `OSPF process ${processId} enabled for area ${areaId}`,
+      data: { processId, areaId }
+    };
+  }
+
+  /**
+   * Configure OSPF network statement
+   * Command: network <address> <wildcard> area <area-id>
+   */
+  configureOSPFNetwork(deviceId: string, network: string, wildcard: string, areaId: string): ConfigResult {
+    const device = this.devices.get(deviceId);
+    if (!device || device.type !== DeviceType.ROUTER) {
+      return { success: false, message: `Device ${deviceId} is not a router` };
+    }
+
+    const router = device as RouterDevice;
+    if (!router.ospfEnabled || !router.ospfConfig) {
+      return { success: false, message: 'OSPF is not enabled on this router' };
+    }
+
+    const networks = router.ospfConfig.networks.filter(n => !(n.network === network && n.wildcard === wildcard));
+    networks.push({ network, wildcard, area: areaId });
+    router.ospfConfig = { ...router.ospfConfig, networks };
+
+    this.routingEngine.enableOSPF(deviceId, areaId);
+
+    return {
+      success: true,
+      message: `OSPF network ${network} ${wildcard} added to area ${areaId}`,
+      data: { network, wildcard, areaId }
+    };
+  }
+
+  /**
+   * Configure OSPF router ID
+   * Command: router-id <id>
+   */
+  configureOSPFRouterId(deviceId: string, routerId: string): ConfigResult {
+    const device = this.devices.get(deviceId);
+    if (!device || device.type !== DeviceType.ROUTER) {
+      return { success: false, message: `Device ${deviceId} is not a router` };
+    }
+
+    const router = device as RouterDevice;
+    if (!router.ospfEnabled || !router.ospfConfig) {
+      return { success: false, message: 'OSPF is not enabled on this router' };
+    }
+
+    router.ospfConfig = { ...router.ospfConfig, routerId };
+    return {
+      success: true,
+      message: `OSPF router ID set to ${routerId}`,
+      data: { routerId }
+    };
+  }
+
+  /**
+   * Disable OSPF
+   * Command: no router ospf <process-id>
+   */
+  disableOSPF(deviceId: string, processId: number): ConfigResult {
+    const device = this.devices.get(deviceId);
+    if (!device || device.type !== DeviceType.ROUTER) {
+      return { success: false, message: `Device ${deviceId} is not a router` };
+    }
+
+    const router = device as RouterDevice;
+    if (!router.ospfConfig || router.ospfConfig.processId !== processId) {
+      return { success: false, message: `OSPF process ${processId} is not configured` };
+    }
+
+    router.ospfEnabled = false;
+    router.ospfConfig = undefined;
+    return {
+      success: true,
+      message: `OSPF process ${processId} removed`,
+      data: { processId }
+    };
+  }
+
+  /**
+   * Enable RIP
+   * Command: router rip
+   */
+  enableRIP(deviceId: string): ConfigResult {
+    const device = this.devices.get(deviceId);
+    if (!device || device.type !== DeviceType.ROUTER) {
+      return { success: false, message: `Device ${deviceId} is not a router` };
+    }
+
+    const router = device as RouterDevice;
+    router.ripEnabled = true;
+    router.ripConfig = router.ripConfig ?? { version: 2, networks: [] };
+
+    return {
+      success: true,
+      message: 'RIP enabled',
+      data: { config: router.ripConfig }
+    };
+  }
+
+  /**
+   * Configure RIP network statement (stored as the classful network, as IOS does)
+   * Command: [no] network <address>
+   */
+  configureRIPNetwork(deviceId: string, network: string, remove: boolean = false): ConfigResult {
+    const device = this.devices.get(deviceId);
+    if (!device || device.type !== DeviceType.ROUTER) {
+      return { success: false, message: `Device ${deviceId} is not a router` };
+    }
+
+    const router = device as RouterDevice;
+    if (!router.ripEnabled || !router.ripConfig) {
+      return { success: false, message: 'RIP is not enabled on this router' };
+    }
+
+    const classful = getClassfulNetwork(network);
+    const networks = router.ripConfig.networks.filter(n => n !== classful);
+    if (remove && networks.length === router.ripConfig.networks.length) {
+      return { success: false, message: `RIP network ${classful} is not configured` };
+    }
+    if (!remove) {
+      networks.push(classful);
+    }
+    router.ripConfig = { ...router.ripConfig, networks };
+
+    return {
+      success: true,
+      message: `RIP network ${classful} ${remove ? 'removed' : 'added'}`,
+      data: { network: classful }
+    };
+  }
+
+  /**
+   * Configure RIP timers; omit timers to restore the defaults
+   * Command: [no] timers basic <update> <invalid> <holddown> <flush>
+   */
+  configureRIPTimers(deviceId: string, timers?: RipTimers): ConfigResult {
+    const device = this.devices.get(deviceId);
+    if (!device || device.type !== DeviceType.ROUTER) {
+      return { success: false, message: `Device ${deviceId} is not a router` };
+    }
+
+    const router = device as RouterDevice;
+    if (!router.ripEnabled || !router.ripConfig) {
+      return { success: false, message: 'RIP is not enabled on this router' };
+    }
+
+    const warnings: string[] = [];
+    if (timers && timers.invalid < timers.update * 3) {
+      warnings.push('Invalid timer is less than three update intervals; routes may time out between updates');
+    }
+
+    router.ripConfig = { ...router.ripConfig, timers };
+    return {
+      success: true,
+      message: timers ? 'RIP timers updated' : 'RIP timers reset to defaults',
+      warnings: warnings.length > 0 ? warnings : undefined,
+      data: { timers: timers ?? DEFAULT_RIP_TIMERS }
+    };
+  }
+
+  /**
+   * Disable RIP
+   * Command: no router rip
+   */
+  disableRIP(deviceId: string): ConfigResult {
+    const device = this.devices.get(deviceId);
+    if (!device || device.type !== DeviceType.ROUTER) {
+      return { success: false, message: `Device ${deviceId} is not a router` };
+    }
+
+    const router = device as RouterDevice;
+    if (!router.ripEnabled) {
+      return { success: false, message: 'RIP is not configured' };
+    }
+
+    router.ripEnabled = false;
+    router.ripConfig = undefined;
+    return {
+      success: true,
+      message: 'RIP removed'
+    };
+  }
+
+  /**
+   * Enable BGP; a router runs a single BGP process
+   * Command: router bgp <asn>
+   */
+  enableBGP(deviceId: string, asn: number): ConfigResult {
+    const device = this.devices.get(deviceId);
+    if (!device || device.type !== DeviceType.ROUTER) {
+      return { success: false, message: `Device ${deviceId} is not a router` };
+    }
+
+    const router = device as RouterDevice;
+    if (router.bgpEnabled && router.bgpConfig && router.bgpConfig.asn !== asn) {
+      return { success: false, message: `BGP is already running; AS is ${router.bgpConfig.asn}` };
+    }
+
+    router.bgpEnabled = true;
+    router.bgpConfig = router.bgpConfig ?? { asn, neighbors: [], networks: [] };
+
+    return {
+      success: true,
+      message: `BGP enabled in AS ${asn}`,
+      data: { config: router.bgpConfig }
+    };
+  }
+
+  /**
+   * Configure BGP router ID; omit the ID to fall back to the highest interface address
+   * Command: [no] bgp router-id <id>
+   */
+  configureBGPRouterId(deviceId: string, routerId?: string): ConfigResult {
+    const device = this.devices.get(deviceId);
+    if (!device || device.type !== DeviceType.ROUTER) {
+      return { success: false, message: `Device ${deviceId} is not a router` };
+    }
+
+    const router = device as RouterDevice;
+    if (!router.bgpEnabled || !router.bgpConfig) {
+      return { success: false, message: 'BGP is not enabled on this router' };
+    }
+
+    router.bgpConfig = { ...router.bgpConfig, routerId };
+    return {
+      success: true,
+      message: routerId ? `BGP router ID set to ${routerId}` : 'BGP router ID removed',
+      data: { routerId }
+    };
+  }
+
+  /**
+   * Configure a BGP neighbor. The first statement for an address must include remote-as;
+   * later ones update individual settings.
+   * Command: [no] neighbor <address> remote-as|description|shutdown|next-hop-self ...
+   */
+  configureBGPNeighbor(deviceId: string, address: string, settings: Partial<Omit<BgpNeighborConfig, 'address'>>): ConfigResult {
+    const device = this.devices.get(deviceId);
+    if (!device || device.type !== DeviceType.ROUTER) {
+      return { success: false, message: `Device ${deviceId} is not a router` };
+    }
+
+    const router = device as RouterDevice;
+    if (!router.bgpEnabled || !router.bgpConfig) {
+      return { success: false, message: 'BGP is not enabled on this router' };
+    }
+
+    const config = router.bgpConfig;
+    const existing = config.neighbors.find(n => n.address === address);
+    if (!existing && settings.remoteAs === undefined) {
+      return { success: false, message: `Specify remote-as or peer-group commands first for neighbor ${address}` };
+    }
+
+    const neighbor: BgpNeighborConfig = { ...(existing ?? { address, remoteAs: settings.remoteAs! }), ...settings };
+    (Object.keys(neighbor) as Array<keyof BgpNeighborConfig>).forEach(key => {
+      if (neighbor[key] === undefined || neighbor[key] === false) delete neighbor[key];
+    });
+    router.bgpConfig = {
+      ...config,
+      neighbors: existing
+        ? config.neighbors.map(n => (n === existing ? neighbor : n))
+        : [...config.neighbors, neighbor],
+    };
+
+    return {
+      success: true,
+      message: `BGP neighbor ${address} ${existing ? 'updated' : `added in AS ${neighbor.remoteAs}`}`,
+      data: { neighbor }
+    };
+  }
+
+  /**
+   * Remove a BGP neighbor
+   * Command: no neighbor <address> [remote-as <asn>]
+   */
+  removeBGPNeighbor(deviceId: string, address: string): ConfigResult {
+    const device = this.devices.get(deviceId);
+    if (!device || device.type !== DeviceType.ROUTER) {
+      return { success: false, message: `Device ${deviceId} is not a router` };
+    }
+
+    const router = device as RouterDevice;
+    if (!router.bgpEnabled || !router.bgpConfig) {
+      return { success: false, message: 'BGP is not enabled on this router' };
+    }
+
+    const config = router.bgpConfig;
+    if (!config.neighbors.some(n => n.address === address)) {
+      return { success: false, message: `BGP neighbor ${address} is not configured` };
+    }
+
+    router.bgpConfig = { ...config, neighbors: config.neighbors.filter(n => n.address !== address) };
+    return {
+      success: true,
+      message: `BGP neighbor ${address} removed`,
+      data: { address }
+    };
+  }
+
+  /**
+   * Configure a BGP network statement; the prefix is only advertised while it is in the routing table
+   * Command: [no] network <address> mask <mask>
+   */
+  configureBGPNetwork(deviceId: string, network: string, mask: string, remove: boolean = false): ConfigResult {
+    const device = this.devices.get(deviceId);
+    if (!device || device.type !== DeviceType.ROUTER) {
+      return { success: false, message: `Device ${deviceId} is not a router` };
+    }
+
+    const router = device as RouterDevice;
+    if (!router.bgpEnabled || !router.bgpConfig) {
+      return { success: false, message: 'BGP is not enabled on this router' };
+    }
 
-    // Ensure native VLAN is in allowed list
-    if (targetInterface.vlanConfig.allowedVlans && !targetInterface.vlanConfig.allowedVlans.includes(vlanId)) {
-      targetInterface.vlanConfig.allowedVlans.push(vlanId);
-      warnings.push(`Added native VLAN ${vlanId} to allowed VLANs list`);
+    const config = router.bgpConfig;
+    const networks = config.networks.filter(n => !(n.network === network && n.mask === mask));
+    if (remove && networks.length === config.networks.length) {
+      return { success: false, message: `BGP network ${network} mask ${mask} is not configured` };
+    }
+    if (!remove) {
+      networks.push({ network, mask });
     }
+    router.bgpConfig = { ...config, networks };
 
     return {
       success: true,
-      message: `Native VLAN set to ${vlanId}`,
-      warnings: warnings.length > 0 ? warnings : undefined,
-      data: { nativeVlan: vlanId }
+      message: `BGP network ${network} mask ${mask} ${remove ? 'removed' : 'added'}`,
+      data: { network, mask }
     };
   }
 
   /**
-   * Configure static route
-   * Command: ip route <network> <mask> <gateway>
+   * Configure the local preference given to paths learned from eBGP peers and local networks
+   * Command: [no] bgp default local-preference <value>
    */
-  configureStaticRoute(deviceId: string, network: string, mask: string, nextHop: string): ConfigResult {
+  configureBGPLocalPreference(deviceId: string, localPreference?: number): ConfigResult {
     const device = this.devices.get(deviceId);
     if (!device || device.type !== DeviceType.ROUTER) {
       return { success: false, message: `Device ${deviceId} is not a router` };
     }
 
-    try {
-      this.routingEngine.addStaticRoute(deviceId, network, mask, nextHop);
-      
-      return {
-        success: true,
-        message: `Static route added: ${network}/${this.maskToPrefix(mask)} via ${nextHop}`,
-        data: { network, mask, nextHop }
-      };
-    } catch (error) {
-      return {
-        success: false,
-        message: `Failed to add static route: ${error instanceof Error ? error.message : 'Unknown error'}`
-      };
+    const router = device as RouterDevice;
+    if (!router.bgpEnabled || !router.bgpConfig) {
+      return { success: false, message: 'BGP is not enabled on this router' };
     }
-  }
 
-  /**
-   * Configure default route
-   * Command: ip route 0.0.0.0 0.0.0.0 <gateway>
-   */
-  configureDefaultRoute(deviceId: string, gateway: string): ConfigResult {
-    return this.configureStaticRoute(deviceId, '0.0.0.0', '0.0.0.0', gateway);
+    router.bgpConfig = { ...router.bgpConfig, defaultLocalPreference: localPreference };
+    return {
+      success: true,
+      message: `BGP default local preference set to ${localPreference ?? BGP_DEFAULT_LOCAL_PREFERENCE}`,
+      data: { localPreference: localPreference ?? BGP_DEFAULT_LOCAL_PREFERENCE }
+    };
   }
 
   /**
-   * Enable OSPF
-   * Command: router ospf <process-id>
+   * Disable BGP
+   * Command: no router bgp <asn>
    */
-  enableOSPF(deviceId: string, processId: number = 1, areaId: string = '0.0.0.0'): ConfigResult {
+  disableBGP(deviceId: string, asn: number): ConfigResult {
     const device = this.devices.get(deviceId);
     if (!device || device.type !== DeviceType.ROUTER) {
       return { success: false, message: `Device ${deviceId} is not a router` };
     }
 
     const router = device as RouterDevice;
-    router.ospfEnabled = true;
-    
-    this.routingEngine.enableOSPF(deviceId, areaId);
+    if (!router.bgpConfig || router.bgpConfig.asn !== asn) {
+      return { success: false, message: `BGP AS ${asn} is not configured` };
+    }
 
+    router.bgpEnabled = false;
+    router.bgpConfig = undefined;
     return {
       success: true,
-      message: `OSPF process ${processId} enabled for area ${areaId}`,
-      data: { processId, areaId }
+      message: `BGP AS ${asn} removed`,
+      data: { asn }
     };
   }
 
@@ -493,6 +2425,371 @@ export class NetworkConfigurationManager {
     }
   }
 
+  /**
+   * Create a subinterface of a router interface, or select it when it exists
+   * Command: interface <interface>.<number>
+   */
+  createSubinterface(deviceId: string, interfaceName: string): ConfigResult {
+    const device = this.devices.get(deviceId);
+    if (!device || device.type !== DeviceType.ROUTER) {
+      return { success: false, message: `Device ${deviceId} is not a router` };
+    }
+    const router = device as RouterDevice;
+    const existing = router.interfaces.find(i => i.name === interfaceName);
+    if (existing) {
+      return { success: true, message: `Interface ${interfaceName} selected`, data: { interface: existing } };
+    }
+
+    const parsed = parseSubinterfaceName(interfaceName);
+    const parent = parsed ? router.interfaces.find(i => i.name === parsed.parent && !i.parentInterface) : undefined;
+    if (!parsed || !parent) {
+      return { success: false, message: `Interface ${interfaceName} not found on device ${router.name}` };
+    }
+    if (parsed.number < 1 || parsed.number > 4294967295) {
+      return { success: false, message: 'Subinterface number must be between 1 and 4294967295' };
+    }
+
+    const subinterface = createSubinterface(parent, parsed.number);
+    router.interfaces.push(subinterface);
+    return { success: true, message: `Subinterface ${subinterface.name} created`, data: { interface: subinterface } };
+  }
+
+  /**
+   * Delete a router subinterface with its addresses
+   * Command: no interface <interface>.<number>
+   */
+  removeSubinterface(deviceId: string, interfaceName: string): ConfigResult {
+    const device = this.devices.get(deviceId);
+    if (!device || device.type !== DeviceType.ROUTER) {
+      return { success: false, message: `Device ${deviceId} is not a router` };
+    }
+    const router = device as RouterDevice;
+    const subinterface = router.interfaces.find(i => i.name === interfaceName);
+    if (!subinterface?.parentInterface) {
+      return { success: false, message: `${interfaceName} is not a subinterface` };
+    }
+
+    router.interfaces = router.interfaces.filter(i => i !== subinterface);
+    return { success: true, message: `Subinterface ${interfaceName} deleted` };
+  }
+
+  /**
+   * Carry a VLAN on a router subinterface, tagged or as the untagged native VLAN; without an
+   * encapsulation the subinterface loses its address too. Each VLAN, and the native role,
+   * belongs to one subinterface of a physical interface. Warns when the switch port at the
+   * other end is not a trunk that carries the VLAN.
+   * Command: [no] encapsulation dot1Q <vlan-id> [native]
+   */
+  configureEncapsulation(deviceId: string, interfaceName: string, encapsulation?: Dot1qEncapsulation): ConfigResult {
+    const device = this.devices.get(deviceId);
+    if (!device || device.type !== DeviceType.ROUTER) {
+      return { success: false, message: `Device ${deviceId} is not a router` };
+    }
+    const router = device as RouterDevice;
+    const subinterface = router.interfaces.find(i => i.name === interfaceName);
+    if (!subinterface) {
+      return { success: false, message: `Interface ${interfaceName} not found on device ${router.name}` };
+    }
+    const parent = router.interfaces.find(i => i.name === subinterface.parentInterface);
+    if (!parent) {
+      return { success: false, message: `Encapsulation is only supported on subinterfaces, e.g. ${interfaceName}.10` };
+    }
+    if (!encapsulation) {
+      subinterface.encapsulation = undefined;
+      subinterface.ipAddress = undefined;
+      return { success: true, message: `Encapsulation and IP address removed from ${interfaceName}` };
+    }
+    if (!Number.isInteger(encapsulation.vlanId) || encapsulation.vlanId < 1 || encapsulation.vlanId > 4094) {
+      return { success: false, message: 'VLAN ID must be between 1 and 4094' };
+    }
+
+    const siblings = getSubinterfaces(router.interfaces, parent).filter(i => i !== subinterface);
+    const sameVlan = siblings.find(i => i.encapsulation?.vlanId === encapsulation.vlanId);
+    if (sameVlan) {
+      return { success: false, message: `VLAN ${encapsulation.vlanId} is already encapsulated on ${sameVlan.name}` };
+    }
+    const native = encapsulation.native ? siblings.find(i => i.encapsulation?.native) : undefined;
+    if (native) {
+      return { success: false, message: `${native.name} already carries the native VLAN ${native.encapsulation!.vlanId} of ${parent.name}` };
+    }
+
+    subinterface.encapsulation = encapsulation.native ? { vlanId: encapsulation.vlanId, native: true } : { vlanId: encapsulation.vlanId };
+    const link = this.connections.find(conn =>
+      (conn.sourceDevice === deviceId && [parent.id, parent.name].includes(conn.sourceInterface)) ||
+      (conn.targetDevice === deviceId && [parent.id, parent.name].includes(conn.targetInterface))
+    );
+    const warnings = link ? getSubinterfaceTrunkIssues(link, Array.from(this.devices.values())) : [];
+
+    return {
+      success: true,
+      message: `${interfaceName} carries VLAN ${encapsulation.vlanId}${encapsulation.native ? ' untagged as the native VLAN' : ' tagged with 802.1Q'}`,
+      warnings: warnings.length > 0 ? warnings : undefined,
+      data: { encapsulation: subinterface.encapsulation }
+    };
+  }
+
+  /**
+   * Create the SVI of a VLAN on a multilayer switch, or select it when it exists
+   * Command: interface vlan <vlan-id>
+   */
+  configureSvi(deviceId: string, vlanId: number): ConfigResult {
+    const device = this.devices.get(deviceId);
+    if (!device || device.type !== DeviceType.MULTILAYER_SWITCH) {
+      return { success: false, message: `Device ${deviceId} is not a multilayer switch` };
+    }
+    const mls = device as MultilayerSwitchDevice;
+    const existing = findSvi(mls, vlanId);
+    if (existing) {
+      return { success: true, message: `Interface ${existing.name} selected`, data: { interface: existing } };
+    }
+    if (!Number.isInteger(vlanId) || vlanId < 1 || vlanId > 4094) {
+      return { success: false, message: 'VLAN ID must be between 1 and 4094' };
+    }
+
+    const svi = createSvi(mls, vlanId);
+    mls.interfaces.push(svi);
+    const warnings = mls.vlanDatabase.some(v => v.id === vlanId)
+      ? undefined
+      : [`VLAN ${vlanId} does not exist; ${svi.name} stays down until it is created`];
+    return { success: true, message: `Interface ${svi.name} created`, warnings, data: { interface: svi } };
+  }
+
+  /**
+   * Delete the SVI of a VLAN with its address
+   * Command: no interface vlan <vlan-id>
+   */
+  removeSvi(deviceId: string, vlanId: number): ConfigResult {
+    const device = this.devices.get(deviceId);
+    if (!device || device.type !== DeviceType.MULTILAYER_SWITCH) {
+      return { success: false, message: `Device ${deviceId} is not a multilayer switch` };
+    }
+    const mls = device as MultilayerSwitchDevice;
+    const svi = findSvi(mls, vlanId);
+    if (!svi) {
+      return { success: false, message: `Interface Vlan${vlanId} does not exist` };
+    }
+
+    mls.interfaces = mls.interfaces.filter(i => i !== svi);
+    return { success: true, message: `Interface ${svi.name} deleted` };
+  }
+
+  /**
+   * Make a multilayer switch port a routed port that takes an IP address, dropping its layer 2
+   * settings, or return it to switching as an access port in VLAN 1, dropping its addresses
+   * Command: [no] switchport
+   */
+  configureRoutedPort(deviceId: string, interfaceName: string, routed: boolean): ConfigResult {
+    const device = this.devices.get(deviceId);
+    if (!device || device.type !== DeviceType.MULTILAYER_SWITCH) {
+      return { success: false, message: `Device ${deviceId} is not a multilayer switch` };
+    }
+    const mls = device as MultilayerSwitchDevice;
+    const port = mls.interfaces.find(i => i.name === interfaceName);
+    if (!port) {
+      return { success: false, message: `Interface ${interfaceName} not found on device ${mls.name}` };
+    }
+    if (port.sviVlan !== undefined) {
+      return { success: false, message: `${interfaceName} is not a physical port` };
+    }
+    if (!!port.routedPort === routed) {
+      return { success: true, message: `${interfaceName} is already ${routed ? 'a routed port' : 'a switchport'}` };
+    }
+
+    if (routed) {
+      if (port.channelGroup) {
+        return { success: false, message: `Remove ${interfaceName} from channel-group ${port.channelGroup.group} first` };
+      }
+      port.routedPort = true;
+      port.type = InterfaceType.ETHERNET;
+      port.vlanConfig = undefined;
+      port.spanningTree = undefined;
+      port.snooping = undefined;
+      port.portSecurity = undefined;
+      port.switchportMode = undefined;
+      port.nonegotiate = undefined;
+      return { success: true, message: `${interfaceName} is now a routed port`, data: { interface: port } };
+    }
+
+    port.routedPort = undefined;
+    port.type = InterfaceType.ACCESS;
+    port.vlanConfig = { accessVlan: 1 };
+    port.ipAddress = undefined;
+    port.helperAddresses = undefined;
+    port.fhrpGroups = undefined;
+    return { success: true, message: `${interfaceName} is now a switchport in VLAN 1`, data: { interface: port } };
+  }
+
+  /**
+   * Enable or disable routing between the SVIs and routed ports of a multilayer switch
+   * Command: [no] ip routing
+   */
+  configureIpRouting(deviceId: string, enabled: boolean): ConfigResult {
+    const device = this.devices.get(deviceId);
+    if (!device || device.type !== DeviceType.MULTILAYER_SWITCH) {
+      return { success: false, message: `Device ${deviceId} is not a multilayer switch` };
+    }
+
+    (device as MultilayerSwitchDevice).ipRouting = enabled || undefined;
+    return { success: true, message: `IP routing ${enabled ? 'enabled' : 'disabled'}` };
+  }
+
+  /**
+   * Change an HSRP or VRRP group of a router interface or SVI, creating it when needed;
+   * settings given as undefined go back to their defaults
+   * Command: [no] standby <group> {ip <address> | priority <n> | preempt | timers <hello> <hold>}
+   *          [no] vrrp <group> {ip <address> | priority <n> | preempt | timers advertise <seconds>}
+   */
+  configureFhrpGroup(
+    deviceId: string,
+    interfaceName: string,
+    protocol: FhrpProtocol,
+    group: number,
+    settings: Partial<Omit<FhrpGroupConfig, 'protocol' | 'group' | 'track'>>
+  ): ConfigResult {
+    const found = this.findFhrpInterface(deviceId, interfaceName, protocol, group);
+    if (typeof found === 'string') {
+      return { success: false, message: found };
+    }
+    const { iface } = found;
+    const name = protocol.toUpperCase();
+
+    const current = iface.fhrpGroups?.find(g => g.protocol === protocol && g.group === group) ?? { protocol, group };
+    const config: FhrpGroupConfig = { ...current, ...settings };
+    if (config.virtualIp !== undefined) {
+      if (!iface.ipAddress) {
+        return { success: false, message: `${interfaceName} has no IP address; configure one before the virtual IP address` };
+      }
+      const subnet = SubnetCalculator.parseSubnet(iface.ipAddress);
+      if (!SubnetCalculator.isInSameSubnet(config.virtualIp, subnet.network, subnet.mask)) {
+        return { success: false, message: `${config.virtualIp} is not within the subnet of ${interfaceName}` };
+      }
+      if (protocol === 'hsrp' && config.virtualIp === subnet.network) {
+        return { success: false, message: `${config.virtualIp} is the address of ${interfaceName}; the virtual IP address must be another one` };
+      }
+      const duplicate = iface.fhrpGroups?.find(g => g.protocol === protocol && g.group !== group && g.virtualIp === config.virtualIp);
+      if (duplicate) {
+        return { success: false, message: `${config.virtualIp} is already the virtual IP address of ${name} group ${duplicate.group}` };
+      }
+    }
+    if (config.priority !== undefined && (!Number.isInteger(config.priority) || config.priority < (protocol === 'hsrp' ? 0 : 1) || config.priority > (protocol === 'hsrp' ? 255 : 254))) {
+      return { success: false, message: `Priority must be between ${protocol === 'hsrp' ? '0 and 255' : '1 and 254'}` };
+    }
+    if (config.holdTime !== undefined && config.holdTime <= (config.helloTime ?? HSRP_DEFAULT_HELLO_TIME)) {
+      return { success: false, message: 'Hold time must be greater than hello time' };
+    }
+
+    const groups = (iface.fhrpGroups ?? []).filter(g => !(g.protocol === protocol && g.group === group));
+    iface.fhrpGroups = [...groups, config].sort((a, b) => a.protocol.localeCompare(b.protocol) || a.group - b.group);
+
+    const warnings = config.virtualIp === undefined
+      ? [`${name} group ${group} on ${interfaceName} has no virtual IP address; it learns one from the other routers of the group`]
+      : undefined;
+    return {
+      success: true,
+      message: `${name} group ${group} on ${interfaceName}: virtual IP ${config.virtualIp ?? 'unset'}, priority ${config.priority ?? FHRP_DEFAULT_PRIORITY}${isFhrpPreempt(config) ? ', preempt' : ''}`,
+      warnings,
+      data: { config }
+    };
+  }
+
+  /**
+   * Track an interface in an HSRP or VRRP group, lowering the group's priority by the decrement
+   * while the interface is down; with remove, stop tracking it
+   * Command: [no] standby <group> track <interface> [decrement <n>]
+   *          [no] vrrp <group> track <interface> [decrement <n>]
+   */
+  configureFhrpTrack(
+    deviceId: string,
+    interfaceName: string,
+    protocol: FhrpProtocol,
+    group: number,
+    track: FhrpTrack,
+    remove: boolean = false
+  ): ConfigResult {
+    const found = this.findFhrpInterface(deviceId, interfaceName, protocol, group);
+    if (typeof found === 'string') {
+      return { success: false, message: found };
+    }
+    const { device, iface } = found;
+    const current = iface.fhrpGroups?.find(g => g.protocol === protocol && g.group === group);
+
+    if (remove) {
+      if (!current?.track?.some(t => t.interface === track.interface)) {
+        return { success: false, message: `${protocol.toUpperCase()} group ${group} on ${interfaceName} does not track ${track.interface}` };
+      }
+      const tracks = current.track.filter(t => t.interface !== track.interface);
+      current.track = tracks.length > 0 ? tracks : undefined;
+      return { success: true, message: `${protocol.toUpperCase()} group ${group} on ${interfaceName} no longer tracks ${track.interface}` };
+    }
+
+    if (!(device as RouterDevice | MultilayerSwitchDevice).interfaces.some(i => i.name === track.interface)) {
+      return { success: false, message: `Interface ${track.interface} not found on device ${device.name}` };
+    }
+    if (track.interface === interfaceName) {
+      return { success: false, message: `${interfaceName} cannot track itself` };
+    }
+    if (track.decrement !== undefined && (!Number.isInteger(track.decrement) || track.decrement < 1 || track.decrement > 255)) {
+      return { success: false, message: 'Decrement must be between 1 and 255' };
+    }
+
+    const config: FhrpGroupConfig = current ?? { protocol, group };
+    config.track = [...(config.track ?? []).filter(t => t.interface !== track.interface), track];
+    if (!current) {
+      iface.fhrpGroups = [...(iface.fhrpGroups ?? []), config].sort((a, b) => a.protocol.localeCompare(b.protocol) || a.group - b.group);
+    }
+    return {
+      success: true,
+      message: `${protocol.toUpperCase()} group ${group} on ${interfaceName} tracks ${track.interface}, decrement ${track.decrement ?? FHRP_DEFAULT_TRACK_DECREMENT}`,
+      data: { config }
+    };
+  }
+
+  /**
+   * Remove an HSRP or VRRP group from an interface
+   * Command: no standby <group> | no vrrp <group>
+   */
+  removeFhrpGroup(deviceId: string, interfaceName: string, protocol: FhrpProtocol, group: number): ConfigResult {
+    const found = this.findFhrpInterface(deviceId, interfaceName, protocol, group);
+    if (typeof found === 'string') {
+      return { success: false, message: found };
+    }
+    const { iface } = found;
+    if (!iface.fhrpGroups?.some(g => g.protocol === protocol && g.group === group)) {
+      return { success: false, message: `${protocol.toUpperCase()} group ${group} is not configured on ${interfaceName}` };
+    }
+    const groups = iface.fhrpGroups.filter(g => !(g.protocol === protocol && g.group === group));
+    iface.fhrpGroups = groups.length > 0 ? groups : undefined;
+    return { success: true, message: `${protocol.toUpperCase()} group ${group} removed from ${interfaceName}` };
+  }
+
+  /**
+   * Interface an HSRP or VRRP group can run on: one of a router, or an SVI or routed port of a
+   * multilayer switch. The reason as a string when there is none.
+   */
+  private findFhrpInterface(
+    deviceId: string,
+    interfaceName: string,
+    protocol: FhrpProtocol,
+    group: number
+  ): { device: NetworkDevice; iface: NetworkInterface } | string {
+    const device = this.devices.get(deviceId);
+    if (!device || (device.type !== DeviceType.ROUTER && device.type !== DeviceType.MULTILAYER_SWITCH)) {
+      return `Device ${deviceId} is not a router or multilayer switch`;
+    }
+    const iface = (device as RouterDevice | MultilayerSwitchDevice).interfaces.find(i => i.name === interfaceName);
+    if (!iface) {
+      return `Interface ${interfaceName} not found on device ${device.name}`;
+    }
+    if (device.type === DeviceType.MULTILAYER_SWITCH && isSwitchport(iface)) {
+      return `${interfaceName} is a switchport; ${protocol.toUpperCase()} runs on SVIs and routed ports`;
+    }
+    const lowest = protocol === 'hsrp' ? 0 : 1;
+    if (!Number.isInteger(group) || group < lowest || group > 255) {
+      return `Group must be between ${lowest} and 255`;
+    }
+    return { device, iface };
+  }
+
   /**
    * Apply network template
    */
@@ -561,7 +2858,7 @@ export class NetworkConfigurationManager {
       vlans: Array.from(this.vlans.values()),
       routingTables,
       dhcpPools: this.ipManager.getDHCPServer().getAllPools(),
-      stpStatus: this.stpManager.getStatistics(),
+      stpStatus: this.spanningTreeEngine?.getStatistics(),
     };
   }
 
@@ -664,6 +2961,79 @@ export class NetworkConfigurationManager {
   /**
    * Private helper methods
    */
+  private getNatRouter(deviceId: string): RouterDevice | undefined {
+    const device = this.devices.get(deviceId);
+    return device?.type === DeviceType.ROUTER ? device as RouterDevice : undefined;
+  }
+
+  private getAclDevice(deviceId: string): AclDevice | undefined {
+    const device = this.devices.get(deviceId);
+    return supportsAccessLists(device) ? device : undefined;
+  }
+
+  /**
+   * Store NAT configuration, dropping it from the router once nothing is left
+   */
+  private saveNatConfig(router: RouterDevice, nat: NatConfig): void {
+    const empty = nat.staticEntries.length === 0 && nat.pools.length === 0 && nat.dynamicRules.length === 0;
+    router.nat = empty ? undefined : nat;
+  }
+
+  /**
+   * Store an ACL in place of the one with its name, or after the others when it is new
+   */
+  private saveAccessList(device: AclDevice, acl: AccessListConfig): void {
+    const lists = device.accessLists ?? [];
+    device.accessLists = lists.some(l => l.name === acl.name)
+      ? lists.map(l => (l.name === acl.name ? acl : l))
+      : [...lists, acl];
+  }
+
+  private getDhcpServerDevice(deviceId: string): RouterDevice | ServerDevice | undefined {
+    const device = this.devices.get(deviceId);
+    return device?.type === DeviceType.ROUTER || device?.type === DeviceType.SERVER
+      ? device as RouterDevice | ServerDevice
+      : undefined;
+  }
+
+  /**
+   * Store DHCP server configuration, dropping it from the device once nothing is left
+   */
+  private saveDhcpServerConfig(server: RouterDevice | ServerDevice, dhcp: DhcpServerConfig): void {
+    server.dhcpServer = dhcp.pools.length === 0 && dhcp.excludedRanges.length === 0 ? undefined : dhcp;
+  }
+
+  private getMstConfig(sw: SwitchDevice): MstConfig {
+    return { name: '', revision: 0, instances: {}, priorities: {}, ...sw.spanningTreeConfig?.mst };
+  }
+
+  private getDhcpSnoopingConfig(sw: SwitchDevice): DhcpSnoopingConfig {
+    return { enabled: false, vlans: [], verifyMacAddress: true, ...sw.dhcpSnooping };
+  }
+
+  /**
+   * Store DHCP snooping settings, dropping them when they are all back at their defaults
+   */
+  private saveDhcpSnoopingConfig(sw: SwitchDevice, config: DhcpSnoopingConfig): void {
+    sw.dhcpSnooping = config.enabled || config.vlans.length > 0 || !config.verifyMacAddress ? config : undefined;
+  }
+
+  /**
+   * Port security settings of a port, with the defaults filled in
+   */
+  private getPortSecurityConfig(iface: NetworkInterface): PortSecurityConfig {
+    return { enabled: false, maximum: 1, violation: 'shutdown', macAddresses: [], ...iface.portSecurity };
+  }
+
+  /**
+   * Store port security settings, dropping them when they are all back at their defaults
+   */
+  private savePortSecurityConfig(iface: NetworkInterface, config: PortSecurityConfig): void {
+    const isDefault = !config.enabled && config.maximum === 1 && config.violation === 'shutdown' && !config.sticky &&
+      config.macAddresses.length === 0 && !config.agingTime && !config.agingType;
+    iface.portSecurity = isDefault ? undefined : config;
+  }
+
   private getNetworkTemplate(templateId: string): NetworkTemplate | undefined {
     return this.getAvailableTemplates().find(t => t.id === templateId);
   }
@@ -689,7 +3059,8 @@ export class NetworkConfigurationManager {
         const router = device as RouterDevice;
         return router.interfaces;
       case DeviceType.SWITCH:
-        const sw = device as SwitchDevice;
+      case DeviceType.MULTILAYER_SWITCH:
+        const sw = device as SwitchingDevice;
         return sw.interfaces;
       default:
         return [];
@@ -796,4 +3167,77 @@ export class NetworkConfigurationManager {
       };
     }
   }
-}
\ No newline at end of file
+
+  /**
+   * Export running-config text for one device, or for every device when no ID is given
+   */
+  exportRunningConfig(deviceId?: string): ConfigResult {
+    if (deviceId) {
+      const device = this.devices.get(deviceId);
+      if (!device) {
+        return { success: false, message: `Device ${deviceId} not found` };
+      }
+      return { success: true, message: `Running configuration for ${device.name}`, data: { text: generateRunningConfig(device) } };
+    }
+
+    const devices = Array.from(this.devices.values());
+    return {
+      success: true,
+      message: `Running configuration for ${devices.length} device(s)`,
+      data: { text: generateRunningConfigs(devices) }
+    };
+  }
+
+  /**
+   * Import running-config text. Sections whose hostname matches an existing device
+   * update that device; other sections create new switches or routers.
+   * Nothing is applied when any line fails to parse.
+   */
+  importRunningConfig(text: string): ConfigResult {
+    const parsed = parseRunningConfig(text, Array.from(this.devices.values()));
+    const warnings = parsed.unsupported.map(issue => `Line ${issue.line}: ${issue.message} (${issue.text})`);
+
+    if (parsed.errors.length > 0) {
+      return {
+        success: false,
+        message: parsed.errors.map(issue => `Line ${issue.line}: ${issue.message} (${issue.text})`).join('\n'),
+        warnings,
+        data: parsed
+      };
+    }
+
+    if (parsed.devices.length === 0) {
+      return { success: false, message: 'No device configuration found', warnings, data: parsed };
+    }
+
+    parsed.devices.forEach(({ device }) => {
+      this.devices.set(device.id, device);
+
+      if (isSwitchingDevice(device)) {
+        device.vlanDatabase.forEach(entry => {
+          const existing = this.vlans.get(entry.id);
+          this.vlans.set(entry.id, {
+            id: entry.id,
+            name: entry.name,
+            description: existing?.description,
+            color: existing?.color ?? this.generateVlanColor(entry.id),
+            status: existing?.status ?? VlanStatus.ACTIVE,
+            type: existing?.type ?? VlanType.NORMAL,
+            createdAt: existing?.createdAt ?? new Date(),
+            modifiedAt: new Date(),
+          });
+        });
+      }
+    });
+
+    this.routingEngine.updateTopology(Array.from(this.devices.values()), this.connections);
+
+    const created = parsed.devices.filter(d => d.isNew).length;
+    return {
+      success: true,
+      message: `Imported ${parsed.devices.length} device configuration(s) (${created} new, ${parsed.devices.length - created} updated)`,
+      warnings,
+      data: parsed
+    };
+  }
+}
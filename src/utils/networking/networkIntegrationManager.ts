@@ -1,7 +1,6 @@
 import {
   NetworkDevice,
   RouterDevice,
-  SwitchDevice,
   PcDevice,
   ServerDevice,
   DeviceType,
@@ -13,8 +12,9 @@ import {
 
 import { RoutingEngine } from '../routing/routingEngine';
 import { NetworkIPManager, DHCPPool } from './ipAddressManager';
-import { SpanningTreeProtocol } from './spanningTreeProtocol';
+import { SpanningTreeEngine } from './spanningTreeProtocol';
 import { NetworkConfigurationManager, ConfigResult } from './networkConfiguration';
+import { isSwitchingDevice } from './multilayerSwitch';
 import { NetworkTroubleshootingTools, CommandResult, PingResult, TracerouteResult } from './troubleshootingTools';
 import { SimulationEngine, createSimulationEngine } from '../simulation/simulationEngine';
 
@@ -81,7 +81,7 @@ export interface NetworkStatistics {
 export class NetworkIntegrationManager {
   private routingEngine: RoutingEngine;
   private ipManager: NetworkIPManager;
-  private stpManager: SpanningTreeProtocol;
+  private spanningTreeEngine: SpanningTreeEngine;
   private configManager: NetworkConfigurationManager;
   private troubleshootingTools: NetworkTroubleshootingTools;
   private simulationEngine?: SimulationEngine;
@@ -91,11 +91,11 @@ export class NetworkIntegrationManager {
   private vlans: Map<number, Vlan> = new Map();
   private isInitialized: boolean = false;
 
-  constructor() {
+  constructor(spanningTreeEngine: SpanningTreeEngine) {
     this.routingEngine = new RoutingEngine();
     this.ipManager = new NetworkIPManager();
-    this.stpManager = new SpanningTreeProtocol();
-    this.configManager = new NetworkConfigurationManager();
+    this.spanningTreeEngine = spanningTreeEngine;
+    this.configManager = new NetworkConfigurationManager(spanningTreeEngine);
     this.troubleshootingTools = new NetworkTroubleshootingTools();
   }
 
@@ -166,16 +166,23 @@ export class NetworkIntegrationManager {
 
       // Initialize STP on switches
       if (opts.enableSTP) {
-        const switches = devices.filter(d => d.type === DeviceType.SWITCH) as SwitchDevice[];
+        const switches = devices.filter(isSwitchingDevice);
         switches.forEach(sw => {
           sw.spanningTreeEnabled = true;
         });
-        this.stpManager.initializeSTP(switches, connections);
         warnings.push('Enabled STP on all switches');
       }
+      this.spanningTreeEngine.initialize(devices, connections);
+      this.spanningTreeEngine.converge();
 
       // Create simulation engine
-      this.simulationEngine = createSimulationEngine(devices, connections, Array.from(this.vlans.values()));
+      this.simulationEngine = createSimulationEngine(
+        devices,
+        connections,
+        Array.from(this.vlans.values()),
+        this.spanningTreeEngine,
+        this.routingEngine
+      );
 
       // Initialize troubleshooting tools
       this.troubleshootingTools.initialize(
@@ -184,7 +191,7 @@ export class NetworkIntegrationManager {
         Array.from(this.vlans.values()),
         this.ipManager,
         this.routingEngine,
-        this.stpManager,
+        this.spanningTreeEngine,
         this.simulationEngine
       );
 
@@ -221,7 +228,7 @@ export class NetworkIntegrationManager {
     if (!this.isInitialized) {
       return {
         totalDevices: 0,
-        devicesByType: { [DeviceType.PC]: 0, [DeviceType.SERVER]: 0, [DeviceType.ROUTER]: 0, [DeviceType.SWITCH]: 0 },
+        devicesByType: { [DeviceType.PC]: 0, [DeviceType.SERVER]: 0, [DeviceType.ROUTER]: 0, [DeviceType.SWITCH]: 0, [DeviceType.FIREWALL]: 0, [DeviceType.MULTILAYER_SWITCH]: 0 },
         totalConnections: 0,
         totalVLANs: 0,
         activeSimulations: 0,
@@ -239,6 +246,8 @@ export class NetworkIntegrationManager {
       [DeviceType.SERVER]: 0,
       [DeviceType.ROUTER]: 0,
       [DeviceType.SWITCH]: 0,
+      [DeviceType.FIREWALL]: 0,
+      [DeviceType.MULTILAYER_SWITCH]: 0,
     };
 
     devices.forEach(device => {
@@ -246,7 +255,7 @@ export class NetworkIntegrationManager {
     });
 
     const dhcpStats = this.ipManager.getDHCPServer().getStatistics();
-    const stpStats = this.stpManager.getStatistics();
+    const stpStats = this.spanningTreeEngine.getStatistics();
     const simulationStats = this.simulationEngine?.getSimulationStatistics();
 
     const issues: string[] = [];
@@ -284,7 +293,7 @@ export class NetworkIntegrationManager {
    */
   getNetworkStatistics(): NetworkStatistics {
     const ipStats = this.ipManager.getNetworkStatistics();
-    const stpStats = this.stpManager.getStatistics();
+    const stpStats = this.spanningTreeEngine.getStatistics();
     const simulationStats = this.simulationEngine?.getSimulationStatistics() || {
       totalPackets: 0,
       deliveredPackets: 0,
@@ -556,10 +565,10 @@ export class NetworkIntegrationManager {
   }
 
   /**
-   * Get STP information for a switch
+   * Get STP information for a switch in the instance carrying a VLAN
    */
-  getSTPInfo(deviceId: string) {
-    return this.stpManager.getBridgeInfo(deviceId);
+  getSTPInfo(deviceId: string, vlanId?: number) {
+    return this.spanningTreeEngine.getBridgeState(deviceId, vlanId);
   }
 
   /**
@@ -570,14 +579,14 @@ export class NetworkIntegrationManager {
   }
 
   /**
-   * Trigger STP topology change
+   * Trigger STP topology change by failing or restoring a link
    */
-  triggerSTPTopologyChange(deviceId: string): ConfigResult {
+  triggerSTPTopologyChange(connectionId: string, isLinkUp: boolean): ConfigResult {
     try {
-      this.stpManager.triggerTopologyChange(deviceId);
+      this.spanningTreeEngine.simulateTopologyChange(connectionId, isLinkUp);
       return {
         success: true,
-        message: `STP topology change triggered on device ${deviceId}`,
+        message: `STP topology change triggered on connection ${connectionId}`,
       };
     } catch (error) {
       return {
@@ -1,4 +1,6 @@
 import { Device, Connection } from '../../types';
+import { SubnetCalculator } from '../routing/routingEngine';
+import { getAppliedAccessList, toAccessControlList } from './accessLists';
 
 /**
  * Packet Types
@@ -137,6 +139,177 @@ export interface AccessControlList {
   hitCounts: Map<string, number>; // entryId -> hit count
 }
 
+/**
+ * Direction an ACL filters traffic in on an interface
+ */
+export type AclDirection = 'in' | 'out';
+
+/**
+ * Outcome of checking a packet against an ACL
+ */
+export interface AclCheckResult {
+  permitted: boolean;
+  acl: AccessControlList;
+  matchedRule: string; // entry id, or IMPLICIT_DENY_RULE
+  entry?: AclEntry; // undefined when nothing matched and the implicit deny applied
+  hits: number; // hit count of the matched rule including this packet
+}
+
+/**
+ * Outcome of offering a packet to an egress queue
+ */
+export interface QueueAdmission {
+  queued: boolean;
+  delay: number; // ms until the packet has left the interface
+  queue?: QueueConfig;
+}
+
+/**
+ * The 5-tuple the ACL tester probes an ACL with
+ */
+export interface AclProbe {
+  protocol: string | number; // keyword or IP protocol number
+  srcIp: string;
+  dstIp: string;
+  srcPort?: number;
+  dstPort?: number;
+  established?: boolean; // ACK set, as in a reply on an open TCP session
+}
+
+/**
+ * How one ACL entry treated a probe
+ */
+export interface AclTraceStep {
+  entry: AclEntry;
+  matched: boolean;
+  reason: string;
+}
+
+/**
+ * How an ACL would treat a packet: the entries evaluated up to and including the match
+ */
+export interface AclTrace {
+  permitted: boolean;
+  entry?: AclEntry; // undefined when the implicit deny applied
+  steps: AclTraceStep[];
+  reason: string;
+}
+
+/**
+ * Hit counter key for packets denied by the implicit deny at the end of every ACL
+ */
+export const IMPLICIT_DENY_RULE = 'implicit-deny';
+
+/**
+ * IP protocol numbers for the protocol keywords an ACL entry may use
+ */
+export const IP_PROTOCOL_NUMBERS: Record<string, number> = {
+  icmp: 1,
+  igmp: 2,
+  tcp: 6,
+  udp: 17,
+  gre: 47,
+  esp: 50,
+  ahp: 51,
+  eigrp: 88,
+  ospf: 89,
+  pim: 103
+};
+
+/**
+ * Capabilities assumed for a device configured without a hardware profile
+ */
+export const DEFAULT_PROCESSING_CAPABILITIES: ProcessingCapabilities = {
+  packetsPerSecond: 1000000,
+  backplaneSpeed: 32,
+  bufferSize: 64,
+  maxMacEntries: 8192,
+  maxArpEntries: 4096,
+  maxRoutingEntries: 8192,
+  supportsQos: true,
+  supportsAcl: true,
+  supportsStp: true,
+  supportsVtp: true,
+  switchingLatency: 5,
+  routingLatency: 20
+};
+
+const describeAclAddress = (network?: string): string => {
+  if (!network || network === 'any') return 'any';
+  const [ip, prefix] = network.split('/');
+  if (prefix === undefined || prefix === '32') return `host ${ip}`;
+  const wildcard = SubnetCalculator.prefixToMask(parseInt(prefix, 10))
+    .split('.')
+    .map(octet => 255 - parseInt(octet, 10))
+    .join('.');
+  return `${ip} ${wildcard}`;
+};
+
+const describeAclPort = (port: number | { min: number, max: number }): string => {
+  if (typeof port === 'number') return `eq ${port}`;
+  return port.min === port.max ? `eq ${port.min}` : `range ${port.min} ${port.max}`;
+};
+
+/**
+ * IOS-style text of an ACL entry, e.g. `10 deny tcp any host 10.0.3.10 eq 80 log`
+ */
+export function describeAclEntry(entry: AclEntry, type: AccessControlList['type'] = 'extended'): string {
+  const parts = [String(entry.sequenceNumber), entry.action];
+  if (type === 'extended') parts.push(String(entry.protocol ?? 'ip'));
+  parts.push(describeAclAddress(entry.srcNetwork));
+  if (type === 'extended') {
+    if (entry.srcPort !== undefined) parts.push(describeAclPort(entry.srcPort));
+    parts.push(describeAclAddress(entry.dstNetwork));
+    if (entry.dstPort !== undefined) parts.push(describeAclPort(entry.dstPort));
+    if (entry.dscp !== undefined) parts.push(`dscp ${entry.dscp}`);
+    if (entry.established) parts.push('established');
+  }
+  if (entry.logMatches) parts.push('log');
+  return parts.join(' ');
+}
+
+/**
+ * Packet carrying an ACL tester's 5-tuple
+ */
+export function createAclProbePacket(probe: AclProbe): Packet {
+  const protocol = typeof probe.protocol === 'number'
+    ? probe.protocol
+    : IP_PROTOCOL_NUMBERS[probe.protocol.toLowerCase()] ?? (parseInt(probe.protocol, 10) || undefined);
+  let type = PacketType.IP;
+  if (protocol === IP_PROTOCOL_NUMBERS.tcp) type = PacketType.TCP;
+  else if (protocol === IP_PROTOCOL_NUMBERS.udp) type = PacketType.UDP;
+  else if (protocol === IP_PROTOCOL_NUMBERS.icmp) type = PacketType.ICMP;
+
+  return {
+    id: 'acl-probe',
+    type,
+    header: {
+      srcMac: '00:00:00:00:00:00',
+      dstMac: '00:00:00:00:00:00',
+      etherType: 0x0800,
+      srcIp: probe.srcIp,
+      dstIp: probe.dstIp,
+      protocol,
+      srcPort: probe.srcPort,
+      dstPort: probe.dstPort,
+      tcpFlags: probe.established ? 0x10 : 0x02,
+      qosClass: QosClass.BEST_EFFORT,
+      priority: 0,
+      dropPrecedence: 0
+    },
+    payload: null,
+    size: 64,
+    timestamp: Date.now(),
+    sourceDeviceId: '',
+    path: [],
+    hopCount: 0,
+    processingDelay: 0,
+    queuingDelay: 0,
+    transmissionDelay: 0,
+    errors: []
+  };
+}
+
 /**
  * Interface Statistics
  */
@@ -178,9 +351,10 @@ export interface ProcessingCapabilities {
 export class PacketProcessingEngine {
   private deviceCapabilities = new Map<string, ProcessingCapabilities>();
   private trafficShapers = new Map<string, Map<string, TrafficShaperConfig>>(); // deviceId -> interface -> config
-  private accessLists = new Map<string, Map<string, AccessControlList>>(); // deviceId -> aclName -> acl
+  private aclHitCounts = new Map<string, Map<string, Map<string, number>>>(); // deviceId -> aclName -> entryId -> hit count
   private interfaceStats = new Map<string, Map<string, InterfaceStats>>(); // deviceId -> interface -> stats
-  private packetQueues = new Map<string, Map<string, Packet[]>>(); // deviceId -> interface -> packets
+  private queueDepartures = new WeakMap<QueueConfig, number[]>(); // times the packets in a queue finish transmitting
+  private readonly WRED_MAX_DROP_PROBABILITY = 0.1;
   
   // Performance counters
   private packetCounters = {
@@ -198,9 +372,16 @@ export class PacketProcessingEngine {
   initializeDevice(deviceId: string, capabilities: ProcessingCapabilities): void {
     this.deviceCapabilities.set(deviceId, capabilities);
     this.trafficShapers.set(deviceId, new Map());
-    this.accessLists.set(deviceId, new Map());
     this.interfaceStats.set(deviceId, new Map());
-    this.packetQueues.set(deviceId, new Map());
+  }
+
+  /**
+   * Initialize a device that has not been initialized yet, keeping the configuration of one that has
+   */
+  ensureDevice(deviceId: string, capabilities: ProcessingCapabilities = DEFAULT_PROCESSING_CAPABILITIES): void {
+    if (!this.deviceCapabilities.has(deviceId)) {
+      this.initializeDevice(deviceId, capabilities);
+    }
   }
 
   /**
@@ -219,6 +400,7 @@ export class PacketProcessingEngine {
       queue.currentSize = 0;
       queue.packetsDropped = 0;
       queue.packetsTransmitted = 0;
+      this.queueDepartures.delete(queue);
     });
     
     deviceShapers.set(interfaceName, config);
@@ -226,21 +408,101 @@ export class PacketProcessingEngine {
   }
 
   /**
-   * Configure Access Control List
+   * Hit counters of a device ACL, by entry id and IMPLICIT_DENY_RULE, as traffic filtered by it has counted them
    */
-  configureAcl(deviceId: string, acl: AccessControlList): boolean {
-    const deviceAcls = this.accessLists.get(deviceId);
-    if (!deviceAcls) return false;
-    
-    // Sort entries by sequence number
-    acl.entries.sort((a, b) => a.sequenceNumber - b.sequenceNumber);
-    
-    // Initialize hit counts
-    acl.hitCounts = new Map();
-    acl.entries.forEach(entry => acl.hitCounts.set(entry.id, 0));
-    
-    deviceAcls.set(acl.name, acl);
-    return true;
+  getAclHitCounts(deviceId: string, aclName: string): Map<string, number> {
+    const deviceCounts = this.aclHitCounts.get(deviceId) ?? new Map<string, Map<string, number>>();
+    this.aclHitCounts.set(deviceId, deviceCounts);
+    const counts = deviceCounts.get(aclName) ?? new Map<string, number>();
+    deviceCounts.set(aclName, counts);
+    return counts;
+  }
+
+  /**
+   * Reset the hit counters of an ACL (`clear access-list counters`)
+   */
+  clearAclCounters(deviceId: string, aclName: string): boolean {
+    return this.aclHitCounts.get(deviceId)?.delete(aclName) ?? false;
+  }
+
+  /**
+   * Check a packet against the ACL a device applies to an interface (ip access-group), counting the hit.
+   * Returns undefined when no ACL is applied in that direction.
+   */
+  checkInterfaceAcl(
+    device: Device,
+    interfaceName: string,
+    direction: AclDirection,
+    packet: Packet
+  ): AclCheckResult | undefined {
+    const applied = getAppliedAccessList(device, interfaceName, direction);
+    if (!applied) return undefined;
+
+    const acl = toAccessControlList(applied, this.getAclHitCounts(device.id, applied.name));
+    const result = this.evaluateAcl(acl, packet);
+    if (!result.permitted) {
+      this.packetCounters.aclDenials++;
+    }
+    return result;
+  }
+
+  /**
+   * Show which entry of an ACL a packet would match and why, without counting a hit
+   */
+  traceAcl(acl: AccessControlList, packet: Packet): AclTrace {
+    const steps: AclTraceStep[] = [];
+    for (const entry of acl.entries) {
+      const mismatch = this.aclEntryMismatch(entry, packet);
+      steps.push({ entry, matched: !mismatch, reason: mismatch ?? `matches ${describeAclEntry(entry, acl.type)}` });
+      if (!mismatch) {
+        return {
+          permitted: entry.action === 'permit',
+          entry,
+          steps,
+          reason: `${entry.action === 'permit' ? 'Permitted' : 'Denied'} by entry ${entry.sequenceNumber}`
+        };
+      }
+    }
+
+    return {
+      permitted: false,
+      steps,
+      reason: acl.entries.length > 0
+        ? 'No entry matched; the implicit deny at the end of every ACL drops it'
+        : 'The ACL is empty; the implicit deny drops everything'
+    };
+  }
+
+  /**
+   * Offer a packet to the egress queue of an interface. Each queue drains at its share of the
+   * shaper bandwidth, so the delay grows with the backlog; full queues tail-drop and WRED queues
+   * start dropping early as they fill. Interfaces without a shaper queue nothing.
+   */
+  enqueuePacket(deviceId: string, interfaceName: string, packet: Packet, now: number = Date.now()): QueueAdmission {
+    const shaper = this.trafficShapers.get(deviceId)?.get(interfaceName);
+    if (!shaper || !shaper.enabled) {
+      return { queued: true, delay: 0 };
+    }
+
+    this.classifyPacket(packet);
+    const queue = this.findQueue(shaper, packet);
+    if (!queue) {
+      return { queued: false, delay: 0 };
+    }
+
+    const departures = this.drainQueue(queue, now);
+    if (this.shouldDropPacket(queue, packet)) {
+      queue.packetsDropped++;
+      this.packetCounters.qosViolations++;
+      return { queued: false, delay: 0, queue };
+    }
+
+    const start = Math.max(now, departures[departures.length - 1] ?? now);
+    const departure = start + this.calculateTransmissionDelay(packet.size, shaper.bandwidth * queue.bandwidth / 100);
+    departures.push(departure);
+    queue.currentSize = departures.length;
+
+    return { queued: true, delay: departure - now, queue };
   }
 
   /**
@@ -537,17 +799,8 @@ export class PacketProcessingEngine {
     interfaceName: string, 
     packet: Packet
   ): { permitted: boolean, matchedRule?: string } {
-    
-    // Get interface ACL (simplified - would need interface configuration)
-    const deviceAcls = this.accessLists.get(deviceId);
-    if (!deviceAcls || deviceAcls.size === 0) {
-      return { permitted: true }; // No ACL configured
-    }
-    
-    // Apply first ACL found (in real implementation, would be configured per interface)
-    const acl = Array.from(deviceAcls.values())[0];
-    
-    return this.evaluateAcl(acl, packet);
+    const device = this.getDeviceById(deviceId);
+    return (device && this.checkInterfaceAcl(device, interfaceName, 'in', packet)) ?? { permitted: true };
   }
 
   /**
@@ -558,81 +811,82 @@ export class PacketProcessingEngine {
     interfaceName: string, 
     packet: Packet
   ): { permitted: boolean, matchedRule?: string } {
-    
-    // Similar to ingress ACL but for egress traffic
-    return this.applyIngressAcl(deviceId, interfaceName, packet);
+    const device = this.getDeviceById(deviceId);
+    return (device && this.checkInterfaceAcl(device, interfaceName, 'out', packet)) ?? { permitted: true };
   }
 
   /**
    * Evaluate packet against ACL
    */
-  private evaluateAcl(
-    acl: AccessControlList, 
-    packet: Packet
-  ): { permitted: boolean, matchedRule?: string } {
-    
-    for (const entry of acl.entries) {
-      if (this.matchesAclEntry(entry, packet)) {
-        // Update hit count
-        const currentCount = acl.hitCounts.get(entry.id) || 0;
-        acl.hitCounts.set(entry.id, currentCount + 1);
-        
-        return {
-          permitted: entry.action === 'permit',
-          matchedRule: entry.id
-        };
-      }
-    }
-    
+  private evaluateAcl(acl: AccessControlList, packet: Packet): AclCheckResult {
+    const entry = acl.entries.find(candidate => this.matchesAclEntry(candidate, packet));
+    const matchedRule = entry ? entry.id : IMPLICIT_DENY_RULE;
+
+    // Update hit count
+    const hits = (acl.hitCounts.get(matchedRule) || 0) + 1;
+    acl.hitCounts.set(matchedRule, hits);
+
     // Default deny if no match (implicit deny)
-    return { permitted: false, matchedRule: 'implicit-deny' };
+    return {
+      permitted: entry?.action === 'permit',
+      acl,
+      matchedRule,
+      entry,
+      hits
+    };
   }
 
   /**
    * Check if packet matches ACL entry
    */
   private matchesAclEntry(entry: AclEntry, packet: Packet): boolean {
+    return this.aclEntryMismatch(entry, packet) === undefined;
+  }
+
+  /**
+   * First reason a packet does not match an ACL entry, undefined when it matches
+   */
+  private aclEntryMismatch(entry: AclEntry, packet: Packet): string | undefined {
+    const { header } = packet;
+
     // Protocol match
-    if (entry.protocol !== undefined) {
-      if (typeof entry.protocol === 'number') {
-        if (packet.header.protocol !== entry.protocol) return false;
-      } else {
-        // Named protocol matching would be implemented here
-      }
+    if (entry.protocol !== undefined && !this.protocolMatches(header.protocol, entry.protocol)) {
+      const name = Object.keys(IP_PROTOCOL_NUMBERS).find(key => IP_PROTOCOL_NUMBERS[key] === header.protocol);
+      return `protocol ${name ?? header.protocol ?? '(none)'} is not ${entry.protocol}`;
     }
     
     // Source/destination network match
-    if (entry.srcNetwork && packet.header.srcIp) {
-      if (!this.ipMatchesNetwork(packet.header.srcIp, entry.srcNetwork)) return false;
+    if (entry.srcNetwork && !(header.srcIp && this.ipMatchesNetwork(header.srcIp, entry.srcNetwork))) {
+      return `source ${header.srcIp ?? '(none)'} is not in ${describeAclAddress(entry.srcNetwork)}`;
     }
     
-    if (entry.dstNetwork && packet.header.dstIp) {
-      if (!this.ipMatchesNetwork(packet.header.dstIp, entry.dstNetwork)) return false;
+    if (entry.dstNetwork && !(header.dstIp && this.ipMatchesNetwork(header.dstIp, entry.dstNetwork))) {
+      return `destination ${header.dstIp ?? '(none)'} is not in ${describeAclAddress(entry.dstNetwork)}`;
     }
     
     // Port matching
-    if (entry.srcPort && packet.header.srcPort) {
-      if (!this.portMatches(packet.header.srcPort, entry.srcPort)) return false;
+    if (entry.srcPort !== undefined && !(header.srcPort !== undefined && this.portMatches(header.srcPort, entry.srcPort))) {
+      return `source port ${header.srcPort ?? '(none)'} is not ${describeAclPort(entry.srcPort)}`;
     }
     
-    if (entry.dstPort && packet.header.dstPort) {
-      if (!this.portMatches(packet.header.dstPort, entry.dstPort)) return false;
+    if (entry.dstPort !== undefined && !(header.dstPort !== undefined && this.portMatches(header.dstPort, entry.dstPort))) {
+      return `destination port ${header.dstPort ?? '(none)'} is not ${describeAclPort(entry.dstPort)}`;
     }
     
     // DSCP match
-    if (entry.dscp !== undefined && packet.header.dscp !== entry.dscp) {
-      return false;
+    if (entry.dscp !== undefined && header.dscp !== entry.dscp) {
+      return `DSCP ${header.dscp ?? 0} is not ${entry.dscp}`;
     }
     
     // Established connection check (TCP)
     if (entry.established && packet.type === PacketType.TCP) {
       // Check if ACK bit is set (simplified)
-      if (!packet.header.tcpFlags || !(packet.header.tcpFlags & 0x10)) {
-        return false;
+      if (!header.tcpFlags || !(header.tcpFlags & 0x10)) {
+        return 'not part of an established TCP session (ACK not set)';
       }
     }
     
-    return true;
+    return undefined;
   }
 
   /**
@@ -644,49 +898,7 @@ export class PacketProcessingEngine {
     packet: Packet
   ): Promise<{ queued: boolean, delay: number }> {
     
-    const deviceShapers = this.trafficShapers.get(deviceId);
-    const shaper = deviceShapers?.get(interfaceName);
-    
-    if (!shaper || !shaper.enabled) {
-      return { queued: true, delay: 0 };
-    }
-    
-    // Find appropriate queue for packet
-    const queue = this.findQueue(shaper, packet);
-    if (!queue) {
-      return { queued: false, delay: 0 };
-    }
-    
-    // Check queue capacity
-    if (queue.currentSize >= queue.maxSize) {
-      // Apply drop policy
-      if (this.shouldDropPacket(queue, packet)) {
-        queue.packetsDropped++;
-        this.packetCounters.qosViolations++;
-        return { queued: false, delay: 0 };
-      }
-    }
-    
-    // Add to queue
-    let deviceQueues = this.packetQueues.get(deviceId);
-    if (!deviceQueues) {
-      deviceQueues = new Map();
-      this.packetQueues.set(deviceId, deviceQueues);
-    }
-    
-    let interfaceQueue = deviceQueues.get(interfaceName);
-    if (!interfaceQueue) {
-      interfaceQueue = [];
-      deviceQueues.set(interfaceName, interfaceQueue);
-    }
-    
-    interfaceQueue.push(packet);
-    queue.currentSize++;
-    
-    // Calculate queuing delay based on current queue size and bandwidth
-    const delay = this.calculateQueuingDelay(queue, shaper.bandwidth);
-    
-    return { queued: true, delay };
+    return this.enqueuePacket(deviceId, interfaceName, packet);
   }
 
   // Utility methods
@@ -730,9 +942,81 @@ export class PacketProcessingEngine {
     return (packetSize * 8) / bandwidth * 1000; // Convert to ms
   }
 
-  private calculateQueuingDelay(queue: QueueConfig, bandwidth: number): number {
-    // Simplified queuing delay calculation
-    return (queue.currentSize * 1500 * 8) / (bandwidth * queue.bandwidth / 100) * 1000; // ms
+  /**
+   * Forget the packets that have finished transmitting by `now`
+   */
+  private drainQueue(queue: QueueConfig, now: number): number[] {
+    const pending = this.queueDepartures.get(queue) ?? [];
+    const departures = pending.filter(departure => departure > now);
+    queue.packetsTransmitted += pending.length - departures.length;
+    queue.currentSize = departures.length;
+    this.queueDepartures.set(queue, departures);
+    return departures;
+  }
+
+  private protocolMatches(packetProtocol: number | undefined, protocol: string | number): boolean {
+    if (typeof protocol === 'string' && protocol.toLowerCase() === 'ip') return true;
+    if (packetProtocol === undefined) return false;
+    if (typeof protocol === 'number') return packetProtocol === protocol;
+    return packetProtocol === (IP_PROTOCOL_NUMBERS[protocol.toLowerCase()] ?? parseInt(protocol, 10));
+  }
+
+  private ipMatchesNetwork(ip: string, network: string): boolean {
+    if (network === 'any') return true;
+    // A bare address is a host entry, not the /24 SubnetCalculator assumes
+    const { network: address, prefixLength } = SubnetCalculator.parseSubnet(network.includes('/') ? network : `${network}/32`);
+    return SubnetCalculator.isInSameSubnet(ip, address, SubnetCalculator.prefixToMask(prefixLength));
+  }
+
+  private portMatches(port: number, match: number | { min: number, max: number }): boolean {
+    return typeof match === 'number' ? port === match : port >= match.min && port <= match.max;
+  }
+
+  private findQueue(shaper: TrafficShaperConfig, packet: Packet): QueueConfig | null {
+    return shaper.queues.find(queue => queue.qosClass === packet.header.qosClass) ??
+      shaper.queues.find(queue => queue.qosClass === QosClass.BEST_EFFORT) ??
+      shaper.queues[0] ??
+      null;
+  }
+
+  private shouldDropPacket(queue: QueueConfig, packet: Packet): boolean {
+    if (queue.currentSize >= queue.maxSize) return true;
+    if (queue.dropPolicy !== 'weighted-red') return false;
+
+    // WRED: drop probability rises from zero at the minimum threshold to the maximum at a full
+    // queue; packets with a higher drop precedence reach their threshold earlier
+    const minThreshold = queue.maxSize * (0.5 - 0.1 * packet.header.dropPrecedence);
+    if (queue.currentSize < minThreshold) return false;
+    const fill = (queue.currentSize - minThreshold) / (queue.maxSize - minThreshold);
+    return Math.random() < fill * this.WRED_MAX_DROP_PROBABILITY;
+  }
+
+  private getStatsEntry(deviceId: string, interfaceName: string): InterfaceStats | undefined {
+    if (!this.deviceCapabilities.has(deviceId)) return undefined;
+
+    let deviceStats = this.interfaceStats.get(deviceId);
+    if (!deviceStats) {
+      deviceStats = new Map();
+      this.interfaceStats.set(deviceId, deviceStats);
+    }
+    let stats = deviceStats.get(interfaceName);
+    if (!stats) {
+      stats = {
+        interfaceName,
+        packetsIn: 0,
+        packetsOut: 0,
+        bytesIn: 0,
+        bytesOut: 0,
+        errorsIn: 0,
+        errorsOut: 0,
+        dropsIn: 0,
+        dropsOut: 0,
+        utilization: 0,
+        lastUpdated: Date.now()
+      };
+      deviceStats.set(interfaceName, stats);
+    }
+    return stats;
   }
 
   // Placeholder methods (would be implemented based on your existing systems)
@@ -742,17 +1026,34 @@ export class PacketProcessingEngine {
   private getVlanInterfaces(switchId: string, vlanId: number, connections: Connection[], exclude?: string): string[] { return []; }
   private getInterfaceBandwidth(deviceId: string, interfaceName: string): number { return 1000000000; } // 1 Gbps default
   private checkBufferCapacity(deviceId: string, packet: Packet): boolean { return true; }
-  private ipMatchesNetwork(ip: string, network: string): boolean { return true; }
-  private portMatches(port: number, match: number | { min: number, max: number }): boolean { return true; }
-  private findQueue(shaper: TrafficShaperConfig, packet: Packet): QueueConfig | null { return shaper.queues[0] || null; }
-  private shouldDropPacket(queue: QueueConfig, packet: Packet): boolean { return queue.dropPolicy === 'tail-drop'; }
-  
-  private updateIngressStats(deviceId: string, interfaceName: string, packet: Packet): void {
-    // Update interface statistics
+
+  /**
+   * Count a packet received on an interface of an initialized device
+   */
+  updateIngressStats(deviceId: string, interfaceName: string, packet: Packet, dropped: boolean = false): void {
+    const stats = this.getStatsEntry(deviceId, interfaceName);
+    if (!stats) return;
+
+    stats.packetsIn++;
+    stats.bytesIn += packet.size;
+    if (dropped) stats.dropsIn++;
+    stats.lastUpdated = Date.now();
   }
   
-  private updateEgressStats(deviceId: string, interfaceName: string, packet: Packet): void {
-    // Update interface statistics
+  /**
+   * Count a packet sent, or dropped on its way out, on an interface of an initialized device
+   */
+  updateEgressStats(deviceId: string, interfaceName: string, packet: Packet, dropped: boolean = false): void {
+    const stats = this.getStatsEntry(deviceId, interfaceName);
+    if (!stats) return;
+
+    if (dropped) {
+      stats.dropsOut++;
+    } else {
+      stats.packetsOut++;
+      stats.bytesOut += packet.size;
+    }
+    stats.lastUpdated = Date.now();
   }
 
   /**
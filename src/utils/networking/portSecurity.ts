@@ -0,0 +1,258 @@
+import { SwitchingDevice, NetworkInterface, PortSecurityConfig, SecureMacAddress } from '../../types';
+
+/**
+ * Secure MAC address of a port, as show port-security address lists it
+ */
+export interface SecureAddress {
+  macAddress: string;
+  vlanId: number;
+  interface: string;
+  type: 'static' | 'sticky' | 'dynamic';
+  learnedAt: number; // port security clock, ms
+  lastSeen: number;
+}
+
+/**
+ * Violations a secure port counted, and the last source address it saw
+ */
+export interface PortSecurityViolations {
+  count: number;
+  lastSource?: { macAddress: string; vlanId: number };
+}
+
+/**
+ * A port err-disabled or a sticky address learned; the owner mirrors these onto the interface config
+ */
+export interface PortSecurityEvent {
+  type: 'err-disabled' | 'sticky-learned';
+  deviceId: string;
+  interfaceId: string;
+  address?: SecureMacAddress;
+  time: number; // port security clock, ms
+}
+
+/**
+ * Outcome of checking a frame's source MAC on a secure port
+ */
+export interface PortSecurityVerdict {
+  permitted: boolean;
+  reason: string;
+  learned?: boolean;
+}
+
+interface ErrDisabledPort {
+  since: number;
+  recoverAt?: number;
+}
+
+const portKey = (deviceId: string, interfaceId: string): string => `${deviceId}|${interfaceId}`;
+const addressKey = (mac: string, vlanId: number): string => `${mac.toLowerCase()}|${vlanId}`;
+
+/**
+ * Port security on switch ports. The configuration, with static and saved sticky
+ * addresses, lives on the port; the engine keeps the addresses ports learn, their
+ * violation counters and the ports a violation shut down. Time is simulated time,
+ * advanced by the simulation.
+ */
+export class PortSecurityEngine {
+  private learned = new Map<string, Map<string, SecureAddress>>(); // deviceId|interfaceId -> MAC|VLAN -> address
+  private violations = new Map<string, PortSecurityViolations>(); // deviceId|interfaceId -> counters
+  private errDisabled = new Map<string, ErrDisabledPort>(); // deviceId|interfaceId -> shut down by a violation
+  private events: PortSecurityEvent[] = [];
+  private clock = 0; // ms of simulated time
+
+  /**
+   * Let simulated time pass, bringing back ports whose errdisable recovery interval ran out
+   */
+  advanceClock(elapsed: number): void {
+    this.clock += elapsed;
+    this.errDisabled.forEach((port, key) => {
+      if (port.recoverAt !== undefined && port.recoverAt <= this.clock) this.errDisabled.delete(key);
+    });
+  }
+
+  /**
+   * Current simulated time, what learned addresses age against
+   */
+  getClock(): number {
+    return this.clock;
+  }
+
+  /**
+   * Whether a violation shut the port down
+   */
+  isErrDisabled(deviceId: string, interfaceId: string): boolean {
+    return this.errDisabled.has(portKey(deviceId, interfaceId));
+  }
+
+  /**
+   * Bring a port back, as shutdown / no shutdown does
+   */
+  recover(deviceId: string, interfaceId: string): void {
+    this.errDisabled.delete(portKey(deviceId, interfaceId));
+  }
+
+  /**
+   * Check the source MAC of a frame received on a port. Addresses are learned until the
+   * port holds its maximum; past that, and for an address secured on another port, the
+   * violation mode decides. Undefined when the port is not secured.
+   */
+  check(sw: SwitchingDevice, port: NetworkInterface, sourceMac: string, vlanId: number): PortSecurityVerdict | undefined {
+    const config = port.portSecurity;
+    const key = portKey(sw.id, port.id);
+    if (!config?.enabled) {
+      this.learned.delete(key);
+      return undefined;
+    }
+
+    this.violations.set(key, { ...this.getViolations(sw.id, port.id), lastSource: { macAddress: sourceMac, vlanId } });
+    const addresses = this.getSecureAddresses(sw, port);
+    const known = addresses.find(a => addressKey(a.macAddress, a.vlanId) === addressKey(sourceMac, vlanId));
+    if (known) {
+      const entry = this.learned.get(key)?.get(addressKey(sourceMac, vlanId));
+      if (entry) entry.lastSeen = this.clock;
+      return { permitted: true, reason: `port security: ${sourceMac} is a ${known.type} secure address of ${port.name}` };
+    }
+
+    const elsewhere = sw.interfaces.find(other =>
+      other.id !== port.id && other.portSecurity?.enabled &&
+      this.getSecureAddresses(sw, other).some(a => addressKey(a.macAddress, a.vlanId) === addressKey(sourceMac, vlanId))
+    );
+    if (elsewhere) {
+      return this.violate(sw, port, config, sourceMac, vlanId, `${sourceMac} is secured on ${elsewhere.name}`);
+    }
+    if (addresses.length >= config.maximum) {
+      return this.violate(sw, port, config, sourceMac, vlanId, `${port.name} already holds its maximum of ${config.maximum} secure address(es)`);
+    }
+
+    const type = config.sticky ? 'sticky' : 'dynamic';
+    this.getTable(key).set(addressKey(sourceMac, vlanId), {
+      macAddress: sourceMac,
+      vlanId,
+      interface: port.name,
+      type,
+      learnedAt: this.clock,
+      lastSeen: this.clock,
+    });
+    if (type === 'sticky') {
+      this.events.push({
+        type: 'sticky-learned',
+        deviceId: sw.id,
+        interfaceId: port.id,
+        address: { macAddress: sourceMac, vlanId, sticky: true },
+        time: this.clock,
+      });
+    }
+    return { permitted: true, learned: true, reason: `port security: learned ${sourceMac} as a ${type} secure address of ${port.name}` };
+  }
+
+  /**
+   * Secure addresses of a port: configured static and sticky ones first, then the ones it
+   * learned that have not aged out
+   */
+  getSecureAddresses(sw: SwitchingDevice, port: NetworkInterface): SecureAddress[] {
+    const config = port.portSecurity;
+    if (!config?.enabled) return [];
+
+    const accessVlan = port.vlanConfig?.accessVlan ?? 1;
+    const configured: SecureAddress[] = config.macAddresses.map(address => ({
+      macAddress: address.macAddress,
+      vlanId: address.vlanId ?? accessVlan,
+      interface: port.name,
+      type: address.sticky ? 'sticky' : 'static',
+      learnedAt: 0,
+      lastSeen: 0,
+    }));
+    const seen = new Set(configured.map(a => addressKey(a.macAddress, a.vlanId)));
+
+    const table = this.learned.get(portKey(sw.id, port.id));
+    table?.forEach((address, key) => {
+      if (this.hasAged(address, config)) table.delete(key);
+    });
+    const learned = Array.from(table?.values() ?? []).filter(a => !seen.has(addressKey(a.macAddress, a.vlanId)));
+    return [...configured, ...learned];
+  }
+
+  /**
+   * Violations counted on a port
+   */
+  getViolations(deviceId: string, interfaceId: string): PortSecurityViolations {
+    return this.violations.get(portKey(deviceId, interfaceId)) ?? { count: 0 };
+  }
+
+  /**
+   * Forget the dynamically learned addresses of a switch, or of one of its ports
+   * (clear port-security dynamic)
+   */
+  clearDynamic(deviceId: string, interfaceId?: string): void {
+    this.learned.forEach((table, key) => {
+      if (!key.startsWith(`${deviceId}|`) || (interfaceId && key !== portKey(deviceId, interfaceId))) return;
+      table.forEach((address, addrKey) => {
+        if (address.type === 'dynamic') table.delete(addrKey);
+      });
+    });
+  }
+
+  /**
+   * Drain the events raised since the last call. The ports and sticky addresses they
+   * report are handed over to the interface config, so the engine forgets them.
+   */
+  takePortEvents(): PortSecurityEvent[] {
+    const events = this.events;
+    this.events = [];
+    events.forEach(event => {
+      const key = portKey(event.deviceId, event.interfaceId);
+      if (event.type === 'err-disabled') {
+        this.errDisabled.delete(key);
+      } else if (event.address) {
+        this.learned.get(key)?.delete(addressKey(event.address.macAddress, event.address.vlanId!));
+      }
+    });
+    return events;
+  }
+
+  private violate(
+    sw: SwitchingDevice,
+    port: NetworkInterface,
+    config: PortSecurityConfig,
+    sourceMac: string,
+    vlanId: number,
+    why: string
+  ): PortSecurityVerdict {
+    const reason = `port security: ${sourceMac} denied, ${why}`;
+    // Protect drops silently, without counting the violation
+    if (config.violation === 'protect') {
+      return { permitted: false, reason: `${reason} (protect)` };
+    }
+
+    const key = portKey(sw.id, port.id);
+    const violations = this.getViolations(sw.id, port.id);
+    this.violations.set(key, { ...violations, count: violations.count + 1 });
+    if (config.violation === 'restrict') {
+      return { permitted: false, reason: `${reason} (restrict)` };
+    }
+
+    const recovery = sw.errdisableRecovery;
+    this.errDisabled.set(key, {
+      since: this.clock,
+      recoverAt: recovery?.causes.includes('psecure-violation') ? this.clock + recovery.interval * 1000 : undefined,
+    });
+    this.events.push({ type: 'err-disabled', deviceId: sw.id, interfaceId: port.id, time: this.clock });
+    return { permitted: false, reason: `${reason}; ${port.name} err-disabled (psecure-violation)` };
+  }
+
+  private hasAged(address: SecureAddress, config: PortSecurityConfig): boolean {
+    if (address.type !== 'dynamic' || !config.agingTime) return false;
+    const since = config.agingType === 'inactivity' ? address.lastSeen : address.learnedAt;
+    return this.clock - since >= config.agingTime * 60000;
+  }
+
+  private getTable(key: string): Map<string, SecureAddress> {
+    if (!this.learned.has(key)) {
+      this.learned.set(key, new Map());
+    }
+    return this.learned.get(key)!;
+  }
+}
+
+export const portSecurityEngine = new PortSecurityEngine();
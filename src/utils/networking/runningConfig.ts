@@ -0,0 +1,2405 @@
+import {
+  NetworkDevice,
+  SwitchDevice,
+  MultilayerSwitchDevice,
+  RouterDevice,
+  PcDevice,
+  ServerDevice,
+  DeviceType,
+  DeviceStatus,
+  InterfaceType,
+  InterfaceStatus,
+  NetworkInterface,
+  OspfProcessConfig,
+  OspfInterfaceConfig,
+  RipProcessConfig,
+  BgpProcessConfig,
+  RouteEntry,
+  VlanEntry,
+  SpanningTreeConfig,
+  SpanningTreePortConfig,
+  MstConfig,
+  ErrDisableRecoveryConfig,
+  NatConfig,
+  NatInterfaceRole,
+  AccessListConfig,
+  AccessListType,
+  Ipv6InterfaceAddress,
+  Ipv6StaticRoute,
+  DhcpServerConfig,
+  DhcpPoolConfig,
+  DhcpSnoopingConfig,
+  SnoopingPortConfig,
+  PortSecurityConfig,
+  PortSecurityViolationMode,
+  ChannelGroupConfig,
+  Dot1qEncapsulation,
+  ChannelGroupMode,
+  EtherChannelLoadBalance,
+  FhrpGroupConfig,
+  SwitchportMode,
+  VtpMode,
+  VtpSwitchConfig,
+} from '../../types';
+import { SubnetCalculator, DEFAULT_RIP_TIMERS, BGP_DEFAULT_LOCAL_PREFERENCE, getClassfulNetwork } from '../routing/routingEngine';
+import { generateId, generateMacAddress } from '../../data/sampleData';
+import { IPAddressUtils, IPv6AddressUtils } from './ipAddressManager';
+import { DHCP_INFINITE_LEASE } from './dhcpEngine';
+import { ETHERCHANNEL_LOAD_BALANCE_METHODS } from './etherChannel';
+import { parseSubinterfaceName, getSubinterfaces, createSubinterface } from './subinterfaces';
+import { isSwitchingDevice, isSwitchport, parseSviName, getSvis, createSvi } from './multilayerSwitch';
+import { HSRP_DEFAULT_HELLO_TIME, HSRP_DEFAULT_HOLD_TIME } from './firstHopRedundancy';
+import { isVtpSynchronized } from './vtp';
+import { SWITCHPORT_MODES, getSwitchportMode, isDynamicMode, formatSwitchportMode } from './dynamicTrunking';
+import { formatAclEntry, getAccessLists, getNumberedAclType, isNumberedAcl, nextAclSequence, parseAclEntry, supportsAccessLists } from './accessLists';
+import {
+  STP_DEFAULT_BRIDGE_PRIORITY,
+  STP_BRIDGE_PRIORITY_STEP,
+  ERRDISABLE_DEFAULT_RECOVERY_INTERVAL,
+  ERRDISABLE_CAUSES,
+} from './spanningTreeProtocol';
+import {
+  isIpAddress,
+  isIpv6Address,
+  isIpv6Prefix,
+  isSubnetMask,
+  isWildcardMask,
+  isVlanList,
+  isMacAddress,
+  parseVlanList,
+  parseMacAddress,
+  formatVlanList,
+  formatMacAddress,
+  expandInterfaceName,
+  abbreviateInterfaceName,
+  resolveInterfaceName,
+} from './iosSyntax';
+
+/**
+ * Problem found on a single line of a running-config
+ */
+export interface RunningConfigIssue {
+  line: number;
+  text: string;
+  message: string;
+}
+
+/**
+ * Device produced from one "hostname ... end" section of a running-config
+ */
+export interface ParsedDeviceConfig {
+  device: NetworkDevice;
+  isNew: boolean;
+  startLine: number;
+}
+
+/**
+ * Result of parsing running-config text
+ */
+export interface RunningConfigParseResult {
+  devices: ParsedDeviceConfig[];
+  errors: RunningConfigIssue[];
+  unsupported: RunningConfigIssue[];
+}
+
+/**
+ * Interface block collected while parsing
+ */
+interface InterfaceDraft {
+  name: string;
+  line: number;
+  description?: string;
+  ipAddress?: string;
+  ipLine?: number;
+  shutdown: boolean;
+  mode?: SwitchportMode;
+  nonegotiate?: boolean;
+  nonegotiateLine?: number;
+  accessVlan?: number;
+  nativeVlan?: number;
+  allowedVlans?: number[];
+  switchportLines: number[];
+  speed?: number;
+  duplex?: 'full' | 'half';
+  ospf?: OspfInterfaceConfig;
+  ospfLine?: number;
+  splitHorizon?: boolean;
+  splitHorizonLine?: number;
+  spanningTree?: SpanningTreePortConfig;
+  spanningTreeLine?: number;
+  nat?: NatInterfaceRole;
+  natLine?: number;
+  dhcpClient?: boolean;
+  helperAddresses?: string[];
+  helperLine?: number;
+  accessGroups?: { in?: string; out?: string };
+  accessGroupLine?: number;
+  snooping?: SnoopingPortConfig;
+  snoopingLine?: number;
+  portSecurity?: PortSecurityConfig;
+  channelGroup?: ChannelGroupConfig;
+  channelGroupLine?: number;
+  encapsulation?: Dot1qEncapsulation;
+  encapsulationLine?: number;
+  routed?: boolean; // no switchport
+  routedLine?: number;
+  fhrpGroups?: FhrpGroupConfig[];
+  fhrpLine?: number;
+  ipv6Addresses?: Ipv6InterfaceAddress[]; // EUI-64 entries hold the prefix until the MAC address is known
+  ipv6Enabled?: boolean;
+  ipv6Autoconfig?: boolean;
+  ipv6Lines: number[];
+  ipv6AutoconfigLine?: number;
+}
+
+/**
+ * Everything collected for one device section before it is turned into a device
+ */
+interface DeviceDraft {
+  startLine: number;
+  hostname?: string;
+  vlans: Map<number, VlanEntry>;
+  vlanLines: number[];
+  interfaces: InterfaceDraft[];
+  routes: RouteEntry[];
+  routeLines: number[];
+  ospf?: OspfProcessConfig;
+  ospfLine?: number;
+  rip?: RipProcessConfig;
+  ripLine?: number;
+  bgp?: BgpProcessConfig;
+  bgpLine?: number;
+  stp?: SpanningTreeConfig;
+  stpLines: number[];
+  errdisable?: ErrDisableRecoveryConfig;
+  errdisableLines: number[];
+  defaultGateway?: string;
+  defaultGatewayLine?: number;
+  ipv6DefaultGateway?: string;
+  ipv6DefaultGatewayLine?: number;
+  ipv6UnicastRouting?: boolean;
+  ipv6Routes: Ipv6StaticRoute[];
+  ipv6RoutingLines: number[];
+  nat: NatConfig;
+  natLines: number[];
+  accessLists: AccessListConfig[];
+  aclLines: number[];
+  dhcpServer: DhcpServerConfig;
+  dhcpLines: number[];
+  dhcpSnooping?: DhcpSnoopingConfig;
+  arpInspectionVlans?: number[];
+  snoopingLines: number[];
+  loadBalance?: EtherChannelLoadBalance;
+  loadBalanceLine?: number;
+  vtp: Omit<VtpSwitchConfig, 'revision'>;
+  vtpLines: number[];
+  ipRouting?: boolean;
+  ipRoutingLine?: number;
+  lines: Map<number, string>;
+}
+
+type ParseContext =
+  | { kind: 'global' }
+  | { kind: 'interface'; iface: InterfaceDraft }
+  | { kind: 'vlan'; vlanIds: number[] }
+  | { kind: 'router'; ospf: OspfProcessConfig }
+  | { kind: 'rip'; rip: RipProcessConfig }
+  | { kind: 'bgp'; bgp: BgpProcessConfig }
+  | { kind: 'mst'; mst: MstConfig }
+  | { kind: 'dhcp-pool'; pool: DhcpPoolConfig }
+  | { kind: 'acl'; acl: AccessListConfig }
+  | { kind: 'skip' };
+
+const NOMINAL_SPEED: Record<string, number> = {
+  fa: 100,
+  gi: 1000,
+  te: 10000,
+};
+
+// Interface "ip ospf" settings, in running-config order
+const OSPF_INTERFACE_KEYWORDS: Array<{ keyword: string; key: keyof OspfInterfaceConfig; min: number; max: number }> = [
+  { keyword: 'hello-interval', key: 'helloInterval', min: 1, max: 65535 },
+  { keyword: 'dead-interval', key: 'deadInterval', min: 1, max: 65535 },
+  { keyword: 'priority', key: 'priority', min: 0, max: 255 },
+  { keyword: 'cost', key: 'cost', min: 1, max: 65535 },
+];
+
+// Port commands of DHCP snooping, dynamic ARP inspection and IP source guard, in running-config order
+const SNOOPING_PORT_COMMANDS: Array<{ command: string; key: keyof SnoopingPortConfig }> = [
+  { command: 'ip arp inspection trust', key: 'arpTrust' },
+  { command: 'ip dhcp snooping trust', key: 'dhcpTrust' },
+  { command: 'ip verify source', key: 'verifySource' },
+];
+
+const PORT_SECURITY_VIOLATION_MODES: PortSecurityViolationMode[] = ['protect', 'restrict', 'shutdown'];
+
+const CHANNEL_GROUP_MODES: ChannelGroupMode[] = ['active', 'passive', 'desirable', 'auto', 'on'];
+
+// Header and boilerplate lines that carry nothing the simulator models
+const IGNORED_LINES = [
+  /^building configuration/i,
+  /^current configuration\s*:/i,
+  /^last configuration change/i,
+  /^version\s/i,
+  /^(no\s+)?service\s/i,
+  /^boot-(start|end)-marker$/i,
+];
+
+const isVlanId = (value: string): boolean => /^\d+$/.test(value) && Number(value) >= 1 && Number(value) <= 4094;
+
+const toDottedAddress = (cidr: string): string => {
+  const [ip, prefix] = cidr.split('/');
+  const mask = SubnetCalculator.prefixToMask(prefix ? parseInt(prefix) : 24);
+  return `${ip} ${mask}`;
+};
+
+const formatIpv6Address = (entry: Ipv6InterfaceAddress): string => {
+  switch (entry.origin) {
+    case 'link-local':
+      return `${entry.address.toUpperCase()} link-local`;
+    case 'eui-64':
+      return `${IPv6AddressUtils.getPrefix(entry.address, entry.prefixLength).toUpperCase()}/${entry.prefixLength} eui-64`;
+    default:
+      return `${entry.address.toUpperCase()}/${entry.prefixLength}`;
+  }
+};
+
+const formatDhcpLease = (seconds: number): string => {
+  if (seconds === DHCP_INFINITE_LEASE) return 'infinite';
+  const minutes = Math.floor(seconds / 60);
+  return `${Math.floor(minutes / 1440)} ${Math.floor(minutes / 60) % 24} ${minutes % 60}`;
+};
+
+// Port security lines of a switch port; the address VLAN is left out where it is the access VLAN
+const formatPortSecurity = (iface: NetworkInterface): string[] => {
+  const config = iface.portSecurity;
+  if (!config) return [];
+
+  const lines: string[] = [];
+  if (config.maximum !== 1) lines.push(` switchport port-security maximum ${config.maximum}`);
+  if (config.violation !== 'shutdown') lines.push(` switchport port-security violation ${config.violation}`);
+  if (config.sticky) lines.push(' switchport port-security mac-address sticky');
+  config.macAddresses.forEach(address => {
+    const vlan = address.vlanId !== undefined && address.vlanId !== (iface.vlanConfig?.accessVlan ?? 1) ? ` vlan ${address.vlanId}` : '';
+    lines.push(` switchport port-security mac-address ${address.sticky ? 'sticky ' : ''}${formatMacAddress(address.macAddress)}${vlan}`);
+  });
+  if (config.agingTime) lines.push(` switchport port-security aging time ${config.agingTime}`);
+  if (config.agingType) lines.push(` switchport port-security aging type ${config.agingType}`);
+  if (config.enabled) lines.push(' switchport port-security');
+  return lines;
+};
+
+// HSRP (standby) and VRRP group lines of a routed interface; HSRP group 0 is written without its number
+const formatFhrpGroups = (iface: NetworkInterface): string[] =>
+  (iface.fhrpGroups ?? []).flatMap(config => {
+    const prefix = config.protocol === 'hsrp' ? `standby${config.group ? ` ${config.group}` : ''}` : `vrrp ${config.group}`;
+    const lines = [` ${prefix} ip${config.virtualIp ? ` ${config.virtualIp}` : ''}`];
+    if (config.protocol === 'hsrp' && (config.helloTime !== undefined || config.holdTime !== undefined)) {
+      lines.push(` ${prefix} timers ${config.helloTime ?? HSRP_DEFAULT_HELLO_TIME} ${config.holdTime ?? HSRP_DEFAULT_HOLD_TIME}`);
+    } else if (config.protocol === 'vrrp' && config.helloTime !== undefined) {
+      lines.push(` ${prefix} timers advertise ${config.helloTime}`);
+    }
+    if (config.priority !== undefined) lines.push(` ${prefix} priority ${config.priority}`);
+    if (config.protocol === 'hsrp' && config.preempt) lines.push(` ${prefix} preempt`);
+    if (config.protocol === 'vrrp' && config.preempt === false) lines.push(` no ${prefix} preempt`);
+    (config.track ?? []).forEach(track => {
+      const decrement = track.decrement !== undefined ? ` decrement ${track.decrement}` : '';
+      lines.push(` ${prefix} track ${expandInterfaceName(track.interface)}${decrement}`);
+    });
+    return lines;
+  });
+
+const defaultSpeed = (name: string): number | undefined => {
+  const type = abbreviateInterfaceName(name).match(/^[A-Za-z]+/)?.[0].toLowerCase();
+  return type ? NOMINAL_SPEED[type] : undefined;
+};
+
+const getInterfaces = (device: NetworkDevice): NetworkInterface[] => {
+  if (device.type === DeviceType.PC) {
+    return [(device as PcDevice).interface];
+  }
+  return (device as SwitchDevice | MultilayerSwitchDevice | RouterDevice | ServerDevice).interfaces || [];
+};
+
+/**
+ * Render a device as IOS running-config text
+ */
+export const generateRunningConfig = (device: NetworkDevice): string => {
+  const lines: string[] = ['!', 'version 15.0', 'service timestamps debug datetime msec', 'service timestamps log datetime msec', 'no service password-encryption', '!', `hostname ${device.name}`, '!'];
+
+  if (isSwitchingDevice(device)) {
+    const sw = device;
+    const stp = sw.spanningTreeConfig;
+    sw.errdisableRecovery?.causes.forEach(cause => lines.push(`errdisable recovery cause ${cause}`));
+    if (sw.errdisableRecovery && sw.errdisableRecovery.interval !== ERRDISABLE_DEFAULT_RECOVERY_INTERVAL) {
+      lines.push(`errdisable recovery interval ${sw.errdisableRecovery.interval}`);
+    }
+    const snooping = sw.dhcpSnooping;
+    if (snooping?.vlans.length) {
+      lines.push(`ip dhcp snooping vlan ${formatVlanList(snooping.vlans)}`);
+    }
+    if (snooping?.verifyMacAddress === false) {
+      lines.push('no ip dhcp snooping verify mac-address');
+    }
+    if (snooping?.enabled) {
+      lines.push('ip dhcp snooping');
+    }
+    if (sw.arpInspectionVlans?.length) {
+      lines.push(`ip arp inspection vlan ${formatVlanList(sw.arpInspectionVlans)}`);
+    }
+    if (sw.etherChannelLoadBalance) {
+      lines.push(`port-channel load-balance ${sw.etherChannelLoadBalance}`);
+    }
+    // The configuration revision lives in the VLAN database, not in the running-config
+    const vtp = sw.vtp;
+    if (vtp?.domain) lines.push(`vtp domain ${vtp.domain}`);
+    if (vtp?.mode && vtp.mode !== VtpMode.SERVER) lines.push(`vtp mode ${vtp.mode}`);
+    if (vtp?.version && vtp.version !== 1) lines.push(`vtp version ${vtp.version}`);
+    if (vtp?.password) lines.push(`vtp password ${vtp.password}`);
+    lines.push(`spanning-tree mode ${stp?.mode ?? 'pvst'}`);
+    lines.push('spanning-tree extend system-id');
+    Object.entries(stp?.vlanPriorities ?? {})
+      .filter(([, priority]) => priority !== STP_DEFAULT_BRIDGE_PRIORITY)
+      .sort(([a], [b]) => Number(a) - Number(b))
+      .forEach(([vlanId, priority]) => lines.push(`spanning-tree vlan ${vlanId} priority ${priority}`));
+    Object.entries(stp?.mst?.priorities ?? {})
+      .filter(([, priority]) => priority !== STP_DEFAULT_BRIDGE_PRIORITY)
+      .sort(([a], [b]) => Number(a) - Number(b))
+      .forEach(([instance, priority]) => lines.push(`spanning-tree mst ${instance} priority ${priority}`));
+    lines.push('!');
+    const mst = stp?.mst;
+    if (mst && (mst.name || mst.revision || Object.keys(mst.instances).length > 0)) {
+      lines.push('spanning-tree mst configuration');
+      if (mst.name) lines.push(` name ${mst.name}`);
+      if (mst.revision) lines.push(` revision ${mst.revision}`);
+      Object.entries(mst.instances)
+        .sort(([a], [b]) => Number(a) - Number(b))
+        .forEach(([instance, vlans]) => lines.push(` instance ${instance} vlan ${formatVlanList(vlans)}`));
+      lines.push('!');
+    }
+    (sw.vlanDatabase || [])
+      .filter(v => v.id !== 1)
+      .forEach(v => {
+        lines.push(`vlan ${v.id}`);
+        lines.push(` name ${v.name}`);
+        lines.push('!');
+      });
+  }
+
+  const dhcpServer = (device as RouterDevice | ServerDevice).dhcpServer;
+  if ((device.type === DeviceType.ROUTER || device.type === DeviceType.SERVER) && dhcpServer) {
+    dhcpServer.excludedRanges.forEach(r => lines.push(`ip dhcp excluded-address ${r.start}${r.end !== r.start ? ` ${r.end}` : ''}`));
+    if (dhcpServer.excludedRanges.length > 0) lines.push('!');
+    dhcpServer.pools.forEach(pool => {
+      lines.push(`ip dhcp pool ${pool.name}`);
+      if (pool.network && pool.mask) lines.push(` network ${pool.network} ${pool.mask}`);
+      if (pool.defaultRouter) lines.push(` default-router ${pool.defaultRouter}`);
+      if (pool.dnsServers?.length) lines.push(` dns-server ${pool.dnsServers.join(' ')}`);
+      if (pool.leaseTime !== undefined) lines.push(` lease ${formatDhcpLease(pool.leaseTime)}`);
+      lines.push('!');
+    });
+  }
+
+  if (device.type === DeviceType.MULTILAYER_SWITCH && device.ipRouting) {
+    lines.push('ip routing', '!');
+  }
+  if (device.type === DeviceType.ROUTER && (device as RouterDevice).ipv6UnicastRouting) {
+    lines.push('ipv6 unicast-routing', '!');
+  }
+
+  // Subinterfaces follow their physical interface and SVIs come last, as IOS lists them
+  const interfaces = getInterfaces(device);
+  const subinterfaceNumber = (iface: NetworkInterface) => parseSubinterfaceName(iface.name)?.number ?? 0;
+  interfaces.filter(i => !i.parentInterface && i.sviVlan === undefined).flatMap(i => [
+    i,
+    ...getSubinterfaces(interfaces, i).sort((a, b) => subinterfaceNumber(a) - subinterfaceNumber(b)),
+  ]).concat(isSwitchingDevice(device) ? getSvis(device) : []).forEach(iface => {
+    lines.push(`interface ${expandInterfaceName(iface.name)}`);
+    if (iface.description) {
+      lines.push(` description ${iface.description}`);
+    }
+    if (iface.encapsulation) {
+      lines.push(` encapsulation dot1Q ${iface.encapsulation.vlanId}${iface.encapsulation.native ? ' native' : ''}`);
+    }
+
+    if (iface.routedPort) {
+      lines.push(' no switchport');
+    }
+    if (isSwitchingDevice(device) && isSwitchport(iface)) {
+      const access = iface.vlanConfig?.accessVlan;
+      if (access && access !== 1) {
+        lines.push(` switchport access vlan ${access}`);
+      }
+      // Dynamic ports keep their trunk settings for when DTP makes them trunks
+      const mode = getSwitchportMode(iface);
+      if (mode !== 'access') {
+        const native = iface.vlanConfig?.nativeVlan;
+        if (native && native !== 1) {
+          lines.push(` switchport trunk native vlan ${native}`);
+        }
+        const allowed = iface.vlanConfig?.allowedVlans;
+        if (allowed) {
+          lines.push(` switchport trunk allowed vlan ${allowed.length > 0 ? formatVlanList(allowed) : 'none'}`);
+        }
+      }
+      lines.push(` switchport mode ${formatSwitchportMode(mode)}`);
+      if (iface.nonegotiate) {
+        lines.push(' switchport nonegotiate');
+      }
+      lines.push(...formatPortSecurity(iface));
+      if (iface.channelGroup) {
+        lines.push(` channel-group ${iface.channelGroup.group} mode ${iface.channelGroup.mode}`);
+      }
+      const portStp = iface.spanningTree;
+      if (portStp?.portfast) lines.push(' spanning-tree portfast');
+      if (portStp?.bpduFilter) lines.push(' spanning-tree bpdufilter enable');
+      if (portStp?.bpduGuard) lines.push(' spanning-tree bpduguard enable');
+      if (portStp?.guard) lines.push(` spanning-tree guard ${portStp.guard}`);
+      SNOOPING_PORT_COMMANDS.forEach(({ command, key }) => {
+        if (iface.snooping?.[key]) lines.push(` ${command}`);
+      });
+    } else {
+      if (iface.dhcpClient) {
+        lines.push(' ip address dhcp');
+      } else {
+        lines.push(iface.ipAddress ? ` ip address ${toDottedAddress(iface.ipAddress)}` : ' no ip address');
+      }
+      (iface.helperAddresses ?? []).forEach(address => lines.push(` ip helper-address ${address}`));
+      OSPF_INTERFACE_KEYWORDS.forEach(({ keyword, key }) => {
+        if (iface.ospf?.[key] !== undefined) {
+          lines.push(` ip ospf ${keyword} ${iface.ospf[key]}`);
+        }
+      });
+      if (iface.rip?.splitHorizon === false) {
+        lines.push(' no ip split-horizon');
+      }
+      if (iface.nat) {
+        lines.push(` ip nat ${iface.nat}`);
+      }
+      lines.push(...formatFhrpGroups(iface));
+      (iface.ipv6Addresses ?? []).forEach(entry => lines.push(` ipv6 address ${formatIpv6Address(entry)}`));
+      if (iface.ipv6Autoconfig) {
+        lines.push(' ipv6 address autoconfig');
+      }
+      if (iface.ipv6Enabled) {
+        lines.push(' ipv6 enable');
+      }
+    }
+    (['in', 'out'] as const).forEach(direction => {
+      const aclName = iface.accessGroups?.[direction];
+      if (aclName) lines.push(` ip access-group ${aclName} ${direction}`);
+    });
+
+    const nominal = defaultSpeed(iface.name);
+    if (nominal !== undefined && iface.speed && iface.speed !== nominal && !iface.parentInterface) {
+      lines.push(` speed ${iface.speed}`);
+    }
+    if (iface.duplex === 'half' && !iface.parentInterface) {
+      lines.push(' duplex half');
+    }
+    if (iface.status === InterfaceStatus.ADMIN_DOWN) {
+      lines.push(' shutdown');
+    }
+    lines.push('!');
+  });
+
+  if (device.type === DeviceType.ROUTER) {
+    const router = device as RouterDevice;
+    if (router.ospfEnabled && router.ospfConfig) {
+      lines.push(`router ospf ${router.ospfConfig.processId}`);
+      if (router.ospfConfig.routerId) {
+        lines.push(` router-id ${router.ospfConfig.routerId}`);
+      }
+      router.ospfConfig.networks.forEach(n => {
+        lines.push(` network ${n.network} ${n.wildcard} area ${n.area}`);
+      });
+      lines.push('!');
+    }
+    if (router.ripEnabled && router.ripConfig) {
+      const timers = router.ripConfig.timers;
+      lines.push('router rip', ' version 2');
+      if (timers && JSON.stringify(timers) !== JSON.stringify(DEFAULT_RIP_TIMERS)) {
+        lines.push(` timers basic ${timers.update} ${timers.invalid} ${timers.holddown} ${timers.flush}`);
+      }
+      router.ripConfig.networks.forEach(n => lines.push(` network ${n}`));
+      lines.push(' no auto-summary', '!');
+    }
+    if (router.bgpEnabled && router.bgpConfig) {
+      const bgp = router.bgpConfig;
+      lines.push(`router bgp ${bgp.asn}`);
+      if (bgp.routerId) {
+        lines.push(` bgp router-id ${bgp.routerId}`);
+      }
+      lines.push(' bgp log-neighbor-changes');
+      if (bgp.defaultLocalPreference !== undefined && bgp.defaultLocalPreference !== BGP_DEFAULT_LOCAL_PREFERENCE) {
+        lines.push(` bgp default local-preference ${bgp.defaultLocalPreference}`);
+      }
+      bgp.networks.forEach(n => lines.push(` network ${n.network} mask ${n.mask}`));
+      bgp.neighbors.forEach(n => {
+        lines.push(` neighbor ${n.address} remote-as ${n.remoteAs}`);
+        if (n.description) lines.push(` neighbor ${n.address} description ${n.description}`);
+        if (n.shutdown) lines.push(` neighbor ${n.address} shutdown`);
+        if (n.nextHopSelf) lines.push(` neighbor ${n.address} next-hop-self`);
+      });
+      lines.push('!');
+    }
+
+    router.nat?.pools.forEach(p => lines.push(`ip nat pool ${p.name} ${p.startIp} ${p.endIp} netmask ${p.netmask}`));
+    router.nat?.dynamicRules.forEach(r => {
+      const target = r.pool ? `pool ${r.pool}` : `interface ${expandInterfaceName(r.interface ?? '')}`;
+      lines.push(`ip nat inside source list ${r.aclName} ${target}${r.overload ? ' overload' : ''}`);
+    });
+    router.nat?.staticEntries.forEach(e => lines.push(`ip nat inside source static ${e.insideLocal} ${e.insideGlobal}`));
+  }
+
+  if (device.type === DeviceType.ROUTER || device.type === DeviceType.MULTILAYER_SWITCH) {
+    (device.routingTable || [])
+      .filter(r => r.protocol === 'static')
+      .forEach(r => lines.push(`ip route ${r.network} ${r.mask} ${r.nextHop}`));
+  }
+
+  if (device.type === DeviceType.ROUTER) {
+    const router = device as RouterDevice;
+    (router.ipv6Routes ?? []).forEach(r => {
+      const via = [r.interface && expandInterfaceName(r.interface), r.nextHop?.toUpperCase()].filter(Boolean).join(' ');
+      lines.push(`ipv6 route ${r.prefix.toUpperCase()}/${r.prefixLength} ${via}`);
+    });
+  }
+
+  getAccessLists(device).forEach(acl => {
+    if (isNumberedAcl(acl.name)) {
+      acl.entries.forEach(e => lines.push(`access-list ${acl.name} ${e.action} ${formatAclEntry(e, acl.type)}`));
+      return;
+    }
+    lines.push(`ip access-list ${acl.type} ${acl.name}`);
+    acl.entries.forEach(e => lines.push(` ${e.action} ${formatAclEntry(e, acl.type)}`));
+    lines.push('!');
+  });
+
+  const gateway = (device as PcDevice | ServerDevice).defaultGateway;
+  if ((device.type === DeviceType.PC || device.type === DeviceType.SERVER) && gateway) {
+    lines.push(`ip default-gateway ${gateway}`);
+  }
+  const ipv6Gateway = (device as PcDevice | ServerDevice).ipv6DefaultGateway;
+  if ((device.type === DeviceType.PC || device.type === DeviceType.SERVER) && ipv6Gateway) {
+    lines.push(`ipv6 default-gateway ${ipv6Gateway.toUpperCase()}`);
+  }
+
+  lines.push('!', 'end');
+
+  const body = lines.join('\n') + '\n';
+  return `Building configuration...\n\nCurrent configuration : ${body.length} bytes\n${body}`;
+};
+
+/**
+ * Render several devices one after the other, each terminated by "end"
+ */
+export const generateRunningConfigs = (devices: NetworkDevice[]): string =>
+  devices.map(generateRunningConfig).join('\n');
+
+/**
+ * Parse IOS running-config text into devices.
+ * Each section runs until "end"; a section whose hostname matches one of
+ * existingDevices is applied on top of a copy of that device.
+ */
+export const parseRunningConfig = (text: string, existingDevices: NetworkDevice[] = []): RunningConfigParseResult => {
+  const result: RunningConfigParseResult = { devices: [], errors: [], unsupported: [] };
+  const newDraft = (startLine: number): DeviceDraft => ({
+    startLine,
+    vlans: new Map(),
+    vlanLines: [],
+    stpLines: [],
+    errdisableLines: [],
+    interfaces: [],
+    routes: [],
+    routeLines: [],
+    ipv6Routes: [],
+    ipv6RoutingLines: [],
+    nat: { staticEntries: [], pools: [], dynamicRules: [] },
+    natLines: [],
+    accessLists: [],
+    aclLines: [],
+    dhcpServer: { pools: [], excludedRanges: [] },
+    dhcpLines: [],
+    snoopingLines: [],
+    vtp: {},
+    vtpLines: [],
+    lines: new Map(),
+  });
+
+  let draft = newDraft(1);
+  let hasContent = false;
+  let context: ParseContext = { kind: 'global' };
+
+  const error = (line: number, message: string) => {
+    result.errors.push({ line, text: draft.lines.get(line) ?? '', message });
+  };
+  const unsupported = (line: number, message = 'Command not supported by the simulator') => {
+    result.unsupported.push({ line, text: draft.lines.get(line) ?? '', message });
+  };
+
+  const finishSection = () => {
+    if (hasContent) {
+      const parsed = buildDevice(draft, existingDevices, error, unsupported);
+      if (parsed) result.devices.push(parsed);
+    }
+  };
+
+  text.split(/\r?\n/).forEach((raw, index) => {
+    const lineNumber = index + 1;
+    const indented = /^\s/.test(raw);
+    const line = raw.trim();
+
+    if (!hasContent && line !== '') {
+      draft = newDraft(lineNumber);
+    }
+    draft.lines.set(lineNumber, line);
+
+    if (line === '') return;
+    if (line.startsWith('!')) {
+      context = { kind: 'global' };
+      return;
+    }
+    if (IGNORED_LINES.some(pattern => pattern.test(line))) return;
+
+    if (/^end$/i.test(line)) {
+      finishSection();
+      hasContent = false;
+      context = { kind: 'global' };
+      return;
+    }
+
+    hasContent = true;
+    const words = line.split(/\s+/);
+    const lower = words.map(w => w.toLowerCase());
+
+    if (/^exit$/i.test(line)) {
+      context = { kind: 'global' };
+      return;
+    }
+
+    if (indented && context.kind !== 'global') {
+      parseSubCommand(context, words, lower, lineNumber, draft, error, unsupported);
+      return;
+    }
+
+    context = parseGlobalCommand(words, lower, lineNumber, draft, error, unsupported);
+  });
+
+  finishSection();
+  result.errors.sort((a, b) => a.line - b.line);
+  result.unsupported.sort((a, b) => a.line - b.line);
+  return result;
+};
+
+const parseGlobalCommand = (
+  words: string[],
+  lower: string[],
+  line: number,
+  draft: DeviceDraft,
+  error: (line: number, message: string) => void,
+  unsupported: (line: number, message?: string) => void
+): ParseContext => {
+  switch (lower[0]) {
+    case 'hostname':
+      if (words.length !== 2) {
+        error(line, 'hostname requires a single word');
+      } else {
+        draft.hostname = words[1];
+      }
+      return { kind: 'global' };
+
+    case 'vlan': {
+      if (words.length !== 2 || !isVlanList(words[1])) {
+        error(line, 'Expected "vlan <id>"');
+        return { kind: 'skip' };
+      }
+      const vlanIds = parseVlanList(words[1]);
+      if (vlanIds.some(id => id < 1 || id > 4094)) {
+        error(line, 'VLAN ID must be between 1 and 4094');
+        return { kind: 'skip' };
+      }
+      vlanIds.forEach(id => {
+        if (!draft.vlans.has(id)) {
+          draft.vlans.set(id, { id, name: id === 1 ? 'default' : `VLAN${id.toString().padStart(4, '0')}`, status: 'active' });
+        }
+      });
+      draft.vlanLines.push(line);
+      return { kind: 'vlan', vlanIds };
+    }
+
+    case 'interface': {
+      const name = words.slice(1).join('');
+      const match = name.match(/^([A-Za-z-]+)(\d+(?:\/\d+)*)(\.\d+)?$/);
+      if (!match) {
+        error(line, `Invalid interface name "${words.slice(1).join(' ')}"`);
+        return { kind: 'skip' };
+      }
+      const short = abbreviateInterfaceName(`${match[1]}${match[2]}`);
+      // Port-channels are built from the channel-group commands of their member ports
+      if (/^port-channel$/i.test(match[1]) && !match[3]) {
+        return { kind: 'skip' };
+      }
+      const sviVlan = match[3] ? undefined : parseSviName(short);
+      if (sviVlan !== undefined && !isVlanId(String(sviVlan))) {
+        error(line, 'VLAN ID must be between 1 and 4094');
+        return { kind: 'skip' };
+      }
+      if (sviVlan !== undefined) {
+        const svi: InterfaceDraft = { name: `Vlan${sviVlan}`, line, shutdown: false, switchportLines: [], ipv6Lines: [] };
+        draft.interfaces = draft.interfaces.filter(i => i.name !== svi.name);
+        draft.interfaces.push(svi);
+        return { kind: 'interface', iface: svi };
+      }
+      if (!/^(Fa|Gi|Te|Eth|Se)\d/.test(short) || (match[3] && short.startsWith('Se'))) {
+        unsupported(line, `Interface type ${match[1]}${match[3] ? ' subinterfaces' : ''} is not supported by the simulator`);
+        return { kind: 'skip' };
+      }
+      const iface: InterfaceDraft = { name: `${short}${match[3] ?? ''}`, line, shutdown: false, switchportLines: [], ipv6Lines: [] };
+      draft.interfaces = draft.interfaces.filter(i => i.name !== iface.name);
+      draft.interfaces.push(iface);
+      return { kind: 'interface', iface };
+    }
+
+    case 'router':
+      if (lower[1] === 'ospf') {
+        if (words.length !== 3 || !/^\d+$/.test(words[2]) || Number(words[2]) < 1 || Number(words[2]) > 65535) {
+          error(line, 'OSPF process ID must be between 1 and 65535');
+          return { kind: 'skip' };
+        }
+        draft.ospf = { processId: Number(words[2]), networks: [] };
+        draft.ospfLine = line;
+        return { kind: 'router', ospf: draft.ospf };
+      }
+      if (lower[1] === 'rip' && words.length === 2) {
+        draft.rip = { version: 2, networks: [] };
+        draft.ripLine = line;
+        return { kind: 'rip', rip: draft.rip };
+      }
+      if (lower[1] === 'bgp') {
+        if (words.length !== 3 || !/^\d+$/.test(words[2]) || Number(words[2]) < 1 || Number(words[2]) > 4294967295) {
+          error(line, 'BGP AS number must be between 1 and 4294967295');
+          return { kind: 'skip' };
+        }
+        draft.bgp = { asn: Number(words[2]), neighbors: [], networks: [] };
+        draft.bgpLine = line;
+        return { kind: 'bgp', bgp: draft.bgp };
+      }
+      unsupported(line, `Routing protocol "${words[1] ?? ''}" is not supported by the simulator`);
+      return { kind: 'skip' };
+
+    case 'spanning-tree':
+      return parseSpanningTreeCommand(words, lower, line, draft, error, unsupported);
+
+    case 'errdisable': {
+      const recovery = draft.errdisable ?? { causes: [], interval: ERRDISABLE_DEFAULT_RECOVERY_INTERVAL };
+      if (lower[1] !== 'recovery' || words.length !== 4) {
+        unsupported(line);
+      } else if (lower[2] === 'cause') {
+        const cause = ERRDISABLE_CAUSES.find(c => c === lower[3]);
+        if (!cause) {
+          unsupported(line, `Err-disable cause "${words[3]}" is not modelled by the simulator`);
+        } else if (!recovery.causes.includes(cause)) {
+          recovery.causes.push(cause);
+        }
+      } else if (lower[2] === 'interval') {
+        if (!/^\d+$/.test(words[3]) || Number(words[3]) < 30 || Number(words[3]) > 86400) {
+          error(line, 'Recovery interval must be between 30 and 86400 seconds');
+        } else {
+          recovery.interval = Number(words[3]);
+        }
+      } else {
+        unsupported(line);
+      }
+      draft.errdisable = recovery;
+      draft.errdisableLines.push(line);
+      return { kind: 'global' };
+    }
+
+    case 'access-list': {
+      draft.aclLines.push(line);
+      const type = getNumberedAclType(words[1] ?? '');
+      if (!type) {
+        error(line, 'Expected "access-list <1-99|100-199|1300-1999|2000-2699> {permit|deny} ..."');
+      } else {
+        const acl = getDraftAcl(draft, words[1], type, line, error);
+        if (acl) parseAclEntryCommand(acl, words.slice(2), lower.slice(2), line, error, unsupported);
+        // A numbered ACL only comes to exist with its first valid entry
+        draft.accessLists = draft.accessLists.filter(a => a !== acl || a.entries.length > 0);
+      }
+      return { kind: 'global' };
+    }
+
+    case 'ip':
+      if (lower[1] === 'routing' && words.length === 2) {
+        draft.ipRouting = true;
+        draft.ipRoutingLine = line;
+        return { kind: 'global' };
+      }
+      if (lower[1] === 'route') {
+        if (words.length < 5) {
+          error(line, 'Expected "ip route <network> <mask> <next-hop>"');
+        } else if (!isIpAddress(words[2]) || !isSubnetMask(words[3])) {
+          error(line, 'Invalid destination network or mask');
+        } else if (!isIpAddress(words[4])) {
+          unsupported(line, 'Static routes to an exit interface are not supported; use a next-hop address');
+        } else {
+          draft.routes = draft.routes.filter(r => !(r.network === words[2] && r.mask === words[3]));
+          draft.routes.push({ network: words[2], mask: words[3], nextHop: words[4], interface: 'auto', metric: 1, protocol: 'static' });
+          draft.routeLines.push(line);
+        }
+        return { kind: 'global' };
+      }
+      if (lower[1] === 'nat') {
+        parseNatCommand(words, lower, line, draft, error, unsupported);
+        return { kind: 'global' };
+      }
+      if (lower[1] === 'access-list') {
+        return parseNamedAclCommand(words, lower, line, draft, error, unsupported);
+      }
+      if ((lower[1] === 'dhcp' && lower[2] === 'snooping') || (lower[1] === 'arp' && lower[2] === 'inspection')) {
+        parseSnoopingCommand(words, lower, line, draft, error, unsupported);
+        return { kind: 'global' };
+      }
+      if (lower[1] === 'dhcp') {
+        return parseDhcpServerCommand(words, lower, line, draft, error, unsupported);
+      }
+      if (lower[1] === 'default-gateway') {
+        if (words.length !== 3 || !isIpAddress(words[2])) {
+          error(line, 'Invalid default gateway address');
+        } else {
+          draft.defaultGateway = words[2];
+          draft.defaultGatewayLine = line;
+        }
+        return { kind: 'global' };
+      }
+      unsupported(line);
+      return { kind: 'global' };
+
+    case 'ipv6':
+      if (lower[1] === 'unicast-routing' && words.length === 2) {
+        draft.ipv6UnicastRouting = true;
+        draft.ipv6RoutingLines.push(line);
+      } else if (lower[1] === 'route') {
+        parseIpv6Route(words, line, draft, error);
+      } else if (lower[1] === 'default-gateway') {
+        if (words.length !== 3 || !isIpv6Address(words[2])) {
+          error(line, 'Invalid IPv6 default gateway address');
+        } else {
+          draft.ipv6DefaultGateway = IPv6AddressUtils.normalize(words[2]);
+          draft.ipv6DefaultGatewayLine = line;
+        }
+      } else {
+        unsupported(line);
+      }
+      return { kind: 'global' };
+
+    case 'vtp': {
+      const mode = Object.values(VtpMode).find(m => m === lower[2]);
+      if (words.length !== 3) {
+        unsupported(line);
+      } else if (lower[1] === 'domain') {
+        if (words[2].length > 32) error(line, 'VTP domain name must be between 1 and 32 characters');
+        else draft.vtp.domain = words[2];
+      } else if (lower[1] === 'mode') {
+        if (!mode) error(line, `VTP mode must be one of ${Object.values(VtpMode).join(', ')}`);
+        else draft.vtp.mode = mode === VtpMode.SERVER ? undefined : mode;
+      } else if (lower[1] === 'version') {
+        if (!['1', '2', '3'].includes(words[2])) error(line, 'VTP version must be 1, 2 or 3');
+        else if (words[2] === '3' && !draft.vtp.domain) error(line, 'Cannot set the version to 3 because domain name is not configured');
+        else draft.vtp.version = words[2] === '1' ? undefined : Number(words[2]) as 2 | 3;
+      } else if (lower[1] === 'password') {
+        draft.vtp.password = words[2];
+      } else {
+        unsupported(line);
+      }
+      draft.vtpLines.push(line);
+      return { kind: 'global' };
+    }
+
+    case 'port-channel': {
+      const method = ETHERCHANNEL_LOAD_BALANCE_METHODS.find(m => m === lower[2]);
+      if (lower[1] !== 'load-balance' || words.length !== 3) {
+        unsupported(line);
+      } else if (!method) {
+        error(line, `Load-balance method must be one of ${ETHERCHANNEL_LOAD_BALANCE_METHODS.join(', ')}`);
+      } else {
+        draft.loadBalance = method;
+        draft.loadBalanceLine = line;
+      }
+      return { kind: 'global' };
+    }
+
+    case 'no':
+      if (lower[1] === 'ip' && ((lower[2] === 'dhcp' && lower[3] === 'snooping') || (lower[2] === 'arp' && lower[3] === 'inspection'))) {
+        parseSnoopingCommand(words, lower, line, draft, error, unsupported);
+      } else if (lower[1] === 'port-channel' && lower[2] === 'load-balance') {
+        draft.loadBalance = undefined;
+        draft.loadBalanceLine = line;
+      } else if (lower[1] === 'vtp' && (lower[2] === 'password' || lower[2] === 'mode' || lower[2] === 'version') && words.length === 3) {
+        draft.vtp[lower[2]] = undefined;
+        draft.vtpLines.push(line);
+      } else if (lower[1] === 'ip' && lower[2] === 'routing' && words.length === 3) {
+        draft.ipRouting = false;
+        draft.ipRoutingLine = line;
+      } else {
+        unsupported(line);
+      }
+      return { kind: 'global' };
+
+    default:
+      unsupported(line);
+      // Unknown blocks (line con 0, banner, ...) have their sub-commands skipped silently
+      return { kind: 'skip' };
+  }
+};
+
+const parseIpv6Route = (
+  words: string[],
+  line: number,
+  draft: DeviceDraft,
+  error: (line: number, message: string) => void
+): void => {
+  const cidr = words[2] ? IPv6AddressUtils.parseCidr(words[2]) : null;
+  if (words.length < 4 || words.length > 5 || !cidr) {
+    error(line, 'Expected "ipv6 route <prefix>/<length> {<interface> [<next-hop>] | <next-hop>}"');
+    return;
+  }
+  const exitInterface = isIpv6Address(words[3]) ? undefined : abbreviateInterfaceName(words[3]);
+  const nextHop = exitInterface ? words[4] : words[3];
+  if ((exitInterface && nextHop && !isIpv6Address(nextHop)) || (!exitInterface && words.length === 5)) {
+    error(line, 'Invalid IPv6 next-hop address');
+    return;
+  }
+  if (!exitInterface && IPv6AddressUtils.isLinkLocal(nextHop)) {
+    error(line, 'Interface has to be specified for a link-local nexthop');
+    return;
+  }
+
+  const prefix = IPv6AddressUtils.getPrefix(cidr.address, cidr.prefixLength);
+  draft.ipv6Routes = draft.ipv6Routes.filter(r => !(r.prefix === prefix && r.prefixLength === cidr.prefixLength));
+  draft.ipv6Routes.push({
+    prefix,
+    prefixLength: cidr.prefixLength,
+    nextHop: nextHop ? IPv6AddressUtils.normalize(nextHop) : undefined,
+    interface: exitInterface,
+  });
+  draft.ipv6RoutingLines.push(line);
+};
+
+/**
+ * ACL of the configuration being parsed, created on first use; undefined after reporting an
+ * ACL of the other type with the same name
+ */
+const getDraftAcl = (
+  draft: DeviceDraft,
+  name: string,
+  type: AccessListType,
+  line: number,
+  error: (line: number, message: string) => void
+): AccessListConfig | undefined => {
+  const existing = draft.accessLists.find(acl => acl.name === name);
+  if (existing && existing.type !== type) {
+    error(line, `${name} is ${existing.type === 'standard' ? 'a standard' : 'an extended'} access list`);
+    return undefined;
+  }
+  if (existing) return existing;
+  const acl: AccessListConfig = { name, type, entries: [] };
+  draft.accessLists.push(acl);
+  return acl;
+};
+
+const parseNamedAclCommand = (
+  words: string[],
+  lower: string[],
+  line: number,
+  draft: DeviceDraft,
+  error: (line: number, message: string) => void,
+  unsupported: (line: number, message?: string) => void
+): ParseContext => {
+  if (lower[2] !== 'standard' && lower[2] !== 'extended') {
+    unsupported(line);
+    return { kind: 'skip' };
+  }
+  draft.aclLines.push(line);
+  const type: AccessListType = lower[2];
+  if (words.length !== 4) {
+    error(line, `Expected "ip access-list ${type} <name>"`);
+    return { kind: 'skip' };
+  }
+  if (isNumberedAcl(words[3]) && getNumberedAclType(words[3]) !== type) {
+    error(line, `Access list ${words[3]} is not a valid ${type} access list number`);
+    return { kind: 'skip' };
+  }
+  const acl = getDraftAcl(draft, words[3], type, line, error);
+  return acl ? { kind: 'acl', acl } : { kind: 'skip' };
+};
+
+/**
+ * "[<sequence>] {permit|deny} ..." of an ACL, or a remark, which is not kept
+ */
+const parseAclEntryCommand = (
+  acl: AccessListConfig,
+  words: string[],
+  lower: string[],
+  line: number,
+  error: (line: number, message: string) => void,
+  unsupported: (line: number, message?: string) => void
+): void => {
+  if (lower[0] === 'remark') {
+    unsupported(line, 'Access list remarks are not kept by the simulator');
+    return;
+  }
+  const sequenced = /^\d+$/.test(words[0] ?? '');
+  const action = lower[sequenced ? 1 : 0];
+  if (action !== 'permit' && action !== 'deny') {
+    error(line, 'Expected "[<sequence>] {permit|deny} ..."');
+    return;
+  }
+  const sequenceNumber = sequenced ? Number(words[0]) : nextAclSequence(acl);
+  if (acl.entries.some(e => e.sequenceNumber === sequenceNumber)) {
+    error(line, `Duplicate sequence number ${sequenceNumber} in access list ${acl.name}`);
+    return;
+  }
+  const entry = parseAclEntry(acl.type, action, words.slice(sequenced ? 2 : 1));
+  if (typeof entry === 'string') {
+    error(line, entry);
+    return;
+  }
+  acl.entries = [...acl.entries, { ...entry, sequenceNumber }].sort((a, b) => a.sequenceNumber - b.sequenceNumber);
+};
+
+const parseNatCommand = (
+  words: string[],
+  lower: string[],
+  line: number,
+  draft: DeviceDraft,
+  error: (line: number, message: string) => void,
+  unsupported: (line: number, message?: string) => void
+): void => {
+  const nat = draft.nat;
+  draft.natLines.push(line);
+
+  if (lower[2] === 'pool') {
+    if (words.length !== 8 || lower[6] !== 'netmask') {
+      error(line, 'Expected "ip nat pool <name> <start-ip> <end-ip> netmask <mask>"');
+    } else if (!isIpAddress(words[4]) || !isIpAddress(words[5]) || !isSubnetMask(words[7])) {
+      error(line, 'Invalid pool address range or netmask');
+    } else {
+      nat.pools = nat.pools.filter(p => p.name !== words[3]);
+      nat.pools.push({ name: words[3], startIp: words[4], endIp: words[5], netmask: words[7] });
+    }
+    return;
+  }
+
+  if (lower[2] !== 'inside' || lower[3] !== 'source') {
+    unsupported(line, 'Only inside source translation is supported by the simulator');
+    return;
+  }
+
+  if (lower[4] === 'static') {
+    if (words.length !== 7) {
+      unsupported(line, 'Only "ip nat inside source static <local-ip> <global-ip>" is supported');
+    } else if (!isIpAddress(words[5]) || !isIpAddress(words[6])) {
+      error(line, 'Invalid inside local or inside global address');
+    } else {
+      nat.staticEntries = nat.staticEntries.filter(e => e.insideLocal !== words[5]);
+      nat.staticEntries.push({ insideLocal: words[5], insideGlobal: words[6] });
+    }
+    return;
+  }
+
+  if (lower[4] !== 'list' || words.length < 8) {
+    error(line, 'Expected "ip nat inside source list <acl> {pool <name> | interface <interface>} [overload]"');
+    return;
+  }
+  const overload = lower[lower.length - 1] === 'overload';
+  const target = words.slice(7, overload ? -1 : undefined).join('');
+  if (!target) {
+    error(line, `Missing ${lower[6]} name`);
+  } else if (lower[6] === 'pool') {
+    nat.dynamicRules = nat.dynamicRules.filter(r => r.aclName !== words[5]);
+    nat.dynamicRules.push({ aclName: words[5], pool: target, overload });
+  } else if (lower[6] === 'interface') {
+    if (!overload) {
+      unsupported(line, 'Translating to an interface address requires overload');
+      return;
+    }
+    nat.dynamicRules = nat.dynamicRules.filter(r => r.aclName !== words[5]);
+    nat.dynamicRules.push({ aclName: words[5], interface: abbreviateInterfaceName(target), overload });
+  } else {
+    unsupported(line);
+  }
+};
+
+/**
+ * [no] ip dhcp snooping [vlan <list> | verify mac-address] and [no] ip arp inspection vlan <list>
+ */
+const parseSnoopingCommand = (
+  words: string[],
+  lower: string[],
+  line: number,
+  draft: DeviceDraft,
+  error: (line: number, message: string) => void,
+  unsupported: (line: number, message?: string) => void
+): void => {
+  const negate = lower[0] === 'no';
+  const args = lower.slice(negate ? 1 : 0);
+  const vlanArg = words[negate ? 5 : 4];
+  draft.snoopingLines.push(line);
+
+  if (args[1] === 'arp') {
+    if (args[3] !== 'vlan' || args.length !== 5) {
+      unsupported(line, 'Only "ip arp inspection vlan <vlan-list>" is supported');
+    } else if (!isVlanList(vlanArg)) {
+      error(line, 'Invalid VLAN list');
+    } else {
+      const vlanIds = parseVlanList(vlanArg);
+      const current = draft.arpInspectionVlans ?? [];
+      draft.arpInspectionVlans = negate
+        ? current.filter(v => !vlanIds.includes(v))
+        : Array.from(new Set([...current, ...vlanIds])).sort((a, b) => a - b);
+    }
+    return;
+  }
+
+  const snooping: DhcpSnoopingConfig = draft.dhcpSnooping ?? { enabled: false, vlans: [], verifyMacAddress: true };
+  if (args.length === 3) {
+    snooping.enabled = !negate;
+  } else if (args[3] === 'vlan' && args.length === 5) {
+    if (!isVlanList(vlanArg)) {
+      error(line, 'Invalid VLAN list');
+    } else {
+      const vlanIds = parseVlanList(vlanArg);
+      snooping.vlans = negate
+        ? snooping.vlans.filter(v => !vlanIds.includes(v))
+        : Array.from(new Set([...snooping.vlans, ...vlanIds])).sort((a, b) => a - b);
+    }
+  } else if (args[3] === 'verify' && args[4] === 'mac-address' && args.length === 5) {
+    snooping.verifyMacAddress = !negate;
+  } else {
+    unsupported(line, `DHCP snooping option "${words.slice(negate ? 4 : 3).join(' ')}" is not modelled by the simulator`);
+  }
+  draft.dhcpSnooping = snooping;
+};
+
+const parseDhcpServerCommand = (
+  words: string[],
+  lower: string[],
+  line: number,
+  draft: DeviceDraft,
+  error: (line: number, message: string) => void,
+  unsupported: (line: number, message?: string) => void
+): ParseContext => {
+  const dhcp = draft.dhcpServer;
+
+  if (lower[2] === 'excluded-address') {
+    draft.dhcpLines.push(line);
+    const [start, end = start] = words.slice(3);
+    if (words.length < 4 || words.length > 5 || !isIpAddress(start) || !isIpAddress(end)) {
+      error(line, 'Expected "ip dhcp excluded-address <low-ip> [<high-ip>]"');
+    } else if ((IPAddressUtils.ipToNumber(start) >>> 0) > (IPAddressUtils.ipToNumber(end) >>> 0)) {
+      error(line, `High address ${end} is below low address ${start}`);
+    } else {
+      dhcp.excludedRanges = dhcp.excludedRanges.filter(r => !(r.start === start && r.end === end)).concat({ start, end });
+    }
+    return { kind: 'global' };
+  }
+
+  if (lower[2] === 'pool') {
+    draft.dhcpLines.push(line);
+    if (words.length !== 4) {
+      error(line, 'Expected "ip dhcp pool <name>"');
+      return { kind: 'skip' };
+    }
+    const pool: DhcpPoolConfig = { name: words[3] };
+    dhcp.pools = dhcp.pools.filter(p => p.name !== pool.name).concat(pool);
+    return { kind: 'dhcp-pool', pool };
+  }
+
+  unsupported(line);
+  return { kind: 'global' };
+};
+
+const parseDhcpPoolCommand = (
+  pool: DhcpPoolConfig,
+  words: string[],
+  lower: string[],
+  line: number,
+  error: (line: number, message: string) => void,
+  unsupported: (line: number, message?: string) => void
+): void => {
+  if (lower[0] === 'network') {
+    if (words.length !== 3 || !isIpAddress(words[1]) || !isSubnetMask(words[2])) {
+      error(line, 'Expected "network <address> <mask>"');
+    } else {
+      pool.network = IPAddressUtils.numberToIp(IPAddressUtils.ipToNumber(words[1]) & IPAddressUtils.ipToNumber(words[2]));
+      pool.mask = words[2];
+    }
+  } else if (lower[0] === 'default-router') {
+    if (words.length !== 2 || !isIpAddress(words[1])) {
+      error(line, 'Expected "default-router <address>"');
+    } else {
+      pool.defaultRouter = words[1];
+    }
+  } else if (lower[0] === 'dns-server') {
+    const servers = words.slice(1);
+    if (servers.length === 0 || servers.length > 8 || !servers.every(isIpAddress)) {
+      error(line, 'Expected "dns-server <address> [<address> ...]" with up to 8 addresses');
+    } else {
+      pool.dnsServers = servers;
+    }
+  } else if (lower[0] === 'lease') {
+    const values = words.slice(1);
+    if (values.length === 1 && lower[1] === 'infinite') {
+      pool.leaseTime = DHCP_INFINITE_LEASE;
+    } else if (values.length < 1 || values.length > 3 || !values.every(v => /^\d+$/.test(v))) {
+      error(line, 'Expected "lease {<days> [<hours> [<minutes>]] | infinite}"');
+    } else {
+      const [days, hours = 0, minutes = 0] = values.map(Number);
+      const seconds = ((days * 24 + hours) * 60 + minutes) * 60;
+      if (days > 365 || hours > 23 || minutes > 59 || seconds === 0) {
+        error(line, 'Lease must be 0-365 days, 0-23 hours and 0-59 minutes, and not zero');
+      } else {
+        pool.leaseTime = seconds;
+      }
+    }
+  } else {
+    unsupported(line);
+  }
+};
+
+const parseSpanningTreeCommand = (
+  words: string[],
+  lower: string[],
+  line: number,
+  draft: DeviceDraft,
+  error: (line: number, message: string) => void,
+  unsupported: (line: number, message?: string) => void
+): ParseContext => {
+  const stp = draft.stp ?? { mode: 'pvst', vlanPriorities: {} };
+  const global: ParseContext = { kind: 'global' };
+
+  if (lower[1] === 'mode' && words.length === 3) {
+    if (lower[2] !== 'pvst' && lower[2] !== 'rapid-pvst' && lower[2] !== 'mst') {
+      unsupported(line, `Spanning tree mode "${words[2]}" is not supported by the simulator`);
+      return global;
+    }
+    stp.mode = lower[2];
+  } else if (lower[1] === 'extend' && lower[2] === 'system-id') {
+    return global;
+  } else if (lower[1] === 'mst' && lower[2] === 'configuration' && words.length === 3) {
+    stp.mst = { name: '', revision: 0, instances: {}, priorities: {}, ...stp.mst };
+    draft.stp = stp;
+    draft.stpLines.push(line);
+    return { kind: 'mst', mst: stp.mst };
+  } else if (lower[1] === 'mst' && lower[3] === 'priority' && words.length === 5) {
+    const priority = Number(words[4]);
+    if (!isVlanList(words[2]) || parseVlanList(words[2]).some(id => id > 4094)) {
+      error(line, 'MST instance must be between 0 and 4094');
+      return global;
+    }
+    if (!/^\d+$/.test(words[4]) || priority > 61440 || priority % STP_BRIDGE_PRIORITY_STEP !== 0) {
+      error(line, `Bridge priority must be 0-61440 in increments of ${STP_BRIDGE_PRIORITY_STEP}`);
+      return global;
+    }
+    stp.mst = { name: '', revision: 0, instances: {}, priorities: {}, ...stp.mst };
+    const priorities = stp.mst.priorities;
+    parseVlanList(words[2]).forEach(id => { priorities[id] = priority; });
+  } else if (lower[1] === 'vlan' && lower[3] === 'priority' && words.length === 5) {
+    const priority = Number(words[4]);
+    if (!isVlanList(words[2]) || parseVlanList(words[2]).some(id => id < 1 || id > 4094)) {
+      error(line, 'VLAN ID must be between 1 and 4094');
+      return global;
+    }
+    if (!/^\d+$/.test(words[4]) || priority > 61440 || priority % STP_BRIDGE_PRIORITY_STEP !== 0) {
+      error(line, `Bridge priority must be 0-61440 in increments of ${STP_BRIDGE_PRIORITY_STEP}`);
+      return global;
+    }
+    parseVlanList(words[2]).forEach(id => { stp.vlanPriorities[id] = priority; });
+  } else {
+    unsupported(line);
+    return global;
+  }
+
+  draft.stp = stp;
+  draft.stpLines.push(line);
+  return global;
+};
+
+const parseSubCommand = (
+  context: ParseContext,
+  words: string[],
+  lower: string[],
+  line: number,
+  draft: DeviceDraft,
+  error: (line: number, message: string) => void,
+  unsupported: (line: number, message?: string) => void
+): void => {
+  switch (context.kind) {
+    case 'mst':
+      if (lower[0] === 'name' && words.length === 2) {
+        if (words[1].length > 32) {
+          error(line, 'MST region name must be 32 characters or fewer');
+          return;
+        }
+        context.mst.name = words[1];
+      } else if (lower[0] === 'revision' && words.length === 2) {
+        if (!/^\d+$/.test(words[1]) || Number(words[1]) > 65535) {
+          error(line, 'MST revision must be between 0 and 65535');
+          return;
+        }
+        context.mst.revision = Number(words[1]);
+      } else if (lower[0] === 'instance' && lower[2] === 'vlan' && words.length === 4) {
+        const instance = Number(words[1]);
+        if (!/^\d+$/.test(words[1]) || instance < 1 || instance > 4094) {
+          error(line, 'MST instance must be between 1 and 4094');
+          return;
+        }
+        if (!isVlanList(words[3]) || parseVlanList(words[3]).some(id => id < 1 || id > 4094)) {
+          error(line, 'VLAN ID must be between 1 and 4094');
+          return;
+        }
+        const vlans = parseVlanList(words[3]);
+        const instances = context.mst.instances;
+        Object.keys(instances).forEach(id => {
+          instances[Number(id)] = instances[Number(id)].filter(v => !vlans.includes(v));
+        });
+        instances[instance] = Array.from(new Set([...(instances[instance] ?? []), ...vlans])).sort((a, b) => a - b);
+        Object.keys(instances).forEach(id => {
+          if (instances[Number(id)].length === 0) delete instances[Number(id)];
+        });
+      } else {
+        unsupported(line);
+        return;
+      }
+      draft.stpLines.push(line);
+      return;
+
+    case 'vlan':
+      if (lower[0] === 'name' && words.length >= 2) {
+        const name = words.slice(1).join(' ');
+        if (name.length > 32) {
+          error(line, 'VLAN name must be 32 characters or fewer');
+          return;
+        }
+        context.vlanIds.forEach(id => {
+          const entry = draft.vlans.get(id);
+          if (entry) entry.name = name;
+        });
+      } else {
+        unsupported(line);
+      }
+      return;
+
+    case 'router':
+      if (lower[0] === 'router-id') {
+        if (words.length !== 2 || !isIpAddress(words[1])) {
+          error(line, 'Router ID must be an IPv4 address');
+        } else {
+          context.ospf.routerId = words[1];
+        }
+      } else if (lower[0] === 'network') {
+        if (words.length !== 5 || lower[3] !== 'area') {
+          error(line, 'Expected "network <address> <wildcard> area <area-id>"');
+        } else if (!isIpAddress(words[1]) || !isWildcardMask(words[2])) {
+          error(line, 'Invalid network address or wildcard mask');
+        } else if (!/^\d+$/.test(words[4]) && !isIpAddress(words[4])) {
+          error(line, 'Area ID must be a number or dotted decimal');
+        } else {
+          context.ospf.networks.push({ network: words[1], wildcard: words[2], area: words[4] });
+        }
+      } else {
+        unsupported(line);
+      }
+      return;
+
+    case 'rip':
+      if (lower[0] === 'version' && words.length === 2) {
+        if (words[1] !== '2') {
+          unsupported(line, 'Only RIP version 2 is supported by the simulator');
+        }
+      } else if (lower[0] === 'network') {
+        if (words.length !== 2 || !isIpAddress(words[1])) {
+          error(line, 'Expected "network <address>"');
+        } else {
+          const network = getClassfulNetwork(words[1]);
+          context.rip.networks = context.rip.networks.filter(n => n !== network).concat(network);
+        }
+      } else if (lower[0] === 'timers' && lower[1] === 'basic') {
+        const values = words.slice(2);
+        if (values.length !== 4 || !values.every(v => /^\d+$/.test(v))) {
+          error(line, 'Expected "timers basic <update> <invalid> <holddown> <flush>"');
+        } else {
+          const [update, invalid, holddown, flush] = values.map(Number);
+          context.rip.timers = { update, invalid, holddown, flush };
+        }
+      } else if (lower.join(' ') !== 'no auto-summary') {
+        unsupported(line);
+      }
+      return;
+
+    case 'bgp':
+      parseBgpCommand(context.bgp, words, lower, line, error, unsupported);
+      return;
+
+    case 'dhcp-pool':
+      parseDhcpPoolCommand(context.pool, words, lower, line, error, unsupported);
+      return;
+
+    case 'acl':
+      parseAclEntryCommand(context.acl, words, lower, line, error, unsupported);
+      return;
+
+    case 'interface':
+      parseInterfaceCommand(context.iface, words, lower, line, error, unsupported);
+      return;
+
+    default:
+      return;
+  }
+};
+
+const parseBgpCommand = (
+  bgp: BgpProcessConfig,
+  words: string[],
+  lower: string[],
+  line: number,
+  error: (line: number, message: string) => void,
+  unsupported: (line: number, message?: string) => void
+): void => {
+  if (lower[0] === 'bgp') {
+    if (lower[1] === 'router-id') {
+      if (words.length !== 3 || !isIpAddress(words[2])) {
+        error(line, 'Router ID must be an IPv4 address');
+      } else {
+        bgp.routerId = words[2];
+      }
+    } else if (lower[1] === 'default' && lower[2] === 'local-preference') {
+      if (words.length !== 4 || !/^\d+$/.test(words[3])) {
+        error(line, 'Expected "bgp default local-preference <value>"');
+      } else {
+        bgp.defaultLocalPreference = Number(words[3]);
+      }
+    } else if (lower[1] !== 'log-neighbor-changes') {
+      unsupported(line);
+    }
+    return;
+  }
+
+  if (lower[0] === 'network') {
+    if (words.length !== 4 || lower[2] !== 'mask') {
+      error(line, 'Expected "network <address> mask <mask>"');
+    } else if (!isIpAddress(words[1]) || !isSubnetMask(words[3])) {
+      error(line, 'Invalid network address or mask');
+    } else {
+      bgp.networks = bgp.networks
+        .filter(n => !(n.network === words[1] && n.mask === words[3]))
+        .concat({ network: words[1], mask: words[3] });
+    }
+    return;
+  }
+
+  if (lower[0] !== 'neighbor') {
+    unsupported(line);
+    return;
+  }
+  if (words.length < 3 || !isIpAddress(words[1])) {
+    error(line, 'Expected "neighbor <address> ..."');
+    return;
+  }
+
+  const address = words[1];
+  const neighbor = bgp.neighbors.find(n => n.address === address);
+  if (lower[2] === 'remote-as') {
+    if (words.length !== 4 || !/^\d+$/.test(words[3]) || Number(words[3]) < 1 || Number(words[3]) > 4294967295) {
+      error(line, 'Remote AS must be between 1 and 4294967295');
+    } else if (neighbor) {
+      neighbor.remoteAs = Number(words[3]);
+    } else {
+      bgp.neighbors.push({ address, remoteAs: Number(words[3]) });
+    }
+    return;
+  }
+  if (!neighbor) {
+    error(line, `Specify remote-as for neighbor ${address} first`);
+    return;
+  }
+
+  if (lower[2] === 'description' && words.length > 3) {
+    neighbor.description = words.slice(3).join(' ');
+  } else if (lower[2] === 'shutdown' && words.length === 3) {
+    neighbor.shutdown = true;
+  } else if (lower[2] === 'next-hop-self' && words.length === 3) {
+    neighbor.nextHopSelf = true;
+  } else {
+    unsupported(line);
+  }
+};
+
+const parseInterfaceCommand = (
+  iface: InterfaceDraft,
+  words: string[],
+  lower: string[],
+  line: number,
+  error: (line: number, message: string) => void,
+  unsupported: (line: number, message?: string) => void
+): void => {
+  const command = lower.join(' ');
+  const snoopingPort = SNOOPING_PORT_COMMANDS.find(s => s.command === command.replace(/^no /, ''));
+
+  if (lower[0] === 'description') {
+    iface.description = words.slice(1).join(' ');
+  } else if (command === 'shutdown') {
+    iface.shutdown = true;
+  } else if (command === 'no shutdown') {
+    iface.shutdown = false;
+  } else if (command === 'no ip address') {
+    iface.ipAddress = undefined;
+    iface.dhcpClient = undefined;
+  } else if (command === 'ip address dhcp') {
+    iface.ipAddress = undefined;
+    iface.dhcpClient = true;
+    iface.ipLine = line;
+  } else if (lower[0] === 'ip' && lower[1] === 'address') {
+    if (words.length !== 4) {
+      unsupported(line, 'Only "ip address <address> <mask>" is supported');
+    } else if (!isIpAddress(words[2]) || !isSubnetMask(words[3])) {
+      error(line, 'Invalid IP address or subnet mask');
+    } else {
+      iface.ipAddress = `${words[2]}/${SubnetCalculator.maskToPrefix(words[3])}`;
+      iface.dhcpClient = undefined;
+      iface.ipLine = line;
+    }
+  } else if (lower[0] === 'ip' && lower[1] === 'helper-address') {
+    if (words.length !== 3 || !isIpAddress(words[2])) {
+      error(line, 'Expected "ip helper-address <address>"');
+    } else {
+      iface.helperAddresses = (iface.helperAddresses ?? []).filter(a => a !== words[2]).concat(words[2]);
+      iface.helperLine = iface.helperLine ?? line;
+    }
+  } else if (lower[0] === 'no' && lower[1] === 'ip' && lower[2] === 'helper-address') {
+    const remaining = words[3] ? (iface.helperAddresses ?? []).filter(a => a !== words[3]) : [];
+    iface.helperAddresses = remaining.length > 0 ? remaining : undefined;
+  } else if (lower[0] === 'ip' && lower[1] === 'access-group') {
+    const direction = lower[3];
+    if (words.length !== 4 || (direction !== 'in' && direction !== 'out')) {
+      error(line, 'Expected "ip access-group <acl> {in | out}"');
+    } else {
+      iface.accessGroups = { ...iface.accessGroups, [direction]: words[2] };
+      iface.accessGroupLine = iface.accessGroupLine ?? line;
+    }
+  } else if (lower[0] === 'no' && lower[1] === 'ip' && lower[2] === 'access-group') {
+    const direction = lower[lower.length - 1];
+    if (iface.accessGroups && (direction === 'in' || direction === 'out')) {
+      delete iface.accessGroups[direction];
+    }
+  } else if (lower[0] === 'standby' || lower[0] === 'vrrp' || (lower[0] === 'no' && (lower[1] === 'standby' || lower[1] === 'vrrp'))) {
+    parseFhrpCommand(iface, words, lower, line, error, unsupported);
+} else if (lower[0] === 'ipv6' || (lower[0] === 'no' && lower[1] === 'ipv6')) {
+    parseIpv6InterfaceCommand(iface, words, lower, line, error, unsupported);
+  } else if (lower[0] === 'channel-group') {
+    const mode = CHANNEL_GROUP_MODES.find(m => m === lower[3]);
+    if (words.length !== 4 || lower[2] !== 'mode' || !mode) {
+      error(line, 'Expected "channel-group <1-48> mode {active | passive | desirable | auto | on}"');
+    } else if (!/^\d+$/.test(words[1]) || Number(words[1]) < 1 || Number(words[1]) > 48) {
+      error(line, 'Channel group must be between 1 and 48');
+    } else {
+      iface.channelGroup = { group: Number(words[1]), mode };
+      iface.channelGroupLine = line;
+    }
+  } else if (lower[0] === 'no' && lower[1] === 'channel-group') {
+    iface.channelGroup = undefined;
+  } else if (lower[0] === 'encapsulation') {
+    if (lower[1] !== 'dot1q') {
+      unsupported(line, 'Only 802.1Q encapsulation is supported');
+    } else if (words.length < 3 || words.length > 4 || (words.length === 4 && lower[3] !== 'native')) {
+      error(line, 'Expected "encapsulation dot1Q <vlan-id> [native]"');
+    } else if (!/^\d+$/.test(words[2]) || Number(words[2]) < 1 || Number(words[2]) > 4094) {
+      error(line, 'VLAN ID must be between 1 and 4094');
+    } else {
+      iface.encapsulation = lower[3] === 'native' ? { vlanId: Number(words[2]), native: true } : { vlanId: Number(words[2]) };
+      iface.encapsulationLine = line;
+    }
+  } else if (lower[0] === 'no' && lower[1] === 'encapsulation') {
+    iface.encapsulation = undefined;
+  } else if (lower[0] === 'switchport' && lower[1] === 'port-security') {
+    iface.switchportLines.push(line);
+    parsePortSecurityCommand(iface, words, lower, line, error, unsupported);
+  } else if (command === 'no switchport') {
+    iface.routed = true;
+    iface.routedLine = line;
+  } else if (command === 'switchport' || command === 'switchport trunk encapsulation dot1q') {
+    iface.switchportLines.push(line);
+    iface.routed = command === 'switchport' ? false : iface.routed;
+  } else if (lower[0] === 'switchport' && lower[1] === 'mode') {
+    iface.switchportLines.push(line);
+    const mode = SWITCHPORT_MODES.find(m => m === lower.slice(2).join('-'));
+    if (mode) {
+      iface.mode = mode;
+    } else {
+      unsupported(line, `Switchport mode "${words.slice(2).join(' ')}" is not supported by the simulator`);
+    }
+  } else if (command === 'switchport nonegotiate' || command === 'no switchport nonegotiate') {
+    iface.switchportLines.push(line);
+    iface.nonegotiate = lower[0] !== 'no';
+    iface.nonegotiateLine = line;
+  } else if (lower[0] === 'switchport' && lower[1] === 'access' && lower[2] === 'vlan') {
+    iface.switchportLines.push(line);
+    if (words.length !== 4 || !isVlanId(words[3])) {
+      error(line, 'Access VLAN must be between 1 and 4094');
+    } else {
+      iface.accessVlan = Number(words[3]);
+    }
+  } else if (lower[0] === 'switchport' && lower[1] === 'trunk' && lower[2] === 'native' && lower[3] === 'vlan') {
+    iface.switchportLines.push(line);
+    if (words.length !== 5 || !isVlanId(words[4])) {
+      error(line, 'Native VLAN must be between 1 and 4094');
+    } else {
+      iface.nativeVlan = Number(words[4]);
+    }
+  } else if (lower[0] === 'switchport' && lower[1] === 'trunk' && lower[2] === 'allowed' && lower[3] === 'vlan') {
+    iface.switchportLines.push(line);
+    parseAllowedVlans(iface, words.slice(4), line, error);
+  } else if (lower[0] === 'ip' && lower[1] === 'ospf') {
+    const setting = OSPF_INTERFACE_KEYWORDS.find(k => k.keyword === lower[2]);
+    if (!setting || words.length !== 4) {
+      unsupported(line);
+    } else if (!/^\d+$/.test(words[3]) || Number(words[3]) < setting.min || Number(words[3]) > setting.max) {
+      error(line, `OSPF ${setting.keyword} must be between ${setting.min} and ${setting.max}`);
+    } else {
+      iface.ospf = { ...iface.ospf, [setting.key]: Number(words[3]) };
+      iface.ospfLine = iface.ospfLine ?? line;
+    }
+  } else if (command === 'ip nat inside' || command === 'ip nat outside') {
+    iface.nat = lower[2] as NatInterfaceRole;
+    iface.natLine = line;
+  } else if (command === 'no ip nat inside' || command === 'no ip nat outside') {
+    iface.nat = iface.nat === lower[3] ? undefined : iface.nat;
+  } else if (command === 'ip split-horizon' || command === 'no ip split-horizon') {
+    iface.splitHorizon = lower[0] !== 'no';
+    iface.splitHorizonLine = line;
+  } else if (snoopingPort) {
+    iface.snooping = { ...iface.snooping, [snoopingPort.key]: lower[0] !== 'no' };
+    iface.snoopingLine = iface.snoopingLine ?? line;
+  } else if (lower[0] === 'spanning-tree') {
+    parseSpanningTreePortCommand(iface, words, lower, line, error, unsupported);
+  } else if (lower[0] === 'speed' && words.length === 2) {
+    if (lower[1] === 'auto') {
+      iface.speed = undefined;
+    } else if (/^\d+$/.test(words[1])) {
+      iface.speed = Number(words[1]);
+    } else {
+      error(line, 'Speed must be a number in Mbps or "auto"');
+    }
+  } else if (lower[0] === 'duplex' && words.length === 2) {
+    if (lower[1] === 'full' || lower[1] === 'half') {
+      iface.duplex = lower[1];
+    } else if (lower[1] === 'auto') {
+      iface.duplex = undefined;
+    } else {
+      error(line, 'Duplex must be full, half or auto');
+    }
+  } else {
+    unsupported(line);
+  }
+};
+
+const parseIpv6InterfaceCommand = (
+  iface: InterfaceDraft,
+  words: string[],
+  lower: string[],
+  line: number,
+  error: (line: number, message: string) => void,
+  unsupported: (line: number, message?: string) => void
+): void => {
+  const command = lower.join(' ');
+  iface.ipv6Lines.push(line);
+
+  if (command === 'ipv6 enable' || command === 'no ipv6 enable') {
+    iface.ipv6Enabled = lower[0] !== 'no';
+  } else if (command === 'ipv6 address autoconfig' || command === 'no ipv6 address autoconfig') {
+    iface.ipv6Autoconfig = lower[0] !== 'no';
+    iface.ipv6AutoconfigLine = line;
+  } else if (command === 'no ipv6 address') {
+    iface.ipv6Addresses = undefined;
+    iface.ipv6Autoconfig = undefined;
+  } else if (lower[1] === 'address' && lower[3] === 'link-local' && words.length === 4) {
+    if (!isIpv6Address(words[2]) || !IPv6AddressUtils.isLinkLocal(words[2])) {
+      error(line, `${words[2]} is not a link-local address (FE80::/10)`);
+      return;
+    }
+    const address = IPv6AddressUtils.normalize(words[2]);
+    iface.ipv6Addresses = [
+      ...(iface.ipv6Addresses ?? []).filter(a => a.origin !== 'link-local' && a.address !== address),
+      { address, prefixLength: 64, origin: 'link-local' },
+    ];
+  } else if (lower[1] === 'address' && (words.length === 3 || (words.length === 4 && lower[3] === 'eui-64'))) {
+    const cidr = isIpv6Prefix(words[2]) ? IPv6AddressUtils.parseCidr(words[2]) : null;
+    if (!cidr || IPv6AddressUtils.isMulticast(cidr.address)) {
+      error(line, 'Invalid IPv6 address or prefix length');
+      return;
+    }
+    const origin = words.length === 4 ? 'eui-64' : 'manual';
+    const address = origin === 'eui-64' ? IPv6AddressUtils.getPrefix(cidr.address, cidr.prefixLength) : cidr.address;
+    iface.ipv6Addresses = [
+      ...(iface.ipv6Addresses ?? []).filter(a => !(a.address === address && a.origin === origin)),
+      { address, prefixLength: cidr.prefixLength, origin },
+    ];
+  } else {
+    unsupported(line);
+  }
+};
+
+const parsePortSecurityCommand = (
+  iface: InterfaceDraft,
+  words: string[],
+  lower: string[],
+  line: number,
+  error: (line: number, message: string) => void,
+  unsupported: (line: number, message?: string) => void
+): void => {
+  const config: PortSecurityConfig = iface.portSecurity ?? { enabled: false, maximum: 1, violation: 'shutdown', macAddresses: [] };
+  const setting = lower[2];
+
+  if (words.length === 2) {
+    config.enabled = true;
+  } else if (setting === 'maximum' && words.length === 4) {
+    if (!/^\d+$/.test(words[3]) || Number(words[3]) < 1 || Number(words[3]) > 8192) {
+      error(line, 'Maximum must be between 1 and 8192');
+    } else {
+      config.maximum = Number(words[3]);
+    }
+  } else if (setting === 'violation' && words.length === 4) {
+    const mode = PORT_SECURITY_VIOLATION_MODES.find(m => m === lower[3]);
+    if (!mode) {
+      error(line, 'Violation mode must be protect, restrict or shutdown');
+    } else {
+      config.violation = mode;
+    }
+  } else if (setting === 'mac-address' && lower[3] === 'sticky' && words.length === 4) {
+    config.sticky = true;
+  } else if (setting === 'mac-address') {
+    const sticky = lower[3] === 'sticky';
+    const [mac, vlanKeyword, vlanId] = words.slice(sticky ? 4 : 3);
+    const hasVlan = vlanKeyword?.toLowerCase() === 'vlan';
+    if (!mac || !isMacAddress(mac) || words.length !== (sticky ? 5 : 4) + (hasVlan ? 2 : 0)) {
+      error(line, 'Expected "switchport port-security mac-address [sticky] <H.H.H> [vlan <vlan-id>]"');
+    } else if (hasVlan && !isVlanId(vlanId)) {
+      error(line, 'VLAN must be between 1 and 4094');
+    } else {
+      const macAddress = parseMacAddress(mac);
+      const vlan = hasVlan ? Number(vlanId) : undefined;
+      config.macAddresses = config.macAddresses
+        .filter(a => !(a.macAddress === macAddress && a.vlanId === vlan))
+        .concat({ macAddress, vlanId: vlan, sticky: sticky || undefined });
+    }
+  } else if (setting === 'aging' && lower[3] === 'time' && words.length === 5) {
+    if (!/^\d+$/.test(words[4]) || Number(words[4]) > 1440) {
+      error(line, 'Aging time must be between 0 and 1440 minutes');
+    } else {
+      config.agingTime = Number(words[4]) || undefined;
+    }
+  } else if (setting === 'aging' && lower[3] === 'type' && words.length === 5) {
+    if (lower[4] === 'absolute' || lower[4] === 'inactivity') {
+      config.agingType = lower[4] === 'inactivity' ? 'inactivity' : undefined;
+    } else {
+      error(line, 'Aging type must be absolute or inactivity');
+    }
+  } else {
+    unsupported(line);
+    return;
+  }
+  iface.portSecurity = config;
+};
+
+const parseFhrpCommand = (
+  iface: InterfaceDraft,
+  words: string[],
+  lower: string[],
+  line: number,
+  error: (line: number, message: string) => void,
+  unsupported: (line: number, message?: string) => void
+): void => {
+  const negated = lower[0] === 'no';
+  const offset = negated ? 1 : 0;
+  const protocol = lower[offset] === 'standby' ? 'hsrp' : 'vrrp';
+  const keyword = words[offset];
+  // HSRP may leave out the group number, which then is group 0
+  const numbered = /^\d+$/.test(words[offset + 1] ?? '');
+  const group = numbered ? Number(words[offset + 1]) : 0;
+  const rest = words.slice(offset + (numbered ? 2 : 1));
+  const restLower = rest.map(w => w.toLowerCase());
+
+  if (protocol === 'vrrp' && !numbered) {
+    error(line, 'Expected "vrrp <1-255> ..."');
+    return;
+  }
+  if (group > 255 || (protocol === 'vrrp' && group < 1)) {
+    error(line, protocol === 'hsrp' ? 'HSRP group must be between 0 and 255' : 'VRRP group must be between 1 and 255');
+    return;
+  }
+
+  const groups = iface.fhrpGroups ?? [];
+  const existing = groups.find(g => g.protocol === protocol && g.group === group);
+  if (negated && rest.length === 0) {
+    iface.fhrpGroups = groups.filter(g => g !== existing);
+    return;
+  }
+  const config: FhrpGroupConfig = { ...(existing ?? { protocol, group }) };
+  const setting = restLower[0];
+
+  if (setting === 'ip' && rest.length <= 2) {
+    if (negated) {
+      config.virtualIp = undefined;
+    } else if (rest[1] !== undefined && !isIpAddress(rest[1])) {
+      error(line, 'Invalid virtual IP address');
+      return;
+    } else {
+      config.virtualIp = rest[1];
+    }
+  } else if (setting === 'ip') {
+    unsupported(line, 'Secondary virtual IP addresses are not supported by the simulator');
+    return;
+  } else if (setting === 'priority' && (negated || rest.length === 2)) {
+    const max = protocol === 'hsrp' ? 255 : 254;
+    if (negated) {
+      config.priority = undefined;
+    } else if (!/^\d+$/.test(rest[1]) || Number(rest[1]) < (protocol === 'hsrp' ? 0 : 1) || Number(rest[1]) > max) {
+      error(line, `Priority must be between ${protocol === 'hsrp' ? 0 : 1} and ${max}`);
+      return;
+    } else {
+      config.priority = Number(rest[1]);
+    }
+  } else if (setting === 'preempt' && rest.length === 1) {
+    config.preempt = protocol === 'hsrp' ? (negated ? undefined : true) : negated ? false : undefined;
+  } else if (setting === 'preempt') {
+    unsupported(line, 'Preemption delays are not supported by the simulator');
+    return;
+  } else if (setting === 'timers' && negated) {
+    config.helloTime = undefined;
+    config.holdTime = undefined;
+  } else if (setting === 'timers' && protocol === 'hsrp') {
+    const [hello, hold] = rest.slice(1).map(Number);
+    if (rest.length !== 3 || !rest.slice(1).every(w => /^\d+$/.test(w))) {
+      unsupported(line, `Only "${keyword} <group> timers <hello> <hold>" in seconds is supported`);
+      return;
+    } else if (hello < 1 || hello > 254 || hold > 255) {
+      error(line, 'Hello time must be between 1 and 254 seconds, hold time up to 255');
+      return;
+    } else if (hold <= hello) {
+      error(line, 'Hold time must be greater than hello time');
+      return;
+    }
+    config.helloTime = hello;
+    config.holdTime = hold;
+  } else if (setting === 'timers' && restLower[1] === 'advertise' && rest.length === 3) {
+    if (!/^\d+$/.test(rest[2]) || Number(rest[2]) < 1 || Number(rest[2]) > 255) {
+      error(line, 'Advertisement interval must be between 1 and 255 seconds');
+      return;
+    }
+    config.helloTime = Number(rest[2]);
+  } else if (setting === 'track' && rest.length >= 2) {
+    const hasDecrement = restLower[2] === 'decrement';
+    if (/^\d+$/.test(rest[1])) {
+      unsupported(line, 'Tracking objects are not supported by the simulator; track an interface instead');
+      return;
+    } else if (rest.length !== (hasDecrement && !negated ? 4 : 2) && !(negated && rest.length <= 4)) {
+      error(line, `Expected "${keyword} ${group} track <interface> [decrement <1-255>]"`);
+      return;
+    } else if (hasDecrement && !negated && (!/^\d+$/.test(rest[3]) || Number(rest[3]) < 1 || Number(rest[3]) > 255)) {
+      error(line, 'Decrement must be between 1 and 255');
+      return;
+    }
+    const track = (config.track ?? []).filter(t => t.interface.toLowerCase() !== restLower[1]);
+    if (!negated) track.push({ interface: rest[1], decrement: hasDecrement ? Number(rest[3]) : undefined });
+    config.track = track.length > 0 ? track : undefined;
+  } else {
+    unsupported(line);
+    return;
+  }
+
+  iface.fhrpGroups = existing ? groups.map(g => (g === existing ? config : g)) : [...groups, config];
+  iface.fhrpLine = iface.fhrpLine ?? line;
+};
+
+const parseSpanningTreePortCommand = (
+  iface: InterfaceDraft,
+  words: string[],
+  lower: string[],
+  line: number,
+  error: (line: number, message: string) => void,
+  unsupported: (line: number, message?: string) => void
+): void => {
+  const config: SpanningTreePortConfig = { ...iface.spanningTree };
+  const feature = lower[1];
+  const setting = lower[2];
+
+  if (feature === 'portfast' && (words.length === 2 || (words.length === 3 && (setting === 'edge' || setting === 'disable')))) {
+    config.portfast = setting !== 'disable' || undefined;
+  } else if ((feature === 'bpduguard' || feature === 'bpdufilter') && words.length === 3) {
+    if (setting !== 'enable' && setting !== 'disable') {
+      error(line, `Expected "spanning-tree ${feature} enable|disable"`);
+      return;
+    }
+    config[feature === 'bpduguard' ? 'bpduGuard' : 'bpduFilter'] = setting === 'enable' || undefined;
+  } else if (feature === 'guard' && words.length === 3) {
+    if (setting !== 'root' && setting !== 'loop' && setting !== 'none') {
+      error(line, 'Spanning tree guard must be root, loop or none');
+      return;
+    }
+    config.guard = setting === 'none' ? undefined : setting;
+  } else {
+    unsupported(line);
+    return;
+  }
+
+  (Object.keys(config) as Array<keyof SpanningTreePortConfig>)
+    .filter(key => !config[key])
+    .forEach(key => delete config[key]);
+  iface.spanningTree = config;
+  iface.spanningTreeLine = iface.spanningTreeLine ?? line;
+};
+
+const parseAllowedVlans = (
+  iface: InterfaceDraft,
+  args: string[],
+  line: number,
+  error: (line: number, message: string) => void
+): void => {
+  const [action, list] = args.length === 2 ? [args[0].toLowerCase(), args[1]] : ['set', args[0]];
+  if (args.length === 1 && args[0].toLowerCase() === 'all') {
+    iface.allowedVlans = undefined;
+    return;
+  }
+  if (args.length === 1 && args[0].toLowerCase() === 'none') {
+    iface.allowedVlans = [];
+    return;
+  }
+  if (!list || !isVlanList(list) || !['set', 'add', 'remove', 'except'].includes(action)) {
+    error(line, 'Expected "switchport trunk allowed vlan [add|remove|except] <vlan-list>"');
+    return;
+  }
+  const vlans = parseVlanList(list);
+  if (vlans.some(id => id < 1 || id > 4094)) {
+    error(line, 'VLAN ID must be between 1 and 4094');
+    return;
+  }
+
+  const current = iface.allowedVlans;
+  switch (action) {
+    case 'add':
+      iface.allowedVlans = current ? Array.from(new Set([...current, ...vlans])).sort((a, b) => a - b) : undefined;
+      break;
+    case 'remove':
+      iface.allowedVlans = (current ?? Array.from({ length: 4094 }, (_, i) => i + 1)).filter(id => !vlans.includes(id));
+      break;
+    case 'except':
+      iface.allowedVlans = Array.from({ length: 4094 }, (_, i) => i + 1).filter(id => !vlans.includes(id));
+      break;
+    default:
+      iface.allowedVlans = vlans;
+  }
+};
+
+/**
+ * Decide the type of a device that does not exist yet from the commands it uses
+ */
+const inferDeviceType = (draft: DeviceDraft): DeviceType => {
+  // ip routing, routed ports and SVIs beyond a single management VLAN take a switch to layer 3
+  const sviCount = draft.interfaces.filter(i => parseSviName(i.name) !== undefined).length;
+  const hasLayer3Switching = draft.ipRoutingLine !== undefined || draft.interfaces.some(i => i.routed) || sviCount > 1;
+  if (hasLayer3Switching) return DeviceType.MULTILAYER_SWITCH;
+  const hasSwitching = draft.vlanLines.length > 0 || draft.stpLines.length > 0 || draft.errdisableLines.length > 0 ||
+    draft.snoopingLines.length > 0 || draft.loadBalanceLine !== undefined || draft.vtpLines.length > 0 || sviCount > 0 ||
+    draft.interfaces.some(i =>
+      i.switchportLines.length > 0 || i.spanningTreeLine !== undefined || i.snoopingLine !== undefined || i.channelGroupLine !== undefined
+    );
+  if (hasSwitching) return DeviceType.SWITCH;
+  const hasRouting = draft.routes.length > 0 || draft.natLines.length > 0 || draft.aclLines.length > 0 || draft.dhcpLines.length > 0 || !!draft.ospf || !!draft.rip || !!draft.bgp ||
+    draft.ipv6RoutingLines.length > 0 || draft.interfaces.some(i => i.ipAddress || i.ipv6Addresses || i.helperAddresses || i.encapsulation || i.fhrpGroups);
+  return hasRouting ? DeviceType.ROUTER : DeviceType.SWITCH;
+};
+
+const createBaseDevice = (name: string, type: DeviceType): NetworkDevice => {
+  const base = { id: generateId(), name, position: { x: 0, y: 0 }, status: DeviceStatus.ACTIVE };
+  if (type === DeviceType.ROUTER) {
+    return { ...base, type, interfaces: [], routingTable: [] } as RouterDevice;
+  }
+  if (type === DeviceType.MULTILAYER_SWITCH) {
+    return {
+      ...base,
+      type,
+      interfaces: [],
+      macAddressTable: [],
+      vlanDatabase: [{ id: 1, name: 'default', status: 'active' }],
+      spanningTreeEnabled: true,
+      routingTable: [],
+    } as MultilayerSwitchDevice;
+  }
+  return {
+    ...base,
+    type: DeviceType.SWITCH,
+    interfaces: [],
+    macAddressTable: [],
+    vlanDatabase: [{ id: 1, name: 'default', status: 'active' }],
+    spanningTreeEnabled: true,
+  } as SwitchDevice;
+};
+
+/**
+ * VTP settings of a parsed switch. The revision is not part of the running-config, so the switch
+ * keeps the one it had while it stays a server or client of the same domain.
+ */
+const buildVtpConfig = (draft: DeviceDraft, previous: VtpSwitchConfig | undefined): VtpSwitchConfig | undefined => {
+  const vtp = draft.vtp;
+  const keep = previous && previous.domain === vtp.domain && isVtpSynchronized(vtp.mode ?? VtpMode.SERVER);
+  const config: VtpSwitchConfig = keep
+    ? { ...vtp, revision: previous.revision, updater: previous.updater, lastModified: previous.lastModified, primary: vtp.version === 3 ? previous.primary : undefined }
+    : { ...vtp, revision: 0 };
+  const isDefault = config.revision === 0 && !config.domain && !config.mode && !config.version && !config.password;
+  return isDefault ? undefined : config;
+};
+
+const buildDevice = (
+  draft: DeviceDraft,
+  existingDevices: NetworkDevice[],
+  error: (line: number, message: string) => void,
+  unsupported: (line: number, message?: string) => void
+): ParsedDeviceConfig | undefined => {
+  if (!draft.hostname) {
+    error(draft.startLine, 'Configuration section has no hostname; cannot tell which device it belongs to');
+    return undefined;
+  }
+
+  const existing = existingDevices.find(d => d.name === draft.hostname);
+  const device: NetworkDevice = existing
+    ? structuredClone(existing)
+    : createBaseDevice(draft.hostname, inferDeviceType(draft));
+  const isSwitch = isSwitchingDevice(device);
+  const isRouter = device.type === DeviceType.ROUTER;
+  const isMultilayer = device.type === DeviceType.MULTILAYER_SWITCH;
+  const interfaces = getInterfaces(device);
+
+  if (!isSwitch) {
+    draft.vlanLines.forEach(line => error(line, `VLANs can only be configured on a switch (${device.name} is a ${device.type})`));
+    draft.stpLines.forEach(line => error(line, `Spanning tree is not supported on ${device.name} (${device.type})`));
+    draft.errdisableLines.forEach(line => error(line, `Err-disable recovery is not supported on ${device.name} (${device.type})`));
+    draft.snoopingLines.forEach(line => error(line, `DHCP snooping is not supported on ${device.name} (${device.type})`));
+    if (draft.loadBalanceLine !== undefined) {
+      error(draft.loadBalanceLine, `EtherChannel is not supported on ${device.name} (${device.type})`);
+    }
+    draft.vtpLines.forEach(line => error(line, `VTP is not supported on ${device.name} (${device.type})`));
+  }
+  if (!isRouter && !isMultilayer) {
+    draft.routeLines.forEach(line => error(line, `Static routes are not supported on ${device.name} (${device.type})`));
+  }
+  // Routers always route; ip routing only switches a multilayer switch between layer 2 and 3
+  if (!isRouter && !isMultilayer && draft.ipRoutingLine !== undefined) {
+    error(draft.ipRoutingLine, `IP routing is not supported on ${device.name} (${device.type})`);
+  }
+  if (!isRouter) {
+    if (draft.ospfLine !== undefined) {
+      error(draft.ospfLine, `OSPF is not supported on ${device.name} (${device.type})`);
+    }
+    if (draft.ripLine !== undefined) {
+      error(draft.ripLine, `RIP is not supported on ${device.name} (${device.type})`);
+    }
+    if (draft.bgpLine !== undefined) {
+      error(draft.bgpLine, `BGP is not supported on ${device.name} (${device.type})`);
+    }
+    draft.natLines.forEach(line => error(line, `NAT is not supported on ${device.name} (${device.type})`));
+    draft.ipv6RoutingLines.forEach(line => error(line, `IPv6 routing is not supported on ${device.name} (${device.type})`));
+  }
+  const hasAcls = supportsAccessLists(device);
+  if (!hasAcls) {
+    draft.aclLines.forEach(line => error(line, `Access lists are not supported on ${device.name} (${device.type})`));
+  }
+  if (!isRouter && device.type !== DeviceType.SERVER) {
+    draft.dhcpLines.forEach(line => error(line, `DHCP server is not supported on ${device.name} (${device.type})`));
+  }
+  if (draft.ipv6DefaultGatewayLine !== undefined && isSwitch) {
+    unsupported(draft.ipv6DefaultGatewayLine, 'Switch management addressing is not modelled by the simulator');
+  } else if (draft.ipv6DefaultGatewayLine !== undefined && isRouter) {
+    error(draft.ipv6DefaultGatewayLine, `ipv6 default-gateway is not supported on ${device.name} (${device.type})`);
+  }
+  if (draft.defaultGatewayLine !== undefined && isSwitch) {
+    unsupported(draft.defaultGatewayLine, 'Switch management addressing is not modelled by the simulator');
+  } else if (draft.defaultGatewayLine !== undefined && isRouter) {
+    error(draft.defaultGatewayLine, `ip default-gateway is not supported on ${device.name} (${device.type})`);
+  }
+
+  if (isSwitch) {
+    const sw = device as SwitchDevice;
+    const defaultVlan = sw.vlanDatabase?.find(v => v.id === 1) ?? { id: 1, name: 'default', status: 'active' };
+    const database = new Map<number, VlanEntry>([[1, { ...defaultVlan }]]);
+    draft.vlans.forEach((entry, id) => database.set(id, { ...entry }));
+    // Access VLANs referenced on ports are created implicitly, as IOS does
+    draft.interfaces.forEach(i => {
+      if (i.accessVlan && !database.has(i.accessVlan)) {
+        database.set(i.accessVlan, { id: i.accessVlan, name: `VLAN${i.accessVlan.toString().padStart(4, '0')}`, status: 'active' });
+      }
+    });
+    sw.vlanDatabase = Array.from(database.values()).sort((a, b) => a.id - b.id);
+    sw.spanningTreeConfig = draft.stp;
+    sw.errdisableRecovery = draft.errdisable;
+    const snooping = draft.dhcpSnooping;
+    sw.dhcpSnooping = snooping && (snooping.enabled || snooping.vlans.length > 0 || !snooping.verifyMacAddress) ? snooping : undefined;
+    sw.arpInspectionVlans = draft.arpInspectionVlans?.length ? draft.arpInspectionVlans : undefined;
+    sw.etherChannelLoadBalance = draft.loadBalance !== 'src-mac' ? draft.loadBalance : undefined;
+    sw.vtp = buildVtpConfig(draft, isSwitchingDevice(existing) ? existing.vtp : undefined);
+  }
+
+  draft.interfaces.forEach(ifaceDraft => {
+    let target: NetworkInterface | undefined;
+    const resolved = resolveInterfaceName(ifaceDraft.name, interfaces);
+    const subinterface = parseSubinterfaceName(ifaceDraft.name);
+    const sviVlan = parseSviName(ifaceDraft.name);
+    if (subinterface && !isRouter) {
+      error(ifaceDraft.line, `Subinterfaces are not supported on ${device.name} (${device.type})`);
+      return;
+    }
+    if (sviVlan !== undefined && !isMultilayer) {
+      if (isSwitch) {
+        unsupported(ifaceDraft.line, 'Switch management addressing is not modelled by the simulator');
+      } else {
+        error(ifaceDraft.line, `VLAN interfaces are not supported on ${device.name} (${device.type})`);
+      }
+      return;
+    }
+    if (ifaceDraft.routedLine !== undefined && !isMultilayer) {
+      error(ifaceDraft.routedLine, `no switchport is only supported on a multilayer switch, not on ${device.name} (${device.type})`);
+    }
+    if (resolved) {
+      target = interfaces.find(i => i.name === resolved);
+    } else if (sviVlan !== undefined) {
+      target = createSvi(device as MultilayerSwitchDevice, sviVlan);
+      interfaces.push(target);
+    } else if (subinterface) {
+      // A subinterface is created on the physical interface it is numbered after
+      const ports = interfaces.filter(i => !i.parentInterface);
+      const parent = ports.find(i => i.name === resolveInterfaceName(subinterface.parent, ports));
+      if (parent) {
+        target = createSubinterface(parent, subinterface.number);
+        interfaces.push(target);
+      }
+    } else if (!existing && device.type !== DeviceType.PC) {
+      target = {
+        id: generateId(),
+        name: ifaceDraft.name,
+        type: isSwitch ? InterfaceType.ACCESS : InterfaceType.ETHERNET,
+        status: InterfaceStatus.DOWN,
+        macAddress: generateMacAddress(),
+        speed: defaultSpeed(ifaceDraft.name) ?? 100,
+        duplex: 'full',
+      };
+      interfaces.push(target);
+    }
+
+    if (!target) {
+      error(ifaceDraft.line, `Interface ${ifaceDraft.name} does not exist on ${device.name}`);
+      return;
+    }
+
+    target.description = ifaceDraft.description;
+    target.speed = ifaceDraft.speed ?? defaultSpeed(target.name) ?? target.speed;
+    target.duplex = ifaceDraft.duplex ?? 'full';
+    if (ifaceDraft.shutdown) {
+      target.status = InterfaceStatus.ADMIN_DOWN;
+    } else if (target.parentInterface || target.sviVlan !== undefined) {
+      target.status = InterfaceStatus.UP; // a subinterface goes down only with its parent, an SVI only with its VLAN
+    } else if (target.status === InterfaceStatus.ADMIN_DOWN) {
+      target.status = InterfaceStatus.DOWN;
+    }
+    if (ifaceDraft.encapsulationLine !== undefined && !target.parentInterface) {
+      error(ifaceDraft.encapsulationLine, `Encapsulation is only supported on subinterfaces, not on ${target.name}`);
+    }
+    target.encapsulation = target.parentInterface ? ifaceDraft.encapsulation : undefined;
+    if (target.parentInterface && !target.encapsulation && ifaceDraft.ipLine !== undefined) {
+      error(ifaceDraft.ipLine, `Configure encapsulation dot1Q on ${target.name} before its IP address`);
+      ifaceDraft.ipAddress = undefined;
+    }
+
+    if (isMultilayer && target.sviVlan === undefined) {
+      if (ifaceDraft.routed) {
+        target.routedPort = true;
+        target.type = InterfaceType.ETHERNET;
+        target.vlanConfig = undefined;
+        target.portSecurity = undefined;
+        target.switchportMode = undefined;
+        target.nonegotiate = undefined;
+      } else {
+        target.routedPort = undefined;
+      }
+    }
+    // Switchports of a multilayer switch are layer 2; its SVIs and routed ports take addresses
+    const layer2 = isSwitch && isSwitchport(target);
+    if (layer2) {
+      if (ifaceDraft.ipLine !== undefined) {
+        error(ifaceDraft.ipLine, `IP addresses cannot be assigned to layer 2 port ${target.name}`);
+      }
+      const port = target.name;
+      ifaceDraft.ipv6Lines.forEach(line => error(line, `IPv6 cannot be enabled on layer 2 port ${port}`));
+      const dynamic = !!ifaceDraft.mode && isDynamicMode(ifaceDraft.mode);
+      if (ifaceDraft.mode === 'trunk') {
+        target.type = InterfaceType.TRUNK;
+        target.vlanConfig = {
+          ...(ifaceDraft.accessVlan ? { accessVlan: ifaceDraft.accessVlan } : {}),
+          nativeVlan: ifaceDraft.nativeVlan ?? 1,
+          allowedVlans: ifaceDraft.allowedVlans ?? (device as SwitchDevice).vlanDatabase.map(v => v.id),
+        };
+      } else if (dynamic) {
+        // Access until DTP negotiates with the neighbor; trunk settings wait for a trunk
+        target.type = InterfaceType.ACCESS;
+        target.vlanConfig = {
+          accessVlan: ifaceDraft.accessVlan ?? 1,
+          ...(ifaceDraft.nativeVlan ? { nativeVlan: ifaceDraft.nativeVlan } : {}),
+          ...(ifaceDraft.allowedVlans ? { allowedVlans: ifaceDraft.allowedVlans } : {}),
+        };
+      } else {
+        target.type = InterfaceType.ACCESS;
+        target.vlanConfig = { accessVlan: ifaceDraft.accessVlan ?? 1 };
+      }
+      target.switchportMode = dynamic ? ifaceDraft.mode : undefined;
+      if (dynamic && ifaceDraft.nonegotiate) {
+        error(ifaceDraft.nonegotiateLine!, `Conflict between 'nonegotiate' and 'dynamic' status on ${target.name}`);
+      }
+      target.nonegotiate = (!dynamic && ifaceDraft.nonegotiate) || undefined;
+      target.portSecurity = ifaceDraft.portSecurity;
+    } else {
+      const port = target.name;
+      ifaceDraft.switchportLines.forEach(line =>
+        error(line, isMultilayer ? `${port} is not a switchport` : `Switchport commands are not supported on ${device.name} (${device.type})`)
+      );
+      target.ipAddress = ifaceDraft.ipAddress;
+      if (ifaceDraft.dhcpClient && isRouter && ifaceDraft.ipLine !== undefined) {
+        error(ifaceDraft.ipLine, `DHCP client addressing is not supported on ${device.name} (${device.type})`);
+      }
+      target.dhcpClient = (!isRouter && ifaceDraft.dhcpClient) || undefined;
+      const macAddress = target.macAddress;
+      const ipv6Addresses = (ifaceDraft.ipv6Addresses ?? []).map(a =>
+        a.origin === 'eui-64' ? { ...a, address: IPv6AddressUtils.eui64Address(a.address, macAddress) } : a
+      );
+      target.ipv6Addresses = ipv6Addresses.length > 0 ? ipv6Addresses : undefined;
+      target.ipv6Enabled = ifaceDraft.ipv6Enabled || undefined;
+      if (ifaceDraft.ipv6AutoconfigLine !== undefined && isRouter) {
+        error(ifaceDraft.ipv6AutoconfigLine, `Address autoconfiguration is not supported on ${device.name} (${device.type})`);
+      }
+      target.ipv6Autoconfig = (!isRouter && ifaceDraft.ipv6Autoconfig) || undefined;
+    }
+
+    if (ifaceDraft.ospfLine !== undefined && !isRouter) {
+      error(ifaceDraft.ospfLine, `OSPF interface commands are not supported on ${device.name} (${device.type})`);
+    }
+    target.ospf = isRouter ? ifaceDraft.ospf : undefined;
+    if (ifaceDraft.splitHorizonLine !== undefined && !isRouter) {
+      error(ifaceDraft.splitHorizonLine, `Split horizon is not supported on ${device.name} (${device.type})`);
+    }
+    target.rip = isRouter && ifaceDraft.splitHorizon === false ? { splitHorizon: false } : undefined;
+    if (ifaceDraft.natLine !== undefined && !isRouter) {
+      error(ifaceDraft.natLine, `NAT is not supported on ${device.name} (${device.type})`);
+    }
+    target.nat = isRouter ? ifaceDraft.nat : undefined;
+    if (ifaceDraft.helperLine !== undefined && !isRouter) {
+      error(ifaceDraft.helperLine, `DHCP relay is not supported on ${device.name} (${device.type})`);
+    }
+    target.helperAddresses = isRouter ? ifaceDraft.helperAddresses : undefined;
+    if (ifaceDraft.accessGroupLine !== undefined && !hasAcls) {
+      error(ifaceDraft.accessGroupLine, `Access lists are not supported on ${device.name} (${device.type})`);
+    }
+    const accessGroups = ifaceDraft.accessGroups;
+    target.accessGroups = hasAcls && (accessGroups?.in || accessGroups?.out) ? accessGroups : undefined;
+    const fhrpCapable = isRouter || (isMultilayer && !layer2);
+    if (ifaceDraft.fhrpLine !== undefined && !fhrpCapable) {
+      error(ifaceDraft.fhrpLine, isMultilayer
+        ? `HSRP and VRRP are not supported on layer 2 port ${target.name}`
+        : `HSRP and VRRP are not supported on ${device.name} (${device.type})`);
+    }
+    const fhrpGroups = fhrpCapable ? (ifaceDraft.fhrpGroups ?? []).map(config => {
+      const subnet = target.ipAddress ? SubnetCalculator.parseSubnet(target.ipAddress) : undefined;
+      if (config.virtualIp && subnet && !SubnetCalculator.isInSameSubnet(config.virtualIp, subnet.network, subnet.mask)) {
+        error(ifaceDraft.fhrpLine!, `Virtual IP ${config.virtualIp} is not in the subnet of ${target.name}`);
+      }
+      const track = config.track?.flatMap(entry => {
+        const name = resolveInterfaceName(entry.interface, interfaces);
+        if (!name) error(ifaceDraft.fhrpLine!, `Tracked interface ${entry.interface} does not exist on ${device.name}`);
+        return name ? [{ ...entry, interface: name }] : [];
+      });
+      return { ...config, track: track && track.length > 0 ? track : undefined };
+    }) : [];
+    target.fhrpGroups = fhrpGroups.length > 0 ? fhrpGroups : undefined;
+    if (ifaceDraft.spanningTreeLine !== undefined && !layer2) {
+      error(ifaceDraft.spanningTreeLine, `Spanning tree port settings are not supported on ${device.name} (${device.type})`);
+    }
+    const spanningTree = ifaceDraft.spanningTree;
+    target.spanningTree = layer2 && spanningTree && Object.keys(spanningTree).length > 0 ? spanningTree : undefined;
+    if (ifaceDraft.snoopingLine !== undefined && !layer2) {
+      error(ifaceDraft.snoopingLine, `DHCP snooping port settings are not supported on ${device.name} (${device.type})`);
+    }
+    const snooping: SnoopingPortConfig = {};
+    SNOOPING_PORT_COMMANDS.forEach(({ key }) => {
+      if (ifaceDraft.snooping?.[key]) snooping[key] = true;
+    });
+    target.snooping = layer2 && Object.keys(snooping).length > 0 ? snooping : undefined;
+    if (ifaceDraft.channelGroupLine !== undefined && !layer2) {
+      error(ifaceDraft.channelGroupLine, `EtherChannel is not supported on ${device.name} (${device.type})`);
+    }
+    target.channelGroup = layer2 ? ifaceDraft.channelGroup : undefined;
+  });
+
+  if (isMultilayer) {
+    const mls = device as MultilayerSwitchDevice;
+    // SVIs missing from the configuration no longer exist
+    mls.interfaces = interfaces.filter(i => i.sviVlan === undefined || draft.interfaces.some(d => resolveInterfaceName(d.name, [i])));
+    mls.routingTable = (mls.routingTable || []).filter(r => r.protocol !== 'static').concat(draft.routes);
+    mls.ipRouting = draft.ipRouting || undefined;
+  }
+
+  if (isRouter) {
+    const router = device as RouterDevice;
+    // Subinterfaces missing from the configuration no longer exist
+    router.interfaces = interfaces.filter(i => !i.parentInterface || draft.interfaces.some(d => resolveInterfaceName(d.name, [i])));
+    router.routingTable = (router.routingTable || []).filter(r => r.protocol !== 'static').concat(draft.routes);
+    router.ospfEnabled = !!draft.ospf;
+    router.ospfConfig = draft.ospf;
+    router.ripEnabled = !!draft.rip;
+    router.ripConfig = draft.rip;
+    router.bgpEnabled = !!draft.bgp;
+    router.bgpConfig = draft.bgp;
+    const nat = draft.nat;
+    nat.dynamicRules.forEach(rule => {
+      if (rule.interface) {
+        // Keep the interface name as the router spells it
+        rule.interface = resolveInterfaceName(rule.interface, interfaces) ?? rule.interface;
+      }
+    });
+    const empty = nat.staticEntries.length === 0 && nat.pools.length === 0 && nat.dynamicRules.length === 0;
+    router.nat = empty ? undefined : nat;
+    router.ipv6UnicastRouting = draft.ipv6UnicastRouting;
+    draft.ipv6Routes.forEach(route => {
+      if (route.interface) {
+        route.interface = resolveInterfaceName(route.interface, interfaces) ?? route.interface;
+      }
+    });
+    router.ipv6Routes = draft.ipv6Routes.length > 0 ? draft.ipv6Routes : undefined;
+  }
+
+  if (hasAcls) {
+    device.accessLists = draft.accessLists.length > 0 ? draft.accessLists : undefined;
+  }
+
+  if (isRouter || device.type === DeviceType.SERVER) {
+    const dhcp = draft.dhcpServer;
+    const empty = dhcp.pools.length === 0 && dhcp.excludedRanges.length === 0;
+    (device as RouterDevice | ServerDevice).dhcpServer = empty ? undefined : dhcp;
+  }
+
+  if ((device.type === DeviceType.PC || device.type === DeviceType.SERVER) && draft.defaultGateway) {
+    (device as PcDevice | ServerDevice).defaultGateway = draft.defaultGateway;
+  }
+  if ((device.type === DeviceType.PC || device.type === DeviceType.SERVER) && draft.ipv6DefaultGateway) {
+    (device as PcDevice | ServerDevice).ipv6DefaultGateway = draft.ipv6DefaultGateway;
+  }
+
+  return { device, isNew: !existing, startLine: draft.startLine };
+};
@@ -0,0 +1,103 @@
+import {
+  NetworkDevice,
+  RouterDevice,
+  NetworkInterface,
+  Connection,
+  DeviceType,
+  InterfaceStatus,
+  InterfaceType,
+} from '../../types';
+import { isSwitchingDevice } from './multilayerSwitch';
+
+/**
+ * Parent interface and subinterface number of a name such as Gi0/0.10
+ */
+export const parseSubinterfaceName = (name: string): { parent: string; number: number } | undefined => {
+  const match = name.match(/^(.+\d)\.(\d+)$/);
+  return match ? { parent: match[1], number: Number(match[2]) } : undefined;
+};
+
+/**
+ * Subinterfaces configured on a physical interface
+ */
+export const getSubinterfaces = (interfaces: NetworkInterface[], parent: NetworkInterface): NetworkInterface[] =>
+  interfaces.filter(i => i.parentInterface === parent.name);
+
+/**
+ * Physical interface a subinterface runs on; the interface itself when it is not a subinterface
+ */
+export const getPhysicalInterface = (interfaces: NetworkInterface[], iface: NetworkInterface): NetworkInterface | undefined =>
+  iface.parentInterface ? interfaces.find(i => i.name === iface.parentInterface) : iface;
+
+/**
+ * Whether an interface passes traffic: it is up, and so is its parent when it is a subinterface
+ */
+export const isInterfaceOperational = (interfaces: NetworkInterface[], iface: NetworkInterface): boolean =>
+  iface.status === InterfaceStatus.UP && getPhysicalInterface(interfaces, iface)?.status === InterfaceStatus.UP;
+
+/**
+ * Subinterface a frame of a VLAN is received on, among the subinterfaces of one port
+ */
+export const findSubinterfaceForVlan = (subinterfaces: NetworkInterface[], vlanId?: number): NetworkInterface | undefined =>
+  vlanId === undefined ? subinterfaces.find(i => i.encapsulation?.native) : subinterfaces.find(i => i.encapsulation?.vlanId === vlanId);
+
+/**
+ * Create a subinterface of a router interface, e.g. Gi0/0.10 of Gi0/0. It shares the parent's
+ * MAC address and stays without encapsulation until one is configured.
+ */
+export const createSubinterface = (parent: NetworkInterface, number: number): NetworkInterface => ({
+  id: `${parent.id}.${number}`,
+  name: `${parent.name}.${number}`,
+  type: InterfaceType.ETHERNET,
+  status: InterfaceStatus.UP,
+  macAddress: parent.macAddress,
+  speed: parent.speed,
+  duplex: parent.duplex,
+  parentInterface: parent.name,
+});
+
+/**
+ * Problems with the switch port a router's subinterfaces are plugged into: it must be a trunk
+ * that carries every encapsulated VLAN, and agree with the router on which VLAN goes untagged.
+ * Empty when the link is not a router-on-a-stick link.
+ */
+export const getSubinterfaceTrunkIssues = (connection: Connection, devices: NetworkDevice[]): string[] => {
+  const ends: Array<[string, string, string, string]> = [
+    [connection.sourceDevice, connection.sourceInterface, connection.targetDevice, connection.targetInterface],
+    [connection.targetDevice, connection.targetInterface, connection.sourceDevice, connection.sourceInterface],
+  ];
+  const issues: string[] = [];
+
+  ends.forEach(([routerId, routerRef, switchId, switchRef]) => {
+    const router = devices.find(d => d.id === routerId);
+    const sw = devices.find(d => d.id === switchId);
+    if (router?.type !== DeviceType.ROUTER || !isSwitchingDevice(sw)) return;
+
+    const interfaces = (router as RouterDevice).interfaces;
+    const parent = interfaces.find(i => i.id === routerRef || i.name === routerRef);
+    const subinterfaces = parent ? getSubinterfaces(interfaces, parent).filter(i => i.encapsulation) : [];
+    const port = sw.interfaces.find(i => i.id === switchRef || i.name === switchRef);
+    if (!parent || subinterfaces.length === 0 || !port) return;
+
+    const at = `${sw.name} ${port.name}`;
+    if (port.type !== InterfaceType.TRUNK) {
+      issues.push(`${at} is not a trunk, but ${router.name} ${parent.name} has 802.1Q subinterfaces`);
+      return;
+    }
+    const nativeVlan = port.vlanConfig?.nativeVlan ?? 1;
+    const allowed = port.vlanConfig?.allowedVlans ?? [];
+    subinterfaces.forEach(sub => {
+      const { vlanId, native } = sub.encapsulation!;
+      if (!allowed.includes(vlanId)) {
+        issues.push(`${at} does not carry VLAN ${vlanId} of ${router.name} ${sub.name}`);
+      }
+      if (native && vlanId !== nativeVlan) {
+        issues.push(`${router.name} ${sub.name} sends VLAN ${vlanId} untagged, but the native VLAN of ${at} is ${nativeVlan}`);
+      } else if (!native && vlanId === nativeVlan) {
+        issues.push(`${at} sends native VLAN ${vlanId} untagged, but ${router.name} ${sub.name} expects it tagged`);
+      }
+    });
+  });
+
+  return issues;
+};
@@ -2,6 +2,7 @@ import {
   NetworkDevice,
   RouterDevice,
   SwitchDevice,
+  MultilayerSwitchDevice,
   PcDevice,
   ServerDevice,
   DeviceType,
@@ -10,11 +11,43 @@ import {
   NetworkInterface,
   InterfaceStatus,
   SpanningTreePortState,
+  FhrpProtocol,
+  VtpMode,
 } from '../../types';
-import { NetworkIPManager } from './ipAddressManager';
-import { RoutingEngine, EnhancedRouteEntry } from '../routing/routingEngine';
-import { SpanningTreeProtocol, STPPortInfo, STPBridgeInfo } from './spanningTreeProtocol';
+import { NetworkIPManager, IPAddressUtils, IPv6AddressUtils } from './ipAddressManager';
+import { RoutingEngine, EnhancedRouteEntry, BgpSessionState, getIpv6Routes, SubnetCalculator } from '../routing/routingEngine';
+import {
+  SpanningTreeEngine,
+  STPBridge,
+  ERRDISABLE_DEFAULT_RECOVERY_INTERVAL,
+  ERRDISABLE_CAUSES,
+} from './spanningTreeProtocol';
 import { SimulationEngine } from '../simulation/simulationEngine';
+import { generateRunningConfig } from './runningConfig';
+import { expandInterfaceName, abbreviateInterfaceName, resolveInterfaceName, formatVlanList, formatMacAddress } from './iosSyntax';
+import { natEngine, formatNatEndpoint } from './natEngine';
+import { dhcpEngine, formatDhcpLeaseTime, DHCP_DEFAULT_LEASE_TIME } from './dhcpEngine';
+import { dhcpSnoopingEngine } from './dhcpSnooping';
+import { portSecurityEngine } from './portSecurity';
+import { isSwitchingDevice } from './multilayerSwitch';
+import { resolveTrunking, formatSwitchportMode } from './dynamicTrunking';
+import { vtpEngine, getVtpConfig, getVtpUpdaterId, computeVtpDigest, isVtpSynchronized, VTP_MAX_LOCAL_VLANS } from './vtp';
+import {
+  fhrpEngine,
+  getFhrpStateName,
+  getFhrpHelloTime,
+  getFhrpHoldTime,
+  FhrpGroup,
+  FhrpMember,
+  FHRP_DEFAULT_PRIORITY,
+  FHRP_DEFAULT_TRACK_DECREMENT,
+} from './firstHopRedundancy';
+import {
+  buildLinkAggregationGroups,
+  getChannelProtocol,
+  getLinkAggregationMember,
+  DEFAULT_ETHERCHANNEL_LOAD_BALANCE,
+} from './etherChannel';
 
 /**
  * Command execution result
@@ -103,7 +136,7 @@ export class NetworkTroubleshootingTools {
   private vlans: Map<number, Vlan> = new Map();
   private ipManager?: NetworkIPManager;
   private routingEngine?: RoutingEngine;
-  private stpManager?: SpanningTreeProtocol;
+  private spanningTreeEngine?: SpanningTreeEngine;
   private simulationEngine?: SimulationEngine;
 
   constructor() {}
@@ -117,7 +150,7 @@ export class NetworkTroubleshootingTools {
     vlans: Vlan[],
     ipManager?: NetworkIPManager,
     routingEngine?: RoutingEngine,
-    stpManager?: SpanningTreeProtocol,
+    spanningTreeEngine?: SpanningTreeEngine,
     simulationEngine?: SimulationEngine
   ): void {
     this.devices.clear();
@@ -134,7 +167,7 @@ export class NetworkTroubleshootingTools {
 
     this.ipManager = ipManager;
     this.routingEngine = routingEngine;
-    this.stpManager = stpManager;
+    this.spanningTreeEngine = spanningTreeEngine;
     this.simulationEngine = simulationEngine;
   }
 
@@ -185,9 +218,45 @@ export class NetworkTroubleshootingTools {
         case 'ip int brief':
           output = this.showInterfacesBrief(device);
           break;
+        case 'interfaces status err-disabled':
+        case 'int status err-disabled':
+          output = this.showInterfacesErrDisabled(device);
+          break;
+        case 'errdisable recovery':
+          output = this.showErrdisableRecovery(device);
+          break;
         case 'ip route':
           output = this.showIpRoute(device);
           break;
+        case 'ipv6 int brief':
+        case 'ipv6 interface brief':
+          output = this.showIpv6InterfacesBrief(device);
+          break;
+        case 'ipv6 route':
+          output = this.showIpv6Route(device);
+          break;
+        case 'ipv6 neighbors':
+          output = this.showIpv6Neighbors(device);
+          break;
+        case 'ip rip database':
+          output = this.showIpRipDatabase(device);
+          break;
+        case 'ip nat translations':
+        case 'ip nat trans':
+          output = this.showIpNatTranslations(device);
+          break;
+        case 'ip bgp':
+          output = this.showIpBgp(device);
+          break;
+        case 'ip bgp summary':
+          output = this.showIpBgpSummary(device);
+          break;
+        case 'ip ospf neighbor':
+          output = this.showIpOspfNeighbor(device);
+          break;
+        case 'ip ospf database':
+          output = this.showIpOspfDatabase(device);
+          break;
         case 'vlan':
         case 'vlan brief':
           output = this.showVlan(device);
@@ -195,6 +264,9 @@ export class NetworkTroubleshootingTools {
         case 'vlan-switch':
           output = this.showVlanSwitch(device);
           break;
+        case 'vlans':
+          output = this.showVlans(device);
+          break;
         case 'mac address-table':
         case 'mac-address-table':
           output = this.showMacAddressTable(device);
@@ -222,10 +294,74 @@ export class NetworkTroubleshootingTools {
           output = this.showMemory(device);
           break;
         case 'dhcp binding':
-          output = this.showDhcpBinding();
+        case 'ip dhcp binding':
+          output = this.showDhcpBinding(device);
+          break;
+        case 'dhcp pool':
+        case 'ip dhcp pool':
+          output = this.showDhcpPool(device);
+          break;
+        case 'dhcp conflict':
+        case 'ip dhcp conflict':
+          output = this.showDhcpConflict(device);
+          break;
+        case 'dhcp lease':
+          output = this.showDhcpLease(device);
+          break;
+        case 'ip dhcp snooping':
+          output = this.showDhcpSnooping(device);
+          break;
+        case 'ip dhcp snooping binding':
+          output = this.showDhcpSnoopingBinding(device);
+          break;
+        case 'ip arp inspection':
+          output = this.showArpInspection(device);
+          break;
+        case 'ip verify source':
+          output = this.showIpVerifySource(device);
+          break;
+        case 'port-security':
+          output = this.showPortSecurity(device);
+          break;
+        case 'port-security address':
+          output = this.showPortSecurityAddress(device);
+          break;
+        case 'etherchannel summary':
+          output = this.showEtherChannelSummary(device);
+          break;
+        case 'etherchannel load-balance':
+          output = this.showEtherChannelLoadBalance(device);
+          break;
+        case 'standby':
+          output = this.showStandby(device, false);
+          break;
+        case 'standby brief':
+          output = this.showStandby(device, true);
+          break;
+        case 'vrrp':
+          output = this.showVrrp(device, false);
+          break;
+        case 'vrrp brief':
+          output = this.showVrrp(device, true);
+          break;
+        case 'interfaces switchport':
+          output = this.showInterfacesSwitchport(device);
+          break;
+        case 'vtp status':
+          output = this.showVtpStatus(device);
+          break;
+        case 'vtp counters':
+          output = this.showVtpCounters(device);
+          break;
+        case 'vtp password':
+          output = this.showVtpPassword(device);
           break;
         default:
-          if (parts[1] === 'interface' && parts.length >= 3) {
+          if (parts[1] === 'interfaces' && parts[2] === 'switchport' && parts.length >= 4) {
+            output = this.showInterfacesSwitchport(device, parts.slice(3).join(' '));
+          } else if (parts[1] === 'port-security' && parts[2] === 'interface' && parts.length >= 4) {
+            output = this.showPortSecurityInterface(device, parts.slice(3).join(' '));
+          } else if (parts[1] === 'interface' && parts.length >= 3) {
             output = this.showInterface(device, parts.slice(2).join(' '));
           } else if (parts[1] === 'vlan' && parts.length >= 3) {
             const vlanId = parseInt(parts[2]);
@@ -281,7 +417,9 @@ export class NetworkTroubleshootingTools {
               sourceDeviceId,
               targetDevice.id,
               'ip' as any,
-              'icmp' as any
+              'icmp' as any,
+              undefined,
+              IPv6AddressUtils.isValid(target) ? 6 : 4
             );
 
             if (packet) {
@@ -386,7 +524,7 @@ export class NetworkTroubleshootingTools {
         if (!device) return;
 
         const responseTime = 10 + Math.random() * 90; // Simulate response time
-        const ipAddress = this.getDeviceIpAddress(device) || 'unknown';
+        const ipAddress = (IPv6AddressUtils.isValid(target) ? this.getDeviceIpv6Addresses(device)[0] : this.getDeviceIpAddress(device)) || 'unknown';
 
         result.hops.push({
           hopNumber,
@@ -495,33 +633,7 @@ Configuration register is 0x2102
    * Show running configuration
    */
   private showRunningConfig(device: NetworkDevice): string {
-    let config = `Building configuration...\n\nCurrent configuration : 1234 bytes\n!\nversion 15.0\nservice timestamps debug datetime msec\nservice timestamps log datetime msec\nno service password-encryption\n!\nhostname ${device.name}\n!\n`;
-
-    // Add interface configurations
-    const interfaces = this.getDeviceInterfaces(device);
-    interfaces.forEach(iface => {
-      config += `interface ${iface.name}\n`;
-      if (iface.ipAddress) {
-        config += ` ip address ${iface.ipAddress}\n`;
-      }
-      if (iface.status === InterfaceStatus.ADMIN_DOWN) {
-        config += ` shutdown\n`;
-      }
-      config += `!\n`;
-    });
-
-    // Add routing configuration for routers
-    if (device.type === DeviceType.ROUTER && this.routingEngine) {
-      const routes = this.routingEngine.getRoutingTable(device.id);
-      routes.forEach(route => {
-        if (route.protocol === 'static') {
-          config += `ip route ${route.network} ${route.mask} ${route.nextHop}\n`;
-        }
-      });
-    }
-
-    config += `!\nend\n`;
-    return config;
+    return generateRunningConfig(device);
   }
 
   /**
@@ -533,7 +645,8 @@ Configuration register is 0x2102
 
     interfaces.forEach(iface => {
       const statusInfo = this.getInterfaceStatusInfo(iface, device);
-      output += `${iface.name} is ${statusInfo.status}, line protocol is ${statusInfo.protocol}
+      const errDisabled = iface.status === InterfaceStatus.ERR_DISABLED ? ' (err-disabled)' : '';
+      output += `${iface.name} is ${statusInfo.status}, line protocol is ${statusInfo.protocol}${errDisabled}
   Hardware is ${statusInfo.mediaType}, address is ${iface.macAddress}
   Internet address is ${statusInfo.ipAddress || 'unassigned'}
   MTU ${statusInfo.mtu} bytes, BW ${statusInfo.bandwidth} Kbit/sec, DLY ${statusInfo.delay} usec,
@@ -570,18 +683,70 @@ Configuration register is 0x2102
     interfaces.forEach(iface => {
       const statusInfo = this.getInterfaceStatusInfo(iface, device);
       const ipAddr = statusInfo.ipAddress || 'unassigned';
-      output += `${iface.name.padEnd(22)} ${ipAddr.padEnd(15)} YES NVRAM  ${statusInfo.status.padEnd(20)} ${statusInfo.protocol}\n`;
+      const method = iface.dhcpClient ? 'DHCP ' : 'NVRAM';
+      output += `${iface.name.padEnd(22)} ${ipAddr.padEnd(15)} YES ${method}  ${statusInfo.status.padEnd(20)} ${statusInfo.protocol}\n`;
     });
 
     return output;
   }
 
+  /**
+   * Show ports shut down by the switch and why
+   */
+  private showInterfacesErrDisabled(device: NetworkDevice): string {
+    if (!isSwitchingDevice(device)) {
+      return 'This command is only available on switches.';
+    }
+
+    let output = 'Port      Name               Status       Reason               Err-disabled Vlans\n';
+    (device as SwitchDevice).interfaces
+      .filter(iface => iface.status === InterfaceStatus.ERR_DISABLED)
+      .forEach(iface => {
+        const name = (iface.description ?? '').slice(0, 18);
+        output += `${iface.name.padEnd(9)} ${name.padEnd(18)} err-disabled ${(iface.errDisabled?.cause ?? 'bpduguard').padEnd(20)}\n`;
+      });
+    // Ports a violation shut down during the running simulation
+    (device as SwitchDevice).interfaces
+      .filter(iface => iface.status !== InterfaceStatus.ERR_DISABLED && portSecurityEngine.isErrDisabled(device.id, iface.id))
+      .forEach(iface => {
+        const name = (iface.description ?? '').slice(0, 18);
+        output += `${iface.name.padEnd(9)} ${name.padEnd(18)} err-disabled ${'psecure-violation'.padEnd(20)}\n`;
+      });
+    return output;
+  }
+
+  /**
+   * Show which err-disable causes recover automatically
+   */
+  private showErrdisableRecovery(device: NetworkDevice): string {
+    if (!isSwitchingDevice(device)) {
+      return 'This command is only available on switches.';
+    }
+
+    const recovery = (device as SwitchDevice).errdisableRecovery;
+    let output = 'ErrDisable Reason            Timer Status\n';
+    output += '-----------------            --------------\n';
+    ERRDISABLE_CAUSES.forEach(cause => {
+      output += `${cause.padEnd(29)}${recovery?.causes.includes(cause) ? 'Enabled' : 'Disabled'}\n`;
+    });
+    output += '\n';
+    output += `Timer interval: ${recovery?.interval ?? ERRDISABLE_DEFAULT_RECOVERY_INTERVAL} seconds\n`;
+    return output;
+  }
+
   /**
    * Show IP routing table
    */
   private showIpRoute(device: NetworkDevice): string {
-    if (device.type !== DeviceType.ROUTER || !this.routingEngine) {
-      return 'This command is only available on routers.';
+    if ((device.type !== DeviceType.ROUTER && device.type !== DeviceType.MULTILAYER_SWITCH) || !this.routingEngine) {
+      return 'This command is only available on routers and multilayer switches.';
+    }
+    // Without ip routing a multilayer switch is a host on its management VLAN
+    if (device.type === DeviceType.MULTILAYER_SWITCH && !device.ipRouting) {
+      let output = 'Default gateway is not set\n\n';
+      output += 'Host               Gateway           Last Use    Total Uses  Interface\n';
+      output += 'ICMP redirect cache is empty\n';
+      return output;
     }
 
     const routes = this.routingEngine.getRoutingTable(device.id);
@@ -609,6 +774,264 @@ Configuration register is 0x2102
     return output;
   }
 
+  /**
+   * Show IPv6 addresses per interface, link-local first
+   */
+  private showIpv6InterfacesBrief(device: NetworkDevice): string {
+    let output = '';
+    this.getDeviceInterfaces(device).forEach(iface => {
+      const statusInfo = this.getInterfaceStatusInfo(iface, device);
+      const addresses = this.simulationEngine?.getIpv6Addresses(device.id, iface.id) ?? IPv6AddressUtils.getInterfaceAddresses(iface);
+      output += `${iface.name.padEnd(22)} [${statusInfo.status}/${statusInfo.protocol}]\n`;
+      output += addresses.length > 0
+        ? addresses.map(a => `    ${a.address.toUpperCase()}\n`).join('')
+        : '    unassigned\n';
+    });
+    return output;
+  }
+
+  /**
+   * Show IPv6 routing table
+   */
+  private showIpv6Route(device: NetworkDevice): string {
+    if (device.type !== DeviceType.ROUTER) {
+      return 'This command is only available on routers.';
+    }
+
+    // Listed in address order, so each connected route is followed by its local host route
+    const routes = getIpv6Routes(device as RouterDevice).sort((a, b) => {
+      const [left, right] = [IPv6AddressUtils.parse(a.prefix) ?? 0n, IPv6AddressUtils.parse(b.prefix) ?? 0n];
+      return left === right ? a.prefixLength - b.prefixLength : left < right ? -1 : 1;
+    });
+    let output = `IPv6 Routing Table - default - ${routes.length} entries\n`;
+    output += 'Codes: C - Connected, L - Local, S - Static\n\n';
+    routes.forEach(route => {
+      const code = route.protocol === 'connected' ? 'C' : route.protocol === 'local' ? 'L' : 'S';
+      const distance = route.protocol === 'static' ? '[1/0]' : '[0/0]';
+      output += `${code.padEnd(4)}${route.prefix.toUpperCase()}/${route.prefixLength} ${distance}\n`;
+      if (route.protocol === 'connected') {
+        output += `     via ${route.interface}, directly connected\n`;
+      } else if (route.protocol === 'local') {
+        output += `     via ${route.interface}, receive\n`;
+      } else {
+        output += `     via ${[route.nextHop?.toUpperCase(), route.interface].filter(Boolean).join(', ')}\n`;
+      }
+    });
+    return output;
+  }
+
+  /**
+   * Show IPv6 neighbor cache learned through neighbor discovery
+   */
+  private showIpv6Neighbors(device: NetworkDevice): string {
+    if (!this.simulationEngine) {
+      return 'IPv6 neighbor cache requires simulation engine.';
+    }
+
+    const neighbors = this.simulationEngine.getNeighborCache(device.id);
+    let output = 'IPv6 Address                              Age Link-layer Addr State Device\n';
+    neighbors.forEach(entry => {
+      const age = Math.floor((Date.now() - entry.timestamp.getTime()) / 60000);
+      const neighbor = this.devices.get(entry.deviceId)?.name ?? entry.deviceId;
+      output += `${entry.ipAddress.toUpperCase().padEnd(40)} ${age.toString().padStart(4)} ${entry.macAddress.padEnd(15)} REACH ${neighbor}\n`;
+    });
+    return neighbors.length > 0 ? output : 'IPv6 neighbor cache is empty.';
+  }
+
+  /**
+   * Show RIP database
+   */
+  private showIpRipDatabase(device: NetworkDevice): string {
+    if (device.type !== DeviceType.ROUTER || !this.routingEngine) {
+      return 'This command is only available on routers.';
+    }
+
+    const rip = this.routingEngine.getRIPManager();
+    if (!rip.isEnabled(device.id)) {
+      return '% RIP is not running';
+    }
+
+    const formatAge = (seconds: number) =>
+      `${Math.floor(seconds / 3600).toString().padStart(2, '0')}:${Math.floor((seconds % 3600) / 60).toString().padStart(2, '0')}:${(seconds % 60).toString().padStart(2, '0')}`;
+
+    let output = '';
+    rip.getDatabase(device.id).forEach(route => {
+      const prefix = `${route.network}/${this.maskToPrefix(route.mask)}`;
+      if (route.connected && route.metric === 0) {
+        output += `${prefix}    directly connected, ${expandInterfaceName(route.interfaceName)}\n`;
+      } else if (route.metric >= 16) {
+        output += `${prefix}    is possibly down\n`;
+      } else {
+        output += `${prefix}\n    [${route.metric}] via ${route.nextHop}, ${formatAge(route.age)}, ${expandInterfaceName(route.interfaceName)}\n`;
+      }
+    });
+
+    return output;
+  }
+
+  /**
+   * Show NAT translation table
+   */
+  private showIpNatTranslations(device: NetworkDevice): string {
+    if (device.type !== DeviceType.ROUTER) {
+      return 'This command is only available on routers.';
+    }
+
+    const translations = natEngine.getTranslations(device as RouterDevice);
+    if (translations.length === 0) {
+      return '';
+    }
+
+    const column = (text: string) => text.padEnd(21);
+    let output = `Pro ${column('Inside global')} ${column('Inside local')} ${column('Outside local')} Outside global\n`;
+    translations.forEach(entry => {
+      const outside = formatNatEndpoint(entry.outside);
+      output += `${(entry.protocol ?? '---').padEnd(3)} ${column(formatNatEndpoint(entry.insideGlobal))} ${column(formatNatEndpoint(entry.insideLocal))} ${column(outside)} ${outside}\n`;
+    });
+    return output;
+  }
+
+  /**
+   * Show BGP table
+   */
+  private showIpBgp(device: NetworkDevice): string {
+    if (device.type !== DeviceType.ROUTER || !this.routingEngine) {
+      return 'This command is only available on routers.';
+    }
+
+    const bgp = this.routingEngine.getBGPManager();
+    if (!bgp.isEnabled(device.id)) {
+      return '% BGP not active';
+    }
+
+    let output = `BGP table version is ${bgp.getTableVersion(device.id)}, local router ID is ${bgp.getRouterId(device.id)}\n`;
+    output += 'Status codes: s suppressed, d damped, h history, * valid, > best, i - internal,\n';
+    output += '              r RIB-failure, S Stale, m multipath, b backup-path, f RT-Filter,\n';
+    output += '              x best-external, a additional-path, c RIB-compressed,\n';
+    output += 'Origin codes: i - IGP, e - EGP, ? - incomplete\n';
+    output += 'RPKI validation codes: V valid, I invalid, N Not found\n\n';
+    output += '     Network          Next Hop            Metric LocPrf Weight Path\n';
+
+    let previousPrefix = '';
+    bgp.getTable(device.id).forEach(path => {
+      const prefix = `${path.network}/${this.maskToPrefix(path.mask)}`;
+      const status = `${path.valid ? '*' : ' '}${path.best ? '>' : ' '}${path.internal ? 'i' : ' '}`;
+      // Local preference is only shown when it was carried in the path (iBGP)
+      const localPreference = path.internal ? path.localPreference.toString() : '';
+      const asPath = [...path.asPath.map(String), path.origin].join(' ');
+      output += ` ${status} ${(prefix === previousPrefix ? '' : prefix).padEnd(16)} ${path.nextHop.padEnd(19)} ${path.med.toString().padStart(6)} ${localPreference.padStart(6)} ${path.weight.toString().padStart(6)} ${asPath}\n`;
+      previousPrefix = prefix;
+    });
+
+    return output;
+  }
+
+  /**
+   * Show BGP neighbor summary
+   */
+  private showIpBgpSummary(device: NetworkDevice): string {
+    if (device.type !== DeviceType.ROUTER || !this.routingEngine) {
+      return 'This command is only available on routers.';
+    }
+
+    const bgp = this.routingEngine.getBGPManager();
+    if (!bgp.isEnabled(device.id)) {
+      return '% BGP not active';
+    }
+
+    const formatUptime = (seconds: number) =>
+      `${Math.floor(seconds / 3600).toString().padStart(2, '0')}:${Math.floor((seconds % 3600) / 60).toString().padStart(2, '0')}:${(seconds % 60).toString().padStart(2, '0')}`;
+
+    const table = bgp.getTable(device.id);
+    const networkCount = new Set(table.map(path => `${path.network}/${path.mask}`)).size;
+    const tableVersion = bgp.getTableVersion(device.id);
+
+    let output = `BGP router identifier ${bgp.getRouterId(device.id)}, local AS number ${bgp.getLocalAs(device.id)}\n`;
+    output += `BGP table version is ${tableVersion}, main routing table version ${tableVersion}\n`;
+    if (networkCount > 0) {
+      output += `${networkCount} network entries using ${networkCount * 144} bytes of memory\n`;
+      output += `${table.length} path entries using ${table.length * 84} bytes of memory\n`;
+    }
+    output += '\nNeighbor        V           AS MsgRcvd MsgSent   TblVer  InQ OutQ Up/Down  State/PfxRcd\n';
+
+    bgp.getNeighbors(device.id).forEach(neighbor => {
+      const upDown = neighbor.lastStateChange === undefined ? 'never' : formatUptime(bgp.getClock() - neighbor.lastStateChange);
+      const state = neighbor.state === BgpSessionState.ESTABLISHED
+        ? neighbor.prefixesReceived.toString()
+        : neighbor.shutdown ? 'Idle (Admin)' : neighbor.state;
+      output += `${neighbor.address.padEnd(15)} 4 ${neighbor.remoteAs.toString().padStart(12)} ${neighbor.messagesReceived.toString().padStart(7)} ${neighbor.messagesSent.toString().padStart(7)} ${neighbor.tableVersion.toString().padStart(8)} ${'0'.padStart(4)} ${'0'.padStart(4)} ${upDown.padEnd(8)} ${state}\n`;
+    });
+
+    return output;
+  }
+
+  /**
+   * Show OSPF neighbors
+   */
+  private showIpOspfNeighbor(device: NetworkDevice): string {
+    if (device.type !== DeviceType.ROUTER || !this.routingEngine) {
+      return 'This command is only available on routers.';
+    }
+
+    const ospf = this.routingEngine.getOSPFManager();
+    let output = '\nNeighbor ID     Pri   State           Dead Time   Address         Interface\n';
+
+    ospf.getNeighbors(device.id).forEach(neighbor => {
+      const role = ospf.getNeighborRole(device.id, neighbor);
+      const state = `${neighbor.state}/${role === 'P2P' ? '  -' : role}`;
+      const deadTime = `00:00:${Math.max(0, neighbor.deadTimer).toString().padStart(2, '0')}`;
+      output += `${neighbor.routerId.padEnd(15)} ${neighbor.priority.toString().padStart(3)}   ${state.padEnd(15)} ${deadTime.padEnd(11)} ${neighbor.address.padEnd(15)} ${expandInterfaceName(neighbor.interfaceName)}\n`;
+    });
+
+    return output;
+  }
+
+  /**
+   * Show OSPF link-state database
+   */
+  private showIpOspfDatabase(device: NetworkDevice): string {
+    if (device.type !== DeviceType.ROUTER || !this.routingEngine) {
+      return 'This command is only available on routers.';
+    }
+
+    const ospf = this.routingEngine.getOSPFManager();
+    const routerId = ospf.getRouterId(device.id);
+    if (!routerId) {
+      return '%OSPF: Router process is not running';
+    }
+
+    const checksum = (text: string) => {
+      let sum = 0;
+      for (let i = 0; i < text.length; i++) sum = (sum * 31 + text.charCodeAt(i)) & 0xffff;
+      return `0x${sum.toString(16).toUpperCase().padStart(4, '0')}`;
+    };
+    const sequence = (value: number) => `0x${value.toString(16).toUpperCase().padStart(8, '0')}`;
+    const areaLabel = (area: string) => area.split('.').map(Number).reduce((acc, octet) => acc * 256 + octet, 0);
+
+    let output = `\n            OSPF Router with ID (${routerId}) (Process ID ${ospf.getProcessId(device.id)})\n`;
+
+    ospf.getDatabase(device.id).forEach(({ area, lsas }) => {
+      const routerLsas = lsas.filter(lsa => lsa.type === 'router');
+      const networkLsas = lsas.filter(lsa => lsa.type === 'network');
+
+      output += `\n                Router Link States (Area ${areaLabel(area)})\n\n`;
+      output += 'Link ID         ADV Router      Age         Seq#       Checksum Link count\n';
+      routerLsas.forEach(lsa => {
+        output += `${lsa.linkStateId.padEnd(15)} ${lsa.advertisingRouter.padEnd(15)} ${lsa.age.toString().padEnd(11)} ${sequence(lsa.sequence)} ${checksum(JSON.stringify(lsa.links))} ${lsa.links.length}\n`;
+      });
+
+      if (networkLsas.length > 0) {
+        output += `\n                Net Link States (Area ${areaLabel(area)})\n\n`;
+        output += 'Link ID         ADV Router      Age         Seq#       Checksum\n';
+        networkLsas.forEach(lsa => {
+          output += `${lsa.linkStateId.padEnd(15)} ${lsa.advertisingRouter.padEnd(15)} ${lsa.age.toString().padEnd(11)} ${sequence(lsa.sequence)} ${checksum(JSON.stringify(lsa.attachedRouters))}\n`;
+        });
+      }
+    });
+
+    return output;
+  }
+
   /**
    * Show VLAN information
    */
@@ -616,7 +1039,9 @@ Configuration register is 0x2102
     let output = 'VLAN Name                             Status    Ports\n';
     output += '---- -------------------------------- --------- -------------------------------\n';
 
-    this.vlans.forEach(vlan => {
+    // A switch shows its own VLAN database, which VTP may have changed
+    const vlans = isSwitchingDevice(device) ? device.vlanDatabase : Array.from(this.vlans.values());
+    vlans.forEach(vlan => {
       const ports = this.getVlanPorts(device, vlan.id);
       const portList = ports.length > 0 ? ports.join(', ') : 'none';
       output += `${vlan.id.toString().padStart(4)} ${vlan.name.padEnd(32)} ${vlan.status.padEnd(9)} ${portList}\n`;
@@ -629,7 +1054,7 @@ Configuration register is 0x2102
    * Show VLAN switch information
    */
   private showVlanSwitch(device: NetworkDevice): string {
-    if (device.type !== DeviceType.SWITCH) {
+    if (!isSwitchingDevice(device)) {
       return 'This command is only available on switches.';
     }
 
@@ -649,7 +1074,7 @@ Configuration register is 0x2102
    * Show MAC address table
    */
   private showMacAddressTable(device: NetworkDevice): string {
-    if (device.type !== DeviceType.SWITCH || !this.simulationEngine) {
+    if (!isSwitchingDevice(device) || !this.simulationEngine) {
       return 'MAC address table is only available on switches with simulation engine.';
     }
 
@@ -686,37 +1111,58 @@ Configuration register is 0x2102
   }
 
   /**
-   * Show spanning tree information
+   * Show spanning tree information, one block per instance
    */
   private showSpanningTree(device: NetworkDevice): string {
-    if (device.type !== DeviceType.SWITCH || !this.stpManager) {
+    if (!isSwitchingDevice(device) || !this.spanningTreeEngine) {
       return 'Spanning tree information is only available on switches.';
     }
 
-    const bridgeInfo = this.stpManager.getBridgeInfo(device.id);
-    if (!bridgeInfo) {
-      return 'Spanning tree is not enabled on this switch.';
+    const engine = this.spanningTreeEngine;
+    const bridges = new Set<STPBridge>();
+    engine.getVlanInstances().forEach(vlanId => {
+      const bridge = engine.getBridgeState(device.id, vlanId);
+      if (bridge) bridges.add(bridge);
+    });
+    if (bridges.size === 0) {
+      return 'No spanning tree instance exists.';
     }
 
-    let output = `\nSpanning tree enabled protocol ieee\nRoot ID    Priority    ${bridgeInfo.priority}\n`;
-    output += `           Address     ${bridgeInfo.macAddress}\n`;
-    
-    if (bridgeInfo.isRoot) {
-      output += `           This bridge is the root\n`;
-    } else {
-      output += `           Cost        ${bridgeInfo.rootPathCost}\n`;
-      output += `           Port        ${bridgeInfo.rootPort || 'none'}\n`;
-    }
-
-    output += `\nBridge ID  Priority    ${bridgeInfo.priority}\n`;
-    output += `           Address     ${bridgeInfo.macAddress}\n`;
-    output += `\nInterface           Role Sts Cost      Prio.Nbr Type\n`;
-    output += `------------------- ---- --- --------- -------- --------------------------------\n`;
-
-    bridgeInfo.ports.forEach(port => {
-      const roleAbbrev = this.getSTPRoleAbbreviation(port.role);
-      const stateAbbrev = this.getSTPStateAbbreviation(port.state);
-      output += `${port.interfaceId.padEnd(19)} ${roleAbbrev} ${stateAbbrev} ${port.pathCost.toString().padStart(9)} ${port.priority.toString().padStart(8)} P2p\n`;
+    const interfaces = this.getDeviceInterfaces(device);
+    const protocol = { pvst: 'ieee', 'rapid-pvst': 'rstp', mst: 'mstp' };
+    let output = '';
+
+    bridges.forEach(bridge => {
+      const [rootPriority, ...rootMac] = bridge.rootBridgeId.split('.');
+      const timers = `Hello Time   ${bridge.helloTime} sec  Max Age ${bridge.maxAge} sec  Forward Delay ${bridge.forwardDelay} sec`;
+      const label = bridge.tree === 'vlan' ? 'VLAN' : 'MST';
+
+      output += `\n${label}${bridge.instanceId.toString().padStart(4, '0')}\n`;
+      output += `  Spanning tree enabled protocol ${protocol[bridge.mode]}\n`;
+      output += `  Root ID    Priority    ${parseInt(rootPriority, 16)}\n`;
+      output += `             Address     ${rootMac.join('.')}\n`;
+      if (bridge.bridgeId === bridge.rootBridgeId) {
+        output += `             This bridge is the root\n`;
+      } else {
+        const rootPort = bridge.rootPortId ? bridge.ports.get(bridge.rootPortId) : undefined;
+        output += `             Cost        ${bridge.tree === 'msti' ? bridge.internalRootCost : bridge.rootCost}\n`;
+        output += `             Port        ${rootPort ? `${rootPort.portId} (${rootPort.interfaceName})` : 'none'}\n`;
+      }
+      output += `             ${timers}\n\n`;
+      output += `  Bridge ID  Priority    ${bridge.priority + bridge.instanceId}  (priority ${bridge.priority} sys-id-ext ${bridge.instanceId})\n`;
+      output += `             Address     ${bridge.macAddress}\n`;
+      output += `             ${timers}\n\n`;
+      output += `Interface           Role Sts Cost      Prio.Nbr Type\n`;
+      output += `------------------- ---- --- --------- -------- --------------------------------\n`;
+
+      bridge.ports.forEach(port => {
+        const name = interfaces.find(i => i.id === port.interfaceId)?.name ?? port.interfaceName;
+        const type = `${port.edge ? 'P2p Edge' : port.rapid ? 'P2p' : 'P2p Peer(STP)'}` +
+          (port.inconsistency ? ` *${port.inconsistency.toUpperCase()}_Inc` : '');
+        output += `${abbreviateInterfaceName(name).padEnd(19)} ${this.getSTPRoleAbbreviation(port.role)} ` +
+          `${this.getSTPStateAbbreviation(port.state)} ${port.pathCost.toString().padEnd(9)} ` +
+          `${`${port.priority}.${port.portId}`.padEnd(8)} ${type}\n`;
+      });
     });
 
     return output;
@@ -792,24 +1238,672 @@ Configuration register is 0x2102
   }
 
   /**
-   * Show DHCP bindings
+   * Show the addresses a DHCP server has leased; the client ID is 01 (Ethernet) followed by the MAC
    */
-  private showDhcpBinding(): string {
-    if (!this.ipManager) {
-      return 'DHCP service not available.';
+  private showDhcpBinding(device: NetworkDevice): string {
+    if (device.type !== DeviceType.ROUTER && device.type !== DeviceType.SERVER) {
+      return 'This command is only available on routers and servers.';
     }
 
-    const leases = this.ipManager.getDHCPServer().getActiveLeases();
+    const clock = dhcpEngine.getClock();
     let output = 'Bindings from all pools not associated with VRF:\n';
     output += 'IP address          Client-ID/              Lease expiration        Type\n';
     output += '                    Hardware address/\n';
     output += '                    User name\n';
+    dhcpEngine.getBindings(device.id).forEach(binding => {
+      const clientId = `01${binding.clientMac.replace(/[^0-9a-f]/gi, '').toLowerCase()}`.match(/.{1,4}/g)!.join('.');
+      const expiration = binding.expiresAt === Infinity ? 'Infinite' : `in ${this.formatDhcpTimer(binding.expiresAt - clock)}`;
+      output += `${binding.ipAddress.padEnd(19)} ${clientId.padEnd(23)} ${expiration.padEnd(23)} Automatic\n`;
+    });
+    return output;
+  }
 
-    leases.forEach(lease => {
-      output += `${lease.ipAddress.padEnd(19)} ${lease.clientMac.padEnd(23)} ${lease.renewalTime.toLocaleString().padEnd(23)} Automatic\n`;
+  /**
+   * Show the DHCP pools of a server with how many of their addresses are leased and excluded
+   */
+  private showDhcpPool(device: NetworkDevice): string {
+    if (device.type !== DeviceType.ROUTER && device.type !== DeviceType.SERVER) {
+      return 'This command is only available on routers and servers.';
+    }
+
+    const dhcp = (device as RouterDevice | ServerDevice).dhcpServer;
+    const bindings = dhcpEngine.getBindings(device.id);
+    const toNumber = (ip: string) => IPAddressUtils.ipToNumber(ip) >>> 0;
+    let output = '';
+    dhcp?.pools.forEach(pool => {
+      output += `\nPool ${pool.name} :\n`;
+      output += ` Lease time                     : ${formatDhcpLeaseTime(pool.leaseTime ?? DHCP_DEFAULT_LEASE_TIME)}\n`;
+      output += ` Default router                 : ${pool.defaultRouter ?? 'none'}\n`;
+      output += ` DNS servers                    : ${pool.dnsServers?.join(' ') ?? 'none'}\n`;
+      if (!pool.network || !pool.mask) {
+        output += ' No network configured\n';
+        return;
+      }
+
+      const mask = toNumber(pool.mask);
+      const first = toNumber(pool.network) + 1;
+      const last = ((toNumber(pool.network) | ~mask) >>> 0) - 1;
+      const total = Math.max(0, last - first + 1);
+      const excluded = dhcp.excludedRanges.reduce(
+        (sum, range) => sum + Math.max(0, Math.min(last, toNumber(range.end)) - Math.max(first, toNumber(range.start)) + 1),
+        0
+      );
+      const leased = bindings.filter(b => b.pool === pool.name).length;
+      output += ` Total addresses                : ${total}\n`;
+      output += ` Leased addresses               : ${leased}\n`;
+      output += ` Excluded addresses             : ${excluded}\n`;
+      output += ' IP address range                    Leased/Excluded/Total\n';
+      output += ` ${`${IPAddressUtils.numberToIp(first)} - ${IPAddressUtils.numberToIp(last)}`.padEnd(35)} ${leased} / ${excluded} / ${total}\n`;
     });
+    return output || 'No DHCP pools configured.';
+  }
 
-    return output || 'No DHCP bindings found.';
+  /**
+   * Show addresses a DHCP server stopped leasing because they were found in use
+   */
+  private showDhcpConflict(device: NetworkDevice): string {
+    if (device.type !== DeviceType.ROUTER && device.type !== DeviceType.SERVER) {
+      return 'This command is only available on routers and servers.';
+    }
+
+    const clock = dhcpEngine.getClock();
+    let output = 'IP address        Detection method   Detection time\n';
+    dhcpEngine.getConflicts(device.id).forEach(conflict => {
+      const method = conflict.detectionMethod === 'ping' ? 'Ping' : 'Gratuitous ARP';
+      output += `${conflict.ipAddress.padEnd(17)} ${method.padEnd(18)} ${this.formatDhcpTimer(clock - conflict.detectedAt)} ago\n`;
+    });
+    return output;
+  }
+
+  /**
+   * Show the leases of the interfaces of a host that get their address from DHCP
+   */
+  private showDhcpLease(device: NetworkDevice): string {
+    const clients = this.getDeviceInterfaces(device).filter(iface => iface.dhcpClient);
+    if (clients.length === 0) {
+      return 'No interface is configured with ip address dhcp.';
+    }
+
+    const clock = dhcpEngine.getClock();
+    return clients.map(iface => {
+      const lease = dhcpEngine.getClientLease(device.id, iface.id);
+      const leased = dhcpEngine.getLeasedAddress(device.id, iface.id);
+      if (!lease || !leased) {
+        return `Interface ${iface.name}: no lease, state ${lease?.state ?? 'init'}`;
+      }
+
+      const { network: address, prefixLength } = SubnetCalculator.parseSubnet(leased);
+      const timer = (at?: number) => at === undefined || at === Infinity ? 'never' : this.formatDhcpTimer(at - clock);
+      let output = `Temp IP addr: ${address}  for peer on Interface: ${iface.name}\n`;
+      output += `Temp  sub net mask: ${SubnetCalculator.prefixToMask(prefixLength)}\n`;
+      output += `   DHCP Lease server: ${lease.serverId}, state: ${lease.state}\n`;
+      output += `   DHCP transaction id: ${lease.xid?.toUpperCase()}\n`;
+      output += `   Lease: ${formatDhcpLeaseTime(lease.leaseTime!)},  Renewal in: ${timer(lease.renewAt)},  Rebind in: ${timer(lease.rebindAt)},  Expires in: ${timer(lease.expiresAt)}\n`;
+      output += `Temp default-gateway addr: ${lease.gateway ?? 'none'}\n`;
+      if (lease.dnsServers?.length) {
+        output += `Temp DNS servers: ${lease.dnsServers.join(' ')}\n`;
+      }
+      return output;
+    }).join('\n');
+  }
+
+  /**
+   * Show the DHCP snooping settings of a switch and its trusted ports
+   */
+  private showDhcpSnooping(device: NetworkDevice): string {
+    if (!isSwitchingDevice(device)) {
+      return 'This command is only available on switches.';
+    }
+
+    const sw = device as SwitchDevice;
+    const snooping = sw.dhcpSnooping;
+    const vlans = snooping?.vlans ?? [];
+    let output = `Switch DHCP snooping is ${snooping?.enabled ? 'enabled' : 'disabled'}\n`;
+    output += 'DHCP snooping is configured on following VLANs:\n';
+    output += `${vlans.length > 0 ? formatVlanList(vlans) : 'none'}\n`;
+    output += 'DHCP snooping is operational on following VLANs:\n';
+    output += `${snooping?.enabled && vlans.length > 0 ? formatVlanList(vlans) : 'none'}\n`;
+    output += `Verification of hwaddr field is ${snooping?.verifyMacAddress === false ? 'disabled' : 'enabled'}\n`;
+    output += 'Interface                  Trusted\n';
+    output += '-----------------------    -------\n';
+    sw.interfaces
+      .filter(iface => iface.snooping?.dhcpTrust)
+      .forEach(iface => {
+        output += `${expandInterfaceName(iface.name).padEnd(26)} yes\n`;
+      });
+    return output;
+  }
+
+  /**
+   * Show the DHCP snooping bindings a switch learned
+   */
+  private showDhcpSnoopingBinding(device: NetworkDevice): string {
+    if (!isSwitchingDevice(device)) {
+      return 'This command is only available on switches.';
+    }
+
+    const clock = dhcpSnoopingEngine.getClock();
+    const bindings = dhcpSnoopingEngine.getBindings(device.id);
+    let output = 'MacAddress          IpAddress        Lease(sec)  Type           VLAN  Interface\n';
+    output += '------------------  ---------------  ----------  -------------  ----  --------------------\n';
+    bindings.forEach(binding => {
+      const lease = binding.expiresAt === Infinity ? 'infinite' : Math.max(0, Math.floor((binding.expiresAt - clock) / 1000)).toString();
+      output += `${binding.macAddress.toUpperCase().padEnd(19)} ${binding.ipAddress.padEnd(16)} ${lease.padEnd(11)} dhcp-snooping  ${binding.vlanId.toString().padEnd(5)} ${expandInterfaceName(binding.interface)}\n`;
+    });
+    output += `Total number of bindings: ${bindings.length}\n`;
+    return output;
+  }
+
+  /**
+   * Show the VLANs a switch inspects ARP in, with what it forwarded and dropped
+   */
+  private showArpInspection(device: NetworkDevice): string {
+    if (!isSwitchingDevice(device)) {
+      return 'This command is only available on switches.';
+    }
+
+    const vlans = (device as SwitchDevice).arpInspectionVlans ?? [];
+    const stats = dhcpSnoopingEngine.getArpInspectionStats(device.id);
+    let output = ' Vlan     Configuration    Operation\n';
+    output += ' ----     -------------    ---------\n';
+    vlans.forEach(vlan => {
+      output += ` ${vlan.toString().padStart(4)}     ${'Enabled'.padEnd(16)} Active\n`;
+    });
+    output += '\n Vlan      Forwarded        Dropped     DHCP Drops\n';
+    output += ' ----      ---------        -------     ----------\n';
+    vlans.forEach(vlan => {
+      const { forwarded, dropped } = stats.get(vlan) ?? { forwarded: 0, dropped: 0 };
+      output += ` ${vlan.toString().padStart(4)} ${forwarded.toString().padStart(14)} ${dropped.toString().padStart(14)} ${dropped.toString().padStart(14)}\n`;
+    });
+    return output;
+  }
+
+  /**
+   * Show the source addresses IP source guard lets through on each port it filters
+   */
+  private showIpVerifySource(device: NetworkDevice): string {
+    if (!isSwitchingDevice(device)) {
+      return 'This command is only available on switches.';
+    }
+
+    const bindings = dhcpSnoopingEngine.getBindings(device.id);
+    let output = 'Interface  Filter-type  Filter-mode  IP-address       Mac-address        Vlan\n';
+    output += '---------  -----------  -----------  ---------------  -----------------  ----------\n';
+    (device as SwitchDevice).interfaces
+      .filter(iface => iface.snooping?.verifySource)
+      .forEach(iface => {
+        const name = abbreviateInterfaceName(iface.name).padEnd(10);
+        const bound = bindings.filter(b => b.interface === iface.name);
+        if (bound.length === 0) {
+          output += `${name} ip           active       ${'deny-all'.padEnd(16)} ${''.padEnd(18)} ${iface.vlanConfig?.accessVlan ?? 1}\n`;
+        }
+        bound.forEach(binding => {
+          output += `${name} ip           active       ${binding.ipAddress.padEnd(16)} ${''.padEnd(18)} ${binding.vlanId}\n`;
+        });
+      });
+    return output;
+  }
+
+  /**
+   * Show the secure ports of a switch with their address counts and violations
+   */
+  private showPortSecurity(device: NetworkDevice): string {
+    if (!isSwitchingDevice(device)) {
+      return 'This command is only available on switches.';
+    }
+
+    const sw = device as SwitchDevice;
+    let output = 'Secure Port  MaxSecureAddr  CurrentAddr  SecurityViolation  Security Action\n';
+    output += '                (Count)       (Count)          (Count)\n';
+    output += '---------------------------------------------------------------------------\n';
+    sw.interfaces
+      .filter(iface => iface.portSecurity?.enabled)
+      .forEach(iface => {
+        const config = iface.portSecurity!;
+        const current = portSecurityEngine.getSecureAddresses(sw, iface).length;
+        const violations = portSecurityEngine.getViolations(sw.id, iface.id).count;
+        const action = config.violation.charAt(0).toUpperCase() + config.violation.slice(1);
+        output += `${abbreviateInterfaceName(iface.name).padStart(11)} ${config.maximum.toString().padStart(14)} ${current.toString().padStart(12)} ${violations.toString().padStart(18)} ${action.padStart(16)}\n`;
+      });
+    output += '---------------------------------------------------------------------------\n';
+    output += `Total Addresses in System (excluding one mac per port)     : ${this.countExtraSecureAddresses(sw)}\n`;
+    output += 'Max Addresses limit in System (excluding one mac per port) : 4096\n';
+    return output;
+  }
+
+  /**
+   * Show the port security settings and state of one port
+   */
+  private showPortSecurityInterface(device: NetworkDevice, interfaceName: string): string {
+    if (!isSwitchingDevice(device)) {
+      return 'This command is only available on switches.';
+    }
+
+    const sw = device as SwitchDevice;
+    const name = resolveInterfaceName(interfaceName, sw.interfaces);
+    const iface = sw.interfaces.find(i => i.name === name);
+    if (!iface) {
+      return `Interface ${interfaceName} not found.`;
+    }
+
+    const config = iface.portSecurity ?? { enabled: false, maximum: 1, violation: 'shutdown', macAddresses: [] };
+    const addresses = portSecurityEngine.getSecureAddresses(sw, iface);
+    const violations = portSecurityEngine.getViolations(sw.id, iface.id);
+    const shutdown = portSecurityEngine.isErrDisabled(sw.id, iface.id) || iface.errDisabled?.cause === 'psecure-violation';
+    const status = !config.enabled ? 'Secure-down' : shutdown ? 'Secure-shutdown' : iface.status === InterfaceStatus.UP ? 'Secure-up' : 'Secure-down';
+    const lastSource = violations.lastSource
+      ? `${formatMacAddress(violations.lastSource.macAddress)}:${violations.lastSource.vlanId}`
+      : '0000.0000.0000:0';
+    const capitalize = (value: string) => value.charAt(0).toUpperCase() + value.slice(1);
+
+    let output = `Port Security              : ${config.enabled ? 'Enabled' : 'Disabled'}\n`;
+    output += `Port Status                : ${status}\n`;
+    output += `Violation Mode             : ${capitalize(config.violation)}\n`;
+    output += `Aging Time                 : ${config.agingTime ?? 0} mins\n`;
+    output += `Aging Type                 : ${capitalize(config.agingType ?? 'absolute')}\n`;
+    output += 'SecureStatic Address Aging : Disabled\n';
+    output += `Maximum MAC Addresses      : ${config.maximum}\n`;
+    output += `Total MAC Addresses        : ${addresses.length}\n`;
+    output += `Configured MAC Addresses   : ${addresses.filter(a => a.type === 'static').length}\n`;
+    output += `Sticky MAC Addresses       : ${addresses.filter(a => a.type === 'sticky').length}\n`;
+    output += `Last Source Address:Vlan   : ${lastSource}\n`;
+    output += `Security Violation Count   : ${violations.count}\n`;
+    return output;
+  }
+
+  /**
+   * Show the secure MAC addresses of a switch
+   */
+  private showPortSecurityAddress(device: NetworkDevice): string {
+    if (!isSwitchingDevice(device)) {
+      return 'This command is only available on switches.';
+    }
+
+    const sw = device as SwitchDevice;
+    const types = { static: 'SecureConfigured', sticky: 'SecureSticky', dynamic: 'SecureDynamic' };
+    let output = '               Secure Mac Address Table\n';
+    output += '-----------------------------------------------------------------------------\n';
+    output += 'Vlan    Mac Address       Type                          Ports   Remaining Age\n';
+    output += '                                                                   (mins)\n';
+    output += '----    -----------       ----                          -----   -------------\n';
+    sw.interfaces
+      .filter(iface => iface.portSecurity?.enabled)
+      .forEach(iface => {
+        const config = iface.portSecurity!;
+        portSecurityEngine.getSecureAddresses(sw, iface).forEach(address => {
+          let remaining = '-';
+          if (address.type === 'dynamic' && config.agingTime) {
+            const since = config.agingType === 'inactivity' ? address.lastSeen : address.learnedAt;
+            remaining = Math.ceil((config.agingTime * 60000 - (portSecurityEngine.getClock() - since)) / 60000).toString();
+          }
+          output += `${address.vlanId.toString().padStart(4)}    ${formatMacAddress(address.macAddress).padEnd(17)} ${types[address.type].padEnd(29)} ${abbreviateInterfaceName(iface.name).padEnd(7)} ${remaining.padStart(8)}\n`;
+        });
+      });
+    output += '-----------------------------------------------------------------------------\n';
+    output += `Total Addresses in System (excluding one mac per port)     : ${this.countExtraSecureAddresses(sw)}\n`;
+    output += 'Max Addresses limit in System (excluding one mac per port) : 4096\n';
+    return output;
+  }
+
+  /**
+   * Secure addresses of a switch beyond the first on each port, as the show port-security totals count them
+   */
+  private countExtraSecureAddresses(sw: SwitchDevice): number {
+    return sw.interfaces
+      .filter(iface => iface.portSecurity?.enabled)
+      .reduce((total, iface) => total + Math.max(0, portSecurityEngine.getSecureAddresses(sw, iface).length - 1), 0);
+  }
+
+  /**
+   * Show the channel groups of a switch, each port flagged with what its negotiation came to
+   */
+  private showEtherChannelSummary(device: NetworkDevice): string {
+    if (!isSwitchingDevice(device)) {
+      return 'This command is only available on switches.';
+    }
+
+    const sw = device as SwitchDevice;
+    const channels = buildLinkAggregationGroups(Array.from(this.devices.values()), this.connections);
+    const flags = { bundled: 'P', 'stand-alone': 'I', suspended: 's', down: 'D' };
+    const groups = Array.from(new Set(sw.interfaces.flatMap(i => i.channelGroup ? [i.channelGroup.group] : []))).sort((a, b) => a - b);
+    const notes: string[] = [];
+
+    const rows = groups.map(group => {
+      const ports = sw.interfaces.filter(i => i.channelGroup?.group === group);
+      const states = ports.map(port => {
+        const connection = this.connections.find(c =>
+          (c.sourceDevice === sw.id && (c.sourceInterface === port.id || c.sourceInterface === port.name)) ||
+          (c.targetDevice === sw.id && (c.targetInterface === port.id || c.targetInterface === port.name))
+        );
+        const member = connection ? getLinkAggregationMember(channels, connection.id) : undefined;
+        if (member?.reason) notes.push(`${abbreviateInterfaceName(port.name)} (${flags[member.state]}): ${member.reason}`);
+        return { port, flag: member ? flags[member.state] : 'D' };
+      });
+      const protocol = getChannelProtocol(ports[0].channelGroup!.mode);
+      const inUse = states.some(s => s.flag === 'P');
+      const portList = states.map(({ port, flag }) => `${abbreviateInterfaceName(port.name)}(${flag})`.padEnd(12)).join('');
+      return `${group.toString().padEnd(7)}${`Po${group}(S${inUse ? 'U' : 'D'})`.padEnd(14)}${(protocol === 'Static' ? '-' : protocol).padEnd(12)}${portList.trimEnd()}\n`;
+    });
+
+    let output = 'Flags:  D - down        P - bundled in port-channel\n';
+    output += '        I - stand-alone s - suspended\n';
+    output += '        H - Hot-standby (LACP only)\n';
+    output += '        R - Layer3      S - Layer2\n';
+    output += '        U - in use      f - failed to allocate aggregator\n\n';
+    output += `Number of channel-groups in use: ${groups.length}\n`;
+    output += `Number of aggregators:           ${groups.length}\n\n`;
+    output += 'Group  Port-channel  Protocol    Ports\n';
+    output += '------+-------------+-----------+-----------------------------------------------\n';
+    output += rows.join('');
+    if (notes.length > 0) {
+      output += '\n' + notes.join('\n') + '\n';
+    }
+    return output;
+  }
+
+  /**
+   * Show the frame fields a switch hashes to pick a port-channel link
+   */
+  private showEtherChannelLoadBalance(device: NetworkDevice): string {
+    if (!isSwitchingDevice(device)) {
+      return 'This command is only available on switches.';
+    }
+
+    const method = (device as SwitchDevice).etherChannelLoadBalance ?? DEFAULT_ETHERCHANNEL_LOAD_BALANCE;
+    const [direction, ...rest] = method.split('-');
+    const scope = rest.length === 2 ? 'Source XOR Destination' : direction === 'src' ? 'Source' : 'Destination';
+    const fields = { mac: 'MAC address', ip: 'IP address', port: 'TCP/UDP (layer-4) port number' };
+    const kind = rest[rest.length - 1] as keyof typeof fields;
+    const ipFields = kind === 'mac' ? fields.mac : fields[kind];
+
+    let output = 'EtherChannel Load-Balancing Configuration:\n';
+    output += `        ${method}\n\n`;
+    output += 'EtherChannel Load-Balancing Addresses Used Per-Protocol:\n';
+    output += `Non-IP: ${scope} ${fields.mac}\n`;
+    output += `  IPv4: ${scope} ${ipFields}\n`;
+    output += `  IPv6: ${scope} ${ipFields}\n`;
+    return output;
+  }
+
+  /**
+   * HSRP groups of a router or multilayer switch, with the state each interface is in
+   */
+  private showStandby(device: NetworkDevice, brief: boolean): string {
+    if (device.type !== DeviceType.ROUTER && device.type !== DeviceType.MULTILAYER_SWITCH) {
+      return 'This command is only available on routers and multilayer switches.';
+    }
+
+    const entries = this.getFhrpEntries(device, 'hsrp');
+    const describe = (member: FhrpMember | undefined, holdTime: number): string => {
+      if (!member) return 'unknown';
+      if (member.deviceId === device.id) return 'local';
+      return `${member.address}, priority ${member.priority} (expires in ${this.getFhrpExpiry(member, holdTime)} sec)`;
+    };
+
+    if (brief) {
+      let output = '                     P indicates configured to preempt.\n';
+      output += '                     |\n';
+      output += 'Interface   Grp  Pri P State   Active          Standby         Virtual IP\n';
+      entries.forEach(({ group, member }) => {
+        const peer = (other?: FhrpMember) => !other ? 'unknown' : other.deviceId === device.id ? 'local' : other.address ?? 'unknown';
+        output += `${abbreviateInterfaceName(member.interfaceName).padEnd(12)}${member.config.group.toString().padEnd(5)}`;
+        output += `${member.priority.toString().padEnd(4)}${(member.preempt ? 'P' : ' ').padEnd(2)}${getFhrpStateName('hsrp', member.state).padEnd(8)}`;
+        output += `${peer(group.active).padEnd(16)}${peer(group.standby).padEnd(16)}${group.virtualIp ?? 'unknown'}\n`;
+      });
+      return output;
+    }
+
+    return entries.map(({ group, member }) => {
+      const configured = member.config.priority ?? FHRP_DEFAULT_PRIORITY;
+      const holdTime = getFhrpHoldTime(member.config);
+      let output = `${expandInterfaceName(member.interfaceName)} - Group ${member.config.group}\n`;
+      output += `  State is ${getFhrpStateName('hsrp', member.state)}${member.up ? '' : ` (${member.reason})`}\n`;
+      output += `    ${member.stateChanges} state change${member.stateChanges === 1 ? '' : 's'}, last state change ${this.formatDhcpTimer(fhrpEngine.getClock() - member.lastStateChange)}\n`;
+      output += `  Virtual IP address is ${group.virtualIp ?? 'unknown'}\n`;
+      output += `  Active virtual MAC address is ${group.active ? formatMacAddress(group.virtualMac) : 'unknown'}\n`;
+      output += `    Local virtual MAC address is ${formatMacAddress(group.virtualMac)} (v1 default)\n`;
+      output += `  Hello time ${getFhrpHelloTime(member.config)} sec, hold time ${holdTime} sec\n`;
+      output += `  Preemption ${member.preempt ? 'enabled' : 'disabled'}\n`;
+      output += `  Active router is ${describe(group.active, holdTime)}\n`;
+      output += `  Standby router is ${describe(group.standby, holdTime)}\n`;
+      output += `  Priority ${member.priority} (configured ${configured})\n`;
+      output += this.describeFhrpTracks(member);
+      output += `  Group name is "hsrp-${abbreviateInterfaceName(member.interfaceName)}-${member.config.group}" (default)\n`;
+      return output;
+    }).join('');
+  }
+
+  /**
+   * VRRP groups of a router or multilayer switch, with the state each interface is in
+   */
+  private showVrrp(device: NetworkDevice, brief: boolean): string {
+    if (device.type !== DeviceType.ROUTER && device.type !== DeviceType.MULTILAYER_SWITCH) {
+      return 'This command is only available on routers and multilayer switches.';
+    }
+
+    const entries = this.getFhrpEntries(device, 'vrrp');
+    if (brief) {
+      let output = 'Interface          Grp Pri Time  Own Pre State   Master addr     Group addr\n';
+      entries.forEach(({ group, member }) => {
+        const downInterval = Math.round(getFhrpHoldTime(member.config, member.priority) * 1000);
+        const master = group.active?.address ?? 'unknown';
+        output += `${abbreviateInterfaceName(member.interfaceName).padEnd(19)}${member.config.group.toString().padEnd(4)}`;
+        output += `${member.priority.toString().padEnd(4)}${downInterval.toString().padEnd(6)}${(member.address === group.virtualIp ? 'Y' : ' ').padEnd(4)}`;
+        output += `${(member.preempt ? 'Y' : ' ').padEnd(4)}${getFhrpStateName('vrrp', member.state).padEnd(8)}${master.padEnd(16)}${group.virtualIp ?? 'unknown'}\n`;
+      });
+      return output;
+    }
+
+    return entries.map(({ group, member }) => {
+      const advertisement = getFhrpHelloTime(member.config);
+      const master = group.active;
+      let output = `${expandInterfaceName(member.interfaceName)} - Group ${member.config.group}\n`;
+      output += `  State is ${getFhrpStateName('vrrp', member.state)}${member.up ? '' : ` (${member.reason})`}\n`;
+      output += `  Virtual IP address is ${group.virtualIp ?? 'unknown'}\n`;
+      output += `  Virtual MAC address is ${formatMacAddress(group.virtualMac)}\n`;
+      output += `  Advertisement interval is ${advertisement.toFixed(3)} sec\n`;
+      output += `  Preemption ${member.preempt ? 'enabled' : 'disabled'}\n`;
+      output += `  Priority is ${member.priority}${member.priority !== (member.config.priority ?? FHRP_DEFAULT_PRIORITY) ? ` (configured ${member.config.priority ?? FHRP_DEFAULT_PRIORITY})` : ''}\n`;
+      output += this.describeFhrpTracks(member);
+      if (!master) {
+        output += '  Master Router is unknown\n';
+      } else if (master.deviceId === device.id) {
+        output += `  Master Router is ${master.address} (local), priority is ${master.priority}\n`;
+      } else {
+        output += `  Master Router is ${master.address}, priority is ${master.priority}\n`;
+      }
+      output += `  Master Advertisement interval is ${getFhrpHelloTime((master ?? member).config).toFixed(3)} sec\n`;
+      output += `  Master Down interval is ${getFhrpHoldTime(member.config, member.priority).toFixed(3)} sec`;
+      if (master && master.deviceId !== device.id) {
+        output += ` (expires in ${this.getFhrpExpiry(master, getFhrpHoldTime(member.config, member.priority))} sec)`;
+      }
+      return output + '\n';
+    }).join('');
+  }
+
+  /**
+   * Groups of one protocol a device takes part in, in interface order
+   */
+  private getFhrpEntries(device: NetworkDevice, protocol: FhrpProtocol): Array<{ group: FhrpGroup; member: FhrpMember }> {
+    const interfaces = (device as RouterDevice | MultilayerSwitchDevice).interfaces;
+    const groups = fhrpEngine.getGroups(
+      Array.from(this.devices.values()),
+      this.connections,
+      connectionId => !!this.spanningTreeEngine?.isLinkFailed(connectionId)
+    );
+    return groups
+      .filter(group => group.protocol === protocol)
+      .flatMap(group => group.members.filter(m => m.deviceId === device.id).map(member => ({ group, member })))
+      .sort((a, b) =>
+        interfaces.findIndex(i => i.id === a.member.interfaceId) - interfaces.findIndex(i => i.id === b.member.interfaceId) ||
+        a.group.group - b.group.group
+      );
+  }
+
+  /**
+   * Seconds until a router's hold time runs out without another hello
+   */
+  private getFhrpExpiry(member: FhrpMember, holdTime: number): string {
+    const silent = member.lastHeard === undefined ? 0 : fhrpEngine.getClock() - member.lastHeard;
+    return Math.max(0, holdTime - silent / 1000).toFixed(3);
+  }
+
+  private describeFhrpTracks(member: FhrpMember): string {
+    return (member.config.track ?? []).map(track => {
+      const state = member.downTracks.includes(track.interface) ? 'Down' : 'Up';
+      return `    Track interface ${expandInterfaceName(track.interface)} state ${state} decrement ${track.decrement ?? FHRP_DEFAULT_TRACK_DECREMENT}\n`;
+    }).join('');
+  }
+
+  /**
+   * Administrative and operational mode of switchports, the operational one as DTP negotiated it
+   */
+  private showInterfacesSwitchport(device: NetworkDevice, interfaceName?: string): string {
+    if (!isSwitchingDevice(device)) {
+      return 'This command is only available on switches.';
+    }
+
+    const name = interfaceName ? resolveInterfaceName(interfaceName, device.interfaces) : undefined;
+    if (interfaceName && !name) {
+      return `Interface ${interfaceName} not found.`;
+    }
+    const states = resolveTrunking(Array.from(this.devices.values()), this.connections).filter(p => p.deviceId === device.id);
+    const vlanName = (id: number) => id === 1 ? 'default' : device.vlanDatabase.find(v => v.id === id)?.name ?? 'Inactive';
+
+    return device.interfaces
+      .filter(port => !name || port.name === name)
+      .flatMap(port => {
+        const state = states.find(p => p.interfaceId === port.id);
+        if (!state) {
+          return [`Name: ${abbreviateInterfaceName(port.name)}\nSwitchport: Disabled\n`];
+        }
+        const operational = state.operational === 'access' ? 'static access' : state.operational;
+        const access = port.vlanConfig?.accessVlan ?? 1;
+        const native = port.vlanConfig?.nativeVlan ?? 1;
+        const allowed = port.vlanConfig?.allowedVlans;
+        let output = `Name: ${abbreviateInterfaceName(port.name)}\n`;
+        output += 'Switchport: Enabled\n';
+        output += `Administrative Mode: ${formatSwitchportMode(state.administrative)}\n`;
+        output += `Operational Mode: ${operational}\n`;
+        output += 'Administrative Trunking Encapsulation: dot1q\n';
+        output += `Operational Trunking Encapsulation: ${state.operational === 'trunk' ? 'dot1q' : 'native'}\n`;
+        output += `Negotiation of Trunking: ${port.nonegotiate ? 'Off' : 'On'}\n`;
+        output += `Access Mode VLAN: ${access} (${vlanName(access)})\n`;
+        output += `Trunking Native Mode VLAN: ${native} (${vlanName(native)})\n`;
+        output += `Trunking VLANs Enabled: ${allowed ? (allowed.length > 0 ? formatVlanList(allowed) : 'NONE') : 'ALL'}\n`;
+        if (state.negotiated.reason) {
+          output += `DTP: ${state.negotiated.reason}\n`;
+        }
+        return [output];
+      })
+      .join('\n');
+  }
+
+  /**
+   * VTP domain, mode and configuration revision of a switch
+   */
+  private showVtpStatus(device: NetworkDevice): string {
+    if (!isSwitchingDevice(device)) {
+      return 'This command is only available on switches.';
+    }
+
+    const vtp = getVtpConfig(device);
+    const modes = { [VtpMode.SERVER]: 'Server', [VtpMode.CLIENT]: 'Client', [VtpMode.TRANSPARENT]: 'Transparent', [VtpMode.OFF]: 'Off' };
+    const digest = computeVtpDigest(vtp.password, vtp.domain ?? '', vtp.revision, device.vlanDatabase).split(' ');
+    const modified = vtp.lastModified ? new Date(vtp.lastModified).toLocaleString() : '0-0-00 00:00:00';
+    const baseMac = device.interfaces[0]?.macAddress ?? '0000.0000.0000';
+
+    let output = `VTP Version capable             : 1 to 3\n`;
+    output += `VTP version running             : ${vtp.version}\n`;
+    output += `VTP Domain Name                 : ${vtp.domain ?? ''}\n`;
+    output += 'VTP Pruning Mode                : Disabled\n';
+    output += 'VTP Traps Generation            : Disabled\n';
+    output += `Device ID                       : ${formatMacAddress(baseMac)}\n`;
+    if (isVtpSynchronized(vtp.mode)) {
+      output += `Configuration last modified by ${vtp.updater ?? '0.0.0.0'} at ${modified}\n`;
+    }
+    if (vtp.mode === VtpMode.SERVER) {
+      const updater = getVtpUpdaterId(device);
+      output += `Local updater ID is ${updater}${updater === '0.0.0.0' ? ' (no valid interface found)' : ''}\n`;
+    }
+    output += '\nFeature VLAN:\n';
+    output += '--------------\n';
+    output += `VTP Operating Mode                : ${modes[vtp.mode]}\n`;
+    if (vtp.version === 3 && vtp.mode === VtpMode.SERVER) {
+      output += `Primary Server                    : ${vtp.primary ? 'Yes' : 'No'}\n`;
+    }
+    output += `Maximum VLANs supported locally   : ${VTP_MAX_LOCAL_VLANS}\n`;
+    output += `Number of existing VLANs          : ${device.vlanDatabase.length}\n`;
+    output += `Configuration Revision            : ${vtp.revision}\n`;
+    output += `MD5 digest                        : ${digest.slice(0, 8).join(' ')}\n`;
+    output += `                                    ${digest.slice(8).join(' ')}\n`;
+    return output;
+  }
+
+  /**
+   * Advertisements a switch sent and received, and the ones it refused
+   */
+  private showVtpCounters(device: NetworkDevice): string {
+    if (!isSwitchingDevice(device)) {
+      return 'This command is only available on switches.';
+    }
+
+    const counters = vtpEngine.getCounters(device.id);
+    let output = 'VTP statistics:\n';
+    output += `Summary advertisements received    : ${counters.summaryReceived}\n`;
+    output += `Subset advertisements received     : ${counters.subsetReceived}\n`;
+    output += `Request advertisements received    : ${counters.requestReceived}\n`;
+    output += `Summary advertisements transmitted : ${counters.summarySent}\n`;
+    output += `Subset advertisements transmitted  : ${counters.subsetSent}\n`;
+    output += `Request advertisements transmitted : ${counters.requestSent}\n`;
+    output += `Number of config revision errors   : ${counters.revisionErrors}\n`;
+    output += `Number of config digest errors     : ${counters.digestErrors}\n`;
+    output += `Number of V1 summary errors        : ${counters.v1SummaryErrors}\n`;
+    return output;
+  }
+
+  private showVtpPassword(device: NetworkDevice): string {
+    if (!isSwitchingDevice(device)) {
+      return 'This command is only available on switches.';
+    }
+    const password = device.vtp?.password;
+    return password ? `VTP Password: ${password}\n` : 'The VTP password is not configured.\n';
+  }
+
+  /**
+   * 802.1Q subinterfaces of a router, one block per VLAN it routes
+   */
+  private showVlans(device: NetworkDevice): string {
+    if (device.type !== DeviceType.ROUTER) {
+      return 'This command is only available on routers.';
+    }
+
+    const subinterfaces = (device as RouterDevice).interfaces
+      .filter(iface => iface.encapsulation)
+      .sort((a, b) => a.encapsulation!.vlanId - b.encapsulation!.vlanId);
+    if (subinterfaces.length === 0) {
+      return 'No virtual LANs configured.';
+    }
+
+    return subinterfaces.map(iface => {
+      const { vlanId, native } = iface.encapsulation!;
+      let output = `Virtual LAN ID:  ${vlanId} (IEEE 802.1Q Encapsulation)\n\n`;
+      output += `   vLAN Trunk Interface:   ${expandInterfaceName(iface.name)}\n\n`;
+      if (native) {
+        output += ` This is configured as native Vlan for the following interface(s) :\n${expandInterfaceName(iface.parentInterface!)}\n\n`;
+      }
+      output += '   Protocols Configured:   Address:\n';
+      output += `           IP              ${iface.ipAddress?.split('/')[0] ?? 'unassigned'}\n`;
+      return output;
+    }).join('\n');
+  }
+
+  /**
+   * DHCP clock milliseconds as hh:mm:ss
+   */
+  private formatDhcpTimer(ms: number): string {
+    const seconds = Math.max(0, Math.floor(ms / 1000));
+    return `${Math.floor(seconds / 3600).toString().padStart(2, '0')}:${Math.floor((seconds % 3600) / 60).toString().padStart(2, '0')}:${(seconds % 60).toString().padStart(2, '0')}`;
   }
 
   /**
@@ -826,8 +1920,9 @@ Configuration register is 0x2102
     }
 
     const statusInfo = this.getInterfaceStatusInfo(targetInterface, device);
-    
-    return `${targetInterface.name} is ${statusInfo.status}, line protocol is ${statusInfo.protocol}
+    const errDisabled = targetInterface.status === InterfaceStatus.ERR_DISABLED ? ' (err-disabled)' : '';
+
+    return `${targetInterface.name} is ${statusInfo.status}, line protocol is ${statusInfo.protocol}${errDisabled}
   Hardware is ${statusInfo.mediaType}, address is ${targetInterface.macAddress}
   Internet address is ${statusInfo.ipAddress || 'unassigned'}
   MTU ${statusInfo.mtu} bytes, BW ${statusInfo.bandwidth} Kbit/sec, DLY ${statusInfo.delay} usec,
@@ -866,6 +1961,8 @@ Configuration register is 0x2102
         return (device as RouterDevice).interfaces;
       case DeviceType.SWITCH:
         return (device as SwitchDevice).interfaces;
+      case DeviceType.MULTILAYER_SWITCH:
+        return (device as MultilayerSwitchDevice).interfaces;
       default:
         return [];
     }
@@ -877,7 +1974,7 @@ Configuration register is 0x2102
       name: iface.name,
       status: iface.status,
       protocol: isUp ? 'up' : 'down',
-      ipAddress: iface.ipAddress,
+      ipAddress: iface.ipAddress ?? (iface.dhcpClient ? dhcpEngine.getLeasedAddress(device.id, iface.id) : undefined),
       mtu: 1500,
       bandwidth: iface.speed * 1000, // Convert to Kbit/sec
       delay: iface.speed >= 1000 ? 10 : 100, // usec
@@ -929,6 +2026,9 @@ Configuration register is 0x2102
     switch (role) {
       case 'root': return 'Root';
       case 'designated': return 'Desg';
+      case 'alternate': return 'Altn';
+      case 'backup': return 'Back';
+      case 'master': return 'Mstr';
       case 'blocked': return 'Blck';
       case 'disabled': return 'Dsbl';
       default: return 'Unkn';
@@ -940,7 +2040,8 @@ Configuration register is 0x2102
       case SpanningTreePortState.FORWARDING: return 'FWD';
       case SpanningTreePortState.LEARNING: return 'LRN';
       case SpanningTreePortState.LISTENING: return 'LIS';
-      case SpanningTreePortState.BLOCKING: return 'BLK';
+      case SpanningTreePortState.BLOCKING:
+      case SpanningTreePortState.DISCARDING: return 'BLK';
       case SpanningTreePortState.DISABLED: return 'DIS';
       default: return 'UNK';
     }
@@ -1000,6 +2101,7 @@ Configuration register is 0x2102
     switch (device.type) {
       case DeviceType.ROUTER: return 'R';
       case DeviceType.SWITCH: return 'S';
+      case DeviceType.MULTILAYER_SWITCH: return 'R S';
       case DeviceType.PC: return 'H';
       case DeviceType.SERVER: return 'H S';
       default: return '';
@@ -1013,6 +2115,13 @@ Configuration register is 0x2102
       if (ip === target) return device;
     }
 
+    if (IPv6AddressUtils.isValid(target)) {
+      const address = IPv6AddressUtils.normalize(target);
+      for (const device of this.devices.values()) {
+        if (this.getDeviceIpv6Addresses(device).includes(address)) return device;
+      }
+    }
+
     // Then try to find by name
     for (const device of this.devices.values()) {
       if (device.name.toLowerCase() === target.toLowerCase()) return device;
@@ -1024,13 +2133,24 @@ Configuration register is 0x2102
   private getDeviceIpAddress(device: NetworkDevice): string | undefined {
     const interfaces = this.getDeviceInterfaces(device);
     for (const iface of interfaces) {
-      if (iface.ipAddress) {
-        return iface.ipAddress.split('/')[0]; // Remove CIDR notation
+      const ipAddress = iface.ipAddress ?? (iface.dhcpClient ? dhcpEngine.getLeasedAddress(device.id, iface.id) : undefined);
+      if (ipAddress) {
+        return ipAddress.split('/')[0]; // Remove CIDR notation
       }
     }
     return undefined;
   }
 
+  /**
+   * Global IPv6 addresses of a device, including those learned through SLAAC
+   */
+  private getDeviceIpv6Addresses(device: NetworkDevice): string[] {
+    return this.getDeviceInterfaces(device)
+      .flatMap(iface => this.simulationEngine?.getIpv6Addresses(device.id, iface.id) ?? IPv6AddressUtils.getInterfaceAddresses(iface))
+      .filter(a => a.origin !== 'link-local')
+      .map(a => a.address);
+  }
+
   private getDeviceVlans(device: NetworkDevice): number[] {
     const vlans = new Set<number>();
     const interfaces = this.getDeviceInterfaces(device);
@@ -0,0 +1,340 @@
+import {
+  NetworkDevice,
+  NetworkInterface,
+  Connection,
+  ConnectionStatus,
+  InterfaceStatus,
+  InterfaceType,
+  SwitchingDevice,
+  VlanEntry,
+  VtpMode,
+  VtpSwitchConfig,
+} from '../../types';
+import { isSwitchingDevice, isSwitchport, getSvis } from './multilayerSwitch';
+
+export const VTP_DEFAULT_VERSION = 1;
+export const VTP_MAX_LOCAL_VLANS = 1005;
+
+/**
+ * Summary advertisement: the domain's configuration revision and the digest of the VLAN
+ * database, sent out of every trunk
+ */
+export interface VtpSummary {
+  type: 'summary';
+  domain: string;
+  version: 1 | 2 | 3;
+  revision: number;
+  updater: string;
+  lastModified?: number;
+  digest: string;
+  primary?: boolean; // sent by the version 3 primary server
+}
+
+/**
+ * Subset advertisement: the VLANs of the revision a summary announced
+ */
+export interface VtpSubset {
+  type: 'subset';
+  domain: string;
+  version: 1 | 2 | 3;
+  revision: number;
+  sequence: number;
+  vlans: VlanEntry[];
+}
+
+/**
+ * show vtp counters of one switch
+ */
+export interface VtpCounters {
+  summaryReceived: number;
+  subsetReceived: number;
+  requestReceived: number;
+  summarySent: number;
+  subsetSent: number;
+  requestSent: number;
+  revisionErrors: number; // newer revision refused, e.g. not from the version 3 primary server
+  digestErrors: number; // same or newer revision whose digest does not match with the local password
+  v1SummaryErrors: number; // version 1 switch hearing version 3 summaries
+}
+
+/**
+ * What VTP changed on a switch: its VLAN database and the revision it came with
+ */
+export interface VtpUpdate {
+  deviceId: string;
+  vtp: VtpSwitchConfig;
+  vlanDatabase: VlanEntry[];
+  reason: string;
+}
+
+type ResolvedVtpConfig = VtpSwitchConfig & { mode: VtpMode; version: 1 | 2 | 3 };
+
+interface VtpState {
+  device: SwitchingDevice;
+  config: ResolvedVtpConfig;
+  vlans: VlanEntry[];
+  reason?: string;
+}
+
+/**
+ * VTP settings of a switch with the defaults filled in: a version 1 server without a domain
+ */
+export const getVtpConfig = (device: SwitchingDevice): ResolvedVtpConfig => ({
+  ...device.vtp,
+  mode: device.vtp?.mode ?? VtpMode.SERVER,
+  version: device.vtp?.version ?? VTP_DEFAULT_VERSION,
+  revision: device.vtp?.revision ?? 0,
+});
+
+/**
+ * Modes that keep the domain's VLAN database in step: servers and clients
+ */
+export const isVtpSynchronized = (mode: VtpMode): boolean => mode === VtpMode.SERVER || mode === VtpMode.CLIENT;
+
+/**
+ * Address a switch signs its VLAN changes with: the lowest numbered VLAN interface that has one
+ */
+export const getVtpUpdaterId = (device: SwitchingDevice): string => {
+  const svi = getSvis(device)
+    .filter(i => i.ipAddress)
+    .sort((a, b) => (a.sviVlan ?? 0) - (b.sviVlan ?? 0))[0];
+  return svi?.ipAddress?.split('/')[0] ?? '0.0.0.0';
+};
+
+/**
+ * 16 byte digest over the password, domain, revision and VLANs, standing in for the MD5 digest
+ * of real VTP: two switches only agree on it when they share the password and the database
+ */
+export const computeVtpDigest = (password: string | undefined, domain: string, revision: number, vlans: VlanEntry[]): string => {
+  const text = `${password ?? ''}|${domain}|${revision}|${vlans.map(v => `${v.id}:${v.name}:${v.status}`).join(',')}`;
+  const bytes: number[] = [];
+  for (let round = 0; round < 4; round++) {
+    let hash = 0x811c9dc5 ^ round;
+    for (let i = 0; i < text.length; i++) {
+      hash ^= text.charCodeAt(i);
+      hash = Math.imul(hash, 0x01000193);
+    }
+    bytes.push((hash >>> 24) & 0xff, (hash >>> 16) & 0xff, (hash >>> 8) & 0xff, hash & 0xff);
+  }
+  return bytes.map(b => `0x${b.toString(16).toUpperCase().padStart(2, '0')}`).join(' ');
+};
+
+const findPort = (device: SwitchingDevice, ref: string): NetworkInterface | undefined =>
+  device.interfaces.find(i => i.id === ref || i.name === ref);
+
+const isTrunkUp = (port: NetworkInterface | undefined): boolean =>
+  !!port && isSwitchport(port) && port.type === InterfaceType.TRUNK && port.status === InterfaceStatus.UP;
+
+/**
+ * Trunks between switches: VTP advertisements only cross links that are trunking at both ends
+ */
+const collectTrunks = (switches: SwitchingDevice[], connections: Connection[]): Map<string, string[]> => {
+  const trunks = new Map<string, string[]>(switches.map(sw => [sw.id, []])); // deviceId -> switches across its trunks
+  connections.forEach(conn => {
+    if (conn.status === ConnectionStatus.DOWN) return;
+    const source = switches.find(d => d.id === conn.sourceDevice);
+    const target = switches.find(d => d.id === conn.targetDevice);
+    if (!source || !target) return;
+    if (!isTrunkUp(findPort(source, conn.sourceInterface)) || !isTrunkUp(findPort(target, conn.targetInterface))) return;
+    trunks.get(source.id)!.push(target.id);
+    trunks.get(target.id)!.push(source.id);
+  });
+  return trunks;
+};
+
+const emptyCounters = (): VtpCounters => ({
+  summaryReceived: 0,
+  subsetReceived: 0,
+  requestReceived: 0,
+  summarySent: 0,
+  subsetSent: 0,
+  requestSent: 0,
+  revisionErrors: 0,
+  digestErrors: 0,
+  v1SummaryErrors: 0,
+});
+
+/**
+ * VTP over the trunks of the topology. Every server and client floods a summary advertisement
+ * of its domain; a switch that hears a higher configuration revision requests the subset and
+ * replaces its whole VLAN database with it. That is also how a switch added with a higher
+ * revision wipes out the domain's VLANs: the revision wins, not the content. Transparent switches
+ * relay advertisements without taking them (version 1 only within their own domain), switches
+ * with VTP off drop them, and version 3 only takes changes from the primary server.
+ */
+export class VtpEngine {
+  private counters = new Map<string, VtpCounters>(); // deviceId -> show vtp counters
+
+  /**
+   * Exchange advertisements until the domains agree and return the switches whose VLAN database changed
+   */
+  synchronize(devices: NetworkDevice[], connections: Connection[]): VtpUpdate[] {
+    const switches = devices.filter(isSwitchingDevice);
+    const trunks = collectTrunks(switches, connections);
+    const states = new Map<string, VtpState>(switches.map(device => [
+      device.id,
+      { device, config: { ...getVtpConfig(device) }, vlans: device.vlanDatabase },
+    ]));
+    const changed = new Set<string>();
+
+    // A change makes the switch advertise the new revision in the next round, so rounds
+    // continue until one goes by without a change
+    for (let round = 0; round <= switches.length; round++) {
+      let progress = false;
+      switches.forEach(sw => {
+        const sender = states.get(sw.id)!;
+        if (!isVtpSynchronized(sender.config.mode) || !sender.config.domain) return;
+        const summary = this.createSummary(sender);
+        this.count(sw.id, 'summarySent');
+        this.flood(sw.id, trunks, states, (receiver) => {
+          if (this.receiveSummary(receiver, sender, summary)) {
+            changed.add(receiver.device.id);
+            progress = true;
+          }
+        });
+      });
+      if (!progress) break;
+    }
+
+    return Array.from(changed).map(deviceId => {
+      const state = states.get(deviceId)!;
+      return { deviceId, vtp: state.config, vlanDatabase: state.vlans, reason: state.reason ?? '' };
+    });
+  }
+
+  /**
+   * show vtp counters
+   */
+  getCounters(deviceId: string): VtpCounters {
+    return { ...(this.counters.get(deviceId) ?? emptyCounters()) };
+  }
+
+  /**
+   * clear vtp counters
+   */
+  clearCounters(deviceId: string): void {
+    this.counters.delete(deviceId);
+  }
+
+  private count(deviceId: string, counter: keyof VtpCounters): void {
+    const counters = this.counters.get(deviceId) ?? emptyCounters();
+    counters[counter]++;
+    this.counters.set(deviceId, counters);
+  }
+
+  private createSummary({ config, vlans }: VtpState): VtpSummary {
+    return {
+      type: 'summary',
+      domain: config.domain!,
+      version: config.version,
+      revision: config.revision,
+      updater: config.updater ?? '0.0.0.0',
+      lastModified: config.lastModified,
+      digest: computeVtpDigest(config.password, config.domain!, config.revision, vlans),
+      primary: config.version === 3 ? !!config.primary : undefined,
+    };
+  }
+
+  /**
+   * Hand an advertisement to the switches across the trunks of the sender. Transparent switches
+   * pass it on to their other trunks; servers and clients take it and advertise what they
+   * learned themselves.
+   */
+  private flood(
+    originId: string,
+    trunks: Map<string, string[]>,
+    states: Map<string, VtpState>,
+    deliver: (receiver: VtpState) => void
+  ): void {
+    const origin = states.get(originId)!;
+    const visited = new Set<string>([originId]);
+    const queue = [originId];
+    while (queue.length > 0) {
+      const current = queue.shift()!;
+      (trunks.get(current) ?? []).forEach(neighbor => {
+        if (visited.has(neighbor)) return;
+        visited.add(neighbor);
+        const receiver = states.get(neighbor)!;
+        const { mode, domain, version } = receiver.config;
+        if (mode === VtpMode.OFF) return;
+        if (mode === VtpMode.TRANSPARENT) {
+          // Version 1 transparent switches only relay advertisements of their own domain
+          if (version !== 1 || domain === origin.config.domain) queue.push(neighbor);
+          return;
+        }
+        deliver(receiver);
+      });
+    }
+  }
+
+  /**
+   * A server or client hears a summary: true when its VLAN database or VTP settings changed
+   */
+  private receiveSummary(receiver: VtpState, sender: VtpState, summary: VtpSummary): boolean {
+    const id = receiver.device.id;
+    const config = receiver.config;
+    this.count(id, 'summaryReceived');
+
+    let learned = false;
+    if (!config.domain) {
+      // A switch without a domain joins the first one it hears
+      config.domain = summary.domain;
+      learned = true;
+    }
+    if (config.domain !== summary.domain) return false;
+    if ((config.version === 3) !== (summary.version === 3)) {
+      if (config.version === 1) this.count(id, 'v1SummaryErrors');
+      return learned;
+    }
+    if (config.version === 1 && summary.version === 2) {
+      // Version 2 capable switches follow a version 2 server
+      config.version = 2;
+      learned = true;
+    }
+
+    if (summary.revision < config.revision) return learned;
+    if (summary.revision === config.revision) {
+      if (summary.digest !== computeVtpDigest(config.password, config.domain, config.revision, receiver.vlans)) {
+        this.count(id, 'digestErrors');
+      }
+      return learned;
+    }
+    if (summary.version === 3 && !summary.primary) {
+      this.count(id, 'revisionErrors');
+      return learned;
+    }
+
+    // Newer revision: send an advertisement request for the VLANs and check the subset that
+    // answers it against the summary with our password
+    this.count(id, 'requestSent');
+    this.count(sender.device.id, 'requestReceived');
+    const subset: VtpSubset = {
+      type: 'subset',
+      domain: summary.domain,
+      version: summary.version,
+      revision: summary.revision,
+      sequence: 1,
+      vlans: sender.vlans,
+    };
+    this.count(sender.device.id, 'subsetSent');
+    this.count(id, 'subsetReceived');
+    if (computeVtpDigest(config.password, subset.domain, subset.revision, subset.vlans) !== summary.digest) {
+      this.count(id, 'digestErrors');
+      return learned;
+    }
+
+    // The subset replaces the whole database; only VLAN 1 cannot go away
+    const defaultVlan = receiver.vlans.find(v => v.id === 1);
+    receiver.vlans = [
+      ...(defaultVlan && !subset.vlans.some(v => v.id === 1) ? [defaultVlan] : []),
+      ...subset.vlans.map(v => ({ ...v })),
+    ].sort((a, b) => a.id - b.id);
+    config.revision = summary.revision;
+    config.updater = summary.updater;
+    config.lastModified = summary.lastModified;
+    receiver.reason = `revision ${summary.revision} from ${sender.device.name} (${subset.vlans.length} VLANs)`;
+    return true;
+  }
+}
+
+export const vtpEngine = new VtpEngine();
@@ -1,16 +1,28 @@
 import {
   NetworkDevice,
   RouterDevice,
-  SwitchDevice,
+  FirewallDevice,
+  MultilayerSwitchDevice,
   PcDevice,
   ServerDevice,
   DeviceType,
+  DeviceStatus,
   RouteEntry,
+  RipTimers,
+  BgpNeighborConfig,
+  BgpNetworkStatement,
   NetworkInterface,
+  InterfaceStatus,
+  InterfaceType,
   Connection,
+  ConnectionStatus,
+  ConnectionType,
   Vlan,
   SubnetInfo,
 } from '../../types';
+import { IPv6AddressUtils } from '../networking/ipAddressManager';
+import { isInterfaceOperational } from '../networking/subinterfaces';
+import { isSviUp, isSwitchingDevice, isSwitchport } from '../networking/multilayerSwitch';
 
 /**
  * Enhanced route entry with additional metadata
@@ -225,9 +237,10 @@ export class RoutingTableManager {
   /**
    * Add connected routes for router interfaces
    */
-  addConnectedRoutes(device: RouterDevice): void {
+  addConnectedRoutes(device: RouterDevice | FirewallDevice | MultilayerSwitchDevice): void {
     device.interfaces.forEach(iface => {
-      if (iface.ipAddress && iface.status === 'up') {
+      // Subinterfaces and SVIs are connected per VLAN by the inter-VLAN routing manager
+      if (iface.ipAddress && iface.status === 'up' && !iface.parentInterface && iface.sviVlan === undefined) {
         const subnet = SubnetCalculator.parseSubnet(iface.ipAddress);
         const networkAddr = SubnetCalculator.getNetworkAddress(subnet.network, subnet.mask);
 
@@ -278,183 +291,2510 @@ export class RoutingTableManager {
  */
 export class InterVlanRoutingManager {
   private routingTable: RoutingTableManager;
-  private vlanInterfaces: Map<string, Map<number, string>> = new Map(); // deviceId -> vlanId -> interface IP
+  private vlanInterfaces: Map<string, Map<number, { ipAddress: string; interfaceName: string }>> = new Map(); // deviceId -> vlanId -> routed interface
 
   constructor(routingTable: RoutingTableManager) {
     this.routingTable = routingTable;
   }
 
   /**
-   * Configure VLAN interface on router/Layer 3 switch
+   * Configure VLAN interface on router/Layer 3 switch: an SVI (vlan10) by default, or an
+   * 802.1Q subinterface (Gi0/0.10) of a router on a stick
    */
   configureVlanInterface(
     deviceId: string, 
     vlanId: number, 
     ipAddress: string, 
-    mask: string
+    mask: string,
+    interfaceName: string = `vlan${vlanId}`
   ): void {
     if (!this.vlanInterfaces.has(deviceId)) {
       this.vlanInterfaces.set(deviceId, new Map());
     }
 
-    const deviceVlans = this.vlanInterfaces.get(deviceId)!;
-    deviceVlans.set(vlanId, ipAddress);
+    const deviceVlans = this.vlanInterfaces.get(deviceId)!;
+    deviceVlans.set(vlanId, { ipAddress, interfaceName });
+
+    // Add connected route for this VLAN
+    const networkAddr = SubnetCalculator.getNetworkAddress(ipAddress, mask);
+    this.routingTable.addRoute(deviceId, {
+      network: networkAddr,
+      mask,
+      nextHop: '0.0.0.0',
+      interface: interfaceName,
+      metric: 0,
+      protocol: 'connected',
+      administrativeDistance: 0,
+      age: 0,
+      isActive: true,
+      nextHopReachable: true,
+    });
+  }
+
+  /**
+   * Route every VLAN of a router's 802.1Q subinterfaces that are up with an address
+   */
+  configureSubinterfaces(router: RouterDevice): void {
+    router.interfaces
+      .filter(iface => iface.encapsulation && iface.ipAddress && isInterfaceOperational(router.interfaces, iface))
+      .forEach(iface => {
+        const subnet = SubnetCalculator.parseSubnet(iface.ipAddress!);
+        this.configureVlanInterface(router.id, iface.encapsulation!.vlanId, subnet.network, subnet.mask, iface.name);
+      });
+  }
+
+  /**
+   * Route every VLAN of a multilayer switch's SVIs that are up with an address
+   */
+  configureSvis(mls: MultilayerSwitchDevice): void {
+    mls.interfaces
+      .filter(iface => iface.sviVlan !== undefined && iface.ipAddress && isSviUp(mls, iface))
+      .forEach(iface => {
+        const subnet = SubnetCalculator.parseSubnet(iface.ipAddress!);
+        this.configureVlanInterface(mls.id, iface.sviVlan!, subnet.network, subnet.mask, iface.name);
+      });
+  }
+
+  /**
+   * Remove VLAN interface
+   */
+  removeVlanInterface(deviceId: string, vlanId: number): void {
+    const deviceVlans = this.vlanInterfaces.get(deviceId);
+    const vlanInterface = deviceVlans?.get(vlanId);
+    if (deviceVlans && vlanInterface) {
+      deviceVlans.delete(vlanId);
+      
+      // Remove connected route for this VLAN
+      // Note: This is simplified - should find and remove the specific route
+      const routes = this.routingTable.getRoutes(deviceId);
+      const vlanRoute = routes.find(r => r.interface === vlanInterface.interfaceName);
+      if (vlanRoute) {
+        this.routingTable.removeRoute(deviceId, vlanRoute.network, vlanRoute.mask);
+      }
+    }
+  }
+
+  /**
+   * Get VLAN gateway for a specific VLAN
+   */
+  getVlanGateway(deviceId: string, vlanId: number): string | null {
+    const deviceVlans = this.vlanInterfaces.get(deviceId);
+    return deviceVlans?.get(vlanId)?.ipAddress || null;
+  }
+
+  /**
+   * Check if device can route between VLANs
+   */
+  canRouteVlans(deviceId: string, sourceVlan: number, targetVlan: number): boolean {
+    const deviceVlans = this.vlanInterfaces.get(deviceId);
+    return deviceVlans?.has(sourceVlan) && deviceVlans?.has(targetVlan) || false;
+  }
+}
+
+/**
+ * OSPF neighbor states (RFC 2328 section 10.1)
+ */
+export enum OspfNeighborState {
+  DOWN = 'DOWN',
+  INIT = 'INIT',
+  TWO_WAY = '2WAY',
+  EXSTART = 'EXSTART',
+  EXCHANGE = 'EXCHANGE',
+  LOADING = 'LOADING',
+  FULL = 'FULL',
+}
+
+/**
+ * Role of a router on an OSPF segment
+ */
+export type OspfInterfaceRole = 'DR' | 'BDR' | 'DROTHER' | 'P2P';
+
+/**
+ * Neighbor learned through hellos on an OSPF interface
+ */
+export interface OspfNeighbor {
+  routerId: string;
+  deviceId: string;
+  address: string;
+  interfaceName: string; // local interface the neighbor was heard on
+  priority: number;
+  state: OspfNeighborState;
+  deadTimer: number; // seconds left before the neighbor is declared down
+  designatedRouter: string; // DR address declared in the neighbor's hellos
+  backupDesignatedRouter: string;
+}
+
+/**
+ * OSPF-enabled router interface
+ */
+export interface OspfInterface {
+  deviceId: string;
+  name: string;
+  address: string;
+  mask: string;
+  area: string;
+  cost: number;
+  priority: number;
+  helloInterval: number;
+  deadInterval: number;
+  pointToPoint: boolean;
+  designatedRouter: string; // interface address of the DR, 0.0.0.0 when none
+  backupDesignatedRouter: string;
+  waitTimer: number;
+  helloTimer: number;
+  neighbors: OspfNeighbor[];
+}
+
+/**
+ * Link described in a Router LSA
+ */
+export interface OspfLsaLink {
+  type: 'point-to-point' | 'transit' | 'stub';
+  linkId: string; // neighbor router ID, DR address or stub network
+  linkData: string; // own interface address, or stub network mask
+  metric: number;
+}
+
+/**
+ * Router (type 1) or Network (type 2) link-state advertisement
+ */
+export interface OspfLsa {
+  type: 'router' | 'network';
+  linkStateId: string;
+  advertisingRouter: string;
+  sequence: number;
+  age: number;
+  links: OspfLsaLink[];
+  mask?: string;
+  attachedRouters?: string[];
+}
+
+/**
+ * Neighbor state change, as logged by %OSPF-5-ADJCHG
+ */
+export interface OspfAdjacencyEvent {
+  time: number;
+  deviceId: string;
+  neighborId: string;
+  interfaceName: string;
+  from: OspfNeighborState;
+  to: OspfNeighborState;
+  reason: string;
+}
+
+/**
+ * Route produced by the SPF calculation
+ */
+export interface OspfRoute {
+  network: string;
+  mask: string;
+  cost: number;
+  nextHop: string;
+  interfaceName: string;
+  area: string;
+}
+
+/**
+ * Per-router OSPF process state
+ */
+interface OspfRouterState {
+  deviceId: string;
+  processId: number;
+  routerId: string;
+  interfaces: OspfInterface[];
+  lsdb: Map<string, Map<string, OspfLsa>>; // area -> LSA key -> LSA
+  routes: OspfRoute[];
+  spfPending: boolean;
+}
+
+/**
+ * Contents of a hello packet
+ */
+interface OspfHello {
+  routerId: string;
+  deviceId: string;
+  address: string;
+  mask: string;
+  area: string;
+  priority: number;
+  helloInterval: number;
+  deadInterval: number;
+  designatedRouter: string;
+  backupDesignatedRouter: string;
+  neighbors: string[];
+}
+
+/**
+ * Vertex reached by the SPF calculation
+ */
+interface SpfVertex {
+  id: string; // "R:<router-id>" or "N:<DR address>"
+  distance: number;
+  nextHops: Array<{ address?: string; interfaceName: string }>;
+}
+
+const OSPF_MAX_AGE = 3600;
+const OSPF_LS_REFRESH_TIME = 1800;
+const OSPF_INITIAL_SEQUENCE = 0x80000001;
+const OSPF_REFERENCE_BANDWIDTH = 100; // Mbps, IOS default auto-cost reference bandwidth
+const OSPF_DEFAULT_HELLO = 10;
+const OSPF_DEFAULT_DEAD = 40;
+const NO_ROUTER = '0.0.0.0';
+
+const ipToNumber = (ip: string): number =>
+  ip.split('.').map(Number).reduce((acc, octet) => ((acc << 8) + octet) >>> 0, 0);
+
+const numberToIp = (value: number): string =>
+  [(value >>> 24) & 0xff, (value >>> 16) & 0xff, (value >>> 8) & 0xff, value & 0xff].join('.');
+
+/**
+ * Connection attached to a device interface (matched by interface ID or name)
+ */
+const findInterfaceConnection = (connections: Connection[], deviceId: string, iface: NetworkInterface): Connection | undefined =>
+  connections.find(c =>
+    (c.sourceDevice === deviceId && (c.sourceInterface === iface.id || c.sourceInterface === iface.name)) ||
+    (c.targetDevice === deviceId && (c.targetInterface === iface.id || c.targetInterface === iface.name))
+  );
+
+/**
+ * Router interfaces reachable at layer 2 from the given router interface.
+ * Frames are followed through switches, honouring access VLANs, trunk allowed
+ * lists and native VLANs.
+ */
+const findLayer2Peers = (
+  devices: NetworkDevice[],
+  connections: Connection[],
+  deviceId: string,
+  interfaceName: string
+): Array<{ deviceId: string; interfaceName: string }> => {
+  const peers: Array<{ deviceId: string; interfaceName: string }> = [];
+  const deviceById = new Map(devices.map(d => [d.id, d]));
+  const interfacesOf = (device: NetworkDevice): NetworkInterface[] =>
+    device.type === DeviceType.PC ? [(device as PcDevice).interface] : ((device as RouterDevice).interfaces || []);
+
+  const start = deviceById.get(deviceId);
+  const startIface = start && interfacesOf(start).find(i => i.name === interfaceName);
+  if (!start || !startIface) return peers;
+
+  const visited = new Set<string>();
+  const queue: Array<{ deviceId: string; iface: NetworkInterface; tag?: number }> = [{ deviceId, iface: startIface }];
+
+  while (queue.length > 0) {
+    const { deviceId: fromId, iface: fromIface, tag } = queue.shift()!;
+    const connection = findInterfaceConnection(connections, fromId, fromIface);
+    if (!connection || connection.status === ConnectionStatus.DOWN) continue;
+
+    const atSource = connection.sourceDevice === fromId &&
+      (connection.sourceInterface === fromIface.id || connection.sourceInterface === fromIface.name);
+    const remote = deviceById.get(atSource ? connection.targetDevice : connection.sourceDevice);
+    const remoteRef = atSource ? connection.targetInterface : connection.sourceInterface;
+    const remoteIface = remote && interfacesOf(remote).find(i => i.id === remoteRef || i.name === remoteRef);
+    if (!remote || !remoteIface || remoteIface.status === InterfaceStatus.ADMIN_DOWN ||
+        remoteIface.status === InterfaceStatus.ERR_DISABLED) continue;
+
+    if (remote.type === DeviceType.ROUTER) {
+      if (remote.id !== deviceId) peers.push({ deviceId: remote.id, interfaceName: remoteIface.name });
+      continue;
+    }
+    if (!isSwitchingDevice(remote) || !isSwitchport(remoteIface)) continue;
+
+    let vlan: number;
+    if (remoteIface.type === InterfaceType.TRUNK) {
+      vlan = tag ?? remoteIface.vlanConfig?.nativeVlan ?? 1;
+    } else {
+      if (tag !== undefined) continue; // tagged frame on an access port is dropped
+      vlan = remoteIface.vlanConfig?.accessVlan ?? 1;
+    }
+
+    const visitKey = `${remote.id}|${vlan}`;
+    if (visited.has(visitKey)) continue;
+    visited.add(visitKey);
+
+    remote.interfaces.forEach(port => {
+      if (port.id === remoteIface.id || !isSwitchport(port) || port.status === InterfaceStatus.ADMIN_DOWN ||
+          port.status === InterfaceStatus.ERR_DISABLED) return;
+      if (port.type === InterfaceType.TRUNK) {
+        const allowed = port.vlanConfig?.allowedVlans;
+        if (allowed && !allowed.includes(vlan)) return;
+        const native = port.vlanConfig?.nativeVlan ?? 1;
+        queue.push({ deviceId: remote.id, iface: port, tag: vlan === native ? undefined : vlan });
+      } else if ((port.vlanConfig?.accessVlan ?? 1) === vlan) {
+        queue.push({ deviceId: remote.id, iface: port });
+      }
+    });
+  }
+
+  return peers;
+};
+
+/**
+ * Normalize an area ID to dotted-decimal form ("0" -> "0.0.0.0")
+ */
+const normalizeOspfArea = (area: string): string =>
+  area.includes('.') ? area : numberToIp(Number(area) >>> 0);
+
+const lsaKey = (lsa: Pick<OspfLsa, 'type' | 'linkStateId' | 'advertisingRouter'>): string =>
+  `${lsa.type}:${lsa.linkStateId}:${lsa.advertisingRouter}`;
+
+const isNewerLsa = (candidate: OspfLsa, current: OspfLsa): boolean =>
+  candidate.sequence > current.sequence ||
+  (candidate.sequence === current.sequence && candidate.age >= OSPF_MAX_AGE && current.age < OSPF_MAX_AGE);
+
+const NEIGHBOR_STATE_ORDER = [
+  OspfNeighborState.DOWN,
+  OspfNeighborState.INIT,
+  OspfNeighborState.TWO_WAY,
+  OspfNeighborState.EXSTART,
+  OspfNeighborState.EXCHANGE,
+  OspfNeighborState.LOADING,
+  OspfNeighborState.FULL,
+];
+
+const isAtLeast = (state: OspfNeighborState, minimum: OspfNeighborState): boolean =>
+  NEIGHBOR_STATE_ORDER.indexOf(state) >= NEIGHBOR_STATE_ORDER.indexOf(minimum);
+
+/**
+ * OSPF link-state simulation.
+ * Time advances in one-second steps: hellos build adjacencies through the neighbor
+ * state machine, DR/BDR are elected on broadcast segments, Router and Network LSAs
+ * are flooded over full adjacencies into a per-area LSDB, and Dijkstra SPF turns
+ * each router's LSDB into routes. Only intra-area routes are calculated.
+ */
+export class OSPFManager {
+  private areas: Map<string, Set<string>> = new Map(); // areaId -> deviceIds enabled without network statements
+  private routers: Map<string, OspfRouterState> = new Map();
+  private segmentPeers: Map<string, Array<{ deviceId: string; interfaceName: string }>> = new Map();
+  private devices: NetworkDevice[] = [];
+  private connections: Connection[] = [];
+  private events: OspfAdjacencyEvent[] = [];
+  private clock = 0;
+
+  /**
+   * Add device to OSPF area
+   */
+  addToArea(deviceId: string, areaId: string = '0.0.0.0'): void {
+    if (!this.areas.has(areaId)) {
+      this.areas.set(areaId, new Set());
+    }
+    this.areas.get(areaId)!.add(deviceId);
+  }
+
+  /**
+   * Remove device from OSPF area
+   */
+  removeFromArea(deviceId: string, areaId: string = '0.0.0.0'): void {
+    const area = this.areas.get(areaId);
+    if (area) {
+      area.delete(deviceId);
+      if (area.size === 0) {
+        this.areas.delete(areaId);
+      }
+    }
+  }
+
+  /**
+   * Build OSPF state from scratch, run until adjacencies settle and install the routes
+   */
+  calculateOSPFRoutes(
+    routingTable: RoutingTableManager,
+    devices: NetworkDevice[],
+    connections: Connection[]
+  ): void {
+    this.updateTopology(devices, connections);
+    this.converge();
+    this.installRoutes(routingTable);
+  }
+
+  /**
+   * Apply a new device/connection snapshot. Interfaces that lost carrier drop their
+   * neighbors immediately; failures further away are detected by the dead timer.
+   */
+  updateTopology(devices: NetworkDevice[], connections: Connection[]): void {
+    this.devices = devices;
+    this.connections = connections;
+    this.segmentPeers.clear();
+
+    const enabled = new Set<string>();
+    devices.forEach(device => {
+      if (device.type !== DeviceType.ROUTER || device.status === DeviceStatus.INACTIVE) return;
+      const router = device as RouterDevice;
+      if (!router.ospfEnabled && !this.isInLegacyArea(router.id)) return;
+
+      const routerId = this.selectRouterId(router);
+      if (!routerId) return;
+      enabled.add(router.id);
+
+      let state = this.routers.get(router.id);
+      if (state && state.routerId !== routerId) {
+        // A new router ID restarts the process
+        this.shutdownRouter(state, 'Router ID changed');
+        state = undefined;
+      }
+      if (!state) {
+        state = {
+          deviceId: router.id,
+          processId: router.ospfConfig?.processId ?? 1,
+          routerId,
+          interfaces: [],
+          lsdb: new Map(),
+          routes: [],
+          spfPending: true,
+        };
+        this.routers.set(router.id, state);
+      }
+
+      const desired = this.buildInterfaces(router);
+      const current = state.interfaces;
+      state.interfaces = desired.map(iface => {
+        const existing = current.find(c =>
+          c.name === iface.name && c.address === iface.address && c.mask === iface.mask &&
+          c.area === iface.area && c.pointToPoint === iface.pointToPoint
+        );
+        if (!existing) return iface;
+        existing.cost = iface.cost;
+        existing.priority = iface.priority;
+        existing.helloInterval = iface.helloInterval;
+        existing.deadInterval = iface.deadInterval;
+        return existing;
+      });
+      current
+        .filter(iface => !state!.interfaces.includes(iface))
+        .forEach(iface => {
+          iface.neighbors.forEach(nbr => this.recordEvent(state!, nbr, OspfNeighborState.DOWN, 'Interface down or detached'));
+          iface.neighbors = [];
+        });
+      state.spfPending = true;
+    });
+
+    Array.from(this.routers.values())
+      .filter(state => !enabled.has(state.deviceId))
+      .forEach(state => this.shutdownRouter(state, 'OSPF process removed'));
+
+    this.routers.forEach(state => {
+      state.interfaces.forEach(iface => {
+        this.segmentPeers.set(`${state.deviceId}|${iface.name}`, findLayer2Peers(devices, connections, state.deviceId, iface.name));
+      });
+    });
+  }
+
+  /**
+   * Advance simulated time; returns the neighbor state changes that occurred
+   */
+  tick(seconds: number = 1): OspfAdjacencyEvent[] {
+    const firstEvent = this.events.length;
+    for (let i = 0; i < seconds; i++) {
+      this.step();
+    }
+    return this.events.slice(firstEvent);
+  }
+
+  /**
+   * Run until every adjacency has settled (bounded by maxSeconds)
+   */
+  converge(maxSeconds: number = 600): number {
+    let elapsed = 0;
+    while (elapsed < maxSeconds) {
+      const changed = this.step();
+      elapsed++;
+      if (!changed && this.isStable()) break;
+    }
+    return elapsed;
+  }
+
+  /**
+   * Replace each router's OSPF routes with the result of its latest SPF run.
+   * Routes with a better administrative distance (connected, static) are kept.
+   */
+  installRoutes(routingTable: RoutingTableManager): void {
+    this.routers.forEach(state => {
+      if (state.spfPending) {
+        state.routes = this.runSpf(state);
+        state.spfPending = false;
+      }
+      this.applyRoutes(routingTable, state.deviceId, state.routes);
+    });
+
+    // Routers that stopped running OSPF lose their OSPF routes
+    this.devices
+      .filter(d => d.type === DeviceType.ROUTER && !this.routers.has(d.id))
+      .forEach(d => this.applyRoutes(routingTable, d.id, []));
+  }
+
+  getRouterId(deviceId: string): string | undefined {
+    return this.routers.get(deviceId)?.routerId;
+  }
+
+  getProcessId(deviceId: string): number | undefined {
+    return this.routers.get(deviceId)?.processId;
+  }
+
+  getInterfaces(deviceId: string): OspfInterface[] {
+    return this.routers.get(deviceId)?.interfaces ?? [];
+  }
+
+  getNeighbors(deviceId: string): OspfNeighbor[] {
+    return this.getInterfaces(deviceId).flatMap(iface => iface.neighbors);
+  }
+
+  /**
+   * Role of a neighbor on the segment it was learned on, as seen by this router
+   */
+  getNeighborRole(deviceId: string, neighbor: OspfNeighbor): OspfInterfaceRole {
+    const iface = this.getInterfaces(deviceId).find(i => i.name === neighbor.interfaceName);
+    if (!iface || iface.pointToPoint) return 'P2P';
+    if (neighbor.address === iface.designatedRouter) return 'DR';
+    if (neighbor.address === iface.backupDesignatedRouter) return 'BDR';
+    return 'DROTHER';
+  }
+
+  /**
+   * Link-state database of a router, grouped by area
+   */
+  getDatabase(deviceId: string): Array<{ area: string; lsas: OspfLsa[] }> {
+    const state = this.routers.get(deviceId);
+    if (!state) return [];
+    return Array.from(state.lsdb.entries())
+      .sort(([a], [b]) => ipToNumber(a) - ipToNumber(b))
+      .map(([area, db]) => ({
+        area,
+        lsas: Array.from(db.values()).sort((a, b) => ipToNumber(a.linkStateId) - ipToNumber(b.linkStateId)),
+      }));
+  }
+
+  getRoutes(deviceId: string): OspfRoute[] {
+    return this.routers.get(deviceId)?.routes ?? [];
+  }
+
+  getEvents(deviceId?: string): OspfAdjacencyEvent[] {
+    return deviceId ? this.events.filter(e => e.deviceId === deviceId) : [...this.events];
+  }
+
+  private isInLegacyArea(deviceId: string): boolean {
+    return Array.from(this.areas.values()).some(members => members.has(deviceId));
+  }
+
+  /**
+   * Configured router ID, otherwise the highest interface address
+   */
+  private selectRouterId(router: RouterDevice): string | undefined {
+    if (router.ospfConfig?.routerId) return router.ospfConfig.routerId;
+    const addresses = router.interfaces
+      .filter(iface => iface.ipAddress && iface.status !== InterfaceStatus.ADMIN_DOWN)
+      .map(iface => iface.ipAddress!.split('/')[0]);
+    if (addresses.length === 0) return undefined;
+    return addresses.sort((a, b) => ipToNumber(b) - ipToNumber(a))[0];
+  }
+
+  /**
+   * Interfaces covered by a network statement (or all interfaces for routers
+   * enabled without statements) that currently have carrier
+   */
+  private buildInterfaces(router: RouterDevice): OspfInterface[] {
+    const statements = router.ospfConfig?.networks ?? [];
+    const legacyArea = Array.from(this.areas.entries()).find(([, members]) => members.has(router.id))?.[0] ?? '0.0.0.0';
+    const result: OspfInterface[] = [];
+
+    router.interfaces.forEach(iface => {
+      if (!iface.ipAddress || iface.status === InterfaceStatus.ADMIN_DOWN) return;
+      const connection = findInterfaceConnection(this.connections, router.id, iface);
+      if (!connection || connection.status === ConnectionStatus.DOWN) return;
+
+      const subnet = SubnetCalculator.parseSubnet(iface.ipAddress);
+      let area: string | undefined;
+      if (statements.length > 0) {
+        const statement = statements.find(s => {
+          const wildcard = ipToNumber(s.wildcard);
+          return ((ipToNumber(subnet.network) & ~wildcard) >>> 0) === ((ipToNumber(s.network) & ~wildcard) >>> 0);
+        });
+        area = statement?.area;
+      } else {
+        area = legacyArea;
+      }
+      if (area === undefined) return;
+
+      const bandwidth = connection.bandwidth || iface.speed || OSPF_REFERENCE_BANDWIDTH;
+      const deadInterval = iface.ospf?.deadInterval ?? (iface.ospf?.helloInterval ? iface.ospf.helloInterval * 4 : OSPF_DEFAULT_DEAD);
+      result.push({
+        deviceId: router.id,
+        name: iface.name,
+        address: subnet.network,
+        mask: subnet.mask,
+        area: normalizeOspfArea(area),
+        cost: iface.ospf?.cost ?? Math.max(1, Math.floor(OSPF_REFERENCE_BANDWIDTH / bandwidth)),
+        priority: iface.ospf?.priority ?? 1,
+        helloInterval: iface.ospf?.helloInterval ?? OSPF_DEFAULT_HELLO,
+        deadInterval,
+        pointToPoint: connection.connectionType === ConnectionType.SERIAL,
+        designatedRouter: NO_ROUTER,
+        backupDesignatedRouter: NO_ROUTER,
+        waitTimer: connection.connectionType === ConnectionType.SERIAL ? 0 : deadInterval,
+        helloTimer: 0,
+        neighbors: [],
+      });
+    });
+
+    return result;
+  }
+
+  /**
+   * One second of protocol time. Returns true when any neighbor or LSDB changed.
+   */
+  private step(): boolean {
+    this.clock++;
+    let changed = false;
+
+    this.routers.forEach(state => {
+      state.interfaces.forEach(iface => {
+        iface.helloTimer--;
+        if (iface.helloTimer <= 0) {
+          iface.helloTimer = iface.helloInterval;
+          changed = this.sendHello(state, iface) || changed;
+        }
+      });
+    });
+
+    this.routers.forEach(state => {
+      state.interfaces.forEach(iface => {
+        iface.neighbors.slice().forEach(nbr => {
+          nbr.deadTimer--;
+          if (nbr.deadTimer <= 0) {
+            this.removeNeighbor(state, iface, nbr, 'Dead timer expired');
+            changed = true;
+          }
+        });
+        if (iface.waitTimer > 0) iface.waitTimer--;
+        if (!iface.pointToPoint && iface.waitTimer === 0) {
+          changed = this.electDesignatedRouter(state, iface) || changed;
+        }
+      });
+    });
+
+    this.routers.forEach(state => {
+      state.interfaces.forEach(iface => {
+        iface.neighbors.forEach(nbr => {
+          changed = this.advanceAdjacency(state, iface, nbr) || changed;
+        });
+      });
+    });
+
+    this.routers.forEach(state => {
+      changed = this.originateLsas(state) || changed;
+    });
+    changed = this.flood() || changed;
+    this.ageLsas();
+
+    return changed;
+  }
+
+  private isStable(): boolean {
+    return Array.from(this.routers.values()).every(state =>
+      state.interfaces.every(iface =>
+        iface.waitTimer === 0 &&
+        iface.neighbors.every(nbr =>
+          (iface.pointToPoint || (nbr.designatedRouter === iface.designatedRouter &&
+            nbr.backupDesignatedRouter === iface.backupDesignatedRouter)) &&
+          (nbr.state === OspfNeighborState.FULL ||
+            (nbr.state === OspfNeighborState.TWO_WAY && !this.shouldBeAdjacent(iface, nbr)))
+        )
+      )
+    );
+  }
+
+  /**
+   * Deliver a hello from one interface to every OSPF interface on its segment
+   */
+  private sendHello(sender: OspfRouterState, iface: OspfInterface): boolean {
+    const hello: OspfHello = {
+      routerId: sender.routerId,
+      deviceId: sender.deviceId,
+      address: iface.address,
+      mask: iface.mask,
+      area: iface.area,
+      priority: iface.priority,
+      helloInterval: iface.helloInterval,
+      deadInterval: iface.deadInterval,
+      designatedRouter: iface.designatedRouter,
+      backupDesignatedRouter: iface.backupDesignatedRouter,
+      neighbors: iface.neighbors.map(n => n.routerId),
+    };
+
+    let changed = false;
+    (this.segmentPeers.get(`${sender.deviceId}|${iface.name}`) ?? []).forEach(peer => {
+      const receiver = this.routers.get(peer.deviceId);
+      const receivingIface = receiver?.interfaces.find(i => i.name === peer.interfaceName);
+      if (receiver && receivingIface) {
+        changed = this.receiveHello(receiver, receivingIface, hello) || changed;
+      }
+    });
+    return changed;
+  }
+
+  /**
+   * Process a received hello: parameter checks, then neighbor state machine events
+   */
+  private receiveHello(state: OspfRouterState, iface: OspfInterface, hello: OspfHello): boolean {
+    // Hellos with mismatched parameters are discarded, so no adjacency ever forms
+    if (hello.area !== iface.area || hello.helloInterval !== iface.helloInterval || hello.deadInterval !== iface.deadInterval) {
+      return false;
+    }
+    if (!iface.pointToPoint && (hello.mask !== iface.mask ||
+      SubnetCalculator.getNetworkAddress(hello.address, hello.mask) !== SubnetCalculator.getNetworkAddress(iface.address, iface.mask))) {
+      return false;
+    }
+    if (hello.routerId === state.routerId) return false;
+
+    let changed = false;
+    let neighbor = iface.neighbors.find(n => n.routerId === hello.routerId);
+    if (!neighbor) {
+      neighbor = {
+        routerId: hello.routerId,
+        deviceId: hello.deviceId,
+        address: hello.address,
+        interfaceName: iface.name,
+        priority: hello.priority,
+        state: OspfNeighborState.DOWN,
+        deadTimer: iface.deadInterval,
+        designatedRouter: hello.designatedRouter,
+        backupDesignatedRouter: hello.backupDesignatedRouter,
+      };
+      iface.neighbors.push(neighbor);
+      this.setNeighborState(state, neighbor, OspfNeighborState.INIT, 'Received Hello');
+      changed = true;
+    }
+
+    neighbor.deadTimer = iface.deadInterval;
+    if (neighbor.priority !== hello.priority || neighbor.designatedRouter !== hello.designatedRouter ||
+      neighbor.backupDesignatedRouter !== hello.backupDesignatedRouter) {
+      neighbor.priority = hello.priority;
+      neighbor.designatedRouter = hello.designatedRouter;
+      neighbor.backupDesignatedRouter = hello.backupDesignatedRouter;
+      changed = true;
+    }
+
+    const seesUs = hello.neighbors.includes(state.routerId);
+    if (seesUs && neighbor.state === OspfNeighborState.INIT) {
+      this.setNeighborState(state, neighbor, OspfNeighborState.TWO_WAY, '2-Way Received');
+      changed = true;
+    } else if (!seesUs && isAtLeast(neighbor.state, OspfNeighborState.TWO_WAY)) {
+      this.setNeighborState(state, neighbor, OspfNeighborState.INIT, '1-Way Received');
+      changed = true;
+    }
+
+    return changed;
+  }
+
+  /**
+   * DR/BDR election (RFC 2328 section 9.4). Routers already declaring themselves
+   * DR or BDR keep the role, so a higher-priority latecomer does not preempt.
+   */
+  private electDesignatedRouter(state: OspfRouterState, iface: OspfInterface): boolean {
+    interface Candidate { routerId: string; address: string; priority: number; dr: string; bdr: string }
+    const self: Candidate = {
+      routerId: state.routerId,
+      address: iface.address,
+      priority: iface.priority,
+      dr: iface.designatedRouter,
+      bdr: iface.backupDesignatedRouter,
+    };
+    const others: Candidate[] = iface.neighbors
+      .filter(n => isAtLeast(n.state, OspfNeighborState.TWO_WAY))
+      .map(n => ({ routerId: n.routerId, address: n.address, priority: n.priority, dr: n.designatedRouter, bdr: n.backupDesignatedRouter }));
+
+    const best = (list: Candidate[]): Candidate | undefined =>
+      list.slice().sort((a, b) => b.priority - a.priority || ipToNumber(b.routerId) - ipToNumber(a.routerId))[0];
+
+    const elect = () => {
+      const eligible = [self, ...others].filter(c => c.priority > 0);
+      const bdrPool = eligible.filter(c => c.dr !== c.address);
+      const declaredBdr = bdrPool.filter(c => c.bdr === c.address);
+      let bdr = best(declaredBdr.length > 0 ? declaredBdr : bdrPool);
+      const declaredDr = eligible.filter(c => c.dr === c.address);
+      let dr = declaredDr.length > 0 ? best(declaredDr) : bdr;
+      if (dr && dr === bdr) {
+        bdr = best(bdrPool.filter(c => c !== dr));
+      }
+      if (!dr) {
+        dr = undefined;
+        bdr = undefined;
+      }
+      return { dr: dr?.address ?? NO_ROUTER, bdr: bdr?.address ?? NO_ROUTER };
+    };
+
+    let result = elect();
+    const roleChanged = (result.dr === self.address) !== (self.dr === self.address) ||
+      (result.bdr === self.address) !== (self.bdr === self.address);
+    if (roleChanged) {
+      // Repeat once with our own new declaration, as the RFC requires
+      self.dr = result.dr;
+      self.bdr = result.bdr;
+      result = elect();
+    }
+
+    if (result.dr === iface.designatedRouter && result.bdr === iface.backupDesignatedRouter) return false;
+    iface.designatedRouter = result.dr;
+    iface.backupDesignatedRouter = result.bdr;
+    iface.helloTimer = 0; // announce the new DR/BDR with the next hello
+    state.spfPending = true;
+    return true;
+  }
+
+  /**
+   * On broadcast segments only the DR and BDR form full adjacencies with everyone
+   */
+  private shouldBeAdjacent(iface: OspfInterface, neighbor: OspfNeighbor): boolean {
+    if (iface.pointToPoint) return true;
+    if (iface.waitTimer > 0) return false;
+    return iface.designatedRouter === iface.address ||
+      iface.backupDesignatedRouter === iface.address ||
+      neighbor.address === iface.designatedRouter ||
+      neighbor.address === iface.backupDesignatedRouter;
+  }
+
+  /**
+   * Move a neighbor one state along ExStart -> Exchange -> Loading -> Full per second
+   */
+  private advanceAdjacency(state: OspfRouterState, iface: OspfInterface, neighbor: OspfNeighbor): boolean {
+    if (!isAtLeast(neighbor.state, OspfNeighborState.TWO_WAY)) return false;
+
+    const adjacent = this.shouldBeAdjacent(iface, neighbor);
+    if (!adjacent) {
+      if (neighbor.state === OspfNeighborState.TWO_WAY) return false;
+      this.setNeighborState(state, neighbor, OspfNeighborState.TWO_WAY, 'DR/BDR election');
+      return true;
+    }
+
+    switch (neighbor.state) {
+      case OspfNeighborState.TWO_WAY:
+        this.setNeighborState(state, neighbor, OspfNeighborState.EXSTART, 'AdjOK?');
+        return true;
+      case OspfNeighborState.EXSTART:
+        this.setNeighborState(state, neighbor, OspfNeighborState.EXCHANGE, 'Negotiation Done');
+        return true;
+      case OspfNeighborState.EXCHANGE:
+        this.setNeighborState(state, neighbor, OspfNeighborState.LOADING, 'Exchange Done');
+        return true;
+      case OspfNeighborState.LOADING: {
+        // Database exchange: pull every LSA the neighbor has that is newer than ours
+        const peer = this.routers.get(neighbor.deviceId);
+        const peerDb = peer?.lsdb.get(iface.area);
+        if (peerDb) {
+          this.mergeDatabase(state, iface.area, peerDb);
+        }
+        this.setNeighborState(state, neighbor, OspfNeighborState.FULL, 'Loading Done');
+        return true;
+      }
+      default:
+        return false;
+    }
+  }
+
+  private setNeighborState(state: OspfRouterState, neighbor: OspfNeighbor, to: OspfNeighborState, reason: string): void {
+    if (neighbor.state === to) return;
+    this.recordEvent(state, neighbor, to, reason);
+    neighbor.state = to;
+    state.spfPending = true;
+  }
+
+  private recordEvent(state: OspfRouterState, neighbor: OspfNeighbor, to: OspfNeighborState, reason: string): void {
+    this.events.push({
+      time: this.clock,
+      deviceId: state.deviceId,
+      neighborId: neighbor.routerId,
+      interfaceName: neighbor.interfaceName,
+      from: neighbor.state,
+      to,
+      reason,
+    });
+  }
+
+  private removeNeighbor(state: OspfRouterState, iface: OspfInterface, neighbor: OspfNeighbor, reason: string): void {
+    this.setNeighborState(state, neighbor, OspfNeighborState.DOWN, reason);
+    iface.neighbors = iface.neighbors.filter(n => n !== neighbor);
+  }
+
+  private shutdownRouter(state: OspfRouterState, reason: string): void {
+    state.interfaces.forEach(iface => {
+      iface.neighbors.forEach(nbr => this.recordEvent(state, nbr, OspfNeighborState.DOWN, reason));
+    });
+    this.routers.delete(state.deviceId);
+  }
+
+  /**
+   * Build this router's Router LSA per area and a Network LSA for every segment
+   * where it is DR; install changed LSAs with a new sequence number and flush
+   * self-originated LSAs that are no longer wanted.
+   */
+  private originateLsas(state: OspfRouterState): boolean {
+    let changed = false;
+    const desired = new Map<string, Map<string, OspfLsa>>();
+    const want = (area: string, lsa: OspfLsa) => {
+      if (!desired.has(area)) desired.set(area, new Map());
+      desired.get(area)!.set(lsaKey(lsa), lsa);
+    };
+
+    const areas = Array.from(new Set(state.interfaces.map(i => i.area)));
+    areas.forEach(area => {
+      const links: OspfLsaLink[] = [];
+      state.interfaces.filter(i => i.area === area).forEach(iface => {
+        const network = SubnetCalculator.getNetworkAddress(iface.address, iface.mask);
+        const full = iface.neighbors.filter(n => n.state === OspfNeighborState.FULL);
+
+        if (iface.pointToPoint) {
+          full.forEach(n => links.push({ type: 'point-to-point', linkId: n.routerId, linkData: iface.address, metric: iface.cost }));
+          links.push({ type: 'stub', linkId: network, linkData: iface.mask, metric: iface.cost });
+          return;
+        }
+
+        const isDr = iface.designatedRouter === iface.address;
+        const fullWithDr = full.some(n => n.address === iface.designatedRouter);
+        if (iface.designatedRouter !== NO_ROUTER && ((isDr && full.length > 0) || fullWithDr)) {
+          links.push({ type: 'transit', linkId: iface.designatedRouter, linkData: iface.address, metric: iface.cost });
+        } else {
+          links.push({ type: 'stub', linkId: network, linkData: iface.mask, metric: iface.cost });
+        }
+
+        if (isDr && full.length > 0) {
+          want(area, {
+            type: 'network',
+            linkStateId: iface.address,
+            advertisingRouter: state.routerId,
+            sequence: OSPF_INITIAL_SEQUENCE,
+            age: 0,
+            links: [],
+            mask: iface.mask,
+            attachedRouters: [state.routerId, ...full.map(n => n.routerId)].sort((a, b) => ipToNumber(a) - ipToNumber(b)),
+          });
+        }
+      });
+
+      want(area, {
+        type: 'router',
+        linkStateId: state.routerId,
+        advertisingRouter: state.routerId,
+        sequence: OSPF_INITIAL_SEQUENCE,
+        age: 0,
+        links,
+      });
+    });
+
+    // Drop areas the router no longer has interfaces in
+    Array.from(state.lsdb.keys())
+      .filter(area => !areas.includes(area))
+      .forEach(area => {
+        state.lsdb.delete(area);
+        changed = true;
+      });
+
+    const content = (lsa: OspfLsa) => JSON.stringify([lsa.links, lsa.mask, lsa.attachedRouters]);
+    desired.forEach((lsas, area) => {
+      if (!state.lsdb.has(area)) state.lsdb.set(area, new Map());
+      const db = state.lsdb.get(area)!;
+
+      lsas.forEach((lsa, key) => {
+        const existing = db.get(key);
+        if (existing && existing.age < OSPF_MAX_AGE && content(existing) === content(lsa)) return;
+        db.set(key, { ...lsa, sequence: existing ? existing.sequence + 1 : OSPF_INITIAL_SEQUENCE });
+        state.spfPending = true;
+        changed = true;
+      });
+
+      db.forEach((lsa, key) => {
+        if (lsa.advertisingRouter === state.routerId && !lsas.has(key) && lsa.age < OSPF_MAX_AGE) {
+          // Premature aging flushes the LSA from every database it reaches
+          db.set(key, { ...lsa, age: OSPF_MAX_AGE });
+          state.spfPending = true;
+          changed = true;
+        }
+      });
+    });
+
+    return changed;
+  }
+
+  /**
+   * Flood LSAs over full adjacencies until every connected database agrees
+   */
+  private flood(): boolean {
+    let changed = false;
+    let progress = true;
+
+    while (progress) {
+      progress = false;
+      this.routers.forEach(state => {
+        state.interfaces.forEach(iface => {
+          iface.neighbors
+            .filter(n => n.state === OspfNeighborState.FULL)
+            .forEach(nbr => {
+              const peer = this.routers.get(nbr.deviceId);
+              const peerSeesFull = peer?.interfaces.some(pi =>
+                pi.area === iface.area && pi.neighbors.some(pn => pn.routerId === state.routerId && pn.state === OspfNeighborState.FULL)
+              );
+              const db = state.lsdb.get(iface.area);
+              if (peer && peerSeesFull && db && this.mergeDatabase(peer, iface.area, db)) {
+                progress = true;
+                changed = true;
+              }
+            });
+        });
+      });
+    }
+
+    // Flushed LSAs have now reached every router that will accept them
+    this.routers.forEach(state => {
+      state.lsdb.forEach(db => {
+        db.forEach((lsa, key) => {
+          if (lsa.age >= OSPF_MAX_AGE) db.delete(key);
+        });
+      });
+    });
+
+    return changed;
+  }
+
+  /**
+   * Install every LSA from source that is newer than the receiver's copy
+   */
+  private mergeDatabase(receiver: OspfRouterState, area: string, source: Map<string, OspfLsa>): boolean {
+    if (!receiver.lsdb.has(area)) receiver.lsdb.set(area, new Map());
+    const db = receiver.lsdb.get(area)!;
+    let changed = false;
+
+    source.forEach((lsa, key) => {
+      // A router never accepts a foreign copy of its own LSA; it re-originates instead
+      if (lsa.advertisingRouter === receiver.routerId) return;
+      const existing = db.get(key);
+      if (!existing || isNewerLsa(lsa, existing)) {
+        db.set(key, { ...lsa, links: lsa.links.map(l => ({ ...l })), attachedRouters: lsa.attachedRouters ? [...lsa.attachedRouters] : undefined });
+        receiver.spfPending = true;
+        changed = true;
+      }
+    });
+
+    return changed;
+  }
+
+  private ageLsas(): void {
+    this.routers.forEach(state => {
+      state.lsdb.forEach(db => {
+        db.forEach((lsa, key) => {
+          lsa.age = Math.min(OSPF_MAX_AGE, lsa.age + 1);
+          if (lsa.advertisingRouter === state.routerId && lsa.age >= OSPF_LS_REFRESH_TIME) {
+            db.set(key, { ...lsa, sequence: lsa.sequence + 1, age: 0 });
+          } else if (lsa.age >= OSPF_MAX_AGE) {
+            db.delete(key);
+            state.spfPending = true;
+          }
+        });
+      });
+    });
+  }
+
+  /**
+   * Dijkstra over the router's LSDB, per area. Router-to-router and
+   * router-to-network edges are only used when both ends list each other.
+   */
+  private runSpf(state: OspfRouterState): OspfRoute[] {
+    const best = new Map<string, OspfRoute>();
+
+    state.lsdb.forEach((db, area) => {
+      const lsas = Array.from(db.values()).filter(lsa => lsa.age < OSPF_MAX_AGE);
+      const routerLsa = (routerId: string) => lsas.find(l => l.type === 'router' && l.advertisingRouter === routerId);
+      const networkLsa = (id: string) => lsas
+        .filter(l => l.type === 'network' && l.linkStateId === id)
+        .sort((a, b) => b.sequence - a.sequence)[0];
+
+      const root = `R:${state.routerId}`;
+      const vertices = new Map<string, SpfVertex>([[root, { id: root, distance: 0, nextHops: [] }]]);
+      const done = new Set<string>();
+
+      const edgesFrom = (vertexId: string): Array<{ to: string; cost: number; link?: OspfLsaLink }> => {
+        if (vertexId.startsWith('R:')) {
+          const lsa = routerLsa(vertexId.slice(2));
+          if (!lsa) return [];
+          return lsa.links.flatMap(link => {
+            if (link.type === 'point-to-point') {
+              const back = routerLsa(link.linkId)?.links.some(l => l.type === 'point-to-point' && l.linkId === lsa.advertisingRouter);
+              return back ? [{ to: `R:${link.linkId}`, cost: link.metric, link }] : [];
+            }
+            if (link.type === 'transit') {
+              const net = networkLsa(link.linkId);
+              return net?.attachedRouters?.includes(lsa.advertisingRouter) ? [{ to: `N:${link.linkId}`, cost: link.metric, link }] : [];
+            }
+            return [];
+          });
+        }
+        const net = networkLsa(vertexId.slice(2));
+        return (net?.attachedRouters ?? [])
+          .filter(rid => routerLsa(rid)?.links.some(l => l.type === 'transit' && l.linkId === net!.linkStateId))
+          .map(rid => ({ to: `R:${rid}`, cost: 0 }));
+      };
+
+      const candidates = () => Array.from(vertices.values()).filter(v => !done.has(v.id));
+      for (let queue = candidates(); queue.length > 0; queue = candidates()) {
+        const current = queue.sort((a, b) => a.distance - b.distance)[0];
+        done.add(current.id);
+
+        edgesFrom(current.id).forEach(edge => {
+          if (done.has(edge.to)) return;
+          const distance = current.distance + edge.cost;
+          const nextHops = this.spfNextHops(state, current, edge, routerLsa);
+          const existing = vertices.get(edge.to);
+          if (!existing || distance < existing.distance) {
+            vertices.set(edge.to, { id: edge.to, distance, nextHops });
+          } else if (distance === existing.distance) {
+            nextHops.forEach(nh => {
+              if (!existing.nextHops.some(e => e.address === nh.address && e.interfaceName === nh.interfaceName)) {
+                existing.nextHops.push(nh);
+              }
+            });
+          }
+        });
+      }
+
+      const offer = (network: string, mask: string, cost: number, vertex: SpfVertex) => {
+        const hop = vertex.nextHops
+          .filter(nh => nh.address)
+          .sort((a, b) => ipToNumber(a.address!) - ipToNumber(b.address!))[0];
+        if (!hop) return; // directly connected
+        const key = `${network}/${mask}`;
+        const current = best.get(key);
+        if (!current || cost < current.cost) {
+          best.set(key, { network, mask, cost, nextHop: hop.address!, interfaceName: hop.interfaceName, area });
+        }
+      };
+
+      vertices.forEach(vertex => {
+        if (vertex.id === root || !done.has(vertex.id)) return;
+        if (vertex.id.startsWith('N:')) {
+          const net = networkLsa(vertex.id.slice(2));
+          if (net?.mask) {
+            offer(SubnetCalculator.getNetworkAddress(net.linkStateId, net.mask), net.mask, vertex.distance, vertex);
+          }
+          return;
+        }
+        routerLsa(vertex.id.slice(2))?.links
+          .filter(link => link.type === 'stub')
+          .forEach(link => offer(link.linkId, link.linkData, vertex.distance + link.metric, vertex));
+      });
+    });
+
+    return Array.from(best.values());
+  }
+
+  /**
+   * Next hops for a vertex reached over an edge: the first hop out of the root
+   * determines the outgoing interface, the first router beyond it the address
+   */
+  private spfNextHops(
+    state: OspfRouterState,
+    parent: SpfVertex,
+    edge: { to: string; link?: OspfLsaLink },
+    routerLsa: (routerId: string) => OspfLsa | undefined
+  ): SpfVertex['nextHops'] {
+    if (parent.id === `R:${state.routerId}` && edge.link) {
+      const iface = state.interfaces.find(i => i.address === edge.link!.linkData);
+      if (!iface) return [];
+      if (edge.to.startsWith('N:')) {
+        return [{ interfaceName: iface.name }];
+      }
+      const neighbor = iface.neighbors.find(n => n.routerId === edge.to.slice(2));
+      return neighbor ? [{ address: neighbor.address, interfaceName: iface.name }] : [];
+    }
+
+    // Network directly attached to the root: the next hop is the router's address on it
+    if (parent.id.startsWith('N:') && parent.nextHops.length > 0 && parent.nextHops.every(nh => !nh.address)) {
+      const transit = routerLsa(edge.to.slice(2))?.links.find(l => l.type === 'transit' && l.linkId === parent.id.slice(2));
+      return transit ? parent.nextHops.map(nh => ({ address: transit.linkData, interfaceName: nh.interfaceName })) : [];
+    }
+
+    return parent.nextHops.map(nh => ({ ...nh }));
+  }
+
+  private applyRoutes(routingTable: RoutingTableManager, deviceId: string, routes: OspfRoute[]): void {
+    routingTable.getRoutes(deviceId)
+      .filter(route => route.protocol === 'ospf')
+      .forEach(route => routingTable.removeRoute(deviceId, route.network, route.mask));
+
+    routes.forEach(route => {
+      const existing = routingTable.getRoutes(deviceId).find(r => r.network === route.network && r.mask === route.mask);
+      if (existing && existing.administrativeDistance <= 110) return;
+      routingTable.addRoute(deviceId, {
+        network: route.network,
+        mask: route.mask,
+        nextHop: route.nextHop,
+        interface: route.interfaceName,
+        metric: route.cost,
+        protocol: 'ospf',
+        administrativeDistance: 110,
+        age: 0,
+        isActive: true,
+        nextHopReachable: true,
+      });
+    });
+  }
+}
+
+/**
+ * Route held in a router's RIP database
+ */
+export interface RipRoute {
+  network: string;
+  mask: string;
+  metric: number; // hop count, 16 = unreachable
+  nextHop: string; // 0.0.0.0 for directly connected networks
+  interfaceName: string;
+  connected: boolean;
+  age: number; // seconds since the route was last refreshed
+  holddown: number; // seconds of hold-down left
+  metricBeforeHolddown?: number;
+  changed: boolean; // waiting to be sent in a triggered update
+}
+
+/**
+ * Change to a RIP route, for following convergence step by step
+ */
+export interface RipRouteEvent {
+  time: number;
+  deviceId: string;
+  network: string;
+  mask: string;
+  metric: number;
+  nextHop: string;
+  reason: string;
+}
+
+/**
+ * Per-router RIP process state
+ */
+interface RipRouterState {
+  deviceId: string;
+  timers: RipTimers;
+  interfaces: Array<{ name: string; address: string; mask: string; splitHorizon: boolean }>;
+  routes: Map<string, RipRoute>;
+  updateTimer: number;
+}
+
+/**
+ * RIP response sent out of one interface
+ */
+interface RipUpdate {
+  senderId: string;
+  interfaceName: string;
+  source: string; // sender's interface address, the receiver's next hop
+  entries: Array<{ network: string; mask: string; metric: number }>;
+}
+
+export const RIP_INFINITY = 16;
+export const DEFAULT_RIP_TIMERS: RipTimers = { update: 30, invalid: 180, holddown: 180, flush: 240 };
+
+/**
+ * Classful network an address belongs to (RIP network statements are classful)
+ */
+export const getClassfulNetwork = (ip: string): string => {
+  const octets = ip.split('.').map(Number);
+  if (octets[0] < 128) return `${octets[0]}.0.0.0`;
+  if (octets[0] < 192) return `${octets[0]}.${octets[1]}.0.0`;
+  return `${octets[0]}.${octets[1]}.${octets[2]}.0`;
+};
+
+/**
+ * IPv6 route as show ipv6 route lists it
+ */
+export interface Ipv6RouteEntry {
+  prefix: string;
+  prefixLength: number;
+  protocol: 'connected' | 'local' | 'static';
+  interface?: string;
+  nextHop?: string;
+}
+
+const IPV6_ROUTE_PREFERENCE: Record<Ipv6RouteEntry['protocol'], number> = { local: 0, connected: 0, static: 1 };
+
+/**
+ * IPv6 routing table of a router, longest prefix first: connected and local routes for the
+ * global addresses of interfaces that are up, and the static routes whose exit interface
+ * is up or whose next hop is on a connected prefix
+ */
+export const getIpv6Routes = (router: RouterDevice): Ipv6RouteEntry[] => {
+  const routes: Ipv6RouteEntry[] = [];
+  router.interfaces
+    .filter(iface => iface.status === InterfaceStatus.UP)
+    .forEach(iface => {
+      IPv6AddressUtils.getInterfaceAddresses(iface)
+        .filter(a => a.origin !== 'link-local')
+        .forEach(a => {
+          const prefix = IPv6AddressUtils.getPrefix(a.address, a.prefixLength);
+          if (!routes.some(r => r.protocol === 'connected' && r.prefix === prefix && r.prefixLength === a.prefixLength)) {
+            routes.push({ prefix, prefixLength: a.prefixLength, protocol: 'connected', interface: iface.name });
+          }
+          routes.push({ prefix: a.address, prefixLength: 128, protocol: 'local', interface: iface.name });
+        });
+    });
+
+  const connected = [...routes];
+  (router.ipv6Routes ?? []).forEach(route => {
+    const nextHop = route.nextHop;
+    const usable = route.interface
+      ? router.interfaces.some(i => i.name === route.interface && i.status === InterfaceStatus.UP)
+      : nextHop !== undefined && connected.some(r => IPv6AddressUtils.isInPrefix(nextHop, r.prefix, r.prefixLength));
+    if (usable) {
+      routes.push({ ...route, protocol: 'static' });
+    }
+  });
+
+  return routes.sort((a, b) =>
+    b.prefixLength - a.prefixLength || IPV6_ROUTE_PREFERENCE[a.protocol] - IPV6_ROUTE_PREFERENCE[b.protocol]
+  );
+};
+
+/**
+ * Longest-prefix match for an IPv6 destination in a table from getIpv6Routes
+ */
+export const findIpv6Route = (routes: Ipv6RouteEntry[], address: string): Ipv6RouteEntry | undefined =>
+  routes.find(route => IPv6AddressUtils.isInPrefix(address, route.prefix, route.prefixLength));
+
+/**
+ * RIPv2 distance-vector simulation.
+ * Updates are sent every update interval and immediately after a change
+ * (triggered updates). Split horizon with poison reverse, hold-down and the
+ * invalid/flush timers follow the Cisco implementation; 16 hops is infinity.
+ */
+export class RIPManager {
+  private routers: Map<string, RipRouterState> = new Map();
+  private segmentPeers: Map<string, Array<{ deviceId: string; interfaceName: string }>> = new Map();
+  private routerIds: string[] = [];
+  private events: RipRouteEvent[] = [];
+  private clock = 0;
+
+  /**
+   * Build RIP state from scratch, run until the tables stop changing and install the routes
+   */
+  calculateRIPRoutes(
+    routingTable: RoutingTableManager,
+    devices: NetworkDevice[],
+    connections: Connection[]
+  ): void {
+    this.updateTopology(devices, connections);
+    this.converge();
+    this.installRoutes(routingTable);
+  }
+
+  /**
+   * Apply a new device/connection snapshot. Networks on interfaces that went down
+   * are poisoned straight away; routes learned from routers further away only
+   * age out through the invalid timer.
+   */
+  updateTopology(devices: NetworkDevice[], connections: Connection[]): void {
+    this.segmentPeers.clear();
+    this.routerIds = devices.filter(d => d.type === DeviceType.ROUTER).map(d => d.id);
+    const enabled = new Set<string>();
+
+    devices.forEach(device => {
+      if (device.type !== DeviceType.ROUTER || device.status === DeviceStatus.INACTIVE) return;
+      const router = device as RouterDevice;
+      if (!router.ripEnabled || !router.ripConfig) return;
+      enabled.add(router.id);
+
+      let state = this.routers.get(router.id);
+      if (!state) {
+        state = { deviceId: router.id, timers: DEFAULT_RIP_TIMERS, interfaces: [], routes: new Map(), updateTimer: 0 };
+        this.routers.set(router.id, state);
+      }
+      state.timers = router.ripConfig.timers ?? DEFAULT_RIP_TIMERS;
+
+      const classful = router.ripConfig.networks.map(getClassfulNetwork);
+      state.interfaces = router.interfaces
+        .filter(iface => {
+          if (!iface.ipAddress || iface.status === InterfaceStatus.ADMIN_DOWN) return false;
+          const connection = findInterfaceConnection(connections, router.id, iface);
+          return !!connection && connection.status !== ConnectionStatus.DOWN &&
+            classful.includes(getClassfulNetwork(iface.ipAddress.split('/')[0]));
+        })
+        .map(iface => {
+          const subnet = SubnetCalculator.parseSubnet(iface.ipAddress!);
+          return {
+            name: iface.name,
+            address: subnet.network,
+            mask: subnet.mask,
+            splitHorizon: iface.rip?.splitHorizon !== false,
+          };
+        });
+
+      this.refreshConnectedRoutes(state);
+      state.interfaces.forEach(iface => {
+        this.segmentPeers.set(`${state!.deviceId}|${iface.name}`, findLayer2Peers(devices, connections, state!.deviceId, iface.name));
+      });
+    });
+
+    Array.from(this.routers.keys())
+      .filter(deviceId => !enabled.has(deviceId))
+      .forEach(deviceId => this.routers.delete(deviceId));
+  }
+
+  /**
+   * Advance simulated time; returns the route changes that occurred
+   */
+  tick(seconds: number = 1): RipRouteEvent[] {
+    const firstEvent = this.events.length;
+    for (let i = 0; i < seconds; i++) {
+      this.step();
+    }
+    return this.events.slice(firstEvent);
+  }
+
+  /**
+   * Run until no routes change and no triggered updates are pending (bounded by maxSeconds)
+   */
+  converge(maxSeconds: number = 1200): number {
+    let elapsed = 0;
+    while (elapsed < maxSeconds) {
+      const changed = this.step();
+      elapsed++;
+      const pending = Array.from(this.routers.values()).some(state =>
+        Array.from(state.routes.values()).some(route => route.changed)
+      );
+      if (!changed && !pending) break;
+    }
+    return elapsed;
+  }
+
+  /**
+   * Replace each router's RIP routes with its reachable learned routes.
+   * Routes with a better administrative distance are kept.
+   */
+  installRoutes(routingTable: RoutingTableManager): void {
+    this.routerIds.forEach(deviceId => {
+      routingTable.getRoutes(deviceId)
+        .filter(route => route.protocol === 'rip')
+        .forEach(route => routingTable.removeRoute(deviceId, route.network, route.mask));
+    });
+
+    this.routers.forEach(state => {
+      state.routes.forEach(route => {
+        if (route.connected || route.metric >= RIP_INFINITY) return;
+        const existing = routingTable.getRoutes(state.deviceId).find(r => r.network === route.network && r.mask === route.mask);
+        if (existing && existing.administrativeDistance <= 120) return;
+        routingTable.addRoute(state.deviceId, {
+          network: route.network,
+          mask: route.mask,
+          nextHop: route.nextHop,
+          interface: route.interfaceName,
+          metric: route.metric,
+          protocol: 'rip',
+          administrativeDistance: 120,
+          age: route.age,
+          isActive: true,
+          nextHopReachable: true,
+        });
+      });
+    });
+  }
+
+  isEnabled(deviceId: string): boolean {
+    return this.routers.has(deviceId);
+  }
+
+  getTimers(deviceId: string): RipTimers | undefined {
+    return this.routers.get(deviceId)?.timers;
+  }
+
+  /**
+   * RIP database of a router, including unreachable routes still being advertised
+   */
+  getDatabase(deviceId: string): RipRoute[] {
+    const state = this.routers.get(deviceId);
+    if (!state) return [];
+    return Array.from(state.routes.values()).sort((a, b) =>
+      ipToNumber(a.network) - ipToNumber(b.network) || ipToNumber(a.mask) - ipToNumber(b.mask)
+    );
+  }
+
+  getEvents(deviceId?: string): RipRouteEvent[] {
+    return deviceId ? this.events.filter(e => e.deviceId === deviceId) : [...this.events];
+  }
+
+  /**
+   * Install a route for every RIP interface and poison routes whose interface went away
+   */
+  private refreshConnectedRoutes(state: RipRouterState): void {
+    state.interfaces.forEach(iface => {
+      const network = SubnetCalculator.getNetworkAddress(iface.address, iface.mask);
+      const key = `${network}/${iface.mask}`;
+      const existing = state.routes.get(key);
+      if (existing?.connected && existing.metric === 0 && existing.interfaceName === iface.name) return;
+      const route: RipRoute = {
+        network,
+        mask: iface.mask,
+        metric: 0,
+        nextHop: NO_ROUTER,
+        interfaceName: iface.name,
+        connected: true,
+        age: 0,
+        holddown: 0,
+        changed: true,
+      };
+      state.routes.set(key, route);
+      this.recordEvent(state, route, 'Directly connected');
+    });
+
+    state.routes.forEach(route => {
+      if (route.metric >= RIP_INFINITY || state.interfaces.some(i => i.name === route.interfaceName)) return;
+      if (route.connected) {
+        // Withdraw the network: advertise it as unreachable until it is flushed
+        route.metric = RIP_INFINITY;
+        route.age = state.timers.invalid;
+        route.changed = true;
+        this.recordEvent(state, route, 'Interface down');
+      } else {
+        this.poison(state, route, 'Outgoing interface down');
+      }
+    });
+  }
+
+  /**
+   * Mark a route unreachable and start hold-down; it is flushed flush - invalid seconds later
+   */
+  private poison(state: RipRouterState, route: RipRoute, reason: string): void {
+    route.metricBeforeHolddown = route.metric;
+    route.metric = RIP_INFINITY;
+    route.holddown = state.timers.holddown;
+    route.age = Math.max(route.age, state.timers.invalid);
+    route.changed = true;
+    this.recordEvent(state, route, reason);
+  }
+
+  private recordEvent(state: RipRouterState, route: RipRoute, reason: string): void {
+    this.events.push({
+      time: this.clock,
+      deviceId: state.deviceId,
+      network: route.network,
+      mask: route.mask,
+      metric: route.metric,
+      nextHop: route.nextHop,
+      reason,
+    });
+  }
+
+  /**
+   * One second of protocol time. Returns true when any route changed.
+   */
+  private step(): boolean {
+    this.clock++;
+    let changed = false;
+
+    // Timers
+    this.routers.forEach(state => {
+      state.routes.forEach((route, key) => {
+        if (route.holddown > 0) route.holddown--;
+        if (route.connected && route.metric === 0) return;
+        route.age++;
+        if (route.metric < RIP_INFINITY && route.age >= state.timers.invalid) {
+          this.poison(state, route, 'Invalid timer expired');
+          changed = true;
+        } else if (route.metric >= RIP_INFINITY && route.age >= state.timers.flush) {
+          state.routes.delete(key);
+          this.recordEvent(state, route, 'Flushed');
+          changed = true;
+        }
+      });
+    });
+
+    // Every router builds its updates before any are processed, as if sent at the same instant
+    const updates: RipUpdate[] = [];
+    this.routers.forEach(state => {
+      state.updateTimer--;
+      const periodic = state.updateTimer <= 0;
+      if (periodic) state.updateTimer = state.timers.update;
+      const routes = Array.from(state.routes.values()).filter(route => periodic || route.changed);
+      routes.forEach(route => { route.changed = false; });
+      if (routes.length === 0) return;
+
+      state.interfaces.forEach(iface => {
+        updates.push({
+          senderId: state.deviceId,
+          interfaceName: iface.name,
+          source: iface.address,
+          entries: routes.map(route => ({
+            network: route.network,
+            mask: route.mask,
+            // Split horizon with poison reverse: routes are sent back out of their own interface as unreachable
+            metric: iface.splitHorizon && route.interfaceName === iface.name
+              ? RIP_INFINITY
+              : Math.min(route.metric + 1, RIP_INFINITY),
+          })),
+        });
+      });
+    });
+
+    updates.forEach(update => {
+      (this.segmentPeers.get(`${update.senderId}|${update.interfaceName}`) ?? []).forEach(peer => {
+        const receiver = this.routers.get(peer.deviceId);
+        if (receiver && receiver.interfaces.some(i => i.name === peer.interfaceName)) {
+          changed = this.receiveUpdate(receiver, peer.interfaceName, update) || changed;
+        }
+      });
+    });
+
+    return changed;
+  }
+
+  /**
+   * Process a received response (RFC 2453 section 3.9.2, with Cisco hold-down)
+   */
+  private receiveUpdate(state: RipRouterState, interfaceName: string, update: RipUpdate): boolean {
+    let changed = false;
+
+    update.entries.forEach(entry => {
+      const key = `${entry.network}/${entry.mask}`;
+      const metric = Math.min(entry.metric, RIP_INFINITY);
+      const existing = state.routes.get(key);
+
+      if (existing?.connected && existing.metric < RIP_INFINITY) return;
+
+      if (!existing || (existing.connected && metric < RIP_INFINITY)) {
+        if (metric >= RIP_INFINITY) return;
+        const route: RipRoute = {
+          network: entry.network,
+          mask: entry.mask,
+          metric,
+          nextHop: update.source,
+          interfaceName,
+          connected: false,
+          age: 0,
+          holddown: 0,
+          changed: true,
+        };
+        state.routes.set(key, route);
+        this.recordEvent(state, route, `Learned from ${update.source}`);
+        changed = true;
+        return;
+      }
+
+      const fromCurrentNextHop = existing.nextHop === update.source && existing.interfaceName === interfaceName;
+      if (fromCurrentNextHop) {
+        if (metric >= RIP_INFINITY) {
+          if (existing.metric < RIP_INFINITY) {
+            this.poison(state, existing, `Poisoned by ${update.source}`);
+            changed = true;
+          }
+          return;
+        }
+        existing.age = 0;
+        if (metric !== existing.metric) {
+          existing.metric = metric;
+          existing.holddown = 0;
+          existing.changed = true;
+          this.recordEvent(state, existing, `Metric updated by ${update.source}`);
+          changed = true;
+        }
+        return;
+      }
+
+      if (metric >= existing.metric) return;
+      // During hold-down only a path better than the one that failed is believed
+      if (existing.holddown > 0 && metric >= (existing.metricBeforeHolddown ?? RIP_INFINITY)) return;
+
+      existing.metric = metric;
+      existing.nextHop = update.source;
+      existing.interfaceName = interfaceName;
+      existing.age = 0;
+      existing.holddown = 0;
+      existing.changed = true;
+      this.recordEvent(state, existing, `Better path via ${update.source}`);
+      changed = true;
+    });
+
+    return changed;
+  }
+}
+
+/**
+ * BGP finite state machine states (RFC 4271 section 8)
+ */
+export enum BgpSessionState {
+  IDLE = 'Idle',
+  CONNECT = 'Connect',
+  ACTIVE = 'Active',
+  OPEN_SENT = 'OpenSent',
+  OPEN_CONFIRM = 'OpenConfirm',
+  ESTABLISHED = 'Established',
+}
+
+/**
+ * ORIGIN attribute: IGP, EGP or incomplete
+ */
+export type BgpOrigin = 'i' | 'e' | '?';
+
+/**
+ * Session with one configured BGP neighbor
+ */
+export interface BgpNeighbor {
+  address: string;
+  remoteAs: number;
+  description?: string;
+  internal: boolean; // remote AS equals the local AS
+  shutdown: boolean;
+  nextHopSelf: boolean;
+  state: BgpSessionState;
+  peerDeviceId?: string;
+  peerRouterId?: string;
+  localAddress?: string; // update source used for the session
+  messagesSent: number;
+  messagesReceived: number;
+  tableVersion: number; // BGP table version last sent to the neighbor
+  prefixesReceived: number;
+  lastStateChange?: number; // clock time the session last came up or went down
+  lastError?: string;
+  connectRetryTimer: number;
+  keepaliveTimer: number;
+  holdTimer: number;
+}
+
+/**
+ * Path to a prefix held in the BGP table
+ */
+export interface BgpPath {
+  network: string;
+  mask: string;
+  nextHop: string; // 0.0.0.0 for locally originated networks
+  asPath: number[];
+  origin: BgpOrigin;
+  med: number;
+  localPreference: number;
+  weight: number;
+  source: string; // neighbor the path was learned from, 0.0.0.0 when locally originated
+  sourceRouterId: string;
+  internal: boolean; // learned over iBGP
+  valid: boolean; // next hop resolvable through the IGP
+  best: boolean;
+}
+
+/**
+ * Session state change, as logged by %BGP-5-ADJCHANGE
+ */
+export interface BgpSessionEvent {
+  time: number;
+  deviceId: string;
+  neighbor: string;
+  from: BgpSessionState;
+  to: BgpSessionState;
+  reason: string;
+}
+
+/**
+ * Per-router BGP process state
+ */
+interface BgpRouterState {
+  deviceId: string;
+  asn: number;
+  routerId: string;
+  localPreference: number;
+  interfaces: Array<{ name: string; address: string; mask: string }>;
+  networks: BgpNetworkStatement[];
+  neighbors: Map<string, BgpNeighbor>;
+  adjRibIn: Map<string, Map<string, BgpPath>>; // neighbor -> prefix -> path as received
+  adjRibOut: Map<string, Map<string, BgpPath>>; // neighbor -> prefix -> path as sent
+  table: Map<string, BgpPath[]>; // prefix -> candidate paths, best first
+  tableVersion: number;
+}
+
+type BgpMessage =
+  | { type: 'OPEN'; asn: number; routerId: string; holdTime: number }
+  | { type: 'KEEPALIVE' }
+  | { type: 'UPDATE'; advertised: BgpPath[]; withdrawn: Array<{ network: string; mask: string }> }
+  | { type: 'NOTIFICATION'; error: string };
+
+/**
+ * Message in flight over a BGP session's TCP connection
+ */
+interface BgpEnvelope {
+  fromId: string;
+  fromAddress: string;
+  toId: string;
+  toAddress: string;
+  message: BgpMessage;
+}
+
+export const BGP_DEFAULT_LOCAL_PREFERENCE = 100;
+export const BGP_EXTERNAL_DISTANCE = 20;
+export const BGP_INTERNAL_DISTANCE = 200;
+const BGP_KEEPALIVE = 60;
+const BGP_HOLD_TIME = 180;
+const BGP_OPEN_HOLD_TIME = 240; // RFC 4271 large hold time while waiting for OPEN/KEEPALIVE
+const BGP_CONNECT_RETRY = 30;
+const BGP_LOCAL_WEIGHT = 32768;
+const BGP_ORIGIN_ORDER: BgpOrigin[] = ['i', 'e', '?'];
+
+const bgpPrefixKey = (prefix: { network: string; mask: string }): string => `${prefix.network}/${prefix.mask}`;
+
+const bgpPathSignature = (path: BgpPath): string =>
+  `${path.nextHop}|${path.asPath.join(' ')}|${path.origin}|${path.med}|${path.localPreference}|${path.source}|${path.valid}`;
+
+/**
+ * Cisco best-path order: weight, local preference, locally originated, AS-path
+ * length, origin, MED (same neighboring AS only), eBGP over iBGP, router ID,
+ * neighbor address. Negative when a is preferred.
+ */
+const compareBgpPaths = (a: BgpPath, b: BgpPath): number => {
+  if (a.weight !== b.weight) return b.weight - a.weight;
+  if (a.localPreference !== b.localPreference) return b.localPreference - a.localPreference;
+  const aLocal = a.source === NO_ROUTER;
+  const bLocal = b.source === NO_ROUTER;
+  if (aLocal !== bLocal) return aLocal ? -1 : 1;
+  if (a.asPath.length !== b.asPath.length) return a.asPath.length - b.asPath.length;
+  if (a.origin !== b.origin) return BGP_ORIGIN_ORDER.indexOf(a.origin) - BGP_ORIGIN_ORDER.indexOf(b.origin);
+  if ((a.asPath[0] ?? 0) === (b.asPath[0] ?? 0) && a.med !== b.med) return a.med - b.med;
+  if (a.internal !== b.internal) return a.internal ? 1 : -1;
+  if (a.sourceRouterId !== b.sourceRouterId) return ipToNumber(a.sourceRouterId) - ipToNumber(b.sourceRouterId);
+  return ipToNumber(a.source) - ipToNumber(b.source);
+};
+
+/**
+ * BGP-4 path-vector simulation.
+ * Each neighbor runs the RFC 4271 session FSM over a simulated TCP connection:
+ * eBGP peers must share a segment, iBGP peers reach each other through IGP routes.
+ * Established sessions exchange UPDATE/WITHDRAW messages built from the difference
+ * between the best paths and what was last sent; iBGP-learned paths are not passed
+ * to other iBGP peers and paths carrying the local AS are discarded.
+ */
+export class BGPManager {
+  private routingTable: RoutingTableManager;
+  private routers: Map<string, BgpRouterState> = new Map();
+  private segmentPeers: Map<string, Array<{ deviceId: string; interfaceName: string }>> = new Map();
+  private routerIds: string[] = [];
+  private outbox: BgpEnvelope[] = [];
+  private events: BgpSessionEvent[] = [];
+  private clock = 0;
+
+  constructor(routingTable: RoutingTableManager) {
+    this.routingTable = routingTable;
+  }
+
+  /**
+   * Build BGP state from scratch, run until sessions and tables settle and install the routes.
+   * IGP routes must already be installed, since iBGP sessions and next hops depend on them.
+   */
+  calculateBGPRoutes(devices: NetworkDevice[], connections: Connection[]): void {
+    this.updateTopology(devices, connections);
+    this.converge();
+    this.installRoutes();
+  }
+
+  /**
+   * Apply a new device/connection snapshot, reconciling neighbor statements with the
+   * running sessions. Sessions that lose transport are torn down by the FSM.
+   */
+  updateTopology(devices: NetworkDevice[], connections: Connection[]): void {
+    this.segmentPeers.clear();
+    this.routerIds = devices.filter(d => d.type === DeviceType.ROUTER).map(d => d.id);
+    const enabled = new Set<string>();
+
+    devices.forEach(device => {
+      if (device.type !== DeviceType.ROUTER || device.status === DeviceStatus.INACTIVE) return;
+      const router = device as RouterDevice;
+      const config = router.bgpConfig;
+      if (!router.bgpEnabled || !config) return;
+      enabled.add(router.id);
+
+      let state = this.routers.get(router.id);
+      if (state && state.asn !== config.asn) {
+        this.shutdownRouter(state, 'AS number changed');
+        state = undefined;
+      }
+      if (!state) {
+        state = {
+          deviceId: router.id,
+          asn: config.asn,
+          routerId: NO_ROUTER,
+          localPreference: BGP_DEFAULT_LOCAL_PREFERENCE,
+          interfaces: [],
+          networks: [],
+          neighbors: new Map(),
+          adjRibIn: new Map(),
+          adjRibOut: new Map(),
+          table: new Map(),
+          tableVersion: 1,
+        };
+        this.routers.set(router.id, state);
+      }
+
+      state.interfaces = router.interfaces
+        .filter(iface => {
+          if (!iface.ipAddress || iface.status === InterfaceStatus.ADMIN_DOWN) return false;
+          const connection = findInterfaceConnection(connections, router.id, iface);
+          return !!connection && connection.status !== ConnectionStatus.DOWN;
+        })
+        .map(iface => {
+          const subnet = SubnetCalculator.parseSubnet(iface.ipAddress!);
+          return { name: iface.name, address: subnet.network, mask: subnet.mask };
+        });
+      state.interfaces.forEach(iface => {
+        this.segmentPeers.set(`${router.id}|${iface.name}`, findLayer2Peers(devices, connections, router.id, iface.name));
+      });
+
+      const addresses = router.interfaces
+        .filter(iface => iface.ipAddress && iface.status !== InterfaceStatus.ADMIN_DOWN)
+        .map(iface => iface.ipAddress!.split('/')[0])
+        .sort((a, b) => ipToNumber(b) - ipToNumber(a));
+      state.routerId = config.routerId ?? addresses[0] ?? NO_ROUTER;
+      state.localPreference = config.defaultLocalPreference ?? BGP_DEFAULT_LOCAL_PREFERENCE;
+      state.networks = config.networks;
+      this.reconcileNeighbors(state, config.neighbors);
+    });
+
+    Array.from(this.routers.values())
+      .filter(state => !enabled.has(state.deviceId))
+      .forEach(state => this.shutdownRouter(state, 'BGP process removed'));
+  }
+
+  /**
+   * Advance simulated time; returns the session state changes that occurred
+   */
+  tick(seconds: number = 1): BgpSessionEvent[] {
+    const firstEvent = this.events.length;
+    for (let i = 0; i < seconds; i++) {
+      this.step();
+    }
+    return this.events.slice(firstEvent);
+  }
+
+  /**
+   * Run until no session or table changes and no messages are in flight (bounded by maxSeconds)
+   */
+  converge(maxSeconds: number = 600): number {
+    let elapsed = 0;
+    while (elapsed < maxSeconds) {
+      const changed = this.step();
+      elapsed++;
+      if (!changed && this.outbox.length === 0) break;
+    }
+    return elapsed;
+  }
 
-    // Add connected route for this VLAN
-    const networkAddr = SubnetCalculator.getNetworkAddress(ipAddress, mask);
-    this.routingTable.addRoute(deviceId, {
-      network: networkAddr,
-      mask,
-      nextHop: '0.0.0.0',
-      interface: `vlan${vlanId}`,
-      metric: 0,
-      protocol: 'connected',
-      administrativeDistance: 0,
-      age: 0,
-      isActive: true,
-      nextHopReachable: true,
+  /**
+   * Replace each router's BGP routes with its best paths. eBGP routes use AD 20 and
+   * iBGP routes AD 200; routes with a better administrative distance are kept.
+   */
+  installRoutes(): void {
+    this.removeRoutes();
+
+    this.routers.forEach(state => {
+      state.table.forEach(paths => {
+        const best = paths.find(path => path.best);
+        if (!best || best.source === NO_ROUTER) return;
+        const distance = best.internal ? BGP_INTERNAL_DISTANCE : BGP_EXTERNAL_DISTANCE;
+        const existing = this.routingTable.getRoutes(state.deviceId).find(r => r.network === best.network && r.mask === best.mask);
+        if (existing && existing.administrativeDistance <= distance) return;
+        const via = this.resolveNextHop(state.deviceId, best.nextHop);
+        if (!via) return;
+        this.routingTable.addRoute(state.deviceId, {
+          network: best.network,
+          mask: best.mask,
+          nextHop: best.nextHop,
+          interface: via.interface,
+          metric: best.med,
+          protocol: 'bgp',
+          administrativeDistance: distance,
+          age: 0,
+          isActive: true,
+          nextHopReachable: true,
+        });
+      });
     });
   }
 
   /**
-   * Remove VLAN interface
+   * Withdraw all BGP routes from the routing table
    */
-  removeVlanInterface(deviceId: string, vlanId: number): void {
-    const deviceVlans = this.vlanInterfaces.get(deviceId);
-    if (deviceVlans) {
-      deviceVlans.delete(vlanId);
-      
-      // Remove connected route for this VLAN
-      // Note: This is simplified - should find and remove the specific route
-      const routes = this.routingTable.getRoutes(deviceId);
-      const vlanRoute = routes.find(r => r.interface === `vlan${vlanId}`);
-      if (vlanRoute) {
-        this.routingTable.removeRoute(deviceId, vlanRoute.network, vlanRoute.mask);
+  removeRoutes(): void {
+    this.routerIds.forEach(deviceId => {
+      this.routingTable.getRoutes(deviceId)
+        .filter(route => route.protocol === 'bgp')
+        .forEach(route => this.routingTable.removeRoute(deviceId, route.network, route.mask));
+    });
+  }
+
+  isEnabled(deviceId: string): boolean {
+    return this.routers.has(deviceId);
+  }
+
+  getLocalAs(deviceId: string): number | undefined {
+    return this.routers.get(deviceId)?.asn;
+  }
+
+  getRouterId(deviceId: string): string | undefined {
+    return this.routers.get(deviceId)?.routerId;
+  }
+
+  getTableVersion(deviceId: string): number {
+    return this.routers.get(deviceId)?.tableVersion ?? 0;
+  }
+
+  getNeighbors(deviceId: string): BgpNeighbor[] {
+    const state = this.routers.get(deviceId);
+    if (!state) return [];
+    return Array.from(state.neighbors.values()).sort((a, b) => ipToNumber(a.address) - ipToNumber(b.address));
+  }
+
+  /**
+   * BGP table of a router: every candidate path, grouped by prefix with the best path first
+   */
+  getTable(deviceId: string): BgpPath[] {
+    const state = this.routers.get(deviceId);
+    if (!state) return [];
+    return Array.from(state.table.values())
+      .sort((a, b) => ipToNumber(a[0].network) - ipToNumber(b[0].network) || ipToNumber(a[0].mask) - ipToNumber(b[0].mask))
+      .flat();
+  }
+
+  /**
+   * Current time on the BGP clock, for uptime display
+   */
+  getClock(): number {
+    return this.clock;
+  }
+
+  getEvents(deviceId?: string): BgpSessionEvent[] {
+    return deviceId ? this.events.filter(e => e.deviceId === deviceId) : [...this.events];
+  }
+
+  /**
+   * Add, update and remove neighbors to match the configured neighbor statements
+   */
+  private reconcileNeighbors(state: BgpRouterState, configs: BgpNeighborConfig[]): void {
+    state.neighbors.forEach((neighbor, address) => {
+      if (configs.some(c => c.address === address)) return;
+      this.closeSession(state, neighbor, 'Neighbor deleted');
+      state.neighbors.delete(address);
+    });
+
+    configs.forEach(config => {
+      let neighbor = state.neighbors.get(config.address);
+      if (!neighbor) {
+        neighbor = {
+          address: config.address,
+          remoteAs: config.remoteAs,
+          internal: config.remoteAs === state.asn,
+          shutdown: false,
+          nextHopSelf: false,
+          state: BgpSessionState.IDLE,
+          messagesSent: 0,
+          messagesReceived: 0,
+          tableVersion: 0,
+          prefixesReceived: 0,
+          connectRetryTimer: 0,
+          keepaliveTimer: 0,
+          holdTimer: 0,
+        };
+        state.neighbors.set(config.address, neighbor);
+      } else if (neighbor.remoteAs !== config.remoteAs) {
+        this.closeSession(state, neighbor, 'Remote AS changed');
+        neighbor.connectRetryTimer = 0;
       }
-    }
+
+      neighbor.remoteAs = config.remoteAs;
+      neighbor.internal = config.remoteAs === state.asn;
+      neighbor.description = config.description;
+      neighbor.nextHopSelf = !!config.nextHopSelf;
+      const shutdown = !!config.shutdown;
+      if (shutdown && !neighbor.shutdown) {
+        this.closeSession(state, neighbor, 'Admin. shutdown');
+      } else if (!shutdown && neighbor.shutdown) {
+        neighbor.connectRetryTimer = 0;
+      }
+      neighbor.shutdown = shutdown;
+    });
+  }
+
+  private shutdownRouter(state: BgpRouterState, reason: string): void {
+    state.neighbors.forEach(neighbor => this.closeSession(state, neighbor, reason));
+    this.routers.delete(state.deviceId);
   }
 
   /**
-   * Get VLAN gateway for a specific VLAN
+   * Transport for a session: the peer owning the neighbor address and the local
+   * address the connection is sourced from. eBGP peers must be directly connected;
+   * iBGP peers need IGP routes in both directions.
    */
-  getVlanGateway(deviceId: string, vlanId: number): string | null {
-    const deviceVlans = this.vlanInterfaces.get(deviceId);
-    return deviceVlans?.get(vlanId) || null;
+  private findTransport(state: BgpRouterState, neighbor: BgpNeighbor): { peer: BgpRouterState; localAddress: string } | undefined {
+    const peer = Array.from(this.routers.values()).find(r => r !== state && r.interfaces.some(i => i.address === neighbor.address));
+    const peerIface = peer?.interfaces.find(i => i.address === neighbor.address);
+    if (!peer || !peerIface) return undefined;
+
+    const connected = state.interfaces.find(i => SubnetCalculator.isInSameSubnet(i.address, neighbor.address, i.mask));
+    if (connected) {
+      const reachable = (this.segmentPeers.get(`${state.deviceId}|${connected.name}`) ?? [])
+        .some(p => p.deviceId === peer.deviceId && p.interfaceName === peerIface.name);
+      return reachable ? { peer, localAddress: connected.address } : undefined;
+    }
+    if (!neighbor.internal) return undefined; // eBGP multihop is not supported
+
+    const route = this.resolveNextHop(state.deviceId, neighbor.address);
+    const localIface = route && state.interfaces.find(i => i.name === route.interface);
+    if (!localIface || !this.resolveNextHop(peer.deviceId, localIface.address)) return undefined;
+    return { peer, localAddress: localIface.address };
   }
 
   /**
-   * Check if device can route between VLANs
+   * Longest-match non-BGP route to an address (BGP next hops are resolved through the IGP)
    */
-  canRouteVlans(deviceId: string, sourceVlan: number, targetVlan: number): boolean {
-    const deviceVlans = this.vlanInterfaces.get(deviceId);
-    return deviceVlans?.has(sourceVlan) && deviceVlans?.has(targetVlan) || false;
+  private resolveNextHop(deviceId: string, address: string): EnhancedRouteEntry | undefined {
+    return this.routingTable.getRoutes(deviceId)
+      .filter(route => route.protocol !== 'bgp' && route.isActive && SubnetCalculator.isInSameSubnet(address, route.network, route.mask))
+      .sort((a, b) =>
+        SubnetCalculator.maskToPrefix(b.mask) - SubnetCalculator.maskToPrefix(a.mask) ||
+        a.administrativeDistance - b.administrativeDistance
+      )[0];
   }
-}
 
-/**
- * OSPF simulation (simplified)
- */
-export class OSPFManager {
-  private areas: Map<string, Set<string>> = new Map(); // areaId -> deviceIds
-  private lsdb: Map<string, any[]> = new Map(); // Link State Database per area
+  private setSessionState(state: BgpRouterState, neighbor: BgpNeighbor, to: BgpSessionState, reason: string): void {
+    if (neighbor.state === to) return;
+    this.events.push({
+      time: this.clock,
+      deviceId: state.deviceId,
+      neighbor: neighbor.address,
+      from: neighbor.state,
+      to,
+      reason,
+    });
+    if (to === BgpSessionState.ESTABLISHED || neighbor.state === BgpSessionState.ESTABLISHED) {
+      neighbor.lastStateChange = this.clock;
+    }
+    neighbor.state = to;
+  }
 
   /**
-   * Add device to OSPF area
+   * Tear a session down to Idle, notifying the peer when a connection exists
    */
-  addToArea(deviceId: string, areaId: string = '0.0.0.0'): void {
-    if (!this.areas.has(areaId)) {
-      this.areas.set(areaId, new Set());
+  private closeSession(state: BgpRouterState, neighbor: BgpNeighbor, reason: string, notify: boolean = true): void {
+    const connected = [BgpSessionState.OPEN_SENT, BgpSessionState.OPEN_CONFIRM, BgpSessionState.ESTABLISHED].includes(neighbor.state);
+    if (notify && connected) {
+      this.send(state, neighbor, { type: 'NOTIFICATION', error: reason });
     }
-    this.areas.get(areaId)!.add(deviceId);
+    if (connected) neighbor.lastError = reason;
+    this.setSessionState(state, neighbor, BgpSessionState.IDLE, reason);
+    state.adjRibIn.delete(neighbor.address);
+    state.adjRibOut.delete(neighbor.address);
+    neighbor.prefixesReceived = 0;
+    neighbor.connectRetryTimer = BGP_CONNECT_RETRY;
   }
 
   /**
-   * Remove device from OSPF area
+   * Queue a message to the peer; it is lost if the transport is down
    */
-  removeFromArea(deviceId: string, areaId: string = '0.0.0.0'): void {
-    const area = this.areas.get(areaId);
-    if (area) {
-      area.delete(deviceId);
-      if (area.size === 0) {
-        this.areas.delete(areaId);
+  private send(state: BgpRouterState, neighbor: BgpNeighbor, message: BgpMessage): void {
+    neighbor.messagesSent++;
+    const transport = this.findTransport(state, neighbor);
+    if (!transport || transport.peer.deviceId !== neighbor.peerDeviceId) return;
+    this.outbox.push({
+      fromId: state.deviceId,
+      fromAddress: transport.localAddress,
+      toId: transport.peer.deviceId,
+      toAddress: neighbor.address,
+      message,
+    });
+  }
+
+  /**
+   * One second of protocol time. Returns true when any session or table changed.
+   */
+  private step(): boolean {
+    this.clock++;
+    let changed = false;
+
+    // Messages sent during the previous second arrive now
+    const inbox = this.outbox;
+    this.outbox = [];
+    inbox.forEach(envelope => {
+      changed = this.receive(envelope) || changed;
+    });
+
+    this.routers.forEach(state => {
+      state.neighbors.forEach(neighbor => {
+        changed = this.runSessionFsm(state, neighbor) || changed;
+      });
+    });
+    this.routers.forEach(state => {
+      changed = this.runDecisionProcess(state) || changed;
+    });
+    this.routers.forEach(state => {
+      changed = this.sendUpdates(state) || changed;
+    });
+
+    return changed;
+  }
+
+  /**
+   * Timer-driven FSM transitions: connection attempts, retries, keepalives and hold timer expiry
+   */
+  private runSessionFsm(state: BgpRouterState, neighbor: BgpNeighbor): boolean {
+    if (neighbor.shutdown) return false;
+
+    switch (neighbor.state) {
+      case BgpSessionState.IDLE:
+        if (neighbor.connectRetryTimer > 0) {
+          neighbor.connectRetryTimer--;
+          return false;
+        }
+        this.setSessionState(state, neighbor, BgpSessionState.CONNECT, 'Start');
+        return true;
+
+      case BgpSessionState.ACTIVE:
+        if (--neighbor.connectRetryTimer > 0) return false;
+        this.setSessionState(state, neighbor, BgpSessionState.CONNECT, 'ConnectRetry timer expired');
+        return true;
+
+      case BgpSessionState.CONNECT: {
+        const transport = this.findTransport(state, neighbor);
+        const peerNeighbor = transport?.peer.neighbors.get(transport.localAddress);
+        if (!transport || !peerNeighbor || peerNeighbor.shutdown) {
+          neighbor.connectRetryTimer = BGP_CONNECT_RETRY;
+          this.setSessionState(state, neighbor, BgpSessionState.ACTIVE, transport ? 'Connection refused by peer' : 'No route to peer');
+          return true;
+        }
+        neighbor.peerDeviceId = transport.peer.deviceId;
+        neighbor.localAddress = transport.localAddress;
+        neighbor.holdTimer = BGP_OPEN_HOLD_TIME;
+        this.send(state, neighbor, { type: 'OPEN', asn: state.asn, routerId: state.routerId, holdTime: BGP_HOLD_TIME });
+        this.setSessionState(state, neighbor, BgpSessionState.OPEN_SENT, 'TCP connection established');
+        return true;
+      }
+
+      case BgpSessionState.OPEN_SENT:
+      case BgpSessionState.OPEN_CONFIRM:
+        if (--neighbor.holdTimer > 0) return false;
+        this.closeSession(state, neighbor, 'Hold timer expired');
+        return true;
+
+      case BgpSessionState.ESTABLISHED: {
+        // Fast external fallover: directly connected eBGP sessions drop as soon as the link does
+        if (!neighbor.internal && this.findTransport(state, neighbor)?.peer.deviceId !== neighbor.peerDeviceId) {
+          this.closeSession(state, neighbor, 'Interface flap', false);
+          return true;
+        }
+        if (--neighbor.holdTimer <= 0) {
+          this.closeSession(state, neighbor, 'Hold timer expired');
+          return true;
+        }
+        if (--neighbor.keepaliveTimer <= 0) {
+          neighbor.keepaliveTimer = BGP_KEEPALIVE;
+          this.send(state, neighbor, { type: 'KEEPALIVE' });
+        }
+        return false;
       }
     }
   }
 
   /**
-   * Calculate OSPF routes (simplified SPF algorithm)
+   * Message-driven FSM transitions and UPDATE processing
    */
-  calculateOSPFRoutes(
-    routingTable: RoutingTableManager,
-    devices: NetworkDevice[],
-    connections: Connection[]
-  ): void {
-    // Simplified OSPF calculation
-    // In a real implementation, this would run Dijkstra's algorithm on the link-state database
+  private receive(envelope: BgpEnvelope): boolean {
+    const state = this.routers.get(envelope.toId);
+    const neighbor = state?.neighbors.get(envelope.fromAddress);
+    if (!state || !neighbor || neighbor.shutdown) return false;
+    neighbor.messagesReceived++;
+    const message = envelope.message;
 
-    this.areas.forEach((deviceIds, areaId) => {
-      const areaDevices = devices.filter(d => deviceIds.has(d.id));
-      
-      // For each device in the area, calculate routes to all other networks
-      areaDevices.forEach(sourceDevice => {
-        if (sourceDevice.type === DeviceType.ROUTER) {
-          areaDevices.forEach(targetDevice => {
-            if (sourceDevice.id !== targetDevice.id && targetDevice.type === DeviceType.ROUTER) {
-              // Add OSPF route to target device's networks
-              const targetRouter = targetDevice as RouterDevice;
-              targetRouter.interfaces.forEach(iface => {
-                if (iface.ipAddress) {
-                  const subnet = SubnetCalculator.parseSubnet(iface.ipAddress);
-                  const networkAddr = SubnetCalculator.getNetworkAddress(subnet.network, subnet.mask);
-                  
-                  routingTable.addRoute(sourceDevice.id, {
-                    network: networkAddr,
-                    mask: subnet.mask,
-                    nextHop: this.getNextHop(sourceDevice.id, targetDevice.id, connections),
-                    interface: 'auto',
-                    metric: this.calculateOSPFMetric(sourceDevice.id, targetDevice.id, connections),
-                    protocol: 'ospf',
-                    administrativeDistance: 110,
-                    age: 0,
-                    isActive: true,
-                    nextHopReachable: true,
-                  });
-                }
-              });
-            }
-          });
+    switch (message.type) {
+      case 'OPEN': {
+        if (neighbor.state === BgpSessionState.OPEN_CONFIRM || neighbor.state === BgpSessionState.ESTABLISHED) return false;
+        neighbor.peerDeviceId = envelope.fromId;
+        neighbor.localAddress = envelope.toAddress;
+        if (neighbor.state !== BgpSessionState.OPEN_SENT) {
+          // Passive open: accept the peer's connection and answer with our own OPEN
+          this.send(state, neighbor, { type: 'OPEN', asn: state.asn, routerId: state.routerId, holdTime: BGP_HOLD_TIME });
+          this.setSessionState(state, neighbor, BgpSessionState.OPEN_SENT, 'Passive open');
+        }
+        if (message.asn !== neighbor.remoteAs) {
+          this.closeSession(state, neighbor, `Bad remote AS ${message.asn}, expected ${neighbor.remoteAs}`);
+          return true;
+        }
+        if (message.routerId === state.routerId) {
+          this.closeSession(state, neighbor, `Duplicate router ID ${message.routerId}`);
+          return true;
+        }
+        neighbor.peerRouterId = message.routerId;
+        neighbor.holdTimer = Math.min(message.holdTime, BGP_HOLD_TIME);
+        this.send(state, neighbor, { type: 'KEEPALIVE' });
+        neighbor.keepaliveTimer = BGP_KEEPALIVE;
+        this.setSessionState(state, neighbor, BgpSessionState.OPEN_CONFIRM, 'OPEN received');
+        return true;
+      }
+
+      case 'KEEPALIVE':
+        if (neighbor.state === BgpSessionState.ESTABLISHED) {
+          neighbor.holdTimer = BGP_HOLD_TIME;
+          return false;
+        }
+        if (neighbor.state !== BgpSessionState.OPEN_CONFIRM) return false;
+        neighbor.holdTimer = BGP_HOLD_TIME;
+        state.adjRibOut.set(neighbor.address, new Map());
+        this.setSessionState(state, neighbor, BgpSessionState.ESTABLISHED, 'KEEPALIVE received');
+        return true;
+
+      case 'UPDATE': {
+        if (neighbor.state !== BgpSessionState.ESTABLISHED) return false;
+        neighbor.holdTimer = BGP_HOLD_TIME;
+        let ribIn = state.adjRibIn.get(neighbor.address);
+        if (!ribIn) {
+          ribIn = new Map();
+          state.adjRibIn.set(neighbor.address, ribIn);
         }
+        message.withdrawn.forEach(prefix => ribIn!.delete(bgpPrefixKey(prefix)));
+        message.advertised.forEach(path => {
+          const key = bgpPrefixKey(path);
+          // AS-path loop prevention
+          if (path.asPath.includes(state.asn)) {
+            ribIn!.delete(key);
+            return;
+          }
+          ribIn!.set(key, {
+            ...path,
+            localPreference: neighbor.internal ? path.localPreference : state.localPreference,
+            weight: 0,
+            source: neighbor.address,
+            sourceRouterId: neighbor.peerRouterId ?? NO_ROUTER,
+            internal: neighbor.internal,
+            valid: false,
+            best: false,
+          });
+        });
+        neighbor.prefixesReceived = ribIn.size;
+        return true;
+      }
+
+      case 'NOTIFICATION':
+        this.closeSession(state, neighbor, `Received NOTIFICATION: ${message.error}`, false);
+        return true;
+    }
+  }
+
+  /**
+   * Rebuild the BGP table from network statements and Adj-RIBs-In and select best paths
+   */
+  private runDecisionProcess(state: BgpRouterState): boolean {
+    const table: Map<string, BgpPath[]> = new Map();
+    const addPath = (path: BgpPath) => {
+      const key = bgpPrefixKey(path);
+      table.set(key, [...(table.get(key) ?? []), path]);
+    };
+
+    // Network statements originate a prefix only when it is in the routing table
+    const igpRoutes = this.routingTable.getRoutes(state.deviceId).filter(route => route.protocol !== 'bgp');
+    state.networks.forEach(statement => {
+      const route = igpRoutes.find(r => r.network === statement.network && r.mask === statement.mask);
+      if (!route) return;
+      addPath({
+        network: statement.network,
+        mask: statement.mask,
+        nextHop: NO_ROUTER,
+        asPath: [],
+        origin: 'i',
+        med: route.metric,
+        localPreference: state.localPreference,
+        weight: BGP_LOCAL_WEIGHT,
+        source: NO_ROUTER,
+        sourceRouterId: state.routerId,
+        internal: false,
+        valid: true,
+        best: false,
       });
     });
-  }
 
-  private getNextHop(sourceId: string, targetId: string, connections: Connection[]): string {
-    // Simplified - return the first hop neighbor
-    // In reality, this would be calculated via SPF
-    const connection = connections.find(c => 
-      (c.sourceDevice === sourceId && c.targetDevice === targetId) ||
-      (c.targetDevice === sourceId && c.sourceDevice === targetId)
-    );
-    return connection ? '0.0.0.1' : '0.0.0.0'; // Placeholder
+    state.adjRibIn.forEach(ribIn => {
+      ribIn.forEach(path => {
+        addPath({ ...path, valid: !!this.resolveNextHop(state.deviceId, path.nextHop), best: false });
+      });
+    });
+
+    table.forEach(paths => {
+      paths.sort((a, b) => (a.valid === b.valid ? compareBgpPaths(a, b) : a.valid ? -1 : 1));
+      if (paths[0].valid) paths[0].best = true;
+    });
+
+    let changed = false;
+    const prefixes = new Set([...Array.from(state.table.keys()), ...Array.from(table.keys())]);
+    prefixes.forEach(key => {
+      const before = (state.table.get(key) ?? []).map(bgpPathSignature).join(';');
+      const after = (table.get(key) ?? []).map(bgpPathSignature).join(';');
+      if (before !== after) {
+        state.tableVersion++;
+        changed = true;
+      }
+    });
+    state.table = table;
+    return changed;
   }
 
-  private calculateOSPFMetric(sourceId: string, targetId: string, connections: Connection[]): number {
-    // Simplified metric calculation based on bandwidth
-    // OSPF cost = 100,000,000 / bandwidth in bps
-    const connection = connections.find(c => 
-      (c.sourceDevice === sourceId && c.targetDevice === targetId) ||
-      (c.targetDevice === sourceId && c.sourceDevice === targetId)
-    );
-    
-    if (connection) {
-      const bandwidthBps = connection.bandwidth * 1000000; // Convert Mbps to bps
-      return Math.ceil(100000000 / bandwidthBps);
-    }
-    
-    return 10; // Default metric
+  /**
+   * Send each established neighbor the difference between its Adj-RIB-Out and the current best paths
+   */
+  private sendUpdates(state: BgpRouterState): boolean {
+    let changed = false;
+
+    state.neighbors.forEach(neighbor => {
+      if (neighbor.state !== BgpSessionState.ESTABLISHED || !neighbor.localAddress) return;
+      const localAddress = neighbor.localAddress;
+
+      const desired: Map<string, BgpPath> = new Map();
+      state.table.forEach((paths, key) => {
+        const best = paths.find(path => path.best);
+        if (!best || best.source === neighbor.address) return;
+        // iBGP split horizon: iBGP-learned paths are not re-advertised to iBGP peers
+        if (best.internal && neighbor.internal) return;
+        const local = best.source === NO_ROUTER;
+        desired.set(key, neighbor.internal
+          ? { ...best, nextHop: local || neighbor.nextHopSelf ? localAddress : best.nextHop }
+          : {
+              ...best,
+              asPath: [state.asn, ...best.asPath],
+              nextHop: localAddress,
+              med: local ? best.med : 0, // MED is not passed on beyond the neighboring AS
+              localPreference: BGP_DEFAULT_LOCAL_PREFERENCE,
+            });
+      });
+
+      const sent = state.adjRibOut.get(neighbor.address) ?? new Map<string, BgpPath>();
+      const advertised = Array.from(desired.entries())
+        .filter(([key, path]) => !sent.has(key) || bgpPathSignature(sent.get(key)!) !== bgpPathSignature(path))
+        .map(([, path]) => path);
+      const withdrawn = Array.from(sent.values())
+        .filter(path => !desired.has(bgpPrefixKey(path)))
+        .map(path => ({ network: path.network, mask: path.mask }));
+
+      neighbor.tableVersion = state.tableVersion;
+      if (advertised.length === 0 && withdrawn.length === 0) return;
+      this.send(state, neighbor, { type: 'UPDATE', advertised, withdrawn });
+      state.adjRibOut.set(neighbor.address, desired);
+      changed = true;
+    });
+
+    return changed;
   }
 }
 
+/**
+ * Changes made by the dynamic routing protocols while time was advanced
+ */
+export interface DynamicRoutingEvents {
+  ospf: OspfAdjacencyEvent[];
+  rip: RipRouteEvent[];
+  bgp: BgpSessionEvent[];
+}
+
+/**
+ * Dynamic routing change stamped with the routing engine's clock, so OSPF, RIP and BGP
+ * convergence can be read side by side
+ */
+export interface RoutingLogEntry {
+  time: number; // seconds the protocols had run on this engine
+  protocol: 'OSPF' | 'RIP' | 'BGP';
+  deviceId: string;
+  message: string;
+}
+
+const ROUTING_LOG_SIZE = 500;
+
 /**
  * Main routing engine
  */
@@ -462,33 +2802,77 @@ export class RoutingEngine {
   private routingTable: RoutingTableManager;
   private interVlanRouting: InterVlanRoutingManager;
   private ospf: OSPFManager;
+  private rip: RIPManager;
+  private bgp: BGPManager;
+  private pendingTime = 0; // ms of simulated time short of a whole protocol second
+  private clock = 0; // seconds the protocols have been advanced
+  private log: RoutingLogEntry[] = [];
 
   constructor() {
     this.routingTable = new RoutingTableManager();
     this.interVlanRouting = new InterVlanRoutingManager(this.routingTable);
     this.ospf = new OSPFManager();
+    this.rip = new RIPManager();
+    this.bgp = new BGPManager(this.routingTable);
   }
 
   /**
    * Initialize routing for all devices
    */
   initializeRouting(devices: NetworkDevice[], connections: Connection[]): void {
+    this.installConfiguredRoutes(devices);
+
+    // Calculate dynamic routes; OSPF (AD 110) is installed before RIP (AD 120),
+    // and BGP last because its sessions and next hops resolve through the IGP
+    this.ospf.calculateOSPFRoutes(this.routingTable, devices, connections);
+    this.rip.calculateRIPRoutes(this.routingTable, devices, connections);
+    this.bgp.calculateBGPRoutes(devices, connections);
+  }
+
+  /**
+   * Rebuild every device's connected, inter-VLAN and static routes from its config
+   */
+  private installConfiguredRoutes(devices: NetworkDevice[]): void {
+    this.interVlanRouting = new InterVlanRoutingManager(this.routingTable);
     devices.forEach(device => {
-      if (device.type === DeviceType.ROUTER) {
-        const router = device as RouterDevice;
+      this.routingTable.clearRoutes(device.id);
+
+      // Firewalls route too, from connected and static routes only
+      if (device.type === DeviceType.ROUTER || device.type === DeviceType.FIREWALL) {
+        const router = device as RouterDevice | FirewallDevice;
         
         // Add connected routes
         this.routingTable.addConnectedRoutes(router);
+        if (router.type === DeviceType.ROUTER) {
+          this.interVlanRouting.configureSubinterfaces(router);
+        }
+
+        // Install configured static routes
+        (router.routingTable || [])
+          .filter(route => route.protocol === 'static')
+          .forEach(route => {
+            this.addStaticRoute(router.id, route.network, route.mask, route.nextHop, route.interface);
+          });
         
         // Enable OSPF if configured
-        if (router.ospfEnabled) {
+        if (router.type === DeviceType.ROUTER && router.ospfEnabled) {
           this.ospf.addToArea(router.id);
+        } else {
+          this.ospf.removeFromArea(router.id);
         }
       }
-    });
 
-    // Calculate OSPF routes
-    this.ospf.calculateOSPFRoutes(this.routingTable, devices, connections);
+      // A multilayer switch routes between its SVIs and routed ports
+      if (device.type === DeviceType.MULTILAYER_SWITCH) {
+        this.routingTable.addConnectedRoutes(device);
+        this.interVlanRouting.configureSvis(device);
+        device.routingTable
+          .filter(route => route.protocol === 'static')
+          .forEach(route => {
+            this.addStaticRoute(device.id, route.network, route.mask, route.nextHop, route.interface);
+          });
+      }
+    });
   }
 
   /**
@@ -531,6 +2915,13 @@ export class RoutingEngine {
     return this.routingTable.getRoutes(deviceId);
   }
 
+  /**
+   * Get the routing table manager shared by all routing protocols (used for forwarding lookups)
+   */
+  getRoutingTableManager(): RoutingTableManager {
+    return this.routingTable;
+  }
+
   /**
    * Add static route
    */
@@ -555,6 +2946,13 @@ export class RoutingEngine {
     });
   }
 
+  /**
+   * Remove static route
+   */
+  removeStaticRoute(deviceId: string, network: string, mask: string): void {
+    this.routingTable.removeRoute(deviceId, network, mask);
+  }
+
   /**
    * Enable OSPF on device
    */
@@ -562,6 +2960,133 @@ export class RoutingEngine {
     this.ospf.addToArea(deviceId, areaId);
   }
 
+  /**
+   * Get OSPF process state (neighbors, LSDB, SPF results)
+   */
+  getOSPFManager(): OSPFManager {
+    return this.ospf;
+  }
+
+  /**
+   * Get RIP process state (database, timers, route events)
+   */
+  getRIPManager(): RIPManager {
+    return this.rip;
+  }
+
+  /**
+   * Get BGP process state (sessions, BGP table, session events)
+   */
+  getBGPManager(): BGPManager {
+    return this.bgp;
+  }
+
+  /**
+   * Apply device and connection changes without resetting protocol state. Connected and
+   * static routes follow the config at once; OSPF, RIP and BGP react as time is advanced.
+   */
+  updateTopology(devices: NetworkDevice[], connections: Connection[]): void {
+    const recorded = { ospf: this.ospf.getEvents().length, rip: this.rip.getEvents().length, bgp: this.bgp.getEvents().length };
+    this.installConfiguredRoutes(devices);
+    this.ospf.updateTopology(devices, connections);
+    this.rip.updateTopology(devices, connections);
+    this.bgp.updateTopology(devices, connections);
+    this.installDynamicRoutes();
+
+    // Neighbors and routes on interfaces that lost carrier go down at once
+    this.record({
+      ospf: this.ospf.getEvents().slice(recorded.ospf),
+      rip: this.rip.getEvents().slice(recorded.rip),
+      bgp: this.bgp.getEvents().slice(recorded.bgp),
+    });
+  }
+
+  /**
+   * Advance dynamic routing protocol timers and reinstall the resulting routes.
+   * All protocols run on the same clock so their convergence can be compared.
+   */
+  advanceTime(seconds: number = 1): DynamicRoutingEvents {
+    const ospf: OspfAdjacencyEvent[] = [];
+    const rip: RipRouteEvent[] = [];
+    const bgp: BgpSessionEvent[] = [];
+    for (let i = 0; i < seconds; i++) {
+      this.clock++;
+      const step = { ospf: this.ospf.tick(), rip: this.rip.tick(), bgp: this.bgp.tick() };
+      this.record(step);
+      ospf.push(...step.ospf);
+      rip.push(...step.rip);
+      bgp.push(...step.bgp);
+    }
+    this.installDynamicRoutes();
+    return { ospf, rip, bgp };
+  }
+
+  /**
+   * Let simulated time (ms) pass; the protocols advance once per whole second
+   */
+  advanceClock(elapsed: number): DynamicRoutingEvents {
+    this.pendingTime += elapsed;
+    const seconds = Math.floor(this.pendingTime / 1000);
+    if (seconds === 0) return { ospf: [], rip: [], bgp: [] };
+    this.pendingTime -= seconds * 1000;
+    return this.advanceTime(seconds);
+  }
+
+  /**
+   * Seconds the protocols have run since the engine was built
+   */
+  getClock(): number {
+    return this.clock;
+  }
+
+  /**
+   * Most recent dynamic routing changes, oldest first
+   */
+  getLog(): RoutingLogEntry[] {
+    return [...this.log];
+  }
+
+  /**
+   * Add protocol events to the log in the form IOS logs them to the console
+   */
+  private record({ ospf, rip, bgp }: DynamicRoutingEvents): void {
+    const time = this.clock;
+    this.log.push(
+      ...ospf.map((e): RoutingLogEntry => ({
+        time,
+        protocol: 'OSPF',
+        deviceId: e.deviceId,
+        message: `Nbr ${e.neighborId} on ${e.interfaceName} from ${e.from} to ${e.to}, ${e.reason}`,
+      })),
+      ...rip.map((e): RoutingLogEntry => ({
+        time,
+        protocol: 'RIP',
+        deviceId: e.deviceId,
+        message: `${e.network}/${SubnetCalculator.maskToPrefix(e.mask)} via ${e.nextHop} metric ${e.metric >= RIP_INFINITY ? `${RIP_INFINITY} (inaccessible)` : e.metric}, ${e.reason}`,
+      })),
+      ...bgp.map((e): RoutingLogEntry => ({
+        time,
+        protocol: 'BGP',
+        deviceId: e.deviceId,
+        message: `Neighbor ${e.neighbor} from ${e.from} to ${e.to}, ${e.reason}`,
+      }))
+    );
+    if (this.log.length > ROUTING_LOG_SIZE) {
+      this.log.splice(0, this.log.length - ROUTING_LOG_SIZE);
+    }
+  }
+
+  /**
+   * BGP routes are withdrawn first so that IGP routes they replaced come back,
+   * then reinstalled on top of the refreshed IGP routes
+   */
+  private installDynamicRoutes(): void {
+    this.bgp.removeRoutes();
+    this.ospf.installRoutes(this.routingTable);
+    this.rip.installRoutes(this.routingTable);
+    this.bgp.installRoutes();
+  }
+
   /**
    * Get VLAN gateway
    */
@@ -188,6 +188,7 @@ export class PacketAnimationManager {
         this.completePacketAnimation(packet.id, 'delivered');
         break;
       case PacketStatus.DROPPED:
+      case PacketStatus.FILTERED:
         this.completePacketAnimation(packet.id, 'dropped');
         break;
       case PacketStatus.IN_TRANSIT:
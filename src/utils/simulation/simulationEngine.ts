@@ -8,19 +8,36 @@ import {
   PacketSimulation,
   TrafficFlow,
   SimulationStats,
+  ForwardingAction,
+  TcpFlag,
+  IcmpType,
+  NdpType,
+  DhcpMessageType,
+  IpVersion,
+  PacketAddressing,
+  AttackType,
 } from '../../types/simulation';
 import {
   NetworkDevice,
   SwitchDevice,
+  SwitchingDevice,
+  MultilayerSwitchDevice,
   RouterDevice,
+  FirewallDevice,
   PcDevice,
   ServerDevice,
   DeviceType,
   InterfaceStatus,
   InterfaceType,
+  NetworkInterface,
   Connection,
+  ConnectionStatus,
   Vlan,
   MacAddressEntry,
+  Ipv6InterfaceAddress,
+  DhcpServerConfig,
+  LinkAggregationGroup,
+  LinkAggregationMember,
 } from '../../types';
 import {
   canSwitchesCommunicate, 
@@ -28,6 +45,71 @@ import {
   getSwitchVlans 
 } from '../vlan-logic/vlanConfiguration';
 import { PacketAnimationManager } from './packetAnimation';
+import { SpanningTreeEngine } from '../networking/spanningTreeProtocol';
+import { RoutingEngine, SubnetCalculator, getIpv6Routes, findIpv6Route } from '../routing/routingEngine';
+import { IPv6AddressUtils } from '../networking/ipAddressManager';
+import {
+  PacketProcessingEngine,
+  packetProcessingEngine,
+  Packet as ProcessingPacket,
+  PacketType as ProcessingPacketType,
+  QosClass,
+  AclDirection,
+  IP_PROTOCOL_NUMBERS,
+  describeAclEntry,
+  createAclProbePacket,
+} from '../networking/packetProcessingEngine';
+import { FirewallEngine, firewallEngine, describeTcpFlags } from '../networking/firewallEngine';
+import { NatEngine, natEngine, NatFlow, NatResult } from '../networking/natEngine';
+import { DhcpEngine, dhcpEngine, DhcpMessage, DhcpSend } from '../networking/dhcpEngine';
+import { DhcpSnoopingEngine, dhcpSnoopingEngine, SnoopingVerdict } from '../networking/dhcpSnooping';
+import { PortSecurityEngine, portSecurityEngine } from '../networking/portSecurity';
+import { FhrpEngine, fhrpEngine, FhrpTakeover } from '../networking/firstHopRedundancy';
+import {
+  buildLinkAggregationGroups,
+  findLinkAggregationGroup,
+  getPortChannelName,
+  selectLinkAggregationMember,
+  DEFAULT_ETHERCHANNEL_LOAD_BALANCE,
+} from '../networking/etherChannel';
+import { ArpPacket } from '../networking/arpEngine';
+import { getSubinterfaces, getPhysicalInterface, findSubinterfaceForVlan } from '../networking/subinterfaces';
+import { isSwitchingDevice, isSwitchport, findSvi, isSviUp } from '../networking/multilayerSwitch';
+import { findAccessList, toAccessControlList } from '../networking/accessLists';
+import { generateMacAddress } from '../../data/sampleData';
+
+/**
+ * IP protocol carrying each simulated protocol
+ */
+const IP_PROTOCOLS: Partial<Record<NetworkProtocol, string>> = {
+  [NetworkProtocol.ICMP]: 'icmp',
+  [NetworkProtocol.TCP]: 'tcp',
+  [NetworkProtocol.HTTP]: 'tcp',
+  [NetworkProtocol.HTTPS]: 'tcp',
+  [NetworkProtocol.UDP]: 'udp',
+  [NetworkProtocol.DNS]: 'udp',
+  [NetworkProtocol.DHCP]: 'udp',
+};
+
+/**
+ * Client and server ports of the application protocols a test packet can carry
+ */
+const WELL_KNOWN_PORTS: Partial<Record<NetworkProtocol, { source: number; target: number }>> = {
+  [NetworkProtocol.HTTP]: { source: 49152, target: 80 },
+  [NetworkProtocol.HTTPS]: { source: 49152, target: 443 },
+  [NetworkProtocol.DNS]: { source: 49152, target: 53 },
+  [NetworkProtocol.DHCP]: { source: 68, target: 67 },
+};
+
+/**
+ * DHCP clients send from port 68 to servers and relay agents listening on port 67
+ */
+const DHCP_PORTS = WELL_KNOWN_PORTS[NetworkProtocol.DHCP]!;
+
+/**
+ * Messages a DHCP client sends; servers answer with the others
+ */
+const DHCP_CLIENT_MESSAGES = [DhcpMessageType.DISCOVER, DhcpMessageType.REQUEST, DhcpMessageType.DECLINE];
 
 /**
  * ARP Table Entry
@@ -51,14 +133,33 @@ interface EnhancedMacEntry extends MacAddressEntry {
 }
 
 /**
- * Forwarding Decision
+ * Copies of one flooded frame that are still travelling
+ */
+interface FloodState {
+  copies: SimulatedPacket[];
+  crossed: Set<string>; // `${connectionId}:${egressDeviceId}` already taken by a copy
+  repeats: number; // times a copy took a link direction that an earlier copy had already taken
+}
+
+/**
+ * What router advertisements configured on a host interface
+ */
+interface SlaacState {
+  addresses: Ipv6InterfaceAddress[];
+  defaultRouter?: string; // link-local address of the first router heard from
+}
+
+/**
+ * Neighbor discovery message to put on a link
  */
-interface ForwardingDecision {
-  action: 'forward' | 'flood' | 'drop' | 'route';
-  outInterface?: string;
-  outDevice?: string;
-  reason: string;
-  vlanAllowed: boolean;
+interface NdpMessage {
+  ndpType: NdpType;
+  sourceIp: string;
+  targetIp: string;
+  targetMac: string;
+  targetDevice?: string;
+  payload: object;
+  vlanTag?: number;
 }
 
 /**
@@ -68,6 +169,16 @@ export class SimulationEngine {
   private devices: NetworkDevice[] = [];
   private connections: Connection[] = [];
   private vlans: Vlan[] = [];
+  private spanningTreeEngine?: SpanningTreeEngine;
+  private routingEngine: RoutingEngine;
+  private packetProcessor: PacketProcessingEngine;
+  private firewall: FirewallEngine;
+  private nat: NatEngine;
+  private dhcp: DhcpEngine;
+  private snooping: DhcpSnoopingEngine;
+  private portSecurity: PortSecurityEngine;
+  private fhrp: FhrpEngine;
+  private linkAggregationGroups: LinkAggregationGroup[] = []; // EtherChannels negotiated from the channel-group config
   private activeSimulation?: PacketSimulation;
   private animationFrameId?: number;
   private simulationSpeed: number = 1.0;
@@ -75,15 +186,29 @@ export class SimulationEngine {
   private autoRun: boolean = true;
   private startTime: Date = new Date();
   private statistics: SimulationStats = this.createEmptyStats();
+  private tickCount: number = 0;
+  private simTime: number = 0; // ms of simulated time, what egress queues drain against
   
   // Enhanced learning tables
   private macTables: Map<string, Map<string, EnhancedMacEntry>> = new Map();
   private arpTables: Map<string, Map<string, ARPEntry>> = new Map();
+  private neighborCaches: Map<string, Map<string, ARPEntry>> = new Map(); // IPv6 neighbor cache, filled by NDP
+  private slaacStates: Map<string, Map<string, SlaacState>> = new Map(); // deviceId -> interface ID -> SLAAC state
+  private lastRouterAdvertisement?: number; // simTime unsolicited router advertisements were last sent
   private packetHistory: Map<string, SimulatedPacket[]> = new Map();
+  private floods: Map<string, FloodState> = new Map();
+  private rogueDhcpServers: Map<string, DhcpServerConfig> = new Map(); // attacker deviceId -> the DHCP server it poses as
+  private pendingAttacks: TrafficFlow[] = []; // attacks waiting for their target to lease an address
   
   // Learning and aging parameters
   private readonly MAC_AGING_TIME = 300000; // 5 minutes in ms
   private readonly ARP_AGING_TIME = 240000; // 4 minutes in ms
+  private readonly BROADCAST_STORM_COPIES = 64; // looping copies of one frame treated as a storm
+  private readonly ARP_TIMEOUT_TICKS = 60; // ticks a packet is held waiting for an ARP reply or neighbor advertisement
+  private readonly SLAAC_TIMEOUT_TICKS = 60; // ticks an IPv6 packet waits for SLAAC to give it its addresses
+  private readonly DHCP_TIMEOUT_TICKS = 300; // ticks a packet waits for DHCP to lease its source or target an address
+  private readonly RA_INTERVAL = 200000; // IOS sends unsolicited router advertisements every 200 s
+  private readonly STARVATION_BURST = 100; // most DISCOVERs one starvation attack sends
   
   // Animation system
   private packetAnimationManager?: PacketAnimationManager;
@@ -92,11 +217,43 @@ export class SimulationEngine {
   constructor(
     devices: NetworkDevice[],
     connections: Connection[],
-    vlans: Vlan[]
+    vlans: Vlan[],
+    spanningTreeEngine?: SpanningTreeEngine,
+    routingEngine?: RoutingEngine,
+    packetProcessor: PacketProcessingEngine = packetProcessingEngine,
+    firewall: FirewallEngine = firewallEngine,
+    nat: NatEngine = natEngine,
+    dhcp: DhcpEngine = dhcpEngine,
+    snooping: DhcpSnoopingEngine = dhcpSnoopingEngine,
+    portSecurity: PortSecurityEngine = portSecurityEngine,
+    fhrp: FhrpEngine = fhrpEngine
   ) {
     this.devices = devices;
     this.connections = connections;
     this.vlans = vlans;
+    this.spanningTreeEngine = spanningTreeEngine;
+    if (routingEngine) {
+      this.routingEngine = routingEngine;
+    } else {
+      // Without a shared engine, route from the static and connected routes in the device config
+      this.routingEngine = new RoutingEngine();
+      this.routingEngine.initializeRouting(devices, connections);
+    }
+    // Interface ACLs and egress queues configured on the packet processor apply to simulated traffic
+    this.packetProcessor = packetProcessor;
+    // Firewall devices track sessions in the shared connection table, which the firewall panel shows
+    this.firewall = firewall;
+    // Routers keep their NAT translations in the shared table that show ip nat translations reads
+    this.nat = nat;
+    // DHCP bindings and client leases outlive the engine, so show commands and new engines see them
+    this.dhcp = dhcp;
+    // Switches keep their DHCP snooping bindings across engines, like real switches across simulation runs
+    this.snooping = snooping;
+    // Learned secure addresses, violation counters and err-disabled ports are read by show port-security
+    this.portSecurity = portSecurity;
+    // HSRP and VRRP roles hold across engines; show standby and the canvas badges read them
+    this.fhrp = fhrp;
+    this.linkAggregationGroups = buildLinkAggregationGroups(devices, connections);
     this.initializeLearningTables();
   }
   
@@ -113,12 +270,12 @@ export class SimulationEngine {
    */
   private initializeLearningTables(): void {
     this.devices.forEach(device => {
-      if (device.type === DeviceType.SWITCH) {
+      if (isSwitchingDevice(device)) {
         this.macTables.set(device.id, new Map());
         this.arpTables.set(device.id, new Map());
         
         // Initialize with any static MAC entries
-        const switchDevice = device as SwitchDevice;
+        const switchDevice = device;
         if (switchDevice.macAddressTable) {
           switchDevice.macAddressTable.forEach((entry: MacAddressEntry) => {
             if (entry.type === 'static') {
@@ -126,6 +283,13 @@ export class SimulationEngine {
             }
           });
         }
+        // Static and sticky secure addresses are in the table from the start
+        switchDevice.interfaces.forEach(iface => {
+          if (!iface.portSecurity?.enabled) return;
+          iface.portSecurity.macAddresses.forEach(address => {
+            this.learnMac(device.id, address.macAddress, address.vlanId ?? iface.vlanConfig?.accessVlan ?? 1, iface.id, true);
+          });
+        });
       }
     });
   }
@@ -138,6 +302,9 @@ export class SimulationEngine {
     
     this.startTime = new Date();
     this.statistics = this.createEmptyStats();
+    this.floods.clear();
+    this.rogueDhcpServers.clear();
+    this.pendingAttacks = [];
     this.isRunning = true;
     this.autoRun = true;
 
@@ -210,7 +377,8 @@ export class SimulationEngine {
     targetDeviceId: string,
     packetType: PacketType = PacketType.IP,
     protocol: NetworkProtocol = NetworkProtocol.ICMP,
-    vlanTag?: number
+    vlanTag?: number,
+    ipVersion: IpVersion = 4
   ): SimulatedPacket | null {
     const sourceDevice = this.devices.find(d => d.id === sourceDeviceId);
     const targetDevice = this.devices.find(d => d.id === targetDeviceId);
@@ -226,12 +394,19 @@ export class SimulationEngine {
       targetDevice: targetDeviceId,
       sourceMac: this.getDeviceMacAddress(sourceDevice),
       targetMac: this.getDeviceMacAddress(targetDevice),
-      sourceIp: this.getDeviceIpAddress(sourceDevice),
-      targetIp: this.getDeviceIpAddress(targetDevice),
+      // An IPv6 address SLAAC has not assigned yet is filled in when the packet is sent
+      sourceIp: ipVersion === 6 ? this.getDeviceIpv6Address(sourceDevice) : this.getDeviceIpAddress(sourceDevice),
+      targetIp: ipVersion === 6 ? this.getDeviceIpv6Address(targetDevice) : this.getDeviceIpAddress(targetDevice),
       vlanTag,
       size: this.getDefaultPacketSize(packetType),
       timestamp: new Date(),
       ttl: 64,
+      sourcePort: WELL_KNOWN_PORTS[protocol]?.source,
+      targetPort: WELL_KNOWN_PORTS[protocol]?.target,
+      // A TCP test packet opens a connection and a ping is an echo request; the target answers both
+      tcpFlags: IP_PROTOCOLS[protocol] === 'tcp' ? TcpFlag.SYN : undefined,
+      icmpType: protocol === NetworkProtocol.ICMP ? IcmpType.ECHO_REQUEST : undefined,
+      ipVersion: ipVersion === 6 ? 6 : undefined,
       protocol,
       payload: this.generatePayload(packetType, protocol),
     };
@@ -240,7 +415,8 @@ export class SimulationEngine {
   }
 
   /**
-   * Send a packet through the network
+   * Send a packet through the network. There is no precomputed path: the packet starts
+   * at its source and every device it reaches makes its own forwarding decision.
    */
   sendPacket(packet: SimulatedPacket): void {
     if (!this.activeSimulation) {
@@ -253,19 +429,14 @@ export class SimulationEngine {
       };
     }
 
-    // Calculate the path for the packet
-    const path = this.calculatePacketPath(packet);
-    packet.path = path;
+    packet.path = [packet.sourceDevice];
+    packet.currentPosition = { deviceId: packet.sourceDevice };
+    packet.decisions = packet.decisions ?? [];
     packet.status = PacketStatus.QUEUED;
 
     this.activeSimulation.packets.push(packet);
     this.updateStatistics(packet, 'created');
-    
-    // Start packet animation if enabled
-    if (this.enableAnimation && this.packetAnimationManager && packet.path.length > 1) {
-      this.packetAnimationManager.animatePacket(packet);
-    }
-    
+
     // Add to packet history for debugging
     const history = this.packetHistory.get(packet.sourceDevice) || [];
     history.push(packet);
@@ -337,6 +508,30 @@ export class SimulationEngine {
     return table ? Array.from(table.values()) : [];
   }
   
+  /**
+   * Get the IPv6 neighbor cache of a device
+   */
+  getNeighborCache(deviceId: string): ARPEntry[] {
+    const cache = this.neighborCaches.get(deviceId);
+    return cache ? Array.from(cache.values()) : [];
+  }
+
+  /**
+   * IPv6 addresses of an interface: the configured ones and those SLAAC added
+   */
+  getIpv6Addresses(deviceId: string, interfaceId: string): Ipv6InterfaceAddress[] {
+    const device = this.devices.find(d => d.id === deviceId);
+    const iface = device ? this.getDeviceInterfaces(device).find(i => i.id === interfaceId || i.name === interfaceId) : undefined;
+    return device && iface ? this.getInterfaceIpv6Addresses(device, iface) : [];
+  }
+
+  /**
+   * Default router a host learned from router advertisements
+   */
+  getIpv6DefaultRouter(deviceId: string): string | undefined {
+    return Array.from(this.slaacStates.get(deviceId)?.values() ?? []).find(state => state.defaultRouter)?.defaultRouter;
+  }
+
   /**
    * Get packet history for a device
    */
@@ -345,7 +540,7 @@ export class SimulationEngine {
   }
   
   /**
-   * Simulate broadcast packet (ARP request, etc.)
+   * Simulate broadcast packet (ARP request, etc.), flooded through the VLAN
    */
   sendBroadcastPacket(
     sourceDeviceId: string,
@@ -355,35 +550,24 @@ export class SimulationEngine {
     const sourceDevice = this.devices.find(d => d.id === sourceDeviceId);
     if (!sourceDevice) return [];
 
-    const broadcastPackets: SimulatedPacket[] = [];
-    
-    // Constrain broadcast to VLAN-reachable devices
-    const vlanId = vlanTag || this.inferPacketVlan({
-      id: '', type: PacketType.ARP, sourceDevice: sourceDeviceId, targetDevice: '',
-      sourceMac: '', targetMac: '', timestamp: new Date(), size: 64, protocol: NetworkProtocol.ARP, payload: {}
-    } as any, this.devices.find(d => d.id === sourceDeviceId)!) || 1;
-
-    const reachable = new Set(this.getVlanReachableDevices(sourceDeviceId, vlanId));
-    const targetDevices = this.devices.filter(d => d.id !== sourceDeviceId && d.type !== DeviceType.SWITCH && reachable.has(d.id));
-
-    targetDevices.forEach(targetDevice => {
-      const packet = this.createTestPacket(
-        sourceDeviceId,
-        targetDevice.id,
-        PacketType.BROADCAST,
-        protocol,
-        vlanTag
-      );
-      
-      if (packet) {
-        // Set broadcast MAC addresses
-        packet.targetMac = 'FF:FF:FF:FF:FF:FF';
-        this.sendPacket(packet);
-        broadcastPackets.push(packet);
-      }
+    const packet = this.createSimulatedPacket({
+      id: crypto.randomUUID(),
+      type: PacketType.BROADCAST,
+      sourceDevice: sourceDeviceId,
+      targetDevice: '',
+      sourceMac: this.getDeviceMacAddress(sourceDevice),
+      targetMac: 'FF:FF:FF:FF:FF:FF',
+      sourceIp: this.getDeviceIpAddress(sourceDevice),
+      vlanTag,
+      size: this.getDefaultPacketSize(PacketType.BROADCAST),
+      timestamp: new Date(),
+      ttl: 64,
+      protocol,
+      payload: this.generatePayload(PacketType.BROADCAST, protocol),
     });
+    this.sendPacket(packet);
 
-    return broadcastPackets;
+    return [packet];
   }
 
   /**
@@ -407,6 +591,27 @@ export class SimulationEngine {
     if (!this.activeSimulation) return;
 
     const deltaTime = 16 * this.simulationSpeed; // ~60fps adjusted by speed
+    this.tickCount++;
+    this.simTime += deltaTime;
+    this.firewall.advanceClock(deltaTime);
+    this.nat.advanceClock(deltaTime);
+    this.dhcp.advanceClock(deltaTime);
+    this.snooping.advanceClock(deltaTime);
+    this.portSecurity.advanceClock(deltaTime);
+    this.fhrp.advanceClock(deltaTime);
+    this.fhrp
+      .update(this.devices, this.connections, connectionId => !!this.spanningTreeEngine?.isLinkFailed(connectionId))
+      .forEach(takeover => this.sendGratuitousArp(takeover));
+    // OSPF hellos, RIP updates and BGP keepalives run on the simulation clock
+    this.routingEngine.advanceClock(deltaTime);
+    this.runDhcpClients();
+    this.pendingAttacks = this.pendingAttacks.filter(flow => !this.launchAttack(flow));
+
+    // Routers announce their IPv6 prefixes when the simulation starts and every RA interval after that
+    if (this.lastRouterAdvertisement === undefined || this.simTime - this.lastRouterAdvertisement >= this.RA_INTERVAL) {
+      this.lastRouterAdvertisement = this.simTime;
+      this.sendRouterAdvertisements();
+    }
 
     // Process all active packets
     this.activeSimulation.packets.forEach(packet => {
@@ -420,6 +625,16 @@ export class SimulationEngine {
     this.activeSimulation.packets = this.activeSimulation.packets.filter(
       packet => packet.status === PacketStatus.IN_TRANSIT || packet.status === PacketStatus.QUEUED
     );
+
+    // Forget floods whose copies have all ended
+    this.floods.forEach((flood, floodId) => {
+      flood.copies = flood.copies.filter(
+        copy => copy.status === PacketStatus.IN_TRANSIT || copy.status === PacketStatus.QUEUED
+      );
+      if (flood.copies.length === 0) {
+        this.floods.delete(floodId);
+      }
+    });
   }
 
   /**
@@ -431,7 +646,7 @@ export class SimulationEngine {
         this.startPacketTransmission(packet);
         break;
       case PacketStatus.IN_TRANSIT:
-        this.updatePacketPosition(packet, deltaTime);
+        this.processHop(packet);
         break;
     }
     
@@ -445,321 +660,1360 @@ export class SimulationEngine {
    * Start packet transmission
    */
   private startPacketTransmission(packet: SimulatedPacket): void {
-    if (packet.path.length === 0) {
-      this.dropPacket(packet, DropReason.NO_ROUTE);
-      return;
-    }
-
     // Validate packet can be sent from source
     const sourceDevice = this.devices.find(d => d.id === packet.sourceDevice);
     if (!sourceDevice || !this.canDeviceSendPacket(sourceDevice, packet)) {
-      this.dropPacket(packet, DropReason.ACCESS_DENIED);
+      this.dropPacket(packet, DropReason.ACCESS_DENIED, 'source device cannot send');
       return;
     }
 
-    // Optionally simulate ARP resolution before first hop for L3
-    if (packet.protocol !== NetworkProtocol.ARP && packet.vlanTag) {
-      this.simulateArpResolution(packet);
-    }
-
     packet.status = PacketStatus.IN_TRANSIT;
-    packet.currentPosition = { deviceId: packet.path[0] };
     this.updateStatistics(packet, 'transmitted');
   }
 
   /**
-   * Update packet position during transmission
+   * Let the device the packet is at make its forwarding decision
    */
-  private updatePacketPosition(packet: SimulatedPacket, deltaTime: number): void {
-    // Decrement TTL per hop; drop if expired
-    packet.ttl = (packet.ttl ?? 64) - 1;
-    if (packet.ttl <= 0) {
-      this.dropPacket(packet, DropReason.TTL_EXCEEDED);
+  private processHop(packet: SimulatedPacket): void {
+    const device = this.devices.find(d => d.id === packet.currentPosition.deviceId);
+    if (!device) {
+      this.dropPacket(packet, DropReason.NO_ROUTE, 'device no longer exists');
       return;
     }
 
-    const currentIndex = packet.path.indexOf(packet.currentPosition.deviceId);
-    const nextIndex = currentIndex + 1;
+    // A packet in an egress queue leaves once the packets ahead of it have been sent
+    const queued = packet.egressQueue;
+    if (queued) {
+      if (this.simTime < queued.until) return;
 
-    if (nextIndex >= packet.path.length) {
-      // Packet reached destination
-      this.deliverPacket(packet);
+      packet.egressQueue = undefined;
+      const connection = this.connections.find(conn => conn.id === queued.connectionId);
+      if (!connection) {
+        this.dropPacket(packet, DropReason.INTERFACE_DOWN, 'link removed while the packet was queued');
+        return;
+      }
+      this.sendOnLink(packet, device, connection);
       return;
     }
 
-    const currentDevice = this.devices.find(d => d.id === packet.path[currentIndex]);
-    const nextDevice = this.devices.find(d => d.id === packet.path[nextIndex]);
-
-    if (!currentDevice || !nextDevice) {
-      this.dropPacket(packet, DropReason.NO_ROUTE);
+    // A host or router holding the packet until ARP resolves its next hop
+    if (packet.nextHop) {
+      this.sendToNextHop(packet, device);
       return;
     }
 
-    // Check if packet can traverse the link
-    if (!this.canPacketTraverseLink(packet, currentDevice, nextDevice)) {
-      this.dropPacket(packet, DropReason.VLAN_MISMATCH);
-      return;
+    switch (device.type) {
+      case DeviceType.SWITCH:
+        this.switchFrame(packet, device as SwitchDevice);
+        break;
+      case DeviceType.MULTILAYER_SWITCH:
+        // What it originates and what arrives on a routed port is routed; the rest is switched
+        if (packet.path.length === 1 || this.getIngressInterface(packet, device)?.routedPort) {
+          this.routePacket(packet, device as MultilayerSwitchDevice);
+        } else {
+          this.switchFrame(packet, device as MultilayerSwitchDevice);
+        }
+        break;
+      case DeviceType.ROUTER:
+      case DeviceType.FIREWALL:
+        this.routePacket(packet, device as RouterDevice | FirewallDevice);
+        break;
+      default:
+        this.hostPacket(packet, device);
+        break;
     }
+  }
 
-    // MAC learning on arrival at nextDevice (switches only)
-    const connection = this.getConnectionBetweenDevices(currentDevice.id, nextDevice.id);
-    const ingressIfOnNext = connection
-      ? (connection.sourceDevice === nextDevice.id ? connection.sourceInterface : connection.targetInterface)
-      : undefined;
-    if (nextDevice.type === DeviceType.SWITCH) {
-      this.learnMac(nextDevice.id, packet.sourceMac, packet.vlanTag, ingressIfOnNext);
+  /**
+   * Switch: flood broadcasts and unknown unicast, forward known unicast, filter frames for the ingress port
+   */
+  private switchFrame(packet: SimulatedPacket, sw: SwitchingDevice): void {
+    // A switch only forwards VLANs in its VLAN database, which VTP may have wiped
+    const vlanId = packet.vlanTag ?? 1;
+    if (sw.vlanDatabase.length > 0 && !sw.vlanDatabase.some(v => v.id === vlanId)) {
+      this.dropPacket(packet, DropReason.VLAN_MISMATCH, `VLAN ${vlanId} is not in the VLAN database of ${sw.name}`);
+      return;
     }
-
-    // Simulate transmission delay
-    const transmissionDelay = connection ? this.calculateTransmissionDelay(packet.size) : 100;
-    
-    packet.delay += transmissionDelay;
-    
-    // Move to next device (simplified - in reality this would be animated)
-    packet.currentPosition.deviceId = packet.path[nextIndex];
-    
-    // Update device utilization statistics
-    this.updateDeviceUtilization(currentDevice.id, packet.size);
-    if (packet.vlanTag) {
-      this.updateVlanUtilization(packet.vlanTag, packet.size);
+    if (!this.passesPortSecurity(packet, sw) || !this.passesSnooping(packet, sw)) {
+      return;
+    }
+    if (sw.type === DeviceType.MULTILAYER_SWITCH && this.receiveOnSvi(packet, sw)) {
+      return;
+    }
+    if (this.ownsMac(sw, packet.targetMac)) {
+      this.deliverPacket(packet, 'addressed to the switch itself');
+      return;
     }
+    this.bridgeFrame(packet, sw);
   }
 
   /**
-   * Deliver packet successfully
+   * Forward a frame within its VLAN by the MAC address table, flooding what is not in it
    */
-  private deliverPacket(packet: SimulatedPacket): void {
-    packet.status = PacketStatus.DELIVERED;
-    this.updateStatistics(packet, 'delivered');
+  private bridgeFrame(packet: SimulatedPacket, sw: SwitchingDevice): void {
+    if (this.isBroadcastMac(packet.targetMac)) {
+      this.floodFrame(packet, sw, 'broadcast');
+      return;
+    }
+    if (IPv6AddressUtils.isMulticastMac(packet.targetMac)) {
+      this.floodFrame(packet, sw, `IPv6 multicast ${packet.targetMac}`);
+      return;
+    }
+
+    const entry = this.lookupMac(sw.id, packet.targetMac, packet.vlanTag);
+    const connection = entry ? this.getConnectionOnPort(sw, entry.learnedFrom) : undefined;
+    if (!entry || !connection) {
+      this.floodFrame(packet, sw, `unknown unicast ${packet.targetMac}`);
+      return;
+    }
+    if (connection.id === packet.viaConnection) {
+      this.filterPacket(packet, `${packet.targetMac} is learned on the ingress port ${entry.learnedFrom}`);
+      return;
+    }
+    const channel = this.getBundledChannel(connection);
+    if (channel && packet.viaConnection && channel.memberConnections.includes(packet.viaConnection)) {
+      this.filterPacket(packet, `${packet.targetMac} is learned on ${getPortChannelName(channel, sw.id)}, the port-channel the frame came in on`);
+      return;
+    }
+
+    this.recordDecision(packet, ForwardingAction.FORWARD, `${packet.targetMac} learned on ${this.portName(sw, entry.learnedFrom)}`);
+    this.transmit(packet, sw, connection);
   }
 
   /**
-   * Drop packet with specified reason
+   * Hand a frame for the SVI of its VLAN to the routing side of a multilayer switch: unicast
+   * to the SVI, or an ARP request for the SVI's address. False when the frame is switched.
    */
-  private dropPacket(packet: SimulatedPacket, reason: DropReason): void {
-    packet.status = PacketStatus.DROPPED;
-    packet.drops = packet.drops || [];
-    packet.drops.push({
-      deviceId: packet.currentPosition.deviceId,
-      reason,
-      timestamp: new Date(),
-      interfaceId: packet.currentPosition.interfaceId,
-    });
-    this.updateStatistics(packet, 'dropped');
+  private receiveOnSvi(packet: SimulatedPacket, mls: MultilayerSwitchDevice): boolean {
+    const svi = packet.vlanTag !== undefined ? findSvi(mls, packet.vlanTag) : undefined;
+    if (!svi) return false;
+    // The SVI also takes frames for the virtual gateway of the HSRP and VRRP groups it is active for
+    const forSvi = this.isBroadcastMac(packet.targetMac)
+      ? packet.protocol === NetworkProtocol.ARP && !!packet.targetIp && (svi.ipAddress?.split('/')[0] === packet.targetIp ||
+        this.fhrp.findActiveGroupByIp(mls.id, packet.targetIp)?.active?.interfaceId === svi.id)
+      : svi.macAddress.toLowerCase() === packet.targetMac.toLowerCase() ||
+        this.fhrp.findActiveGroupByMac(mls.id, packet.targetMac)?.active?.interfaceId === svi.id;
+    if (!forSvi) return false;
+
+    if (!isSviUp(mls, svi)) {
+      this.dropPacket(packet, DropReason.INTERFACE_DOWN, `${svi.name} is down`);
+      return true;
+    }
+    packet.currentPosition = { ...packet.currentPosition, interfaceId: svi.id };
+    this.routePacket(packet, mls);
+    return true;
   }
 
   /**
-   * Calculate packet path through the network
+   * Port security on the port a frame arrived on: learn its source MAC as a secure address,
+   * or drop the frame when the port may not take the address
    */
-  private calculatePacketPath(packet: SimulatedPacket): string[] {
-    const sourceDevice = this.devices.find(d => d.id === packet.sourceDevice);
-    const targetDevice = this.devices.find(d => d.id === packet.targetDevice);
+  private passesPortSecurity(packet: SimulatedPacket, sw: SwitchingDevice): boolean {
+    const port = this.getIngressInterface(packet, sw);
+    if (!port?.portSecurity?.enabled) return true;
 
-    if (!sourceDevice || !targetDevice) {
-      return [];
+    const verdict = this.portSecurity.check(sw, port, packet.sourceMac, packet.vlanTag ?? port.vlanConfig?.accessVlan ?? 1);
+    if (verdict && !verdict.permitted) {
+      this.dropPacket(packet, DropReason.PORT_SECURITY, verdict.reason);
+      return false;
     }
-
-    // Infer VLAN if not specified
-    const vlanId = this.inferPacketVlan(packet, sourceDevice) ?? packet.vlanTag;
-    if (vlanId && !packet.vlanTag) {
-      packet.vlanTag = vlanId;
+    this.learnMac(sw.id, packet.sourceMac, packet.vlanTag, port.id);
+    if (verdict?.learned) {
+      this.recordDecision(packet, ForwardingAction.INSPECT, verdict.reason);
     }
-
-    // VLAN-aware BFS
-    const path = this.findVlanAwarePath(sourceDevice.id, targetDevice.id, vlanId);
-    return path;
+    return true;
   }
 
   /**
-   * Find shortest path between two devices (simplified implementation)
+   * DHCP snooping, dynamic ARP inspection and IP source guard on the port a frame arrived on:
+   * drop what they deny, and record the bindings of the DHCP the switch lets through
    */
-  private findShortestPath(sourceId: string, targetId: string): string[] {
-    if (sourceId === targetId) {
-      return [sourceId];
-    }
-
-    // Build adjacency graph
-    const graph = new Map<string, string[]>();
-    this.devices.forEach(device => {
-      graph.set(device.id, []);
-    });
-
-    this.connections.forEach(connection => {
-      graph.get(connection.sourceDevice)?.push(connection.targetDevice);
-      graph.get(connection.targetDevice)?.push(connection.sourceDevice);
-    });
-
-    // BFS to find shortest path
-    const queue: { deviceId: string; path: string[] }[] = [{ deviceId: sourceId, path: [sourceId] }];
-    const visited = new Set<string>();
-
-    while (queue.length > 0) {
-      const { deviceId, path } = queue.shift()!;
-      
-      if (deviceId === targetId) {
-        return path;
+  private passesSnooping(packet: SimulatedPacket, sw: SwitchingDevice): boolean {
+    const port = this.getIngressInterface(packet, sw);
+    if (!port) return true;
+
+    let verdict: SnoopingVerdict | undefined;
+    let dropReason = DropReason.DHCP_SNOOPING;
+    if (packet.dhcpType) {
+      const message = packet.payload as DhcpMessage;
+      verdict = this.snooping.inspectDhcp(sw, port, packet.vlanTag, packet.dhcpType, message, packet.sourceMac);
+      if (verdict?.permitted) {
+        const client = this.lookupMac(sw.id, message.chaddr, packet.vlanTag);
+        const clientPort = client ? this.getDeviceInterfaces(sw).find(i => i.id === client.learnedFrom || i.name === client.learnedFrom) : undefined;
+        const learned = this.snooping.learn(sw, packet.vlanTag!, packet.dhcpType, message, clientPort);
+        if (learned) {
+          this.recordDecision(packet, ForwardingAction.DHCP, learned);
+        }
       }
-
-      if (visited.has(deviceId)) {
-        continue;
+    } else if (packet.protocol === NetworkProtocol.ARP) {
+      dropReason = DropReason.ARP_INSPECTION;
+      if (packet.sourceIp && packet.vlanTag !== undefined) {
+        const arp: ArpPacket = {
+          type: (packet.payload as { op?: string }).op === 'reply' ? 'reply' : 'request',
+          senderIp: packet.sourceIp,
+          senderMac: packet.sourceMac,
+          targetIp: packet.targetIp ?? '0.0.0.0',
+          targetMac: packet.targetMac,
+          vlanId: packet.vlanTag,
+          sourceInterface: port.name,
+          timestamp: this.simTime,
+        };
+        verdict = this.snooping.inspectArp(sw, port, arp);
       }
-      visited.add(deviceId);
-
-      const neighbors = graph.get(deviceId) || [];
-      neighbors.forEach(neighbor => {
-        if (!visited.has(neighbor)) {
-          queue.push({ deviceId: neighbor, path: [...path, neighbor] });
-        }
-      });
+    } else if (packet.sourceIp && packet.ipVersion !== 6) {
+      dropReason = DropReason.IP_SOURCE_GUARD;
+      verdict = this.snooping.verifySource(sw, port, packet.vlanTag, packet.sourceIp);
     }
 
-    return []; // No path found
+    if (verdict && !verdict.permitted) {
+      this.dropPacket(packet, dropReason, verdict.reason);
+      return false;
+    }
+    return true;
   }
 
   /**
-   * VLAN-aware BFS path (only traverse connections that allow the VLAN if vlanId is provided)
+   * Router: accept what is addressed to it, otherwise decrement TTL and route by longest-prefix match
    */
-  private findVlanAwarePath(sourceId: string, targetId: string, vlanId?: number): string[] {
-    if (sourceId === targetId) return [sourceId];
+  private routePacket(packet: SimulatedPacket, router: RouterDevice | FirewallDevice | MultilayerSwitchDevice): void {
+    if (packet.path.length === 1) {
+      this.originatePacket(packet, router);
+      return;
+    }
 
-    const visited = new Set<string>();
-    const queue: { deviceId: string; path: string[] }[] = [{ deviceId: sourceId, path: [sourceId] }];
+    const broadcast = this.isBroadcastMac(packet.targetMac);
+    if (!broadcast && !this.ownsMac(router, packet.targetMac) && !this.listensTo(router, packet)) {
+      this.filterPacket(packet, `destination MAC ${packet.targetMac} is not a router interface`);
+      return;
+    }
+    if (!this.receiveOnSubinterface(packet, router)) {
+      return;
+    }
+    if (packet.protocol === NetworkProtocol.ARP) {
+      this.receiveArp(packet, router);
+      return;
+    }
+    if (packet.protocol === NetworkProtocol.NDP) {
+      this.receiveNdp(packet, router);
+      return;
+    }
+    if (packet.dhcpType && (broadcast || (packet.targetIp && this.ownsIp(router, packet.targetIp)))) {
+      this.receiveDhcp(packet, router);
+      return;
+    }
+    if (broadcast) {
+      this.deliverPacket(packet, 'broadcast received; routers do not forward broadcasts');
+      return;
+    }
+    if (router.type === DeviceType.ROUTER) {
+      this.translateInbound(packet, router);
+    }
+    if (!packet.targetIp || this.ownsIp(router, packet.targetIp)) {
+      this.deliverPacket(packet, 'addressed to the router');
+      this.answerPacket(packet, router);
+      return;
+    }
 
-    while (queue.length > 0) {
-      const { deviceId, path } = queue.shift()!;
-      if (deviceId === targetId) return path;
-      if (visited.has(deviceId)) continue;
-      visited.add(deviceId);
+    // Like a Catalyst, a multilayer switch only routes between its VLANs once ip routing is on
+    if (router.type === DeviceType.MULTILAYER_SWITCH && !router.ipRouting) {
+      this.dropPacket(packet, DropReason.NO_ROUTE, `IP routing is not enabled on ${router.name}`);
+      return;
+    }
 
-      // Explore neighbors via connections
-      this.connections.forEach(conn => {
-        let next: string | undefined;
-        if (conn.sourceDevice === deviceId) next = conn.targetDevice;
-        else if (conn.targetDevice === deviceId) next = conn.sourceDevice;
-        if (!next || visited.has(next)) return;
-        if (vlanId) {
-          if (!this.isVlanAllowedOnConnection(conn, vlanId)) return;
-        }
-        queue.push({ deviceId: next, path: [...path, next] });
-      });
+    packet.ttl = (packet.ttl ?? 64) - 1;
+    if (packet.ttl <= 0) {
+      this.dropPacket(packet, DropReason.TTL_EXCEEDED, `TTL expired routing to ${packet.targetIp}`);
+      return;
     }
 
-    return [];
+    this.routeToNextHop(packet, router);
   }
 
   /**
-   * Infer VLAN for a packet if not explicitly set: derive from access/trunk config on first-hop switch
+   * Look the destination up in the routing table and pick the next hop and egress interface
    */
-  private inferPacketVlan(packet: SimulatedPacket, sourceDevice: NetworkDevice): number | undefined {
-    if (packet.vlanTag) return packet.vlanTag;
-
-    // If source is an end-host with single interface, find its uplink to a switch and infer VLAN from switch-side port
-    const uplink = this.connections.find(c => c.sourceDevice === sourceDevice.id || c.targetDevice === sourceDevice.id);
-    if (!uplink) return undefined;
-    const switchId = uplink.sourceDevice === sourceDevice.id ? uplink.targetDevice : uplink.sourceDevice;
-    const sw = this.devices.find(d => d.id === switchId && d.type === DeviceType.SWITCH) as SwitchDevice | undefined;
-    if (!sw) return undefined;
+  private routeToNextHop(packet: SimulatedPacket, router: RouterDevice | FirewallDevice | MultilayerSwitchDevice): void {
+    if (packet.ipVersion === 6) {
+      this.routeIpv6(packet, router);
+      return;
+    }
 
-    const swIfId = uplink.sourceDevice === sw.id ? uplink.sourceInterface : uplink.targetInterface;
-    const swIf = sw.interfaces.find(i => i.id === swIfId);
-    if (!swIf) return undefined;
+    const routingTable = this.routingEngine.getRoutingTableManager();
+    const targetIp = packet.targetIp!;
+    const route = routingTable.findBestRoute(router.id, targetIp);
+    if (!route) {
+      this.dropPacket(packet, DropReason.NO_ROUTE, `no route to ${targetIp}`);
+      return;
+    }
 
-    if (swIf.type === InterfaceType.ACCESS) {
-      // Untagged host traffic is in the access VLAN
-      return swIf.vlanConfig?.accessVlan;
+    const connected = route.nextHop === '0.0.0.0';
+    const nextHopIp = connected ? targetIp : route.nextHop;
+    // Static routes may name only a next hop; resolve it to the interface of the connected subnet
+    const egressName = route.interface === 'auto'
+      ? routingTable.findBestRoute(router.id, nextHopIp)?.interface
+      : route.interface;
+    const prefix = `${route.network}/${SubnetCalculator.maskToPrefix(route.mask)}`;
+    const egress = this.getEgressLink(packet, router, egressName, prefix);
+    if (!egress) return;
+    const { iface, connection } = egress;
+    // A firewall filters what it routes between interfaces, not what it originates
+    if (router.type === DeviceType.FIREWALL && packet.path.length > 1 && !this.passesFirewall(packet, router, iface.name)) {
+      return;
     }
-    if (swIf.type === InterfaceType.TRUNK) {
-      // Untagged host traffic would map to native VLAN on a trunk (though hosts usually aren't on trunks)
-      return swIf.vlanConfig?.nativeVlan;
+
+    const ingress = this.getIngressInterface(packet, router);
+    this.recordDecision(
+      packet,
+      ForwardingAction.ROUTE,
+      `${ingress?.encapsulation ? `in ${ingress.name}${this.describeEncapsulation(ingress)}, ` : ''}${targetIp} matches ${prefix} (${route.protocol}) ${connected ? 'directly connected' : `via ${nextHopIp}`}, out ${iface.name}`
+    );
+    if (router.type === DeviceType.ROUTER && !this.translateOutbound(packet, router, iface)) {
+      return;
     }
-    return undefined;
+    packet.nextHop = { ip: nextHopIp, connectionId: connection?.id, interfaceId: iface.id };
+    this.sendToNextHop(packet, router);
   }
 
   /**
-   * Check if device can send packet (considering VLAN restrictions)
+   * IPv6 counterpart of routeToNextHop: longest-prefix match in the router's IPv6 table.
+   * Only routers with ipv6 unicast-routing forward, and link-local traffic never leaves its link.
    */
-  private canDeviceSendPacket(device: NetworkDevice, packet: SimulatedPacket): boolean {
-    // Check device status
-    if (device.status !== 'active') {
-      return false;
+  private routeIpv6(packet: SimulatedPacket, router: RouterDevice | FirewallDevice | MultilayerSwitchDevice): void {
+    const targetIp = packet.targetIp!;
+    const transit = packet.path.length > 1;
+    if (router.type !== DeviceType.ROUTER) {
+      this.dropPacket(packet, DropReason.NO_ROUTE, `${router.name} does not route IPv6`);
+      return;
+    }
+    if (transit && !router.ipv6UnicastRouting) {
+      this.dropPacket(packet, DropReason.NO_ROUTE, `IPv6 unicast routing is not enabled, ${targetIp} is not forwarded`);
+      return;
+    }
+    if (transit && IPv6AddressUtils.isLinkLocal(targetIp)) {
+      this.dropPacket(packet, DropReason.NO_ROUTE, `link-local destination ${targetIp} is not forwarded`);
+      return;
     }
 
-    // For switches, check VLAN configuration
-    if (device.type === DeviceType.SWITCH) {
-      const switchDevice = device as SwitchDevice;
-      if (packet.vlanTag) {
-        const switchVlans = getSwitchVlans(switchDevice);
-        return switchVlans.includes(packet.vlanTag);
-      }
+    const routes = getIpv6Routes(router);
+    const route = findIpv6Route(routes, targetIp);
+    if (!route) {
+      this.dropPacket(packet, DropReason.NO_ROUTE, `no IPv6 route to ${targetIp}`);
+      return;
     }
 
-    return true;
+    const nextHopIp = route.nextHop ?? targetIp;
+    // Static routes may name only a next hop; it is reached out of the interface of its connected prefix
+    const egressName = route.interface ?? findIpv6Route(routes, nextHopIp)?.interface;
+    const prefix = `${route.prefix}/${route.prefixLength}`;
+    const egress = this.getEgressLink(packet, router, egressName, prefix);
+    if (!egress) return;
+    const { iface, connection } = egress;
+
+    this.recordDecision(
+      packet,
+      ForwardingAction.ROUTE,
+      `${targetIp} matches ${prefix} (${route.protocol}) ${route.nextHop ? `via ${nextHopIp}` : 'directly connected'}, out ${iface.name}`
+    );
+    packet.nextHop = { ip: nextHopIp, connectionId: connection?.id, interfaceId: iface.id };
+    this.sendToNextHop(packet, router);
   }
 
   /**
-   * Check if packet can traverse link between devices
+   * Interface a route leaves by and the link plugged into it, dropping the packet when either is
+   * unusable. An SVI has no link of its own: it sends through the switchports of its VLAN.
    */
-  private canPacketTraverseLink(packet: SimulatedPacket, currentDevice: NetworkDevice, nextDevice: NetworkDevice): boolean {
-    // Enforce VLAN allowance on the actual connection between the two devices
-    if (packet.vlanTag) {
-      const conn = this.getConnectionBetweenDevices(currentDevice.id, nextDevice.id);
-      if (conn && !this.isVlanAllowedOnConnection(conn, packet.vlanTag)) {
-        return false;
-      }
+  private getEgressLink(
+    packet: SimulatedPacket,
+    router: RouterDevice | FirewallDevice | MultilayerSwitchDevice,
+    egressName: string | undefined,
+    prefix: string
+  ): { iface: NetworkInterface; connection?: Connection } | undefined {
+    const iface = router.interfaces.find(i => i.name === egressName || i.id === egressName);
+    if (!iface) {
+      this.dropPacket(packet, DropReason.NO_ROUTE, `route ${prefix} has no usable egress interface`);
+      return undefined;
     }
-
-    // For switch-to-switch, optionally trigger ARP learning if unknown
-    if (currentDevice.type === DeviceType.SWITCH && nextDevice.type === DeviceType.SWITCH && packet.vlanTag) {
-      if (packet.protocol !== NetworkProtocol.ARP) {
-        const macKnown = this.lookupMac(nextDevice.id, packet.targetMac, packet.vlanTag) !== undefined;
-        if (!macKnown) {
-          this.simulateArpResolution(packet);
-        }
+    if (iface.status !== InterfaceStatus.UP) {
+      this.dropPacket(packet, DropReason.INTERFACE_DOWN, `egress interface ${iface.name} is ${iface.status}`);
+      return undefined;
+    }
+    // A subinterface sends through its physical interface, tagged with its VLAN
+    const port = getPhysicalInterface(router.interfaces, iface);
+    if (port && port.status !== InterfaceStatus.UP) {
+      this.dropPacket(packet, DropReason.INTERFACE_DOWN, `${port.name} under egress subinterface ${iface.name} is ${port.status}`);
+      return undefined;
+    }
+    if (iface.parentInterface && !iface.encapsulation) {
+      this.dropPacket(packet, DropReason.VLAN_MISMATCH, `egress subinterface ${iface.name} has no 802.1Q encapsulation`);
+      return undefined;
+    }
+    if (router.type === DeviceType.MULTILAYER_SWITCH && iface.sviVlan !== undefined) {
+      if (!isSviUp(router, iface)) {
+        this.dropPacket(packet, DropReason.INTERFACE_DOWN, `egress interface ${iface.name} is down: VLAN ${iface.sviVlan} does not exist`);
+        return undefined;
       }
+      return { iface };
     }
-
-    return true;
+    const connection = this.getConnectionOnPort(router, iface.id);
+    if (!connection) {
+      this.dropPacket(packet, DropReason.INTERFACE_DOWN, `egress interface ${iface.name} is not connected`);
+      return undefined;
+    }
+    return { iface, connection };
   }
 
   /**
-   * Get connection between two devices
+   * Hand a frame that arrived on a router port with 802.1Q subinterfaces to the subinterface of
+   * its VLAN, removing the tag. Untagged frames without a native subinterface stay on the
+   * physical interface; a frame of a VLAN no subinterface is encapsulated in is dropped.
    */
-  private getConnectionBetweenDevices(device1Id: string, device2Id: string): Connection | undefined {
-    return this.connections.find(conn =>
-      (conn.sourceDevice === device1Id && conn.targetDevice === device2Id) ||
-      (conn.sourceDevice === device2Id && conn.targetDevice === device1Id)
-    );
+  private receiveOnSubinterface(packet: SimulatedPacket, router: RouterDevice | FirewallDevice | MultilayerSwitchDevice): boolean {
+    const port = this.getIngressInterface(packet, router);
+    const subinterfaces = port ? getSubinterfaces(router.interfaces, port).filter(i => i.encapsulation) : [];
+    if (!port || subinterfaces.length === 0) return true;
+
+    const link = this.connections.find(conn => conn.id === packet.viaConnection);
+    const untaggedVlan = link ? this.getSegmentVlan(link, router.id) : undefined;
+    const sub = findSubinterfaceForVlan(subinterfaces, packet.vlanTag);
+    if (!sub) {
+      if (packet.vlanTag === undefined || packet.vlanTag === untaggedVlan) return true;
+      const reason = `no subinterface of ${port.name} is encapsulated in VLAN ${packet.vlanTag}`;
+      if (this.isBroadcastMac(packet.targetMac)) {
+        this.filterPacket(packet, reason);
+      } else {
+        this.dropPacket(packet, DropReason.VLAN_MISMATCH, reason);
+      }
+      return false;
+    }
+    if (sub.status !== InterfaceStatus.UP) {
+      this.dropPacket(packet, DropReason.INTERFACE_DOWN, `subinterface ${sub.name} is ${sub.status}`);
+      return false;
+    }
+    packet.currentPosition = { ...packet.currentPosition, interfaceId: sub.id };
+    return true;
   }
 
   /**
-   * Calculate transmission delay for packet
+   * How a frame leaves an interface at layer 2, e.g. " tagged 802.1Q VLAN 20"; empty unless it is a subinterface
    */
-  private calculateTransmissionDelay(packetSize: number): number {
-    // Simple delay calculation - in reality this would consider bandwidth, latency, etc.
-    const baseDelay = 1; // 1ms base delay
-    const sizeDelay = packetSize / 1000; // Additional delay based on packet size
-    return baseDelay + sizeDelay;
+  private describeEncapsulation(iface: NetworkInterface): string {
+    if (!iface.encapsulation) return '';
+    return iface.encapsulation.native
+      ? ` untagged (native VLAN ${iface.encapsulation.vlanId})`
+      : ` tagged 802.1Q VLAN ${iface.encapsulation.vlanId}`;
   }
 
   /**
-   * Create a simulated packet from a network packet
+   * End host: originate with default-gateway logic, otherwise keep only what is addressed to it
    */
-  private createSimulatedPacket(packet: NetworkPacket): SimulatedPacket {
-    return {
-      ...packet,
-      currentPosition: { deviceId: packet.sourceDevice },
-      path: [],
-      status: PacketStatus.QUEUED,
-      delay: 0,
-    };
+  private hostPacket(packet: SimulatedPacket, host: NetworkDevice): void {
+    if (packet.path.length === 1) {
+      this.originatePacket(packet, host);
+      return;
+    }
+
+    const broadcast = this.isBroadcastMac(packet.targetMac);
+    if (!broadcast && !this.ownsMac(host, packet.targetMac) && !this.listensTo(host, packet)) {
+      this.filterPacket(packet, `destination MAC ${packet.targetMac} is not ours`);
+      return;
+    }
+    if (packet.protocol === NetworkProtocol.ARP) {
+      this.receiveArp(packet, host);
+      return;
+    }
+    if (packet.protocol === NetworkProtocol.NDP) {
+      this.receiveNdp(packet, host);
+      return;
+    }
+    if (packet.dhcpType && (broadcast || (packet.targetIp && this.ownsIp(host, packet.targetIp)))) {
+      this.receiveDhcp(packet, host);
+      return;
+    }
+    if (!broadcast && packet.targetIp && !this.ownsIp(host, packet.targetIp)) {
+      this.dropPacket(packet, DropReason.NO_ROUTE, `${packet.targetIp} is not ours and hosts do not route`);
+      return;
+    }
+
+    this.deliverPacket(packet, broadcast ? 'broadcast received' : 'received');
+    if (!broadcast) {
+      this.answerPacket(packet, host);
+    }
   }
 
   /**
-   * Generate packets from traffic flow
+   * Reply the way the receiving stack would: SYN+ACK to a SYN, ACK to a SYN+ACK, echo reply to an echo request
    */
-  private generatePacketsFromFlow(flow: TrafficFlow): void {
-    // Generate initial burst of packets based on packetsPerSecond
-    const packetsToGenerate = Math.min(flow.packetsPerSecond / 10, 10); // Limit initial burst
+  private answerPacket(packet: SimulatedPacket, device: NetworkDevice): void {
+    let tcpFlags: number | undefined;
+    let icmpType: IcmpType | undefined;
+    if (IP_PROTOCOLS[packet.protocol] === 'tcp' && packet.tcpFlags === TcpFlag.SYN) {
+      tcpFlags = TcpFlag.SYN | TcpFlag.ACK;
+    } else if (IP_PROTOCOLS[packet.protocol] === 'tcp' && packet.tcpFlags === (TcpFlag.SYN | TcpFlag.ACK)) {
+      tcpFlags = TcpFlag.ACK;
+    } else if (packet.icmpType === IcmpType.ECHO_REQUEST) {
+      icmpType = IcmpType.ECHO_REPLY;
+    } else {
+      return;
+    }
+    if (!packet.sourceIp || !packet.targetIp) return;
+
+    const reply = this.createSimulatedPacket({
+      id: crypto.randomUUID(),
+      type: packet.type,
+      sourceDevice: device.id,
+      targetDevice: packet.sourceDevice,
+      sourceMac: packet.targetMac,
+      targetMac: packet.sourceMac,
+      sourceIp: packet.targetIp,
+      targetIp: packet.sourceIp,
+      size: tcpFlags === undefined ? packet.size : 64,
+      timestamp: new Date(),
+      ttl: 64,
+      sourcePort: packet.targetPort,
+      targetPort: packet.sourcePort,
+      dscp: packet.dscp,
+      tcpFlags,
+      icmpType,
+      ipVersion: packet.ipVersion,
+      protocol: packet.protocol,
+      payload: this.generatePayload(packet.type, packet.protocol),
+    });
+    this.sendPacket(reply);
+  }
+
+  /**
+   * Put a packet on the wire from the device that created it
+   */
+  private originatePacket(packet: SimulatedPacket, device: NetworkDevice): void {
+    const preferred = this.connections.find(conn => conn.id === packet.viaConnection);
+
+    if (this.isBroadcastMac(packet.targetMac)) {
+      const egress = preferred ? [preferred] : this.getSwitchedConnections(device);
+      packet.viaConnection = undefined; // nothing arrived on it; it must not be excluded from the flood
+      if (packet.vlanTag === undefined && egress.length > 0) {
+        packet.vlanTag = this.getSegmentVlan(egress[0], device.id);
+      }
+      this.floodFrame(packet, device, 'broadcast', egress);
+      return;
+    }
+    if (packet.ipVersion === 6 && packet.protocol !== NetworkProtocol.NDP) {
+      this.originateIpv6(packet, device);
+      return;
+    }
+
+    const addressless = packet.protocol !== NetworkProtocol.ARP && packet.protocol !== NetworkProtocol.NDP && !packet.dhcpType
+      && (!packet.sourceIp || !packet.targetIp);
+    if (addressless && !this.resolveLeasedAddresses(packet, device)) {
+      return;
+    }
+
+    const sourceIface = this.getDeviceInterfaces(device).find(i => this.getInterfaceIpAddress(device, i));
+    if (packet.protocol === NetworkProtocol.ARP || packet.protocol === NetworkProtocol.NDP || !packet.targetIp || !sourceIface) {
+      // Plain layer 2 frame: the destination MAC is already known
+      const connection = preferred ?? this.getDeviceConnections(device.id)[0];
+      if (!connection) {
+        this.dropPacket(packet, DropReason.INTERFACE_DOWN, `${device.name} is not connected`);
+        return;
+      }
+      if (packet.vlanTag === undefined) {
+        packet.vlanTag = this.getSegmentVlan(connection, device.id);
+      }
+      this.recordDecision(packet, ForwardingAction.FORWARD, `layer 2 frame to ${packet.targetMac}`);
+      this.transmit(packet, device, connection);
+      return;
+    }
+
+    if (device.type === DeviceType.ROUTER || device.type === DeviceType.FIREWALL || device.type === DeviceType.MULTILAYER_SWITCH) {
+      this.routeToNextHop(packet, device as RouterDevice | FirewallDevice | MultilayerSwitchDevice);
+      return;
+    }
+
+    // Host: on-link destinations are reached directly, everything else through the default gateway
+    const { network: ownIp, mask, prefixLength } = SubnetCalculator.parseSubnet(this.getInterfaceIpAddress(device, sourceIface)!);
+    const subnet = `${SubnetCalculator.getNetworkAddress(ownIp, mask)}/${prefixLength}`;
+    const onLink = SubnetCalculator.isInSameSubnet(ownIp, packet.targetIp, mask);
+    // A configured default gateway wins over the default router a DHCP server handed out
+    const gateway = (device as PcDevice | ServerDevice).defaultGateway
+      ?? this.dhcp.getClientLease(device.id, sourceIface.id)?.gateway;
+    if (!onLink && !gateway) {
+      this.dropPacket(packet, DropReason.NO_ROUTE, `${packet.targetIp} is outside ${subnet} and no default gateway is set`);
+      return;
+    }
+    if (!onLink && !SubnetCalculator.isInSameSubnet(ownIp, gateway!, mask)) {
+      this.dropPacket(packet, DropReason.NO_ROUTE, `default gateway ${gateway} is outside ${subnet}`);
+      return;
+    }
+    const connection = this.getConnectionOnPort(device, sourceIface.id) ?? this.getDeviceConnections(device.id)[0];
+    if (!connection) {
+      this.dropPacket(packet, DropReason.INTERFACE_DOWN, `${sourceIface.name} is not connected`);
+      return;
+    }
+
+    this.recordDecision(
+      packet,
+      ForwardingAction.ROUTE,
+      onLink ? `${packet.targetIp} is on-link in ${subnet}` : `${packet.targetIp} is outside ${subnet}, sending to default gateway ${gateway}`
+    );
+    packet.nextHop = { ip: onLink ? packet.targetIp : gateway!, connectionId: connection.id, interfaceId: sourceIface.id };
+    this.sendToNextHop(packet, device);
+  }
+
+  /**
+   * IPv6 from the device that created the packet: routers look the destination up in their
+   * IPv6 table; hosts reach on-link prefixes and link-local addresses directly and send
+   * everything else to their IPv6 default router
+   */
+  private originateIpv6(packet: SimulatedPacket, device: NetworkDevice): void {
+    const sourceIface = this.getDeviceInterfaces(device).find(i => this.getInterfaceIpv6Addresses(device, i).length > 0);
+    if (!sourceIface) {
+      this.dropPacket(packet, DropReason.NO_ROUTE, `IPv6 is not enabled on ${device.name}`);
+      return;
+    }
+    if ((!packet.sourceIp || !packet.targetIp) && !this.resolveIpv6Addresses(packet, device, sourceIface)) {
+      return;
+    }
+    if (device.type === DeviceType.ROUTER || device.type === DeviceType.FIREWALL) {
+      this.routeToNextHop(packet, device as RouterDevice | FirewallDevice);
+      return;
+    }
+
+    const targetIp = packet.targetIp!;
+    const addresses = this.getInterfaceIpv6Addresses(device, sourceIface);
+    const onLink = IPv6AddressUtils.isLinkLocal(targetIp)
+      ? addresses[0]
+      : addresses.find(a => a.origin !== 'link-local' && IPv6AddressUtils.isInPrefix(targetIp, a.address, a.prefixLength));
+    const gateway = (device as PcDevice | ServerDevice).ipv6DefaultGateway
+      ?? this.slaacStates.get(device.id)?.get(sourceIface.id)?.defaultRouter;
+    if (!onLink && !gateway) {
+      this.dropPacket(packet, DropReason.NO_ROUTE, `${targetIp} is not on-link and no IPv6 default router is known`);
+      return;
+    }
+    const connection = this.getConnectionOnPort(device, sourceIface.id) ?? this.getDeviceConnections(device.id)[0];
+    if (!connection) {
+      this.dropPacket(packet, DropReason.INTERFACE_DOWN, `${sourceIface.name} is not connected`);
+      return;
+    }
+
+    const prefix = onLink ? `${IPv6AddressUtils.getPrefix(onLink.address, onLink.prefixLength)}/${onLink.prefixLength}` : '';
+    this.recordDecision(
+      packet,
+      ForwardingAction.ROUTE,
+      onLink ? `${targetIp} is on-link in ${prefix}` : `${targetIp} is off-link, sending to default router ${gateway}`
+    );
+    packet.nextHop = { ip: onLink ? targetIp : gateway!, connectionId: connection.id, interfaceId: sourceIface.id };
+    this.sendToNextHop(packet, device);
+  }
+
+  /**
+   * Fill in the IPv6 addresses a packet was created without, because SLAAC had not assigned
+   * them yet. A host that autoconfigures sends a router solicitation and holds the packet
+   * until a router advertisement has given it an address; false while the packet waits.
+   */
+  private resolveIpv6Addresses(packet: SimulatedPacket, device: NetworkDevice, iface: NetworkInterface): boolean {
+    const target = this.devices.find(d => d.id === packet.targetDevice);
+    packet.sourceIp = packet.sourceIp ?? this.getDeviceIpv6Address(device);
+    packet.targetIp = packet.targetIp ?? (target ? this.getDeviceIpv6Address(target) : undefined);
+    if (packet.sourceIp && packet.targetIp) return true;
+
+    if (!packet.sourceIp && !iface.ipv6Autoconfig) {
+      this.dropPacket(packet, DropReason.NO_ROUTE, `${device.name} has no global IPv6 address`);
+      return false;
+    }
+    if (!packet.targetIp && !(target && this.getDeviceInterfaces(target).some(i => i.ipv6Autoconfig))) {
+      this.dropPacket(packet, DropReason.NO_ROUTE, `${target?.name ?? 'the target'} has no global IPv6 address`);
+      return false;
+    }
+
+    if (packet.slaacWaitStartedAt === undefined) {
+      packet.slaacWaitStartedAt = this.tickCount;
+      const connection = this.getConnectionOnPort(device, iface.id);
+      if (!packet.sourceIp && connection) {
+        this.sendRouterSolicitation(device, iface, connection, packet.vlanTag);
+        this.recordDecision(packet, ForwardingAction.NDP, `router solicitation out ${iface.name}, holding packet until SLAAC assigns an address`);
+      } else {
+        this.recordDecision(packet, ForwardingAction.NDP, `holding packet until SLAAC assigns ${target?.name ?? 'the target'} an address`);
+      }
+    } else if (this.tickCount - packet.slaacWaitStartedAt > this.SLAAC_TIMEOUT_TICKS) {
+      this.dropPacket(
+        packet,
+        DropReason.NDP_FAILED,
+        `no router advertisement gave ${packet.sourceIp ? target?.name ?? 'the target' : device.name} a global IPv6 address`
+      );
+    }
+    return false;
+  }
+
+  /**
+   * Fill in the IPv4 addresses a packet was created without, because the source or target
+   * gets its address from DHCP and had no lease yet. The packet is held until the lease is
+   * granted; false while it waits.
+   */
+  private resolveLeasedAddresses(packet: SimulatedPacket, device: NetworkDevice): boolean {
+    const target = this.devices.find(d => d.id === packet.targetDevice);
+    packet.sourceIp = packet.sourceIp ?? this.getDeviceIpAddress(device);
+    packet.targetIp = packet.targetIp ?? (target ? this.getDeviceIpAddress(target) : undefined);
+    const waitingFor = !packet.sourceIp && this.isDhcpClient(device)
+      ? device
+      : !packet.targetIp && target && this.isDhcpClient(target) ? target : undefined;
+    if (!waitingFor) return true;
+
+    if (packet.dhcpWaitStartedAt === undefined) {
+      packet.dhcpWaitStartedAt = this.tickCount;
+      this.recordDecision(packet, ForwardingAction.DHCP, `holding packet until DHCP leases ${waitingFor.name} an address`);
+    } else if (this.tickCount - packet.dhcpWaitStartedAt > this.DHCP_TIMEOUT_TICKS) {
+      this.dropPacket(packet, DropReason.DHCP_FAILED, `no DHCP server leased ${waitingFor.name} an address`);
+    }
+    return false;
+  }
+
+  /**
+   * Resolve the next hop with ARP or, for IPv6, neighbor discovery, then rewrite the layer 2
+   * header and send the packet on
+   */
+  private sendToNextHop(packet: SimulatedPacket, device: NetworkDevice): void {
+    const hop = packet.nextHop!;
+    const connection = this.connections.find(conn => conn.id === hop.connectionId);
+    const iface = this.getDeviceInterfaces(device).find(i => i.id === hop.interfaceId);
+    if (!iface || (!connection && iface.sviVlan === undefined)) {
+      this.dropPacket(packet, DropReason.INTERFACE_DOWN, `link towards ${hop.ip} is gone`);
+      return;
+    }
+
+    const ipv6 = packet.ipVersion === 6;
+    const arp = (ipv6 ? this.neighborCaches : this.arpTables).get(device.id)?.get(hop.ip);
+    if (!arp) {
+      if (hop.arpRequestedAt === undefined) {
+        hop.arpRequestedAt = this.tickCount;
+        if (ipv6) {
+          this.sendNeighborSolicitation(device, iface, connection!, hop.ip, packet.vlanTag);
+          this.recordDecision(packet, ForwardingAction.NDP, `neighbor solicitation for ${hop.ip} out ${iface.name}, holding packet`);
+        } else {
+          this.sendArpRequest(device, iface, connection, hop.ip, packet.vlanTag);
+          this.recordDecision(packet, ForwardingAction.ARP, `ARP request for ${hop.ip} out ${iface.name}, holding packet`);
+        }
+      } else if (this.tickCount - hop.arpRequestedAt > this.ARP_TIMEOUT_TICKS) {
+        if (ipv6) {
+          this.dropPacket(packet, DropReason.NDP_FAILED, `no neighbor advertisement from ${hop.ip}`);
+        } else {
+          this.dropPacket(packet, DropReason.ARP_FAILED, `no ARP reply from ${hop.ip}`);
+        }
+      }
+      return;
+    }
+
+    // New layer 2 header for the next segment; a router also moves the packet into that segment's VLAN
+    packet.sourceMac = iface.macAddress;
+    packet.targetMac = arp.macAddress;
+    packet.nextHop = undefined;
+    // An SVI hands the packet to the switch side, which forwards it within the VLAN
+    if (!connection) {
+      packet.vlanTag = iface.sviVlan;
+      packet.viaConnection = undefined;
+      this.recordDecision(packet, ForwardingAction.FORWARD, `${hop.ip} is at ${arp.macAddress}, out ${iface.name} into VLAN ${iface.sviVlan}`);
+      this.bridgeFrame(packet, device as MultilayerSwitchDevice);
+      return;
+    }
+    if (
+      device.type === DeviceType.ROUTER || device.type === DeviceType.FIREWALL ||
+      device.type === DeviceType.MULTILAYER_SWITCH || packet.vlanTag === undefined
+    ) {
+      packet.vlanTag = iface.encapsulation?.vlanId ?? this.getSegmentVlan(connection, device.id);
+    }
+    this.recordDecision(packet, ForwardingAction.FORWARD, `${hop.ip} is at ${arp.macAddress}, out ${iface.name}${this.describeEncapsulation(iface)}`);
+    this.transmit(packet, device, connection);
+  }
+
+  /**
+   * Put the packet on a link and move it to the device at the other end
+   */
+  private transmit(packet: SimulatedPacket, from: NetworkDevice, link: Connection): void {
+    const connection = this.selectChannelLink(packet, from, link);
+    if (!connection) return;
+    const nextId = connection.sourceDevice === from.id ? connection.targetDevice : connection.sourceDevice;
+    const next = this.devices.find(d => d.id === nextId);
+    if (!next) {
+      this.dropPacket(packet, DropReason.NO_ROUTE, `link ${connection.id} leads nowhere`);
+      return;
+    }
+    if (connection.status === ConnectionStatus.DOWN) {
+      this.dropPacket(packet, DropReason.INTERFACE_DOWN, `link to ${next.name} is down`);
+      return;
+    }
+    const errDisabled = this.getErrDisabledPort(connection);
+    if (errDisabled) {
+      this.dropPacket(packet, DropReason.INTERFACE_DOWN, `${errDisabled} is err-disabled by port security`);
+      return;
+    }
+    if (packet.vlanTag && !this.isVlanAllowedOnConnection(connection, packet.vlanTag)) {
+      this.dropPacket(packet, DropReason.VLAN_MISMATCH, `VLAN ${packet.vlanTag} is not allowed on the link to ${next.name}`);
+      return;
+    }
+    // Spanning tree: a port that is not forwarding neither sends nor receives frames
+    if (!this.isLinkForwarding(connection, packet.vlanTag)) {
+      this.dropPacket(packet, DropReason.STP_BLOCKED, `spanning tree blocks the link to ${next.name}`);
+      return;
+    }
+
+    const egressPort = this.portName(from, connection.sourceDevice === from.id ? connection.sourceInterface : connection.targetInterface);
+    const frame = this.toProcessingPacket(packet);
+    // Outbound ACLs filter traffic passing through the device, not traffic it originates
+    if (packet.path.length > 1 && !this.passesAcl(packet, from, egressPort, 'out', frame)) {
+      this.packetProcessor.updateEgressStats(from.id, egressPort, frame, true);
+      return;
+    }
+
+    const admission = this.packetProcessor.enqueuePacket(from.id, egressPort, frame, this.simTime);
+    if (!admission.queued) {
+      this.packetProcessor.updateEgressStats(from.id, egressPort, frame, true);
+      const queue = admission.queue;
+      this.dropPacket(
+        packet,
+        DropReason.BUFFER_FULL,
+        queue
+          ? `${queue.name} queue on ${egressPort} dropped the packet at ${queue.currentSize}/${queue.maxSize} packets (${queue.dropPolicy})`
+          : `no egress queue on ${egressPort} takes ${frame.header.qosClass} traffic`
+      );
+      return;
+    }
+    this.packetProcessor.updateEgressStats(from.id, egressPort, frame);
+
+    if (admission.delay > 0) {
+      packet.delay += admission.delay;
+      packet.egressQueue = { connectionId: connection.id, until: this.simTime + admission.delay };
+      this.recordDecision(
+        packet,
+        ForwardingAction.QUEUE,
+        `${admission.queue?.name} queue on ${egressPort}: waits ${admission.delay.toFixed(2)} ms with ${(admission.queue?.currentSize ?? 1) - 1} packet(s) ahead`
+      );
+      return;
+    }
+
+    this.sendOnLink(packet, from, connection);
+  }
+
+  /**
+   * Move a packet that has left its egress queue across the link to the device at the other end
+   */
+  private sendOnLink(packet: SimulatedPacket, from: NetworkDevice, connection: Connection): void {
+    const nextId = connection.sourceDevice === from.id ? connection.targetDevice : connection.sourceDevice;
+    const next = this.devices.find(d => d.id === nextId);
+    if (!next) {
+      this.dropPacket(packet, DropReason.NO_ROUTE, `link ${connection.id} leads nowhere`);
+      return;
+    }
+
+    const ingress = connection.sourceDevice === next.id ? connection.sourceInterface : connection.targetInterface;
+    // Secure ports only learn the addresses port security lets in
+    const ingressIface = this.findPort(next, ingress);
+    if (isSwitchingDevice(next) && ingressIface && isSwitchport(ingressIface) && !ingressIface.portSecurity?.enabled) {
+      this.learnMac(next.id, packet.sourceMac, packet.vlanTag, ingress);
+    }
+
+    packet.delay += this.calculateTransmissionDelay(packet.size);
+    this.updateDeviceUtilization(from.id, packet.size);
+    if (packet.vlanTag) {
+      this.updateVlanUtilization(packet.vlanTag, packet.size);
+    }
+
+    packet.viaConnection = connection.id;
+    packet.path.push(next.id);
+    packet.currentPosition = { deviceId: next.id, interfaceId: ingress };
+
+    if (this.enableAnimation && this.packetAnimationManager && packet.path.length === 2) {
+      this.packetAnimationManager.animatePacket(packet);
+    }
+
+    // Routers and hosts discard frames for other MAC addresses before their inbound ACL sees them
+    const ingressPort = this.portName(next, ingress);
+    const frame = this.toProcessingPacket(packet);
+    const inspected = isSwitchingDevice(next) || this.ownsMac(next, packet.targetMac);
+    const permitted = !inspected || this.passesAcl(packet, next, ingressPort, 'in', frame);
+    this.packetProcessor.updateIngressStats(next.id, ingressPort, frame, !permitted);
+  }
+
+  /**
+   * Check an IP packet against the ACL applied to a port in one direction, dropping it when denied
+   */
+  private passesAcl(
+    packet: SimulatedPacket,
+    device: NetworkDevice,
+    port: string,
+    direction: AclDirection,
+    frame: ProcessingPacket
+  ): boolean {
+    if (frame.header.etherType !== 0x0800 || !frame.header.srcIp || !frame.header.dstIp) return true;
+
+    const result = this.packetProcessor.checkInterfaceAcl(device, port, direction, frame);
+    if (!result) return true;
+
+    const rule = `ACL ${result.acl.name} ${direction} on ${port}: ${
+      result.entry ? describeAclEntry(result.entry, result.acl.type) : 'implicit deny'
+    } (${result.hits} ${result.hits === 1 ? 'match' : 'matches'})`;
+    if (!result.permitted) {
+      this.dropPacket(packet, DropReason.ACCESS_DENIED, `denied by ${rule}`);
+      return false;
+    }
+    this.recordDecision(packet, ForwardingAction.ACL, `permitted by ${rule}`);
+    return true;
+  }
+
+  /**
+   * Run a routed packet through the firewall's session table and zone-pair policy, dropping it when denied
+   */
+  private passesFirewall(packet: SimulatedPacket, firewall: FirewallDevice, egressPort: string): boolean {
+    if (!packet.sourceIp || !packet.targetIp) return true;
+
+    const ingressPort = this.portName(firewall, packet.currentPosition.interfaceId ?? '');
+    const protocol = IP_PROTOCOLS[packet.protocol] ?? 'ip';
+    const verdict = this.firewall.inspect(firewall, ingressPort, egressPort, {
+      protocol,
+      srcIp: packet.sourceIp,
+      dstIp: packet.targetIp,
+      srcPort: packet.sourcePort,
+      dstPort: packet.targetPort,
+      tcpFlags: packet.tcpFlags,
+      icmpType: packet.icmpType,
+      size: packet.size,
+    });
+    const summary = protocol === 'tcp' ? `TCP ${describeTcpFlags(packet.tcpFlags)}` : packet.icmpType ?? protocol;
+    if (!verdict.allowed) {
+      this.dropPacket(packet, DropReason.FIREWALL_DENIED, `${summary} ${ingressPort} -> ${egressPort}: ${verdict.reason}`);
+      return false;
+    }
+    this.recordDecision(packet, ForwardingAction.INSPECT, `${summary} ${ingressPort} -> ${egressPort}: ${verdict.reason}`);
+    return true;
+  }
+
+  /**
+   * Rewrite the destination of a packet arriving on an outside NAT interface back to its inside local address
+   */
+  private translateInbound(packet: SimulatedPacket, router: RouterDevice): void {
+    const ingress = this.getIngressInterface(packet, router);
+    if (!router.nat || ingress?.nat !== 'outside' || packet.ipVersion === 6 || !packet.sourceIp || !packet.targetIp) return;
+
+    const result = this.nat.translateInbound(router, this.toNatFlow(packet));
+    if (result.translated) {
+      this.applyTranslation(packet, result);
+    }
+  }
+
+  /**
+   * Translate the source of a packet routed from an inside to an outside NAT interface,
+   * dropping it when no inside global address is left for it
+   */
+  private translateOutbound(packet: SimulatedPacket, router: RouterDevice, egress: NetworkInterface): boolean {
+    const ingress = this.getIngressInterface(packet, router);
+    if (!router.nat || ingress?.nat !== 'inside' || egress.nat !== 'outside' || !packet.sourceIp || !packet.targetIp) {
+      return true;
+    }
+
+    const result = this.nat.translateOutbound(
+      router,
+      this.toNatFlow(packet),
+      (aclName, flow) => this.natAclPermits(router, aclName, flow),
+      name => {
+        const address = router.interfaces.find(i => i.name === name)?.ipAddress;
+        return address ? SubnetCalculator.parseSubnet(address).network : undefined;
+      }
+    );
+    if (result.failed) {
+      this.dropPacket(packet, DropReason.NAT_FAILED, result.reason);
+      return false;
+    }
+    if (result.translated) {
+      this.applyTranslation(packet, result);
+    }
+    return true;
+  }
+
+  /**
+   * Whether the router ACL a NAT rule refers to permits a flow; an undefined ACL permits nothing
+   */
+  private natAclPermits(router: RouterDevice, aclName: string, flow: NatFlow): boolean {
+    const acl = findAccessList(router, aclName);
+    if (!acl) return false;
+    return this.packetProcessor.traceAcl(toAccessControlList(acl), createAclProbePacket({
+      protocol: flow.protocol,
+      srcIp: flow.srcIp,
+      dstIp: flow.dstIp,
+      srcPort: flow.srcPort,
+      dstPort: flow.dstPort,
+    })).permitted;
+  }
+
+  private toNatFlow(packet: SimulatedPacket): NatFlow {
+    return {
+      protocol: IP_PROTOCOLS[packet.protocol] ?? 'ip',
+      srcIp: packet.sourceIp!,
+      dstIp: packet.targetIp!,
+      srcPort: packet.sourcePort,
+      dstPort: packet.targetPort,
+      tcpFlags: packet.tcpFlags,
+    };
+  }
+
+  /**
+   * Record the addresses before and after translation, then rewrite the packet
+   */
+  private applyTranslation(packet: SimulatedPacket, result: NatResult): void {
+    const translated = {
+      sourceIp: result.flow.srcIp,
+      sourcePort: result.flow.srcPort,
+      targetIp: result.flow.dstIp,
+      targetPort: result.flow.dstPort,
+    };
+    this.recordDecision(packet, ForwardingAction.NAT, result.reason, translated);
+    Object.assign(packet, translated);
+  }
+
+  /**
+   * The packet as the packet processor sees it, for ACL matching, QoS classification and interface stats
+   */
+  private toProcessingPacket(packet: SimulatedPacket): ProcessingPacket {
+    const isArp = packet.type === PacketType.ARP || packet.protocol === NetworkProtocol.ARP;
+    const ipProtocol = IP_PROTOCOLS[packet.protocol];
+
+    let type = ProcessingPacketType.ETHERNET;
+    if (isArp) type = ProcessingPacketType.ARP;
+    else if (packet.protocol === NetworkProtocol.DHCP) type = ProcessingPacketType.DHCP;
+    else if (ipProtocol === 'icmp') type = ProcessingPacketType.ICMP;
+    else if (ipProtocol === 'tcp') type = ProcessingPacketType.TCP;
+    else if (ipProtocol === 'udp') type = ProcessingPacketType.UDP;
+    else if (packet.sourceIp) type = ProcessingPacketType.IP;
+
+    return {
+      id: packet.id,
+      type,
+      header: {
+        srcMac: packet.sourceMac,
+        dstMac: packet.targetMac,
+        vlanId: packet.vlanTag,
+        etherType: isArp ? 0x0806 : packet.ipVersion === 6 ? 0x86dd : 0x0800,
+        srcIp: isArp ? undefined : packet.sourceIp,
+        dstIp: isArp ? undefined : packet.targetIp,
+        protocol: ipProtocol ? IP_PROTOCOL_NUMBERS[ipProtocol] : undefined,
+        ttl: packet.ttl,
+        dscp: packet.dscp,
+        srcPort: packet.sourcePort,
+        dstPort: packet.targetPort,
+        tcpFlags: packet.tcpFlags,
+        qosClass: QosClass.BEST_EFFORT,
+        priority: 0,
+        dropPrecedence: 0,
+      },
+      payload: packet.payload,
+      size: packet.size,
+      timestamp: this.simTime,
+      sourceDeviceId: packet.sourceDevice,
+      targetDeviceId: packet.targetDevice,
+      path: [...packet.path],
+      hopCount: packet.path.length - 1,
+      processingDelay: 0,
+      queuingDelay: 0,
+      transmissionDelay: 0,
+      errors: [],
+    };
+  }
+
+  /**
+   * Send a frame out of every forwarding port in its VLAN except the one it arrived on
+   */
+  private floodFrame(packet: SimulatedPacket, device: NetworkDevice, reason: string, candidates?: Connection[]): void {
+    const ingressChannel = packet.viaConnection ? this.getBundledChannel({ id: packet.viaConnection }) : undefined;
+    const flooded = new Set<string>(); // port-channels already given a copy
+    const egress = (candidates ?? this.getSwitchedConnections(device)).filter(conn => {
+      if (
+        conn.id === packet.viaConnection ||
+        conn.status === ConnectionStatus.DOWN ||
+        (packet.vlanTag && !this.isVlanAllowedOnConnection(conn, packet.vlanTag)) ||
+        !this.isLinkForwarding(conn, packet.vlanTag) ||
+        this.getErrDisabledPort(conn) ||
+        this.getChannelMember(conn)?.state === 'suspended'
+      ) {
+        return false;
+      }
+      // A port-channel floods as one port: one copy, never back into the bundle it came from
+      const channel = this.getBundledChannel(conn);
+      if (!channel) return true;
+      if (channel === ingressChannel || flooded.has(channel.id)) return false;
+      flooded.add(channel.id);
+      return true;
+    });
+    if (egress.length === 0) {
+      this.filterPacket(packet, `${reason}: no other forwarding port${packet.vlanTag ? ` in VLAN ${packet.vlanTag}` : ''}`);
+      return;
+    }
+
+    packet.floodId = packet.floodId ?? packet.id;
+    if (!this.floods.has(packet.floodId)) {
+      this.floods.set(packet.floodId, { copies: [packet], crossed: new Set(), repeats: 0 });
+    }
+    const flood = this.floods.get(packet.floodId)!;
+
+    this.recordDecision(
+      packet,
+      ForwardingAction.FLOOD,
+      `${reason}: out ${egress.map(conn => this.portName(device, conn.sourceDevice === device.id ? conn.sourceInterface : conn.targetInterface)).join(', ')}`
+    );
+
+    // Every copy is taken before any of them leaves: transmit moves and may drop or queue the
+    // packet it sends, and none of that belongs to the copies for the other ports
+    const copies = egress.map((_, index): SimulatedPacket => index === 0
+      ? packet
+      : {
+          ...packet,
+          id: crypto.randomUUID(),
+          currentPosition: { ...packet.currentPosition },
+          path: [...packet.path],
+          decisions: [...(packet.decisions ?? [])],
+          drops: undefined,
+        });
+
+    egress.forEach((conn, index) => {
+      const copy = copies[index];
+      const crossing = `${conn.id}:${device.id}`;
+      if (flood.crossed.has(crossing)) {
+        flood.repeats++;
+      }
+      flood.crossed.add(crossing);
+
+      if (copy !== packet) {
+        flood.copies.push(copy);
+        this.activeSimulation?.packets.push(copy);
+        this.updateStatistics(copy, 'created');
+      }
+      this.transmit(copy, device, conn);
+    });
+
+    // A frame that keeps coming back around a loop has become a broadcast storm
+    const live = flood.copies.filter(
+      copy => copy.status === PacketStatus.IN_TRANSIT || copy.status === PacketStatus.QUEUED
+    );
+    if (flood.repeats > 0 && (live.length >= this.BROADCAST_STORM_COPIES || flood.repeats >= this.BROADCAST_STORM_COPIES)) {
+      live.forEach(copy => this.dropPacket(copy, DropReason.LOOP_DETECTED, `broadcast storm: ${live.length} copies looping`));
+      this.floods.delete(packet.floodId);
+    }
+  }
+
+  /**
+   * Record what the device the packet is at decided to do with it
+   */
+  private recordDecision(packet: SimulatedPacket, action: ForwardingAction, reason: string, translatedHeader?: PacketAddressing): void {
+    packet.decisions = packet.decisions ?? [];
+    packet.decisions.push({
+      deviceId: packet.currentPosition.deviceId,
+      interfaceId: packet.currentPosition.interfaceId,
+      action,
+      reason,
+      vlanId: packet.vlanTag,
+      header: {
+        sourceIp: packet.sourceIp,
+        sourcePort: packet.sourcePort,
+        targetIp: packet.targetIp,
+        targetPort: packet.targetPort,
+      },
+      translatedHeader,
+      timestamp: new Date(),
+    });
+  }
+
+  /**
+   * Deliver packet successfully
+   */
+  private deliverPacket(packet: SimulatedPacket, reason: string): void {
+    this.recordDecision(packet, ForwardingAction.DELIVER, reason);
+    packet.status = PacketStatus.DELIVERED;
+    this.updateStatistics(packet, 'delivered');
+  }
+
+  /**
+   * Discard a frame that is not for this device; not an error, so not counted as a drop
+   */
+  private filterPacket(packet: SimulatedPacket, reason: string): void {
+    this.recordDecision(packet, ForwardingAction.FILTER, reason);
+    packet.status = PacketStatus.FILTERED;
+  }
+
+  /**
+   * Drop packet with specified reason
+   */
+  private dropPacket(packet: SimulatedPacket, reason: DropReason, detail?: string): void {
+    this.recordDecision(packet, ForwardingAction.DROP, detail ?? reason);
+    packet.status = PacketStatus.DROPPED;
+    packet.drops = packet.drops || [];
+    packet.drops.push({
+      deviceId: packet.currentPosition.deviceId,
+      reason,
+      timestamp: new Date(),
+      interfaceId: packet.currentPosition.interfaceId,
+    });
+    this.updateStatistics(packet, 'dropped');
+  }
+
+  /**
+   * VLAN of the segment a device sends into over a link: the access VLAN (or trunk native VLAN)
+   * of the switch port at the far end, undefined when no switch is involved
+   */
+  private getSegmentVlan(connection: Connection, deviceId: string): number | undefined {
+    const farId = connection.sourceDevice === deviceId ? connection.targetDevice : connection.sourceDevice;
+    const far = this.devices.find(d => d.id === farId);
+    if (!isSwitchingDevice(far)) return undefined;
+
+    const farRef = connection.sourceDevice === farId ? connection.sourceInterface : connection.targetInterface;
+    const farIf = far.interfaces.find(i => i.id === farRef || i.name === farRef);
+    if (!farIf || !isSwitchport(farIf)) return undefined;
+    if (farIf.type === InterfaceType.ACCESS) {
+      return farIf.vlanConfig?.accessVlan;
+    }
+    if (farIf.type === InterfaceType.TRUNK) {
+      return farIf.vlanConfig?.nativeVlan ?? 1;
+    }
+    return undefined;
+  }
+
+  /**
+   * Check if device can send packet (considering VLAN restrictions)
+   */
+  private canDeviceSendPacket(device: NetworkDevice, packet: SimulatedPacket): boolean {
+    // Check device status
+    if (device.status !== 'active') {
+      return false;
+    }
+
+    // For switches, check VLAN configuration
+    if (device.type === DeviceType.SWITCH) {
+      const switchDevice = device as SwitchDevice;
+      if (packet.vlanTag) {
+        const switchVlans = getSwitchVlans(switchDevice);
+        return switchVlans.includes(packet.vlanTag);
+      }
+    }
+
+    return true;
+  }
+
+  /**
+   * Whether spanning tree forwards frames on both ends of a link (always, without an engine)
+   */
+  private isLinkForwarding(connection: Connection, vlanId?: number): boolean {
+    return !this.spanningTreeEngine || this.spanningTreeEngine.isLinkForwarding(connection.id, vlanId);
+  }
+
+  /**
+   * End of a link that a port security violation shut down, e.g. "SW1 Fa0/2"
+   */
+  private getErrDisabledPort(connection: Connection): string | undefined {
+    const ends: Array<[string, string]> = [
+      [connection.sourceDevice, connection.sourceInterface],
+      [connection.targetDevice, connection.targetInterface],
+    ];
+    for (const [deviceId, interfaceId] of ends) {
+      const device = this.devices.find(d => d.id === deviceId);
+      const port = isSwitchingDevice(device) ? this.findPort(device, interfaceId) : undefined;
+      if (device && port && this.portSecurity.isErrDisabled(device.id, port.id)) {
+        return `${device.name} ${port.name}`;
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * What became of a link inside its EtherChannel, if it belongs to one
+   */
+  private getChannelMember(connection: Pick<Connection, 'id'>): LinkAggregationMember | undefined {
+    return findLinkAggregationGroup(this.linkAggregationGroups, connection.id)
+      ?.members.find(m => m.connectionId === connection.id);
+  }
+
+  /**
+   * Port-channel a link carries traffic for, when the link is bundled into one
+   */
+  private getBundledChannel(connection: Pick<Connection, 'id'>): LinkAggregationGroup | undefined {
+    const channel = findLinkAggregationGroup(this.linkAggregationGroups, connection.id);
+    return channel?.status === ConnectionStatus.UP && this.getChannelMember(connection)?.state === 'bundled'
+      ? channel
+      : undefined;
+  }
+
+  /**
+   * Link a frame leaves on when the chosen link is an EtherChannel member: the load-balance
+   * hash picks among the bundled links still up, so traffic fails over when one goes down.
+   * Suspended members carry no traffic; other links are used as they are.
+   */
+  private selectChannelLink(packet: SimulatedPacket, from: NetworkDevice, link: Connection): Connection | undefined {
+    const member = this.getChannelMember(link);
+    const channel = findLinkAggregationGroup(this.linkAggregationGroups, link.id);
+    if (!member || !channel) return link;
+    const port = this.portName(from, link.sourceDevice === from.id ? link.sourceInterface : link.targetInterface);
+    const name = getPortChannelName(channel, from.id);
+    if (member.state === 'suspended') {
+      this.dropPacket(packet, DropReason.INTERFACE_DOWN, `${port} is suspended in ${name}: ${member.reason}`);
+      return undefined;
+    }
+    if (member.state !== 'bundled' || channel.status !== ConnectionStatus.UP) return link;
+
+    const usable = channel.members
+      .filter(m => m.state === 'bundled')
+      .map(m => this.connections.find(c => c.id === m.connectionId))
+      .filter((c): c is Connection =>
+        !!c &&
+        c.status !== ConnectionStatus.DOWN &&
+        !this.spanningTreeEngine?.isLinkFailed(c.id) &&
+        !this.getErrDisabledPort(c)
+      );
+    const method = (isSwitchingDevice(from) && from.etherChannelLoadBalance) || DEFAULT_ETHERCHANNEL_LOAD_BALANCE;
+    const choice = selectLinkAggregationMember(usable.map(c => c.id), method, packet);
+    const chosen = usable.find(c => c.id === choice?.connectionId);
+    if (!choice || !chosen) return link;
+    const egress = this.portName(from, chosen.sourceDevice === from.id ? chosen.sourceInterface : chosen.targetInterface);
+    this.recordDecision(
+      packet,
+      ForwardingAction.FORWARD,
+      `${name} load-balance ${choice.fields}: hash ${choice.hash} picks ${egress} (${usable.length} of ${channel.members.length} links usable)`
+    );
+    return chosen;
+  }
+
+  private isBroadcastMac(mac: string): boolean {
+    return mac.toLowerCase() === 'ff:ff:ff:ff:ff:ff';
+  }
+
+  /**
+   * Calculate transmission delay for packet
+   */
+  private calculateTransmissionDelay(packetSize: number): number {
+    // Simple delay calculation - in reality this would consider bandwidth, latency, etc.
+    const baseDelay = 1; // 1ms base delay
+    const sizeDelay = packetSize / 1000; // Additional delay based on packet size
+    return baseDelay + sizeDelay;
+  }
+
+  /**
+   * Create a simulated packet from a network packet
+   */
+  private createSimulatedPacket(packet: NetworkPacket): SimulatedPacket {
+    return {
+      ...packet,
+      currentPosition: { deviceId: packet.sourceDevice },
+      path: [],
+      status: PacketStatus.QUEUED,
+      delay: 0,
+    };
+  }
+
+  /**
+   * Generate packets from traffic flow
+   */
+  private generatePacketsFromFlow(flow: TrafficFlow): void {
+    if (flow.attack) {
+      if (!this.launchAttack(flow)) {
+        this.pendingAttacks.push(flow);
+      }
+      return;
+    }
+
+    // Generate initial burst of packets based on packetsPerSecond
+    const packetsToGenerate = Math.min(flow.packetsPerSecond / 10, 10); // Limit initial burst
     
     for (let i = 0; i < packetsToGenerate; i++) {
       const packet = this.createTestPacket(
@@ -767,15 +2021,113 @@ export class SimulationEngine {
         flow.targetDevice,
         this.protocolToPacketType(flow.protocol),
         flow.protocol,
-        flow.vlanId
+        flow.vlanId,
+        flow.ipVersion
       );
       
       if (packet) {
+        // ARP requests are broadcast and flooded through the VLAN
+        if (flow.protocol === NetworkProtocol.ARP) {
+          packet.targetMac = 'FF:FF:FF:FF:FF:FF';
+        }
         this.sendPacket(packet);
       }
     }
   }
 
+  /**
+   * Stage the attack of a traffic flow from its source against its target: flood the DHCP
+   * server with DISCOVERs, answer the target's DHCP as a rogue server, or spoof an ARP reply
+   * for its default gateway. False while the attack waits for the target to lease an address.
+   */
+  private launchAttack(flow: TrafficFlow): boolean {
+    const attacker = this.devices.find(d => d.id === flow.sourceDevice);
+    const victim = this.devices.find(d => d.id === flow.targetDevice);
+    const attackerIface = attacker
+      ? this.getDeviceInterfaces(attacker).find(i => this.getConnectionOnPort(attacker, i.id))
+      : undefined;
+    if (!attacker || !victim || !attackerIface) return true;
+
+    switch (flow.attack) {
+      case AttackType.DHCP_STARVATION: {
+        const count = Math.min(flow.packetsPerSecond, this.STARVATION_BURST);
+        for (let i = 0; i < count; i++) {
+          const chaddr = generateMacAddress();
+          this.sendDhcp(
+            attacker,
+            {
+              type: DhcpMessageType.DISCOVER,
+              message: { xid: Math.random().toString(16).slice(2, 10), chaddr },
+              reason: `DHCP starvation: DISCOVER for made-up client ${chaddr}`,
+            },
+            '0.0.0.0',
+            DHCP_PORTS,
+            attackerIface
+          );
+        }
+        // The target asks for an address once the pool has been drained
+        this.restartDhcpClients(victim);
+        return true;
+      }
+
+      case AttackType.ROGUE_DHCP: {
+        const address = this.getInterfaceIpAddress(attacker, attackerIface);
+        if (!address) return true;
+        const { network: attackerIp, mask } = SubnetCalculator.parseSubnet(address);
+        this.rogueDhcpServers.set(attacker.id, {
+          pools: [{
+            name: 'ROGUE',
+            network: SubnetCalculator.getNetworkAddress(attackerIp, mask),
+            mask,
+            defaultRouter: attackerIp,
+            dnsServers: [attackerIp],
+          }],
+          excludedRanges: [{ start: attackerIp, end: attackerIp }],
+        });
+        this.restartDhcpClients(victim);
+        return true;
+      }
+
+      case AttackType.ARP_SPOOFING: {
+        const victimIface = this.getDeviceInterfaces(victim).find(i => this.getInterfaceIpAddress(victim, i));
+        if (!victimIface) return !this.isDhcpClient(victim);
+        const gateway = (victim as PcDevice | ServerDevice).defaultGateway
+          ?? this.dhcp.getClientLease(victim.id, victimIface.id)?.gateway;
+        if (!gateway) return true;
+
+        const reply = this.createSimulatedPacket({
+          id: crypto.randomUUID(),
+          type: PacketType.ARP,
+          sourceDevice: attacker.id,
+          targetDevice: victim.id,
+          sourceMac: attackerIface.macAddress,
+          targetMac: victimIface.macAddress,
+          sourceIp: gateway,
+          targetIp: this.getInterfaceIpAddress(victim, victimIface)!.split('/')[0],
+          size: this.getDefaultPacketSize(PacketType.ARP),
+          timestamp: new Date(),
+          ttl: 64,
+          protocol: NetworkProtocol.ARP,
+          payload: { op: 'reply' },
+        });
+        reply.viaConnection = this.getConnectionOnPort(attacker, attackerIface.id)!.id;
+        this.sendPacket(reply);
+        this.recordDecision(reply, ForwardingAction.ARP, `ARP spoofing: telling ${victim.name} that ${gateway} is at ${attackerIface.macAddress}`);
+        return true;
+      }
+    }
+    return true;
+  }
+
+  /**
+   * Make the DHCP clients of a host start over, as when its interfaces are bounced
+   */
+  private restartDhcpClients(device: NetworkDevice): void {
+    this.getDeviceInterfaces(device)
+      .filter(iface => iface.dhcpClient && !iface.ipAddress)
+      .forEach(iface => this.dhcp.restartClient(device.id, iface.id));
+  }
+
   /**
    * Learning table utilities
    */
@@ -829,7 +2181,7 @@ export class SimulationEngine {
       toDelete.forEach(k => table.delete(k));
     });
 
-    this.arpTables.forEach((table) => {
+    [...this.arpTables.values(), ...this.neighborCaches.values()].forEach((table) => {
       const toDelete: string[] = [];
       table.forEach((entry, ip) => {
         const ageMs = now - entry.timestamp.getTime();
@@ -842,220 +2194,662 @@ export class SimulationEngine {
   }
 
   /**
-   * Simulate ARP request/reply resolution along the path (approximate, no flood)
+   * ARP at a host or router: learn the sender, answer requests for our address, accept replies
    */
-  private simulateArpResolution(packet: SimulatedPacket): void {
-    if (!packet.vlanTag) return;
-    // Populate MAC entries for the target MAC on switches along the path
-    packet.path.forEach((deviceId, idx) => {
-      const dev = this.devices.find(d => d.id === deviceId);
-      if (dev && dev.type === DeviceType.SWITCH) {
-        // Use the inbound interface from the previous hop if available
-        const prevId = idx > 0 ? packet.path[idx - 1] : undefined;
-        const conn = prevId ? this.getConnectionBetweenDevices(deviceId, prevId) : undefined;
-        const ingressIf = conn ? (conn.sourceDevice === deviceId ? conn.sourceInterface : conn.targetInterface) : undefined;
-        this.learnMac(deviceId, packet.targetMac, packet.vlanTag, ingressIf);
+  private receiveArp(packet: SimulatedPacket, device: NetworkDevice): void {
+    const request = this.isBroadcastMac(packet.targetMac);
+    if (!packet.targetIp || !(this.ownsIp(device, packet.targetIp) || this.answersForNat(packet, device))) {
+      if (request) {
+        this.deliverPacket(packet, `ARP request for ${packet.targetIp ?? 'unknown address'} ignored`);
+      } else {
+        this.filterPacket(packet, `ARP reply for ${packet.targetIp ?? 'unknown address'} is not ours`);
       }
-    });
+      return;
+    }
+
+    if (packet.sourceIp) {
+      this.learnNeighbor(device.id, packet.sourceIp, packet.sourceMac, packet.sourceDevice, packet.vlanTag);
+    }
+    if (request) {
+      this.sendArpReply(packet, device);
+      this.deliverPacket(packet, `ARP request for ${packet.targetIp} answered`);
+    } else {
+      this.deliverPacket(packet, `ARP reply: ${packet.sourceIp} is at ${packet.sourceMac}`);
+    }
+  }
+
+  /**
+   * Routers answer ARP on outside interfaces for the inside global addresses they translate to
+   */
+  private answersForNat(packet: SimulatedPacket, device: NetworkDevice): boolean {
+    if (device.type !== DeviceType.ROUTER || !packet.targetIp) return false;
+    return this.getIngressInterface(packet, device)?.nat === 'outside' && this.nat.ownsGlobalAddress(device, packet.targetIp);
+  }
 
-    // Optionally add ARP req/reply packets for visualization
-    const arpReq: NetworkPacket = {
+  /**
+   * Broadcast an ARP request for a next hop out of one interface
+   */
+  private sendArpRequest(
+    device: NetworkDevice,
+    iface: NetworkInterface,
+    connection: Connection | undefined,
+    targetIp: string,
+    vlanTag?: number
+  ): void {
+    const request = this.createSimulatedPacket({
       id: crypto.randomUUID(),
       type: PacketType.ARP,
-      sourceDevice: packet.sourceDevice,
-      targetDevice: packet.targetDevice,
-      sourceMac: packet.sourceMac,
-      targetMac: 'ff:ff:ff:ff:ff:ff',
-      sourceIp: packet.sourceIp,
-      targetIp: packet.targetIp,
-      vlanTag: packet.vlanTag,
-      size: 64,
+      sourceDevice: device.id,
+      targetDevice: '',
+      sourceMac: iface.macAddress,
+      targetMac: 'FF:FF:FF:FF:FF:FF',
+      sourceIp: this.getInterfaceIpAddress(device, iface)?.split('/')[0],
+      targetIp,
+      vlanTag: device.type === DeviceType.ROUTER || device.type === DeviceType.FIREWALL || device.type === DeviceType.MULTILAYER_SWITCH
+        ? iface.encapsulation?.vlanId ?? iface.sviVlan
+        : vlanTag,
+      size: this.getDefaultPacketSize(PacketType.ARP),
       timestamp: new Date(),
       ttl: 64,
       protocol: NetworkProtocol.ARP,
       payload: { op: 'request' },
-    };
-    const arpRep: NetworkPacket = {
-      ...arpReq,
+    });
+    // An SVI's request is flooded through the switchports of its VLAN
+    request.viaConnection = connection?.id;
+    this.sendPacket(request);
+  }
+
+  /**
+   * Answer an ARP request with a unicast reply back out of the port it arrived on
+   */
+  private sendArpReply(request: SimulatedPacket, device: NetworkDevice): void {
+    // Addresses a router answers for by NAT are not on an interface; reply from the one the request came in on
+    const iface = this.getDeviceInterfaces(device).find(
+      i => this.getInterfaceIpAddress(device, i)?.split('/')[0] === request.targetIp
+    ) ?? this.getIngressInterface(request, device);
+    // The active router of an HSRP or VRRP group answers for the virtual IP with the virtual MAC
+    const group = request.targetIp ? this.fhrp.findActiveGroupByIp(device.id, request.targetIp) : undefined;
+    const reply = this.createSimulatedPacket({
       id: crypto.randomUUID(),
-      targetMac: packet.sourceMac,
+      type: PacketType.ARP,
+      sourceDevice: device.id,
+      targetDevice: request.sourceDevice,
+      sourceMac: group?.virtualMac ?? iface?.macAddress ?? this.getDeviceMacAddress(device),
+      targetMac: request.sourceMac,
+      sourceIp: request.targetIp,
+      targetIp: request.sourceIp,
+      vlanTag: request.vlanTag,
+      size: this.getDefaultPacketSize(PacketType.ARP),
+      timestamp: new Date(),
+      ttl: 64,
+      protocol: NetworkProtocol.ARP,
       payload: { op: 'reply' },
-    };
+    });
+    reply.viaConnection = request.viaConnection;
+    this.sendPacket(reply);
+  }
 
-    const simReq = this.createSimulatedPacket(arpReq);
-    simReq.path = [...packet.path];
-    const simRep = this.createSimulatedPacket(arpRep);
-    simRep.path = [...packet.path].reverse();
+  /**
+   * A router that becomes active for an HSRP or VRRP group broadcasts a gratuitous ARP from the
+   * virtual MAC, so the switches of the segment move the virtual gateway to its port
+   */
+  private sendGratuitousArp({ group, member }: FhrpTakeover): void {
+    const device = this.devices.find(d => d.id === member.deviceId);
+    const iface = device && this.getDeviceInterfaces(device).find(i => i.id === member.interfaceId);
+    if (!device || !iface || !group.virtualIp) return;
 
-    if (this.activeSimulation) {
-      this.activeSimulation.packets.push(simReq, simRep);
-    }
+    const announcement = this.createSimulatedPacket({
+      id: crypto.randomUUID(),
+      type: PacketType.ARP,
+      sourceDevice: device.id,
+      targetDevice: '',
+      sourceMac: group.virtualMac,
+      targetMac: 'FF:FF:FF:FF:FF:FF',
+      sourceIp: group.virtualIp,
+      targetIp: group.virtualIp,
+      vlanTag: iface.encapsulation?.vlanId ?? iface.sviVlan,
+      size: this.getDefaultPacketSize(PacketType.ARP),
+      timestamp: new Date(),
+      ttl: 64,
+      protocol: NetworkProtocol.ARP,
+      payload: { op: 'request', gratuitous: true },
+    });
+    // An SVI's announcement is flooded through the switchports of its VLAN
+    announcement.viaConnection = iface.sviVlan === undefined ? this.getConnectionOnPort(device, iface.id)?.id : undefined;
+    this.sendPacket(announcement);
   }
 
   /**
-   * Helper methods for packet creation
+   * Remember where an address is: in the ARP table for IPv4, in the neighbor cache for IPv6
    */
-  private getDeviceMacAddress(device: NetworkDevice): string {
-    if ('interface' in device && device.interface) {
-      return device.interface.macAddress;
-    }
-    if ('interfaces' in device && device.interfaces && device.interfaces.length > 0) {
-      return device.interfaces[0].macAddress;
+  private learnNeighbor(deviceId: string, ipAddress: string, macAddress: string, ownerId: string, vlan?: number): void {
+    const tables = ipAddress.includes(':') ? this.neighborCaches : this.arpTables;
+    if (!tables.has(deviceId)) {
+      tables.set(deviceId, new Map());
     }
-    return '00:00:00:00:00:00';
+    tables.get(deviceId)!.set(ipAddress, {
+      ipAddress,
+      macAddress,
+      deviceId: ownerId,
+      vlanId: vlan ?? 0,
+      timestamp: new Date(),
+      isStatic: false,
+    });
   }
 
-  private getDeviceIpAddress(device: NetworkDevice): string | undefined {
-    if ('interface' in device && device.interface) {
-      return device.interface.ipAddress;
+  /**
+   * Neighbor discovery at a host or router: answer solicitations for our addresses, learn
+   * neighbors from advertisements, answer router solicitations and autoconfigure from router
+   * advertisements
+   */
+  private receiveNdp(packet: SimulatedPacket, device: NetworkDevice): void {
+    const ingress = this.getIngressInterface(packet, device);
+    const connection = ingress ? this.getConnectionOnPort(device, ingress.id) : undefined;
+    const target: string | undefined = packet.payload?.target;
+    if (!ingress || !connection) {
+      this.filterPacket(packet, `${packet.ndpType} arrived on a port that is not connected`);
+      return;
     }
-    if ('interfaces' in device && device.interfaces && device.interfaces.length > 0) {
-      return device.interfaces.find((iface: any) => iface.ipAddress)?.ipAddress;
+
+    switch (packet.ndpType) {
+      case NdpType.NEIGHBOR_SOLICITATION:
+        if (!target || !this.ownsIp(device, target)) {
+          this.filterPacket(packet, `neighbor solicitation for ${target ?? 'unknown address'} is not ours`);
+          return;
+        }
+        this.learnNeighbor(device.id, packet.sourceIp!, packet.sourceMac, packet.sourceDevice, packet.vlanTag);
+        this.sendNdp(device, ingress, connection, {
+          ndpType: NdpType.NEIGHBOR_ADVERTISEMENT,
+          sourceIp: target,
+          targetIp: packet.sourceIp!,
+          targetMac: packet.sourceMac,
+          targetDevice: packet.sourceDevice,
+          payload: { target },
+          vlanTag: packet.vlanTag,
+        });
+        this.deliverPacket(packet, `neighbor solicitation for ${target} answered`);
+        return;
+      case NdpType.NEIGHBOR_ADVERTISEMENT:
+        if (target) {
+          this.learnNeighbor(device.id, target, packet.sourceMac, packet.sourceDevice, packet.vlanTag);
+        }
+        this.deliverPacket(packet, `neighbor advertisement: ${target ?? 'unknown address'} is at ${packet.sourceMac}`);
+        return;
+      case NdpType.ROUTER_SOLICITATION:
+        if (device.type !== DeviceType.ROUTER) {
+          this.deliverPacket(packet, 'router solicitation ignored; only routers answer it');
+          return;
+        }
+        this.sendRouterAdvertisement(device as RouterDevice, ingress, connection);
+        this.deliverPacket(packet, `router solicitation answered with a router advertisement out ${ingress.name}`);
+        return;
+      case NdpType.ROUTER_ADVERTISEMENT:
+        this.receiveRouterAdvertisement(packet, device, ingress);
+        return;
+      default:
+        this.deliverPacket(packet, 'neighbor discovery message received');
     }
-    return undefined;
   }
 
-  private getDefaultPacketSize(packetType: PacketType): number {
-    switch (packetType) {
-      case PacketType.ARP: return 42;
-      case PacketType.ICMP: return 98;
-      case PacketType.TCP: return 1500;
-      case PacketType.UDP: return 512;
-      default: return 64;
+  /**
+   * SLAAC: a host interface with ipv6 address autoconfig forms an EUI-64 address in every
+   * advertised /64 prefix, and any host takes the first router it hears as its default router
+   */
+  private receiveRouterAdvertisement(packet: SimulatedPacket, device: NetworkDevice, ingress: NetworkInterface): void {
+    if (device.type === DeviceType.ROUTER || device.type === DeviceType.FIREWALL) {
+      this.deliverPacket(packet, 'router advertisement received; routers do not autoconfigure');
+      return;
     }
-  }
 
-  private generatePayload(packetType: PacketType, protocol: NetworkProtocol): any {
-    return {
-      type: packetType,
-      protocol,
-      data: `Simulated ${protocol} packet`,
-    };
+    const prefixes: Array<{ prefix: string; prefixLength: number }> = packet.payload?.prefixes ?? [];
+    const learned: Ipv6InterfaceAddress[] = ingress.ipv6Autoconfig
+      ? prefixes
+          .filter(p => p.prefixLength === 64)
+          .map(p => ({ address: IPv6AddressUtils.eui64Address(p.prefix, ingress.macAddress), prefixLength: 64, origin: 'slaac' }))
+      : [];
+    const states = this.slaacStates.get(device.id) ?? new Map<string, SlaacState>();
+    this.slaacStates.set(device.id, states);
+    const state = states.get(ingress.id) ?? { addresses: [] };
+    learned
+      .filter(a => !state.addresses.some(known => known.address === a.address))
+      .forEach(a => state.addresses.push(a));
+    state.defaultRouter = state.defaultRouter ?? packet.sourceIp;
+    states.set(ingress.id, state);
+    this.learnNeighbor(device.id, packet.sourceIp!, packet.sourceMac, packet.sourceDevice, packet.vlanTag);
+
+    const configured = learned.length > 0
+      ? `autoconfigured ${learned.map(a => `${a.address}/${a.prefixLength}`).join(', ')}`
+      : 'no address autoconfiguration on this interface';
+    this.deliverPacket(packet, `router advertisement from ${packet.sourceIp}: ${configured}, default router ${state.defaultRouter}`);
   }
 
-  private protocolToPacketType(protocol: NetworkProtocol): PacketType {
-    switch (protocol) {
-      case NetworkProtocol.ARP: return PacketType.ARP;
-      case NetworkProtocol.ICMP: return PacketType.ICMP;
-      case NetworkProtocol.TCP: return PacketType.TCP;
-      case NetworkProtocol.UDP: return PacketType.UDP;
-      default: return PacketType.IP;
-    }
+  /**
+   * Multicast a neighbor solicitation for a next hop to its solicited-node group
+   */
+  private sendNeighborSolicitation(
+    device: NetworkDevice,
+    iface: NetworkInterface,
+    connection: Connection,
+    targetIp: string,
+    vlanTag?: number
+  ): void {
+    const addresses = this.getInterfaceIpv6Addresses(device, iface);
+    const source = addresses.find(a => a.origin !== 'link-local' && IPv6AddressUtils.isInPrefix(targetIp, a.address, a.prefixLength))
+      ?? addresses[0];
+    const group = IPv6AddressUtils.solicitedNodeAddress(targetIp);
+    this.sendNdp(device, iface, connection, {
+      ndpType: NdpType.NEIGHBOR_SOLICITATION,
+      sourceIp: source?.address ?? '::',
+      targetIp: group,
+      targetMac: IPv6AddressUtils.multicastMac(group),
+      payload: { target: targetIp },
+      vlanTag,
+    });
   }
 
   /**
-   * Enhanced VLAN-aware packet routing with MAC learning
+   * Ask the routers on a link to advertise their prefixes
    */
-  private enhancedCalculatePacketPath(packet: SimulatedPacket): string[] {
-    const sourceDevice = this.devices.find(d => d.id === packet.sourceDevice);
-    const targetDevice = this.devices.find(d => d.id === packet.targetDevice);
+  private sendRouterSolicitation(device: NetworkDevice, iface: NetworkInterface, connection: Connection, vlanTag?: number): void {
+    this.sendNdp(device, iface, connection, {
+      ndpType: NdpType.ROUTER_SOLICITATION,
+      sourceIp: IPv6AddressUtils.getInterfaceAddresses(iface)[0]?.address ?? '::',
+      targetIp: IPv6AddressUtils.ALL_ROUTERS,
+      targetMac: IPv6AddressUtils.multicastMac(IPv6AddressUtils.ALL_ROUTERS),
+      payload: {},
+      vlanTag,
+    });
+  }
 
-    if (!sourceDevice || !targetDevice) {
-      return [];
-    }
+  /**
+   * Advertise the prefixes of an interface to all nodes on its link, from its link-local address
+   */
+  private sendRouterAdvertisement(router: RouterDevice, iface: NetworkInterface, connection: Connection): void {
+    const addresses = IPv6AddressUtils.getInterfaceAddresses(iface);
+    if (addresses.length === 0) return;
+
+    const prefixes = addresses
+      .filter(a => a.origin !== 'link-local')
+      .map(a => ({ prefix: IPv6AddressUtils.getPrefix(a.address, a.prefixLength), prefixLength: a.prefixLength }));
+    this.sendNdp(router, iface, connection, {
+      ndpType: NdpType.ROUTER_ADVERTISEMENT,
+      sourceIp: addresses[0].address,
+      targetIp: IPv6AddressUtils.ALL_NODES,
+      targetMac: IPv6AddressUtils.multicastMac(IPv6AddressUtils.ALL_NODES),
+      payload: { prefixes, routerLifetime: 1800 },
+    });
+  }
 
-    // For ARP packets, use broadcast behavior
-    if (packet.protocol === NetworkProtocol.ARP) {
-      return this.calculateARPPath(packet, sourceDevice);
-    }
+  /**
+   * Unsolicited router advertisements out of every connected IPv6 interface of routers with ipv6 unicast-routing
+   */
+  private sendRouterAdvertisements(): void {
+    this.devices
+      .filter((d): d is RouterDevice => d.type === DeviceType.ROUTER && !!(d as RouterDevice).ipv6UnicastRouting)
+      .forEach(router => router.interfaces
+        .filter(iface => iface.status === InterfaceStatus.UP)
+        .forEach(iface => {
+          const connection = this.getConnectionOnPort(router, iface.id);
+          if (connection) {
+            this.sendRouterAdvertisement(router, iface, connection);
+          }
+        }));
+  }
 
-    // For regular packets, use learned MAC addresses
-    return this.calculateLearnedPath(packet, sourceDevice, targetDevice);
+  /**
+   * Put a neighbor discovery message on the link an interface is plugged into
+   */
+  private sendNdp(device: NetworkDevice, iface: NetworkInterface, connection: Connection, message: NdpMessage): void {
+    const packet = this.createSimulatedPacket({
+      id: crypto.randomUUID(),
+      type: IPv6AddressUtils.isMulticast(message.targetIp) ? PacketType.MULTICAST : PacketType.ICMP,
+      sourceDevice: device.id,
+      targetDevice: message.targetDevice ?? '',
+      sourceMac: iface.macAddress,
+      targetMac: message.targetMac,
+      sourceIp: message.sourceIp,
+      targetIp: message.targetIp,
+      vlanTag: device.type === DeviceType.ROUTER || device.type === DeviceType.FIREWALL ? iface.encapsulation?.vlanId : message.vlanTag,
+      size: 86,
+      timestamp: new Date(),
+      ttl: 255, // hop limit 255: neighbor discovery is never routed
+      ndpType: message.ndpType,
+      ipVersion: 6,
+      protocol: NetworkProtocol.NDP,
+      payload: message.payload,
+    });
+    packet.viaConnection = connection.id;
+    this.sendPacket(packet);
   }
 
   /**
-   * Calculate path for ARP packets (broadcast in VLAN)
+   * Run the DHCP client of every host interface set to ip address dhcp that is up and
+   * connected, sending whatever its timers call for
    */
-  private calculateARPPath(packet: SimulatedPacket, sourceDevice: NetworkDevice): string[] {
-    const vlanId = packet.vlanTag || 1;
-    const reachableDevices = this.getVlanReachableDevices(sourceDevice.id, vlanId);
-    
-    // ARP should reach all devices in the same VLAN
-    return reachableDevices.filter(deviceId => deviceId !== sourceDevice.id);
+  private runDhcpClients(): void {
+    this.devices.forEach(device => {
+      if (device.type !== DeviceType.PC && device.type !== DeviceType.SERVER) return;
+      this.getDeviceInterfaces(device).forEach(iface => {
+        if (!iface.dhcpClient || iface.ipAddress || iface.status !== InterfaceStatus.UP) return;
+        if (!this.getConnectionOnPort(device, iface.id)) return;
+        const send = this.dhcp.clientTick(device.id, iface.id, iface.macAddress);
+        if (send) {
+          this.sendDhcp(device, send, send.message.ciaddr ?? '0.0.0.0', DHCP_PORTS, iface);
+        }
+      });
+    });
   }
 
   /**
-   * Calculate path using MAC address learning
+   * DHCP message at a host or router: servers and relay agents take client messages, relay
+   * agents pass server messages back to the client's segment, clients act on the rest
    */
-  private calculateLearnedPath(packet: SimulatedPacket, sourceDevice: NetworkDevice, targetDevice: NetworkDevice): string[] {
-    // Learn source MAC address
-    this.learnMacAddress(sourceDevice.id, packet.sourceMac, packet.vlanTag || 1);
+  private receiveDhcp(packet: SimulatedPacket, device: NetworkDevice): void {
+    const message = packet.payload as DhcpMessage;
+    const type = packet.dhcpType!;
+    if (DHCP_CLIENT_MESSAGES.includes(type)) {
+      this.serveDhcp(packet, device, message);
+      return;
+    }
 
-    // Look up target MAC in forwarding tables
-    const path = this.lookupMacForwarding(packet.targetMac, sourceDevice.id, packet.vlanTag || 1);
-    
-    if (path.length === 0) {
-      // Unknown unicast - flood in VLAN
-      const reachableDevices = this.getVlanReachableDevices(sourceDevice.id, packet.vlanTag || 1);
-      return reachableDevices.filter(deviceId => deviceId !== sourceDevice.id);
+    const toClientPort = { source: DHCP_PORTS.target, target: DHCP_PORTS.source };
+    const relayIface = packet.targetPort === DHCP_PORTS.target && message.giaddr
+      ? this.getDeviceInterfaces(device).find(i => this.getInterfaceIpAddress(device, i)?.split('/')[0] === message.giaddr)
+      : undefined;
+    if (relayIface) {
+      this.deliverPacket(packet, `DHCP ${type} for ${message.chaddr} relayed back out ${relayIface.name}`);
+      this.sendDhcp(
+        device,
+        { type, message, reason: `relaying ${type} from ${packet.sourceIp} to the clients on ${relayIface.name}` },
+        message.giaddr!,
+        toClientPort,
+        relayIface
+      );
+      return;
     }
 
-    return path;
+    const client = this.getDeviceInterfaces(device).find(
+      i => i.dhcpClient && i.macAddress?.toLowerCase() === message.chaddr.toLowerCase()
+    );
+    if (!client) {
+      this.deliverPacket(packet, `DHCP ${type} for ${message.chaddr} ignored`);
+      return;
+    }
+    const outcome = this.dhcp.clientReceive(device.id, client.id, type, message, ip => this.isAddressInUse(ip, client.macAddress));
+    this.deliverPacket(packet, `DHCP ${type}: ${outcome.reason}`);
+    if (outcome.reply) {
+      this.sendDhcp(device, outcome.reply, '0.0.0.0', DHCP_PORTS, client);
+    }
   }
 
   /**
-   * Learn MAC address on switch interfaces
+   * Client message at a router or server: answer it from the pool for the client's subnet,
+   * or relay a broadcast to the helper addresses of the interface it arrived on. The pool
+   * is chosen by the relay agent address, else by the receiving interface, else (for a
+   * unicast renewal) by the client's own address.
    */
-  private learnMacAddress(deviceId: string, macAddress: string, vlanId: number, interfaceId?: string): void {
-    const device = this.devices.find(d => d.id === deviceId);
-    if (!device || device.type !== DeviceType.SWITCH) {
+  private serveDhcp(packet: SimulatedPacket, device: NetworkDevice, message: DhcpMessage): void {
+    const type = packet.dhcpType!;
+    const ingress = this.getIngressInterface(packet, device);
+    const broadcast = this.isBroadcastMac(packet.targetMac);
+    const ingressIp = ingress ? this.getInterfaceIpAddress(device, ingress)?.split('/')[0] : undefined;
+    const serverIp = broadcast ? ingressIp : packet.targetIp;
+    const subnetIp = message.giaddr ?? (broadcast ? ingressIp : message.ciaddr ?? serverIp);
+    // An attacker posing as a server answers from the pool it made up
+    const rogue = this.rogueDhcpServers.get(device.id);
+    const server = rogue
+      ? { ...device, dhcpServer: rogue } as ServerDevice
+      : device.type === DeviceType.ROUTER || device.type === DeviceType.SERVER ? device as RouterDevice | ServerDevice : undefined;
+
+    if (server?.dhcpServer && serverIp && subnetIp && this.dhcp.findPool(server.dhcpServer, subnetIp)) {
+      const outcome = this.dhcp.serve(server, type, message, { serverIp, subnetIp, inUse: ip => this.isAddressInUse(ip) });
+      this.deliverPacket(packet, `DHCP ${type} from ${message.chaddr}: ${outcome.reason}`);
+      const reply = outcome.reply;
+      if (reply) {
+        // Replies to a relay agent go to its server port, everything else to the client port
+        const toRelay = reply.unicastTo !== undefined && reply.unicastTo === reply.message.giaddr;
+        this.sendDhcp(device, reply, serverIp, { source: DHCP_PORTS.target, target: toRelay ? DHCP_PORTS.target : DHCP_PORTS.source }, ingress);
+      }
       return;
     }
 
-    if (!this.macTables.has(deviceId)) {
-      this.macTables.set(deviceId, new Map());
+    const helpers = device.type === DeviceType.ROUTER && broadcast && ingressIp ? ingress?.helperAddresses ?? [] : [];
+    if (helpers.length > 0) {
+      const giaddr = message.giaddr ?? ingressIp!;
+      this.deliverPacket(packet, `DHCP ${type} from ${message.chaddr} relayed to ${helpers.join(', ')}`);
+      helpers.forEach(helper => this.sendDhcp(
+        device,
+        { type, message: { ...message, giaddr }, unicastTo: helper, reason: `relaying ${type} to ${helper} with giaddr ${giaddr}` },
+        ingressIp!,
+        { source: DHCP_PORTS.target, target: DHCP_PORTS.target }
+      ));
+      return;
     }
 
-    const macTable = this.macTables.get(deviceId)!;
-    const entry: EnhancedMacEntry = {
-      macAddress,
-      vlanId,
-      interface: interfaceId || 'unknown',
-      type: 'dynamic',
-      age: 0,
-      learnedFrom: interfaceId || 'unknown',
+    this.deliverPacket(
+      packet,
+      `DHCP ${type} from ${message.chaddr} ignored: ${server?.dhcpServer ? `no pool for the subnet of ${subnetIp}` : 'no DHCP server or relay agent here'}`
+    );
+  }
+
+  /**
+   * Put a DHCP message on the network: unicasts are routed like any other packet, broadcasts
+   * go out of one interface only
+   */
+  private sendDhcp(
+    device: NetworkDevice,
+    send: DhcpSend,
+    sourceIp: string,
+    ports: { source: number; target: number },
+    iface?: NetworkInterface
+  ): void {
+    const unicastTo = send.unicastTo;
+    const connection = iface ? this.getConnectionOnPort(device, iface.id) : undefined;
+    if (!unicastTo && !connection) return;
+
+    const target = unicastTo ? this.devices.find(d => this.ownsIp(d, unicastTo)) : undefined;
+    const packet = this.createSimulatedPacket({
+      id: crypto.randomUUID(),
+      type: unicastTo ? PacketType.UDP : PacketType.BROADCAST,
+      sourceDevice: device.id,
+      targetDevice: target?.id ?? '',
+      sourceMac: iface?.macAddress ?? this.getDeviceMacAddress(device),
+      targetMac: unicastTo ? (target ? this.getDeviceMacAddress(target) : '00:00:00:00:00:00') : 'FF:FF:FF:FF:FF:FF',
+      sourceIp,
+      targetIp: unicastTo ?? '255.255.255.255',
+      vlanTag: unicastTo ? undefined : iface?.encapsulation?.vlanId,
+      size: 342,
       timestamp: new Date(),
-      isStatic: false,
-    };
+      ttl: 64,
+      sourcePort: ports.source,
+      targetPort: ports.target,
+      dhcpType: send.type,
+      protocol: NetworkProtocol.DHCP,
+      payload: send.message,
+    });
+    if (!unicastTo) {
+      packet.viaConnection = connection!.id;
+    }
+    this.sendPacket(packet);
+    this.recordDecision(packet, ForwardingAction.DHCP, send.reason);
+  }
 
-    macTable.set(macAddress, entry);
+  /**
+   * Whether an address answers on the network: what a server pings before offering it and a
+   * client ARPs for before using it. The asking client's own interface does not count.
+   */
+  private isAddressInUse(ip: string, exceptMac?: string): boolean {
+    return this.devices.some(device => this.getDeviceInterfaces(device).some(
+      iface => iface.macAddress !== exceptMac && this.getInterfaceIpAddress(device, iface)?.split('/')[0] === ip
+    ));
+  }
+
+  private isDhcpClient(device: NetworkDevice): boolean {
+    return this.getDeviceInterfaces(device).some(iface => iface.dhcpClient && !iface.ipAddress);
   }
 
   /**
-   * Get devices reachable in the same VLAN
+   * Whether a device has joined the IPv6 multicast group a frame is sent to: all-nodes,
+   * all-routers on routers that route IPv6, and the solicited-node group of each of its addresses
    */
-  private getVlanReachableDevices(sourceDeviceId: string, vlanId: number): string[] {
-    const reachable = new Set<string>();
-    const queue = [sourceDeviceId];
-    const visited = new Set<string>();
+  private listensTo(device: NetworkDevice, packet: SimulatedPacket): boolean {
+    const group = packet.targetIp;
+    if (!group || !IPv6AddressUtils.isMulticastMac(packet.targetMac) || !IPv6AddressUtils.isMulticast(group)) return false;
+
+    const addresses = this.getDeviceInterfaces(device).flatMap(i => this.getInterfaceIpv6Addresses(device, i));
+    if (addresses.length === 0) return false;
+    if (group === IPv6AddressUtils.ALL_NODES) return true;
+    if (group === IPv6AddressUtils.ALL_ROUTERS) {
+      return device.type === DeviceType.ROUTER && !!(device as RouterDevice).ipv6UnicastRouting;
+    }
+    return addresses.some(a => IPv6AddressUtils.solicitedNodeAddress(a.address) === group);
+  }
 
-    while (queue.length > 0) {
-      const currentDevice = queue.shift()!;
-      if (visited.has(currentDevice)) {
-        continue;
-      }
-      visited.add(currentDevice);
-      reachable.add(currentDevice);
+  /**
+   * Device helpers: interfaces, addresses and the links attached to them
+   */
+  private getDeviceInterfaces(device: NetworkDevice): NetworkInterface[] {
+    if ('interface' in device && device.interface) {
+      return [device.interface];
+    }
+    return 'interfaces' in device && device.interfaces ? device.interfaces : [];
+  }
 
-      // Find connected devices that support this VLAN
-      this.connections.forEach(conn => {
-        let nextDevice: string | undefined;
-        
-        if (conn.sourceDevice === currentDevice) {
-          nextDevice = conn.targetDevice;
-        } else if (conn.targetDevice === currentDevice) {
-          nextDevice = conn.sourceDevice;
-        }
+  private getIngressInterface(packet: SimulatedPacket, device: NetworkDevice): NetworkInterface | undefined {
+    const port = packet.currentPosition.interfaceId;
+    return port ? this.findPort(device, port) : undefined;
+  }
 
-        if (nextDevice && !visited.has(nextDevice)) {
-          if (this.isVlanAllowedOnConnection(conn, vlanId)) {
-            queue.push(nextDevice);
-          }
-        }
-      });
+  private findPort(device: NetworkDevice, portRef: string): NetworkInterface | undefined {
+    return this.getDeviceInterfaces(device).find(i => i.id === portRef || i.name === portRef);
+  }
+
+  /**
+   * MAC addresses of a device's interfaces, and the virtual MACs of the groups it is active for
+   */
+  private ownsMac(device: NetworkDevice, mac: string): boolean {
+    return this.getDeviceInterfaces(device).some(i => i.macAddress?.toLowerCase() === mac.toLowerCase()) ||
+      !!this.fhrp.findActiveGroupByMac(device.id, mac);
+  }
+
+  private ownsIp(device: NetworkDevice, ip: string): boolean {
+    if (ip.includes(':')) {
+      const address = IPv6AddressUtils.normalize(ip);
+      return this.getDeviceInterfaces(device).some(
+        i => this.getInterfaceIpv6Addresses(device, i).some(a => a.address === address)
+      );
+    }
+    return this.getDeviceInterfaces(device).some(i => this.getInterfaceIpAddress(device, i)?.split('/')[0] === ip) ||
+      !!this.fhrp.findActiveGroupByIp(device.id, ip);
+  }
+
+  private getDeviceConnections(deviceId: string): Connection[] {
+    return this.connections.filter(conn => conn.sourceDevice === deviceId || conn.targetDevice === deviceId);
+  }
+
+  /**
+   * Links a device floods frames onto: on a multilayer switch only those on switchports
+   */
+  private getSwitchedConnections(device: NetworkDevice): Connection[] {
+    return this.getDeviceConnections(device.id).filter(conn => {
+      if (device.type !== DeviceType.MULTILAYER_SWITCH) return true;
+      const port = this.findPort(device, conn.sourceDevice === device.id ? conn.sourceInterface : conn.targetInterface);
+      return !!port && isSwitchport(port);
+    });
+  }
+
+  /**
+   * Connection plugged into a port; connections may refer to the interface by id or by name
+   */
+  private getConnectionOnPort(device: NetworkDevice, portRef: string): Connection | undefined {
+    const found = this.getDeviceInterfaces(device).find(i => i.id === portRef || i.name === portRef);
+    // Subinterfaces are plugged in through their physical interface
+    const iface = found?.parentInterface ? this.findPort(device, found.parentInterface) : found;
+    const refs = [portRef, iface?.id, iface?.name];
+    return this.connections.find(conn =>
+      (conn.sourceDevice === device.id && refs.includes(conn.sourceInterface)) ||
+      (conn.targetDevice === device.id && refs.includes(conn.targetInterface))
+    );
+  }
+
+  private portName(device: NetworkDevice, portRef: string): string {
+    return this.getDeviceInterfaces(device).find(i => i.id === portRef || i.name === portRef)?.name ?? portRef;
+  }
+
+  /**
+   * Helper methods for packet creation
+   */
+  private getDeviceMacAddress(device: NetworkDevice): string {
+    if ('interface' in device && device.interface) {
+      return device.interface.macAddress;
+    }
+    if ('interfaces' in device && device.interfaces && device.interfaces.length > 0) {
+      return device.interfaces[0].macAddress;
+    }
+    return '00:00:00:00:00:00';
+  }
+
+  private getDeviceIpAddress(device: NetworkDevice): string | undefined {
+    // Interfaces store an address with its prefix (10.0.0.1/24); packets carry the address only
+    const ipAddress = this.getDeviceInterfaces(device)
+      .map(iface => this.getInterfaceIpAddress(device, iface))
+      .find(address => address);
+    return ipAddress ? SubnetCalculator.parseSubnet(ipAddress).network : undefined;
+  }
+
+  /**
+   * IPv4 address of an interface with its prefix: the configured one, or the one leased by
+   * DHCP while the lease lasts
+   */
+  private getInterfaceIpAddress(device: NetworkDevice, iface: NetworkInterface): string | undefined {
+    return iface.ipAddress ?? (iface.dhcpClient ? this.dhcp.getLeasedAddress(device.id, iface.id) : undefined);
+  }
+
+  /**
+   * Configured IPv6 addresses of an interface, link-local first, then those SLAAC added
+   */
+  private getInterfaceIpv6Addresses(device: NetworkDevice, iface: NetworkInterface): Ipv6InterfaceAddress[] {
+    const configured = IPv6AddressUtils.getInterfaceAddresses(iface);
+    return configured.length > 0
+      ? [...configured, ...(this.slaacStates.get(device.id)?.get(iface.id)?.addresses ?? [])]
+      : [];
+  }
+
+  /**
+   * First global IPv6 address of a device, what its IPv6 packets are sent from
+   */
+  private getDeviceIpv6Address(device: NetworkDevice): string | undefined {
+    return this.getDeviceInterfaces(device)
+      .flatMap(iface => this.getInterfaceIpv6Addresses(device, iface))
+      .find(a => a.origin !== 'link-local')?.address;
+  }
+
+  private getDefaultPacketSize(packetType: PacketType): number {
+    switch (packetType) {
+      case PacketType.ARP: return 42;
+      case PacketType.ICMP: return 98;
+      case PacketType.TCP: return 1500;
+      case PacketType.UDP: return 512;
+      default: return 64;
     }
+  }
+
+  private generatePayload(packetType: PacketType, protocol: NetworkProtocol): any {
+    return {
+      type: packetType,
+      protocol,
+      data: `Simulated ${protocol} packet`,
+    };
+  }
 
-    return Array.from(reachable);
+  private protocolToPacketType(protocol: NetworkProtocol): PacketType {
+    switch (protocol) {
+      case NetworkProtocol.ARP: return PacketType.ARP;
+      case NetworkProtocol.ICMP: return PacketType.ICMP;
+      case NetworkProtocol.TCP: return PacketType.TCP;
+      case NetworkProtocol.UDP: return PacketType.UDP;
+      default: return PacketType.IP;
+    }
   }
 
   /**
@@ -1070,9 +2864,9 @@ export class SimulationEngine {
     }
 
     // Helper to check a switch interface allows a VLAN
-    const switchInterfaceAllowsVlan = (sw: SwitchDevice, ifaceId: string | undefined, vlanId: number): boolean => {
+    const switchInterfaceAllowsVlan = (sw: SwitchingDevice, ifaceId: string | undefined, vlanId: number): boolean => {
       if (!ifaceId) return false;
-      const iface = sw.interfaces.find(i => i.id === ifaceId);
+      const iface = sw.interfaces.find(i => i.id === ifaceId || i.name === ifaceId);
       if (!iface || !iface.vlanConfig) return false;
       if (iface.type === InterfaceType.ACCESS) {
         return iface.vlanConfig.accessVlan === vlanId;
@@ -1084,39 +2878,32 @@ export class SimulationEngine {
       return false;
     };
 
+    // A routed port of a multilayer switch ends the VLAN like a router interface does
+    const switchport = (device: NetworkDevice, ifaceId: string): device is SwitchingDevice => {
+      const iface = isSwitchingDevice(device) ? device.interfaces.find(i => i.id === ifaceId || i.name === ifaceId) : undefined;
+      return !!iface && isSwitchport(iface);
+    };
+    const sourceSwitched = switchport(sourceDevice, connection.sourceInterface);
+    const targetSwitched = switchport(targetDevice, connection.targetInterface);
+
     // Switch-to-switch: both sides must allow VLAN
-    if (sourceDevice.type === DeviceType.SWITCH && targetDevice.type === DeviceType.SWITCH) {
-      const sw1 = sourceDevice as SwitchDevice;
-      const sw2 = targetDevice as SwitchDevice;
-      const sw1If = connection.sourceDevice === sw1.id ? connection.sourceInterface : connection.targetInterface;
-      const sw2If = connection.sourceDevice === sw2.id ? connection.sourceInterface : connection.targetInterface;
-      return switchInterfaceAllowsVlan(sw1, sw1If, vlanId) && switchInterfaceAllowsVlan(sw2, sw2If, vlanId);
+    if (sourceSwitched && targetSwitched) {
+      return switchInterfaceAllowsVlan(sourceDevice, connection.sourceInterface, vlanId) &&
+        switchInterfaceAllowsVlan(targetDevice, connection.targetInterface, vlanId);
     }
 
     // Switch-to-host: the switch-side interface must allow VLAN
-    if (sourceDevice.type === DeviceType.SWITCH || targetDevice.type === DeviceType.SWITCH) {
-      const sw = (sourceDevice.type === DeviceType.SWITCH ? sourceDevice : targetDevice) as SwitchDevice;
-      const swIf = sw.id === connection.sourceDevice ? connection.sourceInterface : connection.targetInterface;
-      return switchInterfaceAllowsVlan(sw, swIf, vlanId);
+    if (sourceSwitched) {
+      return switchInterfaceAllowsVlan(sourceDevice, connection.sourceInterface, vlanId);
+    }
+    if (targetSwitched) {
+      return switchInterfaceAllowsVlan(targetDevice, connection.targetInterface, vlanId);
     }
 
     // Host-to-host: VLAN not applicable at L2 in this model
     return true;
   }
 
-  /**
-   * Lookup MAC address in forwarding tables
-   */
-  private lookupMacForwarding(macAddress: string, sourceDeviceId: string, vlanId: number): string[] {
-    // Map MAC to device (end-hosts own MACs). If found, use VLAN-aware path.
-    const targetDevice = this.devices.find(d => this.getDeviceMacAddress(d).toLowerCase() === macAddress.toLowerCase());
-    if (targetDevice) {
-      return this.findVlanAwarePath(sourceDeviceId, targetDevice.id, vlanId);
-    }
-    return [];
-  }
-
-
   /**
    * Age out old MAC and ARP entries
    */
@@ -1217,7 +3004,16 @@ export class SimulationEngine {
 export const createSimulationEngine = (
   devices: NetworkDevice[],
   connections: Connection[],
-  vlans: Vlan[]
+  vlans: Vlan[],
+  spanningTreeEngine?: SpanningTreeEngine,
+  routingEngine?: RoutingEngine,
+  packetProcessor?: PacketProcessingEngine,
+  firewall?: FirewallEngine,
+  nat?: NatEngine,
+  dhcp?: DhcpEngine,
+  snooping?: DhcpSnoopingEngine,
+  portSecurity?: PortSecurityEngine,
+  fhrp?: FhrpEngine
 ): SimulationEngine => {
-  return new SimulationEngine(devices, connections, vlans);
+  return new SimulationEngine(devices, connections, vlans, spanningTreeEngine, routingEngine, packetProcessor, firewall, nat, dhcp, snooping, portSecurity, fhrp);
 };
\ No newline at end of file
@@ -1,5 +1,6 @@
-import { SimulationScenario, TrafficFlow, NetworkProtocol } from '../../types/simulation';
-import { NetworkDevice, DeviceType, Vlan } from '../../types';
+import { SimulationScenario, TrafficFlow, NetworkProtocol, AttackType } from '../../types/simulation';
+import { NetworkDevice, DeviceType, Vlan, FirewallDevice, PcDevice, RouterDevice, ServerDevice } from '../../types';
+import { SubnetCalculator } from '../routing/routingEngine';
 
 /**
  * Predefined simulation scenarios for educational and testing purposes
@@ -286,6 +287,207 @@ export const createTrunkLinkTestScenario = (
   };
 };
 
+/**
+ * Stateful firewall scenario: an inside host opens a web session through the firewall and
+ * its replies come back in, while the same request from an outside host is dropped
+ */
+export const createStatefulFirewallScenario = (devices: NetworkDevice[]): SimulationScenario => {
+  const firewall = devices.find(d => d.type === DeviceType.FIREWALL) as FirewallDevice | undefined;
+  const hosts = devices.filter(d => d.type === DeviceType.PC || d.type === DeviceType.SERVER) as (PcDevice | ServerDevice)[];
+  const hostIps = (host: PcDevice | ServerDevice) =>
+    ('interface' in host ? [host.interface] : host.interfaces).filter(i => i.ipAddress).map(i => i.ipAddress!);
+
+  // A host is in a zone when it sits on the subnet of one of the zone's interfaces
+  const hostInZone = (zoneName?: string) => {
+    const subnets = (firewall?.interfaces ?? [])
+      .filter(i => i.ipAddress && firewall?.zones.find(z => z.name === zoneName)?.interfaces.includes(i.name))
+      .map(i => SubnetCalculator.parseSubnet(i.ipAddress!));
+    return hosts.find(host => hostIps(host).some(ip => subnets.some(subnet =>
+      SubnetCalculator.isInSameSubnet(SubnetCalculator.parseSubnet(ip).network, subnet.network, subnet.mask)
+    )));
+  };
+
+  const pair = firewall?.zonePairs.find(p => p.rules.some(rule => rule.action === 'inspect'));
+  const inside = hostInZone(pair?.source) ?? hosts[0];
+  const outside = hostInZone(pair?.destination) ?? hosts.find(host => host.id !== inside?.id);
+  const web = (source: NetworkDevice, target: NetworkDevice): TrafficFlow => ({
+    id: crypto.randomUUID(),
+    sourceDevice: source.id,
+    targetDevice: target.id,
+    protocol: NetworkProtocol.HTTP,
+    packetsPerSecond: 1,
+    averagePacketSize: 64,
+    duration: 30,
+    isActive: true,
+  });
+
+  return {
+    id: crypto.randomUUID(),
+    name: 'Stateful Firewall Test',
+    description: `Web sessions through ${firewall?.name ?? 'the firewall'}: ${inside?.name ?? 'inside'} to ${outside?.name ?? 'outside'} and back`,
+    topology: 'current',
+    trafficFlows: inside && outside ? [web(inside, outside), web(outside, inside)] : [],
+    duration: 30,
+    objectives: [
+      'Open a TCP session from the inside zone and see it in the firewall session table',
+      'Watch the SYN+ACK reply pass back in as return traffic',
+      'See the SYN from the outside host dropped by the zone-pair policy',
+    ],
+  };
+};
+
+const hasIpv6 = (device: NetworkDevice): boolean =>
+  (device.type === DeviceType.PC ? [(device as PcDevice).interface] : (device as ServerDevice).interfaces ?? [])
+    .some(i => (i.ipv6Addresses?.length ?? 0) > 0 || i.ipv6Enabled || i.ipv6Autoconfig);
+
+/**
+ * Dual-stack scenario: the same pair of hosts pings over IPv4 and IPv6 side by side, so
+ * ARP and neighbor discovery (and SLAAC, where hosts autoconfigure) can be compared
+ */
+export const createDualStackScenario = (devices: NetworkDevice[]): SimulationScenario => {
+  const hosts = devices.filter(d => (d.type === DeviceType.PC || d.type === DeviceType.SERVER) && hasIpv6(d));
+  const [source, target] = hosts;
+  const ping = (ipVersion: 4 | 6): TrafficFlow => ({
+    id: crypto.randomUUID(),
+    sourceDevice: source.id,
+    targetDevice: target.id,
+    protocol: NetworkProtocol.ICMP,
+    ipVersion,
+    packetsPerSecond: 1,
+    averagePacketSize: 64,
+    duration: 30,
+    isActive: true,
+  });
+
+  return {
+    id: crypto.randomUUID(),
+    name: 'Dual-Stack Ping Test',
+    description: `IPv4 and IPv6 pings between ${source?.name ?? 'two hosts'} and ${target?.name ?? 'each other'}`,
+    topology: 'current',
+    trafficFlows: source && target ? [ping(4), ping(6)] : [],
+    duration: 30,
+    objectives: [
+      'Resolve the IPv4 next hop with ARP and the IPv6 next hop with neighbor solicitation',
+      'See autoconfiguring hosts learn their address and default router from a router advertisement',
+      'Compare the paths both address families take through the same VLANs',
+    ],
+  };
+};
+
+const hostInterfaces = (host: NetworkDevice) =>
+  host.type === DeviceType.PC ? [(host as PcDevice).interface] : (host as ServerDevice).interfaces ?? [];
+
+const isDhcpClient = (device: NetworkDevice): boolean => hostInterfaces(device).some(i => i.dhcpClient);
+
+const hasDhcpServer = (devices: NetworkDevice[]): boolean =>
+  devices.some(d => (d.type === DeviceType.ROUTER || d.type === DeviceType.SERVER) && !!(d as RouterDevice | ServerDevice).dhcpServer);
+
+/**
+ * Victim of a layer 2 attack, a host that gets its address from DHCP, and the attacker,
+ * another host with a static address
+ */
+const pickAttackHosts = (devices: NetworkDevice[]): { victim?: NetworkDevice; attacker?: NetworkDevice } => {
+  const hosts = devices.filter(d => d.type === DeviceType.PC || d.type === DeviceType.SERVER);
+  const victim = hosts.find(isDhcpClient);
+  const attacker = hosts.find(h => h.id !== victim?.id && hostInterfaces(h).some(i => i.ipAddress));
+  return { victim, attacker };
+};
+
+const attackFlow = (attacker: NetworkDevice, victim: NetworkDevice, attack: AttackType, packetsPerSecond: number = 1): TrafficFlow => ({
+  id: crypto.randomUUID(),
+  sourceDevice: attacker.id,
+  targetDevice: victim.id,
+  protocol: attack === AttackType.ARP_SPOOFING ? NetworkProtocol.ARP : NetworkProtocol.DHCP,
+  packetsPerSecond,
+  averagePacketSize: attack === AttackType.ARP_SPOOFING ? 64 : 342,
+  duration: 30,
+  isActive: true,
+  attack,
+});
+
+/**
+ * Rogue DHCP server scenario: a host answers a client's DHCP requests and names itself the
+ * default router. DHCP snooping drops its offers on untrusted ports.
+ */
+export const createRogueDhcpScenario = (devices: NetworkDevice[]): SimulationScenario => {
+  const { victim, attacker } = pickAttackHosts(devices);
+
+  return {
+    id: crypto.randomUUID(),
+    name: 'Rogue DHCP Server',
+    description: `${attacker?.name ?? 'A host'} answers the DHCP requests of ${victim?.name ?? 'a DHCP client'} as a rogue server`,
+    topology: 'current',
+    trafficFlows: victim && attacker ? [attackFlow(attacker, victim, AttackType.ROGUE_DHCP)] : [],
+    duration: 30,
+    objectives: [
+      'Without DHCP snooping, see the client take the rogue offer and the attacker as its default router',
+      'With ip dhcp snooping on the client VLAN, see the rogue OFFER dropped on the untrusted port',
+      'Trust the port towards the real server and watch the binding appear in show ip dhcp snooping binding',
+    ],
+  };
+};
+
+/**
+ * ARP spoofing scenario: a host tells a DHCP client that its default gateway is at the
+ * host's MAC address, while the client pings through the gateway. Dynamic ARP inspection
+ * drops the spoofed reply.
+ */
+export const createArpSpoofingScenario = (devices: NetworkDevice[]): SimulationScenario => {
+  const { victim, attacker } = pickAttackHosts(devices);
+  const target = devices.find(d => d.type === DeviceType.ROUTER)
+    ?? devices.find(d => (d.type === DeviceType.PC || d.type === DeviceType.SERVER) && d.id !== victim?.id && d.id !== attacker?.id);
+  const flows: TrafficFlow[] = victim && attacker ? [attackFlow(attacker, victim, AttackType.ARP_SPOOFING)] : [];
+  if (victim && target) {
+    flows.push({
+      id: crypto.randomUUID(),
+      sourceDevice: victim.id,
+      targetDevice: target.id,
+      protocol: NetworkProtocol.ICMP,
+      packetsPerSecond: 1,
+      averagePacketSize: 64,
+      duration: 30,
+      isActive: true,
+    });
+  }
+
+  return {
+    id: crypto.randomUUID(),
+    name: 'ARP Spoofing',
+    description: `${attacker?.name ?? 'A host'} poisons the ARP table of ${victim?.name ?? 'a DHCP client'} for its default gateway`,
+    topology: 'current',
+    trafficFlows: flows,
+    duration: 30,
+    objectives: [
+      'Without ARP inspection, see the spoofed reply accepted and the ping sent to the attacker',
+      'With ip arp inspection on the VLAN, see the reply dropped for lack of a DHCP snooping binding',
+      'Trust the router port so the real gateway can still answer ARP',
+    ],
+  };
+};
+
+/**
+ * DHCP starvation scenario: a host floods the server with DISCOVERs for made-up hardware
+ * addresses until its pool is empty, then a real client asks for an address. DHCP snooping
+ * drops DISCOVERs whose client hardware address is not the sender's MAC.
+ */
+export const createDhcpStarvationScenario = (devices: NetworkDevice[]): SimulationScenario => {
+  const { victim, attacker } = pickAttackHosts(devices);
+
+  return {
+    id: crypto.randomUUID(),
+    name: 'DHCP Starvation',
+    description: `${attacker?.name ?? 'A host'} drains the DHCP pool before ${victim?.name ?? 'a DHCP client'} can lease an address`,
+    topology: 'current',
+    trafficFlows: victim && attacker ? [attackFlow(attacker, victim, AttackType.DHCP_STARVATION, 50)] : [],
+    duration: 30,
+    objectives: [
+      'Without DHCP snooping, see every address offered to made-up clients and the real client left without one',
+      'With ip dhcp snooping and verify mac-address, see the forged DISCOVERs dropped at the access port',
+      'Compare show ip dhcp pool on the server after each run',
+    ],
+  };
+};
+
 /**
  * Get all available scenario generators
  */
@@ -297,6 +499,11 @@ export const scenarioGenerators = {
   stressTest: createStressTestScenario,
   latencyTest: createLatencyTestScenario,
   trunkTest: createTrunkLinkTestScenario,
+  statefulFirewall: createStatefulFirewallScenario,
+  dualStack: createDualStackScenario,
+  rogueDhcp: createRogueDhcpScenario,
+  arpSpoofing: createArpSpoofingScenario,
+  dhcpStarvation: createDhcpStarvationScenario,
 };
 
 /**
@@ -308,6 +515,7 @@ export const getRecommendedScenarios = (
 ): { scenario: string; description: string; applicable: boolean }[] => {
   const endDevices = devices.filter(d => d.type === DeviceType.PC || d.type === DeviceType.SERVER);
   const switches = devices.filter(d => d.type === DeviceType.SWITCH);
+  const attackHosts = pickAttackHosts(devices);
   
   return [
     {
@@ -345,6 +553,31 @@ export const getRecommendedScenarios = (
       description: 'Trunk link and VLAN tagging test',
       applicable: switches.length >= 2 && vlans.length >= 1,
     },
+    {
+      scenario: 'statefulFirewall',
+      description: 'Inside-initiated sessions pass a firewall, outside-initiated ones are dropped',
+      applicable: endDevices.length >= 2 && devices.some(d => d.type === DeviceType.FIREWALL),
+    },
+    {
+      scenario: 'dualStack',
+      description: 'IPv4 and IPv6 pings side by side between two IPv6-enabled hosts',
+      applicable: endDevices.filter(hasIpv6).length >= 2,
+    },
+    {
+      scenario: 'rogueDhcp',
+      description: 'A host answers DHCP as a rogue server; DHCP snooping drops its offers',
+      applicable: switches.length >= 1 && !!attackHosts.victim && !!attackHosts.attacker,
+    },
+    {
+      scenario: 'arpSpoofing',
+      description: 'A host spoofs ARP for the default gateway; dynamic ARP inspection drops it',
+      applicable: switches.length >= 1 && !!attackHosts.victim && !!attackHosts.attacker,
+    },
+    {
+      scenario: 'dhcpStarvation',
+      description: 'A host drains the DHCP pool with forged DISCOVERs; DHCP snooping drops them',
+      applicable: switches.length >= 1 && !!attackHosts.victim && !!attackHosts.attacker && hasDhcpServer(devices),
+    },
   ];
 };
 
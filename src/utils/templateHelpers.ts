@@ -39,6 +39,8 @@ export function stringToDeviceType(type: string): DeviceType {
     case 'router': return DeviceType.ROUTER;
     case 'pc': return DeviceType.PC;
     case 'server': return DeviceType.SERVER;
+    case 'firewall': return DeviceType.FIREWALL;
+    case 'multilayer-switch': return DeviceType.MULTILAYER_SWITCH;
     default: return DeviceType.PC;
   }
 }
@@ -1,6 +1,7 @@
 import {
   NetworkDevice,
   SwitchDevice,
+  SwitchingDevice,
   NetworkInterface,
   InterfaceType,
   InterfaceStatus,
@@ -9,6 +10,8 @@ import {
   VlanStatus,
   Connection,
 } from '../../types';
+import { describeMstRegionMismatch, getMstConfigIdentifier } from '../networking/spanningTreeProtocol';
+import { isSwitchingDevice } from '../networking/multilayerSwitch';
 
 /**
  * VLAN configuration validation result
@@ -35,6 +38,7 @@ export enum VlanWarningType {
   SINGLE_PORT_VLAN = 'single_port_vlan',
   TRUNK_NATIVE_VLAN = 'trunk_native_vlan',
   VLAN_MISMATCH = 'vlan_mismatch',
+  MST_REGION_MISMATCH = 'mst_region_mismatch',
 }
 
 /**
@@ -210,7 +214,7 @@ export const getInterfaceVlans = (networkInterface: NetworkInterface): number[]
 /**
  * Get all VLANs used by a switch
  */
-export const getSwitchVlans = (device: SwitchDevice): number[] => {
+export const getSwitchVlans = (device: SwitchingDevice): number[] => {
   const vlanSet = new Set<number>();
   
   device.interfaces.forEach(iface => {
@@ -441,6 +445,27 @@ export const validateNetworkVlanConfig = (
     const dst = deviceMap.get(conn.targetDevice);
     if (!src || !dst) return;
 
+    // Two MST switches with different region configuration meet at a region boundary
+    const mstConfig = (d: NetworkDevice) => isSwitchingDevice(d) && d.spanningTreeEnabled &&
+      d.spanningTreeConfig?.mode === 'mst' ? d.spanningTreeConfig?.mst : null;
+    const srcMst = mstConfig(src);
+    const dstMst = mstConfig(dst);
+    const mismatch = srcMst !== null && dstMst !== null
+      ? describeMstRegionMismatch(getMstConfigIdentifier(srcMst), getMstConfigIdentifier(dstMst))
+      : undefined;
+    if (mismatch) {
+      const warn: VlanWarning = {
+        type: VlanWarningType.MST_REGION_MISMATCH,
+        message: `MST region mismatch between ${src.name} and ${dst.name}: ${mismatch}`,
+        deviceId: src.id,
+      };
+      allWarnings.push(warn);
+      byDevice[src.id] = byDevice[src.id] || { warnings: [], errors: [] };
+      byDevice[src.id].warnings.push(warn);
+      byDevice[dst.id] = byDevice[dst.id] || { warnings: [], errors: [] };
+      byDevice[dst.id].warnings.push(warn);
+    }
+
     const srcIf = (src as any).interfaces?.find((i: any) => i.id === conn.sourceInterface);
     const dstIf = (dst as any).interfaces?.find((i: any) => i.id === conn.targetInterface);
     if (!srcIf || !dstIf) return;